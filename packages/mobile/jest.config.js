@@ -3,7 +3,7 @@ module.exports = {
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|react-native-vector-icons|react-native-reanimated|@react-navigation)/)',
+    'node_modules/(?!(react-native|@react-native|react-native-vector-icons|react-native-reanimated|@react-navigation|@noble)/)',
   ],
   testMatch: [
     '**/__tests__/**/*.(ts|tsx|js)',
@@ -0,0 +1,54 @@
+import { isPaymentUri, parsePaymentUri } from '@/utils/bip21';
+
+const ADDRESS = 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl';
+// BOLT11 specification example (testnet)
+const TESTNET_INVOICE = 'lntb20m1pvjluezhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqfpp3x9et2e20v6pu37c5d9vax37wxq72un98kmzzhznpurw9sgl2v0nklu2g4d0keph5t7tj9tcqd8rexnd07ux4uv2cjvcqwaxgj7v4uwn5wmypjd5n69z2xm3xgksg28nwht7f6zspwp3f9t';
+
+describe('bip21', () => {
+  describe('parsePaymentUri', () => {
+    it('should read unified URIs with their amount and text', () => {
+      const uri = `bitcoin:${ADDRESS}?amount=0.0005&label=Vault%20deposit&message=Thanks!&lightning=${TESTNET_INVOICE}`;
+
+      expect(parsePaymentUri(uri)).toEqual({
+        valid: true,
+        payment: {
+          address: ADDRESS,
+          amount: 0.0005,
+          label: 'Vault deposit',
+          message: 'Thanks!',
+          lightning: TESTNET_INVOICE,
+        },
+      });
+    });
+
+    it('should accept uppercase QR-code URIs and invoice-only URIs', () => {
+      const uri = `BITCOIN:${ADDRESS.toUpperCase()}?AMOUNT=1.5`;
+
+      expect(isPaymentUri(uri)).toBe(true);
+      expect(parsePaymentUri(uri)).toEqual({ valid: true, payment: { address: ADDRESS, amount: 1.5 } });
+      expect(parsePaymentUri(`bitcoin:?lightning=${TESTNET_INVOICE.toUpperCase()}`))
+        .toEqual({ valid: true, payment: { lightning: TESTNET_INVOICE } });
+    });
+
+    it('should ignore parameters it does not use but refuse unknown requirements', () => {
+      expect(parsePaymentUri(`bitcoin:${ADDRESS}?somethingelse=x`)).toEqual({ valid: true, payment: { address: ADDRESS } });
+      expect(parsePaymentUri(`bitcoin:${ADDRESS}?req-somethingelse=x`))
+        .toEqual({ valid: false, error: 'Unsupported payment requirement req-somethingelse' });
+    });
+
+    it('should reject malformed amounts', () => {
+      for (const amount of ['1,000', '1e-3', '-1', '0', '0.123456789', 'abc']) {
+        expect(parsePaymentUri(`bitcoin:${ADDRESS}?amount=${amount}`))
+          .toEqual({ valid: false, error: `Invalid amount ${amount}` });
+      }
+    });
+
+    it('should reject links without a usable destination', () => {
+      expect(parsePaymentUri('bitcoin:?amount=1').valid).toBe(false);
+      expect(parsePaymentUri('bitcoin:notanaddress').valid).toBe(false);
+      expect(parsePaymentUri('bitcoin:?lightning=lnurl1dp68gurn8ghj7').valid).toBe(false);
+      expect(parsePaymentUri(ADDRESS).valid).toBe(false);
+      expect(isPaymentUri(ADDRESS)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+import { LnurlPayRequest, fetchPayInvoice, isLnurl, lnurlUrl, resolveLnurlPay } from '@/utils/lnurl';
+
+// LUD-01 example
+const LNURL = 'LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS';
+const LNURL_TARGET = 'https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df';
+
+// BOLT11 specification examples, signed by the key below; the testnet one commits to a description by hash
+const MAINNET_INVOICE = 'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp';
+const TESTNET_INVOICE = 'lntb20m1pvjluezhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqfpp3x9et2e20v6pu37c5d9vax37wxq72un98kmzzhznpurw9sgl2v0nklu2g4d0keph5t7tj9tcqd8rexnd07ux4uv2cjvcqwaxgj7v4uwn5wmypjd5n69z2xm3xgksg28nwht7f6zspwp3f9t';
+const TESTNET_DESCRIPTION = 'One piece of chocolate cake, one icecream cone, one pickle, one slice of swiss cheese, one slice of salami, one lollypop, one piece of cherry pie, one sausage, one cupcake, and one slice of watermelon';
+
+const PAYEE_KEY = hexToBytes('e126f68f7eafcc8b74f54d269fe206be715000f94dac067d1c04a8ca3b2db734');
+const PAYMENT_HASH = '0001020304050607080900010203040506070809000102030405060708090102';
+
+const METADATA = JSON.stringify([['text/plain', 'Tip alice'], ['text/identifier', 'alice@example.com']]);
+
+const PAY_REQUEST: LnurlPayRequest = {
+  domain: 'example.com',
+  callback: 'https://example.com/lnurlp/alice/callback',
+  minSendable: 1000,
+  maxSendable: 2000000000,
+  metadata: METADATA,
+  description: 'Tip alice',
+  commentAllowed: 20,
+};
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+const polymod = (values: number[]): number => {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  values.forEach(value => {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generators.forEach((generator, bit) => {
+      if ((top >>> bit) & 1) {
+        checksum ^= generator;
+      }
+    });
+  });
+  return checksum >>> 0;
+};
+
+const bech32 = (hrp: string, data: number[]): string => {
+  const expanded = hrp.split('').map(c => c.charCodeAt(0) >> 5).concat([0], hrp.split('').map(c => c.charCodeAt(0) & 31));
+  const mod = polymod([...expanded, ...data, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = [0, 1, 2, 3, 4, 5].map(i => (mod >> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...data, ...checksum].map(word => CHARSET[word]).join('')}`;
+};
+
+const toWords = (bytes: Uint8Array): number[] => {
+  const words: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  Array.from(bytes).forEach(byte => {
+    accumulator = (accumulator << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      words.push((accumulator >> bits) & 31);
+    }
+  });
+  if (bits > 0) {
+    words.push((accumulator << (5 - bits)) & 31);
+  }
+  return words;
+};
+
+const numberWords = (value: number, length: number): number[] => {
+  const words: number[] = [];
+  for (; value > 0; value = Math.floor(value / 32)) {
+    words.unshift(value % 32);
+  }
+  return [...Array(length - words.length).fill(0), ...words];
+};
+
+const field = (tag: string, words: number[]): number[] => [CHARSET.indexOf(tag), words.length >> 5, words.length & 31, ...words];
+
+// Build and sign an invoice the way a node would
+const encodeInvoice = (hrp: string, fields: number[][]): string => {
+  const body = [...numberWords(1700000000, 7), ...fields.flat()];
+  const bytes = new Uint8Array(Math.ceil(body.length * 5 / 8));
+  body.forEach((word, i) => {
+    for (let bit = 0; bit < 5; bit++) {
+      const position = i * 5 + bit;
+      bytes[position >> 3] |= ((word >> (4 - bit)) & 1) << (7 - (position & 7));
+    }
+  });
+
+  const recovered = secp256k1.sign(sha256(concatBytes(utf8ToBytes(hrp), bytes)), PAYEE_KEY, { prehash: false, format: 'recovered' });
+  const signature = concatBytes(recovered.slice(1), recovered.slice(0, 1));
+  return bech32(hrp, [...body, ...toWords(signature)]);
+};
+
+// The same invoice with its signature words replaced
+const resign = (invoice: string, signature: number[]): string => {
+  const separator = invoice.lastIndexOf('1');
+  const words = invoice.slice(separator + 1, -6).split('').map(char => CHARSET.indexOf(char));
+  return bech32(invoice.slice(0, separator), [...words.slice(0, -104), ...signature]);
+};
+
+describe('lnurl', () => {
+  let fetchMock: jest.Mock;
+
+  const respond = (body: any, status = 200) => fetchMock.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+  });
+
+  describe('lnurlUrl', () => {
+    it('should decode bech32 LNURLs, with or without a lightning: prefix', () => {
+      expect(lnurlUrl(LNURL)).toBe(LNURL_TARGET);
+      expect(lnurlUrl(`lightning:${LNURL.toLowerCase()}`)).toBe(LNURL_TARGET);
+    });
+
+    it('should turn Lightning Addresses and LUD-17 links into their https URLs', () => {
+      expect(lnurlUrl('Alice@Example.com')).toBe('https://example.com/.well-known/lnurlp/alice');
+      expect(lnurlUrl('lnurlp://example.com/pay')).toBe('https://example.com/pay');
+    });
+
+    it('should not take invoices or damaged LNURLs for LNURLs', () => {
+      expect(isLnurl(MAINNET_INVOICE)).toBe(false);
+      expect(isLnurl('lnbc2500u1pvjluez')).toBe(false);
+      expect(isLnurl(LNURL.slice(0, -1))).toBe(false);
+    });
+  });
+
+  describe('resolveLnurlPay', () => {
+    it('should read pay requests and their metadata', async () => {
+      respond({
+        tag: 'payRequest',
+        callback: 'https://example.com/lnurlp/alice/callback',
+        minSendable: 1000,
+        maxSendable: 2000000000,
+        metadata: METADATA,
+        commentAllowed: 20,
+      });
+
+      const result = await resolveLnurlPay('alice@example.com');
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/.well-known/lnurlp/alice');
+      expect(result).toEqual({ valid: true, request: PAY_REQUEST });
+    });
+
+    it('should report the reason a service gives for an error', async () => {
+      respond({ status: 'ERROR', reason: 'Unknown user' });
+
+      expect(await resolveLnurlPay('bob@example.com')).toEqual({ valid: false, error: 'Unknown user' });
+    });
+
+    it('should refuse callbacks that are not https', async () => {
+      respond({ tag: 'payRequest', callback: 'http://example.com/cb', minSendable: 1000, maxSendable: 5000, metadata: METADATA });
+
+      expect(await resolveLnurlPay('alice@example.com')).toEqual({ valid: false, error: 'example.com sent an invalid callback URL' });
+    });
+  });
+
+  describe('fetchPayInvoice', () => {
+    const request = { ...PAY_REQUEST, metadata: TESTNET_DESCRIPTION };
+
+    it('should ask for the amount and comment and return an invoice that commits to the metadata', async () => {
+      respond({ pr: TESTNET_INVOICE, successAction: { tag: 'message', message: 'Thanks!' } });
+
+      const invoice = await fetchPayInvoice(request, 2000000000, 'gm');
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/lnurlp/alice/callback?amount=2000000000&comment=gm');
+      expect(invoice).toEqual({ invoice: TESTNET_INVOICE, successMessage: 'Thanks!' });
+    });
+
+    it('should reject invoices for another amount or description', async () => {
+      respond({ pr: TESTNET_INVOICE });
+      await expect(fetchPayInvoice(request, 1000000)).rejects.toThrow('different amount');
+
+      respond({ pr: MAINNET_INVOICE });
+      await expect(fetchPayInvoice(request, 250000000)).rejects.toThrow('does not match its metadata');
+    });
+
+    it('should reject invoices whose signature does not check out', async () => {
+      const descriptionHash = field('h', toWords(sha256(utf8ToBytes(METADATA))));
+      const paymentHash = field('p', toWords(hexToBytes(PAYMENT_HASH)));
+      const signed = encodeInvoice('lnbc50n', [paymentHash, descriptionHash]);
+
+      respond({ pr: signed });
+      expect((await fetchPayInvoice(PAY_REQUEST, 5000)).invoice).toBe(signed);
+
+      respond({ pr: resign(signed, Array(104).fill(0)) });
+      await expect(fetchPayInvoice(PAY_REQUEST, 5000)).rejects.toThrow('unreadable invoice');
+
+      // Signed by the payee's key but naming another node
+      respond({ pr: encodeInvoice('lnbc50n', [paymentHash, descriptionHash, field('n', toWords(hexToBytes('02' + '11'.repeat(32))))]) });
+      await expect(fetchPayInvoice(PAY_REQUEST, 5000)).rejects.toThrow('unreadable invoice');
+    });
+  });
+});
@@ -131,7 +131,11 @@ export const useWallet = () => {
 
   // Send payment mutation
   const sendPaymentMutation = useMutation({
-    mutationFn: async ({ type, amount }: { type: 'lightning' | 'bitcoin'; amount: number }): Promise<Payment> => {
+    mutationFn: async ({ type, amount, destination }: {
+      type: 'lightning' | 'bitcoin';
+      amount: number;
+      destination?: string;
+    }): Promise<Payment> => {
       setIsLoading(true);
       setError(null);
 
@@ -151,6 +155,7 @@ export const useWallet = () => {
           timestamp: new Date(),
           status: 'completed',
           description: 'Payment sent',
+          ...(destination && (type === 'lightning' ? { invoice: destination } : { address: destination })),
         };
       } catch (err) {
         const error = err as Error;
@@ -186,7 +191,7 @@ export const useWallet = () => {
     createPaymentMutation.mutate(type);
   }, [createPaymentMutation]);
 
-  const sendPayment = useCallback((type: 'lightning' | 'bitcoin', amount: number = 0.001) => {
+  const sendPayment = useCallback((type: 'lightning' | 'bitcoin', amount: number = 0.001, destination?: string) => {
     if (amount <= 0) {
       Alert.alert('Error', 'Amount must be greater than 0');
       return;
@@ -197,7 +202,7 @@ export const useWallet = () => {
       return;
     }
 
-    sendPaymentMutation.mutate({ type, amount });
+    sendPaymentMutation.mutate({ type, amount, destination });
   }, [sendPaymentMutation, balance]);
 
   const refresh = useCallback(() => {
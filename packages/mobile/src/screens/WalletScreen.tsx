@@ -14,15 +14,24 @@ import { WalletCard } from '@/components/wallet/WalletCard';
 import { PaymentList } from '@/components/wallet/PaymentList';
 import { ActionButtons } from '@/components/common/ActionButtons';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { Button, Input } from '@/components/ui';
 
 // Hooks
 import { useWallet } from '@/hooks/useWallet';
 
+// Utils
+import { parsePaymentUri } from '@/utils/bip21';
+import { LnurlPayRequest, fetchPayInvoice, isLnurl, resolveLnurlPay } from '@/utils/lnurl';
+
 // Theme
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 
 export const WalletScreen: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'lightning' | 'bitcoin'>('lightning');
+  const [paymentLink, setPaymentLink] = useState('');
+  const [paymentLinkError, setPaymentLinkError] = useState<string | undefined>();
+  const [lnurlRequest, setLnurlRequest] = useState<LnurlPayRequest | null>(null);
+  const [lnurlAmount, setLnurlAmount] = useState('');
   const {
     balance,
     payments,
@@ -44,6 +53,99 @@ export const WalletScreen: React.FC = () => {
     );
   };
 
+  const resetPaymentLink = () => {
+    setPaymentLink('');
+    setLnurlRequest(null);
+    setLnurlAmount('');
+  };
+
+  // A Lightning Address or LNURL-pay link is looked up first; unless it asks for a fixed amount, the amount is entered next
+  const handlePayLnurl = async () => {
+    let request = lnurlRequest;
+    if (!request) {
+      const result = await resolveLnurlPay(paymentLink);
+      if (!result.valid) {
+        setPaymentLinkError(result.error);
+        return;
+      }
+      request = result.request;
+      setLnurlRequest(request);
+      setActiveTab('lightning');
+      if (request.minSendable !== request.maxSendable) {
+        return;
+      }
+    }
+
+    const amount = request.minSendable === request.maxSendable
+      ? request.minSendable / 100000000000
+      : parseFloat(lnurlAmount);
+    if (!(amount > 0)) {
+      setPaymentLinkError('Enter an amount');
+      return;
+    }
+
+    let invoice: string;
+    try {
+      ({ invoice } = await fetchPayInvoice(request, Math.round(amount * 100000000000)));
+    } catch (error) {
+      setPaymentLinkError((error as Error).message);
+      return;
+    }
+
+    Alert.alert(
+      'Send Payment',
+      `${amount} BTC via lightning to ${request.domain}\n\n${request.description}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send',
+          onPress: () => {
+            sendPayment('lightning', amount, invoice);
+            resetPaymentLink();
+          },
+        },
+      ]
+    );
+  };
+
+  // A pasted bitcoin: link fills in the destination and amount; a unified link pays on the open tab's rail
+  const handlePayLink = () => {
+    if (isLnurl(paymentLink)) {
+      handlePayLnurl();
+      return;
+    }
+
+    const result = parsePaymentUri(paymentLink);
+    if (!result.valid) {
+      setPaymentLinkError(result.error);
+      return;
+    }
+
+    const { payment } = result;
+    const offersActiveTab = activeTab === 'lightning' ? !!payment.lightning : !!payment.address;
+    const type = offersActiveTab ? activeTab : activeTab === 'lightning' ? 'bitcoin' : 'lightning';
+    const destination = type === 'lightning' ? payment.lightning! : payment.address!;
+
+    setPaymentLinkError(undefined);
+    setActiveTab(type);
+    Alert.alert(
+      'Send Payment',
+      `${payment.amount !== undefined ? `${payment.amount} BTC` : 'Payment'} via ${type} to:\n${destination}` +
+        (payment.label ? `\n\n${payment.label}` : '') +
+        (payment.message ? `\n${payment.message}` : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send',
+          onPress: () => {
+            sendPayment(type, payment.amount, destination);
+            setPaymentLink('');
+          },
+        },
+      ]
+    );
+  };
+
   const handleReceivePayment = () => {
     Alert.alert(
       'Receive Payment',
@@ -104,6 +206,38 @@ export const WalletScreen: React.FC = () => {
         disabled={isLoading}
       />
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Pay a Link</Text>
+        <Input
+          value={paymentLink}
+          onChangeText={text => {
+            setPaymentLink(text);
+            setPaymentLinkError(undefined);
+            setLnurlRequest(null);
+          }}
+          placeholder="bitcoin:bc1q..., lnurl1... or name@domain.com"
+          autoCapitalize="none"
+          autoCorrect={false}
+          error={paymentLinkError}
+        />
+        {lnurlRequest && lnurlRequest.minSendable !== lnurlRequest.maxSendable && (
+          <Input
+            value={lnurlAmount}
+            onChangeText={text => {
+              setLnurlAmount(text);
+              setPaymentLinkError(undefined);
+            }}
+            placeholder={`${lnurlRequest.minSendable / 100000000000} - ${lnurlRequest.maxSendable / 100000000000} BTC`}
+            keyboardType="decimal-pad"
+          />
+        )}
+        <Button
+          title="Pay"
+          onPress={handlePayLink}
+          disabled={isLoading || !paymentLink.trim()}
+        />
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Recent Payments</Text>
         <PaymentList
@@ -0,0 +1,94 @@
+export interface PaymentUri {
+  address?: string;
+  amount?: number; // BTC
+  label?: string;
+  message?: string;
+  lightning?: string; // BOLT11 invoice
+}
+
+export type PaymentUriResult =
+  | { valid: true; payment: PaymentUri }
+  | { valid: false; error: string };
+
+const SCHEME = 'bitcoin:';
+
+// Format checks only; the node rejects a bad checksum before anything is sent
+const ADDRESS_FORMAT = /^(?:(?:bc|tb|bcrt)1[02-9ac-hj-np-z]{8,87}|[13mn2][1-9A-HJ-NP-Za-km-z]{25,34})$/i;
+const INVOICE_FORMAT = /^ln(?:bcrt|bc|tbs|tb)[0-9a-z]+$/i;
+const AMOUNT_FORMAT = /^\d+(\.\d{0,8})?$|^\.\d{1,8}$/;
+
+/**
+ * Whether pasted text is a `bitcoin:` URI rather than a bare address or invoice
+ */
+export const isPaymentUri = (input: string): boolean =>
+  input.trim().toLowerCase().startsWith(SCHEME);
+
+/**
+ * Parse a BIP21 `bitcoin:` URI with its `amount`, `label`, `message` and `lightning=` parameters.
+ * Unknown `req-` parameters make the URI unusable, as BIP21 requires.
+ */
+export const parsePaymentUri = (input: string): PaymentUriResult => {
+  const uri = input.trim();
+  if (!isPaymentUri(uri)) {
+    return { valid: false, error: 'Not a bitcoin: payment link' };
+  }
+
+  const rest = uri.slice(SCHEME.length);
+  const queryStart = rest.indexOf('?');
+  const path = queryStart === -1 ? rest : rest.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+
+  const params: Record<string, string> = {};
+  try {
+    query.split('&').filter(Boolean).forEach(pair => {
+      const separator = pair.indexOf('=');
+      const key = (separator === -1 ? pair : pair.slice(0, separator)).toLowerCase();
+      const value = separator === -1 ? '' : pair.slice(separator + 1);
+      params[key] = decodeURIComponent(value.replace(/\+/g, ' '));
+    });
+  } catch (error) {
+    return { valid: false, error: 'Payment link is not valid URI encoding' };
+  }
+
+  const requirement = Object.keys(params).find(key => key.startsWith('req-'));
+  if (requirement) {
+    return { valid: false, error: `Unsupported payment requirement ${requirement}` };
+  }
+
+  const payment: PaymentUri = {};
+
+  if (path) {
+    if (!ADDRESS_FORMAT.test(path)) {
+      return { valid: false, error: 'Payment link has an invalid Bitcoin address' };
+    }
+    // bech32 addresses are often uppercased in QR codes
+    payment.address = /^(bc|tb|bcrt)1/i.test(path) ? path.toLowerCase() : path;
+  }
+
+  if (params.lightning) {
+    if (!INVOICE_FORMAT.test(params.lightning)) {
+      return { valid: false, error: 'Payment link has an invalid Lightning invoice' };
+    }
+    payment.lightning = params.lightning.toLowerCase();
+  }
+
+  if (!payment.address && !payment.lightning) {
+    return { valid: false, error: 'Payment link has neither an address nor a Lightning invoice' };
+  }
+
+  if (params.amount !== undefined) {
+    if (!AMOUNT_FORMAT.test(params.amount) || Number(params.amount) <= 0) {
+      return { valid: false, error: `Invalid amount ${params.amount}` };
+    }
+    payment.amount = Number(params.amount);
+  }
+
+  if (params.label) {
+    payment.label = params.label;
+  }
+  if (params.message) {
+    payment.message = params.message;
+  }
+
+  return { valid: true, payment };
+};
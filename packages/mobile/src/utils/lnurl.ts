@@ -0,0 +1,275 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+
+export interface LnurlPayRequest {
+  domain: string;
+  callback: string;
+  minSendable: number; // millisatoshis
+  maxSendable: number;
+  metadata: string; // JSON the invoice's description hash commits to
+  description: string;
+  commentAllowed: number;
+}
+
+export type LnurlPayResult =
+  | { valid: true; request: LnurlPayRequest }
+  | { valid: false; error: string };
+
+export interface LnurlInvoice {
+  invoice: string;
+  successMessage?: string;
+}
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const LIGHTNING_ADDRESS = /^([a-z0-9\-_.+]+)@((?:[a-z0-9-]+\.)+[a-z0-9-]+)$/i;
+const INVOICE_AMOUNT = /^ln(?:bcrt|bc|tbs|tb)(\d+)([munp]?)$/;
+const MSAT_PER_UNIT: Record<string, number> = { '': 100000000000, m: 100000000, u: 100000, n: 100, p: 0.1 };
+const DESCRIPTION_HASH_TAG = 23;
+const PAYEE_TAG = 19;
+const SIGNATURE_WORDS = 104;
+const TIMESTAMP_WORDS = 7;
+
+/**
+ * The https URL behind a bech32 `lnurl1…` string, a LUD-17 `lnurlp://` link or a `name@domain`
+ * Lightning Address; null for anything else
+ */
+export const lnurlUrl = (input: string): string | null => {
+  const value = input.trim().replace(/^lightning:/i, '');
+
+  if (/^lnurl1/i.test(value)) {
+    const decoded = decodeBech32(value);
+    if (!decoded || decoded.hrp !== 'lnurl') {
+      return null;
+    }
+    const url = String.fromCharCode(...wordsToBytes(decoded.words));
+    return url.startsWith('https://') ? url : null;
+  }
+
+  if (/^lnurlp:\/\//i.test(value)) {
+    return value.replace(/^lnurlp:\/\//i, 'https://');
+  }
+
+  const address = LIGHTNING_ADDRESS.exec(value);
+  if (address) {
+    return `https://${address[2].toLowerCase()}/.well-known/lnurlp/${address[1].toLowerCase()}`;
+  }
+  return null;
+};
+
+/**
+ * Whether pasted text is an LNURL or Lightning Address rather than an invoice or `bitcoin:` link
+ */
+export const isLnurl = (input: string): boolean => lnurlUrl(input) !== null;
+
+/**
+ * Look up what an LNURL-pay link or Lightning Address accepts
+ */
+export const resolveLnurlPay = async (input: string): Promise<LnurlPayResult> => {
+  const url = lnurlUrl(input);
+  if (!url) {
+    return { valid: false, error: 'Not an LNURL or Lightning Address' };
+  }
+
+  const domain = url.replace(/^https:\/\//, '').split(/[/:?]/)[0];
+  try {
+    const response = await getJson(url);
+    if (response.tag !== 'payRequest') {
+      return { valid: false, error: `${domain} is not asking for a payment` };
+    }
+
+    const minSendable = Number(response.minSendable);
+    const maxSendable = Number(response.maxSendable);
+    const entries = JSON.parse(response.metadata);
+    const description = Array.isArray(entries) ? entries.find((entry: string[]) => entry[0] === 'text/plain')?.[1] : undefined;
+    if (!(minSendable > 0 && maxSendable >= minSendable) || description === undefined) {
+      return { valid: false, error: `${domain} sent an invalid payment request` };
+    }
+    if (typeof response.callback !== 'string' || !response.callback.startsWith('https://')) {
+      return { valid: false, error: `${domain} sent an invalid callback URL` };
+    }
+
+    return {
+      valid: true,
+      request: {
+        domain,
+        callback: response.callback,
+        minSendable,
+        maxSendable,
+        metadata: response.metadata,
+        description,
+        commentAllowed: Number(response.commentAllowed) || 0,
+      },
+    };
+  } catch (error) {
+    return { valid: false, error: (error as Error).message };
+  }
+};
+
+/**
+ * Ask an LNURL-pay service for an invoice, and only hand it back if it is for exactly the amount
+ * asked for and commits to the service's metadata
+ */
+export const fetchPayInvoice = async (
+  request: LnurlPayRequest,
+  amountMsat: number,
+  comment?: string
+): Promise<LnurlInvoice> => {
+  if (amountMsat < request.minSendable || amountMsat > request.maxSendable) {
+    throw new Error(`${request.domain} accepts between ${request.minSendable / 1000} and ${request.maxSendable / 1000} sats`);
+  }
+
+  const separator = request.callback.includes('?') ? '&' : '?';
+  const commentParam = comment && request.commentAllowed > 0
+    ? `&comment=${encodeURIComponent(comment.slice(0, request.commentAllowed))}`
+    : '';
+  const response = await getJson(`${request.callback}${separator}amount=${amountMsat}${commentParam}`);
+
+  const invoice = typeof response.pr === 'string' ? response.pr.toLowerCase() : '';
+  const read = readInvoice(invoice);
+  if (!read) {
+    throw new Error(`${request.domain} returned an unreadable invoice`);
+  }
+  if (read.amountMsat !== amountMsat) {
+    throw new Error(`${request.domain} returned an invoice for a different amount`);
+  }
+  if (read.descriptionHash !== bytesToHex(sha256(utf8ToBytes(request.metadata)))) {
+    throw new Error(`${request.domain} returned an invoice that does not match its metadata`);
+  }
+
+  const successMessage = response.successAction?.tag === 'message' ? String(response.successAction.message) : undefined;
+  return { invoice, successMessage };
+};
+
+// Every LNURL response may instead be {status: 'ERROR', reason}
+const getJson = async (url: string): Promise<any> => {
+  const response = await fetch(url);
+  const body = await response.json().catch(() => null);
+  if (body?.status === 'ERROR') {
+    throw new Error(body.reason || 'The service refused the request');
+  }
+  if (!response.ok || !body) {
+    throw new Error(`The service answered with status ${response.status}`);
+  }
+  return body;
+};
+
+// Amount and description hash, once the signature recovers a payee that matches the invoice's `n` field if it has one
+const readInvoice = (invoice: string): { amountMsat?: number; descriptionHash?: string } | null => {
+  const decoded = decodeBech32(invoice);
+  const amount = decoded && INVOICE_AMOUNT.exec(decoded.hrp);
+  if (!decoded || !amount || (amount[2] === 'p' && !amount[1].endsWith('0'))) {
+    return null;
+  }
+
+  const body = decoded.words.slice(0, -SIGNATURE_WORDS);
+  const words = body.slice(TIMESTAMP_WORDS);
+  let descriptionHash: string | undefined;
+  let payee: string | undefined;
+  for (let offset = 0; offset < words.length;) {
+    if (offset + 3 > words.length) {
+      return null;
+    }
+    const length = words[offset + 1] * 32 + words[offset + 2];
+    if (offset + 3 + length > words.length) {
+      return null;
+    }
+    const data = words.slice(offset + 3, offset + 3 + length);
+    if (words[offset] === DESCRIPTION_HASH_TAG && length === 52) {
+      descriptionHash = bytesToHex(new Uint8Array(wordsToBytes(data)));
+    }
+    if (words[offset] === PAYEE_TAG && length === 53) {
+      payee = bytesToHex(new Uint8Array(wordsToBytes(data)));
+    }
+    offset += 3 + length;
+  }
+
+  const signer = recoverPayee(decoded.hrp, body, decoded.words.slice(-SIGNATURE_WORDS));
+  if (!signer || (payee && payee !== signer)) {
+    return null;
+  }
+
+  return {
+    amountMsat: amount[1] ? Math.round(Number(amount[1]) * MSAT_PER_UNIT[amount[2]]) : undefined,
+    descriptionHash,
+  };
+};
+
+// The signature covers the human-readable part and the data before it, zero-padded to whole bytes
+const recoverPayee = (hrp: string, body: number[], signatureWords: number[]): string | null => {
+  const signature = new Uint8Array(wordsToBytes(signatureWords));
+  const recovery = signature[64];
+  if (signature.length !== 65 || recovery > 3) {
+    return null;
+  }
+
+  try {
+    const digest = sha256(concatBytes(utf8ToBytes(hrp), new Uint8Array(wordsToBytes(body, true))));
+    const point = secp256k1.Signature.fromBytes(signature.slice(0, 64), 'compact')
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(digest);
+    return bytesToHex(point.toBytes(true));
+  } catch (error) {
+    return null;
+  }
+};
+
+const decodeBech32 = (value: string): { hrp: string; words: number[] } | null => {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    return null;
+  }
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    return null;
+  }
+
+  const hrp = lower.slice(0, separator);
+  const data = lower.slice(separator + 1).split('').map(char => CHARSET.indexOf(char));
+  if (data.some(word => word === -1)) {
+    return null;
+  }
+
+  const expanded = hrp.split('').map(char => char.charCodeAt(0) >> 5)
+    .concat([0], hrp.split('').map(char => char.charCodeAt(0) & 31));
+  if (polymod(expanded.concat(data)) !== 1) {
+    return null;
+  }
+  return { hrp, words: data.slice(0, -6) };
+};
+
+const polymod = (values: number[]): number => {
+  let checksum = 1;
+  values.forEach(value => {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    GENERATORS.forEach((generator, bit) => {
+      if ((top >>> bit) & 1) {
+        checksum ^= generator;
+      }
+    });
+  });
+  return checksum >>> 0;
+};
+
+// 5-bit words to bytes, dropping the bits that pad the last word; the signed data instead gets its
+// final partial byte filled out with zeros
+const wordsToBytes = (words: number[], pad = false): number[] => {
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  words.forEach(word => {
+    accumulator = ((accumulator << 5) | word) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  });
+  if (pad && bits > 0) {
+    bytes.push((accumulator << (8 - bits)) & 0xff);
+  }
+  return bytes;
+};
@@ -21,5 +21,15 @@ const customJestConfig = {
   ],
 }
 
+// Packages that only ship ES modules (to jsdom's browser condition, in uint8array-tools' case), wherever they are nested
+const esmPackages = ['@noble', '@scure', 'uint8array-tools']
+
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
-module.exports = createJestConfig(customJestConfig)
\ No newline at end of file
+module.exports = async () => {
+  const config = await createJestConfig(customJestConfig)()
+  // next/jest always ignores node_modules, and custom patterns can only be added to its list; replace that entry
+  config.transformIgnorePatterns = config.transformIgnorePatterns.map(pattern =>
+    pattern === '/node_modules/' ? `/node_modules/(?!(?:.+/node_modules/)?(?:${esmPackages.join('|')})/)` : pattern
+  )
+  return config
+}
\ No newline at end of file
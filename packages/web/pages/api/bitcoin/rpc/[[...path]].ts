@@ -0,0 +1,3 @@
+import { createBitcoinRpcProxy } from '@/lib/rpcProxy'
+
+export default createBitcoinRpcProxy()
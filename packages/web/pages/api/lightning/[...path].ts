@@ -0,0 +1,3 @@
+import { createLightningProxy } from '@/lib/rpcProxy'
+
+export default createLightningProxy()
@@ -0,0 +1,3 @@
+import { createSessionRoute } from '@/lib/apiSession'
+
+export default createSessionRoute()
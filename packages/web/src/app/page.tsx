@@ -4,10 +4,13 @@ import { useState } from 'react'
 import { VaultBalanceCard } from '@/components/vault/VaultBalanceCard'
 import { YieldOverview } from '@/components/vault/YieldOverview'
 import { DepositModal } from '@/components/vault/DepositModal'
+import { WithdrawModal } from '@/components/vault/WithdrawModal'
 import { TransactionHistory } from '@/components/vault/TransactionHistory'
+import { ChannelManagementPanel } from '@/components/vault/ChannelManagementPanel'
 import { ErrorBoundary, SdkErrorFallback } from '@/components/ui/error-boundary'
 import { useVault } from '@/hooks/useVault'
 import { Bitcoin, TrendingUp, Activity, Settings, Wifi, WifiOff } from 'lucide-react'
+import { PaymentFeeLimit } from '@/types/atomiq'
 
 export default function HomePage() {
   const [showDepositModal, setShowDepositModal] = useState(false)
@@ -24,27 +27,55 @@ export default function HomePage() {
   sdkStatus,
   bitcoinAddress,
   lightningInvoice,
+  feeEstimates,
+  bitcoinNetwork,
   deposit,
   withdraw,
+  resolveLnurl,
+  probePayment,
+  paymentProgress,
+  getChannelLiquidity,
+  suggestRebalances,
+  rebalanceChannels,
+  getRebalanceFeeSpend,
   claimYield,
+  previewSpeedUp,
+  speedUpTransaction,
   refetch,
-  refreshTransactions
+  refreshTransactions,
+  loadMoreTransactions,
+  hasMoreTransactions,
+  loadingMore
 } = useVault(userId, {
   enableRealData: true,
   autoRefresh: true
 })
 
-  const handleDeposit = (amount: number, method: 'bitcoin' | 'lightning') => {
-    deposit({ amount, method, userId })
-      .then(() => {
+  const handleDeposit = (amount: number, method: 'bitcoin' | 'lightning', lnurl?: string) => {
+    return deposit({ amount, method, userId, lnurl })
+      .then(result => {
+        // A Lightning deposit keeps the modal open on its invoice until it is paid
+        if ('invoice' in result) {
+          return { invoice: result.invoice }
+        }
         setShowDepositModal(false)
       })
       .catch(console.error)
   }
 
-  const handleWithdraw = (amount: number, method: 'bitcoin' | 'lightning', destination: string) => {
-    withdraw({ amount, method, destination, userId })
-      .then(() => {
+  const handleWithdraw = (
+    amount: number,
+    method: 'bitcoin' | 'lightning',
+    destination: string,
+    comment?: string,
+    feeLimit?: PaymentFeeLimit
+  ) => {
+    return withdraw({ amount, method, destination, userId, comment, feeLimit })
+      .then(result => {
+        // Keep the modal open on whatever an LNURL-pay service asked to show once paid
+        if ('successAction' in result && result.successAction) {
+          return { successAction: result.successAction }
+        }
         setShowWithdrawModal(false)
       })
       .catch(console.error)
@@ -129,12 +160,27 @@ export default function HomePage() {
           </div>
         </div>
 
+        {/* Lightning Channels */}
+        <div className="mt-8">
+          <ChannelManagementPanel
+            loadLiquidity={getChannelLiquidity}
+            suggestRebalances={suggestRebalances}
+            onRebalance={rebalanceChannels}
+            getFeeSpend={getRebalanceFeeSpend}
+          />
+        </div>
+
         {/* Transaction History */}
         <div className="mt-8">
           <TransactionHistory
             transactions={transactions}
             loading={loading}
             onRefresh={refreshTransactions}
+            onPreviewSpeedUp={previewSpeedUp}
+            onSpeedUp={speedUpTransaction}
+            onLoadMore={loadMoreTransactions}
+            hasMore={hasMoreTransactions}
+            loadingMore={loadingMore}
             autoRefresh={true}
             refreshInterval={30000}
           />
@@ -179,6 +225,21 @@ export default function HomePage() {
         loading={loading}
         bitcoinAddress={bitcoinAddress}
         sdkStatus={sdkStatus}
+        feeEstimates={feeEstimates}
+        network={bitcoinNetwork}
+        invoiceUpdate={lightningInvoice}
+      />
+
+      {/* Withdraw Modal */}
+      <WithdrawModal
+        isOpen={showWithdrawModal}
+        onClose={() => setShowWithdrawModal(false)}
+        onWithdraw={handleWithdraw}
+        resolveLnurl={resolveLnurl}
+        probePayment={probePayment}
+        paymentProgress={paymentProgress}
+        loading={loading}
+        balance={vault?.balance}
       />
     </div>
     </ErrorBoundary>
@@ -0,0 +1,184 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { LiquiditySnapshot, RebalanceResult, RebalanceSuggestion } from '@/types/atomiq'
+import { ArrowLeftRight, ArrowDownLeft, ArrowUpRight, RefreshCw } from 'lucide-react'
+
+interface ChannelManagementPanelProps {
+  loadLiquidity: () => Promise<LiquiditySnapshot>
+  suggestRebalances?: (snapshot: LiquiditySnapshot) => Promise<RebalanceSuggestion[]>
+  onRebalance?: (suggestion: RebalanceSuggestion) => Promise<RebalanceResult>
+  getFeeSpend?: () => { spentSat: number; budgetSat: number }
+}
+
+const sats = (amount: number) => `${amount.toLocaleString('en-US')} sats`
+
+// Channel ids run long on some backends; the first and last few characters tell them apart
+const shortId = (id: string) => id.length > 14 ? `${id.slice(0, 6)}…${id.slice(-6)}` : id
+
+// Service errors arrive as plain AtomiqError objects rather than Error instances
+const getErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) return String((error as any).message)
+  return fallback
+}
+
+export function ChannelManagementPanel({
+  loadLiquidity,
+  suggestRebalances,
+  onRebalance,
+  getFeeSpend
+}: ChannelManagementPanelProps) {
+  const [snapshot, setSnapshot] = useState<LiquiditySnapshot | null>(null)
+  const [suggestions, setSuggestions] = useState<RebalanceSuggestion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [rebalancing, setRebalancing] = useState<RebalanceSuggestion | null>(null)
+  const [lastResult, setLastResult] = useState<RebalanceResult | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const liquidity = await loadLiquidity()
+      setSnapshot(liquidity)
+      setSuggestions(suggestRebalances ? await suggestRebalances(liquidity) : [])
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to read channels'))
+    } finally {
+      setLoading(false)
+    }
+  }, [loadLiquidity, suggestRebalances])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleRebalance = async (suggestion: RebalanceSuggestion) => {
+    if (!onRebalance) return
+
+    setRebalancing(suggestion)
+    setError(null)
+    try {
+      setLastResult(await onRebalance(suggestion))
+      await refresh()
+    } catch (err) {
+      setError(getErrorMessage(err, 'Rebalance failed'))
+    } finally {
+      setRebalancing(null)
+    }
+  }
+
+  const feeSpend = getFeeSpend?.()
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5 text-blue-600" />
+            Channel Management
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={loading} aria-label="Refresh channels">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {snapshot && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <ArrowUpRight className="h-3 w-3" />
+                Can send
+              </div>
+              <div className="text-sm font-medium">{sats(snapshot.outbound)}</div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <ArrowDownLeft className="h-3 w-3" />
+                Can receive
+              </div>
+              <div className="text-sm font-medium">{sats(snapshot.inbound)}</div>
+            </div>
+          </div>
+        )}
+
+        {snapshot && snapshot.channels.length === 0 && (
+          <p className="text-sm text-muted-foreground">No channels open</p>
+        )}
+
+        {/* Local and remote share of each channel's balance */}
+        {snapshot && snapshot.channels.length > 0 && (
+          <ul className="space-y-4">
+            {snapshot.channels.map(channel => (
+              <li key={channel.chanId} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-mono" title={channel.remotePubkey}>{shortId(channel.chanId)}</span>
+                  {!channel.active && <Badge variant="secondary">Inactive</Badge>}
+                </div>
+                <div
+                  className="flex h-2 w-full overflow-hidden rounded-full bg-blue-200"
+                  role="img"
+                  aria-label={`Channel ${channel.chanId}: ${Math.round(channel.localRatio * 100)}% local`}
+                >
+                  <div className="h-full bg-bitcoin-500" style={{ width: `${channel.localRatio * 100}%` }} />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{Math.round(channel.localRatio * 100)}% local, {sats(channel.outbound)} out</span>
+                  <span>{sats(channel.inbound)} in</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Suggested rebalances</div>
+            {suggestions.map(suggestion => (
+              <div
+                key={`${suggestion.outgoingChanId}-${suggestion.incomingChanId}`}
+                className="flex items-center justify-between gap-4 p-3 bg-blue-50 rounded-lg"
+              >
+                <p className="text-xs">
+                  Move {sats(suggestion.amountSat)} from {shortId(suggestion.outgoingChanId)} to{' '}
+                  {shortId(suggestion.incomingChanId)}, at most {sats(suggestion.maxFeeSat)} in fees
+                </p>
+                {onRebalance && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRebalance(suggestion)}
+                    disabled={!!rebalancing}
+                    aria-label={`Rebalance ${suggestion.outgoingChanId} into ${suggestion.incomingChanId}`}
+                  >
+                    {rebalancing === suggestion ? 'Rebalancing...' : 'Rebalance'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {lastResult && (
+          <p className="text-xs text-green-700">
+            Moved {sats(lastResult.amountSat)} for {sats(lastResult.feeSat)} in fees
+          </p>
+        )}
+
+        {feeSpend && (
+          <p className="text-xs text-muted-foreground">
+            Rebalancing fees: {sats(feeSpend.spentSat)} of {sats(feeSpend.budgetSat)} spent
+          </p>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -8,15 +8,39 @@ import { Badge } from '@/components/ui/badge'
 import { Bitcoin, Zap, AlertCircle, Copy, CheckCircle } from 'lucide-react'
 import { formatCurrency } from '@/lib/utils'
 import { cn } from '@/lib/utils'
-import { BitcoinAddress, LightningInvoice, BridgeQuote } from '@/types/atomiq'
+import { BitcoinAddress, LightningInvoice, BridgeDeposit, BridgeQuote, FeeEstimates, FeeTier } from '@/types/atomiq'
+import { estimateFeeSats } from '@/services/bitcoin/feeEstimator'
+import type { BitcoinNetworkName } from '@/services/bitcoin/hdWallet'
+import { validateBitcoinAddress } from '@/lib/validation'
+import { buildPaymentUri } from '@/lib/bip21'
+import { isLnurlDestination } from '@/services/lightning/lnurl'
+
+const PAYMENT_LABEL = 'CrossBTC vault deposit'
+
+const FEE_TIERS: { tier: FeeTier; label: string }[] = [
+  { tier: 'economy', label: 'Economy' },
+  { tier: 'normal', label: 'Normal' },
+  { tier: 'priority', label: 'Priority' }
+]
+
+// What useVault.deposit resolves with; handlers that just close the modal return nothing
+interface DepositResponse {
+  bridgeDeposit?: BridgeDeposit
+  address?: BitcoinAddress
+  invoice?: LightningInvoice
+}
 
 interface DepositModalProps {
   isOpen: boolean
   onClose: () => void
-  onDeposit: (amount: number, method: 'bitcoin' | 'lightning') => void
+  // `lnurl` is an LNURL-withdraw code to pull a Lightning deposit from instead of showing an invoice to pay
+  onDeposit: (amount: number, method: 'bitcoin' | 'lightning', lnurl?: string) => void | Promise<DepositResponse | void>
   loading?: boolean
   bitcoinAddress?: BitcoinAddress | null
   sdkStatus?: 'loading' | 'ready' | 'error'
+  feeEstimates?: FeeEstimates | null
+  network?: BitcoinNetworkName
+  invoiceUpdate?: LightningInvoice | null // latest state of the invoice being shown, as the node reports it
 }
 
 export function DepositModal({
@@ -25,7 +49,10 @@ export function DepositModal({
   onDeposit,
   loading = false,
   bitcoinAddress: propBitcoinAddress,
-  sdkStatus = 'ready'
+  sdkStatus = 'ready',
+  feeEstimates,
+  network = 'testnet',
+  invoiceUpdate
 }: DepositModalProps) {
   const [amount, setAmount] = useState('')
   const [method, setMethod] = useState<'bitcoin' | 'lightning'>('bitcoin')
@@ -35,13 +62,9 @@ export function DepositModal({
   const [depositStep, setDepositStep] = useState<'amount' | 'payment' | 'confirm'>('amount')
   const [copied, setCopied] = useState(false)
   const [quoteLoading, setQuoteLoading] = useState(false)
-
-  const handleAmountChange = (value: string) => {
-    // Only allow valid decimal input
-    if (value === '' || /^\d*\.?\d*$/.test(value)) {
-      setAmount(value)
-    }
-  }
+  const [feeTier, setFeeTier] = useState<FeeTier>('normal')
+  const [addressError, setAddressError] = useState<string | null>(null)
+  const [lnurl, setLnurl] = useState('')
 
   const handleAmountChange = (value: string) => {
     // Only allow valid decimal input
@@ -54,11 +77,20 @@ export function DepositModal({
   const handleDeposit = async () => {
     const depositAmount = parseFloat(amount)
     if (depositAmount > 0) {
+      setAddressError(null)
       try {
         if (method === 'bitcoin' && sdkStatus === 'ready') {
           // Get bridge quote for Bitcoin deposits
           setQuoteLoading(true)
-          const response = await onDeposit(depositAmount, method)
+          const response: DepositResponse = (await onDeposit(depositAmount, method)) || {}
+
+          // Never show an address funds could be lost to: bad checksum or another network's
+          const depositAddress = response.bridgeDeposit?.depositAddress || response.address?.address
+          const validation = depositAddress ? validateBitcoinAddress(depositAddress, network) : null
+          if (validation && !validation.valid) {
+            setAddressError(validation.message || 'Invalid deposit address')
+            return
+          }
 
           if (response.bridgeDeposit) {
             setBridgeQuote(response.bridgeDeposit.quote)
@@ -69,8 +101,10 @@ export function DepositModal({
             setDepositStep('payment')
           }
         } else if (method === 'lightning' && sdkStatus === 'ready') {
-          // Create Lightning invoice
-          const response = await onDeposit(depositAmount, method)
+          // Create Lightning invoice, handing it to the LNURL-withdraw service when one was given
+          const response: DepositResponse = (await (lnurl.trim()
+            ? onDeposit(depositAmount, method, lnurl.trim())
+            : onDeposit(depositAmount, method))) || {}
 
           if (response.invoice) {
             setLightningInvoice(response.invoice)
@@ -106,6 +140,24 @@ export function DepositModal({
     }
   }
 
+  // BIP21 URI for wallets to open or scan; with an invoice it also carries the on-chain fallback
+  const paymentUri = (bitcoinAddress || lightningInvoice) && depositStep === 'payment'
+    ? buildPaymentUri({
+      address: bitcoinAddress?.address,
+      amount: parseFloat(amount) || undefined,
+      label: PAYMENT_LABEL,
+      lightning: method === 'lightning' ? lightningInvoice?.bolt11 : undefined
+    })
+    : null
+
+  const handleCopyUri = async () => {
+    if (paymentUri) {
+      await navigator.clipboard.writeText(paymentUri)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
   const resetModal = () => {
     setAmount('')
     setMethod('bitcoin')
@@ -113,6 +165,8 @@ export function DepositModal({
     setLightningInvoice(null)
     setBridgeQuote(null)
     setCopied(false)
+    setAddressError(null)
+    setLnurl('')
   }
 
   const handleClose = () => {
@@ -121,6 +175,12 @@ export function DepositModal({
   }
 
   const isValidAmount = amount && parseFloat(amount) > 0 && parseFloat(amount) <= 1000000
+  const lnurlInvalid = method === 'lightning' && lnurl.trim() !== '' && !isLnurlDestination(lnurl)
+
+  // A typical deposit spends one P2WPKH input to the deposit address plus change
+  const networkFee = feeEstimates
+    ? estimateFeeSats(['p2wpkh'], ['p2wpkh', 'p2wpkh'], feeEstimates[feeTier]) / 100000000
+    : null
 
   // Update internal bitcoin address when prop changes
   useEffect(() => {
@@ -129,6 +189,13 @@ export function DepositModal({
     }
   }, [propBitcoinAddress])
 
+  // Follow the invoice being shown as it is paid or expires
+  useEffect(() => {
+    if (invoiceUpdate && invoiceUpdate.paymentHash === lightningInvoice?.paymentHash) {
+      setLightningInvoice(invoiceUpdate)
+    }
+  }, [invoiceUpdate, lightningInvoice?.paymentHash])
+
   if (!isOpen) return null
 
   // Show payment step if we have address or invoice
@@ -222,15 +289,37 @@ export function DepositModal({
                   </div>
                 </div>
 
-                <div className="space-y-2 p-3 bg-blue-50 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <Zap className="h-4 w-4 text-blue-600" />
-                    <span className="text-sm font-medium">Lightning Network</span>
+                {lightningInvoice.status === 'paid' ? (
+                  <div className="space-y-2 p-3 bg-green-50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      <span className="text-sm font-medium">Payment received</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The invoice is paid and your deposit has been credited.
+                    </p>
                   </div>
-                  <p className="text-xs text-muted-foreground">
-                    Your payment will be credited instantly after the invoice is paid.
-                  </p>
-                </div>
+                ) : lightningInvoice.status === 'expired' ? (
+                  <div className="space-y-2 p-3 bg-red-50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4 text-red-600" />
+                      <span className="text-sm font-medium">Invoice no longer payable</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      This invoice expired or was canceled. Start a new deposit to get a fresh one.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-2 p-3 bg-blue-50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <Zap className="h-4 w-4 text-blue-600" />
+                      <span className="text-sm font-medium">Lightning Network</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Your payment will be credited instantly after the invoice is paid.
+                    </p>
+                  </div>
+                )}
 
                 <div className="text-center p-3 bg-bitcoin-50 rounded-lg border border-bitcoin-200">
                   <div className="text-sm font-medium">Amount</div>
@@ -244,6 +333,32 @@ export function DepositModal({
               </>
             )}
 
+            {paymentUri && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Payment link</label>
+                <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg">
+                  <Input
+                    value={paymentUri}
+                    readOnly
+                    aria-label="Payment link"
+                    className="flex-1 bg-transparent border-none text-xs"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleCopyUri}
+                    className="p-2"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  <a href={paymentUri} className="underline">Open in your wallet</a>
+                  {method === 'lightning' && bitcoinAddress && ' - pays over Lightning or on-chain, whichever your wallet supports'}
+                </p>
+              </div>
+            )}
+
             <div className="flex gap-3">
               <Button
                 variant="outline"
@@ -361,6 +476,33 @@ export function DepositModal({
             </div>
           )}
 
+          {/* Network Fee Preview */}
+          {method === 'bitcoin' && feeEstimates && networkFee !== null && (
+            <div className="space-y-3">
+              <label className="text-sm font-medium">Network Fee</label>
+              <div className="grid grid-cols-3 gap-2">
+                {FEE_TIERS.map(({ tier, label }) => (
+                  <Button
+                    key={tier}
+                    variant={feeTier === tier ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setFeeTier(tier)}
+                    className="flex flex-col items-center h-auto py-2"
+                  >
+                    <span className="text-xs">{label}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {feeEstimates[tier]} sat/vB
+                    </span>
+                  </Button>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Estimated network fee</span>
+                <span className="font-mono">{networkFee.toFixed(8)} BTC</span>
+              </div>
+            </div>
+          )}
+
           {method === 'lightning' && (
             <div className="space-y-2 p-3 bg-blue-50 rounded-lg">
               <div className="flex items-center gap-2">
@@ -373,6 +515,24 @@ export function DepositModal({
             </div>
           )}
 
+          {method === 'lightning' && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">LNURL-withdraw (optional)</label>
+              <Input
+                value={lnurl}
+                onChange={(e) => setLnurl(e.target.value)}
+                placeholder="lnurl1..."
+                className="font-mono text-xs"
+                disabled={loading || quoteLoading}
+              />
+              <p className={cn('text-xs', lnurlInvalid ? 'text-red-600' : 'text-muted-foreground')}>
+                {lnurlInvalid
+                  ? 'Not an LNURL'
+                  : 'Paste a withdraw code from another wallet or service to have it pay the deposit for you.'}
+              </p>
+            </div>
+          )}
+
           {/* Estimated Value */}
           {amount && isValidAmount && (
             <div className="p-3 bg-bitcoin-50 rounded-lg border border-bitcoin-200">
@@ -398,12 +558,24 @@ export function DepositModal({
             <Button
               onClick={handleDeposit}
               className="flex-1 bitcoin-glow"
-              disabled={!isValidAmount || loading || quoteLoading}
+              disabled={!isValidAmount || lnurlInvalid || loading || quoteLoading}
             >
               {loading || quoteLoading ? 'Processing...' : 'Deposit'}
             </Button>
           </div>
 
+          {addressError && (
+            <div className="space-y-2 p-3 bg-red-50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                <span className="text-sm font-medium">Invalid Deposit Address</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {addressError}. Do not send funds; try again or contact support.
+              </p>
+            </div>
+          )}
+
           {/* SDK Status Indicator */}
           {sdkStatus === 'error' && (
             <div className="space-y-2 p-3 bg-red-50 rounded-lg">
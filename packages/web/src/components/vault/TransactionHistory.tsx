@@ -1,29 +1,63 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { EnhancedTransaction } from '@/types/atomiq'
-import { Bitcoin, Zap, ArrowDownUp, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react'
+import { EnhancedTransaction, FeeBumpPreview } from '@/types/atomiq'
+import { Bitcoin, Zap, ArrowDownUp, Clock, CheckCircle, XCircle, AlertCircle, Rocket } from 'lucide-react'
 import { formatCurrency } from '@/lib/utils'
 
 interface TransactionHistoryProps {
   transactions: EnhancedTransaction[]
   loading?: boolean
   onRefresh?: () => void
+  onPreviewSpeedUp?: (tx: EnhancedTransaction) => Promise<FeeBumpPreview>
+  onSpeedUp?: (tx: EnhancedTransaction) => Promise<unknown>
+  onLoadMore?: () => void
+  hasMore?: boolean
+  loadingMore?: boolean
   autoRefresh?: boolean
   refreshInterval?: number
 }
 
+interface SpeedUpState {
+  txId: string
+  preview: FeeBumpPreview | null
+  loading: boolean
+  error: string | null
+}
+
 export function TransactionHistory({
   transactions,
   loading = false,
   onRefresh,
+  onPreviewSpeedUp,
+  onSpeedUp,
+  onLoadMore,
+  hasMore = false,
+  loadingMore = false,
   autoRefresh = false,
   refreshInterval = 30000
 }: TransactionHistoryProps) {
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date())
+  const [speedUp, setSpeedUp] = useState<SpeedUpState | null>(null)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+
+  // Infinite scroll: read the next page once the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore || !onLoadMore || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting) && !loadingMore) {
+        onLoadMore()
+      }
+    })
+    observer.observe(sentinel)
+
+    return () => observer.disconnect()
+  }, [hasMore, loadingMore, onLoadMore])
 
   // Auto-refresh functionality
   useEffect(() => {
@@ -37,6 +71,40 @@ export function TransactionHistory({
     return () => clearInterval(interval)
   }, [autoRefresh, refreshInterval, onRefresh])
 
+  // Service errors arrive as plain AtomiqError objects rather than Error instances
+  const getErrorMessage = (error: unknown) => {
+    if (error instanceof Error) return error.message
+    if (error && typeof error === 'object' && 'message' in error) return String((error as any).message)
+    return 'Unable to speed up transaction'
+  }
+
+  const canSpeedUp = (tx: EnhancedTransaction) =>
+    tx.status === 'pending' && !!tx.bitcoinTx && !!onPreviewSpeedUp && !!onSpeedUp
+
+  const handleSpeedUpPreview = async (tx: EnhancedTransaction) => {
+    if (!onPreviewSpeedUp) return
+
+    setSpeedUp({ txId: tx.id, preview: null, loading: true, error: null })
+    try {
+      const preview = await onPreviewSpeedUp(tx)
+      setSpeedUp({ txId: tx.id, preview, loading: false, error: null })
+    } catch (error) {
+      setSpeedUp({ txId: tx.id, preview: null, loading: false, error: getErrorMessage(error) })
+    }
+  }
+
+  const handleSpeedUpConfirm = async (tx: EnhancedTransaction) => {
+    if (!onSpeedUp || !speedUp?.preview) return
+
+    setSpeedUp({ ...speedUp, loading: true, error: null })
+    try {
+      await onSpeedUp(tx)
+      setSpeedUp(null)
+    } catch (error) {
+      setSpeedUp({ ...speedUp, loading: false, error: getErrorMessage(error) })
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -71,11 +139,20 @@ export function TransactionHistory({
         return <ArrowDownUp className="h-4 w-4 text-red-600 rotate-180" />
       case 'yield':
         return <Zap className="h-4 w-4 text-blue-600" />
+      case 'self-transfer':
+      case 'consolidation':
+        return <ArrowDownUp className="h-4 w-4 text-gray-600" />
       default:
         return <Clock className="h-4 w-4 text-gray-600" />
     }
   }
 
+  // Transfers between our own addresses neither add to nor take from the vault
+  const isTransfer = (tx: EnhancedTransaction) =>
+    tx.direction === 'self-transfer' || tx.direction === 'consolidation'
+
+  const getDisplayType = (tx: EnhancedTransaction) => isTransfer(tx) ? tx.direction! : tx.type
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'deposit':
@@ -84,6 +161,9 @@ export function TransactionHistory({
         return 'text-red-600'
       case 'yield':
         return 'text-blue-600'
+      case 'self-transfer':
+      case 'consolidation':
+        return 'text-gray-600'
       default:
         return 'text-gray-600'
     }
@@ -248,8 +328,8 @@ export function TransactionHistory({
               className="flex items-start space-x-4 p-4 border rounded-lg hover:bg-gray-50 transition-colors"
             >
               {/* Transaction Icon */}
-              <div className={`mt-1 ${getTypeColor(tx.type)}`}>
-                {getTypeIcon(tx.type)}
+              <div className={`mt-1 ${getTypeColor(getDisplayType(tx))}`}>
+                {getTypeIcon(getDisplayType(tx))}
               </div>
 
               {/* Transaction Details */}
@@ -259,8 +339,8 @@ export function TransactionHistory({
                     {tx.description || `${tx.type.charAt(0).toUpperCase() + tx.type.slice(1)}`}
                   </h4>
                   <div className="flex items-center gap-2">
-                    <span className={`font-semibold ${getTypeColor(tx.type)}`}>
-                      {tx.type === 'deposit' ? '+' : tx.type === 'withdrawal' ? '-' : ''}
+                    <span className={`font-semibold ${getTypeColor(getDisplayType(tx))}`}>
+                      {getDisplayType(tx) === 'deposit' ? '+' : getDisplayType(tx) === 'withdrawal' ? '-' : ''}
                       {tx.amount.toFixed(8)} BTC
                     </span>
                     {getStatusIcon(tx.status)}
@@ -298,11 +378,75 @@ export function TransactionHistory({
                     ))}
                   </div>
                 )}
+
+                {/* Speed Up */}
+                {canSpeedUp(tx) && speedUp?.txId !== tx.id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => handleSpeedUpPreview(tx)}
+                  >
+                    <Rocket className="h-3 w-3 mr-1" />
+                    Speed up
+                  </Button>
+                )}
+
+                {canSpeedUp(tx) && speedUp?.txId === tx.id && (
+                  <div className="mt-2 p-3 bg-orange-50 rounded-lg space-y-2">
+                    {speedUp.loading && !speedUp.preview && (
+                      <div className="text-xs text-gray-600">Estimating fee...</div>
+                    )}
+
+                    {speedUp.preview && (
+                      <div className="text-xs text-gray-600 space-y-1">
+                        <div>
+                          Fee rate: {speedUp.preview.currentFeeRate.toFixed(1)} → {speedUp.preview.targetFeeRate.toFixed(1)} sat/vB
+                        </div>
+                        <div>Additional fee: {speedUp.preview.additionalFee.toFixed(8)} BTC</div>
+                        <div>
+                          Method: {speedUp.preview.method === 'rbf' ? 'Replace-by-fee' : 'Child-pays-for-parent'}
+                        </div>
+                      </div>
+                    )}
+
+                    {speedUp.error && (
+                      <div className="text-xs text-red-600">{speedUp.error}</div>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSpeedUp(null)}
+                        disabled={speedUp.loading}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSpeedUpConfirm(tx)}
+                        disabled={!speedUp.preview || speedUp.loading}
+                      >
+                        {speedUp.loading && speedUp.preview ? 'Broadcasting...' : 'Confirm speed up'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
 
+        {/* More History */}
+        {hasMore && onLoadMore && (
+          <div ref={loadMoreRef} className="mt-4 flex justify-center">
+            <Button variant="outline" size="sm" onClick={onLoadMore} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : 'Load older transactions'}
+            </Button>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="mt-6 pt-4 border-t">
           <div className="flex items-center justify-between text-sm text-gray-500">
@@ -0,0 +1,447 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Bitcoin, Zap, AlertCircle, CheckCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  HtlcAttemptStatus,
+  LnurlPayRequest,
+  LnurlRequest,
+  LnurlSuccessMessage,
+  PaymentFeeLimit,
+  PaymentProbe,
+  PaymentProgress
+} from '@/types/atomiq'
+import { isLnurlDestination } from '@/services/lightning/lnurl'
+
+// What useVault.withdraw resolves with; handlers that just close the modal return nothing
+interface WithdrawResponse {
+  successAction?: LnurlSuccessMessage
+}
+
+interface WithdrawModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onWithdraw: (
+    amount: number,
+    method: 'bitcoin' | 'lightning',
+    destination: string,
+    comment?: string,
+    feeLimit?: PaymentFeeLimit
+  ) => void | Promise<WithdrawResponse | void>
+  resolveLnurl?: (input: string) => Promise<LnurlRequest>
+  probePayment?: (invoice: string, feeLimit?: PaymentFeeLimit) => Promise<PaymentProbe>
+  paymentProgress?: PaymentProgress | null // of the Lightning withdrawal in flight
+  loading?: boolean
+  balance?: number
+}
+
+const MSAT_PER_BTC = 100000000000
+
+const ATTEMPT_LABELS: Record<HtlcAttemptStatus, string> = {
+  in_flight: 'in flight',
+  succeeded: 'succeeded',
+  failed: 'failed'
+}
+
+export function WithdrawModal({
+  isOpen,
+  onClose,
+  onWithdraw,
+  resolveLnurl,
+  probePayment,
+  paymentProgress,
+  loading = false,
+  balance
+}: WithdrawModalProps) {
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<'bitcoin' | 'lightning'>('bitcoin')
+  const [destination, setDestination] = useState('')
+  const [comment, setComment] = useState('')
+  const [payRequest, setPayRequest] = useState<LnurlPayRequest | null>(null)
+  const [lnurlError, setLnurlError] = useState<string | null>(null)
+  const [resolving, setResolving] = useState(false)
+  const [successAction, setSuccessAction] = useState<LnurlSuccessMessage | null>(null)
+  const [maxFee, setMaxFee] = useState('')
+  const [maxFeeUnit, setMaxFeeUnit] = useState<'sats' | 'ppm'>('sats')
+  const [probe, setProbe] = useState<PaymentProbe | null>(null)
+  const [probeError, setProbeError] = useState<string | null>(null)
+  const [probing, setProbing] = useState(false)
+
+  const isLnurl = method === 'lightning' && isLnurlDestination(destination)
+  const isInvoice = method === 'lightning' && !isLnurl && destination.trim() !== ''
+  const feeLimit = useMemo((): PaymentFeeLimit | undefined => {
+    if (method !== 'lightning' || maxFee === '') {
+      return undefined
+    }
+    return maxFeeUnit === 'sats' ? { fixed: parseInt(maxFee, 10) } : { ppm: parseInt(maxFee, 10) }
+  }, [method, maxFee, maxFeeUnit])
+
+  // Look up a pasted Lightning Address or LNURL once typing settles, to show what it accepts
+  useEffect(() => {
+    setPayRequest(null)
+    setLnurlError(null)
+    if (!isLnurl || !resolveLnurl) {
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setResolving(true)
+      try {
+        const request = await resolveLnurl(destination)
+        if (cancelled) {
+          return
+        }
+        if (request.tag === 'payRequest') {
+          setPayRequest(request)
+        } else {
+          setLnurlError('This LNURL cannot be paid to')
+        }
+      } catch (error: any) {
+        if (!cancelled) {
+          setLnurlError(error?.message || 'Could not reach this LNURL')
+        }
+      } finally {
+        if (!cancelled) {
+          setResolving(false)
+        }
+      }
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+      setResolving(false)
+    }
+  }, [destination, isLnurl, resolveLnurl])
+
+  // Find the route to a pasted invoice and what it would cost before anything is sent
+  useEffect(() => {
+    setProbe(null)
+    setProbeError(null)
+    if (!isInvoice || !probePayment) {
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setProbing(true)
+      try {
+        const found = await probePayment(destination.trim(), feeLimit)
+        if (!cancelled) {
+          setProbe(found)
+        }
+      } catch (error: any) {
+        if (!cancelled) {
+          setProbeError(error?.message || 'No route to this invoice')
+        }
+      } finally {
+        if (!cancelled) {
+          setProbing(false)
+        }
+      }
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+      setProbing(false)
+    }
+  }, [destination, isInvoice, probePayment, feeLimit])
+
+  const handleMaxFeeChange = (value: string) => {
+    if (value === '' || /^\d*$/.test(value)) {
+      setMaxFee(value)
+    }
+  }
+
+  const handleAmountChange = (value: string) => {
+    // Only allow valid decimal input
+    if (value === '' || /^\d*\.?\d*$/.test(value)) {
+      setAmount(value)
+    }
+  }
+
+  const withdrawAmount = parseFloat(amount)
+  const amountMsat = Math.round(withdrawAmount * MSAT_PER_BTC)
+  const outOfRange = !!payRequest && (amountMsat < payRequest.minSendable || amountMsat > payRequest.maxSendable)
+  const isValidAmount = withdrawAmount > 0 && (balance === undefined || withdrawAmount <= balance)
+  const canWithdraw = isValidAmount && destination.trim() !== '' && !outOfRange && !lnurlError && !resolving
+
+  const handleWithdraw = async () => {
+    if (!canWithdraw) {
+      return
+    }
+
+    const response = await onWithdraw(
+      withdrawAmount,
+      method,
+      destination.trim(),
+      payRequest && comment ? comment : undefined,
+      feeLimit
+    )
+    if (response && response.successAction) {
+      setSuccessAction(response.successAction)
+    }
+  }
+
+  const resetModal = () => {
+    setAmount('')
+    setMethod('bitcoin')
+    setDestination('')
+    setComment('')
+    setMaxFee('')
+    setMaxFeeUnit('sats')
+    setSuccessAction(null)
+  }
+
+  const handleClose = () => {
+    resetModal()
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  // What the LNURL-pay service wanted shown once it was paid
+  if (successAction) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-green-500" />
+              Payment Sent
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            <div className="space-y-2 p-3 bg-green-50 rounded-lg">
+              <div className="text-sm font-medium">Message from {payRequest?.domain || 'the recipient'}</div>
+              <p className="text-xs text-muted-foreground">{successAction.message}</p>
+              {successAction.secret && (
+                <Input value={successAction.secret} readOnly aria-label="Secret" className="font-mono text-xs" />
+              )}
+              {successAction.url && (
+                <a href={successAction.url} target="_blank" rel="noopener noreferrer" className="text-xs underline">
+                  {successAction.url}
+                </a>
+              )}
+            </div>
+
+            <Button onClick={handleClose} className="w-full">
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bitcoin className="h-5 w-5 text-bitcoin-500" />
+            Withdraw Bitcoin
+          </CardTitle>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {/* Amount Input */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Amount (BTC)</label>
+            <Input
+              value={amount}
+              onChange={(e) => handleAmountChange(e.target.value)}
+              placeholder="0.00000000"
+              className="text-lg font-mono"
+              disabled={loading}
+            />
+            {balance !== undefined && (
+              <div className="text-xs text-muted-foreground">Available: {balance.toFixed(8)} BTC</div>
+            )}
+          </div>
+
+          {/* Withdrawal Method Selection */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium">Withdrawal Method</label>
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                variant={method === 'bitcoin' ? 'default' : 'outline'}
+                onClick={() => setMethod('bitcoin')}
+                className={cn(
+                  "flex flex-col items-center gap-2 h-auto p-4",
+                  method === 'bitcoin' && "bitcoin-glow"
+                )}
+              >
+                <Bitcoin className="h-6 w-6" />
+                <span className="text-sm">Bitcoin</span>
+              </Button>
+
+              <Button
+                variant={method === 'lightning' ? 'default' : 'outline'}
+                onClick={() => setMethod('lightning')}
+                className={cn(
+                  "flex flex-col items-center gap-2 h-auto p-4",
+                  method === 'lightning' && "bg-blue-500"
+                )}
+              >
+                <Zap className="h-6 w-6" />
+                <span className="text-sm">Lightning</span>
+              </Button>
+            </div>
+          </div>
+
+          {/* Destination */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              {method === 'bitcoin' ? 'Bitcoin Address' : 'Invoice, LNURL or Lightning Address'}
+            </label>
+            <Input
+              value={destination}
+              onChange={(e) => setDestination(e.target.value)}
+              placeholder={method === 'bitcoin' ? 'bc1... or bitcoin: link' : 'lnbc1..., lnurl1... or name@domain.com'}
+              className="font-mono text-xs"
+              disabled={loading}
+            />
+          </div>
+
+          {/* What a Lightning Address or LNURL-pay link accepts */}
+          {isLnurl && resolving && (
+            <p className="text-xs text-muted-foreground">Looking up {destination.trim()}...</p>
+          )}
+
+          {payRequest && (
+            <div className="space-y-2 p-3 bg-blue-50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <Zap className="h-4 w-4 text-blue-600" />
+                <span className="text-sm font-medium">Paying {payRequest.domain}</span>
+              </div>
+              {payRequest.description && (
+                <p className="text-xs text-muted-foreground">{payRequest.description}</p>
+              )}
+              <p className={cn('text-xs', outOfRange && amount ? 'text-red-600' : 'text-muted-foreground')}>
+                Accepts {payRequest.minSendable / MSAT_PER_BTC} to {payRequest.maxSendable / MSAT_PER_BTC} BTC
+              </p>
+              {payRequest.commentAllowed > 0 && (
+                <Input
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  maxLength={payRequest.commentAllowed}
+                  placeholder="Comment (optional)"
+                  className="text-xs"
+                  disabled={loading}
+                />
+              )}
+            </div>
+          )}
+
+          {lnurlError && (
+            <div className="space-y-2 p-3 bg-red-50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                <span className="text-sm font-medium">Cannot pay this destination</span>
+              </div>
+              <p className="text-xs text-muted-foreground">{lnurlError}</p>
+            </div>
+          )}
+
+          {/* Routing fee limit, and what the route to an invoice is expected to cost */}
+          {method === 'lightning' && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Max routing fee (optional)</label>
+              <div className="flex gap-2">
+                <Input
+                  value={maxFee}
+                  onChange={(e) => handleMaxFeeChange(e.target.value)}
+                  placeholder={maxFeeUnit === 'sats' ? '10000' : '5000'}
+                  aria-label="Max routing fee"
+                  className="font-mono text-xs"
+                  disabled={loading}
+                />
+                <Button
+                  variant={maxFeeUnit === 'sats' ? 'default' : 'outline'}
+                  onClick={() => setMaxFeeUnit('sats')}
+                  disabled={loading}
+                >
+                  sats
+                </Button>
+                <Button
+                  variant={maxFeeUnit === 'ppm' ? 'default' : 'outline'}
+                  onClick={() => setMaxFeeUnit('ppm')}
+                  disabled={loading}
+                >
+                  ppm
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isInvoice && probing && (
+            <p className="text-xs text-muted-foreground">Finding a route...</p>
+          )}
+
+          {probe && (
+            <div className="space-y-1 p-3 bg-blue-50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <Zap className="h-4 w-4 text-blue-600" />
+                <span className="text-sm font-medium">Route found</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                About {probe.feeSat} sats in fees over {probe.hops} {probe.hops === 1 ? 'hop' : 'hops'},{' '}
+                {Math.round(probe.successProbability * 100)}% likely to succeed
+              </p>
+            </div>
+          )}
+
+          {probeError && (
+            <p className="text-xs text-red-600">No route found: {probeError}</p>
+          )}
+
+          {/* HTLCs of the payment in flight */}
+          {loading && paymentProgress && (
+            <div className="space-y-2 p-3 bg-blue-50 rounded-lg" aria-live="polite">
+              <div className="text-sm font-medium">Sending payment...</div>
+              <ul className="space-y-1">
+                {paymentProgress.attempts.map((attempt, index) => (
+                  <li
+                    key={attempt.id}
+                    className={cn('text-xs', attempt.status === 'failed' ? 'text-red-600' : 'text-muted-foreground')}
+                  >
+                    Attempt {index + 1}: {attempt.amountSat} sats
+                    {attempt.hops ? ` over ${attempt.hops} hops` : ''}, {ATTEMPT_LABELS[attempt.status]}
+                    {attempt.failure ? ` (${attempt.failure})` : ''}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              className="flex-1"
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleWithdraw}
+              className="flex-1 bitcoin-glow"
+              disabled={!canWithdraw || loading}
+            >
+              {loading ? 'Processing...' : 'Withdraw'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
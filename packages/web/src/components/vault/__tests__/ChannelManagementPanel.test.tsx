@@ -0,0 +1,84 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { ChannelManagementPanel } from '../ChannelManagementPanel'
+import { ChannelLiquidity, LiquiditySnapshot, RebalanceSuggestion } from '@/types/atomiq'
+
+// Mock utils
+jest.mock('@/lib/utils', () => ({
+  cn: (...classes: any[]) => classes.filter(Boolean).join(' ')
+}))
+
+const channel = (chanId: string, localBalance: number, remoteBalance: number, active = true): ChannelLiquidity => ({
+  chanId,
+  remotePubkey: `02${chanId.padStart(64, '0')}`,
+  active,
+  capacity: localBalance + remoteBalance,
+  localBalance,
+  remoteBalance,
+  outbound: localBalance,
+  inbound: remoteBalance,
+  localRatio: localBalance / (localBalance + remoteBalance)
+})
+
+const SNAPSHOT: LiquiditySnapshot = {
+  channels: [channel('101', 900000, 100000), channel('202', 100000, 900000), channel('303', 500000, 500000, false)],
+  outbound: 1000000,
+  inbound: 1000000,
+  checkedAt: new Date()
+}
+
+const SUGGESTION: RebalanceSuggestion = { outgoingChanId: '101', incomingChanId: '202', amountSat: 400000, maxFeeSat: 200 }
+
+describe('ChannelManagementPanel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('shows each channel with its liquidity ratio', async () => {
+    render(<ChannelManagementPanel loadLiquidity={jest.fn().mockResolvedValue(SNAPSHOT)} />)
+
+    expect(await screen.findByLabelText('Channel 101: 90% local')).toBeInTheDocument()
+    expect(screen.getByLabelText('Channel 202: 10% local')).toBeInTheDocument()
+    expect(screen.getByText('90% local, 900,000 sats out')).toBeInTheDocument()
+    expect(screen.getByText('Inactive')).toBeInTheDocument()
+    expect(screen.getAllByText('1,000,000 sats')).toHaveLength(2) // can send, can receive
+  })
+
+  it('suggests rebalances and performs one on request', async () => {
+    const loadLiquidity = jest.fn().mockResolvedValue(SNAPSHOT)
+    const suggestRebalances = jest.fn().mockResolvedValue([SUGGESTION])
+    const onRebalance = jest.fn().mockResolvedValue({ ...SUGGESTION, paymentHash: 'hash', feeSat: 120 })
+    render(
+      <ChannelManagementPanel
+        loadLiquidity={loadLiquidity}
+        suggestRebalances={suggestRebalances}
+        onRebalance={onRebalance}
+        getFeeSpend={() => ({ spentSat: 120, budgetSat: 5000 })}
+      />
+    )
+
+    expect(await screen.findByText('Move 400,000 sats from 101 to 202, at most 200 sats in fees')).toBeInTheDocument()
+    expect(suggestRebalances).toHaveBeenCalledWith(SNAPSHOT)
+
+    fireEvent.click(screen.getByLabelText('Rebalance 101 into 202'))
+
+    expect(await screen.findByText('Moved 400,000 sats for 120 sats in fees')).toBeInTheDocument()
+    expect(onRebalance).toHaveBeenCalledWith(SUGGESTION)
+    expect(screen.getByText('Rebalancing fees: 120 sats of 5,000 sats spent')).toBeInTheDocument()
+    await waitFor(() => expect(loadLiquidity).toHaveBeenCalledTimes(2))
+  })
+
+  it('shows why a rebalance failed', async () => {
+    render(
+      <ChannelManagementPanel
+        loadLiquidity={jest.fn().mockResolvedValue(SNAPSHOT)}
+        suggestRebalances={jest.fn().mockResolvedValue([SUGGESTION])}
+        onRebalance={jest.fn().mockRejectedValue({ code: 'LIGHTNING_REBALANCE_UNSUPPORTED', message: 'This Lightning backend does not support circular rebalancing' })}
+      />
+    )
+
+    fireEvent.click(await screen.findByLabelText('Rebalance 101 into 202'))
+
+    expect(await screen.findByText('This Lightning backend does not support circular rebalancing')).toBeInTheDocument()
+  })
+})
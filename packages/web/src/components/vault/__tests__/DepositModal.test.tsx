@@ -1,10 +1,11 @@
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import '@testing-library/jest-dom'
 import { DepositModal } from '../DepositModal'
 
 // Mock utils
 jest.mock('@/lib/utils', () => ({
-  formatCurrency: (amount: number) => `$${amount.toFixed(2)}`
+  formatCurrency: (amount: number) => `$${amount.toFixed(2)}`,
+  cn: (...classes: any[]) => classes.filter(Boolean).join(' ')
 }))
 
 describe('DepositModal', () => {
@@ -161,4 +162,95 @@ describe('DepositModal', () => {
 
     expect(onDeposit).toHaveBeenCalledWith(0.25, 'lightning')
   })
-})
\ No newline at end of file
+
+  it('passes an LNURL-withdraw code along with a Lightning deposit', () => {
+    const onDeposit = jest.fn()
+    render(<DepositModal {...defaultProps} onDeposit={onDeposit} />)
+
+    fireEvent.click(screen.getByText('Lightning'))
+    fireEvent.change(screen.getByPlaceholderText('0.00000000'), { target: { value: '0.25' } })
+    fireEvent.change(screen.getByPlaceholderText('lnurl1...'), { target: { value: 'lnurlw://example.com/withdraw' } })
+    fireEvent.click(screen.getByText('Deposit'))
+
+    expect(onDeposit).toHaveBeenCalledWith(0.25, 'lightning', 'lnurlw://example.com/withdraw')
+  })
+
+  it('previews the network fee for the selected tier', () => {
+    const feeEstimates = { economy: 2, normal: 10, priority: 25, updatedAt: new Date() }
+    render(<DepositModal {...defaultProps} feeEstimates={feeEstimates} />)
+
+    expect(screen.getByText('Network Fee')).toBeInTheDocument()
+    expect(screen.getByText('0.00001410 BTC')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Priority'))
+
+    expect(screen.getByText('0.00003525 BTC')).toBeInTheDocument()
+  })
+
+  it('hides the fee preview for Lightning deposits', () => {
+    const feeEstimates = { economy: 2, normal: 10, priority: 25, updatedAt: new Date() }
+    render(<DepositModal {...defaultProps} feeEstimates={feeEstimates} />)
+
+    fireEvent.click(screen.getByText('Lightning'))
+
+    expect(screen.queryByText('Network Fee')).not.toBeInTheDocument()
+  })
+
+  it('refuses to show a bridge deposit address for another network', async () => {
+    const onDeposit = jest.fn().mockResolvedValue({
+      bridgeDeposit: { depositAddress: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', quote: {} }
+    })
+    render(<DepositModal {...defaultProps} onDeposit={onDeposit} network="testnet" />)
+
+    fireEvent.change(screen.getByPlaceholderText('0.00000000'), { target: { value: '0.5' } })
+    fireEvent.click(screen.getByText('Deposit'))
+
+    await waitFor(() => {
+      expect(screen.getByText('Invalid Deposit Address')).toBeInTheDocument()
+    })
+    expect(screen.getByText(/mainnet address but the wallet is on testnet/)).toBeInTheDocument()
+    expect(screen.queryByText('Send Bitcoin')).not.toBeInTheDocument()
+  })
+
+  it('shows a valid bridge deposit address', async () => {
+    const onDeposit = jest.fn().mockResolvedValue({
+      bridgeDeposit: {
+        depositAddress: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+        quote: { outputAmount: 0.499, fees: { bridge: 0.0005, network: 0.00001 }, estimatedTime: 1800 }
+      }
+    })
+    render(<DepositModal {...defaultProps} onDeposit={onDeposit} network="testnet" />)
+
+    fireEvent.change(screen.getByPlaceholderText('0.00000000'), { target: { value: '0.5' } })
+    fireEvent.click(screen.getByText('Deposit'))
+
+    await waitFor(() => {
+      expect(screen.getByDisplayValue('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx')).toBeInTheDocument()
+    })
+    expect(screen.getByLabelText('Payment link')).toHaveValue(
+      'bitcoin:tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx?amount=0.5&label=CrossBTC%20vault%20deposit'
+    )
+  })
+
+  it('offers one payment link for both rails on Lightning deposits', async () => {
+    const bolt11 = 'lntb20m1pvjluezhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqfpp3x9et2e20v6pu37c5d9vax37wxq72un98kmzzhznpurw9sgl2v0nklu2g4d0keph5t7tj9tcqd8rexnd07ux4uv2cjvcqwaxgj7v4uwn5wmypjd5n69z2xm3xgksg28nwht7f6zspwp3f9t'
+    const onDeposit = jest.fn().mockResolvedValue({ invoice: { bolt11 } })
+    render(
+      <DepositModal
+        {...defaultProps}
+        onDeposit={onDeposit}
+        bitcoinAddress={{ address: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl', publicKey: '', path: '' }}
+      />
+    )
+
+    fireEvent.click(screen.getByText('Lightning'))
+    fireEvent.change(screen.getByPlaceholderText('0.00000000'), { target: { value: '0.02' } })
+    fireEvent.click(screen.getByText('Deposit'))
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Payment link')).toHaveValue(
+        `bitcoin:tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl?amount=0.02&label=CrossBTC%20vault%20deposit&lightning=${bolt11}`
+      )
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { WithdrawModal } from '../WithdrawModal'
+
+// Mock utils
+jest.mock('@/lib/utils', () => ({
+  cn: (...classes: any[]) => classes.filter(Boolean).join(' ')
+}))
+
+const PAY_REQUEST = {
+  tag: 'payRequest' as const,
+  url: 'https://example.com/.well-known/lnurlp/alice',
+  domain: 'example.com',
+  callback: 'https://example.com/lnurlp/alice/callback',
+  minSendable: 100000,
+  maxSendable: 1000000000,
+  metadata: '[["text/plain","Tip alice"]]',
+  description: 'Tip alice',
+  commentAllowed: 50
+}
+
+describe('WithdrawModal', () => {
+  const defaultProps = {
+    isOpen: true,
+    onClose: jest.fn(),
+    onWithdraw: jest.fn(),
+    balance: 1
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const fillIn = (amount: string, destination: string) => {
+    fireEvent.change(screen.getByPlaceholderText('0.00000000'), { target: { value: amount } })
+    fireEvent.click(screen.getByText('Lightning'))
+    fireEvent.change(screen.getByPlaceholderText(/name@domain/), { target: { value: destination } })
+  }
+
+  it('withdraws to an invoice as entered', () => {
+    const onWithdraw = jest.fn()
+    render(<WithdrawModal {...defaultProps} onWithdraw={onWithdraw} />)
+
+    fillIn('0.001', 'lntb100u1invoice')
+    fireEvent.click(screen.getByText('Withdraw'))
+
+    expect(onWithdraw).toHaveBeenCalledWith(0.001, 'lightning', 'lntb100u1invoice', undefined, undefined)
+  })
+
+  it('previews what a Lightning Address accepts and sends the comment along', async () => {
+    const onWithdraw = jest.fn()
+    const resolveLnurl = jest.fn().mockResolvedValue(PAY_REQUEST)
+    render(<WithdrawModal {...defaultProps} onWithdraw={onWithdraw} resolveLnurl={resolveLnurl} />)
+
+    fillIn('0.001', 'alice@example.com')
+
+    expect(await screen.findByText('Paying example.com')).toBeInTheDocument()
+    expect(screen.getByText('Tip alice')).toBeInTheDocument()
+    expect(screen.getByText('Accepts 0.000001 to 0.01 BTC')).toBeInTheDocument()
+    expect(resolveLnurl).toHaveBeenCalledWith('alice@example.com')
+
+    fireEvent.change(screen.getByPlaceholderText('Comment (optional)'), { target: { value: 'thanks' } })
+    fireEvent.click(screen.getByText('Withdraw'))
+
+    expect(onWithdraw).toHaveBeenCalledWith(0.001, 'lightning', 'alice@example.com', 'thanks', undefined)
+  })
+
+  it('blocks amounts outside the range the service accepts', async () => {
+    render(<WithdrawModal {...defaultProps} resolveLnurl={jest.fn().mockResolvedValue(PAY_REQUEST)} />)
+
+    fillIn('0.5', 'alice@example.com')
+
+    await screen.findByText('Paying example.com')
+    expect(screen.getByText('Withdraw')).toBeDisabled()
+  })
+
+  it('refuses LNURLs that cannot be paid to', async () => {
+    const resolveLnurl = jest.fn().mockResolvedValue({ tag: 'withdrawRequest', domain: 'example.com' })
+    render(<WithdrawModal {...defaultProps} resolveLnurl={resolveLnurl} />)
+
+    fillIn('0.001', 'lnurlw://example.com/withdraw')
+
+    expect(await screen.findByText('This LNURL cannot be paid to')).toBeInTheDocument()
+    expect(screen.getByText('Withdraw')).toBeDisabled()
+  })
+
+  it('shows the success action once paid', async () => {
+    const onWithdraw = jest.fn().mockResolvedValue({
+      successAction: { tag: 'url', message: 'Your receipt', url: 'https://example.com/receipt/1' }
+    })
+    render(<WithdrawModal {...defaultProps} onWithdraw={onWithdraw} resolveLnurl={jest.fn().mockResolvedValue(PAY_REQUEST)} />)
+
+    fillIn('0.001', 'alice@example.com')
+    await screen.findByText('Paying example.com')
+    fireEvent.click(screen.getByText('Withdraw'))
+
+    expect(await screen.findByText('Payment Sent')).toBeInTheDocument()
+    expect(screen.getByText('Your receipt')).toBeInTheDocument()
+    expect(screen.getByText('https://example.com/receipt/1')).toHaveAttribute('href', 'https://example.com/receipt/1')
+  })
+
+  it('probes the route to an invoice within the fee limit and withdraws with that limit', async () => {
+    const onWithdraw = jest.fn()
+    const probePayment = jest.fn().mockResolvedValue({ amountSat: 100000, feeSat: 12, successProbability: 0.85, hops: 3 })
+    render(<WithdrawModal {...defaultProps} onWithdraw={onWithdraw} probePayment={probePayment} />)
+
+    fillIn('0.001', 'lntb1m1invoice')
+    fireEvent.change(screen.getByLabelText('Max routing fee'), { target: { value: '500' } })
+    fireEvent.click(screen.getByText('ppm'))
+
+    expect(await screen.findByText('About 12 sats in fees over 3 hops, 85% likely to succeed')).toBeInTheDocument()
+    expect(probePayment).toHaveBeenLastCalledWith('lntb1m1invoice', { ppm: 500 })
+
+    fireEvent.click(screen.getByText('Withdraw'))
+    expect(onWithdraw).toHaveBeenCalledWith(0.001, 'lightning', 'lntb1m1invoice', undefined, { ppm: 500 })
+  })
+
+  it('says when no route to an invoice was found', async () => {
+    const probePayment = jest.fn().mockRejectedValue(new Error('unable to find a path to destination'))
+    render(<WithdrawModal {...defaultProps} probePayment={probePayment} />)
+
+    fillIn('0.001', 'lntb1m1invoice')
+
+    expect(await screen.findByText('No route found: unable to find a path to destination')).toBeInTheDocument()
+  })
+
+  it('lists the HTLC attempts of the payment in flight', () => {
+    const paymentProgress = {
+      paymentHash: 'ab'.repeat(32),
+      status: 'in_flight' as const,
+      attempts: [
+        { id: '1', status: 'failed' as const, amountSat: 100000, feeSat: 15, hops: 4, failure: 'TEMPORARY_CHANNEL_FAILURE' },
+        { id: '2', status: 'in_flight' as const, amountSat: 100000, feeSat: 12, hops: 3 }
+      ]
+    }
+    render(<WithdrawModal {...defaultProps} loading paymentProgress={paymentProgress} />)
+
+    expect(screen.getByText('Sending payment...')).toBeInTheDocument()
+    expect(screen.getByText(/Attempt 1: 100000 sats over 4 hops, failed/)).toHaveTextContent('(TEMPORARY_CHANNEL_FAILURE)')
+    expect(screen.getByText(/Attempt 2: 100000 sats over 3 hops, in flight/)).toBeInTheDocument()
+  })
+})
@@ -1,10 +1,27 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { Vault, Transaction, DepositRequest, WithdrawalRequest } from '@/types/vault'
-import { EnhancedTransaction } from '@/types/atomiq'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Vault, Transaction, DepositRequest, WithdrawalRequest, LightningInvoice } from '@/types/vault'
+import {
+  EnhancedTransaction,
+  AddressEvent,
+  ClassifiedTransaction,
+  InvoiceSubscriptionOptions,
+  LightningInvoiceEvent,
+  LiquiditySnapshot,
+  LnurlPayRequest,
+  MultisigSession,
+  PaymentFeeLimit,
+  PaymentProgress,
+  RebalanceSuggestion
+} from '@/types/atomiq'
 import { useAtomiqSDK } from '@/services/atomiq-sdk'
-import { BitcoinAddress, LightningInvoice, BridgeTransaction } from '@/types/atomiq'
+import { securityManager } from '@/services/security'
+import { decodeLightningInvoice } from '@/lib/bolt11'
+import { isLnurlDestination } from '@/services/lightning/lnurl'
+import { validateBitcoinAddress } from '@/lib/validation'
+import { isPaymentUri, parsePaymentUri, paymentDestination } from '@/lib/bip21'
+import { BitcoinAddress, BitcoinTransaction, BridgeTransaction, FeeEstimates, FeeBumpOptions, FeeBumpPreview } from '@/types/atomiq'
 
 interface UseVaultOptions {
   autoRefresh?: boolean
@@ -12,6 +29,76 @@ interface UseVaultOptions {
   enableRealData?: boolean
 }
 
+// Service errors arrive as plain AtomiqError objects rather than Error instances
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) return String((error as any).message)
+  return fallback
+}
+
+// On-chain history as vault transactions; transfers between our own addresses list what they moved
+function toEnhancedTransaction(entry: ClassifiedTransaction): EnhancedTransaction {
+  const { transaction, direction } = entry
+  const descriptions = {
+    deposit: 'Bitcoin deposit',
+    withdrawal: 'Bitcoin withdrawal',
+    'self-transfer': 'Transfer between own addresses',
+    consolidation: `Consolidation of ${transaction.vin.length} inputs`
+  }
+
+  return {
+    id: transaction.txid,
+    type: direction === 'deposit' ? 'deposit' : 'withdrawal',
+    amount: entry.amount,
+    status: transaction.status.confirmed ? 'completed' : 'pending',
+    timestamp: entry.timestamp,
+    fees: entry.fee,
+    description: descriptions[direction],
+    bitcoinTx: transaction,
+    blockHeight: transaction.status.block_height,
+    direction
+  }
+}
+
+// Kept across reloads: credited deposits, so a monitor that replays them after a restart does not credit them
+// again, the user's open Lightning deposits with where the invoice stream left off, and withdrawals still
+// collecting cosigner signatures
+const creditedDepositsKey = (userId: string) => `credited_deposits_${userId}`
+const lightningDepositsKey = (userId: string) => `lightning_deposits_${userId}`
+const invoiceIndexesKey = (userId: string) => `lightning_invoice_indexes_${userId}`
+const multisigWithdrawalsKey = (userId: string) => `multisig_withdrawals_${userId}`
+
+// A withdrawal held for its cosigners. The session is rebuilt from the PSBT after a reload; the PSBT carries
+// every signature collected so far, so no cosigner has to sign again.
+interface MultisigWithdrawal {
+  amount: number
+  destination: string
+  transaction: BitcoinTransaction
+  session?: MultisigSession
+}
+
+function loadStored<T>(key: string, fallback: T): T {
+  if (typeof localStorage === 'undefined') return fallback
+
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : fallback
+  } catch (error) {
+    console.error(`Failed to load ${key}:`, error)
+    return fallback
+  }
+}
+
+function saveStored(key: string, value: unknown): void {
+  if (typeof localStorage === 'undefined') return
+
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error)
+  }
+}
+
 export function useVault(userId: string, options: UseVaultOptions = {}) {
   const { autoRefresh = true, refreshInterval = 30000, enableRealData = true } = options
   const sdk = useAtomiqSDK()
@@ -24,6 +111,36 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
   const [lightningInvoice, setLightningInvoice] = useState<LightningInvoice | null>(null)
   const [bridgeTransactions, setBridgeTransactions] = useState<BridgeTransaction[]>([])
   const [sdkStatus, setSdkStatus] = useState<'loading' | 'ready' | 'error'>('loading')
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimates | null>(null)
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // HTLC attempts of the Lightning withdrawal in flight
+  const [paymentProgress, setPaymentProgress] = useState<PaymentProgress | null>(null)
+  // History pages past the first, kept across refreshes, which only re-read the first page
+  const olderHistory = useRef<EnhancedTransaction[]>([])
+  // Amounts credited per deposit output (txid:vout) or settled invoice (payment hash)
+  const creditedDeposits = useRef<Map<string, number>>(new Map())
+  // Lightning deposit invoices this user created that have not settled or expired yet: payment hash -> amount
+  const lightningDeposits = useRef<Map<string, number>>(new Map())
+  // Where the invoice stream resumes; nothing until it has reported an invoice
+  const invoiceIndexes = useRef<InvoiceSubscriptionOptions | null>(null)
+  const stopMonitoring = useRef<(() => void) | null>(null)
+  // Withdrawals above the multisig threshold, each held until its cosigners have signed
+  const multisigWithdrawals = useRef<Map<string, MultisigWithdrawal>>(new Map())
+
+  useEffect(() => {
+    creditedDeposits.current = new Map(loadStored<[string, number][]>(creditedDepositsKey(userId), []))
+    lightningDeposits.current = new Map(loadStored<[string, number][]>(lightningDepositsKey(userId), []))
+    invoiceIndexes.current = loadStored<InvoiceSubscriptionOptions | null>(invoiceIndexesKey(userId), null)
+    multisigWithdrawals.current = new Map(loadStored<[string, MultisigWithdrawal][]>(multisigWithdrawalsKey(userId), []))
+  }, [userId])
+
+  const saveMultisigWithdrawals = useCallback(() => {
+    saveStored(multisigWithdrawalsKey(userId), Array.from(multisigWithdrawals.current).map(([id, { session, ...withdrawal }]) => [id, {
+      ...withdrawal,
+      transaction: { ...withdrawal.transaction, psbt: session ? session.toBase64() : withdrawal.transaction.psbt }
+    }]))
+  }, [userId])
 
   // Mock data for development
   const mockVault: Vault = {
@@ -116,12 +233,13 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
             setTransactions(enhancedTransactions)
           } else {
             // Generate Bitcoin address for new users
-            const address = await sdk.bitcoin.generateAddress()
+            const address = await sdk.bitcoin.generateAddress(userId)
             setBitcoinAddress(address)
 
             // Start monitoring the address
-            sdk.bitcoin.monitorAddress(address.address, (tx) => {
-              handleNewBitcoinTransaction(tx)
+            stopMonitoring.current?.()
+            stopMonitoring.current = sdk.bitcoin.monitorAddress(address.address, (event) => {
+              handleNewBitcoinTransaction(event)
             })
           }
         } catch (sdkError) {
@@ -189,6 +307,21 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
       console.error('Failed to process bridge transactions:', error)
     }
 
+    try {
+      // Get the newest page of on-chain history
+      if (sdkStatus === 'ready' && bitcoinAddress) {
+        const page = await sdk.bitcoin.getTransactionHistory([bitcoinAddress.address])
+        const newest = page.transactions.map(toEnhancedTransaction)
+        const ids = new Set(newest.map(tx => tx.id))
+        enhancedTxs.push(...newest, ...olderHistory.current.filter(tx => !ids.has(tx.id)))
+        if (olderHistory.current.length === 0) {
+          setHistoryCursor(page.cursor)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch Bitcoin history:', error)
+    }
+
     // Add mock yield transactions
     if (vault && vault.yieldEarned > 0) {
       enhancedTxs.push({
@@ -202,37 +335,147 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
     }
 
     return enhancedTxs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-  }, [sdkStatus, bridgeTransactions, vault])
+  }, [sdkStatus, bridgeTransactions, vault, bitcoinAddress, sdk])
+
+  // Read the next page of on-chain history, for infinite scroll
+  const loadMoreTransactions = useCallback(async () => {
+    if (!bitcoinAddress || !historyCursor || loadingMore) return
 
-  // Handle new Bitcoin transactions
-  const handleNewBitcoinTransaction = useCallback(async (tx: any) => {
+    setLoadingMore(true)
     try {
-      const enhancedTx: EnhancedTransaction = {
-        id: tx.txid,
-        type: 'deposit',
-        amount: tx.vout.reduce((sum: number, output: any) => sum + output.value, 0) / 100000000,
-        status: tx.status.confirmed ? 'completed' : 'pending',
-        timestamp: new Date(),
-        fees: tx.fee,
-        description: 'Bitcoin deposit',
-        bitcoinTx: tx,
-        confirmations: tx.status.block_height ? 1 : 0
+      const page = await sdk.bitcoin.getTransactionHistory([bitcoinAddress.address], historyCursor)
+      const older = page.transactions.map(toEnhancedTransaction)
+      olderHistory.current = [...olderHistory.current, ...older]
+      setTransactions(prev => {
+        const ids = new Set(prev.map(tx => tx.id))
+        return [...prev, ...older.filter(tx => !ids.has(tx.id))]
+      })
+      setHistoryCursor(page.cursor)
+    } catch (error) {
+      console.error('Failed to load more transactions:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [bitcoinAddress, historyCursor, loadingMore, sdk])
+
+  // Apply address monitor events; each deposit is credited once, and only while it stays confirmed
+  const handleNewBitcoinTransaction = useCallback((event: AddressEvent) => {
+    try {
+      const tx = event.transaction
+      const ownOutputs = tx.vout
+        .map((output, vout) => ({ key: `${event.txid}:${vout}`, address: output.scriptpubkey_address, value: output.value }))
+        .filter(output => output.address === event.address)
+
+      // Nothing in a transaction that pays none of our outputs belongs to the vault
+      if (ownOutputs.length === 0) return
+
+      const amount = ownOutputs.reduce((sum, output) => sum + output.value, 0) / 100000000
+
+      const status: EnhancedTransaction['status'] = event.type === 'confirmed'
+        ? 'completed'
+        : event.type === 'dropped' || event.type === 'double-spent' ? 'failed' : 'pending'
+
+      setTransactions(prev => {
+        const existing = prev.find(item => item.id === event.txid)
+        if (!existing) {
+          return [{
+            id: event.txid,
+            type: 'deposit',
+            amount,
+            status,
+            timestamp: new Date(),
+            fees: tx.fee,
+            description: 'Bitcoin deposit',
+            bitcoinTx: tx,
+            confirmations: event.confirmations,
+            zeroConf: event.zeroConf
+          }, ...prev]
+        }
+
+        return prev.map(item => item.id === event.txid
+          ? {
+            ...item,
+            // Further confirmations on a credited deposit leave it completed
+            status: event.type === 'confirmations' && item.status === 'completed' ? 'completed' : status,
+            bitcoinTx: tx,
+            confirmations: event.confirmations
+          }
+          : item)
+      })
+
+      // Small mempool deposits the zero-conf policy accepts are credited provisionally, before they confirm
+      const credit = event.type === 'confirmed' || (event.type === 'mempool' && !!event.zeroConf?.credit)
+      const reverse = event.type === 'reorged' || event.type === 'dropped' || event.type === 'double-spent'
+
+      if (event.type === 'double-spent') {
+        securityManager.reportDoubleSpend({
+          txid: event.txid,
+          conflictingTxid: event.conflictingTxid,
+          address: event.address,
+          amount,
+          credited: ownOutputs.some(output => creditedDeposits.current.has(output.key))
+        })
       }
 
-      setTransactions(prev => [enhancedTx, ...prev])
+      let balanceChange = 0
+      for (const output of ownOutputs) {
+        if (credit && !creditedDeposits.current.has(output.key)) {
+          creditedDeposits.current.set(output.key, output.value / 100000000)
+          balanceChange += output.value / 100000000
+        } else if (reverse && creditedDeposits.current.has(output.key)) {
+          balanceChange -= creditedDeposits.current.get(output.key)!
+          creditedDeposits.current.delete(output.key)
+        }
+      }
 
-      // Update vault balance
-      if (vault) {
-        setVault({
-          ...vault,
-          balance: vault.balance + enhancedTx.amount,
+      if (balanceChange !== 0) {
+        saveStored(creditedDepositsKey(userId), Array.from(creditedDeposits.current))
+        setVault(prev => prev && {
+          ...prev,
+          balance: prev.balance + balanceChange,
           updatedAt: new Date()
         })
       }
     } catch (error) {
       console.error('Error handling new Bitcoin transaction:', error)
     }
-  }, [vault])
+  }, [userId])
+
+  // Apply invoice updates to the Lightning deposits they pay; a settled invoice is credited once. Only invoices
+  // this user created count: other users' deposits, hold invoices, rebalances and anything else the node is
+  // paid all come through the same stream.
+  const handleLightningInvoiceEvent = useCallback((event: LightningInvoiceEvent) => {
+    const { invoice } = event
+    const amount = event.amountPaid ?? invoice.amount
+
+    const indexes = invoiceIndexes.current
+    invoiceIndexes.current = {
+      addIndex: Math.max(indexes?.addIndex ?? 0, event.addIndex),
+      settleIndex: Math.max(indexes?.settleIndex ?? 0, event.settleIndex ?? 0)
+    }
+    saveStored(invoiceIndexesKey(userId), invoiceIndexes.current)
+
+    if (!lightningDeposits.current.has(invoice.paymentHash)) return
+    lightningDeposits.current.delete(invoice.paymentHash)
+    saveStored(lightningDepositsKey(userId), Array.from(lightningDeposits.current))
+
+    setLightningInvoice(prev => prev?.paymentHash === invoice.paymentHash ? invoice : prev)
+    setTransactions(prev => prev.map(item => item.id !== invoice.paymentHash || item.type !== 'deposit' ? item : {
+      ...item,
+      amount: event.type === 'settled' ? amount : item.amount,
+      status: event.type === 'settled' ? 'completed' : 'failed'
+    }))
+
+    if (event.type === 'settled' && !creditedDeposits.current.has(invoice.paymentHash)) {
+      creditedDeposits.current.set(invoice.paymentHash, amount)
+      saveStored(creditedDepositsKey(userId), Array.from(creditedDeposits.current))
+      setVault(prev => prev && {
+        ...prev,
+        balance: prev.balance + amount,
+        updatedAt: new Date()
+      })
+    }
+  }, [userId])
 
   // Deposit function
   const deposit = async (request: DepositRequest) => {
@@ -240,6 +483,14 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
       setLoading(true)
       setError(null)
 
+      // Checked before the SDK so an invoice the channels could not take never falls through to the mock deposit
+      if (request.method === 'lightning' && enableRealData && sdkStatus === 'ready') {
+        const check = await sdk.liquidity.checkReceive(request.amount)
+        if (!check.ok) {
+          throw new Error(`Not enough inbound liquidity: the node can receive ${check.availableSat / 100000000} BTC right now`)
+        }
+      }
+
       if (enableRealData && sdkStatus === 'ready') {
         try {
           let newTransaction: EnhancedTransaction
@@ -248,7 +499,7 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
           if (request.method === 'bitcoin') {
             // Create Bitcoin deposit address or transaction
             if (!bitcoinAddress) {
-              const address = await sdk.bitcoin.generateAddress()
+              const address = await sdk.bitcoin.generateAddress(userId)
               setBitcoinAddress(address)
               throw new Error(`Please send ${request.amount} BTC to ${address.address}`)
             }
@@ -273,9 +524,16 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
               description: `Bitcoin deposit to ${bridgeDeposit.depositAddress}`
             }
           } else if (request.method === 'lightning') {
-            // Create Lightning invoice
-            const invoice = await sdk.lightning.createInvoice(request.amount, 'CrossBTC deposit')
+            // Create Lightning invoice, or have an LNURL-withdraw service pay one into the vault. With a
+            // PaymentRouter account set up it is a hold invoice, settled only once the Starknet side completes.
+            const invoice = request.lnurl
+              ? await sdk.lightning.withdrawLnurl(request.lnurl, request.amount)
+              : sdk.conditionalDeposits
+                ? (await sdk.conditionalDeposits.create(request.amount, 'CrossBTC deposit')).invoice
+                : await sdk.lightning.createInvoice(request.amount, 'CrossBTC deposit')
             setLightningInvoice(invoice)
+            lightningDeposits.current.set(invoice.paymentHash, request.amount)
+            saveStored(lightningDepositsKey(userId), Array.from(lightningDeposits.current))
 
             txResult = {
               invoice,
@@ -289,7 +547,7 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
               status: 'pending',
               timestamp: invoice.timestamp,
               fees: 0.000001, // Lightning fee
-              description: 'Lightning deposit'
+              description: request.lnurl ? 'Lightning deposit via LNURL-withdraw' : 'Lightning deposit'
             }
           } else {
             throw new Error('Invalid deposit method')
@@ -337,86 +595,200 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
     }
   }
 
+  // What a Lightning Address or LNURL asks for, to preview before withdrawing to it
+  const resolveLnurl = useCallback((input: string) => sdk.lightning.resolveLnurl(input), [sdk])
+
+  // The route paying an invoice would take and what it would cost, before withdrawing to it
+  const probePayment = useCallback((destination: string, feeLimit?: PaymentFeeLimit) => {
+    const { valid, message, invoice } = decodeLightningInvoice(destination, sdk.config?.bitcoin?.network || 'testnet')
+    if (!valid) {
+      return Promise.reject(new Error(message))
+    }
+    return sdk.lightning.probePayment(invoice, feeLimit)
+  }, [sdk])
+
+  // What each channel can send and receive, and how to even them out, for the channel panel
+  const getChannelLiquidity = useCallback(async (): Promise<LiquiditySnapshot> => {
+    if (sdkStatus !== 'ready') {
+      return { channels: [], outbound: 0, inbound: 0, checkedAt: new Date() }
+    }
+    return await sdk.liquidity.getLiquidity()
+  }, [sdk, sdkStatus])
+
+  const suggestRebalances = useCallback((snapshot: LiquiditySnapshot) => sdk.liquidity.suggestRebalances(snapshot), [sdk])
+
+  const rebalanceChannels = useCallback((suggestion: RebalanceSuggestion) => sdk.liquidity.rebalance(suggestion), [sdk])
+
+  const getRebalanceFeeSpend = useCallback(() => sdk.liquidity.getFeeSpend(), [sdk])
+
   // Withdraw function
   const withdraw = async (request: WithdrawalRequest) => {
     try {
       setLoading(true)
       setError(null)
+      setPaymentProgress(null)
+
+      // A pasted bitcoin: URI fills in the destination and the amount the payee asked for
+      if (isPaymentUri(request.destination)) {
+        const uri = parsePaymentUri(request.destination, sdk.config?.bitcoin?.network || 'testnet')
+        if (!uri.valid) {
+          throw new Error(uri.message)
+        }
+        request = { ...request, ...paymentDestination(uri, request.method), amount: uri.amount ?? request.amount }
+      }
 
       // Validate withdrawal amount
       if (!vault || vault.balance < request.amount) {
         throw new Error('Insufficient balance')
       }
 
-      if (enableRealData && sdkStatus === 'ready') {
-        try {
-          let newTransaction: EnhancedTransaction
-          let txResult
+      // Checked before the SDK so a bad address or invoice never falls through to the mock withdrawal
+      let lnurlPay: LnurlPayRequest | undefined
+      if (request.method === 'bitcoin') {
+        const validation = validateBitcoinAddress(request.destination, sdk.config?.bitcoin?.network || 'testnet')
+        if (!validation.valid) {
+          throw new Error(validation.message)
+        }
+        request = { ...request, destination: validation.address }
+      } else if (request.method === 'lightning' && enableRealData && sdkStatus === 'ready' && isLnurlDestination(request.destination)) {
+        // Lightning Addresses and LNURL-pay links are asked for an invoice when paid; their limits are known now
+        const lnurl = await sdk.lightning.resolveLnurl(request.destination)
+        if (lnurl.tag !== 'payRequest') {
+          throw new Error('This LNURL cannot be paid to')
+        }
+        const amountMsat = Math.round(request.amount * 100000000000)
+        if (amountMsat < lnurl.minSendable || amountMsat > lnurl.maxSendable) {
+          throw new Error(`${lnurl.domain} accepts between ${lnurl.minSendable / 100000000000} and ${lnurl.maxSendable / 100000000000} BTC`)
+        }
+        lnurlPay = lnurl
+      } else if (request.method === 'lightning' && enableRealData && sdkStatus === 'ready') {
+        // Only invoices the node will actually pay; the mock withdrawal never reads them
+        const { valid, message, invoice, decoded } = decodeLightningInvoice(request.destination, sdk.config?.bitcoin?.network || 'testnet')
+        if (!valid || !decoded) {
+          throw new Error(message)
+        }
+        if (decoded.expiresAt.getTime() <= Date.now()) {
+          throw new Error('Lightning invoice has expired')
+        }
+        if (decoded.amountMsat === undefined) {
+          throw new Error('Lightning invoice has no amount')
+        }
+        if (decoded.amountMsat !== Math.round(request.amount * 100000000000)) {
+          throw new Error(`Lightning invoice is for ${decoded.amountMsat / 100000000000} BTC, not ${request.amount} BTC`)
+        }
+        request = { ...request, destination: invoice }
+      }
 
-          if (request.method === 'bitcoin') {
-            // Create bridge withdrawal from Starknet to Bitcoin
-            const withdrawal = await sdk.bridge.createWithdrawal(request.amount, request.destination)
+      // Daily and per-transaction limits and the emergency pause; large withdrawals also need the cosigners
+      const security = securityManager.validateTransaction(request.amount, 'withdraw')
+      if (!security.valid && !security.requiresMultiSig) {
+        throw new Error(security.reason)
+      }
 
-            txResult = {
-              withdrawal,
-              txHash: withdrawal.id
-            }
+      if (security.requiresMultiSig) {
+        // Only an on-chain spend from custody can carry cosigner signatures
+        if (request.method !== 'bitcoin' || !enableRealData || sdkStatus !== 'ready') {
+          throw new Error(security.reason)
+        }
 
-            newTransaction = {
-              id: withdrawal.id,
-              type: 'withdrawal',
-              amount: request.amount,
-              status: 'pending',
-              timestamp: withdrawal.createdAt,
-              fees: withdrawal.fees.bridge + withdrawal.fees.network,
-              description: `Bitcoin withdrawal to ${request.destination}`
-            }
-          } else if (request.method === 'lightning') {
-            // Validate Lightning address and pay invoice
-            if (!request.destination.startsWith('lnbc')) {
-              throw new Error('Invalid Lightning invoice format')
-            }
+        const transaction = await sdk.bitcoin.createTransaction(request.destination, request.amount)
+        const session = sdk.bitcoin.startMultisigSigning(transaction)
+        const progress = session.getProgress()
+        const id = `multisig_${Date.now()}`
+        multisigWithdrawals.current.set(id, { amount: request.amount, destination: request.destination, transaction, session })
+        saveMultisigWithdrawals()
+
+        // Nothing is sent and the balance stays as it is until addCosignerSignatures completes the round
+        setTransactions(prev => [{
+          id,
+          type: 'withdrawal',
+          amount: request.amount,
+          status: 'pending',
+          timestamp: new Date(),
+          description: `Bitcoin withdrawal to ${request.destination}, awaiting ${progress.remaining} cosigner signature(s)`,
+          bitcoinTx: transaction
+        }, ...prev])
+
+        return { success: true, multisigId: id, psbt: session.toBase64(), progress }
+      }
 
-            const payment = await sdk.lightning.payInvoice(request.destination)
+      if (request.method === 'lightning' && enableRealData && sdkStatus === 'ready') {
+        const check = await sdk.liquidity.checkSend(request.amount)
+        if (!check.ok) {
+          throw new Error(`Not enough outbound liquidity: the node can send ${check.availableSat / 100000000} BTC right now`)
+        }
+      }
 
-            txResult = {
-              payment,
-              paymentHash: payment.payment_hash
-            }
+      // Failed payments and payouts are reported as they are, never passed off as a mock withdrawal
+      if (enableRealData && sdkStatus === 'ready') {
+        let newTransaction: EnhancedTransaction
+        let txResult
+
+        if (request.method === 'bitcoin') {
+          // Paid together with other queued withdrawals in the next on-chain batch
+          const payout = sdk.payouts.enqueue({
+            userId,
+            destination: request.destination,
+            amount: request.amount
+          })
 
-            newTransaction = {
-              id: payment.payment_hash,
-              type: 'withdrawal',
-              amount: request.amount,
-              status: 'completed',
-              timestamp: new Date(payment.creation_date),
-              fees: payment.fee / 100000000,
-              description: 'Lightning withdrawal',
-              lightningPayment: payment
-            }
-          } else {
-            throw new Error('Invalid withdrawal method')
+          txResult = {
+            payout,
+            payoutId: payout.id
           }
 
-          // Update vault balance immediately for Lightning, pending for bridge
-          if (request.method === 'lightning') {
-            setVault({
-              ...vault,
-              balance: vault.balance - request.amount,
-              updatedAt: new Date()
-            })
+          newTransaction = {
+            id: payout.id,
+            type: 'withdrawal',
+            amount: request.amount,
+            status: 'pending',
+            timestamp: payout.queuedAt,
+            description: `Bitcoin withdrawal to ${request.destination}`,
+            payout
+          }
+        } else if (request.method === 'lightning') {
+          const paymentOptions = { feeLimit: request.feeLimit, onProgress: setPaymentProgress }
+          const { payment, successAction } = lnurlPay
+            ? await sdk.lightning.payLnurl(lnurlPay, request.amount, request.comment, paymentOptions)
+            : { payment: await sdk.lightning.payInvoice(request.destination, paymentOptions), successAction: undefined }
+
+          txResult = {
+            payment,
+            paymentHash: payment.payment_hash,
+            successAction
           }
 
-          setTransactions(prev => [newTransaction, ...prev])
+          newTransaction = {
+            id: payment.payment_hash,
+            type: 'withdrawal',
+            amount: request.amount,
+            status: 'completed',
+            timestamp: new Date(payment.creation_date),
+            fees: payment.fee / 100000000,
+            description: lnurlPay ? `Lightning withdrawal to ${request.destination}` : 'Lightning withdrawal',
+            lightningPayment: payment,
+            lnurlSuccess: successAction
+          }
+        } else {
+          throw new Error('Invalid withdrawal method')
+        }
 
-          return { success: true, ...txResult }
-        } catch (sdkError) {
-          console.error('SDK withdrawal failed, falling back to mock:', sdkError)
-          // Fall back to mock implementation
+        // Update vault balance immediately for Lightning, pending for bridge
+        if (request.method === 'lightning') {
+          setVault({
+            ...vault,
+            balance: vault.balance - request.amount,
+            updatedAt: new Date()
+          })
         }
+
+        setTransactions(prev => [newTransaction, ...prev])
+        securityManager.recordWithdrawal(request.amount)
+
+        return { success: true, ...txResult }
       }
 
-      // Mock withdrawal (fallback)
+      // Mock withdrawal, when the SDK is not in use
       await new Promise(resolve => setTimeout(resolve, 3000))
 
       // Update vault balance
@@ -437,10 +809,61 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
         description: `${request.method === 'lightning' ? 'Lightning' : 'Bitcoin'} withdrawal`
       }
       setTransactions(prev => [newTransaction, ...prev])
+      securityManager.recordWithdrawal(request.amount)
 
       return { success: true }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Withdrawal failed')
+      setError(getErrorMessage(err, 'Withdrawal failed'))
+      throw err
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Merge a cosigner's signed PSBT into a held withdrawal, and broadcast it once enough have signed
+  const addCosignerSignatures = async (multisigId: string, signedPsbt: string) => {
+    const pending = multisigWithdrawals.current.get(multisigId)
+    if (!pending) {
+      throw new Error('No withdrawal is waiting for cosigner signatures under this id')
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const session = pending.session ?? sdk.bitcoin.startMultisigSigning(pending.transaction)
+      pending.session = session
+      const progress = session.addSignedPsbt(signedPsbt)
+      saveMultisigWithdrawals()
+      const security = securityManager.validateTransaction(pending.amount, 'withdraw', progress)
+      if (!security.valid && !security.requiresMultiSig) {
+        throw new Error(security.reason)
+      }
+
+      if (!security.valid) {
+        setTransactions(prev => prev.map(item => item.id !== multisigId ? item : {
+          ...item,
+          description: `Bitcoin withdrawal to ${pending.destination}, awaiting ${progress.remaining} cosigner signature(s)`
+        }))
+        return { success: true, complete: false, progress }
+      }
+
+      const signed = sdk.bitcoin.completeMultisigSigning(pending.transaction, session)
+      const txid = await sdk.bitcoin.sendTransaction(signed)
+      multisigWithdrawals.current.delete(multisigId)
+      saveMultisigWithdrawals()
+      securityManager.recordWithdrawal(pending.amount)
+
+      setTransactions(prev => prev.map(item => item.id !== multisigId ? item : {
+        ...item,
+        txHash: txid,
+        description: `Bitcoin withdrawal to ${pending.destination}`,
+        bitcoinTx: signed
+      }))
+
+      return { success: true, complete: true, progress, txid }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Cosigner signatures could not be added')
       throw err
     } finally {
       setLoading(false)
@@ -497,6 +920,55 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
     }
   }
 
+  // Preview what speeding up a pending on-chain transaction would cost
+  const previewSpeedUp = async (tx: EnhancedTransaction, options?: FeeBumpOptions): Promise<FeeBumpPreview> => {
+    const txid = tx.bitcoinTx?.txid || tx.payout?.txid
+    if (!txid) {
+      throw new Error('Only on-chain Bitcoin transactions can be sped up')
+    }
+
+    return await sdk.bitcoin.previewFeeBump(txid, options)
+  }
+
+  // Speed up a pending on-chain transaction with RBF or CPFP
+  const speedUpTransaction = async (tx: EnhancedTransaction, options?: FeeBumpOptions) => {
+    try {
+      setError(null)
+
+      // Bumping a batch speeds up every withdrawal in it; the payout listener moves them all to the new txid
+      if (tx.payout?.txid) {
+        const result = await sdk.payouts.bumpBatch(tx.payout.txid, options)
+        return { success: true, ...result }
+      }
+
+      if (!tx.bitcoinTx) {
+        throw new Error('Only on-chain Bitcoin transactions can be sped up')
+      }
+
+      const result = await sdk.bitcoin.bumpFee(tx.bitcoinTx.txid, options)
+
+      setTransactions(prev => prev.map(item => {
+        if (item.id !== tx.id || !item.bitcoinTx) {
+          return item
+        }
+
+        return {
+          ...item,
+          fees: (item.fees || 0) + result.additionalFee,
+          // A replacement takes the original's place; a CPFP child leaves the parent txid unchanged
+          bitcoinTx: result.method === 'rbf'
+            ? { ...item.bitcoinTx, txid: result.newTxid, fee: result.totalFee }
+            : item.bitcoinTx
+        }
+      }))
+
+      return { success: true, ...result }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Speed up failed')
+      throw err
+    }
+  }
+
   // Initialize SDK and set up monitoring
   useEffect(() => {
     const initializeSDK = async () => {
@@ -543,6 +1015,97 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
     return () => clearInterval(interval)
   }, [autoRefresh, refreshInterval, userId, sdkStatus, fetchVault])
 
+  // Keep on-chain fee estimates current for fee previews
+  useEffect(() => {
+    if (!enableRealData || sdkStatus !== 'ready') return
+
+    const refreshFeeEstimates = async () => {
+      try {
+        setFeeEstimates(await sdk.bitcoin.getFeeEstimates())
+      } catch (error) {
+        console.error('Failed to fetch fee estimates:', error)
+      }
+    }
+
+    refreshFeeEstimates()
+    if (!autoRefresh) return
+
+    const interval = setInterval(refreshFeeEstimates, refreshInterval)
+    return () => clearInterval(interval)
+  }, [enableRealData, autoRefresh, refreshInterval, sdkStatus, sdk])
+
+  // Follow queued withdrawals as their batch goes out and confirms
+  useEffect(() => {
+    if (sdkStatus !== 'ready') return
+
+    const unsubscribe = sdk.payouts.subscribe(payout => {
+      if (payout.userId !== userId) return
+
+      setTransactions(prev => prev.map(item => item.id !== payout.id ? item : {
+        ...item,
+        payout,
+        txHash: payout.txid,
+        status: payout.status === 'confirmed' ? 'completed' : payout.status === 'failed' ? 'failed' : 'pending'
+      }))
+    })
+    if (!autoRefresh) return unsubscribe
+
+    const interval = setInterval(() => sdk.payouts.refresh(), refreshInterval)
+    return () => {
+      unsubscribe()
+      clearInterval(interval)
+    }
+  }, [autoRefresh, refreshInterval, userId, sdkStatus, sdk])
+
+  // Lightning deposits are credited the moment their invoice settles
+  useEffect(() => {
+    if (!enableRealData || sdkStatus !== 'ready') return
+
+    // Resumes where the last page left off, so settlements from while it was closed are replayed
+    const unsubscribe = sdk.lightning.subscribeInvoices(handleLightningInvoiceEvent, invoiceIndexes.current ?? undefined)
+
+    // Not every backend replays (Eclair does not, and indexes are kept per browser), so open deposits are also looked up
+    let stopped = false
+    Array.from(lightningDeposits.current.keys()).forEach(async paymentHash => {
+      try {
+        const invoice = await sdk.lightning.getInvoice(paymentHash)
+        if (stopped || invoice.status === 'pending') return
+        handleLightningInvoiceEvent(invoice.status === 'paid'
+          ? { type: 'settled', invoice, addIndex: 0 }
+          : { type: 'expired', invoice, addIndex: 0 })
+      } catch (error) {
+        console.error('Failed to look up Lightning deposit:', error)
+      }
+    })
+
+    return () => {
+      stopped = true
+      unsubscribe()
+    }
+  }, [enableRealData, sdkStatus, sdk, handleLightningInvoiceEvent])
+
+  // Conditional deposits are credited once the orchestrator has settled them, and failed once it gives the HTLC back
+  useEffect(() => {
+    const conditionalDeposits = sdk.conditionalDeposits
+    if (!enableRealData || sdkStatus !== 'ready' || !conditionalDeposits) return
+
+    return conditionalDeposits.subscribe(deposit => {
+      if (deposit.status === 'completed') {
+        handleLightningInvoiceEvent({ type: 'settled', invoice: deposit.invoice, amountPaid: deposit.amount, addIndex: 0 })
+      } else if (deposit.status === 'canceled' || deposit.status === 'expired') {
+        handleLightningInvoiceEvent({ type: deposit.status, invoice: deposit.invoice, addIndex: 0 })
+      }
+    })
+  }, [enableRealData, sdkStatus, sdk, handleLightningInvoiceEvent])
+
+  // Stop address monitoring on unmount
+  useEffect(() => {
+    return () => {
+      stopMonitoring.current?.()
+      stopMonitoring.current = null
+    }
+  }, [])
+
   // Refresh transactions periodically
   useEffect(() => {
     if (!autoRefresh || !bitcoinAddress || sdkStatus !== 'ready') return
@@ -568,11 +1131,26 @@ export function useVault(userId: string, options: UseVaultOptions = {}) {
     bitcoinAddress,
     lightningInvoice,
     bridgeTransactions,
+    feeEstimates,
+    bitcoinNetwork: sdk.config?.bitcoin?.network || 'testnet',
     deposit,
     withdraw,
+    addCosignerSignatures,
+    resolveLnurl,
+    probePayment,
+    paymentProgress,
+    getChannelLiquidity,
+    suggestRebalances,
+    rebalanceChannels,
+    getRebalanceFeeSpend,
     claimYield,
+    previewSpeedUp,
+    speedUpTransaction,
     refetch: fetchVault,
     refreshTransactions: getEnhancedTransactions,
+    loadMoreTransactions,
+    hasMoreTransactions: !!historyCursor,
+    loadingMore,
     // Additional utility functions
     getBitcoinBalance: async () => {
       if (bitcoinAddress && sdkStatus === 'ready') {
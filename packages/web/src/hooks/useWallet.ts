@@ -3,7 +3,7 @@
  */
 import { useState, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { xverseWallet, XverseWalletAccount } from '@/services/wallets/xverse';
+import { xverseWallet, XverseWalletAccount, XverseTransactionParams } from '@/services/wallets/xverse';
 import { chipiPay, ChipiPaymentRequest, ChipiPaymentResponse } from '@/services/wallets/chipiPay';
 
 export interface WalletState {
@@ -117,7 +117,7 @@ export const useWallet = () => {
 
   // Send Bitcoin via Xverse
   const { mutate: sendBitcoin, isPending: isSendingBitcoin } = useMutation({
-    mutationFn: async (params: { toAddress: string; amount: number; message?: string }) => {
+    mutationFn: async (params: XverseTransactionParams) => {
       return await xverseWallet.sendBitcoin(params);
     },
     onSuccess: () => {
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { SESSION_COOKIE, createSessionRoute, issueSessionToken, readSession } from '../apiSession'
+
+const env = {
+  API_SESSION_SECRET: 'session-secret',
+  VAULT_ACCESS_KEYS: `alice:${createHash('sha256').update('alice-key').digest('hex')}, bob:${createHash('sha256').update('bob-key').digest('hex')}`,
+  VAULT_OPERATORS: 'bob'
+}
+
+function mockRequest(headers: Record<string, string> = {}, body?: any, method = 'POST'): NextApiRequest {
+  return { method, body, headers: { host: 'vault.example', ...headers } } as unknown as NextApiRequest
+}
+
+function mockResponse() {
+  const sent: { status: number; body: any; headers: Record<string, string> } = { status: 200, body: undefined, headers: {} }
+  const res: any = {
+    status: (status: number) => { sent.status = status; return res },
+    setHeader: (name: string, value: string) => { sent.headers[name] = value; return res },
+    json: (body: any) => { sent.body = body },
+    end: () => undefined
+  }
+  return { res: res as NextApiResponse, sent }
+}
+
+const withSession = (token: string, headers: Record<string, string> = {}) => mockRequest({ cookie: `theme=dark; ${SESSION_COOKIE}=${token}`, ...headers })
+
+describe('apiSession', () => {
+  describe('readSession', () => {
+    it('should read the user of a signed session', () => {
+      expect(readSession(withSession(issueSessionToken('alice', env.API_SESSION_SECRET)), env)).toEqual({ userId: 'alice', operator: false })
+      expect(readSession(withSession(issueSessionToken('bob', env.API_SESSION_SECRET)), env)).toEqual({ userId: 'bob', operator: true })
+    })
+
+    it('should refuse forged, tampered and expired sessions', () => {
+      const token = issueSessionToken('alice', env.API_SESSION_SECRET)
+      const [, signature] = token.split('.')
+      const tampered = `${Buffer.from(JSON.stringify({ sub: 'bob', exp: 9999999999 })).toString('base64url')}.${signature}`
+
+      expect(readSession(withSession(issueSessionToken('alice', 'guess')), env)).toBeNull()
+      expect(readSession(withSession(tampered), env)).toBeNull()
+      expect(readSession(withSession(token), env, Date.now() + 13 * 60 * 60 * 1000)).toBeNull()
+      expect(readSession(mockRequest(), env)).toBeNull()
+    })
+
+    it('should refuse sessions sent by another site', () => {
+      const token = issueSessionToken('alice', env.API_SESSION_SECRET)
+
+      expect(readSession(withSession(token, { origin: 'https://evil.example' }), env)).toBeNull()
+      expect(readSession(withSession(token, { 'sec-fetch-site': 'cross-site' }), env)).toBeNull()
+      expect(readSession(withSession(token, { origin: 'https://vault.example' }), env)).not.toBeNull()
+    })
+
+    it('should refuse every session when no secret is configured', () => {
+      const token = issueSessionToken('alice', '')
+
+      expect(readSession(withSession(token), { ...env, API_SESSION_SECRET: undefined })).toBeNull()
+    })
+  })
+
+  describe('createSessionRoute', () => {
+    const route = createSessionRoute(env)
+
+    it('should sign in with a listed access key and set an HttpOnly, SameSite=Strict cookie', async () => {
+      const { res, sent } = mockResponse()
+
+      await route(mockRequest({}, { userId: 'alice', accessKey: 'alice-key' }), res)
+
+      expect(sent).toMatchObject({ status: 200, body: { userId: 'alice' } })
+      expect(sent.headers['Set-Cookie']).toMatch(new RegExp(`^${SESSION_COOKIE}=[^;]+; Path=/api; HttpOnly; SameSite=Strict; Max-Age=43200$`))
+
+      const token = sent.headers['Set-Cookie'].split(';')[0].slice(SESSION_COOKIE.length + 1)
+      expect(readSession(withSession(token), env)?.userId).toBe('alice')
+    })
+
+    it('should refuse keys of other users, unknown users and cross-site sign ins', async () => {
+      const wrongKey = mockResponse()
+      const unknown = mockResponse()
+      const crossSite = mockResponse()
+
+      await route(mockRequest({}, { userId: 'alice', accessKey: 'bob-key' }), wrongKey.res)
+      await route(mockRequest({}, { userId: 'carol', accessKey: 'alice-key' }), unknown.res)
+      await route(mockRequest({ origin: 'https://evil.example' }, { userId: 'alice', accessKey: 'alice-key' }), crossSite.res)
+
+      expect(wrongKey.sent.status).toBe(401)
+      expect(unknown.sent.status).toBe(401)
+      expect(crossSite.sent.status).toBe(403)
+      expect(wrongKey.sent.headers['Set-Cookie']).toBeUndefined()
+    })
+
+    it('should clear the cookie on sign out', async () => {
+      const { res, sent } = mockResponse()
+
+      await route(mockRequest({}, undefined, 'DELETE'), res)
+
+      expect(sent.status).toBe(204)
+      expect(sent.headers['Set-Cookie']).toContain('Max-Age=0')
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { buildPaymentUri, isPaymentUri, parsePaymentUri, paymentDestination } from '../bip21'
+
+const ADDRESS = 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl'
+// BOLT11 specification example (testnet)
+const TESTNET_INVOICE = 'lntb20m1pvjluezhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqfpp3x9et2e20v6pu37c5d9vax37wxq72un98kmzzhznpurw9sgl2v0nklu2g4d0keph5t7tj9tcqd8rexnd07ux4uv2cjvcqwaxgj7v4uwn5wmypjd5n69z2xm3xgksg28nwht7f6zspwp3f9t'
+
+describe('bip21', () => {
+  describe('buildPaymentUri', () => {
+    it('should encode the amount in BTC without float noise and escape text', () => {
+      expect(buildPaymentUri({ address: ADDRESS, amount: 0.1 + 0.2, label: 'Vault deposit', message: 'Order #42 & more' }))
+        .toBe(`bitcoin:${ADDRESS}?amount=0.3&label=Vault%20deposit&message=Order%20%2342%20%26%20more`)
+      expect(buildPaymentUri({ address: ADDRESS, amount: 10 })).toBe(`bitcoin:${ADDRESS}?amount=10`)
+    })
+
+    it('should build unified URIs and invoice-only URIs', () => {
+      expect(buildPaymentUri({ address: ADDRESS, amount: 0.02, lightning: TESTNET_INVOICE }))
+        .toBe(`bitcoin:${ADDRESS}?amount=0.02&lightning=${TESTNET_INVOICE}`)
+      expect(buildPaymentUri({ lightning: TESTNET_INVOICE })).toBe(`bitcoin:?lightning=${TESTNET_INVOICE}`)
+    })
+
+    it('should refuse an empty or invalid payment', () => {
+      expect(() => buildPaymentUri({ amount: 1 })).toThrow('address or a Lightning invoice')
+      expect(() => buildPaymentUri({ address: ADDRESS, amount: -1 })).toThrow('Invalid payment amount')
+    })
+  })
+
+  describe('parsePaymentUri', () => {
+    it('should round-trip what buildPaymentUri produces', () => {
+      const uri = buildPaymentUri({ address: ADDRESS, amount: 0.0005, label: 'Vault deposit', message: 'Thanks!', lightning: TESTNET_INVOICE })
+
+      expect(parsePaymentUri(uri, 'testnet')).toMatchObject({
+        valid: true,
+        address: ADDRESS,
+        amount: 0.0005,
+        label: 'Vault deposit',
+        message: 'Thanks!',
+        lightning: TESTNET_INVOICE
+      })
+    })
+
+    it('should accept uppercase QR-code URIs', () => {
+      const uri = `BITCOIN:${ADDRESS.toUpperCase()}?AMOUNT=1.5`
+
+      expect(isPaymentUri(uri)).toBe(true)
+      expect(parsePaymentUri(uri, 'testnet')).toMatchObject({ valid: true, address: ADDRESS, amount: 1.5 })
+    })
+
+    it('should keep parameters it does not use but refuse unknown requirements', () => {
+      expect(parsePaymentUri(`bitcoin:${ADDRESS}?somethingelse=x`).params).toEqual({ somethingelse: 'x' })
+      expect(parsePaymentUri(`bitcoin:${ADDRESS}?req-somethingelse=x`).error).toBe('unsupported_requirement')
+    })
+
+    it('should reject malformed amounts', () => {
+      for (const amount of ['1,000', '1e-3', '-1', '0', '0.123456789', 'abc']) {
+        expect(parsePaymentUri(`bitcoin:${ADDRESS}?amount=${amount}`).error).toBe('invalid_amount')
+      }
+    })
+
+    it('should check the address and invoice against the network', () => {
+      expect(parsePaymentUri(`bitcoin:${ADDRESS}`, 'mainnet')).toMatchObject({ valid: false, error: 'invalid_address' })
+      expect(parsePaymentUri(`bitcoin:?lightning=${TESTNET_INVOICE}`, 'mainnet')).toMatchObject({ valid: false, error: 'invalid_invoice' })
+      expect(parsePaymentUri('bitcoin:?amount=1').error).toBe('invalid_format')
+      expect(parsePaymentUri(ADDRESS).error).toBe('invalid_format')
+    })
+  })
+
+  describe('paymentDestination', () => {
+    it('should use the preferred rail when offered and fall back to the other', () => {
+      const unified = { address: ADDRESS, lightning: TESTNET_INVOICE }
+
+      expect(paymentDestination(unified, 'lightning')).toEqual({ method: 'lightning', destination: TESTNET_INVOICE })
+      expect(paymentDestination(unified, 'bitcoin')).toEqual({ method: 'bitcoin', destination: ADDRESS })
+      expect(paymentDestination({ lightning: TESTNET_INVOICE }, 'bitcoin')).toEqual({ method: 'lightning', destination: TESTNET_INVOICE })
+    })
+  })
+})
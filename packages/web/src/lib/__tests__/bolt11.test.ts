@@ -0,0 +1,206 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js'
+import { decodeLightningInvoice, isValidLightningInvoice } from '../bolt11'
+
+// BOLT11 specification examples, signed by the key below
+const MAINNET_INVOICE = 'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp'
+const DONATION_INVOICE = 'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w'
+const TESTNET_INVOICE = 'lntb20m1pvjluezhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqfpp3x9et2e20v6pu37c5d9vax37wxq72un98kmzzhznpurw9sgl2v0nklu2g4d0keph5t7tj9tcqd8rexnd07ux4uv2cjvcqwaxgj7v4uwn5wmypjd5n69z2xm3xgksg28nwht7f6zspwp3f9t'
+
+const PAYEE_KEY = hexToBytes('e126f68f7eafcc8b74f54d269fe206be715000f94dac067d1c04a8ca3b2db734')
+const PAYEE = '03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad'
+const PAYMENT_HASH = '0001020304050607080900010203040506070809000102030405060708090102'
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+
+function polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]
+  let checksum = 1
+  for (const value of values) {
+    const top = checksum >>> 25
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value
+    generators.forEach((generator, bit) => {
+      if ((top >>> bit) & 1) {
+        checksum ^= generator
+      }
+    })
+  }
+  return checksum >>> 0
+}
+
+function bech32(hrp: string, data: number[]): string {
+  const expanded = hrp.split('').map(c => c.charCodeAt(0) >> 5).concat([0], hrp.split('').map(c => c.charCodeAt(0) & 31))
+  const mod = polymod([...expanded, ...data, 0, 0, 0, 0, 0, 0]) ^ 1
+  const checksum = [0, 1, 2, 3, 4, 5].map(i => (mod >> (5 * (5 - i))) & 31)
+  return `${hrp}1${[...data, ...checksum].map(word => CHARSET[word]).join('')}`
+}
+
+function toWords(bytes: Uint8Array): number[] {
+  const words: number[] = []
+  let accumulator = 0
+  let bits = 0
+  for (const byte of Array.from(bytes)) {
+    accumulator = (accumulator << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      bits -= 5
+      words.push((accumulator >> bits) & 31)
+    }
+  }
+  if (bits > 0) {
+    words.push((accumulator << (5 - bits)) & 31)
+  }
+  return words
+}
+
+function numberWords(value: number, length?: number): number[] {
+  const words: number[] = []
+  for (; value > 0 || words.length === 0; value = Math.floor(value / 32)) {
+    words.unshift(value % 32)
+  }
+  return length ? [...Array(length - words.length).fill(0), ...words] : words
+}
+
+function field(tag: string, words: number[]): number[] {
+  return [CHARSET.indexOf(tag), words.length >> 5, words.length & 31, ...words]
+}
+
+// Build and sign an invoice the way a node would
+function encodeInvoice(hrp: string, timestamp: number, fields: number[][], key = PAYEE_KEY): string {
+  const body = [...numberWords(timestamp, 7), ...fields.flat()]
+  const bytes = new Uint8Array(Math.ceil(body.length * 5 / 8))
+  body.forEach((word, i) => {
+    for (let bit = 0; bit < 5; bit++) {
+      const position = i * 5 + bit
+      bytes[position >> 3] |= ((word >> (4 - bit)) & 1) << (7 - (position & 7))
+    }
+  })
+
+  const recovered = secp256k1.sign(sha256(concatBytes(utf8ToBytes(hrp), bytes)), key, { prehash: false, format: 'recovered' })
+  const signature = concatBytes(recovered.slice(1), recovered.slice(0, 1))
+  return bech32(hrp, [...body, ...toWords(signature)])
+}
+
+describe('decodeLightningInvoice', () => {
+  it('should decode the specification invoices and recover the payee', () => {
+    const { valid, decoded } = decodeLightningInvoice(MAINNET_INVOICE)
+
+    expect(valid).toBe(true)
+    expect(decoded).toMatchObject({
+      network: 'mainnet',
+      amountMsat: 250000000,
+      timestamp: new Date(1496314658 * 1000),
+      expiry: 60,
+      expiresAt: new Date((1496314658 + 60) * 1000),
+      paymentHash: PAYMENT_HASH,
+      description: '1 cup coffee',
+      payee: PAYEE,
+      minFinalCltvExpiry: 18,
+      routeHints: []
+    })
+  })
+
+  it('should default the expiry and leave the amount out of donation invoices', () => {
+    const { decoded } = decodeLightningInvoice(DONATION_INVOICE)
+
+    expect(decoded?.amountMsat).toBeUndefined()
+    expect(decoded?.expiry).toBe(3600)
+    expect(decoded?.description).toBe('Please consider supporting this project')
+    expect(decoded?.payee).toBe(PAYEE)
+  })
+
+  it('should read description hashes and check the network', () => {
+    expect(decodeLightningInvoice(TESTNET_INVOICE, 'testnet').decoded).toMatchObject({
+      network: 'testnet',
+      amountMsat: 2000000000,
+      descriptionHash: '3925b6f67e2c340036ed12093dd44e0368df1b6ea26c53dbe4811f58fd5db8c1'
+    })
+    expect(decodeLightningInvoice(TESTNET_INVOICE, 'mainnet')).toMatchObject({ valid: false, error: 'wrong_network' })
+  })
+
+  it('should recover someone other than the payee from a tampered invoice', () => {
+    // Swap the description for another of the same length and keep the original signature
+    const signature = MAINNET_INVOICE.slice(-110, -6)
+    const body = [
+      ...numberWords(1496314658, 7),
+      ...field('p', toWords(hexToBytes(PAYMENT_HASH))),
+      ...field('d', toWords(utf8ToBytes('9 cup coffee'))),
+      ...field('x', numberWords(60))
+    ]
+    const forged = bech32('lnbc2500u', [...body, ...signature.split('').map(char => CHARSET.indexOf(char))])
+
+    expect(decodeLightningInvoice(MAINNET_INVOICE.replace(/.{6}$/, '')).valid).toBe(false)
+    expect(decodeLightningInvoice(forged).decoded?.payee).not.toBe(PAYEE)
+    expect(decodeLightningInvoice(bech32('lnbc2500u', [...body, ...Array(104).fill(0)]))).toMatchObject({
+      valid: false,
+      error: 'invalid_signature'
+    })
+  })
+
+  it('should reject an invoice that names a payee other than its signer', () => {
+    const invoice = encodeInvoice('lntb10u', 1700000000, [
+      field('p', toWords(hexToBytes(PAYMENT_HASH))),
+      field('n', toWords(hexToBytes('02' + '11'.repeat(32))))
+    ])
+
+    expect(decodeLightningInvoice(invoice)).toMatchObject({ valid: false, error: 'invalid_signature' })
+  })
+
+  it('should read route hints, payment secrets and the final CLTV delta', () => {
+    const hop = concatBytes(
+      hexToBytes(PAYEE),
+      hexToBytes('0a1b2c' + '000d0e' + '0001'), // block 662316, transaction 3342, output 1
+      hexToBytes('000003e8'),
+      hexToBytes('00000064'),
+      hexToBytes('0028')
+    )
+    const secret = '11'.repeat(32)
+    const invoice = encodeInvoice('lntb10u', 1700000000, [
+      field('p', toWords(hexToBytes(PAYMENT_HASH))),
+      field('s', toWords(hexToBytes(secret))),
+      field('c', numberWords(144)),
+      field('r', toWords(concatBytes(hop, hop))),
+      field('9', numberWords(0x4100)) // feature bits are skipped
+    ])
+
+    const { decoded } = decodeLightningInvoice(invoice, 'testnet')
+
+    expect(decoded?.paymentSecret).toBe(secret)
+    expect(decoded?.minFinalCltvExpiry).toBe(144)
+    expect(decoded?.routeHints).toHaveLength(1)
+    expect(decoded?.routeHints[0]).toEqual([
+      { pubkey: PAYEE, shortChannelId: '662316x3342x1', feeBaseMsat: 1000, feeProportionalMillionths: 100, cltvExpiryDelta: 40 },
+      { pubkey: PAYEE, shortChannelId: '662316x3342x1', feeBaseMsat: 1000, feeProportionalMillionths: 100, cltvExpiryDelta: 40 }
+    ])
+    expect(decoded?.payee).toBe(bytesToHex(secp256k1.getPublicKey(PAYEE_KEY, true)))
+  })
+
+  it('should keep millisatoshi amounts and refuse anything finer', () => {
+    const paymentHash = field('p', toWords(hexToBytes(PAYMENT_HASH)))
+
+    expect(decodeLightningInvoice(encodeInvoice('lntb12340p', 1700000000, [paymentHash])).decoded?.amountMsat).toBe(1234)
+    expect(decodeLightningInvoice(encodeInvoice('lntb12345p', 1700000000, [paymentHash]))).toMatchObject({
+      valid: false,
+      error: 'invalid_format'
+    })
+  })
+
+  it('should reject invoices without a payment hash', () => {
+    const invoice = encodeInvoice('lntb10u', 1700000000, [field('d', toWords(utf8ToBytes('no hash')))])
+
+    expect(decodeLightningInvoice(invoice)).toMatchObject({ valid: false, error: 'invalid_format' })
+  })
+})
+
+describe('isValidLightningInvoice', () => {
+  it('validates BOLT11 invoices correctly', () => {
+    expect(isValidLightningInvoice('lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp')).toBe(true)
+  })
+
+  it('rejects invalid invoices', () => {
+    expect(isValidLightningInvoice('invalid')).toBe(false)
+    expect(isValidLightningInvoice('')).toBe(false)
+    expect(isValidLightningInvoice('lnbcinvalid')).toBe(false)
+  })
+})
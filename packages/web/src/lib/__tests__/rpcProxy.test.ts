@@ -0,0 +1,298 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { SESSION_COOKIE, issueSessionToken } from '../apiSession'
+import { createBitcoinRpcProxy, createLightningProxy } from '../rpcProxy'
+
+const SECRET = 'session-secret'
+// 250,000 sats, from the BOLT11 test vectors
+const INVOICE = 'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp'
+
+interface Sent {
+  status: number
+  body: any
+  headers: Record<string, string>
+}
+
+// Signed in as `userId` unless null is given
+function mockRequest(path: string[], body: any, method = 'POST', userId: string | null = 'user-1'): NextApiRequest {
+  const headers = userId ? { host: 'vault.example', cookie: `${SESSION_COOKIE}=${issueSessionToken(userId, SECRET)}` } : {}
+  return { method, query: { path }, body, headers } as unknown as NextApiRequest
+}
+
+// Records what the route answers, whether as JSON or as the node's own body
+function mockResponse(): { res: NextApiResponse; sent: Sent } {
+  const sent: Sent = { status: 200, body: undefined, headers: {} }
+  const res: any = {
+    status: (status: number) => { sent.status = status; return res },
+    setHeader: (name: string, value: string) => { sent.headers[name] = value; return res },
+    json: (body: any) => { sent.body = body },
+    send: (body: string) => { sent.body = JSON.parse(body) }
+  }
+  return { res, sent }
+}
+
+function mockNode(status = 200, body: any = { result: 1, error: null, id: 1 }): jest.Mock {
+  const fetchMock = jest.fn(async () => ({ status, text: async () => JSON.stringify(body) }))
+  global.fetch = fetchMock as any
+  return fetchMock
+}
+
+describe('rpcProxy', () => {
+  describe('createBitcoinRpcProxy', () => {
+    const proxy = createBitcoinRpcProxy({
+      BITCOIN_RPC_URL: 'http://127.0.0.1:8332/',
+      BITCOIN_RPC_USER: 'alice',
+      BITCOIN_RPC_PASSWORD: 'secret',
+      BITCOIN_RPC_WALLET: 'vault',
+      API_SESSION_SECRET: SECRET,
+      VAULT_OPERATORS: 'operator'
+    })
+
+    it('should add the credentials held on the server and forward to the wallet endpoint', async () => {
+      const fetchMock = mockNode(200, { result: [], error: null, id: 3 })
+      const { res, sent } = mockResponse()
+      const call = { jsonrpc: '1.0', id: 3, method: 'listunspent', params: [0] }
+
+      await proxy(mockRequest(['wallet', 'vault'], call), res)
+
+      expect(fetchMock).toHaveBeenCalledWith('http://127.0.0.1:8332/wallet/vault', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Basic ${btoa('alice:secret')}` },
+        body: JSON.stringify(call)
+      })
+      expect(sent).toMatchObject({ status: 200, body: { result: [], id: 3 } })
+    })
+
+    it('should pass node errors through as they are', async () => {
+      mockNode(500, { result: null, error: { code: -5, message: 'No such mempool or blockchain transaction' }, id: 1 })
+      const { res, sent } = mockResponse()
+
+      await proxy(mockRequest([], { method: 'getrawtransaction', params: ['aa'] }), res)
+
+      expect(sent.status).toBe(500)
+      expect(sent.body.error.code).toBe(-5)
+    })
+
+    it('should refuse RPCs the backend does not make, without calling the node', async () => {
+      const fetchMock = mockNode()
+      const { res, sent } = mockResponse()
+
+      await proxy(mockRequest([], { method: 'dumpprivkey', params: [] }), res)
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(sent).toMatchObject({ status: 403, body: { error: { message: 'Method not allowed: dumpprivkey' } } })
+    })
+
+    it('should only accept POSTs to the node or a wallet', async () => {
+      const fetchMock = mockNode()
+      const get = mockResponse()
+      const unknown = mockResponse()
+
+      await proxy(mockRequest([], { method: 'getblockcount' }, 'GET'), get.res)
+      await proxy(mockRequest(['rest', 'tx'], { method: 'getblockcount' }), unknown.res)
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(get.sent).toMatchObject({ status: 405, headers: { Allow: 'POST' } })
+      expect(unknown.sent.status).toBe(404)
+    })
+
+    it('should only reach the wallet the server names', async () => {
+      const fetchMock = mockNode()
+      const { res, sent } = mockResponse()
+
+      await proxy(mockRequest(['wallet', 'treasury'], { method: 'listunspent', params: [] }), res)
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(sent.status).toBe(404)
+    })
+
+    it('should refuse callers without a session, or from another site', async () => {
+      const fetchMock = mockNode()
+      const anonymous = mockResponse()
+      const forged = mockResponse()
+      const crossSite = mockResponse()
+      const call = { method: 'sendrawtransaction', params: ['02000000'] }
+
+      await proxy(mockRequest([], call, 'POST', null), anonymous.res)
+      await proxy({ ...mockRequest([], call), headers: { cookie: `${SESSION_COOKIE}=${issueSessionToken('user-1', 'guess')}` } } as any, forged.res)
+      await proxy({ ...mockRequest([], call), headers: { ...mockRequest([], call).headers, origin: 'https://evil.example' } } as any, crossSite.res)
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(anonymous.sent).toMatchObject({ status: 401, body: { error: { message: 'Sign in to reach the node' } } })
+      expect(forged.sent.status).toBe(401)
+      expect(crossSite.sent.status).toBe(401)
+    })
+
+    it('should leave importing descriptors to operators', async () => {
+      const fetchMock = mockNode()
+      const user = mockResponse()
+      const operator = mockResponse()
+      const call = { method: 'importdescriptors', params: [[]] }
+
+      await proxy(mockRequest(['wallet', 'vault'], call), user.res)
+      await proxy(mockRequest(['wallet', 'vault'], call, 'POST', 'operator'), operator.res)
+
+      expect(user.sent.status).toBe(403)
+      expect(operator.sent.status).toBe(200)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should answer 503 when no node is configured', async () => {
+      const { res, sent } = mockResponse()
+
+      await createBitcoinRpcProxy({})(mockRequest([], { method: 'getblockcount' }), res)
+
+      expect(sent).toMatchObject({ status: 503, body: { error: { message: 'Bitcoin Core RPC is not configured' } } })
+    })
+  })
+
+  describe('createLightningProxy', () => {
+    it('should call clnrest with the rune', async () => {
+      const fetchMock = mockNode(200, { id: '02ab' })
+      const { res, sent } = mockResponse()
+      const proxy = createLightningProxy({
+        NEXT_PUBLIC_LIGHTNING_BACKEND: 'cln',
+        LIGHTNING_RPC_URL: 'https://cln.example:3010',
+        LIGHTNING_RUNE: 'rune-secret',
+        API_SESSION_SECRET: SECRET
+      })
+
+      await proxy(mockRequest(['v1', 'getinfo'], {}), res)
+
+      expect(fetchMock).toHaveBeenCalledWith('https://cln.example:3010/v1/getinfo', {
+        method: 'POST',
+        headers: { Rune: 'rune-secret', 'Content-Type': 'application/json' },
+        body: '{}'
+      })
+      expect(sent.body).toEqual({ id: '02ab' })
+    })
+
+    it('should form-encode Eclair calls with the API password', async () => {
+      const fetchMock = mockNode(200, { serialized: 'lntb1' })
+      const { res } = mockResponse()
+      const proxy = createLightningProxy({
+        NEXT_PUBLIC_LIGHTNING_BACKEND: 'eclair',
+        LIGHTNING_RPC_URL: 'http://127.0.0.1:8080',
+        LIGHTNING_PASSWORD: 'pw',
+        API_SESSION_SECRET: SECRET
+      })
+
+      await proxy(mockRequest(['createinvoice'], { amountMsat: '1000', description: 'Vault deposit' }), res)
+
+      expect(fetchMock).toHaveBeenCalledWith('http://127.0.0.1:8080/createinvoice', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${btoa(':pw')}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'amountMsat=1000&description=Vault+deposit'
+      })
+    })
+
+    describe('payments', () => {
+      const env = {
+        NEXT_PUBLIC_LIGHTNING_BACKEND: 'cln',
+        LIGHTNING_RPC_URL: 'https://cln.example:3010',
+        LIGHTNING_RUNE: 'rune-secret',
+        LIGHTNING_MAX_PAYMENT_SAT: '300000',
+        LIGHTNING_DAILY_LIMIT_SAT: '400000',
+        API_SESSION_SECRET: SECRET
+      }
+      const pay = { bolt11: INVOICE, maxfee: 1000000 }
+
+      it('should pay within the limits and refuse what would take the user over the daily limit', async () => {
+        const fetchMock = mockNode(200, { status: 'complete' })
+        const proxy = createLightningProxy(env)
+        const first = mockResponse()
+        const second = mockResponse()
+        const otherUser = mockResponse()
+
+        await proxy(mockRequest(['v1', 'pay'], pay), first.res)
+        await proxy(mockRequest(['v1', 'pay'], pay), second.res)
+        await proxy(mockRequest(['v1', 'pay'], pay, 'POST', 'user-2'), otherUser.res)
+
+        expect(first.sent.status).toBe(200)
+        expect(second.sent).toMatchObject({ status: 403, body: { message: 'Payment would take user-1 over the daily limit of 400000 sats' } })
+        expect(otherUser.sent.status).toBe(200)
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+      })
+
+      it('should count the most the node may pay in fees against the per-payment limit', async () => {
+        const fetchMock = mockNode()
+        const { res, sent } = mockResponse()
+
+        await createLightningProxy(env)(mockRequest(['v1', 'pay'], { bolt11: INVOICE, maxfeepercent: 50 }), res)
+
+        expect(fetchMock).not.toHaveBeenCalled()
+        expect(sent).toMatchObject({ status: 403, body: { message: 'Payment of up to 375000 sats with fees is above the 300000 sat limit' } })
+      })
+
+      it('should stop counting payments the node reports as failed', async () => {
+        const proxy = createLightningProxy(env)
+        const failed = mockResponse()
+        const retried = mockResponse()
+
+        mockNode(500, { code: 210, message: 'Ran out of routes to try' })
+        await proxy(mockRequest(['v1', 'pay'], pay), failed.res)
+        mockNode(200, { status: 'complete' })
+        await proxy(mockRequest(['v1', 'pay'], pay), retried.res)
+
+        expect(failed.sent.status).toBe(500)
+        expect(retried.sent.status).toBe(200)
+      })
+
+      it('should refuse payments without a verified invoice, and all payments when no limits are set', async () => {
+        const fetchMock = mockNode()
+        const forged = mockResponse()
+        const unlimited = mockResponse()
+        const eclair = mockResponse()
+
+        await createLightningProxy(env)(mockRequest(['v1', 'pay'], { bolt11: `${INVOICE.slice(0, -8)}qqqqqqqq` }), forged.res)
+        await createLightningProxy({ ...env, LIGHTNING_DAILY_LIMIT_SAT: undefined })(mockRequest(['v1', 'pay'], pay), unlimited.res)
+        await createLightningProxy({
+          NEXT_PUBLIC_LIGHTNING_BACKEND: 'eclair',
+          LIGHTNING_RPC_URL: 'http://127.0.0.1:8080',
+          LIGHTNING_PASSWORD: 'pw',
+          API_SESSION_SECRET: SECRET
+        })(mockRequest(['payinvoice'], { invoice: INVOICE }), eclair.res)
+
+        expect(fetchMock).not.toHaveBeenCalled()
+        expect(forged.sent.status).toBe(400)
+        expect(unlimited.sent).toMatchObject({ status: 403, body: { message: 'Lightning payments are not enabled' } })
+        expect(eclair.sent).toMatchObject({ status: 403, body: { error: 'Lightning payments are not enabled' } })
+      })
+    })
+
+    it('should leave connecting peers to operators', async () => {
+      const fetchMock = mockNode()
+      const { res, sent } = mockResponse()
+
+      await createLightningProxy({
+        NEXT_PUBLIC_LIGHTNING_BACKEND: 'eclair',
+        LIGHTNING_RPC_URL: 'http://127.0.0.1:8080',
+        LIGHTNING_PASSWORD: 'pw',
+        API_SESSION_SECRET: SECRET
+      })(mockRequest(['connect'], { uri: '02ab@host:9735' }), res)
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(sent).toMatchObject({ status: 403, body: { error: 'Method needs an operator: connect' } })
+    })
+
+    it('should refuse commands the services do not use, and LND', async () => {
+      const fetchMock = mockNode()
+      const cln = mockResponse()
+      const lnd = mockResponse()
+
+      await createLightningProxy({
+        NEXT_PUBLIC_LIGHTNING_BACKEND: 'cln',
+        LIGHTNING_RPC_URL: 'https://cln.example:3010',
+        LIGHTNING_RUNE: 'rune-secret',
+        API_SESSION_SECRET: SECRET
+      })(mockRequest(['v1', 'withdraw'], { destination: 'tb1q' }), cln.res)
+      await createLightningProxy({ NEXT_PUBLIC_LIGHTNING_BACKEND: 'lnd' })(mockRequest(['v1', 'getinfo'], {}), lnd.res)
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(cln.sent).toMatchObject({ status: 403, body: { message: 'Method not allowed: withdraw' } })
+      expect(lnd.sent.status).toBe(404)
+    })
+  })
+})
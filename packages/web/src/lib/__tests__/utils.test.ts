@@ -1,6 +1,4 @@
 import {
-  isValidBitcoinAddress,
-  isValidLightningInvoice,
   satoshiToBTC,
   btcToSatoshi,
   formatCurrency,
@@ -12,38 +10,6 @@ import {
 } from '../utils'
 
 describe('Utils', () => {
-  describe('isValidBitcoinAddress', () => {
-    it('validates bech32 addresses correctly', () => {
-      expect(isValidBitcoinAddress('bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh')).toBe(true)
-      expect(isValidBitcoinAddress('tb1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh')).toBe(true)
-      expect(isValidBitcoinAddress('BC1QXY2KGDYGJRSQTZQ2N0YRF2493P83KKFJHX0WLH')).toBe(true)
-    })
-
-    it('validates legacy addresses correctly', () => {
-      expect(isValidBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toBe(true)
-      expect(isValidBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toBe(true)
-    })
-
-    it('rejects invalid addresses', () => {
-      expect(isValidBitcoinAddress('invalid')).toBe(false)
-      expect(isValidBitcoinAddress('bc1invalid')).toBe(false)
-      expect(isValidBitcoinAddress('')).toBe(false)
-      expect(isValidBitcoinAddress('0x1234567890123456789012345678901234567890')).toBe(false)
-    })
-  })
-
-  describe('isValidLightningInvoice', () => {
-    it('validates BOLT11 invoices correctly', () => {
-      expect(isValidLightningInvoice('lnbc2500u1p3kjx6gpp5qw3d7qf0e3h0j0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0f0xq0p3kjx6g')).toBe(true)
-    })
-
-    it('rejects invalid invoices', () => {
-      expect(isValidLightningInvoice('invalid')).toBe(false)
-      expect(isValidLightningInvoice('')).toBe(false)
-      expect(isValidLightningInvoice('lnbcinvalid')).toBe(false)
-    })
-  })
-
   describe('satoshiToBTC', () => {
     it('converts satoshi to BTC correctly', () => {
       expect(satoshiToBTC(100000000)).toBe('1.00000000')
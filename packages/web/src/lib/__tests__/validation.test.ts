@@ -0,0 +1,128 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { isValidBitcoinAddress, validateBitcoinAddress, validateLightningInvoice } from '../validation'
+
+// BOLT11 specification examples
+const MAINNET_INVOICE = 'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp'
+const DONATION_INVOICE = 'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w'
+const TESTNET_INVOICE = 'lntb20m1pvjluezhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqfpp3x9et2e20v6pu37c5d9vax37wxq72un98kmzzhznpurw9sgl2v0nklu2g4d0keph5t7tj9tcqd8rexnd07ux4uv2cjvcqwaxgj7v4uwn5wmypjd5n69z2xm3xgksg28nwht7f6zspwp3f9t'
+
+describe('validation', () => {
+  describe('validateBitcoinAddress', () => {
+    it('should accept the BIP173 and BIP350 vectors with their type and network', () => {
+      expect(validateBitcoinAddress('BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4')).toEqual({
+        valid: true,
+        address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+        type: 'p2wpkh',
+        network: 'mainnet',
+        witnessVersion: 0
+      })
+      expect(validateBitcoinAddress('tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7'))
+        .toMatchObject({ valid: true, type: 'p2wsh', network: 'testnet' })
+      expect(validateBitcoinAddress('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'))
+        .toMatchObject({ valid: true, type: 'p2tr', witnessVersion: 1 })
+      expect(validateBitcoinAddress('bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs'))
+        .toMatchObject({ valid: true, type: 'witness_unknown', witnessVersion: 2 })
+    })
+
+    it('should accept base58check addresses', () => {
+      expect(validateBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toMatchObject({ valid: true, type: 'p2pkh', network: 'mainnet' })
+      expect(validateBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toMatchObject({ valid: true, type: 'p2sh', network: 'mainnet' })
+      expect(validateBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn')).toMatchObject({ valid: true, type: 'p2pkh', network: 'testnet' })
+      expect(validateBitcoinAddress('2MzQwSSnBHWHqSAqtTVQ6v47XtaisrJa1Vc')).toMatchObject({ valid: true, type: 'p2sh', network: 'testnet' })
+    })
+
+    it('should reject bad checksums', () => {
+      expect(validateBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5').error).toBe('invalid_checksum')
+      expect(validateBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb').error).toBe('invalid_checksum')
+    })
+
+    it('should reject the wrong checksum variant for the witness version', () => {
+      expect(validateBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd').error).toBe('wrong_encoding')
+      expect(validateBitcoinAddress('tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf').error).toBe('wrong_encoding')
+    })
+
+    it('should reject malformed addresses', () => {
+      expect(validateBitcoinAddress('').error).toBe('empty')
+      expect(validateBitcoinAddress('bc1invalid').error).toBe('invalid_format')
+      expect(validateBitcoinAddress('0x1234567890123456789012345678901234567890').error).toBe('invalid_format')
+      expect(validateBitcoinAddress('tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sL5k7').error).toBe('mixed_case')
+    })
+
+    it('should reject addresses for another network', () => {
+      const result = validateBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', 'testnet')
+
+      expect(result).toMatchObject({ valid: false, error: 'wrong_network', network: 'mainnet', type: 'p2wpkh' })
+      expect(result.message).toContain('mainnet')
+      expect(validateBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', 'mainnet').error).toBe('wrong_network')
+    })
+
+    it('should accept regtest addresses on regtest, including testnet base58', () => {
+      const { address } = bitcoin.payments.p2wpkh({ hash: new Uint8Array(20).fill(1), network: bitcoin.networks.regtest })
+
+      expect(validateBitcoinAddress(address!, 'regtest')).toMatchObject({ valid: true, network: 'regtest' })
+      expect(validateBitcoinAddress(address!, 'testnet').error).toBe('wrong_network')
+      expect(validateBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', 'regtest').valid).toBe(true)
+    })
+  })
+
+  describe('isValidBitcoinAddress', () => {
+    it('validates bech32 addresses correctly', () => {
+      expect(isValidBitcoinAddress('bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh')).toBe(true)
+      expect(isValidBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx')).toBe(true)
+      expect(isValidBitcoinAddress('BC1QXY2KGDYGJRSQTZQ2N0YRF2493P83KKFJHX0WLH')).toBe(true)
+    })
+
+    it('validates legacy addresses correctly', () => {
+      expect(isValidBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toBe(true)
+      expect(isValidBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toBe(true)
+    })
+
+    it('rejects invalid addresses', () => {
+      expect(isValidBitcoinAddress('invalid')).toBe(false)
+      expect(isValidBitcoinAddress('bc1invalid')).toBe(false)
+      expect(isValidBitcoinAddress('')).toBe(false)
+      expect(isValidBitcoinAddress('0x1234567890123456789012345678901234567890')).toBe(false)
+    })
+
+    it('rejects addresses with a bad checksum or for another network', () => {
+      expect(isValidBitcoinAddress('tb1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh')).toBe(false)
+      expect(isValidBitcoinAddress('bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh', 'testnet')).toBe(false)
+    })
+  })
+
+  describe('validateLightningInvoice', () => {
+    it('should accept invoices and read the network and amount from the prefix', () => {
+      expect(validateLightningInvoice(MAINNET_INVOICE, 'mainnet')).toEqual({
+        valid: true,
+        invoice: MAINNET_INVOICE,
+        network: 'mainnet',
+        amountMsat: 250000000
+      })
+      expect(validateLightningInvoice(TESTNET_INVOICE)).toMatchObject({ valid: true, network: 'testnet', amountMsat: 2000000000 })
+      expect(validateLightningInvoice(DONATION_INVOICE).amountMsat).toBeUndefined()
+    })
+
+    it('should accept lightning: URIs and upper case', () => {
+      expect(validateLightningInvoice(`lightning:${MAINNET_INVOICE.toUpperCase()}`)).toMatchObject({
+        valid: true,
+        invoice: MAINNET_INVOICE
+      })
+    })
+
+    it('should reject bad checksums', () => {
+      const tampered = MAINNET_INVOICE.replace('lnbc2500u', 'lnbc2600u')
+
+      expect(validateLightningInvoice(tampered).error).toBe('invalid_checksum')
+    })
+
+    it('should reject invoices for another network', () => {
+      expect(validateLightningInvoice(MAINNET_INVOICE, 'testnet')).toMatchObject({ valid: false, error: 'wrong_network', network: 'mainnet' })
+    })
+
+    it('should reject things that are not invoices', () => {
+      expect(validateLightningInvoice('').error).toBe('empty')
+      expect(validateLightningInvoice('lnbcinvalid').error).toBe('invalid_format')
+      expect(validateLightningInvoice('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4').error).toBe('invalid_format')
+    })
+  })
+})
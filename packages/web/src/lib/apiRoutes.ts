@@ -0,0 +1,29 @@
+/**
+ * Paths of the same-origin API routes that reach the vault's nodes, and the session those routes require.
+ * Safe to import from the browser: the credentials and checks live in the server-only rpcProxy and apiSession.
+ */
+
+export const SESSION_PATH = '/api/session'
+export const BITCOIN_RPC_PROXY_PATH = '/api/bitcoin/rpc'
+export const LIGHTNING_PROXY_PATH = '/api/lightning'
+
+/**
+ * Sign in with an access key issued to the user. The session comes back as an HttpOnly cookie that the
+ * browser sends with every node call from then on.
+ */
+export async function signIn(userId: string, accessKey: string): Promise<void> {
+  const response = await fetch(SESSION_PATH, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, accessKey })
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Sign in failed: HTTP ${response.status}`)
+  }
+}
+
+export async function signOut(): Promise<void> {
+  await fetch(SESSION_PATH, { method: 'DELETE' })
+}
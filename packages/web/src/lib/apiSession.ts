@@ -0,0 +1,129 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+/**
+ * Sessions for the API routes that hold node credentials. A user signs in with an access key the operator
+ * issued, listed as `userId:sha256(key)` in `VAULT_ACCESS_KEYS`, and gets an HMAC-signed cookie
+ * (`API_SESSION_SECRET`) that is HttpOnly and SameSite=Strict. Requests another site starts are refused by
+ * their Origin as well, so form posts from other pages cannot ride on the cookie.
+ */
+
+export const SESSION_COOKIE = 'vault_session'
+const SESSION_TTL = 12 * 60 * 60 // seconds
+
+export interface ApiSession {
+  userId: string
+  operator: boolean // listed in VAULT_OPERATORS, for the calls only operators may make
+}
+
+type SessionEnv = Record<string, string | undefined>
+
+export function issueSessionToken(userId: string, secret: string, now = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({ sub: userId, exp: Math.floor(now / 1000) + SESSION_TTL })).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * The signed-in user behind a request, or null when its cookie is missing, forged or expired, or when the
+ * request comes from another site
+ */
+export function readSession(req: NextApiRequest, env: SessionEnv = process.env, now = Date.now()): ApiSession | null {
+  if (!env.API_SESSION_SECRET || !isSameOrigin(req)) {
+    return null
+  }
+
+  const token = readCookie(req, SESSION_COOKIE)
+  const [payload, signature, ...rest] = token ? token.split('.') : []
+  if (!payload || !signature || rest.length > 0 || !safeEqual(signature, sign(payload, env.API_SESSION_SECRET))) {
+    return null
+  }
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString())
+    if (typeof sub !== 'string' || typeof exp !== 'number' || exp * 1000 <= now) {
+      return null
+    }
+    return { userId: sub, operator: listed(env.VAULT_OPERATORS).includes(sub) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * `POST { userId, accessKey }` signs in, `DELETE` signs out
+ */
+export function createSessionRoute(env: SessionEnv = process.env) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    if (req.method === 'DELETE') {
+      res.setHeader('Set-Cookie', sessionCookie('', 0, env))
+      return res.status(204).end()
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST, DELETE')
+      return res.status(405).json({ error: 'Only POST and DELETE are supported' })
+    }
+    if (!env.API_SESSION_SECRET) {
+      return res.status(503).json({ error: 'Sessions are not configured' })
+    }
+    if (!isSameOrigin(req)) {
+      return res.status(403).json({ error: 'Cross-site sign in refused' })
+    }
+
+    const { userId, accessKey } = req.body ?? {}
+    if (typeof userId !== 'string' || typeof accessKey !== 'string' || !isAccessKey(userId, accessKey, env)) {
+      return res.status(401).json({ error: 'Unknown user or access key' })
+    }
+
+    res.setHeader('Set-Cookie', sessionCookie(issueSessionToken(userId, env.API_SESSION_SECRET), SESSION_TTL, env))
+    res.status(200).json({ userId })
+  }
+}
+
+function isAccessKey(userId: string, accessKey: string, env: SessionEnv): boolean {
+  const keyHash = createHash('sha256').update(accessKey).digest('hex')
+  // Every entry is compared, so the time taken does not tell which users exist
+  return listed(env.VAULT_ACCESS_KEYS).reduce((found, entry) => {
+    const separator = entry.lastIndexOf(':')
+    const matches = safeEqual(entry.slice(separator + 1).toLowerCase(), keyHash) && entry.slice(0, separator) === userId
+    return matches || found
+  }, false)
+}
+
+function sessionCookie(value: string, maxAge: number, env: SessionEnv): string {
+  const secure = env.NODE_ENV === 'production' ? '; Secure' : ''
+  return `${SESSION_COOKIE}=${value}; Path=/api; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${secure}`
+}
+
+// Browsers send Origin on cross-site POSTs and Sec-Fetch-Site on every request; clients that send neither are not browsers
+function isSameOrigin(req: NextApiRequest): boolean {
+  const origin = req.headers.origin
+  if (origin) {
+    try {
+      return new URL(origin).host === req.headers.host
+    } catch {
+      return false
+    }
+  }
+
+  const site = req.headers['sec-fetch-site']
+  return site === undefined || site === 'same-origin' || site === 'none'
+}
+
+function readCookie(req: NextApiRequest, name: string): string | undefined {
+  const cookie = (req.headers.cookie || '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`))
+  return cookie?.slice(name.length + 1) || undefined
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function listed(value: string | undefined): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean)
+}
@@ -0,0 +1,167 @@
+import type { BitcoinNetworkName } from '@/services/bitcoin/hdWallet'
+import { validateBitcoinAddress, validateLightningInvoice } from '@/lib/validation'
+
+export interface PaymentUri {
+  address?: string // may be omitted when a Lightning invoice is the only way to pay
+  amount?: number // BTC
+  label?: string
+  message?: string
+  lightning?: string // BOLT11 invoice for wallets that can pay over Lightning
+}
+
+export type PaymentUriError =
+  | 'empty'
+  | 'invalid_format'
+  | 'invalid_address'
+  | 'invalid_amount'
+  | 'invalid_invoice'
+  | 'unsupported_requirement' // a req- parameter we do not understand; BIP21 says to refuse the URI
+
+export interface PaymentUriParse extends PaymentUri {
+  valid: boolean
+  params: Record<string, string> // every query parameter, decoded, including ones we do not use
+  error?: PaymentUriError
+  message?: string
+}
+
+const SCHEME = 'bitcoin:'
+
+/**
+ * Build a BIP21 `bitcoin:` URI. With both an address and a `lightning=` invoice, one QR code
+ * pays over whichever rail the payer's wallet supports.
+ */
+export function buildPaymentUri(payment: PaymentUri): string {
+  if (!payment.address && !payment.lightning) {
+    throw new Error('A payment URI needs an address or a Lightning invoice')
+  }
+
+  const params: string[] = []
+  if (payment.amount !== undefined) {
+    params.push(`amount=${formatAmount(payment.amount)}`)
+  }
+  if (payment.label) {
+    params.push(`label=${encodeURIComponent(payment.label)}`)
+  }
+  if (payment.message) {
+    params.push(`message=${encodeURIComponent(payment.message)}`)
+  }
+  if (payment.lightning) {
+    params.push(`lightning=${payment.lightning}`)
+  }
+
+  return `${SCHEME}${payment.address || ''}${params.length ? `?${params.join('&')}` : ''}`
+}
+
+/**
+ * Parse a BIP21 `bitcoin:` URI, checking the address and any `lightning=` invoice against the
+ * expected network. Parameter names are case-insensitive, as QR codes are often uppercased.
+ */
+export function parsePaymentUri(input: string, network?: BitcoinNetworkName): PaymentUriParse {
+  const uri = (input || '').trim()
+  if (!uri) {
+    return uriFailure('empty', 'Enter a payment request')
+  }
+  if (!isPaymentUri(uri)) {
+    return uriFailure('invalid_format', 'Not a bitcoin: payment URI')
+  }
+
+  const [path, query = ''] = splitOnce(uri.slice(SCHEME.length), '?')
+  const params: Record<string, string> = {}
+  for (const pair of query.split('&').filter(Boolean)) {
+    const [key, value = ''] = splitOnce(pair, '=')
+    try {
+      params[key.toLowerCase()] = decodeURIComponent(value.replace(/\+/g, ' '))
+    } catch (error) {
+      return uriFailure('invalid_format', `Parameter ${key} is not valid URI encoding`, params)
+    }
+  }
+
+  const unknownRequirement = Object.keys(params).find(key => key.startsWith('req-'))
+  if (unknownRequirement) {
+    return uriFailure('unsupported_requirement', `Unsupported payment requirement ${unknownRequirement}`, params)
+  }
+
+  const result: PaymentUriParse = { valid: true, params }
+
+  if (path) {
+    const address = validateBitcoinAddress(decodeURIComponent(path), network)
+    if (!address.valid) {
+      return uriFailure('invalid_address', address.message || 'Invalid Bitcoin address', params)
+    }
+    result.address = address.address
+  }
+
+  if (params.lightning) {
+    const invoice = validateLightningInvoice(params.lightning, network)
+    if (!invoice.valid) {
+      return uriFailure('invalid_invoice', invoice.message || 'Invalid Lightning invoice', params)
+    }
+    result.lightning = invoice.invoice
+  }
+
+  if (!result.address && !result.lightning) {
+    return uriFailure('invalid_format', 'Payment URI has neither an address nor a Lightning invoice', params)
+  }
+
+  if (params.amount !== undefined) {
+    // Decimal BTC with at most 8 places; no exponents, signs or thousands separators
+    if (!/^\d+(\.\d{0,8})?$|^\.\d{1,8}$/.test(params.amount) || Number(params.amount) <= 0) {
+      return uriFailure('invalid_amount', `Invalid amount ${params.amount}`, params)
+    }
+    result.amount = Number(params.amount)
+  }
+
+  if (params.label) {
+    result.label = params.label
+  }
+  if (params.message) {
+    result.message = params.message
+  }
+
+  return result
+}
+
+/**
+ * Where to send a payment a URI describes: the preferred rail when the URI offers it, otherwise the other one
+ */
+export function paymentDestination(
+  payment: PaymentUri,
+  preferred: 'bitcoin' | 'lightning'
+): { method: 'bitcoin' | 'lightning'; destination: string } {
+  const offered = {
+    bitcoin: payment.address,
+    lightning: payment.lightning
+  }
+  const method = offered[preferred] ? preferred : preferred === 'bitcoin' ? 'lightning' : 'bitcoin'
+  const destination = offered[method]
+  if (!destination) {
+    throw new Error('Payment URI has neither an address nor a Lightning invoice')
+  }
+
+  return { method, destination }
+}
+
+/**
+ * Whether pasted text is a `bitcoin:` URI rather than a bare address or invoice
+ */
+export function isPaymentUri(input: string): boolean {
+  return input.trim().toLowerCase().startsWith(SCHEME)
+}
+
+// Whole satoshis, without trailing zeros or float noise: 0.0005 -> "0.0005"
+function formatAmount(amount: number): string {
+  if (!(amount > 0) || !Number.isFinite(amount)) {
+    throw new Error(`Invalid payment amount ${amount}`)
+  }
+
+  return (Math.round(amount * 100000000) / 100000000).toFixed(8).replace(/\.?0+$/, '')
+}
+
+function splitOnce(value: string, separator: string): [string, string?] {
+  const index = value.indexOf(separator)
+  return index === -1 ? [value] : [value.slice(0, index), value.slice(index + 1)]
+}
+
+function uriFailure(error: PaymentUriError, message: string, params: Record<string, string> = {}): PaymentUriParse {
+  return { valid: false, params, error, message }
+}
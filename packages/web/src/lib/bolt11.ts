@@ -0,0 +1,209 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils.js'
+import type { BitcoinNetworkName } from '@/services/bitcoin/hdWallet'
+import { InvoiceValidation, decodeBech32, validateLightningInvoice } from './validation'
+
+export interface RouteHintHop {
+  pubkey: string
+  shortChannelId: string // block x transaction x output
+  feeBaseMsat: number
+  feeProportionalMillionths: number
+  cltvExpiryDelta: number
+}
+
+export interface Bolt11Invoice {
+  network: BitcoinNetworkName
+  amountMsat?: number // absent for any-amount invoices
+  timestamp: Date
+  expiry: number // seconds after the timestamp
+  expiresAt: Date
+  paymentHash: string
+  paymentSecret?: string
+  description?: string
+  descriptionHash?: string // sha256 of a description too long to include
+  payee: string // node public key, recovered from the signature unless the invoice names it
+  minFinalCltvExpiry: number
+  routeHints: RouteHintHop[][] // one route per hint, each hop leading towards the payee
+}
+
+export interface InvoiceDecoding extends InvoiceValidation {
+  decoded?: Bolt11Invoice
+}
+
+// Defaults BOLT11 gives fields an invoice leaves out
+const DEFAULT_EXPIRY = 3600
+const DEFAULT_MIN_FINAL_CLTV_EXPIRY = 18
+
+const SIGNATURE_WORDS = 104
+const TIMESTAMP_WORDS = 7
+
+const TAGS = {
+  paymentHash: 1,
+  routeHint: 3,
+  expiry: 6,
+  description: 13,
+  paymentSecret: 16,
+  payee: 19,
+  descriptionHash: 23,
+  minFinalCltvExpiry: 24
+}
+
+/**
+ * Decode a BOLT11 invoice and check its signature. The payee's key is recovered from the signature
+ * and must match the `n` field when the invoice has one; without it, a tampered invoice shows up as
+ * a different payee. Unknown fields are skipped, as the spec requires.
+ */
+export function decodeLightningInvoice(input: string, network?: BitcoinNetworkName): InvoiceDecoding {
+  const validation = validateLightningInvoice(input, network)
+  if (!validation.valid) {
+    return validation
+  }
+
+  const { invoice } = validation
+  const { hrp, data } = decodeBech32(invoice, Infinity) as { hrp: string; data: number[] }
+
+  const amount = /(\d+)p$/.exec(hrp)
+  if (amount && !amount[1].endsWith('0')) {
+    return decodingFailure(validation, 'invalid_format', 'Invoice amount is more precise than a millisatoshi')
+  }
+
+  const body = data.slice(0, -SIGNATURE_WORDS)
+  const fields = readTaggedFields(body.slice(TIMESTAMP_WORDS))
+  if (!fields) {
+    return decodingFailure(validation, 'invalid_format', 'Invoice fields are malformed')
+  }
+
+  const paymentHash = fields.get(TAGS.paymentHash)?.find(words => words.length === 52)
+  if (!paymentHash) {
+    return decodingFailure(validation, 'invalid_format', 'Invoice has no payment hash')
+  }
+
+  const named = fields.get(TAGS.payee)?.find(words => words.length === 53)
+  const payee = recoverPayee(hrp, body, data.slice(-SIGNATURE_WORDS))
+  if (!payee || (named && bytesToHex(wordsToBytes(named)) !== payee)) {
+    return decodingFailure(validation, 'invalid_signature', 'Invoice signature is invalid')
+  }
+
+  const timestamp = wordsToNumber(body.slice(0, TIMESTAMP_WORDS))
+  const expiry = fieldNumber(fields, TAGS.expiry) ?? DEFAULT_EXPIRY
+  const description = fields.get(TAGS.description)?.[0]
+  const descriptionHash = fields.get(TAGS.descriptionHash)?.find(words => words.length === 52)
+  const paymentSecret = fields.get(TAGS.paymentSecret)?.find(words => words.length === 52)
+
+  return {
+    ...validation,
+    decoded: {
+      network: validation.network!,
+      amountMsat: validation.amountMsat,
+      timestamp: new Date(timestamp * 1000),
+      expiry,
+      expiresAt: new Date((timestamp + expiry) * 1000),
+      paymentHash: bytesToHex(wordsToBytes(paymentHash)),
+      paymentSecret: paymentSecret && bytesToHex(wordsToBytes(paymentSecret)),
+      description: description && new TextDecoder().decode(wordsToBytes(description)),
+      descriptionHash: descriptionHash && bytesToHex(wordsToBytes(descriptionHash)),
+      payee,
+      minFinalCltvExpiry: fieldNumber(fields, TAGS.minFinalCltvExpiry) ?? DEFAULT_MIN_FINAL_CLTV_EXPIRY,
+      routeHints: (fields.get(TAGS.routeHint) || []).map(words => readRouteHint(wordsToBytes(words)))
+    }
+  }
+}
+
+// Lightning invoice validation: checksum, fields, payee signature and, when given, the network's currency prefix
+export function isValidLightningInvoice(invoice: string, network?: BitcoinNetworkName): boolean {
+  return decodeLightningInvoice(invoice, network).valid
+}
+
+// tag -> the data of every field with that tag, in invoice order; null when a length runs past the end
+function readTaggedFields(words: number[]): Map<number, number[][]> | null {
+  const fields: Map<number, number[][]> = new Map()
+  for (let offset = 0; offset < words.length;) {
+    if (offset + 3 > words.length) {
+      return null
+    }
+
+    const tag = words[offset]
+    const length = words[offset + 1] * 32 + words[offset + 2]
+    const end = offset + 3 + length
+    if (end > words.length) {
+      return null
+    }
+
+    fields.set(tag, [...(fields.get(tag) || []), words.slice(offset + 3, end)])
+    offset = end
+  }
+  return fields
+}
+
+// The signature covers the human-readable part and the data before it, zero-padded to whole bytes
+function recoverPayee(hrp: string, body: number[], signatureWords: number[]): string | null {
+  const signature = wordsToBytes(signatureWords)
+  const recovery = signature[64]
+  if (recovery > 3) {
+    return null
+  }
+
+  try {
+    const digest = sha256(concatBytes(utf8ToBytes(hrp), wordsToBytes(body, true)))
+    const point = secp256k1.Signature.fromBytes(signature.slice(0, 64), 'compact')
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(digest)
+    return bytesToHex(point.toBytes(true))
+  } catch (error) {
+    return null
+  }
+}
+
+function readRouteHint(bytes: Uint8Array): RouteHintHop[] {
+  const hops: RouteHintHop[] = []
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  // 51 bytes a hop: pubkey, short channel id, base fee, proportional fee, CLTV delta
+  for (let offset = 0; offset + 51 <= bytes.length; offset += 51) {
+    const block = (view.getUint16(offset + 33) << 8) | view.getUint8(offset + 35)
+    const transaction = (view.getUint16(offset + 36) << 8) | view.getUint8(offset + 38)
+    hops.push({
+      pubkey: bytesToHex(bytes.slice(offset, offset + 33)),
+      shortChannelId: `${block}x${transaction}x${view.getUint16(offset + 39)}`,
+      feeBaseMsat: view.getUint32(offset + 41),
+      feeProportionalMillionths: view.getUint32(offset + 45),
+      cltvExpiryDelta: view.getUint16(offset + 49)
+    })
+  }
+  return hops
+}
+
+function fieldNumber(fields: Map<number, number[][]>, tag: number): number | undefined {
+  const words = fields.get(tag)?.[0]
+  return words ? wordsToNumber(words) : undefined
+}
+
+function wordsToNumber(words: number[]): number {
+  return words.reduce((value, word) => value * 32 + word, 0)
+}
+
+// Regroup 5-bit words into bytes. Field data drops the leftover bits that pad it out to whole words; the
+// signed data instead gets its final partial byte filled out with zeros
+function wordsToBytes(words: number[], pad = false): Uint8Array {
+  const bytes: number[] = []
+  let accumulator = 0
+  let bits = 0
+
+  for (const word of words) {
+    accumulator = ((accumulator << 5) | word) & 0xfff
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((accumulator >> bits) & 0xff)
+    }
+  }
+  if (pad && bits > 0) {
+    bytes.push((accumulator << (8 - bits)) & 0xff)
+  }
+  return new Uint8Array(bytes)
+}
+
+function decodingFailure(validation: InvoiceValidation, error: InvoiceDecoding['error'], message: string): InvoiceDecoding {
+  return { valid: false, invoice: validation.invoice, network: validation.network, error, message }
+}
@@ -1,36 +1,84 @@
-import { AtomiqConfig } from '@/types/atomiq'
+import { AtomiqConfig, BitcoinBackendKind, LightningBackendKind } from '@/types/atomiq'
+import { BITCOIN_RPC_PROXY_PATH, LIGHTNING_PROXY_PATH } from './apiRoutes'
 
 /**
  * Load Atomiq SDK configuration from environment variables
  */
 export function loadAtomiqConfig(): AtomiqConfig {
-  const config: AtomiqConfig = {
+  const config = readAtomiqConfig()
+
+  // Validate configuration
+  validateConfig(config)
+
+  return config
+}
+
+/**
+ * Read Atomiq SDK configuration from environment variables without validating it; the SDK
+ * falls back to mock services for whatever is left unconfigured
+ */
+export function readAtomiqConfig(): AtomiqConfig {
+  const bitcoinBackend = (process.env.NEXT_PUBLIC_BITCOIN_BACKEND as BitcoinBackendKind) || 'esplora'
+  const lightningBackend = (process.env.NEXT_PUBLIC_LIGHTNING_BACKEND as LightningBackendKind) || 'lnd'
+
+  return {
     apiUrl: process.env.NEXT_PUBLIC_ATOMIQ_API_URL || 'https://api.atomiq.com',
     apiKey: process.env.NEXT_PUBLIC_ATOMIQ_API_KEY || '',
     network: (process.env.NEXT_PUBLIC_ATOMIQ_NETWORK as 'mainnet' | 'testnet') || 'testnet',
     bitcoin: {
-      rpcUrl: process.env.NEXT_PUBLIC_BITCOIN_RPC_URL || 'https://blockstream.info/testnet/api',
-      network: (process.env.NEXT_PUBLIC_BITCOIN_NETWORK as 'mainnet' | 'testnet') || 'testnet'
+      // Bitcoin Core is only reached through the API route holding its credentials
+      rpcUrl: bitcoinBackend === 'core'
+        ? BITCOIN_RPC_PROXY_PATH
+        : process.env.NEXT_PUBLIC_BITCOIN_RPC_URL || 'https://blockstream.info/testnet/api',
+      network: (process.env.NEXT_PUBLIC_BITCOIN_NETWORK as 'mainnet' | 'testnet' | 'regtest') || 'testnet',
+      backend: bitcoinBackend,
+      esploraUrls: process.env.NEXT_PUBLIC_BITCOIN_ESPLORA_URLS
+        ? process.env.NEXT_PUBLIC_BITCOIN_ESPLORA_URLS.split(',').map(url => url.trim()).filter(Boolean)
+        : undefined,
+      esploraPool: {
+        quorum: Number(process.env.NEXT_PUBLIC_BITCOIN_ESPLORA_QUORUM) || undefined,
+        maxTipLag: Number(process.env.NEXT_PUBLIC_BITCOIN_ESPLORA_MAX_TIP_LAG) || undefined
+      },
+      wallet: process.env.NEXT_PUBLIC_BITCOIN_WALLET || undefined,
+      xpub: process.env.NEXT_PUBLIC_BITCOIN_XPUB || undefined,
+      descriptor: process.env.NEXT_PUBLIC_BITCOIN_DESCRIPTOR || undefined,
+      addressType: (process.env.NEXT_PUBLIC_BITCOIN_ADDRESS_TYPE as 'p2wpkh' | 'p2tr') || undefined,
+      multisig: process.env.NEXT_PUBLIC_BITCOIN_MULTISIG_XPUBS
+        ? {
+          cosigners: process.env.NEXT_PUBLIC_BITCOIN_MULTISIG_XPUBS.split(',').map(xpub => xpub.trim()).filter(Boolean),
+          threshold: Number(process.env.NEXT_PUBLIC_BITCOIN_MULTISIG_THRESHOLD || 2),
+          scriptType: (process.env.NEXT_PUBLIC_BITCOIN_MULTISIG_SCRIPT_TYPE as 'p2wsh' | 'p2tr') || undefined
+        }
+        : undefined,
+      payoutBatch: {
+        windowMs: Number(process.env.NEXT_PUBLIC_BITCOIN_PAYOUT_WINDOW_MS) || undefined,
+        maxOutputs: Number(process.env.NEXT_PUBLIC_BITCOIN_PAYOUT_MAX_OUTPUTS) || undefined
+      },
+      zeroConf: process.env.NEXT_PUBLIC_BITCOIN_ZERO_CONF_MAX_AMOUNT
+        ? {
+          maxAmount: Number(process.env.NEXT_PUBLIC_BITCOIN_ZERO_CONF_MAX_AMOUNT),
+          minFeeRate: Number(process.env.NEXT_PUBLIC_BITCOIN_ZERO_CONF_MIN_FEE_RATE || 2)
+        }
+        : undefined
     },
     lightning: {
-      rpcUrl: process.env.NEXT_PUBLIC_LIGHTNING_RPC_URL || '',
+      // So are Core Lightning and Eclair
+      rpcUrl: lightningBackend === 'lnd' ? process.env.NEXT_PUBLIC_LIGHTNING_RPC_URL || '' : LIGHTNING_PROXY_PATH,
+      backend: lightningBackend,
       macaroon: process.env.NEXT_PUBLIC_LIGHTNING_MACAROON || '',
-      cert: process.env.NEXT_PUBLIC_LIGHTNING_CERT || ''
+      cert: process.env.NEXT_PUBLIC_LIGHTNING_CERT || '',
+      invoiceStreamUrl: process.env.NEXT_PUBLIC_LIGHTNING_INVOICE_STREAM_URL || undefined
     },
     starknet: {
       network: (process.env.NEXT_PUBLIC_STARKNET_NETWORK as 'mainnet' | 'testnet') || 'testnet',
-      rpcUrl: process.env.NEXT_PUBLIC_STARKNET_RPC_URL || 'https://starknet-testnet.infura.io/v3/your_infura_key'
+      rpcUrl: process.env.NEXT_PUBLIC_STARKNET_RPC_URL || 'https://starknet-testnet.infura.io/v3/your_infura_key',
+      paymentRouterAddress: process.env.NEXT_PUBLIC_PAYMENT_ROUTER_ADDRESS || undefined
     },
     bridge: {
       apiUrl: process.env.NEXT_PUBLIC_BRIDGE_API_URL || 'https://bridge.atomiq.com',
       contractAddress: process.env.NEXT_PUBLIC_BRIDGE_CONTRACT_ADDRESS || ''
     }
   }
-
-  // Validate configuration
-  validateConfig(config)
-
-  return config
 }
 
 /**
@@ -52,25 +100,64 @@ export function validateConfig(config: AtomiqConfig): void {
     errors.push('Bitcoin RPC URL is required')
   }
 
+  if (config.bitcoin?.xpub && !/^[xtvz]pub[1-9A-HJ-NP-Za-km-z]{100,112}$/.test(config.bitcoin.xpub)) {
+    errors.push('Invalid Bitcoin extended public key format, expected a watch-only xpub, zpub, tpub or vpub')
+  }
+
+  if (config.bitcoin?.addressType === 'p2tr' && /^[vz]pub/.test(config.bitcoin.xpub || '')) {
+    errors.push('Taproot deposit addresses need the BIP86 account exported as an xpub or tpub, not a zpub or vpub')
+  }
+
+  const multisig = config.bitcoin?.multisig
+  if (multisig && !(Number.isInteger(multisig.threshold) && multisig.threshold >= 1 && multisig.threshold <= multisig.cosigners.length)) {
+    errors.push(`Multisig threshold must be between 1 and the number of cosigners (${multisig.cosigners.length})`)
+  }
+
+  const esploraProviders = 1 + (config.bitcoin?.esploraUrls?.length || 0)
+  const quorum = config.bitcoin?.esploraPool?.quorum
+  if (quorum !== undefined && !(Number.isInteger(quorum) && quorum >= 1 && quorum <= esploraProviders)) {
+    errors.push(`Esplora quorum must be between 1 and the number of Esplora providers (${esploraProviders})`)
+  }
+
+  if (config.bitcoin?.esploraUrls?.some(url => !isValidUrl(url))) {
+    errors.push('Invalid Esplora provider URL format')
+  }
+
+  const zeroConf = config.bitcoin?.zeroConf
+  if (zeroConf && !(zeroConf.maxAmount > 0 && zeroConf.minFeeRate >= 1)) {
+    errors.push('Zero-conf deposits need a positive maximum amount and a minimum fee rate of at least 1 sat/vB')
+  }
+
   if (!config.starknet?.rpcUrl) {
     errors.push('Starknet RPC URL is required')
   }
 
   // Check Lightning configuration (optional but warn if partially configured)
-  const lightningConfigured = [
-    config.lightning?.rpcUrl,
-    config.lightning?.macaroon,
-    config.lightning?.cert
-  ].filter(Boolean).length
+  const lightningBackend = config.lightning?.backend || 'lnd'
+  if (!['lnd', 'cln', 'eclair'].includes(lightningBackend)) {
+    errors.push(`Unknown Lightning backend "${lightningBackend}", expected lnd, cln or eclair`)
+  }
+
+  const lightningSettings = lightningCredentials(config)
+  const lightningConfigured = lightningSettings.filter(Boolean).length
 
-  if (lightningConfigured > 0 && lightningConfigured < 3) {
+  if (lightningConfigured > 0 && lightningConfigured < lightningSettings.length) {
     errors.push('Lightning configuration is incomplete. Either provide all Lightning settings or none.')
   }
 
+  if (config.lightning?.invoiceStreamUrl && lightningBackend !== 'lnd') {
+    errors.push('A Lightning invoice stream URL is only used with the LND backend')
+  }
+
+  if (config.lightning?.invoiceStreamUrl && !/^wss?:\/\//.test(config.lightning.invoiceStreamUrl)) {
+    errors.push('Lightning invoice stream URL must start with ws:// or wss://')
+  }
+
   // Check network consistency
+  // A regtest node pairs with testnet everywhere else
   const networks = [
     config.network,
-    config.bitcoin?.network,
+    config.bitcoin?.network === 'regtest' ? 'testnet' : config.bitcoin?.network,
     config.starknet?.network
   ].filter(Boolean) as ('mainnet' | 'testnet')[]
 
@@ -140,7 +227,7 @@ export function getConfigStatus(config: AtomiqConfig): {
   const services = {
     atomiq: !!config.apiKey,
     bitcoin: !!config.bitcoin?.rpcUrl,
-    lightning: !!(config.lightning?.rpcUrl && config.lightning?.macaroon && config.lightning?.cert),
+    lightning: lightningCredentials(config).every(Boolean),
     starknet: !!config.starknet?.rpcUrl,
     bridge: !!(config.bridge?.apiUrl && config.bridge?.contractAddress)
   }
@@ -166,6 +253,10 @@ export function getConfigStatus(config: AtomiqConfig): {
     warnings.push('Bitcoin RPC not configured - using mock service')
   }
 
+  if (services.bitcoin && !config.bitcoin?.xpub && !config.bitcoin?.descriptor) {
+    warnings.push('Bitcoin xpub not configured - deposit addresses cannot be derived')
+  }
+
   if (!services.lightning) {
     recommendations.push('Configure Lightning Network for instant payments')
   }
@@ -192,7 +283,12 @@ export function getConfigStatus(config: AtomiqConfig): {
 
 // Utility functions
 
+// Same-origin API routes are given as paths
 function isValidUrl(url: string): boolean {
+  if (url.startsWith('/')) {
+    return true
+  }
+
   try {
     new URL(url)
     return true
@@ -205,6 +301,18 @@ function isValidStarknetAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{64}$/.test(address)
 }
 
+// The settings the selected Lightning backend needs to connect; Core Lightning and Eclair keep theirs server-side
+function lightningCredentials(config: AtomiqConfig): (string | undefined)[] {
+  const lightning = config.lightning
+  switch (lightning?.backend) {
+    case 'cln':
+    case 'eclair':
+      return [lightning.rpcUrl]
+    default:
+      return [lightning?.rpcUrl, lightning?.macaroon, lightning?.cert]
+  }
+}
+
 /**
  * Development configuration helper
  */
@@ -0,0 +1,336 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { ApiSession, readSession } from './apiSession'
+import { decodeLightningInvoice } from './bolt11'
+
+/**
+ * Same-origin API routes that call Bitcoin Core and Core Lightning or Eclair for the browser. The node
+ * credentials are read from server-only environment variables and added here, so they never reach the
+ * client bundle. Only signed-in users get through (see apiSession), and only to the methods the vault's
+ * services call, each with the access it needs.
+ */
+
+// Who may make a call: any signed-in user, only operators, or a user within the Lightning payment limits
+export type MethodAccess = 'user' | 'operator' | 'payment'
+
+// Bitcoin Core RPCs the chain backend makes
+export const BITCOIN_RPC_METHODS: Record<string, MethodAccess> = {
+  estimatesmartfee: 'user',
+  getblockcount: 'user',
+  getblockhash: 'user',
+  getmempoolinfo: 'user',
+  getrawtransaction: 'user',
+  gettransaction: 'user',
+  gettxspendingprevout: 'user',
+  importdescriptors: 'operator', // changes what the server's wallet watches
+  listtransactions: 'user',
+  listunspent: 'user',
+  scantxoutset: 'user',
+  sendrawtransaction: 'user' // already signed: the node's wallet is watch-only
+}
+
+// clnrest commands, including the hold invoice plugin's
+export const CLN_METHODS: Record<string, MethodAccess> = {
+  cancelholdinvoice: 'user',
+  connect: 'operator',
+  decode: 'user',
+  getinfo: 'user',
+  getroutes: 'user',
+  holdinvoice: 'user',
+  invoice: 'user',
+  listfunds: 'user',
+  listholdinvoices: 'user',
+  listinvoices: 'user',
+  listpays: 'user',
+  listpeerchannels: 'user',
+  listsendpays: 'user',
+  pay: 'payment',
+  settleholdinvoice: 'user',
+  waitanyinvoice: 'user'
+}
+
+export const ECLAIR_METHODS: Record<string, MethodAccess> = {
+  audit: 'user',
+  channels: 'user',
+  connect: 'operator',
+  createinvoice: 'user',
+  getinfo: 'user',
+  getreceivedinfo: 'user',
+  getsentinfo: 'user',
+  listinvoices: 'user',
+  listpendinginvoices: 'user',
+  onchainbalance: 'user',
+  parseinvoice: 'user',
+  payinvoice: 'payment',
+  peers: 'user'
+}
+
+// Fee budgets the nodes apply when a payment call names none
+const CLN_DEFAULT_MAX_FEE_PERCENT = 0.5
+const CLN_DEFAULT_EXEMPT_FEE_MSAT = 5000
+const ECLAIR_DEFAULT_MAX_FEE_FLAT_SAT = 21
+const ECLAIR_DEFAULT_MAX_FEE_PCT = 3
+
+const DAY = 24 * 60 * 60 * 1000
+
+type ProxyEnv = Record<string, string | undefined>
+
+interface PaymentLimits {
+  maxPaymentSat: number
+  dailyLimitSat: number // per user, over the last 24 hours
+}
+
+interface PaymentCheck {
+  limits: PaymentLimits | null // null when payments are not enabled
+  ledger: PaymentLedger
+  // Most a payment call can spend, fees included, in millisatoshis; null without a readable invoice and amount
+  worstCaseMsat: (params: Record<string, any>) => number | null
+  // Whether the node reports the payment as failed, so it no longer counts against the limit
+  failed: (status: number, body: any) => boolean
+}
+
+interface Upstream {
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+type RejectBody = (message: string) => unknown
+
+/**
+ * Forward JSON-RPC calls to `BITCOIN_RPC_URL` with `BITCOIN_RPC_USER` / `BITCOIN_RPC_PASSWORD`. Wallet calls
+ * come in on `/wallet/<name>` and always go to the server's own `BITCOIN_RPC_WALLET`; the name in the path
+ * has to be that wallet's, so a caller cannot reach any other wallet loaded on the node.
+ */
+export function createBitcoinRpcProxy(env: ProxyEnv = process.env) {
+  // Errors in the JSON-RPC shape BitcoinCoreRpc reads
+  const reject: RejectBody = message => ({ result: null, error: { code: -32601, message }, id: null })
+
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    if (!env.BITCOIN_RPC_URL) {
+      return send(res, 503, reject('Bitcoin Core RPC is not configured'))
+    }
+
+    const [segment, wallet, ...rest] = pathSegments(req)
+    const walletCall = segment !== undefined
+    if (walletCall && (segment !== 'wallet' || !env.BITCOIN_RPC_WALLET || wallet !== env.BITCOIN_RPC_WALLET || rest.length > 0)) {
+      return send(res, 404, reject('Unknown RPC endpoint'))
+    }
+
+    await forward(req, res, reject, readSession(req, env), BITCOIN_RPC_METHODS, req.body?.method, () => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (env.BITCOIN_RPC_USER || env.BITCOIN_RPC_PASSWORD) {
+        headers.Authorization = basicAuth(env.BITCOIN_RPC_USER || '', env.BITCOIN_RPC_PASSWORD || '')
+      }
+
+      return {
+        url: `${env.BITCOIN_RPC_URL!.replace(/\/$/, '')}${walletCall ? `/wallet/${encodeURIComponent(env.BITCOIN_RPC_WALLET!)}` : ''}`,
+        headers,
+        body: JSON.stringify(req.body)
+      }
+    })
+  }
+}
+
+/**
+ * Forward clnrest (`/v1/<command>` with `LIGHTNING_RUNE`) or Eclair (`/<method>` with `LIGHTNING_PASSWORD`)
+ * calls to `LIGHTNING_RPC_URL`, whichever `NEXT_PUBLIC_LIGHTNING_BACKEND` selects. LND is not proxied.
+ * Payments are only sent up to `LIGHTNING_MAX_PAYMENT_SAT` each and `LIGHTNING_DAILY_LIMIT_SAT` per user
+ * a day, counting the most the node may pay in fees; without both limits set, nothing is paid. The day's
+ * spending is kept in memory, per server process.
+ */
+export function createLightningProxy(env: ProxyEnv = process.env) {
+  const ledger = new PaymentLedger()
+  const limits = paymentLimits(env)
+
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const backend = env.NEXT_PUBLIC_LIGHTNING_BACKEND
+    const path = pathSegments(req)
+
+    if (backend === 'cln') {
+      // clnrest answers command errors with { code, message }
+      const reject: RejectBody = message => ({ code: -32601, message })
+      if (!env.LIGHTNING_RPC_URL || !env.LIGHTNING_RUNE) {
+        return send(res, 503, reject('Core Lightning is not configured'))
+      }
+      if (path.length !== 2 || path[0] !== 'v1') {
+        return send(res, 404, reject('Unknown clnrest endpoint'))
+      }
+
+      return forward(req, res, reject, readSession(req, env), CLN_METHODS, path[1], () => ({
+        url: `${env.LIGHTNING_RPC_URL!.replace(/\/$/, '')}/v1/${path[1]}`,
+        headers: { Rune: env.LIGHTNING_RUNE!, 'Content-Type': 'application/json' },
+        body: JSON.stringify(req.body ?? {})
+      }), {
+        limits,
+        ledger,
+        worstCaseMsat: params => {
+          const amountMsat = invoiceAmountMsat(params.bolt11, params.amount_msat)
+          if (amountMsat === null) {
+            return null
+          }
+          // pay allows the larger of maxfeepercent and exemptfee, unless a flat maxfee is given
+          const feeMsat = params.maxfee !== undefined
+            ? Number(params.maxfee)
+            : Math.max(amountMsat * Number(params.maxfeepercent ?? CLN_DEFAULT_MAX_FEE_PERCENT) / 100, Number(params.exemptfee ?? CLN_DEFAULT_EXEMPT_FEE_MSAT))
+          return Number.isFinite(feeMsat) ? amountMsat + Math.max(feeMsat, 0) : null
+        },
+        failed: status => status >= 400
+      })
+    }
+
+    if (backend === 'eclair') {
+      // Eclair answers errors with { error }
+      const reject: RejectBody = message => ({ error: message })
+      if (!env.LIGHTNING_RPC_URL || !env.LIGHTNING_PASSWORD) {
+        return send(res, 503, reject('Eclair is not configured'))
+      }
+      if (path.length !== 1) {
+        return send(res, 404, reject('Unknown Eclair endpoint'))
+      }
+
+      return forward(req, res, reject, readSession(req, env), ECLAIR_METHODS, path[0], () => ({
+        url: `${env.LIGHTNING_RPC_URL!.replace(/\/$/, '')}/${path[0]}`,
+        headers: { Authorization: basicAuth('', env.LIGHTNING_PASSWORD!), 'Content-Type': 'application/x-www-form-urlencoded' },
+        // Next parses form bodies into an object
+        body: new URLSearchParams(req.body ?? {}).toString()
+      }), {
+        limits,
+        ledger,
+        worstCaseMsat: params => {
+          const amountMsat = invoiceAmountMsat(params.invoice, params.amountMsat)
+          if (amountMsat === null) {
+            return null
+          }
+          // payinvoice allows the larger of the flat fee and the percentage
+          const feeMsat = Math.max(
+            Number(params.maxFeeFlatSat ?? ECLAIR_DEFAULT_MAX_FEE_FLAT_SAT) * 1000,
+            amountMsat * Number(params.maxFeePct ?? ECLAIR_DEFAULT_MAX_FEE_PCT) / 100
+          )
+          return Number.isFinite(feeMsat) ? amountMsat + Math.max(feeMsat, 0) : null
+        },
+        // A blocking payinvoice reports a failed payment in a 200 answer
+        failed: (status, body) => status >= 400 || body?.type === 'payment-failed'
+      })
+    }
+
+    return send(res, 404, { error: 'No proxied Lightning backend is selected' })
+  }
+}
+
+async function forward(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  reject: RejectBody,
+  session: ApiSession | null,
+  methods: Record<string, MethodAccess>,
+  method: unknown,
+  upstream: () => Upstream,
+  payment?: PaymentCheck
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    return send(res, 405, reject('Only POST is supported'))
+  }
+  if (!session) {
+    return send(res, 401, reject('Sign in to reach the node'))
+  }
+  const access = typeof method === 'string' && Object.prototype.hasOwnProperty.call(methods, method) ? methods[method] : undefined
+  if (!access) {
+    return send(res, 403, reject(`Method not allowed: ${String(method)}`))
+  }
+  if (access === 'operator' && !session.operator) {
+    return send(res, 403, reject(`Method needs an operator: ${method}`))
+  }
+
+  let release = () => {}
+  if (access === 'payment') {
+    if (!payment?.limits) {
+      return send(res, 403, reject('Lightning payments are not enabled'))
+    }
+    const amountMsat = payment.worstCaseMsat(req.body ?? {})
+    if (amountMsat === null) {
+      return send(res, 400, reject('A payment needs a valid invoice with an amount'))
+    }
+    if (amountMsat > payment.limits.maxPaymentSat * 1000) {
+      return send(res, 403, reject(`Payment of up to ${Math.ceil(amountMsat / 1000)} sats with fees is above the ${payment.limits.maxPaymentSat} sat limit`))
+    }
+    if (payment.ledger.spentToday(session.userId) + amountMsat > payment.limits.dailyLimitSat * 1000) {
+      return send(res, 403, reject(`Payment would take ${session.userId} over the daily limit of ${payment.limits.dailyLimitSat} sats`))
+    }
+    // Counted before it is sent, so concurrent payments cannot pass the limit together
+    release = payment.ledger.record(session.userId, amountMsat)
+  }
+
+  const { url, headers, body } = upstream()
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body })
+    const text = await response.text()
+    if (access === 'payment' && payment!.failed(response.status, parseJson(text))) {
+      release()
+    }
+    // Passed through as is: the clients read the node's own error bodies
+    res.status(response.status).setHeader('Content-Type', 'application/json')
+    res.send(text)
+  } catch (error) {
+    // A payment whose outcome is unknown keeps counting against the limit
+    console.error('RPC proxy request failed:', error)
+    send(res, 502, reject('Node unreachable'))
+  }
+}
+
+/**
+ * What each user has had paid over the last day, in millisatoshis
+ */
+class PaymentLedger {
+  private payments: Map<string, { at: number; amountMsat: number }[]> = new Map()
+
+  spentToday(userId: string, now = Date.now()): number {
+    const recent = (this.payments.get(userId) || []).filter(payment => payment.at > now - DAY)
+    this.payments.set(userId, recent)
+    return recent.reduce((total, payment) => total + payment.amountMsat, 0)
+  }
+
+  // Returns a function that takes the payment off again
+  record(userId: string, amountMsat: number, now = Date.now()): () => void {
+    const entry = { at: now, amountMsat }
+    this.payments.set(userId, [...(this.payments.get(userId) || []), entry])
+    return () => this.payments.set(userId, (this.payments.get(userId) || []).filter(payment => payment !== entry))
+  }
+}
+
+function paymentLimits(env: ProxyEnv): PaymentLimits | null {
+  const maxPaymentSat = Number(env.LIGHTNING_MAX_PAYMENT_SAT)
+  const dailyLimitSat = Number(env.LIGHTNING_DAILY_LIMIT_SAT)
+  return maxPaymentSat > 0 && dailyLimitSat > 0 ? { maxPaymentSat, dailyLimitSat } : null
+}
+
+// The invoice's own amount, or the one given for an any-amount invoice; null if the invoice does not verify
+function invoiceAmountMsat(invoice: unknown, amountMsat: unknown): number | null {
+  const { decoded } = typeof invoice === 'string' ? decodeLightningInvoice(invoice) : { decoded: undefined }
+  if (!decoded) {
+    return null
+  }
+  const amount = decoded.amountMsat ?? Number(amountMsat)
+  return Number.isFinite(amount) && amount > 0 ? amount : null
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+function send(res: NextApiResponse, status: number, body: unknown): void {
+  res.status(status).json(body)
+}
+
+function pathSegments(req: NextApiRequest): string[] {
+  const { path } = req.query
+  return path === undefined ? [] : Array.isArray(path) ? path : [path]
+}
+
+function basicAuth(username: string, password: string): string {
+  return `Basic ${btoa(`${username}:${password}`)}`
+}
@@ -5,34 +5,6 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-// Bitcoin address validation
-export function isValidBitcoinAddress(address: string): boolean {
-  try {
-    // Basic validation for bech32 addresses (bc1, tb1)
-    const bech32Regex = /^(bc1|tb1)[a-z0-9]{8,87}$/i
-    if (bech32Regex.test(address)) {
-      return true
-    }
-
-    // Legacy address validation (base58check)
-    const base58Regex = /^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/
-    return base58Regex.test(address)
-  } catch {
-    return false
-  }
-}
-
-// Lightning invoice validation
-export function isValidLightningInvoice(invoice: string): boolean {
-  try {
-    // Basic validation for BOLT11 invoices - more lenient pattern
-    const bolt11Regex = /^ln(bc|tb)[a-z0-9]{100,}$/
-    return bolt11Regex.test(invoice.toLowerCase())
-  } catch {
-    return false
-  }
-}
-
 // Format satoshi to BTC
 export function satoshiToBTC(satoshi: number): string {
   return (satoshi / 100000000).toFixed(8)
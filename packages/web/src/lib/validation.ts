@@ -0,0 +1,321 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import type { BitcoinNetworkName } from '@/services/bitcoin/hdWallet'
+
+export type BitcoinAddressType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr' | 'witness_unknown'
+
+export type AddressValidationError =
+  | 'empty'
+  | 'invalid_format'
+  | 'mixed_case'
+  | 'invalid_checksum'
+  | 'wrong_encoding' // bech32 where bech32m is required, or the other way round
+  | 'invalid_witness_version'
+  | 'invalid_witness_program'
+  | 'wrong_network'
+
+export type InvoiceValidationError =
+  | 'empty'
+  | 'invalid_format'
+  | 'mixed_case'
+  | 'invalid_checksum'
+  | 'unknown_currency'
+  | 'wrong_network'
+  | 'invalid_signature'
+
+export interface AddressValidation {
+  valid: boolean
+  address: string // trimmed; bech32 addresses lowercased
+  type?: BitcoinAddressType
+  network?: BitcoinNetworkName // testnet also covers signet, which shares its prefixes
+  witnessVersion?: number
+  error?: AddressValidationError
+  message?: string
+}
+
+export interface InvoiceValidation {
+  valid: boolean
+  invoice: string // lowercased, without a `lightning:` prefix
+  network?: BitcoinNetworkName
+  amountMsat?: number // absent for any-amount invoices
+  error?: InvoiceValidationError
+  message?: string
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const BECH32_CONST = 1
+const BECH32M_CONST = 0x2bc830a3
+const GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]
+
+// BIP173 caps addresses at 90 characters; BOLT11 invoices are longer and have no limit
+const ADDRESS_MAX_LENGTH = 90
+
+const SEGWIT_HRPS: Record<string, BitcoinNetworkName> = {
+  bc: 'mainnet',
+  tb: 'testnet',
+  bcrt: 'regtest'
+}
+
+// Regtest reuses the testnet base58 version bytes
+const BASE58_VERSIONS: Record<number, { type: BitcoinAddressType; network: BitcoinNetworkName }> = {
+  0x00: { type: 'p2pkh', network: 'mainnet' },
+  0x05: { type: 'p2sh', network: 'mainnet' },
+  0x6f: { type: 'p2pkh', network: 'testnet' },
+  0xc4: { type: 'p2sh', network: 'testnet' }
+}
+
+const INVOICE_CURRENCIES: Record<string, BitcoinNetworkName> = {
+  bc: 'mainnet',
+  tb: 'testnet',
+  tbs: 'testnet', // signet
+  bcrt: 'regtest'
+}
+
+const AMOUNT_MULTIPLIERS_MSAT: Record<string, number> = {
+  m: 100000000,
+  u: 100000,
+  n: 100,
+  p: 0.1
+}
+
+interface Bech32Decoded {
+  hrp: string
+  data: number[] // 5-bit words, checksum removed
+  encoding: 'bech32' | 'bech32m' | null // null when neither checksum matches
+}
+
+/**
+ * Check a Bitcoin address's checksum, witness version and program, and that it belongs to the
+ * expected network. Without a network, any network's address passes.
+ */
+export function validateBitcoinAddress(input: string, network?: BitcoinNetworkName): AddressValidation {
+  const address = (input || '').trim()
+  if (!address) {
+    return addressFailure(address, 'empty', 'Enter a Bitcoin address')
+  }
+
+  const separator = address.lastIndexOf('1')
+  const hrp = address.slice(0, separator).toLowerCase()
+  const result = separator > 0 && SEGWIT_HRPS[hrp] !== undefined
+    ? validateSegwitAddress(address)
+    : validateBase58Address(address)
+
+  if (result.valid && network && !networksMatch(result.network!, network, result.type!)) {
+    return {
+      ...addressFailure(result.address, 'wrong_network', `This is a ${result.network} address but the wallet is on ${network}`),
+      type: result.type,
+      network: result.network
+    }
+  }
+
+  return result
+}
+
+// Bitcoin address validation: checksum, witness version and, when given, the network
+export function isValidBitcoinAddress(address: string, network?: BitcoinNetworkName): boolean {
+  return validateBitcoinAddress(address, network).valid
+}
+
+/**
+ * Check a BOLT11 invoice's bech32 checksum and that its currency prefix matches the network.
+ * The signature and tagged fields are checked by `decodeLightningInvoice` in ./bolt11.
+ */
+export function validateLightningInvoice(input: string, network?: BitcoinNetworkName): InvoiceValidation {
+  const invoice = (input || '').trim().replace(/^lightning:/i, '')
+  if (!invoice) {
+    return invoiceFailure(invoice, 'empty', 'Enter a Lightning invoice')
+  }
+
+  const decoded = decodeBech32(invoice, Infinity)
+  if (decoded === 'mixed_case') {
+    return invoiceFailure(invoice, 'mixed_case', 'Invoice mixes upper and lower case')
+  }
+  // A timestamp (7 words) and a signature (104 words) at the very least
+  if (!decoded || !decoded.hrp.startsWith('ln') || decoded.data.length < 111) {
+    return invoiceFailure(invoice.toLowerCase(), 'invalid_format', 'Not a Lightning invoice')
+  }
+  if (decoded.encoding !== 'bech32') {
+    return invoiceFailure(invoice.toLowerCase(), 'invalid_checksum', 'Invoice checksum is invalid, check for typos')
+  }
+
+  const match = /^ln(bcrt|bc|tbs|tb)(?:(\d+)([munp]?))?$/.exec(decoded.hrp)
+  if (!match) {
+    return invoiceFailure(invoice.toLowerCase(), 'unknown_currency', `Unknown invoice currency prefix ${decoded.hrp}`)
+  }
+
+  const invoiceNetwork = INVOICE_CURRENCIES[match[1]]
+  if (network && invoiceNetwork !== network) {
+    return {
+      ...invoiceFailure(invoice.toLowerCase(), 'wrong_network', `This is a ${invoiceNetwork} invoice but the wallet is on ${network}`),
+      network: invoiceNetwork
+    }
+  }
+
+  return {
+    valid: true,
+    invoice: invoice.toLowerCase(),
+    network: invoiceNetwork,
+    amountMsat: match[2] ? invoiceAmountMsat(match[2], match[3]) : undefined
+  }
+}
+
+/**
+ * Decode a bech32 or bech32m string into its human-readable part and 5-bit data words
+ */
+export function decodeBech32(value: string, limit = ADDRESS_MAX_LENGTH): Bech32Decoded | 'mixed_case' | null {
+  if (value.length > limit) {
+    return null
+  }
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    return 'mixed_case'
+  }
+
+  const lower = value.toLowerCase()
+  const separator = lower.lastIndexOf('1')
+  if (separator < 1 || separator + 7 > lower.length) {
+    return null
+  }
+
+  const hrp = lower.slice(0, separator)
+  const data: number[] = []
+  for (const char of lower.slice(separator + 1)) {
+    const word = BECH32_CHARSET.indexOf(char)
+    if (word === -1) {
+      return null
+    }
+    data.push(word)
+  }
+
+  const checksum = polymod([...expandHrp(hrp), ...data])
+  const encoding = checksum === BECH32_CONST ? 'bech32' : checksum === BECH32M_CONST ? 'bech32m' : null
+
+  return { hrp, data: data.slice(0, -6), encoding }
+}
+
+function validateSegwitAddress(address: string): AddressValidation {
+  const decoded = decodeBech32(address)
+  if (decoded === 'mixed_case') {
+    return addressFailure(address, 'mixed_case', 'Address mixes upper and lower case')
+  }
+
+  const lower = address.toLowerCase()
+  if (!decoded || decoded.data.length === 0) {
+    return addressFailure(lower, 'invalid_format', 'Not a valid Bitcoin address')
+  }
+  if (!decoded.encoding) {
+    return addressFailure(lower, 'invalid_checksum', 'Address checksum is invalid, check for typos')
+  }
+
+  const [witnessVersion, ...words] = decoded.data
+  if (witnessVersion > 16) {
+    return addressFailure(lower, 'invalid_witness_version', `Unknown witness version ${witnessVersion}`)
+  }
+
+  // BIP350: version 0 keeps the original bech32 checksum, every later version uses bech32m
+  if (decoded.encoding !== (witnessVersion === 0 ? 'bech32' : 'bech32m')) {
+    return addressFailure(lower, 'wrong_encoding', `Witness version ${witnessVersion} addresses must use ${witnessVersion === 0 ? 'bech32' : 'bech32m'}`)
+  }
+
+  const program = convertBits(words, 5, 8)
+  if (!program || program.length < 2 || program.length > 40 ||
+    (witnessVersion === 0 && program.length !== 20 && program.length !== 32)) {
+    return addressFailure(lower, 'invalid_witness_program', 'Witness program has an invalid length')
+  }
+
+  return {
+    valid: true,
+    address: lower,
+    type: segwitType(witnessVersion, program.length),
+    network: SEGWIT_HRPS[decoded.hrp],
+    witnessVersion
+  }
+}
+
+function validateBase58Address(address: string): AddressValidation {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{25,35}$/.test(address)) {
+    return addressFailure(address, 'invalid_format', 'Not a valid Bitcoin address')
+  }
+
+  let decoded: { version: number; hash: Uint8Array }
+  try {
+    decoded = bitcoin.address.fromBase58Check(address)
+  } catch (error) {
+    const reason = error instanceof Error && /checksum/i.test(error.message) ? 'invalid_checksum' : 'invalid_format'
+    return addressFailure(address, reason, reason === 'invalid_checksum'
+      ? 'Address checksum is invalid, check for typos'
+      : 'Not a valid Bitcoin address')
+  }
+
+  const version = BASE58_VERSIONS[decoded.version]
+  if (!version) {
+    return addressFailure(address, 'invalid_format', 'Not a Bitcoin address')
+  }
+
+  return { valid: true, address, type: version.type, network: version.network }
+}
+
+function networksMatch(actual: BitcoinNetworkName, expected: BitcoinNetworkName, type: BitcoinAddressType): boolean {
+  // Base58 addresses cannot tell testnet from regtest apart
+  const base58 = type === 'p2pkh' || type === 'p2sh'
+  return actual === expected || (base58 && actual === 'testnet' && expected === 'regtest')
+}
+
+function segwitType(version: number, programLength: number): BitcoinAddressType {
+  if (version === 0) {
+    return programLength === 20 ? 'p2wpkh' : 'p2wsh'
+  }
+  return version === 1 && programLength === 32 ? 'p2tr' : 'witness_unknown'
+}
+
+function invoiceAmountMsat(amount: string, multiplier: string): number {
+  const value = Number(amount)
+  return multiplier ? value * AMOUNT_MULTIPLIERS_MSAT[multiplier] : value * 100000000000
+}
+
+function addressFailure(address: string, error: AddressValidationError, message: string): AddressValidation {
+  return { valid: false, address, error, message }
+}
+
+function invoiceFailure(invoice: string, error: InvoiceValidationError, message: string): InvoiceValidation {
+  return { valid: false, invoice, error, message }
+}
+
+function polymod(values: number[]): number {
+  let checksum = 1
+  for (const value of values) {
+    const top = checksum >>> 25
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value
+    GENERATORS.forEach((generator, bit) => {
+      if ((top >>> bit) & 1) {
+        checksum ^= generator
+      }
+    })
+  }
+  return checksum >>> 0
+}
+
+function expandHrp(hrp: string): number[] {
+  const codes = Array.from(hrp, char => char.charCodeAt(0))
+  return [...codes.map(code => code >> 5), 0, ...codes.map(code => code & 31)]
+}
+
+// Regroup 5-bit words into bytes, rejecting non-zero or overlong padding
+export function convertBits(words: number[], from: number, to: number): number[] | null {
+  let accumulator = 0
+  let bits = 0
+  const result: number[] = []
+  const maxValue = (1 << to) - 1
+
+  for (const word of words) {
+    accumulator = (accumulator << from) | word
+    bits += from
+    while (bits >= to) {
+      bits -= to
+      result.push((accumulator >> bits) & maxValue)
+    }
+  }
+
+  if (bits >= from || ((accumulator << (to - bits)) & maxValue)) {
+    return null
+  }
+  return result
+}
@@ -65,6 +65,29 @@ describe('AtomiqSDK', () => {
     })
   })
 
+  describe('enableConditionalDeposits', () => {
+    it('should leave conditional deposits off until given an account', () => {
+      expect(createAtomiqSDK().conditionalDeposits).toBeNull()
+    })
+
+    it('should need the PaymentRouter address', () => {
+      const sdk = createAtomiqSDK()
+
+      expect(() => sdk.enableConditionalDeposits({} as any)).toThrow(/NEXT_PUBLIC_PAYMENT_ROUTER_ADDRESS/)
+    })
+
+    it('should set up conditional deposits on the configured PaymentRouter', () => {
+      process.env.NEXT_PUBLIC_PAYMENT_ROUTER_ADDRESS = '0x0123'
+      const sdk = createAtomiqSDK()
+
+      const deposits = sdk.enableConditionalDeposits({} as any)
+
+      expect(sdk.conditionalDeposits).toBe(deposits)
+      expect(deposits.listDeposits()).toEqual([])
+      deposits.stop()
+    })
+  })
+
   describe('getAtomiqSDK', () => {
     it('should return singleton instance', () => {
       const sdk1 = getAtomiqSDK()
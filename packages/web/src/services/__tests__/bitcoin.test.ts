@@ -1,15 +1,31 @@
 import { BitcoinServiceImplementation, MockBitcoinService } from '../bitcoin'
+import { HDWallet, MemoryAddressIndexStore } from '../bitcoin/hdWallet'
+import { walletDescriptors } from '../bitcoin/descriptors'
+import { LocalKeySigner } from '../bitcoin/psbtSigner'
+import { MultisigWallet } from '../bitcoin/multisig'
+import { ScriptType, estimateVsize } from '../bitcoin/feeEstimator'
+import * as bitcoin from 'bitcoinjs-lib'
+import { HDKey } from '@scure/bip32'
 import { BitcoinAddress, BitcoinBalance, BitcoinTransaction } from '@/types/atomiq'
 
 // Mock fetch for real service
 global.fetch = jest.fn()
 
+// BIP84 test vector account (abandon ... about), m/84'/1'/0'
+const TEST_VPUB = 'vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc'
+// BIP86 test vector account, m/86'/0'/0', and the private key of its first receive address
+const TEST_TAPROOT_XPUB = 'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ'
+const TEST_TAPROOT_KEY = '41f41d69260df4cf277826a9b65a3717e4eeddbeedf637f212ca096576479361'
+
 describe('BitcoinService', () => {
   let service: BitcoinServiceImplementation
   let mockService: MockBitcoinService
 
   beforeEach(() => {
-    service = new BitcoinServiceImplementation('https://blockstream.info/testnet/api', 'testnet')
+    service = new BitcoinServiceImplementation('https://blockstream.info/testnet/api', 'testnet', {
+      xpub: TEST_VPUB,
+      addressIndexStore: new MemoryAddressIndexStore()
+    })
     mockService = new MockBitcoinService()
     jest.clearAllMocks()
   })
@@ -25,11 +41,34 @@ describe('BitcoinService', () => {
         expect(address.address).toMatch(/^(tb1|[1-3])[a-zA-HJ-NP-Z0-9]{25,62}$/)
       })
 
-      it('should include private key for generated address', async () => {
+      it('should derive the address from the configured xpub', async () => {
+        const address = await service.generateAddress('user-1')
+
+        expect(address.address).toBe('tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl')
+        expect(address.path).toBe("m/84'/1'/0'/0/0")
+      })
+
+      it('should return the same address for a user across calls', async () => {
+        const first = await service.generateAddress('user-1')
+        const second = await service.generateAddress('user-1')
+        const other = await service.generateAddress('user-2')
+
+        expect(second.address).toBe(first.address)
+        expect(other.address).not.toBe(first.address)
+      })
+
+      it('should not expose a private key', async () => {
         const address = await service.generateAddress()
 
-        expect(address).toHaveProperty('privateKey')
-        expect(address.privateKey).toMatch(/^[L|K][a-km-zA-HJ-NP-Z1-9]{51,52}$/)
+        expect(address).not.toHaveProperty('privateKey')
+      })
+
+      it('should fail without an xpub', async () => {
+        const unconfigured = new BitcoinServiceImplementation('https://blockstream.info/testnet/api', 'testnet')
+
+        await expect(unconfigured.generateAddress()).rejects.toMatchObject({
+          code: 'BITCOIN_ADDRESS_GENERATION_FAILED'
+        })
       })
     })
 
@@ -103,6 +142,479 @@ describe('BitcoinService', () => {
         expect(transaction.status.confirmed).toBe(true)
       })
     })
+
+    describe('getTransactionHistory', () => {
+      const esploraTx = (txid: string, height: number | null, from: string, to: string) => ({
+        txid,
+        version: 2,
+        locktime: 0,
+        vin: [{ txid: 'ff'.repeat(32), vout: 0, prevout: { scriptpubkey_address: from, value: 60000 } }],
+        vout: [{ scriptpubkey: '', scriptpubkey_address: to, value: 50000 }],
+        size: 200,
+        fee: 10000,
+        status: height === null ? { confirmed: false } : { confirmed: true, block_height: height, block_time: 1700000000 }
+      })
+
+      it('should page through Esplora history from the last seen confirmed txid and classify each transaction', async () => {
+        const { address } = await service.generateAddress('user-1')
+        const firstPage = [
+          esploraTx('mempool', null, address, 'tb1qexternal'),
+          ...Array.from({ length: 25 }, (_, i) => esploraTx(`confirmed${i}`, 200 - i, 'tb1qexternal', address))
+        ]
+        ;(fetch as jest.Mock)
+          .mockResolvedValueOnce({ ok: true, json: async () => firstPage })
+          .mockResolvedValueOnce({ ok: true, json: async () => [esploraTx('oldest', 100, 'tb1qexternal', address)] })
+
+        const first = await service.getTransactionHistory([address])
+        expect(fetch).toHaveBeenLastCalledWith(`https://blockstream.info/testnet/api/address/${address}/txs`)
+        expect(first.transactions).toHaveLength(26)
+        expect(first.transactions[0]).toMatchObject({ direction: 'withdrawal', amount: 0.0005, fee: 0.0001 })
+        expect(first.transactions[1]).toMatchObject({ direction: 'deposit', amount: 0.0005, fee: 0 })
+        expect(first.cursor).not.toBeNull()
+
+        const second = await service.getTransactionHistory([address], first.cursor)
+        expect(fetch).toHaveBeenLastCalledWith(`https://blockstream.info/testnet/api/address/${address}/txs/chain/confirmed24`)
+        expect(second.transactions.map(entry => entry.transaction.txid)).toEqual(['oldest'])
+        expect(second.cursor).toBeNull()
+      })
+    })
+
+    describe('createTransaction', () => {
+      it('should build an unsigned PSBT with change to the internal chain', async () => {
+        ;(fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }]
+        })
+
+        const source = await service.generateAddress('user-1')
+        const tx = await service.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.0005, source.address, { feeRate: 1 })
+
+        expect(tx.psbt).toBeDefined()
+        expect(tx.hex).toBeUndefined()
+        expect(tx.vin.every(input => input.sequence === 0xfffffffd)).toBe(true)
+        expect(tx.vout).toHaveLength(2)
+        expect(tx.vout[0].value).toBe(50000)
+      })
+
+      it('should not take a change address for a transaction that is never signed', async () => {
+        const utxos = { ok: true, json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }] }
+        ;(fetch as jest.Mock).mockResolvedValueOnce(utxos).mockResolvedValueOnce(utxos)
+
+        const source = await service.generateAddress('user-1')
+        const first = await service.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.0005, source.address, { feeRate: 1 })
+        const second = await service.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.0005, source.address, { feeRate: 1 })
+
+        expect(second.vout[1].scriptpubkey_address).toBe(first.vout[1].scriptpubkey_address)
+      })
+
+      it('should pay the fee rate of the requested tier', async () => {
+        ;(fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ '1': 20, '6': 10, '144': 2 })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }]
+          })
+
+        const source = await service.generateAddress('user-1')
+        const tx = await service.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.0005, source.address, {
+          feeTier: 'priority'
+        })
+
+        // One P2WPKH input paying a P2WPKH output plus change is 141 vB
+        expect(tx.feeRate).toBe(20)
+        expect(tx.size).toBe(141)
+        expect(tx.fee).toBeCloseTo(141 * 20 / 100000000, 10)
+      })
+
+      it('should spend from extra source addresses with the requested strategy', async () => {
+        const [first, second] = [
+          await service.generateAddress('user-1'),
+          await service.generateAddress('user-2')
+        ]
+        ;(fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 30000, status: { confirmed: true } }]
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: async () => [{ txid: 'bb'.repeat(32), vout: 1, value: 80000, status: { confirmed: true } }]
+          })
+
+        const tx = await service.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.0005, first.address, {
+          feeRate: 2,
+          coinSelection: 'privacy',
+          sourceAddresses: [second.address]
+        })
+
+        expect(tx.vin).toHaveLength(1)
+        expect(tx.vin[0].txid).toBe('bb'.repeat(32))
+        expect(tx.coinSelection?.strategy).toBe('privacy')
+      })
+
+      describe('from a taproot wallet', () => {
+        let taprootService: BitcoinServiceImplementation
+
+        beforeEach(() => {
+          taprootService = new BitcoinServiceImplementation('https://blockstream.info/api', 'mainnet', {
+            xpub: TEST_TAPROOT_XPUB,
+            addressType: 'p2tr',
+            addressIndexStore: new MemoryAddressIndexStore()
+          })
+        })
+
+        it.each([
+          ['1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', 'p2pkh', 'p2pkh'],
+          ['3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', 'p2sh-p2wpkh', 'p2sh'],
+          ['bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3', 'p2wsh', 'v0_p2wsh'],
+          ['bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh', 'p2tr', 'v1_p2tr']
+        ])('should pay %s and size the fee by its script type', async (to: string, type: string, esploraType: string) => {
+          ;(fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }]
+          })
+
+          const source = await taprootService.generateAddress('user-1')
+          const tx = await taprootService.createTransaction(to, 0.0005, source.address, { feeRate: 2 })
+          const vsize = estimateVsize(['p2tr'], [type as ScriptType, 'p2tr'])
+
+          expect(source.address).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr')
+          expect(tx.vin[0].prevout?.scriptpubkey_type).toBe('v1_p2tr')
+          expect(tx.vout.map(output => output.scriptpubkey_type)).toEqual([esploraType, 'v1_p2tr'])
+          expect(tx.size).toBe(vsize)
+          expect(tx.fee).toBeCloseTo(vsize * 2 / 100000000, 10)
+        })
+
+        it('should sign the key-path spend with Schnorr', async () => {
+          ;(fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }]
+          })
+
+          const source = await taprootService.generateAddress('user-1')
+          const tx = await taprootService.createTransaction('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', 0.0005, source.address, { feeRate: 2 })
+          const signed = await taprootService.signTransaction(tx, new LocalKeySigner(TEST_TAPROOT_KEY, bitcoin.networks.bitcoin))
+          const transaction = bitcoin.Transaction.fromHex(signed.hex!)
+
+          expect(transaction.ins[0].witness).toHaveLength(1)
+          expect(transaction.ins[0].witness[0]).toHaveLength(64)
+          // The estimate leaves room for a worst-case signature, so it is never below the real size
+          expect(tx.size).toBeGreaterThanOrEqual(transaction.virtualSize())
+        })
+      })
+
+      describe('from a multisig custody wallet', () => {
+        const accounts = [1, 2, 3].map(seed =>
+          HDKey.fromMasterSeed(new Uint8Array(32).fill(seed), { private: 0x04358394, public: 0x043587cf }).derive("m/48'/1'/0'/2'")
+        )
+
+        it('should give each user the same custody address until it is funded', async () => {
+          const multisig = new MultisigWallet({
+            cosigners: accounts.map(account => account.publicExtendedKey),
+            threshold: 2,
+            network: 'testnet'
+          }, new MemoryAddressIndexStore())
+          const custodyService = new BitcoinServiceImplementation('https://blockstream.info/testnet/api', 'testnet', { multisig })
+
+          const first = await custodyService.generateAddress('user-1')
+
+          expect(await custodyService.generateAddress('user-1')).toEqual(first)
+          expect((await custodyService.generateAddress('user-2')).path).toBe('0/1')
+          expect(multisig.getIssuedAddresses()).toHaveLength(2)
+        })
+
+        it.each(['p2wsh', 'p2tr'] as const)('should build a %s spend that finalizes once two of three cosigners sign', async (scriptType: 'p2wsh' | 'p2tr') => {
+          const multisig = new MultisigWallet({
+            cosigners: accounts.map(account => account.publicExtendedKey),
+            threshold: 2,
+            network: 'testnet',
+            scriptType
+          }, new MemoryAddressIndexStore())
+          const custodyService = new BitcoinServiceImplementation('https://blockstream.info/testnet/api', 'testnet', { multisig })
+          ;(fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }]
+          })
+
+          const source = multisig.getNextAddress()
+          const tx = await custodyService.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.0005, source.address, { feeRate: 2 })
+          const session = custodyService.startMultisigSigning(tx)
+
+          expect(tx.vout[1].scriptpubkey_address).toBe(multisig.deriveAddress(0, 1).address)
+          expect(multisig.getChangeAddress().index).toBe(0)
+          expect(() => custodyService.completeMultisigSigning(tx, session)).toThrow()
+
+          for (const account of [accounts[0], accounts[2]]) {
+            await session.requestSignatures(new LocalKeySigner(account.deriveChild(0).deriveChild(0).privateKey!, bitcoin.networks.testnet))
+          }
+          const signed = custodyService.completeMultisigSigning(tx, session)
+          const transaction = bitcoin.Transaction.fromHex(signed.hex!)
+
+          expect(signed.txid).toBe(transaction.getId())
+          expect(custodyService.getSignedPsbt(signed.txid)).toBe(signed.psbt)
+          // The finalized spend pays change, so the next one gets a fresh address
+          expect(multisig.getChangeAddress().index).toBe(1)
+          // Sized for the full witness, so never below the real size
+          expect(tx.size).toBeGreaterThanOrEqual(transaction.virtualSize())
+          expect(tx.size - transaction.virtualSize()).toBeLessThan(3)
+        })
+      })
+
+      it('should pay many recipients from one transaction in the order given', async () => {
+        ;(fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }]
+        })
+
+        const source = await service.generateAddress('user-1')
+        const tx = await service.createBatchTransaction([
+          { address: 'tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', amount: 0.0002 },
+          { address: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl', amount: 0.0003 }
+        ], source.address, { feeRate: 1 })
+
+        expect(tx.vout.map(output => output.value)).toEqual([20000, 30000, expect.any(Number)])
+        expect(tx.vout[1].scriptpubkey_address).toBe('tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl')
+        expect(tx.size).toBe(estimateVsize(['p2wpkh'], ['p2wpkh', 'p2wpkh', 'p2wpkh']))
+      })
+
+      it('should reject payments below the dust limit', async () => {
+        const source = await service.generateAddress('user-1')
+
+        await expect(
+          service.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.000002, source.address, { feeRate: 1 })
+        ).rejects.toMatchObject({ message: expect.stringContaining('dust limit') })
+      })
+    })
+
+    describe('watch-only descriptor wallet', () => {
+      const accountWallet = () => new HDWallet(
+        { xpub: TEST_VPUB, network: 'testnet', masterFingerprint: '73c5da0a' },
+        new MemoryAddressIndexStore()
+      )
+      const funded = accountWallet().deriveAddress(1).address
+      let watchOnly: BitcoinServiceImplementation
+
+      beforeEach(() => {
+        watchOnly = new BitcoinServiceImplementation('https://blockstream.info/testnet/api', 'testnet', {
+          descriptor: walletDescriptors(accountWallet()).receive,
+          gapLimit: 2,
+          addressIndexStore: new MemoryAddressIndexStore()
+        })
+
+        // Only the second receive address has ever been used
+        ;(fetch as jest.Mock).mockImplementation(async (url: string) => ({
+          ok: true,
+          json: async () => {
+            const used = url.includes(funded)
+            if (url.endsWith('/txs')) {
+              return used ? [{ txid: 'aa'.repeat(32), version: 2, locktime: 0, vin: [], vout: [], status: { confirmed: true } }] : []
+            }
+            if (url.endsWith('/utxo')) {
+              return used ? [{ txid: 'aa'.repeat(32), vout: 0, value: 100000, status: { confirmed: true } }] : []
+            }
+            return {
+              chain_stats: { funded_txo_sum: used ? 100000 : 0, spent_txo_sum: 0 },
+              mempool_stats: { funded_txo_sum: 0, spent_txo_sum: 0 }
+            }
+          }
+        }))
+      })
+
+      afterEach(() => {
+        ;(fetch as jest.Mock).mockReset()
+      })
+
+      it('should export the descriptors it was built from', () => {
+        expect(watchOnly.exportDescriptors()).toEqual(walletDescriptors(accountWallet()))
+      })
+
+      it('should restore address indexes up to the gap limit and total the balance', async () => {
+        expect(await watchOnly.discoverWallet()).toEqual({ receive: 1, change: 0 })
+        expect((await watchOnly.generateAddress()).path).toBe("m/84'/1'/0'/0/2")
+        expect(await watchOnly.getWalletBalance()).toEqual({ confirmed: 0.001, unconfirmed: 0, total: 0.001 })
+      })
+
+      it('should build an unsigned PSBT from the whole wallet with key origins for the signer', async () => {
+        await watchOnly.discoverWallet()
+        const tx = await watchOnly.createTransaction('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97', 0.0005, undefined, { feeRate: 1 })
+        const psbt = bitcoin.Psbt.fromBase64(tx.psbt!, { network: bitcoin.networks.testnet })
+
+        expect(tx.vin[0].prevout?.scriptpubkey_address).toBe(funded)
+        expect(tx.vout[1].scriptpubkey_address).toBe(accountWallet().deriveAddress(0, 1).address)
+        expect(psbt.data.inputs[0].bip32Derivation?.[0].path).toBe("m/84'/1'/0'/0/1")
+      })
+    })
+
+    describe('planConsolidation', () => {
+      const utxoResponse = (...utxos: [string, number][]) => ({
+        ok: true,
+        json: async () => utxos.map(([txid, value], vout) => ({ txid, vout, value, status: { confirmed: true } }))
+      })
+
+      it('should propose an unsigned PSBT merging the wallet into one internal address', async () => {
+        const [first, second] = [
+          await service.generateAddress('user-1'),
+          await service.generateAddress('user-2')
+        ]
+        ;(fetch as jest.Mock)
+          .mockResolvedValueOnce(utxoResponse(['aa'.repeat(32), 20000], ['bb'.repeat(32), 5000]))
+          .mockResolvedValueOnce(utxoResponse(['cc'.repeat(32), 10000]))
+
+        const plan = await service.planConsolidation({ feeRate: 1, longTermFeeRate: 20 })
+        const [proposal] = plan.proposals
+        const psbt = bitcoin.Psbt.fromBase64(proposal.transaction.psbt!, { network: bitcoin.networks.testnet })
+
+        expect(plan.proposals).toHaveLength(1)
+        expect(proposal.inputCount).toBe(3)
+        expect(proposal.transaction.vout).toHaveLength(1)
+        expect(proposal.transaction.vout[0].scriptpubkey_address).toBe(
+          new HDWallet({ xpub: TEST_VPUB, network: 'testnet' }, new MemoryAddressIndexStore()).deriveAddress(0, 1).address
+        )
+        expect(proposal.amount + proposal.fee).toBeCloseTo(0.00035, 10)
+        expect(proposal.linkedAddresses).toEqual([first.address, second.address])
+        expect(plan.linkedAddresses).toBe(2)
+        expect(plan.projectedSavings).toBeGreaterThan(0)
+        expect(psbt.data.inputs.every(input => input.witnessUtxo)).toBe(true)
+      })
+
+      it('should keep deposit addresses unlinked when asked', async () => {
+        const [first] = [
+          await service.generateAddress('user-1'),
+          await service.generateAddress('user-2')
+        ]
+        ;(fetch as jest.Mock)
+          .mockResolvedValueOnce(utxoResponse(['aa'.repeat(32), 20000], ['bb'.repeat(32), 5000]))
+          .mockResolvedValueOnce(utxoResponse(['cc'.repeat(32), 10000]))
+
+        const plan = await service.planConsolidation({ feeRate: 1, longTermFeeRate: 20, linkAddresses: false })
+
+        expect(plan.proposals).toHaveLength(1)
+        expect(plan.proposals[0].transaction.vin.map(input => input.prevout?.scriptpubkey_address)).toEqual([first.address, first.address])
+        expect(plan.linkedAddresses).toBe(0)
+      })
+
+      it('should propose nothing while fees are high', async () => {
+        await service.generateAddress('user-1')
+        ;(fetch as jest.Mock).mockResolvedValueOnce(utxoResponse(['aa'.repeat(32), 20000], ['bb'.repeat(32), 5000]))
+
+        const plan = await service.planConsolidation({ feeRate: 30, longTermFeeRate: 20 })
+
+        expect(plan.proposals).toEqual([])
+        expect(plan.projectedSavings).toBe(0)
+      })
+    })
+
+    describe('previewFeeBump', () => {
+      const esploraTx = (sequence: number, confirmed = false) => ({
+        txid: 'cc'.repeat(32),
+        version: 2,
+        locktime: 0,
+        vin: [{
+          txid: 'aa'.repeat(32),
+          vout: 0,
+          sequence,
+          prevout: {
+            scriptpubkey: '0014d0c4a3ef09e997b6e99e397e518fe3e41a118ca1',
+            scriptpubkey_asm: '',
+            scriptpubkey_type: 'v0_p2wpkh',
+            scriptpubkey_address: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl',
+            value: 100000
+          }
+        }],
+        vout: [
+          {
+            scriptpubkey: '00146fa016500a3c6a737ebb260e2ddca78ba9234558',
+            scriptpubkey_asm: '',
+            scriptpubkey_type: 'v0_p2wpkh',
+            scriptpubkey_address: 'tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97',
+            value: 50000
+          },
+          {
+            scriptpubkey: '0014d0c4a3ef09e997b6e99e397e518fe3e41a118ca1',
+            scriptpubkey_asm: '',
+            scriptpubkey_type: 'v0_p2wpkh',
+            scriptpubkey_address: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl',
+            value: 49859
+          }
+        ],
+        size: 222,
+        weight: 561,
+        fee: 141,
+        status: { confirmed }
+      })
+
+      it('should replace our own RBF-signalling transactions', async () => {
+        await service.generateAddress('user-1')
+        ;(fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => esploraTx(0xfffffffd) })
+
+        const preview = await service.previewFeeBump('cc'.repeat(32), { feeRate: 10 })
+
+        expect(preview.method).toBe('rbf')
+        expect(preview.currentFeeRate).toBe(1)
+        expect(preview.additionalFee).toBeCloseTo(1269 / 100000000, 10)
+      })
+
+      it('should fall back to CPFP when the transaction is final', async () => {
+        await service.generateAddress('user-1')
+        ;(fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => esploraTx(0xffffffff) })
+
+        const preview = await service.previewFeeBump('cc'.repeat(32), { feeRate: 10 })
+
+        expect(preview.method).toBe('cpfp')
+      })
+
+      it('should refuse confirmed transactions', async () => {
+        ;(fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => esploraTx(0xfffffffd, true) })
+
+        await expect(service.previewFeeBump('cc'.repeat(32), { feeRate: 10 })).rejects.toMatchObject({
+          code: 'BITCOIN_FEE_BUMP_FAILED',
+          message: 'Transaction is already confirmed'
+        })
+      })
+    })
+
+    describe('signTransaction', () => {
+      it('should fail without a signer', async () => {
+        const tx = { txid: '', version: 2, locktime: 0, vin: [], vout: [], size: 0, fee: 0, status: { confirmed: false }, psbt: 'cHNidP8=' }
+
+        await expect(service.signTransaction(tx)).rejects.toMatchObject({
+          code: 'BITCOIN_TRANSACTION_SIGNING_FAILED'
+        })
+      })
+    })
+
+    describe('broadcastTransaction', () => {
+      it('should post the raw hex and return the txid', async () => {
+        ;(fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          text: async () => 'abc123\n'
+        })
+
+        const txid = await service.broadcastTransaction('0200')
+
+        expect(txid).toBe('abc123')
+        expect(fetch).toHaveBeenCalledWith('https://blockstream.info/testnet/api/tx', expect.objectContaining({
+          method: 'POST',
+          body: '0200'
+        }))
+      })
+
+      it('should surface the node rejection reason', async () => {
+        ;(fetch as jest.Mock).mockResolvedValueOnce({
+          ok: false,
+          statusText: 'Bad Request',
+          text: async () => 'bad-txns-inputs-missingorspent'
+        })
+
+        await expect(service.broadcastTransaction('0200')).rejects.toMatchObject({
+          code: 'BITCOIN_TRANSACTION_SEND_FAILED',
+          message: expect.stringContaining('missingorspent')
+        })
+      })
+    })
   })
 
   describe('Mock Bitcoin Service', () => {
@@ -112,7 +624,7 @@ describe('BitcoinService', () => {
 
         expect(address).toHaveProperty('address')
         expect(address).toHaveProperty('publicKey')
-        expect(address).toHaveProperty('privateKey')
+        expect(address).not.toHaveProperty('privateKey')
         expect(address).toHaveProperty('path')
         expect(address.address).toMatch(/^tb1q/)
       })
@@ -171,6 +683,22 @@ describe('BitcoinService', () => {
         // Should not throw
         expect(() => mockService.monitorAddress('tb1qtestaddress', callback)).not.toThrow()
       })
+
+      it('should replace rather than stack timers for the same address', () => {
+        jest.useFakeTimers()
+        try {
+          const before = jest.getTimerCount()
+
+          mockService.monitorAddress('tb1qtestaddress', jest.fn())
+          const unsubscribe = mockService.monitorAddress('tb1qtestaddress', jest.fn())
+          expect(jest.getTimerCount()).toBe(before + 1)
+
+          unsubscribe()
+          expect(jest.getTimerCount()).toBe(before)
+        } finally {
+          jest.useRealTimers()
+        }
+      })
     })
   })
 
@@ -4,6 +4,9 @@ import { BridgeQuote, BridgeDeposit, BridgeWithdrawal, BridgeTransaction } from
 // Mock fetch for real service
 global.fetch = jest.fn()
 
+const TESTNET_ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'
+const MAINNET_ADDRESS = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+
 describe('BridgeService', () => {
   let service: BridgeServiceImplementation
   let mockService: MockBridgeService
@@ -107,7 +110,7 @@ describe('BridgeService', () => {
         const mockWithdrawal = {
           withdrawal_id: 'withdrawal_123',
           amount: 100000000,
-          destination: 'tb1qdestination',
+          destination: TESTNET_ADDRESS,
           status: 'pending',
           created_at: 1640995200,
           fees: {
@@ -121,13 +124,21 @@ describe('BridgeService', () => {
           json: async () => mockWithdrawal
         })
 
-        const withdrawal = await service.createWithdrawal(0.001, 'tb1qdestination')
+        const withdrawal = await service.createWithdrawal(0.001, TESTNET_ADDRESS)
 
         expect(withdrawal.id).toBe('withdrawal_123')
         expect(withdrawal.amount).toBe(0.001)
-        expect(withdrawal.destination).toBe('tb1qdestination')
+        expect(withdrawal.destination).toBe(TESTNET_ADDRESS)
         expect(withdrawal.status).toBe('pending')
       })
+
+      it('should refuse a destination on another network without calling the bridge', async () => {
+        await expect(service.createWithdrawal(0.001, MAINNET_ADDRESS)).rejects.toMatchObject({
+          code: 'BRIDGE_WITHDRAWAL_CREATION_FAILED',
+          message: expect.stringContaining('mainnet')
+        })
+        expect(fetch).not.toHaveBeenCalled()
+      })
     })
 
     describe('getTransaction', () => {
@@ -170,21 +181,27 @@ describe('BridgeService', () => {
           json: async () => ({ is_valid: true })
         })
 
-        const isValid = await service.validateBitcoinAddress('tb1qtestaddress')
+        const isValid = await service.validateBitcoinAddress(TESTNET_ADDRESS)
 
         expect(isValid).toBe(true)
       })
 
-      it('should reject invalid addresses', async () => {
+      it('should reject addresses the bridge refuses', async () => {
         ;(fetch as jest.Mock).mockResolvedValueOnce({
           ok: true,
           json: async () => ({ is_valid: false })
         })
 
-        const isValid = await service.validateBitcoinAddress('invalid')
+        const isValid = await service.validateBitcoinAddress(TESTNET_ADDRESS)
 
         expect(isValid).toBe(false)
       })
+
+      it('should reject malformed addresses without asking the bridge', async () => {
+        expect(await service.validateBitcoinAddress('invalid')).toBe(false)
+        expect(await service.validateBitcoinAddress(MAINNET_ADDRESS)).toBe(false)
+        expect(fetch).not.toHaveBeenCalled()
+      })
     })
   })
 
@@ -229,12 +246,13 @@ describe('BridgeService', () => {
         expect(deposit).toHaveProperty('createdAt')
         expect(deposit.quote).toEqual(quote)
         expect(deposit.status).toBe('pending')
+        expect(await mockService.validateBitcoinAddress(deposit.depositAddress)).toBe(true)
       })
     })
 
     describe('createWithdrawal', () => {
       it('should create mock bridge withdrawal', async () => {
-        const withdrawal = await mockService.createWithdrawal(0.001, 'tb1qdestination')
+        const withdrawal = await mockService.createWithdrawal(0.001, TESTNET_ADDRESS)
 
         expect(withdrawal).toHaveProperty('id')
         expect(withdrawal).toHaveProperty('amount')
@@ -244,7 +262,7 @@ describe('BridgeService', () => {
         expect(withdrawal).toHaveProperty('fees')
 
         expect(withdrawal.amount).toBe(0.001)
-        expect(withdrawal.destination).toBe('tb1qdestination')
+        expect(withdrawal.destination).toBe(TESTNET_ADDRESS)
         expect(withdrawal.status).toBe('pending')
       })
     })
@@ -270,9 +288,10 @@ describe('BridgeService', () => {
     describe('validateBitcoinAddress', () => {
       it('should validate correct Bitcoin addresses', async () => {
         const validAddresses = [
-          'tb1qtestaddress123456789',
-          '1testaddress123456789',
-          '3testaddress123456789'
+          TESTNET_ADDRESS,
+          'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+          'mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn',
+          '2MzQwSSnBHWHqSAqtTVQ6v47XtaisrJa1Vc'
         ]
 
         for (const address of validAddresses) {
@@ -286,7 +305,9 @@ describe('BridgeService', () => {
           'invalid',
           '0x1234567890abcdef',
           'short',
-          ''
+          '',
+          'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsy', // bad checksum
+          MAINNET_ADDRESS // wrong network
         ]
 
         for (const address of invalidAddresses) {
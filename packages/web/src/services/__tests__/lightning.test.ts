@@ -4,6 +4,17 @@ import { LightningNodeInfo, LightningChannel, LightningPayment, LightningInvoice
 // Mock fetch for real service
 global.fetch = jest.fn()
 
+// A streamed response body as LND's REST proxy sends it, one JSON message per line
+const streamBody = (...messages: any[]) => {
+  const chunks = messages.map(message => new TextEncoder().encode(`${JSON.stringify(message)}\n`))
+  return {
+    getReader: () => ({
+      read: async () => (chunks.length ? { done: false, value: chunks.shift() } : { done: true, value: undefined }),
+      cancel: async () => undefined
+    })
+  }
+}
+
 describe('LightningService', () => {
   let service: LightningServiceImplementation
   let mockService: MockLightningService
@@ -91,7 +102,7 @@ describe('LightningService', () => {
     describe('payInvoice', () => {
       it('should pay a Lightning invoice', async () => {
         const mockPayment = {
-          payment: {
+          result: {
             payment_hash: '0x1234567890abcdef',
             value: 100000000,
             creation_date: 1640995200,
@@ -110,15 +121,28 @@ describe('LightningService', () => {
 
         ;(fetch as jest.Mock).mockResolvedValueOnce({
           ok: true,
-          json: async () => mockPayment
+          body: streamBody({ result: { ...mockPayment.result, status: 'IN_FLIGHT' } }, mockPayment)
         })
 
-        const payment = await service.payInvoice('lnbcrt1mockinvoice')
+        const progress: string[] = []
+        const payment = await service.payInvoice('lnbcrt1mockinvoice', {
+          feeLimit: { fixed: 500 },
+          timeoutSeconds: 30,
+          maxParts: 4,
+          onProgress: update => progress.push(update.status)
+        })
 
         expect(payment.payment_hash).toBe('0x1234567890abcdef')
         expect(payment.status).toBe('SUCCEEDED')
         expect(payment.value).toBe(100000000)
         expect(payment.fee).toBe(1000)
+        expect(progress).toEqual(['in_flight', 'succeeded'])
+        expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body)).toEqual({
+          payment_request: 'lnbcrt1mockinvoice',
+          fee_limit_msat: 500000,
+          timeout_seconds: 30,
+          max_parts: 4
+        })
       })
     })
 
@@ -169,6 +193,22 @@ describe('LightningService', () => {
       })
     })
 
+    describe('subscribeInvoices', () => {
+      it('should settle invoices while someone is subscribed', async () => {
+        jest.useFakeTimers()
+        const listener = jest.fn()
+        const unsubscribe = mockService.subscribeInvoices(listener)
+
+        const invoice = await mockService.createInvoice(0.002)
+        jest.advanceTimersByTime(5000)
+        unsubscribe()
+        jest.useRealTimers()
+
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'settled', amountPaid: 0.002, settleIndex: 1 }))
+        expect((await mockService.getInvoice(invoice.paymentHash)).status).toBe('paid')
+      })
+    })
+
     describe('payInvoice', () => {
       it('should pay a mock invoice', async () => {
         const payment = await mockService.payInvoice('lnbcrt1mockinvoice')
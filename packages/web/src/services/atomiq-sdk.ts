@@ -1,21 +1,39 @@
+import type { AccountInterface } from 'starknet'
 import {
   AtomiqSDK,
   AtomiqConfig,
   BitcoinService,
+  ConditionalDepositService,
+  PayoutService,
   LightningService,
+  LiquidityService,
   StarknetService,
   BridgeService
 } from '@/types/atomiq'
-import { createBitcoinService, MockBitcoinService } from './bitcoin'
+import { readAtomiqConfig } from '@/lib/config'
+import { createBitcoinService, createChainBackend, MockBitcoinService } from './bitcoin'
+import { MultisigWallet } from './bitcoin/multisig'
+import { LocalStoragePayoutStore, PayoutBatcher } from './bitcoin/payoutBatcher'
 import { createLightningService, MockLightningService } from './lightning'
+import { ChannelLiquidityManager } from './lightning/liquidity'
+import { HoldInvoiceOrchestrator, LocalStorageConditionalDepositStore } from './lightning/holdInvoices'
 import { createStarknetService, MockStarknetService } from './starknet'
+import { PaymentRouterContract } from './starknet/paymentRouter'
 import { createBridgeService, MockBridgeService } from './bridge'
 
+// Health checks reuse one assigned deposit address instead of consuming a fresh index each time
+const HEALTH_CHECK_ADDRESS_OWNER = 'sdk-health-check'
+const CONDITIONAL_DEPOSITS_KEY = 'atomiq_conditional_deposits'
+const PAYOUTS_KEY = 'atomiq_payouts'
+
 export class AtomiqSDKImplementation implements AtomiqSDK {
   public readonly bitcoin: BitcoinService
+  public readonly payouts: PayoutService
   public readonly lightning: LightningService
+  public readonly liquidity: LiquidityService
   public readonly starknet: StarknetService
   public readonly bridge: BridgeService
+  public conditionalDeposits: ConditionalDepositService | null = null
   public readonly config: AtomiqConfig
 
   constructor(config: AtomiqConfig) {
@@ -26,16 +44,29 @@ export class AtomiqSDKImplementation implements AtomiqSDK {
       this.bitcoin = new MockBitcoinService()
       this.lightning = new MockLightningService()
       this.starknet = new MockStarknetService()
-      this.bridge = new MockBridgeService()
+      this.bridge = new MockBridgeService(config.bitcoin?.network)
     } else {
       this.bitcoin = createBitcoinService(
         config.bitcoin?.rpcUrl,
-        config.bitcoin?.network
+        config.bitcoin?.network,
+        {
+          backend: config.bitcoin ? createChainBackend(config.bitcoin) : undefined,
+          xpub: config.bitcoin?.xpub,
+          descriptor: config.bitcoin?.descriptor,
+          gapLimit: config.bitcoin?.gapLimit,
+          addressType: config.bitcoin?.addressType,
+          multisig: config.bitcoin?.multisig
+            ? new MultisigWallet({ ...config.bitcoin.multisig, network: config.bitcoin.network, gapLimit: config.bitcoin.gapLimit })
+            : undefined,
+          monitor: { zeroConf: config.bitcoin?.zeroConf }
+        }
       )
       this.lightning = createLightningService(
         config.lightning?.rpcUrl,
         config.lightning?.macaroon,
-        config.lightning?.cert
+        config.lightning?.cert,
+        config.lightning?.invoiceStreamUrl,
+        { backend: config.lightning?.backend }
       )
       this.starknet = createStarknetService(
         config.starknet?.rpcUrl,
@@ -43,9 +74,38 @@ export class AtomiqSDKImplementation implements AtomiqSDK {
       )
       this.bridge = createBridgeService(
         config.bridge?.apiUrl,
-        config.bridge?.contractAddress
+        config.bridge?.contractAddress,
+        config.bitcoin?.network
       )
     }
+
+    this.payouts = new PayoutBatcher(
+      this.bitcoin,
+      config.bitcoin?.network,
+      config.bitcoin?.payoutBatch,
+      new LocalStoragePayoutStore(PAYOUTS_KEY)
+    )
+    this.liquidity = new ChannelLiquidityManager(this.lightning, config.lightning?.liquidity)
+  }
+
+  /**
+   * Take Lightning deposits as hold invoices that settle only once their PaymentRouter payment completes,
+   * with the given account sending complete_payment and refund_payment
+   */
+  enableConditionalDeposits(account: AccountInterface): ConditionalDepositService {
+    const address = this.config.starknet?.paymentRouterAddress
+    if (!address) {
+      throw new Error('Conditional deposits need the PaymentRouter address (NEXT_PUBLIC_PAYMENT_ROUTER_ADDRESS)')
+    }
+
+    this.conditionalDeposits?.stop()
+    this.conditionalDeposits = new HoldInvoiceOrchestrator(
+      this.lightning,
+      new PaymentRouterContract({ address, account }),
+      {},
+      new LocalStorageConditionalDepositStore(CONDITIONAL_DEPOSITS_KEY)
+    )
+    return this.conditionalDeposits
   }
 
   /**
@@ -54,7 +114,7 @@ export class AtomiqSDKImplementation implements AtomiqSDK {
   async initialize(): Promise<void> {
     try {
       // Test Bitcoin service
-      await this.bitcoin.generateAddress()
+      await this.bitcoin.generateAddress(HEALTH_CHECK_ADDRESS_OWNER)
 
       // Test Lightning service if configured
       if (this.config.lightning) {
@@ -102,7 +162,7 @@ export class AtomiqSDKImplementation implements AtomiqSDK {
 
     try {
       // Test Bitcoin service
-      await this.bitcoin.generateAddress()
+      await this.bitcoin.generateAddress(HEALTH_CHECK_ADDRESS_OWNER)
       status.services.bitcoin = true
     } catch (error) {
       console.error('Bitcoin service health check failed:', error)
@@ -162,30 +222,8 @@ export class AtomiqSDKImplementation implements AtomiqSDK {
  * Create and configure the Atomiq SDK
  */
 export function createAtomiqSDK(config?: Partial<AtomiqConfig>): AtomiqSDK {
-  const defaultConfig: AtomiqConfig = {
-    apiUrl: process.env.NEXT_PUBLIC_ATOMIQ_API_URL || 'https://api.atomiq.com',
-    apiKey: process.env.NEXT_PUBLIC_ATOMIQ_API_KEY || '',
-    network: (process.env.NEXT_PUBLIC_ATOMIQ_NETWORK as 'mainnet' | 'testnet') || 'testnet',
-    bitcoin: {
-      rpcUrl: process.env.NEXT_PUBLIC_BITCOIN_RPC_URL || 'https://blockstream.info/testnet/api',
-      network: (process.env.NEXT_PUBLIC_BITCOIN_NETWORK as 'mainnet' | 'testnet') || 'testnet'
-    },
-    lightning: {
-      rpcUrl: process.env.NEXT_PUBLIC_LIGHTNING_RPC_URL || '',
-      macaroon: process.env.NEXT_PUBLIC_LIGHTNING_MACAROON || '',
-      cert: process.env.NEXT_PUBLIC_LIGHTNING_CERT || ''
-    },
-    starknet: {
-      network: (process.env.NEXT_PUBLIC_STARKNET_NETWORK as 'mainnet' | 'testnet') || 'testnet',
-      rpcUrl: process.env.NEXT_PUBLIC_STARKNET_RPC_URL || 'https://starknet-testnet.infura.io/v3/your_infura_key'
-    },
-    bridge: {
-      apiUrl: process.env.NEXT_PUBLIC_BRIDGE_API_URL || 'https://bridge.atomiq.com',
-      contractAddress: process.env.NEXT_PUBLIC_BRIDGE_CONTRACT_ADDRESS || ''
-    }
-  }
-
-  const finalConfig = { ...defaultConfig, ...config }
+  // The same environment variables loadAtomiqConfig reads, multisig custody included
+  const finalConfig = { ...readAtomiqConfig(), ...config }
   return new AtomiqSDKImplementation(finalConfig)
 }
 
@@ -3,42 +3,134 @@ import {
   BitcoinAddress,
   BitcoinBalance,
   BitcoinTransaction,
+  PsbtSigner,
+  MultisigSession,
+  CreateTransactionOptions,
+  PaymentOutput,
+  ConsolidationOptions,
+  ConsolidationPlan,
+  ConsolidationProposal,
+  FeeEstimates,
+  FeeBumpOptions,
+  FeeBumpPreview,
+  FeeBumpResult,
+  TransactionHistoryPage,
+  AddressEvent,
+  AtomiqConfig,
   AtomiqError,
   ApiResponse
 } from '@/types/atomiq'
 import * as bitcoin from 'bitcoinjs-lib'
+import { bytesToHex } from '@noble/hashes/utils.js'
+import {
+  HDWallet,
+  AddressIndexStore,
+  BitcoinNetworkName,
+  DEFAULT_GAP_LIMIT,
+  DerivationChain,
+  WalletAddressType,
+  toBitcoinNetwork
+} from './bitcoin/hdWallet'
+import { FinalizedPsbt, finalizePsbt } from './bitcoin/psbtSigner'
+import { AddressMonitor, AddressMonitorOptions } from './bitcoin/addressMonitor'
+import { ChainBackend, Utxo } from './bitcoin/chainBackend'
+import { EsploraBackend } from './bitcoin/esplora'
+import { EsploraPool } from './bitcoin/esploraPool'
+import { readHistoryPage } from './bitcoin/history'
+import { BitcoinCoreBackend } from './bitcoin/bitcoinCore'
+import { ElectrumBackend } from './bitcoin/electrum'
+import { FeeEstimator, ScriptType, esploraScriptType, estimateVsize, scriptTypeForAddress } from './bitcoin/feeEstimator'
+import { DEFAULT_LONG_TERM_FEE_RATE, SelectableUtxo, dustLimitFor, inputShape, selectCoins } from './bitcoin/coinSelection'
+import { planConsolidationBatches } from './bitcoin/consolidation'
+import { MultisigSigningSession, MultisigWallet } from './bitcoin/multisig'
+import { DescriptorWallet, WalletDescriptors, walletDescriptors, walletFromDescriptor } from './bitcoin/descriptors'
+import {
+  FeeBumpPlan,
+  RBF_SEQUENCE,
+  planChildPaysForParent,
+  planReplacement,
+  signalsRbf,
+  transactionFeeRate
+} from './bitcoin/feeBump'
+
+// Key-path spends we can build without a redeem or witness script; multisig addresses bring their own
+const SPENDABLE_SCRIPT_TYPES: ScriptType[] = ['p2wpkh', 'p2tr']
+
+export interface BitcoinServiceOptions {
+  backend?: ChainBackend // defaults to Esplora at the service's rpcUrl
+  xpub?: string
+  descriptor?: string // watch-only wallet from an output descriptor, in place of xpub or multisig
+  gapLimit?: number
+  addressType?: WalletAddressType // p2wpkh (BIP84) unless set to p2tr (BIP86)
+  addressIndexStore?: AddressIndexStore
+  multisig?: MultisigWallet // custody wallet whose spends need cosigner signatures
+  signer?: PsbtSigner
+  feeEstimator?: FeeEstimator
+  monitor?: AddressMonitorOptions
+}
+
+export interface WalletDiscovery {
+  receive: number // addresses found with history on the receive chain
+  change: number
+}
 
 export class BitcoinServiceImplementation implements BitcoinService {
-  private rpcUrl: string
+  private backend: ChainBackend
   private network: bitcoin.Network
-  private addressWatchers: Map<string, (tx: BitcoinTransaction) => void> = new Map()
-
-  constructor(rpcUrl: string, network: 'mainnet' | 'testnet' = 'testnet') {
-    this.rpcUrl = rpcUrl
-    this.network = network === 'mainnet' ? bitcoin.networks.bitcoin : bitcoin.networks.testnet
+  private hdWallet: HDWallet | null
+  private multisig: MultisigWallet | null
+  private wallet: DescriptorWallet | null
+  private gapLimit: number
+  private signer: PsbtSigner | null
+  private feeEstimator: FeeEstimator
+  private signedPsbts: Map<string, string> = new Map()
+  private spendAddresses: Set<string> = new Set()
+  private addressMonitor: AddressMonitor
+
+  constructor(
+    rpcUrl: string,
+    network: BitcoinNetworkName = 'testnet',
+    options: BitcoinServiceOptions = {}
+  ) {
+    this.backend = options.backend || new EsploraBackend(rpcUrl)
+    this.network = toBitcoinNetwork(network)
+    const descriptorWallet = options.descriptor
+      ? walletFromDescriptor(options.descriptor, network, { gapLimit: options.gapLimit, store: options.addressIndexStore })
+      : null
+    this.hdWallet = descriptorWallet instanceof HDWallet
+      ? descriptorWallet
+      : options.xpub
+        ? new HDWallet(
+          { xpub: options.xpub, network, gapLimit: options.gapLimit, addressType: options.addressType },
+          options.addressIndexStore
+        )
+        : null
+    this.multisig = descriptorWallet instanceof MultisigWallet ? descriptorWallet : options.multisig || null
+    // The wallet that descriptor export, discovery and whole-wallet spends act on
+    this.wallet = descriptorWallet || this.hdWallet || this.multisig
+    this.gapLimit = options.gapLimit || DEFAULT_GAP_LIMIT
+    this.signer = options.signer || null
+    this.feeEstimator = options.feeEstimator || new FeeEstimator(() => this.backend.getFeeRates())
+    this.addressMonitor = new AddressMonitor(this.backend, options.monitor)
   }
 
   /**
-   * Generate a new Bitcoin address for deposits
+   * Derive a deposit address from the configured xpub or custody wallet. With a userId the same
+   * address is returned until it is funded; without one a fresh unassigned address is issued.
    */
-  async generateAddress(): Promise<BitcoinAddress> {
+  async generateAddress(userId?: string): Promise<BitcoinAddress> {
     try {
-      const keyPair = bitcoin.ECPair.makeRandom({ network: this.network })
-      const { address } = bitcoin.payments.p2wpkh({
-        pubkey: keyPair.publicKey,
-        network: this.network
-      })
-
-      if (!address) {
-        throw new Error('Failed to generate Bitcoin address')
+      // A multisig address has no single key; its witness script (or tapscript leaf) stands in
+      if (!this.hdWallet && this.wallet instanceof MultisigWallet) {
+        const { address, script, chain, index } = userId ? this.wallet.getDepositAddress(userId) : this.wallet.getNextAddress()
+        return { address, publicKey: script, path: `${chain}/${index}` }
       }
 
-      return {
-        address,
-        publicKey: keyPair.publicKey.toString('hex'),
-        privateKey: keyPair.toWIF(),
-        path: `m/84'/1'/0'/0/0` // Standard BIP84 path for P2WPKH
+      if (!this.hdWallet) {
+        throw new Error('No extended public key configured for address derivation')
       }
+
+      return userId ? this.hdWallet.getDepositAddress(userId) : this.hdWallet.getNextAddress()
     } catch (error) {
       throw this.handleError('BITCOIN_ADDRESS_GENERATION_FAILED', error)
     }
@@ -49,17 +141,7 @@ export class BitcoinServiceImplementation implements BitcoinService {
    */
   async getBalance(address: string): Promise<BitcoinBalance> {
     try {
-      const response = await fetch(`${this.rpcUrl}/address/${address}`)
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const data = await response.json()
-      const chain_stats = data.chain_stats || {}
-      const mempool_stats = data.mempool_stats || {}
-
-      const confirmed = chain_stats.funded_txo_sum - chain_stats.spent_txo_sum
-      const unconfirmed = mempool_stats.funded_txo_sum - mempool_stats.spent_txo_sum
+      const { confirmed, unconfirmed } = await this.backend.getBalance(address)
       const total = confirmed + unconfirmed
 
       return {
@@ -73,266 +155,617 @@ export class BitcoinServiceImplementation implements BitcoinService {
   }
 
   /**
-   * Create a Bitcoin transaction
+   * Total balance across every address issued by the configured wallet
+   */
+  async getWalletBalance(): Promise<BitcoinBalance> {
+    try {
+      let confirmed = 0
+      let unconfirmed = 0
+      for (const address of this.walletAddresses()) {
+        const balance = await this.backend.getBalance(address)
+        confirmed += balance.confirmed
+        unconfirmed += balance.unconfirmed
+      }
+
+      return {
+        confirmed: confirmed / 100000000,
+        unconfirmed: unconfirmed / 100000000,
+        total: (confirmed + unconfirmed) / 100000000
+      }
+    } catch (error) {
+      throw this.handleError('BITCOIN_BALANCE_FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Export the wallet's receive and change output descriptors
+   */
+  exportDescriptors(): WalletDescriptors {
+    try {
+      if (!this.wallet) {
+        throw new Error('No wallet configured')
+      }
+
+      return walletDescriptors(this.wallet)
+    } catch (error) {
+      throw this.handleError('BITCOIN_DESCRIPTOR_EXPORT_FAILED', error)
+    }
+  }
+
+  /**
+   * Restore a watch-only wallet's address indexes by scanning each chain until `gapLimit` unused
+   * addresses in a row. Backends that watch per wallet import the descriptors first.
+   */
+  async discoverWallet(options: { rescanSince?: number } = {}): Promise<WalletDiscovery> {
+    try {
+      const wallet = this.wallet
+      if (!wallet) {
+        throw new Error('No wallet configured')
+      }
+
+      if (this.backend.importDescriptors) {
+        const { receive, change } = walletDescriptors(wallet)
+        const timestamp = options.rescanSince ?? 'now'
+        await this.backend.importDescriptors([
+          { descriptor: receive, internal: false, range: wallet.getIssuedAddresses(0).length + this.gapLimit, timestamp },
+          { descriptor: change, internal: true, range: wallet.getIssuedAddresses(1).length + this.gapLimit, timestamp }
+        ])
+      }
+
+      return {
+        receive: await this.scanChain(wallet, 0),
+        change: await this.scanChain(wallet, 1)
+      }
+    } catch (error) {
+      throw this.handleError('BITCOIN_WALLET_DISCOVERY_FAILED', error)
+    }
+  }
+
+  /**
+   * Create an unsigned Bitcoin transaction, paying the fee rate of the requested tier. Without a
+   * source address it spends from every address the configured wallet has issued.
    */
   async createTransaction(
     to: string,
     amount: number,
-    fromAddress?: string
+    fromAddress?: string,
+    options: CreateTransactionOptions = {}
+  ): Promise<BitcoinTransaction> {
+    return this.createBatchTransaction([{ address: to, amount }], fromAddress, options)
+  }
+
+  /**
+   * Create one unsigned transaction paying many recipients, with outputs in the order given so
+   * payment `i` is output `i`. Change, if any, comes after them.
+   */
+  async createBatchTransaction(
+    payments: PaymentOutput[],
+    fromAddress?: string,
+    options: CreateTransactionOptions = {}
   ): Promise<BitcoinTransaction> {
     try {
-      if (!fromAddress) {
-        throw new Error('Source address is required for creating transactions')
+      if (payments.length === 0) {
+        throw new Error('A transaction needs at least one payment')
+      }
+
+      const sourceAddresses = fromAddress
+        ? Array.from(new Set([fromAddress, ...(options.sourceAddresses || [])]))
+        : this.walletAddresses()
+      if (sourceAddresses.length === 0) {
+        throw new Error(this.wallet
+          ? 'The wallet has not issued any addresses to spend from'
+          : 'Source address is required for creating transactions')
       }
 
-      // Get UTXOs for the source address
-      const utxos = await this.getUTXOs(fromAddress)
+      const outputs = payments.map(payment => {
+        const value = Math.round(payment.amount * 100000000)
+        const type = scriptTypeForAddress(payment.address, this.network)
+        if (value < dustLimitFor(type)) {
+          throw new Error(`Amount is below the ${dustLimitFor(type)} sat dust limit for ${type} outputs`)
+        }
+        return { address: payment.address, value, type }
+      })
+      const feeRate = options.feeRate ?? await this.feeEstimator.getFeeRate(options.feeTier || 'normal')
+      const changeAddress = this.getChangeAddress(sourceAddresses[0])
+      const changeType = scriptTypeForAddress(changeAddress, this.network)
 
-      // Calculate required amount including fees
-      const satoshis = Math.floor(amount * 100000000)
-      const fee = Math.ceil(this.estimateFee(utxos.length, 2) * 100000000)
-      const totalRequired = satoshis + fee
+      // Get UTXOs for every address we may spend from
+      const utxos = await this.getSpendableUtxos(sourceAddresses)
 
       // Select UTXOs
-      const selectedUTXOs = this.selectUTXOs(utxos, totalRequired)
-      if (selectedUTXOs.length === 0) {
-        throw new Error('Insufficient balance')
+      const selection = selectCoins({
+        utxos,
+        amount: outputs.reduce((sum, output) => sum + output.value, 0),
+        outputTypes: outputs.map(output => output.type),
+        changeType,
+        feeRate
+      }, options.coinSelection || 'auto')
+
+      // Add change output if the selection left enough over to be worth one
+      if (selection.change > 0) {
+        outputs.push({ address: changeAddress, value: selection.change, type: changeType })
       }
 
-      // Create PSBT (Partially Signed Bitcoin Transaction)
-      const psbt = new bitcoin.Psbt({ network: this.network })
-
-      // Add inputs
-      for (const utxo of selectedUTXOs) {
-        psbt.addInput({
-          hash: utxo.txid,
-          index: utxo.vout,
-          witnessUtxo: {
-            script: Buffer.from(utxo.scriptPubKey, 'hex'),
-            value: utxo.value
-          }
-        })
+      return {
+        ...this.buildTransaction(selection.inputs, outputs, selection.fee, feeRate),
+        coinSelection: {
+          strategy: selection.strategy,
+          waste: selection.waste,
+          changeless: selection.change === 0
+        }
       }
+    } catch (error) {
+      throw this.handleError('BITCOIN_TRANSACTION_CREATION_FAILED', error)
+    }
+  }
 
-      // Add output
-      psbt.addOutput({
-        address: to,
-        value: satoshis
+  /**
+   * Propose transactions merging the wallet's small UTXOs while fees are low, so later payments
+   * spend fewer inputs. Each proposal carries an unsigned PSBT for `signTransaction` or
+   * `sendTransaction`, and lists the addresses it would link on-chain.
+   */
+  async planConsolidation(options: ConsolidationOptions = {}): Promise<ConsolidationPlan> {
+    try {
+      const addresses = options.addresses || this.walletAddresses()
+      if (addresses.length === 0) {
+        throw new Error('No addresses to consolidate')
+      }
+
+      const feeRate = options.feeRate ?? await this.feeEstimator.getFeeRate(options.feeTier || 'economy')
+      const longTermFeeRate = options.longTermFeeRate ?? DEFAULT_LONG_TERM_FEE_RATE
+      const batches = planConsolidationBatches({
+        utxos: await this.getSpendableUtxos(addresses),
+        // Change stays with the wallet that owns the address, so it keeps the address's script type
+        outputType: scriptTypeForAddress(addresses[0], this.network),
+        feeRate,
+        longTermFeeRate,
+        maxInputs: options.maxInputs,
+        linkAddresses: options.linkAddresses
       })
 
-      // Add change output if needed
-      const totalInput = selectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0)
-      const change = totalInput - totalRequired
-      if (change > 546) { // Dust limit
-        psbt.addOutput({
-          address: fromAddress,
-          value: change
-        })
+      // Each proposal pays a different change address, none of them taken until it is signed
+      const proposals: ConsolidationProposal[] = batches.map((batch, index) => {
+        const destination = this.getChangeAddress(batch.addresses[0], index)
+        return {
+          transaction: this.buildTransaction(batch.inputs, [{ address: destination, value: batch.value }], batch.fee, feeRate),
+          inputCount: batch.inputs.length,
+          amount: batch.value / 100000000,
+          fee: batch.fee / 100000000,
+          projectedSavings: batch.savings / 100000000,
+          linkedAddresses: batch.addresses.length > 1 ? batch.addresses : []
+        }
+      })
+
+      return {
+        feeRate,
+        longTermFeeRate,
+        proposals,
+        projectedSavings: batches.reduce((sum, batch) => sum + batch.savings, 0) / 100000000,
+        fee: batches.reduce((sum, batch) => sum + batch.fee, 0) / 100000000,
+        linkedAddresses: new Set(proposals.flatMap(proposal => proposal.linkedAddresses)).size
       }
+    } catch (error) {
+      throw this.handleError('BITCOIN_CONSOLIDATION_PLAN_FAILED', error)
+    }
+  }
 
-      // Calculate and set fee
-      const actualFee = totalInput - satoshis - (change > 546 ? change : 0)
-      const virtualSize = Math.ceil(psbt.extractTransaction().virtualSize() / 4) * 4
+  /**
+   * Sign a transaction's PSBT with the given signer (or the configured one) and finalize it
+   */
+  async signTransaction(transaction: BitcoinTransaction, signer?: PsbtSigner): Promise<BitcoinTransaction> {
+    try {
+      if (!transaction.psbt) {
+        throw new Error('Transaction has no PSBT to sign')
+      }
+
+      const finalized = await this.signPsbt(transaction.psbt, signer)
 
       return {
-        txid: '', // Will be set after broadcasting
-        version: psbt.tx.getVersion(),
-        locktime: psbt.tx.locktime,
-        vin: selectedUTXOs.map(utxo => ({
-          txid: utxo.txid,
-          vout: utxo.vout,
-          scriptsig: '',
-          scriptsig_asm: '',
-          prevout: {
-            scriptpubkey: utxo.scriptPubKey,
-            scriptpubkey_asm: '',
-            scriptpubkey_type: 'witness_v0_keyhash',
-            value: utxo.value
-          }
-        })),
-        vout: psbt.tx.outs.map(output => ({
-          scriptpubkey: output.script.toString('hex'),
-          scriptpubkey_asm: '',
-          scriptpubkey_type: 'witness_v0_keyhash',
-          value: output.value
-        })),
-        size: virtualSize,
-        fee: actualFee / 100000000,
-        status: {
-          confirmed: false
-        }
+        ...transaction,
+        txid: finalized.txid,
+        size: finalized.vsize,
+        psbt: finalized.psbt,
+        hex: finalized.hex
       }
     } catch (error) {
-      throw this.handleError('BITCOIN_TRANSACTION_CREATION_FAILED', error)
+      throw this.handleError('BITCOIN_TRANSACTION_SIGNING_FAILED', error)
+    }
+  }
+
+  /**
+   * Start collecting cosigner signatures for a transaction that spends custody funds
+   */
+  startMultisigSigning(transaction: BitcoinTransaction): MultisigSigningSession {
+    try {
+      if (!this.multisig) {
+        throw new Error('No multisig wallet configured')
+      }
+      if (!transaction.psbt) {
+        throw new Error('Transaction has no PSBT to sign')
+      }
+
+      return new MultisigSigningSession(this.multisig, transaction.psbt)
+    } catch (error) {
+      throw this.handleError('BITCOIN_TRANSACTION_SIGNING_FAILED', error)
     }
   }
 
   /**
-   * Send a signed Bitcoin transaction
+   * Finalize a multisig spend once enough cosigners have signed; pass the result to sendTransaction
    */
-  async sendTransaction(transaction: BitcoinTransaction): Promise<string> {
+  completeMultisigSigning(transaction: BitcoinTransaction, session: MultisigSigningSession): BitcoinTransaction {
     try {
-      // In a real implementation, you would sign the transaction here
-      // For now, we'll simulate the broadcast
+      const finalized = session.finalize()
+      this.recordFinalized(finalized)
 
-      const response = await fetch(`${this.rpcUrl}/tx`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ tx: transaction })
-      })
+      return {
+        ...transaction,
+        txid: finalized.txid,
+        size: finalized.vsize,
+        psbt: finalized.psbt,
+        hex: finalized.hex
+      }
+    } catch (error) {
+      throw this.handleError('BITCOIN_TRANSACTION_SIGNING_FAILED', error)
+    }
+  }
+
+  /**
+   * Sign (if needed) and broadcast a transaction, returning its txid
+   */
+  async sendTransaction(transaction: BitcoinTransaction, signer?: PsbtSigner): Promise<string> {
+    const signed = transaction.hex ? transaction : await this.signTransaction(transaction, signer)
+    if (!signed.hex) {
+      throw this.handleError('BITCOIN_TRANSACTION_SEND_FAILED', new Error('Transaction is not finalized'))
+    }
 
-      if (!response.ok) {
-        throw new Error(`Transaction broadcast failed: ${response.statusText}`)
+    return this.broadcastTransaction(signed.hex)
+  }
+
+  /**
+   * Broadcast a raw transaction hex
+   */
+  async broadcastTransaction(hex: string): Promise<string> {
+    try {
+      const txid = await this.backend.broadcastTransaction(hex)
+
+      // Change that went out moves the internal chain's gap window along
+      for (const address of this.outputAddresses(hex)) {
+        this.hdWallet?.markAddressUsed(address)
+        this.multisig?.markAddressUsed(address)
       }
 
-      const result = await response.json()
-      return result.txid
+      return txid
     } catch (error) {
       throw this.handleError('BITCOIN_TRANSACTION_SEND_FAILED', error)
     }
   }
 
+  /**
+   * Work out what speeding up a pending transaction would cost, without signing anything
+   */
+  async previewFeeBump(txid: string, options: FeeBumpOptions = {}): Promise<FeeBumpPreview> {
+    try {
+      const { psbt, ...preview } = await this.planFeeBump(txid, options)
+      return preview
+    } catch (error) {
+      throw this.handleError('BITCOIN_FEE_BUMP_FAILED', error)
+    }
+  }
+
+  /**
+   * Speed up a pending transaction by replacing it (RBF) or spending its change in a child (CPFP)
+   */
+  async bumpFee(txid: string, options: FeeBumpOptions = {}, signer?: PsbtSigner): Promise<FeeBumpResult> {
+    try {
+      const { psbt, ...preview } = await this.planFeeBump(txid, options)
+      const finalized = await this.signPsbt(psbt, signer)
+      const newTxid = await this.broadcastTransaction(finalized.hex)
+
+      return { ...preview, newTxid }
+    } catch (error) {
+      throw this.handleError('BITCOIN_FEE_BUMP_FAILED', error)
+    }
+  }
+
+  /**
+   * Get current fee rates for the economy, normal and priority tiers
+   */
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    try {
+      return await this.feeEstimator.getFeeEstimates()
+    } catch (error) {
+      throw this.handleError('BITCOIN_FEE_ESTIMATION_FAILED', error)
+    }
+  }
+
+  /**
+   * Get the signed PSBT kept for a transaction this service signed
+   */
+  getSignedPsbt(txid: string): string | undefined {
+    return this.signedPsbts.get(txid)
+  }
+
   /**
    * Get transaction details by TXID
    */
   async getTransaction(txid: string): Promise<BitcoinTransaction> {
     try {
-      const response = await fetch(`${this.rpcUrl}/tx/${txid}`)
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
+      return await this.backend.getTransaction(txid)
+    } catch (error) {
+      throw this.handleError('BITCOIN_TRANSACTION_FETCH_FAILED', error)
+    }
+  }
 
-      const data = await response.json()
-      return {
-        txid: data.txid,
-        version: data.version,
-        locktime: data.locktime,
-        vin: data.vin.map((input: any) => ({
-          txid: input.txid,
-          vout: input.vout,
-          scriptsig: input.scriptsig || '',
-          scriptsig_asm: input.scriptsig_asm || '',
-          witness: input.witness || [],
-          prevout: input.prevout
-        })),
-        vout: data.vout.map((output: any) => ({
-          scriptpubkey: output.scriptpubkey,
-          scriptpubkey_asm: output.scriptpubkey_asm,
-          scriptpubkey_type: output.scriptpubkey_type,
-          value: output.value
-        })),
-        size: data.size,
-        fee: data.fee ? data.fee / 100000000 : 0,
-        status: {
-          confirmed: data.status?.confirmed || false,
-          block_height: data.status?.block_height,
-          block_hash: data.status?.block_hash,
-          block_time: data.status?.block_time
-        }
-      }
+  async getTransactionStatus(txid: string): Promise<BitcoinTransaction['status'] | null> {
+    try {
+      return await this.backend.getTransactionStatus(txid)
     } catch (error) {
       throw this.handleError('BITCOIN_TRANSACTION_FETCH_FAILED', error)
     }
   }
 
   /**
-   * Monitor an address for new transactions
+   * The transaction spending an outpoint, in the mempool or a block. Backends that cannot look spends up
+   * (Electrum) always answer null.
    */
-  monitorAddress(address: string, callback: (tx: BitcoinTransaction) => void): void {
-    this.addressWatchers.set(address, callback)
+  async getSpendingTransaction(txid: string, vout: number): Promise<string | null> {
+    try {
+      return this.backend.getSpendingTransaction ? await this.backend.getSpendingTransaction(txid, vout) : null
+    } catch (error) {
+      throw this.handleError('BITCOIN_TRANSACTION_FETCH_FAILED', error)
+    }
+  }
 
-    // Start monitoring in the background
-    this.startAddressMonitoring(address, callback)
+  /**
+   * A page of on-chain history for `addresses`, newest first, each transaction classified against
+   * them and the wallet's own addresses. Pass the returned cursor back for the next page.
+   */
+  async getTransactionHistory(addresses: string[], cursor?: string | null): Promise<TransactionHistoryPage> {
+    try {
+      const ownAddresses = new Set([...addresses, ...this.walletAddresses(), ...Array.from(this.spendAddresses)])
+      return await readHistoryPage(this.backend, addresses, ownAddresses, cursor)
+    } catch (error) {
+      throw this.handleError('BITCOIN_HISTORY_FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Watch an address for transaction events; returns a function that stops this listener
+   */
+  monitorAddress(address: string, listener: (event: AddressEvent) => void): () => void {
+    return this.addressMonitor.watch(address, event => {
+      if (event.type !== 'dropped') {
+        this.hdWallet?.markAddressUsed(address)
+        this.multisig?.markAddressUsed(address)
+      }
+      listener(event)
+    })
   }
 
   /**
    * Stop monitoring an address
    */
   stopMonitoringAddress(address: string): void {
-    this.addressWatchers.delete(address)
+    this.addressMonitor.unwatch(address)
   }
 
   // Private helper methods
 
-  private async getUTXOs(address: string): Promise<any[]> {
+  private async getUTXOs(address: string): Promise<Utxo[]> {
     try {
-      const response = await fetch(`${this.rpcUrl}/address/${address}/utxo`)
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const data = await response.json()
-      return data || []
+      return await this.backend.getUtxos(address)
     } catch (error) {
       throw this.handleError('BITCOIN_UTXO_FETCH_FAILED', error)
     }
   }
 
-  private selectUTXOs(utxos: any[], amount: number): any[] {
-    let selected: any[] = []
-    let total = 0
+  // UTXOs of addresses we know how to spend from, tagged with what their inputs weigh
+  private async getSpendableUtxos(addresses: string[]): Promise<SelectableUtxo[]> {
+    addresses.forEach(address => this.spendAddresses.add(address))
+    const utxos: SelectableUtxo[] = []
+    for (const address of addresses) {
+      const scriptType = scriptTypeForAddress(address, this.network)
+      const multisigAddress = this.multisig?.findAddress(address)
+      if (!multisigAddress && !SPENDABLE_SCRIPT_TYPES.includes(scriptType)) {
+        throw new Error(`Spending from ${scriptType} addresses is not supported`)
+      }
+      const inputWeight = multisigAddress ? this.multisig!.inputWeight() : undefined
+      for (const utxo of await this.getUTXOs(address)) {
+        utxos.push({ txid: utxo.txid, vout: utxo.vout, value: utxo.value, address, scriptType, inputWeight })
+      }
+    }
 
-    // Sort UTXOs by amount (descending) for efficiency
-    const sortedUTXOs = utxos.sort((a, b) => b.value - a.value)
+    return utxos
+  }
 
-    for (const utxo of sortedUTXOs) {
-      selected.push(utxo)
-      total += utxo.value
+  // Unsigned transaction spending the inputs to the outputs, with a PSBT carrying what signers need
+  private buildTransaction(
+    inputs: SelectableUtxo[],
+    outputs: { address: string; value: number }[],
+    fee: number,
+    feeRate: number
+  ): BitcoinTransaction {
+    // Create PSBT (Partially Signed Bitcoin Transaction)
+    const psbt = new bitcoin.Psbt({ network: this.network })
+
+    // Add inputs; backends report UTXOs without their script, so rebuild it from the owning address
+    const inputScripts = inputs.map(utxo => bitcoin.address.toOutputScript(utxo.address, this.network))
+    inputs.forEach((utxo, index) => {
+      psbt.addInput({
+        hash: utxo.txid,
+        index: utxo.vout,
+        sequence: RBF_SEQUENCE, // Always signal replace-by-fee so stuck payments can be bumped
+        witnessUtxo: {
+          script: inputScripts[index],
+          value: BigInt(utxo.value)
+        },
+        ...this.inputFields(utxo.address)
+      })
+    })
 
-      if (total >= amount) {
-        break
-      }
-    }
+    outputs.forEach(output => {
+      psbt.addOutput({
+        address: output.address,
+        value: BigInt(output.value)
+      })
+    })
+
+    const vsize = estimateVsize(
+      inputs.map(inputShape),
+      outputs.map(output => scriptTypeForAddress(output.address, this.network))
+    )
 
-    return total >= amount ? selected : []
+    return {
+      txid: '', // Known once the PSBT has been signed and finalized
+      version: psbt.version,
+      locktime: psbt.locktime,
+      vin: inputs.map((utxo, index) => ({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        scriptsig: '',
+        scriptsig_asm: '',
+        sequence: RBF_SEQUENCE,
+        prevout: {
+          scriptpubkey: bytesToHex(inputScripts[index]),
+          scriptpubkey_asm: '',
+          scriptpubkey_type: esploraScriptType(inputScripts[index]),
+          scriptpubkey_address: utxo.address,
+          value: utxo.value
+        }
+      })),
+      vout: psbt.txOutputs.map(output => ({
+        scriptpubkey: bytesToHex(output.script),
+        scriptpubkey_asm: '',
+        scriptpubkey_type: esploraScriptType(output.script),
+        scriptpubkey_address: output.address,
+        value: Number(output.value)
+      })),
+      size: vsize,
+      fee: fee / 100000000,
+      feeRate,
+      status: {
+        confirmed: false
+      },
+      psbt: psbt.toBase64()
+    }
   }
 
-  private estimateFee(inputs: number, outputs: number): number {
-    // Simple fee estimation (in BTC per byte)
-    // In production, use a proper fee estimation API
-    const baseSize = 10 + inputs * 148 + outputs * 34
-    const witnessSize = inputs * 27 + inputs * 1 + 2
-    const virtualSize = Math.ceil((baseSize * 3 + witnessSize) / 4)
+  private async signPsbt(psbtBase64: string, signer?: PsbtSigner): Promise<FinalizedPsbt> {
+    const activeSigner = signer || this.signer
+    if (!activeSigner) {
+      throw new Error('No PSBT signer configured')
+    }
+
+    const signedPsbt = await activeSigner.signPsbt(psbtBase64)
+    const finalized = finalizePsbt(signedPsbt, this.network)
+    this.recordFinalized(finalized)
 
-    // Assume 1 sat/byte for testnet, adjust based on network conditions
-    return virtualSize * 0.00000001
+    return finalized
   }
 
-  private async startAddressMonitoring(
-    address: string,
-    callback: (tx: BitcoinTransaction) => void
-  ): Promise<void> {
-    const checkInterval = 30000 // 30 seconds
+  private recordFinalized(finalized: FinalizedPsbt): void {
+    // Keep the signed PSBT so the exact signed transaction can be audited later
+    this.signedPsbts.set(finalized.txid, finalized.psbt)
 
-    const checkTransactions = async () => {
-      if (!this.addressWatchers.has(address)) {
-        return // Stop monitoring if no longer watching
-      }
+    // Change addresses are only taken once a finalized transaction actually pays to them
+    for (const address of this.outputAddresses(finalized.hex)) {
+      this.hdWallet?.reserveChangeAddress(address)
+      this.multisig?.reserveChangeAddress(address)
+    }
+  }
 
-      try {
-        const response = await fetch(`${this.rpcUrl}/address/${address}/txs`)
-        if (response.ok) {
-          const transactions = await response.json()
-
-          // Process new transactions (implementation depends on specific requirements)
-          // This is a simplified version
-          for (const txData of transactions) {
-            const tx = await this.getTransaction(txData.txid)
-            callback(tx)
-          }
+  private outputAddresses(hex: string): string[] {
+    try {
+      return bitcoin.Transaction.fromHex(hex).outs.flatMap(output => {
+        try {
+          return [bitcoin.address.fromOutputScript(output.script, this.network)]
+        } catch {
+          return [] // OP_RETURN and other outputs without an address
         }
-      } catch (error) {
-        console.error('Error monitoring address:', error)
+      })
+    } catch {
+      return []
+    }
+  }
+
+  private async planFeeBump(txid: string, options: FeeBumpOptions): Promise<FeeBumpPlan> {
+    const tx = await this.getTransaction(txid)
+    if (tx.status.confirmed) {
+      throw new Error('Transaction is already confirmed')
+    }
+
+    const targetFeeRate = options.feeRate ?? await this.feeEstimator.getFeeRate(options.feeTier || 'priority')
+    if (targetFeeRate <= transactionFeeRate(tx)) {
+      throw new Error(`Transaction already pays at least ${targetFeeRate} sat/vB`)
+    }
+
+    const isOwnAddress = (address: string) => this.isOwnAddress(address)
+    const canReplace = signalsRbf(tx) &&
+      tx.vin.every(input => input.prevout?.scriptpubkey_address && isOwnAddress(input.prevout.scriptpubkey_address))
+    const method = options.method || (canReplace ? 'rbf' : 'cpfp')
+
+    if (method === 'rbf') {
+      return planReplacement(tx, targetFeeRate, isOwnAddress, this.network, address => this.inputFields(address))
+    }
+
+    const ownOutput = tx.vout.find(output => output.scriptpubkey_address && isOwnAddress(output.scriptpubkey_address))
+    if (!ownOutput) {
+      throw new Error('Transaction has no output this wallet controls')
+    }
+
+    const changeAddress = this.getChangeAddress(ownOutput.scriptpubkey_address!)
+    return planChildPaysForParent(tx, targetFeeRate, isOwnAddress, changeAddress, this.network, address => this.inputFields(address))
+  }
+
+  // What signers need to sign for an input spending one of our addresses
+  private inputFields(address: string) {
+    return this.multisig?.findAddress(address) ? this.multisig.inputFields(address) : this.hdWallet?.inputFields(address)
+  }
+
+  private isOwnAddress(address: string): boolean {
+    return this.spendAddresses.has(address) || !!this.hdWallet?.findAddress(address) || !!this.multisig?.findAddress(address)
+  }
+
+  private walletAddresses(): string[] {
+    if (!this.wallet) {
+      return []
+    }
+
+    const issued: { address: string }[] = [...this.wallet.getIssuedAddresses(0), ...this.wallet.getIssuedAddresses(1)]
+    return issued.map(({ address }) => address)
+  }
+
+  // Returns how many addresses on the chain have history
+  private async scanChain(wallet: DescriptorWallet, chain: DerivationChain): Promise<number> {
+    let used = 0
+    for (let index = 0, gap = 0; gap < this.gapLimit; index++) {
+      const { address } = wallet.deriveAddress(index, chain)
+      const history = await this.backend.getAddressTransactions(address)
+      if (history.length > 0) {
+        wallet.restoreIndex(index, chain)
+        used++
+        gap = 0
+      } else {
+        gap++
       }
+    }
+
+    return used
+  }
 
-      // Schedule next check
-      setTimeout(checkTransactions, checkInterval)
+  private getChangeAddress(fromAddress: string, offset = 0): string {
+    // Change from custody funds stays in custody
+    if (this.multisig?.findAddress(fromAddress)) {
+      return this.multisig.getChangeAddress(offset).address
     }
 
-    // Start monitoring
-    setTimeout(checkTransactions, checkInterval)
+    // Only route change to our internal chain when spending our own derived addresses
+    if (this.hdWallet?.findAddress(fromAddress)) {
+      return this.hdWallet.getChangeAddress(offset).address
+    }
+
+    return fromAddress
   }
 
   private handleError(code: string, error: any): AtomiqError {
@@ -348,27 +781,61 @@ export class BitcoinServiceImplementation implements BitcoinService {
 // Factory function to create Bitcoin service instance
 export function createBitcoinService(
   rpcUrl?: string,
-  network?: 'mainnet' | 'testnet'
+  network?: BitcoinNetworkName,
+  options: BitcoinServiceOptions = {}
 ): BitcoinService {
   const defaultRpcUrl = rpcUrl || process.env.NEXT_PUBLIC_BITCOIN_RPC_URL || 'https://blockstream.info/testnet/api'
-  const defaultNetwork = network || (process.env.NEXT_PUBLIC_BITCOIN_NETWORK as 'mainnet' | 'testnet') || 'testnet'
+  const defaultNetwork = network || (process.env.NEXT_PUBLIC_BITCOIN_NETWORK as BitcoinNetworkName) || 'testnet'
+  const xpub = options.xpub || process.env.NEXT_PUBLIC_BITCOIN_XPUB || undefined
+  const addressType = options.addressType || (process.env.NEXT_PUBLIC_BITCOIN_ADDRESS_TYPE as WalletAddressType) || undefined
 
-  return new BitcoinServiceImplementation(defaultRpcUrl, defaultNetwork)
+  return new BitcoinServiceImplementation(defaultRpcUrl, defaultNetwork, { ...options, xpub, addressType })
+}
+
+/**
+ * Build the chain backend selected in `AtomiqConfig.bitcoin`; Esplora unless told otherwise
+ */
+export function createChainBackend(config: NonNullable<AtomiqConfig['bitcoin']>): ChainBackend {
+  switch (config.backend || 'esplora') {
+    case 'esplora':
+      return config.esploraUrls?.length
+        ? new EsploraPool([config.rpcUrl, ...config.esploraUrls], config.esploraPool)
+        : new EsploraBackend(config.rpcUrl)
+    case 'core':
+      return new BitcoinCoreBackend({
+        url: config.rpcUrl,
+        wallet: config.wallet
+      })
+    case 'electrum':
+      return new ElectrumBackend({ url: config.rpcUrl, network: toBitcoinNetwork(config.network) })
+    default:
+      throw new Error(`Unknown Bitcoin backend: ${config.backend}`)
+  }
 }
 
 // Mock service for development and testing
 export class MockBitcoinService implements BitcoinService {
   private mockAddresses: BitcoinAddress[] = []
+  private sentTxids: Set<string> = new Set()
+  private userAddresses: Map<string, BitcoinAddress> = new Map()
+  private monitorIntervals: Map<string, ReturnType<typeof setInterval>> = new Map()
+
+  async generateAddress(userId?: string): Promise<BitcoinAddress> {
+    const existing = userId ? this.userAddresses.get(userId) : undefined
+    if (existing) {
+      return existing
+    }
 
-  async generateAddress(): Promise<BitcoinAddress> {
     const address = {
       address: `tb1q${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`,
       publicKey: `0x${Math.random().toString(16).substring(2, 66)}`,
-      privateKey: `L${Math.random().toString(36).substring(2, 52)}`,
       path: `m/84'/1'/0'/0/${this.mockAddresses.length}`
     }
 
     this.mockAddresses.push(address)
+    if (userId) {
+      this.userAddresses.set(userId, address)
+    }
     return address
   }
 
@@ -380,7 +847,12 @@ export class MockBitcoinService implements BitcoinService {
     }
   }
 
-  async createTransaction(to: string, amount: number, fromAddress?: string): Promise<BitcoinTransaction> {
+  async createTransaction(
+    to: string,
+    amount: number,
+    fromAddress?: string,
+    options: CreateTransactionOptions = {}
+  ): Promise<BitcoinTransaction> {
     return {
       txid: `mock_tx_${Date.now()}`,
       version: 1,
@@ -398,10 +870,80 @@ export class MockBitcoinService implements BitcoinService {
     }
   }
 
-  async sendTransaction(transaction: BitcoinTransaction): Promise<string> {
+  async createBatchTransaction(
+    payments: PaymentOutput[],
+    fromAddress?: string,
+    options: CreateTransactionOptions = {}
+  ): Promise<BitcoinTransaction> {
+    return {
+      txid: `mock_tx_${Date.now()}`,
+      version: 1,
+      locktime: 0,
+      vin: [],
+      vout: payments.map(payment => ({
+        scriptpubkey: '0014' + Math.random().toString(16).substring(2, 42),
+        scriptpubkey_asm: '',
+        scriptpubkey_type: 'witness_v0_keyhash',
+        scriptpubkey_address: payment.address,
+        value: payment.amount * 100000000
+      })),
+      size: 110 + 31 * payments.length,
+      fee: 0.00001,
+      status: { confirmed: false }
+    }
+  }
+
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    return {
+      economy: 2,
+      normal: 8,
+      priority: 20,
+      updatedAt: new Date()
+    }
+  }
+
+  async signTransaction(transaction: BitcoinTransaction, signer?: PsbtSigner): Promise<BitcoinTransaction> {
+    return {
+      ...transaction,
+      hex: transaction.hex || `mock_hex_${transaction.txid}`
+    }
+  }
+
+  async sendTransaction(transaction: BitcoinTransaction, signer?: PsbtSigner): Promise<string> {
+    this.sentTxids.add(transaction.txid)
     return transaction.txid
   }
 
+  startMultisigSigning(transaction: BitcoinTransaction): MultisigSession {
+    throw new Error('No multisig wallet configured')
+  }
+
+  completeMultisigSigning(transaction: BitcoinTransaction, session: MultisigSession): BitcoinTransaction {
+    throw new Error('No multisig wallet configured')
+  }
+
+  async broadcastTransaction(hex: string): Promise<string> {
+    return `mock_tx_${Date.now()}`
+  }
+
+  async previewFeeBump(txid: string, options: FeeBumpOptions = {}): Promise<FeeBumpPreview> {
+    return {
+      txid,
+      method: options.method || 'rbf',
+      currentFeeRate: 2,
+      targetFeeRate: options.feeRate || 20,
+      additionalFee: 0.00002538,
+      totalFee: 0.0000282
+    }
+  }
+
+  async bumpFee(txid: string, options: FeeBumpOptions = {}, signer?: PsbtSigner): Promise<FeeBumpResult> {
+    return {
+      ...await this.previewFeeBump(txid, options),
+      newTxid: `mock_tx_${Date.now()}`
+    }
+  }
+
   async getTransaction(txid: string): Promise<BitcoinTransaction> {
     return {
       txid,
@@ -420,11 +962,42 @@ export class MockBitcoinService implements BitcoinService {
     }
   }
 
-  monitorAddress(address: string, callback: (tx: BitcoinTransaction) => void): void {
-    // Mock monitoring - generate a fake transaction every 30 seconds
-    setInterval(async () => {
+  // Knows only what it was sent
+  async getTransactionStatus(txid: string): Promise<BitcoinTransaction['status'] | null> {
+    return this.sentTxids.has(txid) ? { confirmed: false } : null
+  }
+
+  async getSpendingTransaction(txid: string, vout: number): Promise<string | null> {
+    return null
+  }
+
+  async getTransactionHistory(addresses: string[], cursor?: string | null): Promise<TransactionHistoryPage> {
+    // Mock deposits only ever arrive through monitorAddress
+    return { transactions: [], cursor: null }
+  }
+
+  monitorAddress(address: string, listener: (event: AddressEvent) => void): () => void {
+    // Mock monitoring - report a fake mempool transaction every 30 seconds, one timer per address
+    this.stopMonitoringAddress(address)
+
+    const interval = setInterval(async () => {
       const mockTx = await this.getTransaction(`mock_tx_${Date.now()}`)
-      callback(mockTx)
+      listener({ type: 'mempool', address, txid: mockTx.txid, confirmations: 0, transaction: mockTx })
     }, 30000)
+    this.monitorIntervals.set(address, interval)
+
+    return () => {
+      if (this.monitorIntervals.get(address) === interval) {
+        this.stopMonitoringAddress(address)
+      }
+    }
+  }
+
+  stopMonitoringAddress(address: string): void {
+    const interval = this.monitorIntervals.get(address)
+    if (interval) {
+      clearInterval(interval)
+      this.monitorIntervals.delete(address)
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { AddressEvent, BitcoinTransaction } from '@/types/atomiq'
+import { AddressMonitor, AddressMonitorBackend, TransactionStatus } from '../addressMonitor'
+
+function tx(txid: string, status: TransactionStatus = { confirmed: false }): BitcoinTransaction {
+  return {
+    txid,
+    version: 2,
+    locktime: 0,
+    vin: [{ txid: 'ff', vout: 0, scriptsig: '', scriptsig_asm: '', sequence: 0xffffffff }],
+    vout: [{ value: 10000, scriptpubkey: '', scriptpubkey_asm: '', scriptpubkey_type: 'v0_p2wpkh', scriptpubkey_address: 'tb1qa' }],
+    size: 110,
+    fee: 0.00000110,
+    status
+  }
+}
+
+class FakeBackend implements AddressMonitorBackend {
+  tip = 100
+  history: Map<string, BitcoinTransaction[]> = new Map()
+  statuses: Map<string, TransactionStatus> = new Map()
+  spenders: Map<string, string> = new Map()
+  tipCalls = 0
+
+  async getAddressTransactions(address: string): Promise<BitcoinTransaction[]> {
+    return this.history.get(address) || []
+  }
+
+  async getTransactionStatus(txid: string): Promise<TransactionStatus | null> {
+    return this.statuses.get(txid) || null
+  }
+
+  async getSpendingTransaction(txid: string, vout: number): Promise<string | null> {
+    return this.spenders.get(`${txid}:${vout}`) || null
+  }
+
+  async getTipHeight(): Promise<number> {
+    this.tipCalls++
+    return this.tip
+  }
+}
+
+describe('AddressMonitor', () => {
+  let backend: FakeBackend
+  let monitor: AddressMonitor
+  let events: AddressEvent[]
+
+  beforeEach(() => {
+    backend = new FakeBackend()
+    monitor = new AddressMonitor(backend, { requiredConfirmations: 2, finalityDepth: 6 })
+    events = []
+  })
+
+  afterEach(() => {
+    monitor.stop()
+  })
+
+  it('should report a transaction once however many times it is polled', async () => {
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', event => events.push(event))
+
+    await monitor.poll()
+    await monitor.poll()
+
+    expect(events.map(event => event.type)).toEqual(['mempool'])
+    expect(events[0]).toMatchObject({ address: 'tb1qa', txid: 'aa', confirmations: 0 })
+  })
+
+  it('should report confirmation changes and the required depth once', async () => {
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', event => events.push(event))
+    await monitor.poll()
+
+    backend.history.set('tb1qa', [tx('aa', { confirmed: true, block_height: 100, block_hash: 'b100' })])
+    await monitor.poll()
+    backend.tip = 101
+    await monitor.poll()
+    backend.tip = 102
+    await monitor.poll()
+
+    expect(events.map(event => [event.type, event.confirmations])).toEqual([
+      ['mempool', 0],
+      ['confirmations', 1],
+      ['confirmations', 2],
+      ['confirmed', 2],
+      ['confirmations', 3]
+    ])
+  })
+
+  it('should report a reorg when the block hash changes', async () => {
+    backend.tip = 101
+    backend.history.set('tb1qa', [tx('aa', { confirmed: true, block_height: 100, block_hash: 'b100' })])
+    monitor.watch('tb1qa', event => events.push(event))
+    await monitor.poll()
+
+    backend.history.set('tb1qa', [tx('aa')])
+    await monitor.poll()
+
+    expect(events.map(event => event.type)).toEqual(['confirmations', 'confirmed', 'reorged'])
+    expect(events[2].confirmations).toBe(0)
+  })
+
+  it('should report a transaction the node no longer knows as dropped', async () => {
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', event => events.push(event))
+    await monitor.poll()
+
+    backend.history.set('tb1qa', [])
+    await monitor.poll()
+    await monitor.poll()
+
+    expect(events.map(event => event.type)).toEqual(['mempool', 'dropped'])
+  })
+
+  it('should not mistake history that scrolled off for a dropped transaction', async () => {
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', event => events.push(event))
+    await monitor.poll()
+
+    backend.history.set('tb1qa', [])
+    backend.statuses.set('aa', { confirmed: true, block_height: 100, block_hash: 'b100' })
+    await monitor.poll()
+
+    expect(events.map(event => event.type)).toEqual(['mempool', 'confirmations'])
+  })
+
+  it('should poll every watched address from one loop', async () => {
+    jest.useFakeTimers()
+    try {
+      monitor = new AddressMonitor(backend, { pollInterval: 1000 })
+      const poll = jest.spyOn(monitor, 'poll')
+
+      monitor.watch('tb1qa', () => {})
+      monitor.watch('tb1qb', () => {})
+      monitor.watch('tb1qc', () => {})
+
+      expect(jest.getTimerCount()).toBe(1)
+
+      jest.advanceTimersByTime(1000)
+      await Promise.resolve()
+
+      expect(poll).toHaveBeenCalledTimes(1)
+      expect(backend.tipCalls).toBe(1)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('should stop the loop once the last listener unsubscribes', () => {
+    jest.useFakeTimers()
+    try {
+      monitor = new AddressMonitor(backend, { pollInterval: 1000 })
+      const stopA = monitor.watch('tb1qa', () => {})
+      const stopB = monitor.watch('tb1qb', () => {})
+
+      stopA()
+      expect(monitor.isWatching('tb1qa')).toBe(false)
+      expect(jest.getTimerCount()).toBe(1)
+
+      stopB()
+      expect(jest.getTimerCount()).toBe(0)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('should keep delivering to other listeners when one throws', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', () => { throw new Error('boom') })
+    monitor.watch('tb1qa', event => events.push(event))
+
+    await monitor.poll()
+
+    expect(events).toHaveLength(1)
+    consoleError.mockRestore()
+  })
+
+  it('should assess mempool deposits against the zero-conf policy', async () => {
+    monitor = new AddressMonitor(backend, { zeroConf: { maxAmount: 0.001, minFeeRate: 1 } })
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', event => events.push(event))
+
+    await monitor.poll()
+
+    expect(events[0].zeroConf).toEqual({ credit: true, amount: 0.0001, feeRate: 1, rbf: false, reasons: [] })
+  })
+
+  it('should report a conflicting spend of a zero-conf deposit once', async () => {
+    monitor = new AddressMonitor(backend, { zeroConf: { maxAmount: 0.001, minFeeRate: 1 } })
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', event => events.push(event))
+    await monitor.poll()
+
+    backend.spenders.set('ff:0', 'bb')
+    await monitor.poll()
+    await monitor.poll()
+
+    expect(events.map(event => event.type)).toEqual(['mempool', 'double-spent'])
+    expect(events[1]).toMatchObject({ txid: 'aa', conflictingTxid: 'bb' })
+  })
+
+  it('should report a dropped transaction whose inputs were spent elsewhere as double-spent', async () => {
+    backend.history.set('tb1qa', [tx('aa')])
+    monitor.watch('tb1qa', event => events.push(event))
+    await monitor.poll()
+
+    backend.history.set('tb1qa', [])
+    backend.spenders.set('ff:0', 'bb')
+    await monitor.poll()
+
+    expect(events.map(event => event.type)).toEqual(['mempool', 'double-spent'])
+    expect(events[1].conflictingTxid).toBe('bb')
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import * as bitcoin from 'bitcoinjs-lib'
+import { secp256k1 } from '@noble/curves/secp256k1.js'
+import { BitcoinServiceImplementation } from '../../bitcoin'
+import { BitcoinCoreBackend, BitcoinCoreRpc } from '../bitcoinCore'
+import { LocalKeySigner } from '../psbtSigner'
+
+// Runs against a local node started with e.g.
+//   bitcoind -regtest -txindex -fallbackfee=0.0001 -rpcuser=atomiq -rpcpassword=atomiq
+// and BITCOIN_CORE_RPC_URL=http://127.0.0.1:18443 (plus BITCOIN_CORE_RPC_USER / _PASSWORD)
+const RPC_URL = process.env.BITCOIN_CORE_RPC_URL
+const RPC_AUTH = {
+  username: process.env.BITCOIN_CORE_RPC_USER || 'atomiq',
+  password: process.env.BITCOIN_CORE_RPC_PASSWORD || 'atomiq'
+}
+const MINER_WALLET = 'atomiq-regtest-miner'
+
+const network = bitcoin.networks.regtest
+const describeRegtest = RPC_URL ? describe : describe.skip
+
+describeRegtest('BitcoinCoreBackend on regtest', () => {
+  let rpc: BitcoinCoreRpc
+  let minerAddress: string
+
+  const secretKey = secp256k1.utils.randomSecretKey()
+  const address = bitcoin.payments.p2wpkh({ pubkey: secp256k1.getPublicKey(secretKey, true), network }).address!
+
+  const mine = (blocks: number) => rpc.call('generatetoaddress', [blocks, minerAddress])
+
+  beforeAll(async () => {
+    rpc = new BitcoinCoreRpc({ url: RPC_URL!, ...RPC_AUTH })
+
+    const loaded = await rpc.call<string[]>('listwallets')
+    if (!loaded.includes(MINER_WALLET)) {
+      await rpc.call('loadwallet', [MINER_WALLET]).catch(() => rpc.call('createwallet', [MINER_WALLET]))
+    }
+
+    minerAddress = await rpc.call('getnewaddress', [], MINER_WALLET)
+    await mine(101)
+    await rpc.call('sendtoaddress', [address, 0.01], MINER_WALLET)
+    await mine(1)
+  }, 60000)
+
+  it('should read the funded balance from the UTXO set', async () => {
+    const backend = new BitcoinCoreBackend({ url: RPC_URL!, ...RPC_AUTH })
+
+    expect(await backend.getBalance(address)).toEqual({ confirmed: 1000000, unconfirmed: 0 })
+  })
+
+  it('should build, sign and broadcast a payment through the service', async () => {
+    const backend = new BitcoinCoreBackend({ url: RPC_URL!, ...RPC_AUTH })
+    const service = new BitcoinServiceImplementation(RPC_URL!, 'regtest', {
+      backend,
+      signer: new LocalKeySigner(secretKey, network)
+    })
+
+    const tx = await service.createTransaction(minerAddress, 0.004, address, { feeRate: 2 })
+    const txid = await service.sendTransaction(tx)
+
+    const pending = await service.getTransaction(txid)
+    expect(pending.status.confirmed).toBe(false)
+    expect(pending.vout.find(output => output.scriptpubkey_address === minerAddress)!.value).toBe(400000)
+
+    await mine(1)
+
+    const status = await backend.getTransactionStatus(txid)
+    expect(status).toMatchObject({ confirmed: true, block_height: await backend.getTipHeight() })
+  }, 60000)
+
+  it('should have fee rates even before the node has estimates', async () => {
+    const backend = new BitcoinCoreBackend({ url: RPC_URL!, ...RPC_AUTH })
+
+    const table = await backend.getFeeRates()
+    expect(Object.values(table).every(rate => rate > 0)).toBe(true)
+  })
+})
@@ -0,0 +1,239 @@
+import { BitcoinCoreBackend, RPC_INVALID_ADDRESS_OR_KEY } from '../bitcoinCore'
+
+const NODE_URL = 'http://127.0.0.1:18443'
+const ADDRESS = 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl'
+const TXID = 'cc'.repeat(32)
+
+type Handler = (params: any[], wallet?: string) => any
+
+interface RpcCall {
+  method: string
+  params: any[]
+  url: string
+  headers: Record<string, string>
+}
+
+// Answers JSON-RPC requests from per-method handlers; a thrown { code, message } becomes an RPC error
+function mockNode(handlers: Record<string, Handler>): RpcCall[] {
+  const calls: RpcCall[] = []
+
+  global.fetch = jest.fn(async (url: string, init: any) => {
+    const { id, method, params } = JSON.parse(init.body)
+    const wallet = url.includes('/wallet/') ? decodeURIComponent(url.split('/wallet/')[1]) : undefined
+    calls.push({ method, params, url, headers: init.headers })
+
+    const handler = handlers[method]
+    try {
+      if (!handler) {
+        throw { code: -32601, message: 'Method not found' }
+      }
+      const result = await handler(params, wallet)
+      return { ok: true, status: 200, json: async () => ({ result, error: null, id }) }
+    } catch (error) {
+      return { ok: false, status: 500, json: async () => ({ result: null, error, id }) }
+    }
+  }) as any
+
+  return calls
+}
+
+function coreTx(confirmations: number) {
+  return {
+    txid: TXID,
+    version: 2,
+    locktime: 0,
+    size: 222,
+    weight: 561,
+    fee: 0.00000141,
+    confirmations,
+    blockhash: confirmations > 0 ? 'bb'.repeat(32) : undefined,
+    blocktime: confirmations > 0 ? 1700000000 : undefined,
+    vin: [{
+      txid: 'aa'.repeat(32),
+      vout: 1,
+      scriptSig: { asm: '', hex: '' },
+      txinwitness: ['30', '02'],
+      sequence: 0xfffffffd,
+      prevout: {
+        value: 0.001,
+        scriptPubKey: { asm: '0 d0c4', hex: '0014d0c4a3ef09e997b6e99e397e518fe3e41a118ca1', type: 'witness_v0_keyhash', address: ADDRESS }
+      }
+    }],
+    vout: [{
+      value: 0.0005,
+      n: 0,
+      scriptPubKey: { asm: '0 d0c4', hex: '0014d0c4a3ef09e997b6e99e397e518fe3e41a118ca1', type: 'witness_v0_keyhash', address: ADDRESS }
+    }]
+  }
+}
+
+describe('BitcoinCoreBackend', () => {
+  it('should authenticate and address wallet calls to the wallet endpoint', async () => {
+    const calls = mockNode({ listunspent: () => [] })
+    const backend = new BitcoinCoreBackend({ url: `${NODE_URL}/`, username: 'alice', password: 'secret', wallet: 'vault' })
+
+    await backend.getUtxos(ADDRESS)
+
+    expect(calls[0].url).toBe(`${NODE_URL}/wallet/vault`)
+    expect(calls[0].headers.Authorization).toBe(`Basic ${btoa('alice:secret')}`)
+    expect(calls[0].params).toEqual([0, 9999999, [ADDRESS], true])
+  })
+
+  it('should read UTXOs from the wallet including unconfirmed ones', async () => {
+    mockNode({
+      listunspent: () => [
+        { txid: TXID, vout: 0, amount: 0.0005, confirmations: 2 },
+        { txid: 'dd'.repeat(32), vout: 1, amount: 0.00012345, confirmations: 0 }
+      ]
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL, wallet: 'vault' })
+
+    expect(await backend.getBalance(ADDRESS)).toEqual({ confirmed: 50000, unconfirmed: 12345 })
+  })
+
+  it('should scan the UTXO set when no wallet is configured', async () => {
+    const calls = mockNode({
+      scantxoutset: () => ({ unspents: [{ txid: TXID, vout: 0, amount: 0.0005, height: 100 }] })
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+    expect(await backend.getUtxos(ADDRESS)).toEqual([{ txid: TXID, vout: 0, value: 50000, confirmed: true }])
+    expect(calls[0].params).toEqual(['start', [`addr(${ADDRESS})`]])
+  })
+
+  it('should run one UTXO set scan at a time', async () => {
+    let running = 0
+    let overlapped = false
+    mockNode({
+      scantxoutset: async () => {
+        overlapped = overlapped || running > 0
+        running++
+        await new Promise(resolve => setTimeout(resolve, 5))
+        running--
+        return { unspents: [] }
+      }
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+    await Promise.all([backend.getUtxos(ADDRESS), backend.getUtxos(ADDRESS)])
+
+    expect(overlapped).toBe(false)
+  })
+
+  it('should map verbose transactions onto the Esplora shape', async () => {
+    mockNode({
+      getrawtransaction: () => coreTx(3),
+      getblockcount: () => 102
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+    const tx = await backend.getTransaction(TXID)
+
+    expect(tx.vout[0]).toMatchObject({ value: 50000, scriptpubkey_type: 'v0_p2wpkh', scriptpubkey_address: ADDRESS })
+    expect(tx.vin[0].prevout).toMatchObject({ value: 100000, scriptpubkey_address: ADDRESS })
+    expect(tx.vin[0].sequence).toBe(0xfffffffd)
+    expect(tx.fee).toBe(0.00000141)
+    expect(tx.status).toEqual({ confirmed: true, block_height: 100, block_hash: 'bb'.repeat(32), block_time: 1700000000 })
+  })
+
+  it('should find confirmed wallet transactions without -txindex', async () => {
+    const calls = mockNode({
+      getrawtransaction: params => {
+        if (params.length < 3) {
+          throw { code: RPC_INVALID_ADDRESS_OR_KEY, message: 'No such mempool transaction' }
+        }
+        return coreTx(1)
+      },
+      gettransaction: () => ({ txid: TXID, blockhash: 'bb'.repeat(32) }),
+      getblockcount: () => 100
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL, wallet: 'vault' })
+
+    const tx = await backend.getTransaction(TXID)
+
+    expect(tx.status.confirmed).toBe(true)
+    expect(calls.filter(call => call.method === 'getrawtransaction').pop()!.params).toEqual([TXID, 2, 'bb'.repeat(32)])
+  })
+
+  it('should report unknown transactions as missing rather than failing', async () => {
+    mockNode({
+      getrawtransaction: () => {
+        throw { code: RPC_INVALID_ADDRESS_OR_KEY, message: 'No such mempool or blockchain transaction' }
+      },
+      getblockcount: () => 100
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+    expect(await backend.getTransactionStatus(TXID)).toBeNull()
+    await expect(backend.getTransaction(TXID)).rejects.toThrow('No such mempool or blockchain transaction')
+  })
+
+  it('should list an address\'s wallet history', async () => {
+    mockNode({
+      listtransactions: () => [
+        { address: ADDRESS, txid: TXID, confirmations: 0, category: 'receive' },
+        { address: ADDRESS, txid: TXID, confirmations: 0, category: 'receive' },
+        { address: 'tb1qother', txid: 'dd'.repeat(32), confirmations: 0, category: 'receive' }
+      ],
+      getrawtransaction: () => coreTx(0),
+      getblockcount: () => 100
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL, wallet: 'vault' })
+
+    const transactions = await backend.getAddressTransactions(ADDRESS)
+
+    expect(transactions.map(tx => tx.txid)).toEqual([TXID])
+    expect(transactions[0].status.confirmed).toBe(false)
+  })
+
+  it('should import descriptors into the wallet and surface failures', async () => {
+    const calls = mockNode({
+      importdescriptors: ([requests]) => requests.map((request: any) => request.internal
+        ? { success: false, error: { message: 'Cannot import descriptor without private keys to a wallet with private keys enabled' } }
+        : { success: true })
+    })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL, wallet: 'vault' })
+
+    await expect(backend.importDescriptors([
+      { descriptor: 'wpkh(tpub/0/*)#checksum', internal: false, range: 20, timestamp: 'now' },
+      { descriptor: 'wpkh(tpub/1/*)#checksum', internal: true, range: 20, timestamp: 'now' }
+    ])).rejects.toThrow('Failed to import wpkh(tpub/1/*)#checksum: Cannot import descriptor')
+    expect(calls[0].url).toBe(`${NODE_URL}/wallet/vault`)
+    expect(calls[0].params[0][0]).toEqual({ desc: 'wpkh(tpub/0/*)#checksum', active: true, internal: false, range: [0, 20], timestamp: 'now' })
+  })
+
+  it('should need a wallet to import descriptors', async () => {
+    const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+    await expect(backend.importDescriptors([])).rejects.toThrow('needs a Bitcoin Core wallet')
+  })
+
+  it('should broadcast raw transactions', async () => {
+    const calls = mockNode({ sendrawtransaction: () => TXID })
+    const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+    expect(await backend.broadcastTransaction('0200')).toBe(TXID)
+    expect(calls[0].params).toEqual(['0200'])
+  })
+
+  describe('getFeeRates', () => {
+    it('should convert smart fee estimates from BTC/kvB', async () => {
+      mockNode({
+        estimatesmartfee: ([target]) => ({ feerate: target === 1 ? 0.0002 : 0.00005, blocks: target })
+      })
+      const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+      expect(await backend.getFeeRates()).toEqual({ 1: 20, 6: 5, 144: 5 })
+    })
+
+    it('should fall back to the mempool minimum when the node has no estimates', async () => {
+      mockNode({
+        estimatesmartfee: () => ({ errors: ['Insufficient data or no feerate found'], blocks: 0 }),
+        getmempoolinfo: () => ({ mempoolminfee: 0.00001 })
+      })
+      const backend = new BitcoinCoreBackend({ url: NODE_URL })
+
+      expect(await backend.getFeeRates()).toEqual({ 1: 1 })
+    })
+  })
+})
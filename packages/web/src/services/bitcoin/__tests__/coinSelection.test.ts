@@ -0,0 +1,101 @@
+import { CoinSelectionParams, SelectableUtxo, dustLimitFor, selectCoins } from '../coinSelection'
+import { estimateFeeSats } from '../feeEstimator'
+
+function utxo(value: number, address = 'tb1qalice', index = 0): SelectableUtxo {
+  return { txid: `${index}`.padStart(64, '0'), vout: index, value, address, scriptType: 'p2wpkh' }
+}
+
+function params(utxos: SelectableUtxo[], amount: number, overrides: Partial<CoinSelectionParams> = {}): CoinSelectionParams {
+  return {
+    utxos,
+    amount,
+    outputTypes: ['p2wpkh'],
+    changeType: 'p2wpkh',
+    feeRate: 10,
+    longTermFeeRate: 5,
+    random: () => 0.3,
+    ...overrides
+  }
+}
+
+describe('coinSelection', () => {
+  describe('branch-and-bound', () => {
+    it('should find a changeless input set', () => {
+      // 1 input -> 1 output at 10 sat/vB is 110 vB
+      const exact = 50000 + estimateFeeSats(['p2wpkh'], ['p2wpkh'], 10)
+      const result = selectCoins(params([utxo(80000, 'a', 0), utxo(exact, 'a', 1), utxo(20000, 'a', 2)], 50000), 'branch-and-bound')
+
+      expect(result.inputs.map(input => input.value)).toEqual([exact])
+      expect(result.change).toBe(0)
+      expect(result.strategy).toBe('branch-and-bound')
+    })
+
+    it('should combine inputs to avoid change', () => {
+      const fee = estimateFeeSats(['p2wpkh', 'p2wpkh'], ['p2wpkh'], 10)
+      const result = selectCoins(params([utxo(30000, 'a', 0), utxo(100000, 'a', 1), utxo(20000 + fee, 'a', 2)], 50000), 'branch-and-bound')
+
+      expect(result.inputs).toHaveLength(2)
+      expect(result.change).toBe(0)
+    })
+
+    it('should fail when every solution needs change', () => {
+      expect(() => selectCoins(params([utxo(100000)], 50000), 'branch-and-bound')).toThrow('changeless')
+    })
+  })
+
+  describe('knapsack', () => {
+    it('should create change above the dust limit', () => {
+      const result = selectCoins(params([utxo(100000, 'a', 0), utxo(30000, 'a', 1)], 50000), 'knapsack')
+      const total = result.inputs.reduce((sum, input) => sum + input.value, 0)
+
+      expect(result.change).toBeGreaterThanOrEqual(dustLimitFor('p2wpkh'))
+      expect(total).toBe(50000 + result.fee + result.change)
+    })
+
+    it('should report insufficient balance', () => {
+      expect(() => selectCoins(params([utxo(10000)], 50000), 'knapsack')).toThrow('Insufficient balance')
+    })
+  })
+
+  describe('largest-first', () => {
+    it('should not reorder the caller\'s UTXOs', () => {
+      const utxos = [utxo(1000, 'a', 0), utxo(90000, 'a', 1), utxo(5000, 'a', 2)]
+      const result = selectCoins(params(utxos, 50000), 'largest-first')
+
+      expect(result.inputs.map(input => input.value)).toEqual([90000])
+      expect(utxos.map(input => input.value)).toEqual([1000, 90000, 5000])
+    })
+  })
+
+  describe('privacy', () => {
+    it('should spend from a single address', () => {
+      const utxos = [utxo(30000, 'alice', 0), utxo(30000, 'bob', 1), utxo(40000, 'bob', 2)]
+      const result = selectCoins(params(utxos, 50000), 'privacy')
+
+      expect(new Set(result.inputs.map(input => input.address))).toEqual(new Set(['bob']))
+      expect(result.strategy).toBe('privacy')
+    })
+
+    it('should refuse to merge addresses', () => {
+      const utxos = [utxo(30000, 'alice', 0), utxo(30000, 'bob', 1)]
+
+      expect(() => selectCoins(params(utxos, 50000), 'privacy')).toThrow('merging')
+    })
+  })
+
+  describe('auto', () => {
+    it('should prefer the changeless solution when it wastes less', () => {
+      const exact = 50000 + estimateFeeSats(['p2wpkh'], ['p2wpkh'], 10)
+      const result = selectCoins(params([utxo(200000, 'a', 0), utxo(exact, 'a', 1)], 50000))
+
+      expect(result.strategy).toBe('branch-and-bound')
+      expect(result.waste).toBeLessThan(selectCoins(params([utxo(200000, 'a', 0)], 50000), 'knapsack').waste)
+    })
+
+    it('should skip UTXOs that cost more to spend than they are worth', () => {
+      const result = selectCoins(params([utxo(500, 'a', 0), utxo(100000, 'a', 1)], 50000, { feeRate: 20 }))
+
+      expect(result.inputs.map(input => input.value)).toEqual([100000])
+    })
+  })
+})
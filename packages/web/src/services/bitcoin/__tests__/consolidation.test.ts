@@ -0,0 +1,46 @@
+import { SelectableUtxo } from '../coinSelection'
+import { planConsolidationBatches } from '../consolidation'
+import { estimateFeeSats } from '../feeEstimator'
+
+function utxo(value: number, address = 'tb1qalice', index = 0): SelectableUtxo {
+  return { txid: `${index}`.padStart(64, '0'), vout: index, value, address, scriptType: 'p2wpkh' }
+}
+
+describe('consolidation', () => {
+  it('should merge small UTXOs when the fee rate is below the long-term rate', () => {
+    const utxos = [utxo(20000, 'a', 0), utxo(5000, 'a', 1), utxo(10000, 'b', 2)]
+    const [batch, ...rest] = planConsolidationBatches({ utxos, outputType: 'p2wpkh', feeRate: 1, longTermFeeRate: 20 })
+    const fee = estimateFeeSats(['p2wpkh', 'p2wpkh', 'p2wpkh'], ['p2wpkh'], 1)
+
+    expect(rest).toHaveLength(0)
+    expect(batch.inputs.map(input => input.value)).toEqual([5000, 10000, 20000])
+    expect(batch.addresses).toEqual(['a', 'b'])
+    expect(batch.fee).toBe(fee)
+    expect(batch.value).toBe(35000 - fee)
+    // Three 68 vB inputs later at 20 sat/vB, against this transaction now plus one input later
+    expect(batch.savings).toBe(Math.floor(3 * 68 * 20 - (fee + 68 * 20)))
+  })
+
+  it('should propose nothing when fees are not low', () => {
+    const utxos = [utxo(20000, 'a', 0), utxo(5000, 'a', 1)]
+
+    expect(planConsolidationBatches({ utxos, outputType: 'p2wpkh', feeRate: 20, longTermFeeRate: 20 })).toEqual([])
+    // Two inputs barely save anything on a slightly lower rate, and not enough to pay for the transaction
+    expect(planConsolidationBatches({ utxos, outputType: 'p2wpkh', feeRate: 15, longTermFeeRate: 20 })).toEqual([])
+  })
+
+  it('should leave uneconomical dust and large batches split across transactions', () => {
+    const utxos = [utxo(60, 'a', 0), ...Array.from({ length: 5 }, (_, i) => utxo(10000 + i, 'a', i + 1))]
+    const batches = planConsolidationBatches({ utxos, outputType: 'p2wpkh', feeRate: 1, longTermFeeRate: 50, maxInputs: 3 })
+
+    expect(batches.map(batch => batch.inputs.length)).toEqual([3, 2])
+    expect(batches.flatMap(batch => batch.inputs).some(input => input.value === 60)).toBe(false)
+  })
+
+  it('should keep addresses apart unless linking them is allowed', () => {
+    const utxos = [utxo(5000, 'a', 0), utxo(6000, 'b', 1), utxo(7000, 'a', 2), utxo(8000, 'b', 3), utxo(9000, 'c', 4)]
+    const batches = planConsolidationBatches({ utxos, outputType: 'p2wpkh', feeRate: 1, longTermFeeRate: 20, linkAddresses: false })
+
+    expect(batches.map(batch => batch.addresses)).toEqual([['a'], ['b']])
+  })
+})
@@ -0,0 +1,116 @@
+import { HDKey } from '@scure/bip32'
+import { bytesToHex } from '@noble/hashes/utils.js'
+import { HDWallet, MemoryAddressIndexStore } from '../hdWallet'
+import { MultisigScriptType, MultisigWallet, UNSPENDABLE_INTERNAL_KEY } from '../multisig'
+import { addChecksum, descriptorChecksum, parseDescriptor, walletDescriptors, walletFromDescriptor } from '../descriptors'
+
+// BIP84 test vector account (abandon ... about), m/84'/1'/0'
+const TEST_VPUB = 'vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc'
+// BIP86 test vector account, m/86'/0'/0'
+const TEST_TAPROOT_XPUB = 'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ'
+const MASTER_FINGERPRINT = '73c5da0a'
+
+const cosignerAccounts = [1, 2, 3].map(seed => {
+  const master = HDKey.fromMasterSeed(new Uint8Array(32).fill(seed), { private: 0x04358394, public: 0x043587cf })
+  return { master, account: master.derive("m/48'/1'/0'/2'") }
+})
+
+function vpubWallet(): HDWallet {
+  return new HDWallet({ xpub: TEST_VPUB, network: 'testnet', masterFingerprint: MASTER_FINGERPRINT }, new MemoryAddressIndexStore())
+}
+
+describe('descriptors', () => {
+  describe('descriptorChecksum', () => {
+    it('should match the BIP380 and Bitcoin Core examples', () => {
+      expect(descriptorChecksum('raw(deadbeef)')).toBe('89f8spxm')
+      expect(addChecksum('wpkh([d34db33f/84h/0h/0h]xpub6DJ2dNUysrn5Vt36jH2KLBT2i1auw1tTSSomg8PhqNiUtx8QX2SvC9nrHu81fT41fvDUnhMjEzQgXnQjKEu3oaqMSzhSrHMxyyoEAmUHQbY/0/*)'))
+        .toMatch(/#cjjspncu$/)
+    })
+
+    it('should reject characters outside the descriptor charset', () => {
+      expect(() => descriptorChecksum('wpkh(é)')).toThrow('Invalid character')
+    })
+  })
+
+  describe('parseDescriptor', () => {
+    it('should read key origins, normalising h to an apostrophe', () => {
+      const tpub = vpubWallet().accountXpub
+
+      expect(parseDescriptor(`wpkh([73C5DA0A/84h/1h/0h]${tpub}/<0;1>/*)`)).toEqual({
+        scriptType: 'p2wpkh',
+        keys: [{ xpub: tpub, masterFingerprint: MASTER_FINGERPRINT, derivationPath: "m/84'/1'/0'" }],
+        chain: undefined,
+        checksum: expect.any(String)
+      })
+    })
+
+    it('should reject a wrong checksum', () => {
+      const { receive } = walletDescriptors(vpubWallet())
+      const tampered = receive.slice(0, -1) + (receive.endsWith('q') ? 'p' : 'q')
+
+      expect(() => parseDescriptor(tampered)).toThrow('checksum mismatch')
+    })
+
+    it('should reject descriptors a watch-only wallet cannot be built from', () => {
+      const tpub = vpubWallet().accountXpub
+      const otherKey = 'ff'.repeat(32)
+
+      expect(() => parseDescriptor(`pkh(${tpub}/0/*)`)).toThrow('Unsupported descriptor')
+      expect(() => parseDescriptor(`wpkh(${tpub}/0/0)`)).toThrow('Unsupported key expression')
+      expect(() => parseDescriptor(`wsh(sortedmulti(1,${tpub}/0/*,${tpub}/1/*))`)).toThrow('same chain')
+      expect(() => parseDescriptor(`tr(${otherKey},sortedmulti_a(1,${tpub}/0/*))`)).toThrow('unspendable')
+    })
+  })
+
+  describe('walletDescriptors', () => {
+    it('should export a BIP84 account as wpkh with its origin', () => {
+      const { receive, change } = walletDescriptors(vpubWallet())
+
+      expect(receive).toMatch(/^wpkh\(\[73c5da0a\/84'\/1'\/0'\]tpub[1-9A-HJ-NP-Za-km-z]+\/0\/\*\)#[a-z0-9]{8}$/)
+      expect(change).toContain('/1/*)#')
+    })
+
+    it('should omit the origin when the master fingerprint is unknown', () => {
+      const wallet = new HDWallet({ xpub: TEST_TAPROOT_XPUB, network: 'mainnet', addressType: 'p2tr' }, new MemoryAddressIndexStore())
+
+      expect(walletDescriptors(wallet).receive).toMatch(new RegExp(`^tr\\(${TEST_TAPROOT_XPUB}/0/\\*\\)#`))
+    })
+  })
+
+  describe('walletFromDescriptor', () => {
+    it('should derive the BIP84 and BIP86 test vector addresses', () => {
+      const segwit = walletFromDescriptor(walletDescriptors(vpubWallet()).receive, 'testnet', { store: new MemoryAddressIndexStore() })
+      const taproot = walletFromDescriptor(
+        `tr([${MASTER_FINGERPRINT}/86h/0h/0h]${TEST_TAPROOT_XPUB}/<0;1>/*)`,
+        'mainnet',
+        { store: new MemoryAddressIndexStore() }
+      )
+
+      expect(segwit).toBeInstanceOf(HDWallet)
+      expect(segwit.deriveAddress(0).address).toBe('tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl')
+      expect((segwit as HDWallet).deriveAddress(0).path).toBe("m/84'/1'/0'/0/0")
+      expect(taproot.deriveAddress(0).address).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr')
+    })
+
+    it.each(['p2wsh', 'p2tr'] as const)('should round-trip a %s multisig wallet', (scriptType: MultisigScriptType) => {
+      const wallet = new MultisigWallet({
+        cosigners: cosignerAccounts.map(({ master, account }) => ({
+          xpub: account.publicExtendedKey,
+          masterFingerprint: master.fingerprint.toString(16).padStart(8, '0')
+        })),
+        threshold: 2,
+        network: 'testnet',
+        scriptType
+      }, new MemoryAddressIndexStore())
+      const { receive } = walletDescriptors(wallet)
+      const restored = walletFromDescriptor(receive, 'testnet', { store: new MemoryAddressIndexStore() })
+
+      expect(receive.startsWith(scriptType === 'p2tr'
+        ? `tr(${bytesToHex(UNSPENDABLE_INTERNAL_KEY)},sortedmulti_a(2,[`
+        : 'wsh(sortedmulti(2,[')).toBe(true)
+      expect(restored).toBeInstanceOf(MultisigWallet)
+      expect(restored.deriveAddress(3, 1).address).toBe(wallet.deriveAddress(3, 1).address)
+      expect(walletDescriptors(restored)).toEqual(walletDescriptors(wallet))
+    })
+  })
+})
@@ -0,0 +1,34 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { schnorr } from '@noble/curves/secp256k1.js'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import { nobleEccLib, tweakSecretKey } from '../ecc'
+
+// BIP86 test vector, m/86'/0'/0'/0/0 (abandon ... about)
+const PRIVATE_KEY = '41f41d69260df4cf277826a9b65a3717e4eeddbeedf637f212ca096576479361'
+const INTERNAL_KEY = 'cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115'
+const OUTPUT_KEY = 'a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c'
+
+describe('ecc', () => {
+  it('should tweak the internal key to the BIP86 output key', () => {
+    const tweak = bitcoin.crypto.taggedHash('TapTweak', hexToBytes(INTERNAL_KEY))
+    const tweaked = nobleEccLib.xOnlyPointAddTweak(hexToBytes(INTERNAL_KEY), tweak)
+
+    expect(tweaked && bytesToHex(tweaked.xOnlyPubkey)).toBe(OUTPUT_KEY)
+  })
+
+  it('should tweak the private key to match the output key', () => {
+    expect(bytesToHex(schnorr.getPublicKey(tweakSecretKey(hexToBytes(PRIVATE_KEY))))).toBe(OUTPUT_KEY)
+  })
+
+  it('should reject x coordinates that are not on the curve', () => {
+    expect(nobleEccLib.isXOnlyPoint(hexToBytes(INTERNAL_KEY))).toBe(true)
+    expect(nobleEccLib.isXOnlyPoint(new Uint8Array(32).fill(0xff))).toBe(false)
+    expect(nobleEccLib.isXOnlyPoint(hexToBytes(INTERNAL_KEY).slice(1))).toBe(false)
+  })
+
+  it('should build P2TR addresses through bitcoinjs', () => {
+    const { address } = bitcoin.payments.p2tr({ internalPubkey: hexToBytes(INTERNAL_KEY), network: bitcoin.networks.bitcoin })
+
+    expect(address).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr')
+  })
+})
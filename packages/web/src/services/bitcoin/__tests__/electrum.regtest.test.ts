@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import * as bitcoin from 'bitcoinjs-lib'
+import { secp256k1 } from '@noble/curves/secp256k1.js'
+import { AddressEvent } from '@/types/atomiq'
+import { AddressMonitor } from '../addressMonitor'
+import { BitcoinCoreRpc } from '../bitcoinCore'
+import { ElectrumBackend } from '../electrum'
+
+// Runs against a local Fulcrum or ElectrumX indexing a regtest bitcoind, e.g.
+//   ELECTRUM_URL=tcp://127.0.0.1:50001 BITCOIN_CORE_RPC_URL=http://127.0.0.1:18443
+// The node is only used to fund addresses and mine blocks.
+const ELECTRUM_URL = process.env.ELECTRUM_URL
+const RPC_URL = process.env.BITCOIN_CORE_RPC_URL
+const RPC_AUTH = {
+  username: process.env.BITCOIN_CORE_RPC_USER || 'atomiq',
+  password: process.env.BITCOIN_CORE_RPC_PASSWORD || 'atomiq'
+}
+const MINER_WALLET = 'atomiq-regtest-miner'
+
+const network = bitcoin.networks.regtest
+const describeRegtest = ELECTRUM_URL && RPC_URL ? describe : describe.skip
+
+function nextEvent(events: AddressEvent[], type: AddressEvent['type'], timeoutMs = 20000): Promise<AddressEvent> {
+  const started = Date.now()
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      const event = events.find(candidate => candidate.type === type)
+      if (event) {
+        resolve(event)
+      } else if (Date.now() - started > timeoutMs) {
+        reject(new Error(`No ${type} event within ${timeoutMs}ms`))
+      } else {
+        setTimeout(check, 100)
+      }
+    }
+    check()
+  })
+}
+
+describeRegtest('ElectrumBackend on regtest', () => {
+  let rpc: BitcoinCoreRpc
+  let backend: ElectrumBackend
+  let minerAddress: string
+
+  beforeAll(async () => {
+    rpc = new BitcoinCoreRpc({ url: RPC_URL!, ...RPC_AUTH })
+    const loaded = await rpc.call<string[]>('listwallets')
+    if (!loaded.includes(MINER_WALLET)) {
+      await rpc.call('loadwallet', [MINER_WALLET]).catch(() => rpc.call('createwallet', [MINER_WALLET]))
+    }
+    minerAddress = await rpc.call('getnewaddress', [], MINER_WALLET)
+    await rpc.call('generatetoaddress', [101, minerAddress])
+
+    backend = new ElectrumBackend({ url: ELECTRUM_URL!, network })
+  }, 60000)
+
+  afterAll(() => {
+    backend?.client.close()
+  })
+
+  it('should push a deposit through mempool and confirmation', async () => {
+    const pubkey = secp256k1.getPublicKey(secp256k1.utils.randomSecretKey(), true)
+    const address = bitcoin.payments.p2wpkh({ pubkey, network }).address!
+
+    const monitor = new AddressMonitor(backend, { requiredConfirmations: 1 })
+    const events: AddressEvent[] = []
+    monitor.watch(address, event => events.push(event))
+
+    try {
+      const txid = await rpc.call<string>('sendtoaddress', [address, 0.002], MINER_WALLET)
+      expect((await nextEvent(events, 'mempool')).txid).toBe(txid)
+
+      await rpc.call('generatetoaddress', [1, minerAddress])
+      expect((await nextEvent(events, 'confirmed')).txid).toBe(txid)
+
+      expect(await backend.getBalance(address)).toEqual({ confirmed: 200000, unconfirmed: 0 })
+      const [utxo] = await backend.getUtxos(address)
+      expect(utxo).toMatchObject({ txid, value: 200000, confirmed: true })
+    } finally {
+      monitor.stop()
+    }
+  }, 60000)
+})
@@ -0,0 +1,262 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import { AddressEvent } from '@/types/atomiq'
+import { AddressMonitor } from '../addressMonitor'
+import { ElectrumBackend } from '../electrum'
+import { ElectrumClient, ElectrumTransport } from '../electrumClient'
+
+const network = bitcoin.networks.testnet
+const ADDRESS = 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl'
+const SENDER = 'tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97'
+
+type Handler = (params: any[]) => any
+
+// In-memory Electrum server; a thrown { code, message } becomes an error response
+class FakeElectrumServer {
+  handlers: Record<string, Handler> = {
+    'server.version': () => ['FakeElectrum 1.0', '1.4']
+  }
+  requests: Array<{ method: string; params: any[] }> = []
+  connections = 0
+  private push: ((message: string) => void) | null = null
+  private closeConnection: ((error?: Error) => void) | null = null
+
+  transport = (): ElectrumTransport => {
+    let connected = false
+    return {
+      open: async (onMessage, onClose) => {
+        connected = true
+        this.connections++
+        this.push = onMessage
+        this.closeConnection = onClose
+      },
+      send: message => {
+        if (!connected) {
+          return
+        }
+        const { id, method, params } = JSON.parse(message)
+        this.requests.push({ method, params })
+        Promise.resolve().then(() => {
+          try {
+            const handler = this.handlers[method]
+            if (!handler) {
+              throw { code: -32601, message: `unknown method ${method}` }
+            }
+            this.push?.(JSON.stringify({ jsonrpc: '2.0', id, result: handler(params) }))
+          } catch (error) {
+            this.push?.(JSON.stringify({ jsonrpc: '2.0', id, error }))
+          }
+        })
+      },
+      close: () => {
+        connected = false
+      }
+    }
+  }
+
+  notify(method: string, params: any[]): void {
+    this.push?.(JSON.stringify({ jsonrpc: '2.0', method, params }))
+  }
+
+  drop(): void {
+    this.closeConnection?.(new Error('connection reset'))
+  }
+}
+
+function scripthashOf(address: string): string {
+  return bytesToHex(sha256(bitcoin.address.toOutputScript(address, network)).reverse())
+}
+
+// A parent paying SENDER and a child spending it to ADDRESS with change back to SENDER
+function buildTransactions() {
+  const parent = new bitcoin.Transaction()
+  parent.addInput(new Uint8Array(32), 0xffffffff)
+  parent.addOutput(bitcoin.address.toOutputScript(SENDER, network), BigInt(100000))
+
+  const child = new bitcoin.Transaction()
+  child.version = 2
+  child.addInput(parent.getHash(), 0, 0xfffffffd)
+  child.addOutput(bitcoin.address.toOutputScript(ADDRESS, network), BigInt(60000))
+  child.addOutput(bitcoin.address.toOutputScript(SENDER, network), BigInt(39000))
+
+  return { parent, child }
+}
+
+function header(time: number): string {
+  const bytes = new Uint8Array(80)
+  new DataView(bytes.buffer).setUint32(68, time, true)
+  return bytesToHex(bytes)
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('ElectrumBackend', () => {
+  let server: FakeElectrumServer
+  let backend: ElectrumBackend
+
+  beforeEach(() => {
+    server = new FakeElectrumServer()
+    backend = new ElectrumBackend({ url: 'tcp://electrum.test:50001', network, transport: server.transport })
+  })
+
+  afterEach(() => {
+    backend.client.close()
+  })
+
+  it('should index addresses by reversed script hash', () => {
+    expect(backend.scripthash(ADDRESS)).toBe(scripthashOf(ADDRESS))
+  })
+
+  it('should map balances and UTXOs', async () => {
+    server.handlers['blockchain.scripthash.get_balance'] = () => ({ confirmed: 60000, unconfirmed: 5000 })
+    server.handlers['blockchain.scripthash.listunspent'] = () => [
+      { tx_hash: 'aa'.repeat(32), tx_pos: 0, height: 100, value: 60000 },
+      { tx_hash: 'bb'.repeat(32), tx_pos: 1, height: 0, value: 5000 }
+    ]
+
+    expect(await backend.getBalance(ADDRESS)).toEqual({ confirmed: 60000, unconfirmed: 5000 })
+    expect(await backend.getUtxos(ADDRESS)).toEqual([
+      { txid: 'aa'.repeat(32), vout: 0, value: 60000, confirmed: true },
+      { txid: 'bb'.repeat(32), vout: 1, value: 5000, confirmed: false }
+    ])
+    expect(server.requests.find(request => request.method === 'blockchain.scripthash.listunspent')!.params)
+      .toEqual([scripthashOf(ADDRESS)])
+  })
+
+  it('should map history into BitcoinTransaction with prevouts and fees', async () => {
+    const { parent, child } = buildTransactions()
+    const raw: Record<string, string> = { [parent.getId()]: parent.toHex(), [child.getId()]: child.toHex() }
+    server.handlers['blockchain.scripthash.get_history'] = () => [{ tx_hash: child.getId(), height: 100 }]
+    server.handlers['blockchain.transaction.get'] = ([txid]) => raw[txid]
+    server.handlers['blockchain.block.header'] = () => header(1700000000)
+
+    const [tx] = await backend.getAddressTransactions(ADDRESS)
+
+    expect(tx.txid).toBe(child.getId())
+    expect(tx.vin[0]).toMatchObject({ txid: parent.getId(), vout: 0, sequence: 0xfffffffd })
+    expect(tx.vin[0].prevout).toMatchObject({ scriptpubkey_address: SENDER, scriptpubkey_type: 'v0_p2wpkh', value: 100000 })
+    expect(tx.vout.map(output => [output.scriptpubkey_address, output.value])).toEqual([[ADDRESS, 60000], [SENDER, 39000]])
+    expect(tx.fee).toBeCloseTo(1000 / 100000000, 10)
+    expect(tx.weight).toBe(child.weight())
+    expect(tx.status).toEqual({
+      confirmed: true,
+      block_height: 100,
+      block_hash: bytesToHex(bitcoin.crypto.hash256(hexToBytes(header(1700000000))).reverse()),
+      block_time: 1700000000
+    })
+  })
+
+  it('should report transactions the node no longer knows as missing', async () => {
+    server.handlers['blockchain.transaction.get'] = () => {
+      throw { code: 2, message: 'daemon error: No such mempool or blockchain transaction' }
+    }
+
+    expect(await backend.getTransactionStatus('cc'.repeat(32))).toBeNull()
+  })
+
+  it('should fall back to the relay fee when the node has no estimates', async () => {
+    server.handlers['blockchain.estimatefee'] = () => -1
+    server.handlers['blockchain.relayfee'] = () => 0.00001
+
+    expect(await backend.getFeeRates()).toEqual({ 1: 1 })
+  })
+
+  it('should drive the address monitor from subscriptions instead of a timer', async () => {
+    const { parent, child } = buildTransactions()
+    const raw: Record<string, string> = { [parent.getId()]: parent.toHex(), [child.getId()]: child.toHex() }
+    let history: any[] = []
+    server.handlers['blockchain.scripthash.subscribe'] = () => null
+    server.handlers['blockchain.headers.subscribe'] = () => ({ height: 100, hex: header(1) })
+    server.handlers['blockchain.scripthash.get_history'] = () => history
+    server.handlers['blockchain.transaction.get'] = ([txid]) => raw[txid]
+    server.handlers['blockchain.block.header'] = () => header(1700000000)
+
+    const monitor = new AddressMonitor(backend, { requiredConfirmations: 1, pollInterval: 60 * 60 * 1000 })
+    const events: AddressEvent[] = []
+    monitor.watch(ADDRESS, event => events.push(event))
+    await flush()
+
+    history = [{ tx_hash: child.getId(), height: 0 }]
+    server.notify('blockchain.scripthash.subscribe', [scripthashOf(ADDRESS), 'status-1'])
+    await flush()
+
+    history = [{ tx_hash: child.getId(), height: 101 }]
+    server.notify('blockchain.headers.subscribe', [{ height: 101, hex: header(2) }])
+    await flush()
+
+    expect(events.map(event => [event.type, event.confirmations])).toEqual([
+      ['mempool', 0],
+      ['confirmations', 1],
+      ['confirmed', 1]
+    ])
+    monitor.stop()
+  })
+})
+
+describe('ElectrumClient', () => {
+  it('should reject with the server\'s error code', async () => {
+    const server = new FakeElectrumServer()
+    server.handlers['blockchain.transaction.broadcast'] = () => {
+      throw { code: 1, message: 'the transaction was rejected by network rules' }
+    }
+    const client = new ElectrumClient({ url: 'tcp://electrum.test:50001', transport: server.transport })
+
+    await expect(client.request('blockchain.transaction.broadcast', ['00'])).rejects.toMatchObject({
+      code: 1,
+      message: 'the transaction was rejected by network rules'
+    })
+    client.close()
+  })
+
+  it('should reconnect and renew subscriptions after the connection drops', async () => {
+    jest.useFakeTimers()
+    try {
+      const server = new FakeElectrumServer()
+      server.handlers['blockchain.scripthash.subscribe'] = () => 'status-1'
+      const client = new ElectrumClient({ url: 'tcp://electrum.test:50001', transport: server.transport })
+      const notifications: any[][] = []
+
+      await client.subscribe('blockchain.scripthash.subscribe', ['ab'], params => notifications.push(params))
+      server.drop()
+      server.handlers['blockchain.scripthash.subscribe'] = () => 'status-2'
+
+      await jest.advanceTimersByTimeAsync(1000)
+
+      expect(server.connections).toBe(2)
+      expect(notifications).toEqual([['ab', 'status-2']])
+      client.close()
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('should frame newline-delimited JSON over TCP', async () => {
+    const net = require('net')
+    const sockets: any[] = []
+    const server = net.createServer((socket: any) => {
+      sockets.push(socket)
+      let buffer = ''
+      socket.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString()
+        const lines = buffer.split('\n')
+        buffer = lines.pop()!
+        // Answer every request in one write to check the client splits them
+        socket.write(lines.map(line => {
+          const { id, method } = JSON.parse(line)
+          return JSON.stringify({ jsonrpc: '2.0', id, result: method === 'server.version' ? ['Fake', '1.4'] : 42 })
+        }).join('\n') + '\n')
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+    const client = new ElectrumClient({ url: `tcp://127.0.0.1:${server.address().port}` })
+    try {
+      expect(await client.request('blockchain.headers.subscribe')).toBe(42)
+    } finally {
+      client.close()
+      sockets.forEach(socket => socket.destroy())
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+})
@@ -0,0 +1,142 @@
+import { BitcoinTransaction } from '@/types/atomiq'
+import { TransactionStatus } from '../addressMonitor'
+import { AddressBalance, AddressHistoryPage, ChainBackend, Utxo } from '../chainBackend'
+import { EsploraHttpError } from '../esplora'
+import { EsploraPool } from '../esploraPool'
+import { FeeRateTable } from '../feeEstimator'
+
+function httpError(status: number, retryAfter?: string): EsploraHttpError {
+  return new EsploraHttpError({ status, headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}) } as Response)
+}
+
+class FakeEsplora implements ChainBackend {
+  tip = 100
+  balance: AddressBalance = { confirmed: 50000, unconfirmed: 0 }
+  utxos: Utxo[] = [{ txid: 'aa', vout: 0, value: 50000, confirmed: true }]
+  error: any = null
+  calls = 0
+
+  private async answer<T>(value: T): Promise<T> {
+    this.calls++
+    if (this.error) {
+      throw this.error
+    }
+    return value
+  }
+
+  getBalance(): Promise<AddressBalance> {
+    return this.answer(this.balance)
+  }
+
+  getUtxos(): Promise<Utxo[]> {
+    return this.answer(this.utxos)
+  }
+
+  getTransaction(txid: string): Promise<BitcoinTransaction> {
+    return this.answer({ txid, version: 2, locktime: 0, vin: [], vout: [], size: 100, fee: 0, status: { confirmed: false } })
+  }
+
+  getAddressTransactions(): Promise<BitcoinTransaction[]> {
+    return this.answer([])
+  }
+
+  getAddressTransactionsPage(): Promise<AddressHistoryPage> {
+    return this.answer({ transactions: [], lastSeenTxid: null })
+  }
+
+  getTransactionStatus(): Promise<TransactionStatus | null> {
+    return this.answer(null)
+  }
+
+  async getTipHeight(): Promise<number> {
+    return this.tip
+  }
+
+  broadcastTransaction(): Promise<string> {
+    return this.answer('bb'.repeat(32))
+  }
+
+  getFeeRates(): Promise<FeeRateTable> {
+    return this.answer({ 1: 20, 6: 10, 144: 2 })
+  }
+}
+
+describe('EsploraPool', () => {
+  let fakes: Record<string, FakeEsplora>
+
+  const pool = (quorum?: number) =>
+    new EsploraPool(['https://a', 'https://b', 'https://c'], { quorum }, url => fakes[url])
+
+  beforeEach(() => {
+    fakes = { 'https://a': new FakeEsplora(), 'https://b': new FakeEsplora(), 'https://c': new FakeEsplora() }
+  })
+
+  it('should stay on one provider while it answers', async () => {
+    const esplora = pool()
+
+    await esplora.getTransaction('aa')
+    await esplora.getFeeRates()
+
+    expect([fakes['https://a'].calls, fakes['https://b'].calls, fakes['https://c'].calls]).toEqual([2, 0, 0])
+  })
+
+  it('should fail over on errors and rate limits and bench the provider for a while', async () => {
+    const esplora = pool()
+    fakes['https://a'].error = httpError(429, '120')
+    fakes['https://b'].error = httpError(503)
+
+    await expect(esplora.getTransaction('aa')).resolves.toMatchObject({ txid: 'aa' })
+    await esplora.getTransaction('aa')
+
+    expect([fakes['https://a'].calls, fakes['https://b'].calls, fakes['https://c'].calls]).toEqual([1, 1, 2])
+    const [a, b] = esplora.getProviderStatus()
+    expect(a.unavailableUntil!.getTime() - Date.now()).toBeGreaterThan(110000)
+    expect(b.unavailableUntil).not.toBeNull()
+  })
+
+  it('should not bench a provider for a request it rightly refused', async () => {
+    const esplora = pool()
+    fakes['https://a'].error = httpError(404)
+    fakes['https://b'].error = httpError(404)
+    fakes['https://c'].error = httpError(404)
+
+    await expect(esplora.getTransaction('aa')).rejects.toThrow('status: 404')
+    expect(esplora.getProviderStatus().every(provider => provider.unavailableUntil === null)).toBe(true)
+  })
+
+  it('should ask lagging providers last and report the best tip', async () => {
+    const esplora = pool()
+    fakes['https://a'].tip = 95
+    fakes['https://b'].tip = 101
+
+    expect(await esplora.getTipHeight()).toBe(101)
+    await esplora.getTransaction('aa')
+
+    expect(fakes['https://a'].calls).toBe(0)
+    expect(fakes['https://b'].calls).toBe(1)
+    expect(esplora.getProviderStatus().map(provider => provider.lagging)).toEqual([true, false, false])
+  })
+
+  it('should need two providers to agree on balances and UTXOs under a quorum', async () => {
+    const esplora = pool(2)
+    fakes['https://a'].balance = { confirmed: 90000, unconfirmed: 0 }
+
+    await expect(esplora.getBalance('tb1qa')).resolves.toEqual({ confirmed: 50000, unconfirmed: 0 })
+    expect(fakes['https://c'].calls).toBe(1)
+
+    fakes['https://c'].utxos = []
+    fakes['https://b'].error = httpError(500)
+    await expect(esplora.getUtxos('tb1qa')).rejects.toThrow('disagree')
+  })
+
+  it('should ignore mempool differences when comparing balances', async () => {
+    const esplora = pool(2)
+    fakes['https://b'].balance = { confirmed: 50000, unconfirmed: 1000 }
+
+    await expect(esplora.getBalance('tb1qa')).resolves.toEqual({ confirmed: 50000, unconfirmed: 0 })
+  })
+
+  it('should refuse a quorum larger than the pool', () => {
+    expect(() => pool(4)).toThrow('between 1 and the number of providers')
+  })
+})
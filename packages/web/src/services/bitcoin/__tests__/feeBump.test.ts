@@ -0,0 +1,117 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { bytesToHex } from '@noble/hashes/utils.js'
+import { BitcoinTransaction } from '@/types/atomiq'
+import { RBF_SEQUENCE, planChildPaysForParent, planReplacement, signalsRbf, transactionVsize } from '../feeBump'
+import { estimateVsize } from '../feeEstimator'
+
+const network = bitcoin.networks.testnet
+const OWN = 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl'
+const CHANGE = 'tb1q9u62588spffmq4dzjxsr5l297znf3z6j5p2688'
+const RECIPIENT = 'tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97'
+
+const isOwnAddress = (address: string) => address === OWN || address === CHANGE
+const script = (address: string) => bytesToHex(bitcoin.address.toOutputScript(address, network))
+
+function pendingTx(overrides: { sequence?: number; change?: number; inputAddress?: string } = {}): BitcoinTransaction {
+  const inputAddress = overrides.inputAddress || OWN
+
+  return {
+    txid: 'cc'.repeat(32),
+    version: 2,
+    locktime: 0,
+    vin: [{
+      txid: 'aa'.repeat(32),
+      vout: 0,
+      scriptsig: '',
+      scriptsig_asm: '',
+      sequence: overrides.sequence ?? RBF_SEQUENCE,
+      prevout: {
+        scriptpubkey: script(inputAddress),
+        scriptpubkey_asm: '',
+        scriptpubkey_type: 'v0_p2wpkh',
+        scriptpubkey_address: inputAddress,
+        value: 100000
+      }
+    }],
+    vout: [
+      { scriptpubkey: script(RECIPIENT), scriptpubkey_asm: '', scriptpubkey_type: 'v0_p2wpkh', scriptpubkey_address: RECIPIENT, value: 50000 },
+      { scriptpubkey: script(CHANGE), scriptpubkey_asm: '', scriptpubkey_type: 'v0_p2wpkh', scriptpubkey_address: CHANGE, value: overrides.change ?? 49859 }
+    ],
+    size: 222,
+    weight: 561,
+    fee: 0.00000141,
+    status: { confirmed: false }
+  }
+}
+
+describe('feeBump', () => {
+  describe('signalsRbf', () => {
+    it('should detect BIP125 signalling', () => {
+      expect(signalsRbf(pendingTx())).toBe(true)
+      expect(signalsRbf(pendingTx({ sequence: 0xffffffff }))).toBe(false)
+    })
+  })
+
+  describe('planReplacement', () => {
+    it('should take the extra fee out of the change output', () => {
+      const plan = planReplacement(pendingTx(), 10, isOwnAddress, network)
+      const psbt = bitcoin.Psbt.fromBase64(plan.psbt, { network })
+
+      expect(plan.method).toBe('rbf')
+      expect(plan.totalFee).toBeCloseTo(1410 / 100000000, 10)
+      expect(plan.additionalFee).toBeCloseTo(1269 / 100000000, 10)
+      expect(psbt.txOutputs.map(output => Number(output.value))).toEqual([50000, 49859 - 1269])
+      expect(psbt.txInputs[0].sequence).toBe(RBF_SEQUENCE)
+    })
+
+    it('should carry the wallet input fields so the original signers can sign the replacement', () => {
+      const derivation = { masterFingerprint: new Uint8Array([1, 2, 3, 4]), path: "m/84'/1'/0'/0/0", pubkey: new Uint8Array(33).fill(2) }
+      const inputFields = jest.fn(() => ({ bip32Derivation: [derivation] }))
+
+      const plan = planReplacement(pendingTx(), 10, isOwnAddress, network, inputFields)
+
+      expect(inputFields).toHaveBeenCalledWith(OWN)
+      expect(bitcoin.Psbt.fromBase64(plan.psbt, { network }).data.inputs[0].bip32Derivation).toEqual([derivation])
+    })
+
+    it('should pay at least the incremental relay fee on top of the original', () => {
+      const plan = planReplacement(pendingTx(), 1.5, isOwnAddress, network)
+
+      // 1 sat/vB original plus 1 sat/vB increment beats the 1.5 sat/vB target
+      expect(plan.totalFee).toBeCloseTo((141 + 141) / 100000000, 10)
+    })
+
+    it('should refuse transactions that do not signal RBF', () => {
+      expect(() => planReplacement(pendingTx({ sequence: 0xffffffff }), 10, isOwnAddress, network)).toThrow('replace-by-fee')
+    })
+
+    it('should refuse transactions spending inputs we do not control', () => {
+      expect(() => planReplacement(pendingTx({ inputAddress: RECIPIENT }), 10, isOwnAddress, network)).toThrow('does not control')
+    })
+
+    it('should refuse to shrink change below the dust limit', () => {
+      expect(() => planReplacement(pendingTx({ change: 1000 }), 10, isOwnAddress, network)).toThrow('too small')
+    })
+  })
+
+  describe('planChildPaysForParent', () => {
+    it('should spend our change with a fee covering the whole package', () => {
+      const tx = pendingTx({ sequence: 0xffffffff })
+      const plan = planChildPaysForParent(tx, 10, isOwnAddress, OWN, network)
+      const psbt = bitcoin.Psbt.fromBase64(plan.psbt, { network })
+
+      const childVsize = estimateVsize(['p2wpkh'], ['p2wpkh'])
+      const childFee = 10 * (transactionVsize(tx) + childVsize) - 141
+
+      expect(plan.method).toBe('cpfp')
+      expect(bytesToHex(psbt.txInputs[0].hash.slice().reverse())).toBe(tx.txid)
+      expect(psbt.txInputs[0].index).toBe(1)
+      expect(Number(psbt.txOutputs[0].value)).toBe(49859 - childFee)
+      expect(plan.targetFeeRate).toBeCloseTo(10, 5)
+    })
+
+    it('should fail without an output we control', () => {
+      expect(() => planChildPaysForParent(pendingTx(), 10, () => false, OWN, network)).toThrow('controls')
+    })
+  })
+})
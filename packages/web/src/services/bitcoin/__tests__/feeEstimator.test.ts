@@ -0,0 +1,122 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import {
+  FeeEstimator,
+  btcPerKvbToSatPerVbyte,
+  esploraFeeSource,
+  estimateFeeSats,
+  esploraScriptType,
+  estimateVsize,
+  scriptTypeForAddress
+} from '../feeEstimator'
+
+global.fetch = jest.fn()
+
+describe('feeEstimator', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('estimateVsize', () => {
+    it('should size a one-in two-out P2WPKH spend', () => {
+      expect(estimateVsize(['p2wpkh'], ['p2wpkh', 'p2wpkh'])).toBe(141)
+    })
+
+    it('should size legacy spends without a witness discount', () => {
+      expect(estimateVsize(['p2pkh'], ['p2pkh'])).toBe(192)
+    })
+
+    it('should size taproot key-path spends', () => {
+      expect(estimateVsize(['p2tr'], ['p2tr', 'p2tr'])).toBe(154)
+    })
+
+    it('should price a transaction by its virtual size', () => {
+      expect(estimateFeeSats(['p2wpkh', 'p2wpkh'], ['p2wpkh'], 10)).toBe(estimateVsize(['p2wpkh', 'p2wpkh'], ['p2wpkh']) * 10)
+    })
+  })
+
+  describe('scriptTypeForAddress', () => {
+    const network = bitcoin.networks.testnet
+
+    it('should detect native segwit addresses', () => {
+      expect(scriptTypeForAddress('tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl', network)).toBe('p2wpkh')
+    })
+
+    it('should detect legacy and nested addresses', () => {
+      expect(scriptTypeForAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', network)).toBe('p2pkh')
+      expect(scriptTypeForAddress('2MzQwSSnBHWHqSAqtTVQ6v47XtaisrJa1Vc', network)).toBe('p2sh-p2wpkh')
+    })
+
+    it('should detect P2WSH and taproot addresses', () => {
+      const mainnet = bitcoin.networks.bitcoin
+
+      expect(scriptTypeForAddress('bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3', mainnet)).toBe('p2wsh')
+      expect(scriptTypeForAddress('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr', mainnet)).toBe('p2tr')
+    })
+  })
+
+  describe('esploraScriptType', () => {
+    it('should name scripts the way Esplora does', () => {
+      const script = (address: string) => bitcoin.address.toOutputScript(address, bitcoin.networks.bitcoin)
+
+      expect(esploraScriptType(script('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2'))).toBe('p2pkh')
+      expect(esploraScriptType(script('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy'))).toBe('p2sh')
+      expect(esploraScriptType(script('bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3'))).toBe('v0_p2wsh')
+      expect(esploraScriptType(script('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'))).toBe('v1_p2tr')
+      expect(esploraScriptType(bitcoin.script.compile([bitcoin.opcodes.OP_RETURN, new Uint8Array([1])]))).toBe('op_return')
+    })
+  })
+
+  describe('FeeEstimator', () => {
+    it('should map confirmation targets onto tiers', async () => {
+      const estimator = new FeeEstimator(async () => ({ 1: 25.3, 3: 12, 6: 8.1, 144: 1.2 }))
+
+      const estimates = await estimator.getFeeEstimates()
+
+      expect(estimates).toMatchObject({ priority: 26, normal: 9, economy: 2 })
+    })
+
+    it('should fall back to the closest faster target', async () => {
+      const estimator = new FeeEstimator(async () => ({ 1: 30, 2: 20, 25: 5 }))
+
+      expect(await estimator.getFeeRate('normal')).toBe(20)
+      expect(await estimator.getFeeRate('economy')).toBe(5)
+    })
+
+    it('should never go below the minimum relay fee', async () => {
+      const estimator = new FeeEstimator(async () => ({ 1: 0.5, 6: 0.2, 144: 0.1 }))
+
+      expect(await estimator.getFeeEstimates()).toMatchObject({ priority: 1, normal: 1, economy: 1 })
+    })
+
+    it('should cache estimates and serve them when the source fails', async () => {
+      const source = jest.fn()
+        .mockResolvedValueOnce({ 1: 10, 6: 5, 144: 2 })
+        .mockRejectedValueOnce(new Error('Network error'))
+      const estimator = new FeeEstimator(source, { cacheTtlMs: 0 })
+
+      await estimator.getFeeEstimates()
+      const stale = await estimator.getFeeEstimates()
+
+      expect(source).toHaveBeenCalledTimes(2)
+      expect(stale.normal).toBe(5)
+    })
+
+    it('should read Esplora fee estimates', async () => {
+      ;(fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ '1': 15.2, '6': 7.8, '144': 1.01 })
+      })
+
+      const estimator = new FeeEstimator(esploraFeeSource('https://blockstream.info/testnet/api'))
+
+      expect(await estimator.getFeeRate('priority')).toBe(16)
+      expect(fetch).toHaveBeenCalledWith('https://blockstream.info/testnet/api/fee-estimates')
+    })
+  })
+
+  describe('btcPerKvbToSatPerVbyte', () => {
+    it('should convert Bitcoin Core fee rates', () => {
+      expect(btcPerKvbToSatPerVbyte(0.0001)).toBeCloseTo(10)
+    })
+  })
+})
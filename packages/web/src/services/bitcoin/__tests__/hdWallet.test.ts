@@ -0,0 +1,154 @@
+import { HDWallet, MemoryAddressIndexStore } from '../hdWallet'
+
+// BIP84 test vector accounts (abandon ... about)
+const TEST_VPUB = 'vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc'
+const TEST_ZPUB = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+// BIP86 test vector account, m/86'/0'/0'
+const TEST_TAPROOT_XPUB = 'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ'
+
+describe('HDWallet', () => {
+  let store: MemoryAddressIndexStore
+  let wallet: HDWallet
+
+  beforeEach(() => {
+    store = new MemoryAddressIndexStore()
+    wallet = new HDWallet({ xpub: TEST_VPUB, network: 'testnet', gapLimit: 3 }, store)
+  })
+
+  describe('deriveAddress', () => {
+    it('should derive BIP84 receive addresses', () => {
+      expect(wallet.deriveAddress(0)).toEqual({
+        address: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl',
+        publicKey: '02e7ab2537b5d49e970309aae06e9e49f36ce1c9febbd44ec8e0d1cca0b4f9c319',
+        path: "m/84'/1'/0'/0/0"
+      })
+      expect(wallet.deriveAddress(1).address).toBe('tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97')
+    })
+
+    it('should derive change addresses on the internal chain', () => {
+      const change = wallet.getChangeAddress()
+
+      expect(change.address).toBe('tb1q9u62588spffmq4dzjxsr5l297znf3z6j5p2688')
+      expect(change.path).toBe("m/84'/1'/0'/1/0")
+    })
+
+    it('should derive mainnet addresses from a zpub', () => {
+      const mainnet = new HDWallet({ xpub: TEST_ZPUB, network: 'mainnet' }, new MemoryAddressIndexStore())
+
+      expect(mainnet.deriveAddress(0).address).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu')
+      expect(mainnet.deriveAddress(0).path).toBe("m/84'/0'/0'/0/0")
+    })
+
+    it('should derive BIP86 taproot addresses', () => {
+      const taproot = new HDWallet(
+        { xpub: TEST_TAPROOT_XPUB, network: 'mainnet', addressType: 'p2tr' },
+        new MemoryAddressIndexStore()
+      )
+
+      expect(taproot.deriveAddress(0)).toEqual({
+        address: 'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr',
+        publicKey: '03cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115',
+        path: "m/86'/0'/0'/0/0"
+      })
+      expect(taproot.deriveAddress(1).address).toBe('bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh')
+      expect(taproot.deriveAddress(0, 1).address).toBe('bc1p3qkhfews2uk44qtvauqyr2ttdsw7svhkl9nkm9s9c3x4ax5h60wqwruhk7')
+    })
+  })
+
+  describe('configuration', () => {
+    it('should reject an xpub for the wrong network', () => {
+      expect(() => new HDWallet({ xpub: TEST_ZPUB, network: 'testnet' })).toThrow('mainnet')
+    })
+
+    it('should reject unsupported key formats', () => {
+      expect(() => new HDWallet({ xpub: 'ypub123', network: 'mainnet' })).toThrow('Unsupported')
+    })
+
+    it('should refuse taproot addresses from a BIP84 key', () => {
+      expect(() => new HDWallet({ xpub: TEST_ZPUB, network: 'mainnet', addressType: 'p2tr' })).toThrow('cannot derive p2tr')
+    })
+  })
+
+  describe('getDepositAddress', () => {
+    it('should keep a stable address per user', () => {
+      const first = wallet.getDepositAddress('alice')
+      const again = wallet.getDepositAddress('alice')
+      const bob = wallet.getDepositAddress('bob')
+
+      expect(again.address).toBe(first.address)
+      expect(bob.path).toBe("m/84'/1'/0'/0/1")
+    })
+
+    it('should restore assignments from the store', () => {
+      const first = wallet.getDepositAddress('alice')
+      const reloaded = new HDWallet({ xpub: TEST_VPUB, network: 'testnet' }, store)
+
+      expect(reloaded.getDepositAddress('alice').address).toBe(first.address)
+    })
+
+    it('should rotate to a fresh index once the address is funded', () => {
+      const first = wallet.getDepositAddress('alice')
+
+      expect(wallet.markAddressUsed(first.address)).toBe(true)
+      expect(wallet.getDepositAddress('alice').path).toBe("m/84'/1'/0'/0/1")
+    })
+
+    it('should not issue addresses beyond the gap limit', () => {
+      wallet.getDepositAddress('alice')
+      wallet.getDepositAddress('bob')
+      wallet.getDepositAddress('carol')
+
+      expect(() => wallet.getDepositAddress('dave')).toThrow('Gap limit of 3')
+    })
+
+    it('should advance the gap window when addresses are used', () => {
+      const alice = wallet.getDepositAddress('alice')
+      wallet.getDepositAddress('bob')
+      wallet.getDepositAddress('carol')
+      wallet.markAddressUsed(alice.address)
+
+      expect(wallet.getDepositAddress('dave').path).toBe("m/84'/1'/0'/0/3")
+    })
+  })
+
+  describe('restoreIndex', () => {
+    it('should issue new addresses past indexes found in use', () => {
+      wallet.restoreIndex(4)
+      wallet.restoreIndex(2, 1)
+
+      expect(wallet.getNextAddress().path).toBe("m/84'/1'/0'/0/5")
+      expect(wallet.getChangeAddress().path).toBe("m/84'/1'/0'/1/3")
+      expect(wallet.getIssuedAddresses()).toHaveLength(6)
+    })
+  })
+
+  describe('reserveChangeAddress', () => {
+    it('should hand out the same change address until a transaction paying to it is reserved', () => {
+      const change = wallet.getChangeAddress()
+
+      expect(wallet.getChangeAddress()).toEqual(change)
+      expect(wallet.reserveChangeAddress(wallet.deriveAddress(0).address)).toBe(false)
+      expect(wallet.reserveChangeAddress(change.address)).toBe(true)
+      expect(wallet.reserveChangeAddress(change.address)).toBe(false)
+      expect(wallet.getChangeAddress().path).toBe("m/84'/1'/0'/1/1")
+    })
+
+    it('should stop at the gap limit until reserved change is seen on-chain', () => {
+      const narrow = new HDWallet({ xpub: TEST_VPUB, network: 'testnet', gapLimit: 2 }, new MemoryAddressIndexStore())
+      narrow.reserveChangeAddress(narrow.getChangeAddress().address)
+      const second = narrow.getChangeAddress()
+      narrow.reserveChangeAddress(second.address)
+
+      expect(() => narrow.getChangeAddress()).toThrow('Gap limit of 2 unused change addresses')
+
+      narrow.markAddressUsed(second.address)
+      expect(narrow.getChangeAddress().path).toBe("m/84'/1'/0'/1/2")
+    })
+  })
+
+  describe('markAddressUsed', () => {
+    it('should ignore addresses the wallet did not issue', () => {
+      expect(wallet.markAddressUsed('tb1qunknown')).toBe(false)
+    })
+  })
+})
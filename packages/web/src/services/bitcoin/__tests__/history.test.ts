@@ -0,0 +1,79 @@
+import { BitcoinTransaction } from '@/types/atomiq'
+import { AddressHistoryPage } from '../chainBackend'
+import { classifyTransaction, readHistoryPage } from '../history'
+
+const OURS = 'tb1qours'
+const CHANGE = 'tb1qchange'
+const THEIRS = 'tb1qtheirs'
+
+function tx(txid: string, inputs: string[], outputs: [string, number][], height?: number): BitcoinTransaction {
+  return {
+    txid,
+    version: 2,
+    locktime: 0,
+    vin: inputs.map((address, vout) => ({
+      txid: 'ff'.repeat(32),
+      vout,
+      scriptsig: '',
+      scriptsig_asm: '',
+      prevout: { scriptpubkey: '', scriptpubkey_asm: '', scriptpubkey_type: 'v0_p2wpkh', scriptpubkey_address: address, value: 100000 }
+    })),
+    vout: outputs.map(([address, value]) => ({
+      scriptpubkey: '',
+      scriptpubkey_asm: '',
+      scriptpubkey_type: 'v0_p2wpkh',
+      scriptpubkey_address: address,
+      value
+    })),
+    size: 200,
+    fee: 0.00001,
+    status: height === undefined ? { confirmed: false } : { confirmed: true, block_height: height, block_time: 1700000000 }
+  }
+}
+
+describe('classifyTransaction', () => {
+  const own = new Set([OURS, CHANGE])
+
+  it('should tell deposits, withdrawals, self-transfers and consolidations apart', () => {
+    expect(classifyTransaction(tx('a', [THEIRS], [[OURS, 50000], [THEIRS, 49000]]), own))
+      .toMatchObject({ direction: 'deposit', amount: 0.0005, fee: 0 })
+    expect(classifyTransaction(tx('b', [OURS], [[THEIRS, 30000], [CHANGE, 69000]]), own))
+      .toMatchObject({ direction: 'withdrawal', amount: 0.0003, fee: 0.00001 })
+    expect(classifyTransaction(tx('c', [OURS], [[CHANGE, 99000]]), own))
+      .toMatchObject({ direction: 'self-transfer', amount: 0.00099 })
+    expect(classifyTransaction(tx('d', [OURS, CHANGE], [[CHANGE, 199000]]), own))
+      .toMatchObject({ direction: 'consolidation', amount: 0.00199 })
+  })
+
+  it('should date confirmed transactions by their block', () => {
+    expect(classifyTransaction(tx('a', [THEIRS], [[OURS, 1000]], 100), own).timestamp)
+      .toEqual(new Date(1700000000 * 1000))
+  })
+})
+
+describe('readHistoryPage', () => {
+  const pages: Record<string, AddressHistoryPage> = {
+    [`${OURS}:`]: { transactions: [tx('shared', [OURS], [[CHANGE, 1000]], 90), tx('new', [THEIRS], [[OURS, 1000]])], lastSeenTxid: 'shared' },
+    [`${CHANGE}:`]: { transactions: [tx('mid', [THEIRS], [[CHANGE, 1000]], 95), tx('shared', [OURS], [[CHANGE, 1000]], 90)], lastSeenTxid: null },
+    [`${OURS}:shared`]: { transactions: [tx('old', [THEIRS], [[OURS, 1000]], 80)], lastSeenTxid: null }
+  }
+  const backend = {
+    getAddressTransactionsPage: jest.fn(async (address: string, lastSeenTxid?: string) => pages[`${address}:${lastSeenTxid || ''}`])
+  } as any
+
+  it('should merge every address newest first and carry on only where there is more', async () => {
+    const first = await readHistoryPage(backend, [OURS, CHANGE], new Set([OURS, CHANGE]))
+
+    expect(first.transactions.map(entry => entry.transaction.txid)).toEqual(['new', 'mid', 'shared'])
+    expect(first.transactions[2].direction).toBe('self-transfer')
+
+    const second = await readHistoryPage(backend, [OURS, CHANGE], new Set([OURS, CHANGE]), first.cursor)
+    expect(backend.getAddressTransactionsPage).toHaveBeenLastCalledWith(OURS, 'shared')
+    expect(second.transactions.map(entry => entry.transaction.txid)).toEqual(['old'])
+    expect(second.cursor).toBeNull()
+  })
+
+  it('should refuse a cursor it did not write', async () => {
+    await expect(readHistoryPage(backend, [OURS], new Set([OURS]), 'not a cursor')).rejects.toThrow('Invalid transaction history cursor')
+  })
+})
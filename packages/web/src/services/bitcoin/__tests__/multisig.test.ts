@@ -0,0 +1,193 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { HDKey } from '@scure/bip32'
+import { schnorr } from '@noble/curves/secp256k1.js'
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils.js'
+import { MemoryAddressIndexStore } from '../hdWallet'
+import { LocalKeySigner } from '../psbtSigner'
+import { MultisigScriptType, MultisigSigningSession, MultisigWallet, UNSPENDABLE_INTERNAL_KEY } from '../multisig'
+
+const network = bitcoin.networks.testnet
+const TESTNET_VERSIONS = { private: 0x04358394, public: 0x043587cf }
+const PREV_TXID = 'bb'.repeat(32)
+
+// Three cosigner accounts at the BIP48 P2WSH path
+const accounts = [1, 2, 3].map(seed =>
+  HDKey.fromMasterSeed(new Uint8Array(32).fill(seed), TESTNET_VERSIONS).derive("m/48'/1'/0'/2'")
+)
+const xpubs = accounts.map(account => account.publicExtendedKey)
+const signers = accounts.map(account => new LocalKeySigner(account.deriveChild(0).deriveChild(0).privateKey!, network))
+
+function createWallet(scriptType: MultisigScriptType = 'p2wsh', cosigners: string[] = xpubs): MultisigWallet {
+  return new MultisigWallet({
+    cosigners: cosigners.map(xpub => ({ xpub, name: `cosigner-${xpubs.indexOf(xpub) + 1}` })),
+    threshold: 2,
+    network: 'testnet',
+    scriptType
+  }, new MemoryAddressIndexStore())
+}
+
+function buildSpend(wallet: MultisigWallet, change = wallet.getChangeAddress().address): string {
+  const { address } = wallet.getNextAddress()
+  const psbt = new bitcoin.Psbt({ network })
+  psbt.addInput({
+    hash: PREV_TXID,
+    index: 0,
+    witnessUtxo: { script: bitcoin.address.toOutputScript(address, network), value: BigInt(100000) },
+    ...wallet.inputFields(address)
+  })
+  psbt.addOutput({ address: change, value: BigInt(90000) })
+  return psbt.toBase64()
+}
+
+describe('multisig', () => {
+  describe('MultisigWallet', () => {
+    it('should derive P2WSH sortedmulti addresses regardless of cosigner order', () => {
+      const wallet = createWallet()
+      const derived = wallet.deriveAddress(0)
+      const chunks = bitcoin.script.decompile(hexToBytes(derived.script))!
+      const keys = chunks.slice(1, 4).map(chunk => bytesToHex(chunk as Uint8Array))
+
+      expect(derived.address).toMatch(/^tb1q[a-z0-9]{58}$/)
+      expect(chunks[0]).toBe(bitcoin.opcodes.OP_2)
+      expect(chunks[4]).toBe(bitcoin.opcodes.OP_3)
+      expect(chunks[5]).toBe(bitcoin.opcodes.OP_CHECKMULTISIG)
+      expect(keys).toEqual([...derived.publicKeys].sort())
+      expect(createWallet('p2wsh', [...xpubs].reverse()).deriveAddress(0).address).toBe(derived.address)
+    })
+
+    it('should derive tapscript addresses behind the unspendable internal key', () => {
+      const wallet = createWallet('p2tr')
+      const derived = wallet.deriveAddress(0)
+      const chunks = bitcoin.script.decompile(hexToBytes(derived.script))!
+      const expected = bitcoin.payments.p2tr({
+        internalPubkey: UNSPENDABLE_INTERNAL_KEY,
+        scriptTree: { output: hexToBytes(derived.script) },
+        network
+      })
+
+      expect(derived.address).toBe(expected.address)
+      expect(chunks.filter(chunk => chunk === bitcoin.opcodes.OP_CHECKSIGADD)).toHaveLength(2)
+      expect(chunks.slice(-2)).toEqual([bitcoin.opcodes.OP_2, bitcoin.opcodes.OP_NUMEQUAL])
+      expect(createWallet('p2tr', [...xpubs].reverse()).deriveAddress(0).address).toBe(derived.address)
+    })
+
+    it('should find issued receive and change addresses', () => {
+      const wallet = createWallet()
+      const receive = wallet.getNextAddress()
+      const change = wallet.getChangeAddress()
+      const fresh = createWallet()
+      fresh.getNextAddress()
+      fresh.getChangeAddress()
+
+      expect(fresh.findAddress(receive.address)).toMatchObject({ chain: 0, index: 0 })
+      expect(fresh.findAddress(change.address)).toMatchObject({ chain: 1, index: 0 })
+      expect(fresh.findAddress('tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl')).toBeNull()
+    })
+
+    it('should keep each user on one deposit address until it is funded', () => {
+      const wallet = new MultisigWallet({ cosigners: xpubs, threshold: 2, network: 'testnet', gapLimit: 2 }, new MemoryAddressIndexStore())
+      const first = wallet.getDepositAddress('user-1')
+
+      expect(wallet.getDepositAddress('user-1')).toEqual(first)
+      expect(wallet.getDepositAddress('user-2').index).toBe(1)
+
+      // Both addresses are unused, so nobody new gets one until a deposit arrives
+      expect(() => wallet.getDepositAddress('user-3')).toThrow('Gap limit of 2')
+      expect(wallet.markAddressUsed(first.address)).toBe(true)
+      expect(wallet.getDepositAddress('user-1').index).toBe(2)
+    })
+
+    it('should reject invalid configurations', () => {
+      expect(() => new MultisigWallet({ cosigners: xpubs, threshold: 4, network: 'testnet' })).toThrow('Threshold')
+      expect(() => new MultisigWallet({ cosigners: [xpubs[0], xpubs[0]], threshold: 1, network: 'testnet' })).toThrow('different xpub')
+      expect(() => new MultisigWallet({ cosigners: xpubs, threshold: 2, network: 'mainnet' })).toThrow('testnet')
+      expect(() => new MultisigWallet({ cosigners: [accounts[0].privateExtendedKey], threshold: 1, network: 'testnet' })).toThrow()
+    })
+
+    it('should size inputs for the threshold of signatures', () => {
+      // 2-of-3 P2WSH matches the fee estimator's 418 WU assumption
+      expect(createWallet().inputWeight()).toBe(418)
+      expect(createWallet('p2tr').inputWeight()).toBe(435)
+    })
+  })
+
+  describe('MultisigSigningSession', () => {
+    it('should collect P2WSH signatures over rounds and finalize at the threshold', async () => {
+      const wallet = createWallet()
+      const session = new MultisigSigningSession(wallet, buildSpend(wallet))
+
+      const first = await session.requestSignatures(signers[0])
+      expect(first).toEqual({ threshold: 2, cosigners: 3, signedBy: ['cosigner-1'], remaining: 1, complete: false })
+      expect(() => session.finalize()).toThrow('1 more cosigner signature(s) needed')
+
+      const second = await session.requestSignatures(signers[2])
+      expect(second).toMatchObject({ signedBy: ['cosigner-1', 'cosigner-3'], remaining: 0, complete: true })
+      expect(session.rounds.map(round => round.cosigners)).toEqual([['cosigner-1'], ['cosigner-3']])
+
+      const transaction = bitcoin.Transaction.fromHex(session.finalize().hex)
+      const witness = transaction.ins[0].witness
+      expect(witness).toHaveLength(4)
+      expect(witness[0]).toHaveLength(0)
+      expect(bytesToHex(witness[3])).toBe(wallet.deriveAddress(0).script)
+    })
+
+    it('should use exactly the threshold when every cosigner signed', async () => {
+      const wallet = createWallet()
+      const session = new MultisigSigningSession(wallet, buildSpend(wallet))
+      for (const signer of signers) {
+        await session.requestSignatures(signer)
+      }
+
+      expect(bitcoin.Transaction.fromHex(session.finalize().hex).ins[0].witness).toHaveLength(4)
+    })
+
+    it('should finalize a tapscript spend with an empty slot for the missing key', async () => {
+      const wallet = createWallet('p2tr')
+      const session = new MultisigSigningSession(wallet, buildSpend(wallet))
+      await session.requestSignatures(signers[1])
+      await session.requestSignatures(signers[2])
+
+      const transaction = bitcoin.Transaction.fromHex(session.finalize().hex)
+      const [...stack] = transaction.ins[0].witness
+      const controlBlock = stack.pop()!
+      const leaf = stack.pop()!
+      const leafHash = bitcoin.crypto.taggedHash('TapLeaf', concatBytes(new Uint8Array([0xc0, leaf.length]), leaf))
+      const prevout = bitcoin.address.toOutputScript(wallet.deriveAddress(0).address, network)
+      const sighash = transaction.hashForWitnessV1(0, [prevout], [BigInt(100000)], bitcoin.Transaction.SIGHASH_DEFAULT, leafHash)
+
+      // Stack items run last key first; the keys in the leaf are sorted
+      const keys = (bitcoin.script.decompile(leaf)!.filter(chunk => chunk instanceof Uint8Array) as Uint8Array[]).reverse()
+      expect(controlBlock).toHaveLength(33)
+      expect(stack.filter(item => item.length === 0)).toHaveLength(1)
+      stack.forEach((item, i) => {
+        if (item.length) {
+          expect(schnorr.verify(item, sighash, keys[i])).toBe(true)
+        }
+      })
+    })
+
+    it('should reject a round that changes the transaction', async () => {
+      const wallet = createWallet()
+      const session = new MultisigSigningSession(wallet, buildSpend(wallet))
+      const tampered = bitcoin.Psbt.fromBase64(buildSpend(wallet, wallet.getChangeAddress(1).address), { network })
+
+      await expect(session.requestSignatures({ signPsbt: async () => tampered.toBase64() })).rejects.toThrow('does not match')
+    })
+
+    it('should reject rounds that add nothing or carry a bad signature', async () => {
+      const wallet = createWallet()
+      const session = new MultisigSigningSession(wallet, buildSpend(wallet))
+      await session.requestSignatures(signers[0])
+
+      expect(() => session.addSignedPsbt(session.toBase64())).toThrow('adds no new signatures')
+
+      const signed = bitcoin.Psbt.fromBase64(await signers[1].signPsbt(session.toBase64()), { network })
+      const forged = signed.data.inputs[0].partialSig!.find(sig => sig.pubkey.length === 33 &&
+        bytesToHex(sig.pubkey) === wallet.deriveAddress(0).publicKeys[1])!
+      forged.signature[10] ^= 1
+
+      expect(() => session.addSignedPsbt(signed.toBase64())).toThrow('Invalid signature from cosigner-2')
+      expect(session.getProgress().signedBy).toEqual(['cosigner-1'])
+    })
+  })
+})
@@ -0,0 +1,259 @@
+import { MockBitcoinService } from '../../bitcoin'
+import { MemoryPayoutStore, PayoutBatcher } from '../payoutBatcher'
+import { BitcoinTransaction, PaymentOutput, Payout } from '@/types/atomiq'
+
+const ALICE = 'tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97'
+const BOB = 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl'
+const BATCH = 'aa'.repeat(32)
+const FUNDING = 'dd'.repeat(32)
+const CONFLICT = 'cc'.repeat(32)
+
+describe('PayoutBatcher', () => {
+  let bitcoin: MockBitcoinService
+  let batcher: PayoutBatcher
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    bitcoin = new MockBitcoinService()
+    batcher = new PayoutBatcher(bitcoin, 'testnet', { windowMs: 60000, maxOutputs: 3, maxAttempts: 2 })
+  })
+
+  afterEach(() => {
+    batcher.stop()
+    jest.useRealTimers()
+  })
+
+  it('should pay everything queued in one window with one transaction', async () => {
+    const createBatch = jest.spyOn(bitcoin, 'createBatchTransaction')
+    jest.spyOn(bitcoin, 'sendTransaction').mockResolvedValue('aa'.repeat(32))
+
+    const first = batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+    const second = batcher.enqueue({ userId: 'user-2', destination: BOB, amount: 0.002 })
+    expect(createBatch).not.toHaveBeenCalled()
+
+    jest.advanceTimersByTime(60000)
+    await batcher.flush()
+
+    expect(createBatch).toHaveBeenCalledTimes(1)
+    expect(createBatch.mock.calls[0][0]).toEqual([
+      { address: ALICE, amount: 0.001 },
+      { address: BOB, amount: 0.002 }
+    ])
+    expect(batcher.getPayout(first.id)).toMatchObject({ status: 'broadcast', txid: 'aa'.repeat(32), vout: 0 })
+    expect(batcher.getPayout(second.id)).toMatchObject({ status: 'broadcast', txid: 'aa'.repeat(32), vout: 1 })
+  })
+
+  it('should send straight away once the batch is full', async () => {
+    const send = jest.spyOn(bitcoin, 'sendTransaction').mockResolvedValue('aa'.repeat(32))
+
+    for (let i = 0; i < 4; i++) {
+      batcher.enqueue({ userId: `user-${i}`, destination: ALICE, amount: 0.001 })
+    }
+    // The third payout filled the batch; the fourth waits for the next one
+    await batcher.flush()
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(batcher.listPayouts().map(payout => payout.status)).toEqual(['broadcast', 'broadcast', 'broadcast', 'queued'])
+
+    await batcher.flush()
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refuse payouts that could never be paid', () => {
+    expect(() => batcher.enqueue({ userId: 'user-1', destination: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', amount: 0.001 }))
+      .toThrow()
+    expect(() => batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.000001 })).toThrow('dust limit')
+    expect(batcher.listPayouts()).toEqual([])
+  })
+
+  it('should send the part of a batch the wallet can fund and leave the rest queued', async () => {
+    jest.spyOn(bitcoin, 'createBatchTransaction').mockImplementation(async (payments: PaymentOutput[]) => {
+      if (payments.length > 1) {
+        throw { code: 'BITCOIN_TRANSACTION_CREATION_FAILED', message: 'Insufficient balance' }
+      }
+      return MockBitcoinService.prototype.createBatchTransaction.call(bitcoin, payments)
+    })
+    jest.spyOn(bitcoin, 'sendTransaction').mockResolvedValue('aa'.repeat(32))
+
+    const first = batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+    const second = batcher.enqueue({ userId: 'user-2', destination: BOB, amount: 0.002 })
+    await batcher.flush()
+
+    expect(batcher.getPayout(first.id)).toMatchObject({ status: 'broadcast', vout: 0 })
+    expect(batcher.getPayout(second.id)).toMatchObject({ status: 'queued', attempts: 0 })
+  })
+
+  it('should requeue payouts when the batch fails to go out and give up after maxAttempts', async () => {
+    jest.spyOn(bitcoin, 'sendTransaction').mockRejectedValue({ code: 'BITCOIN_TRANSACTION_SEND_FAILED', message: 'No PSBT signer configured' })
+    const updates: Payout[] = []
+    batcher.subscribe(payout => updates.push(payout))
+
+    const payout = batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+    await batcher.flush()
+    expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'queued', attempts: 1, error: 'No PSBT signer configured' })
+
+    await batcher.flush()
+    expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'failed', attempts: 2 })
+    expect(updates.map(update => update.status)).toEqual(['queued', 'queued', 'failed'])
+  })
+
+  it('should move every payout in a batch to its replacement and confirm them together', async () => {
+    jest.spyOn(bitcoin, 'sendTransaction').mockResolvedValue('aa'.repeat(32))
+    jest.spyOn(bitcoin, 'bumpFee').mockResolvedValue({
+      txid: 'aa'.repeat(32),
+      newTxid: 'bb'.repeat(32),
+      method: 'rbf',
+      currentFeeRate: 2,
+      targetFeeRate: 20,
+      additionalFee: 0.00003,
+      totalFee: 0.000033
+    })
+    jest.spyOn(bitcoin, 'getTransaction').mockImplementation(async (txid: string) => ({
+      txid, version: 2, locktime: 0, vin: [], vout: [], size: 200, fee: 0.000033, status: { confirmed: true }
+    }))
+
+    batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+    batcher.enqueue({ userId: 'user-2', destination: BOB, amount: 0.002 })
+    await batcher.flush()
+    await batcher.bumpBatch('aa'.repeat(32), { feeRate: 20 })
+    await batcher.refresh()
+
+    expect(batcher.listPayouts()).toEqual([
+      expect.objectContaining({ status: 'confirmed', txid: 'bb'.repeat(32), replacedTxids: ['aa'.repeat(32)], vout: 0 }),
+      expect.objectContaining({ status: 'confirmed', txid: 'bb'.repeat(32), replacedTxids: ['aa'.repeat(32)], vout: 1 })
+    ])
+    await expect(batcher.bumpBatch('aa'.repeat(32))).rejects.toThrow('No payouts')
+  })
+
+  describe('after a reload', () => {
+    it('should pick the queue back up from the store', async () => {
+      const store = new MemoryPayoutStore()
+      const first = new PayoutBatcher(bitcoin, 'testnet', { windowMs: 60000 }, store)
+      const payout = first.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+      first.stop()
+
+      const send = jest.spyOn(bitcoin, 'sendTransaction').mockResolvedValue(BATCH)
+      const reloaded = new PayoutBatcher(bitcoin, 'testnet', { windowMs: 60000 }, store)
+      try {
+        expect(reloaded.getPayout(payout.id)).toEqual(payout)
+
+        await jest.advanceTimersByTimeAsync(60000)
+
+        expect(send).toHaveBeenCalledTimes(1)
+        expect(reloaded.getPayout(payout.id)).toMatchObject({ status: 'broadcast', txid: BATCH })
+      } finally {
+        reloaded.stop()
+      }
+    })
+
+    it('should check a batch signed before the reload instead of paying it again', async () => {
+      const store = new MemoryPayoutStore()
+      const first = new PayoutBatcher(bitcoin, 'testnet', { windowMs: 60000 }, store)
+      jest.spyOn(bitcoin, 'sendTransaction').mockReturnValue(new Promise(() => undefined))
+      const payout = first.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+      void first.flush()
+      await jest.advanceTimersByTimeAsync(0)
+      const signedTxid = Object.keys(store.load()!.batches)[0]
+
+      const reloaded = new PayoutBatcher(bitcoin, 'testnet', { windowMs: 60000 }, store)
+      expect(reloaded.getPayout(payout.id)).toMatchObject({ status: 'broadcast', txid: signedTxid, vout: 0 })
+      expect(await reloaded.flush()).toBeNull()
+    })
+  })
+
+  describe('when the broadcast fails', () => {
+    it('should keep a batch the backend knows as sent rather than requeue it', async () => {
+      jest.spyOn(bitcoin, 'sendTransaction').mockRejectedValue(new Error('socket hang up'))
+      const lookup = jest.spyOn(bitcoin, 'getTransactionStatus').mockResolvedValue({ confirmed: false })
+
+      const payout = batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+      const txid = await batcher.flush()
+
+      expect(lookup).toHaveBeenCalledWith(txid)
+      expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'broadcast', txid, attempts: 0 })
+    })
+
+    it('should follow the batch as sent when the backend cannot tell', async () => {
+      jest.spyOn(bitcoin, 'sendTransaction').mockRejectedValue(new Error('socket hang up'))
+      jest.spyOn(bitcoin, 'getTransactionStatus').mockRejectedValue(new Error('backend unavailable'))
+
+      const payout = batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+      await batcher.flush()
+
+      expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'broadcast', attempts: 0 })
+    })
+  })
+
+  describe('refresh', () => {
+    let payout: Payout
+
+    const batchTransaction = (payments: PaymentOutput[]): BitcoinTransaction => ({
+      txid: BATCH,
+      version: 2,
+      locktime: 0,
+      vin: [{ txid: FUNDING, vout: 1, scriptsig: '', scriptsig_asm: '' }],
+      vout: [],
+      size: 110 + 31 * payments.length,
+      fee: 0.00001,
+      status: { confirmed: false },
+      hex: '0200'
+    })
+
+    beforeEach(async () => {
+      jest.spyOn(bitcoin, 'createBatchTransaction').mockImplementation(async payments => batchTransaction(payments))
+      jest.spyOn(bitcoin, 'sendTransaction').mockResolvedValue(BATCH)
+      jest.spyOn(bitcoin, 'getTransaction').mockRejectedValue(new Error('Transaction not found'))
+      payout = batcher.enqueue({ userId: 'user-1', destination: ALICE, amount: 0.001 })
+      await batcher.flush()
+    })
+
+    it('should leave the batch alone while the backend cannot be reached', async () => {
+      jest.spyOn(bitcoin, 'getTransactionStatus').mockRejectedValue(new Error('backend unavailable'))
+
+      await batcher.refresh()
+
+      expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'broadcast', txid: BATCH })
+    })
+
+    it('should rebroadcast a batch that dropped out of the mempool', async () => {
+      jest.spyOn(bitcoin, 'getTransactionStatus').mockResolvedValue(null)
+      const broadcast = jest.spyOn(bitcoin, 'broadcastTransaction').mockResolvedValue(BATCH)
+
+      await batcher.refresh()
+
+      expect(broadcast).toHaveBeenCalledWith('0200')
+      expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'broadcast', txid: BATCH })
+    })
+
+    it('should requeue a dropped batch that cannot be rebroadcast', async () => {
+      jest.spyOn(bitcoin, 'getTransactionStatus').mockResolvedValue(null)
+      jest.spyOn(bitcoin, 'broadcastTransaction').mockRejectedValue(new Error('min relay fee not met'))
+
+      await batcher.refresh()
+
+      expect(batcher.getPayout(payout.id)).toMatchObject({
+        status: 'queued',
+        attempts: 1,
+        txid: undefined,
+        error: expect.stringMatching(/min relay fee not met/)
+      })
+    })
+
+    it('should requeue a batch only once a conflicting spend of its inputs confirms', async () => {
+      const spender = jest.spyOn(bitcoin, 'getSpendingTransaction').mockResolvedValue(CONFLICT)
+      const lookup = jest.spyOn(bitcoin, 'getTransactionStatus').mockImplementation(async txid =>
+        txid === CONFLICT ? { confirmed: false } : null)
+      const broadcast = jest.spyOn(bitcoin, 'broadcastTransaction')
+
+      await batcher.refresh()
+
+      expect(spender).toHaveBeenCalledWith(FUNDING, 1)
+      expect(broadcast).not.toHaveBeenCalled()
+      expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'broadcast', txid: BATCH })
+
+      lookup.mockImplementation(async txid => txid === CONFLICT ? { confirmed: true, block_height: 100 } : null)
+      await batcher.refresh()
+
+      expect(batcher.getPayout(payout.id)).toMatchObject({ status: 'queued', error: `Batch ${BATCH} was double-spent by ${CONFLICT}` })
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1.js'
+import { hexToBytes } from '@noble/hashes/utils.js'
+import { LocalKeySigner, OfflineSigner, assertSameTransaction, finalizePsbt } from '../psbtSigner'
+
+const network = bitcoin.networks.testnet
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001'
+const OTHER_KEY = '0000000000000000000000000000000000000000000000000000000000000002'
+const PREV_TXID = 'aa'.repeat(32)
+
+const payment = bitcoin.payments.p2wpkh({
+  pubkey: secp256k1.getPublicKey(hexToBytes(PRIVATE_KEY), true),
+  network
+})
+
+function buildPsbt(outputValue = BigInt(90000)): string {
+  const psbt = new bitcoin.Psbt({ network })
+  psbt.addInput({
+    hash: PREV_TXID,
+    index: 0,
+    witnessUtxo: { script: payment.output!, value: BigInt(100000) }
+  })
+  psbt.addOutput({ address: payment.address!, value: outputValue })
+  return psbt.toBase64()
+}
+
+describe('psbtSigner', () => {
+  describe('LocalKeySigner', () => {
+    it('should sign and finalize a P2WPKH spend', async () => {
+      const signer = new LocalKeySigner(PRIVATE_KEY, network)
+      const signed = await signer.signPsbt(buildPsbt())
+      const finalized = finalizePsbt(signed, network)
+      const transaction = bitcoin.Transaction.fromHex(finalized.hex)
+
+      expect(finalized.txid).toBe(transaction.getId())
+      expect(finalized.vsize).toBe(transaction.virtualSize())
+      expect(transaction.ins[0].witness).toHaveLength(2)
+    })
+
+    it('should sign and finalize a taproot key-path spend', async () => {
+      const taproot = bitcoin.payments.p2tr({
+        internalPubkey: secp256k1.getPublicKey(hexToBytes(PRIVATE_KEY), true).slice(1),
+        network
+      })
+      const psbt = new bitcoin.Psbt({ network })
+      psbt.addInput({ hash: PREV_TXID, index: 0, witnessUtxo: { script: taproot.output!, value: BigInt(100000) } })
+      psbt.addOutput({ address: payment.address!, value: BigInt(90000) })
+
+      const signer = new LocalKeySigner(PRIVATE_KEY, network)
+      const transaction = bitcoin.Transaction.fromHex(finalizePsbt(await signer.signPsbt(psbt.toBase64()), network).hex)
+
+      // A lone 64-byte Schnorr signature over the SIGHASH_DEFAULT digest, valid for the output key
+      const [signature] = transaction.ins[0].witness
+      const sighash = transaction.hashForWitnessV1(0, [taproot.output!], [BigInt(100000)], bitcoin.Transaction.SIGHASH_DEFAULT)
+      expect(transaction.ins[0].witness).toHaveLength(1)
+      expect(signature).toHaveLength(64)
+      expect(schnorr.verify(signature, sighash, taproot.pubkey!)).toBe(true)
+    })
+
+    it('should refuse inputs it holds no key for', async () => {
+      const signer = new LocalKeySigner(OTHER_KEY, network)
+
+      await expect(signer.signPsbt(buildPsbt())).rejects.toThrow()
+    })
+  })
+
+  describe('OfflineSigner', () => {
+    it('should accept the PSBT returned by the external signer', async () => {
+      const localSigner = new LocalKeySigner(PRIVATE_KEY, network)
+      const signer = new OfflineSigner(psbt => localSigner.signPsbt(psbt), network)
+
+      const signed = await signer.signPsbt(buildPsbt())
+
+      expect(() => finalizePsbt(signed, network)).not.toThrow()
+    })
+
+    it('should reject a PSBT whose outputs were changed', async () => {
+      const signer = new OfflineSigner(async () => buildPsbt(BigInt(80000)), network)
+
+      await expect(signer.signPsbt(buildPsbt())).rejects.toThrow('does not match')
+    })
+  })
+
+  describe('assertSameTransaction', () => {
+    it('should pass for an identical transaction', () => {
+      expect(() => assertSameTransaction(buildPsbt(), buildPsbt(), network)).not.toThrow()
+    })
+  })
+
+  describe('finalizePsbt', () => {
+    it('should fail on an unsigned PSBT', () => {
+      expect(() => finalizePsbt(buildPsbt(), network)).toThrow()
+    })
+  })
+})
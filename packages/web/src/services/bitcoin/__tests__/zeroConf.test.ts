@@ -0,0 +1,56 @@
+import { BitcoinTransaction } from '@/types/atomiq'
+import { assessZeroConf } from '../zeroConf'
+
+const ADDRESS = 'tb1qd7spv5q28348xl4myc8zmh983w5jx32cjhkn97'
+
+function deposit(value: number, fee: number, sequence = 0xffffffff): BitcoinTransaction {
+  return {
+    txid: 'aa'.repeat(32),
+    version: 2,
+    locktime: 0,
+    vin: [{ txid: 'bb'.repeat(32), vout: 0, scriptsig: '', scriptsig_asm: '', sequence }],
+    vout: [
+      { value, scriptpubkey: '', scriptpubkey_asm: '', scriptpubkey_type: 'v0_p2wpkh', scriptpubkey_address: ADDRESS },
+      { value: 50000, scriptpubkey: '', scriptpubkey_asm: '', scriptpubkey_type: 'v0_p2wpkh', scriptpubkey_address: 'tb1qother' }
+    ],
+    size: 200,
+    fee,
+    status: { confirmed: false }
+  }
+}
+
+describe('assessZeroConf', () => {
+  const policy = { maxAmount: 0.001, minFeeRate: 5 }
+
+  it('should credit a small deposit paying a good fee without RBF', () => {
+    expect(assessZeroConf(deposit(50000, 0.00002), ADDRESS, policy)).toEqual({
+      credit: true,
+      amount: 0.0005,
+      feeRate: 10,
+      rbf: false,
+      reasons: []
+    })
+  })
+
+  it('should refuse deposits above the limit or below the fee rate', () => {
+    const assessment = assessZeroConf(deposit(200000, 0.000004), ADDRESS, policy)
+
+    expect(assessment.credit).toBe(false)
+    expect(assessment.reasons).toEqual([
+      'Amount is above the 0.001 BTC instant credit limit',
+      'Fee rate of 2 sat/vB is below the 5 sat/vB instant credit minimum'
+    ])
+  })
+
+  it('should flag RBF-signalled inputs and only refuse them when the policy says so', () => {
+    const replaceable = deposit(50000, 0.00002, 0xfffffffd)
+
+    expect(assessZeroConf(replaceable, ADDRESS, policy)).toMatchObject({ credit: false, rbf: true })
+    expect(assessZeroConf(replaceable, ADDRESS, { ...policy, allowRbf: true })).toMatchObject({ credit: true, rbf: true })
+  })
+
+  it('should refuse a transaction that pays the address nothing', () => {
+    expect(assessZeroConf(deposit(50000, 0.00002), 'tb1qsomeoneelse', policy).reasons)
+      .toContain('Transaction pays nothing to the address')
+  })
+})
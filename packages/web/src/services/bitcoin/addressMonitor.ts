@@ -0,0 +1,353 @@
+import { AddressEvent, AddressEventType, BitcoinTransaction, ZeroConfPolicy } from '@/types/atomiq'
+import { assessZeroConf } from './zeroConf'
+
+export interface TransactionStatus {
+  confirmed: boolean
+  block_height?: number
+  block_hash?: string
+  block_time?: number
+}
+
+/**
+ * Chain access the monitor needs; any backend (Esplora, Core, Electrum) can provide it
+ */
+export interface AddressMonitorBackend {
+  getAddressTransactions(address: string): Promise<BitcoinTransaction[]>
+  getTransactionStatus(txid: string): Promise<TransactionStatus | null> // null once the node no longer knows the txid
+  getTipHeight(): Promise<number>
+  // txid of the transaction spending an outpoint, in the mempool or a block; null while unspent
+  getSpendingTransaction?(txid: string, vout: number): Promise<string | null>
+  // Push-capable backends (Electrum) notify on change instead of being polled; both return an unsubscribe
+  subscribeAddress?(address: string, onChange: () => void): () => void
+  subscribeBlocks?(onBlock: () => void): () => void
+}
+
+export interface AddressMonitorOptions {
+  pollInterval?: number // ms
+  requiredConfirmations?: number
+  finalityDepth?: number // confirmations after which a transaction is no longer checked for reorgs
+  concurrency?: number // addresses fetched in parallel per poll
+  zeroConf?: ZeroConfPolicy // assess mempool deposits for instant credit and watch them for double-spends
+}
+
+export type AddressEventListener = (event: AddressEvent) => void
+
+interface TrackedTransaction {
+  transaction: BitcoinTransaction
+  confirmations: number
+  blockHash?: string
+  confirmedNotified: boolean
+  doubleSpent: boolean
+}
+
+export const DEFAULT_REQUIRED_CONFIRMATIONS = 3
+
+/**
+ * Watches many addresses from a single poll loop, or from the backend's notifications when it can
+ * push them, remembers which transactions it has already reported and emits an event only when
+ * something about one of them changes
+ */
+export class AddressMonitor {
+  private backend: AddressMonitorBackend
+  private pollInterval: number
+  private requiredConfirmations: number
+  private finalityDepth: number
+  private concurrency: number
+  private zeroConf: ZeroConfPolicy | null
+
+  private listeners: Map<string, Set<AddressEventListener>> = new Map()
+  private tracked: Map<string, Map<string, TrackedTransaction>> = new Map()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private polling = false
+  private queued: Set<string> = new Set()
+  private addressSubscriptions: Map<string, () => void> = new Map()
+  private blockSubscription: (() => void) | null = null
+
+  constructor(backend: AddressMonitorBackend, options: AddressMonitorOptions = {}) {
+    this.backend = backend
+    this.pollInterval = options.pollInterval ?? 30000
+    this.requiredConfirmations = options.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS
+    this.finalityDepth = Math.max(options.finalityDepth ?? 6, this.requiredConfirmations)
+    this.concurrency = options.concurrency ?? 5
+    this.zeroConf = options.zeroConf || null
+  }
+
+  /**
+   * Start watching an address; returns a function that removes this listener again
+   */
+  watch(address: string, listener: AddressEventListener): () => void {
+    const listeners = this.listeners.get(address) || new Set()
+    listeners.add(listener)
+    this.listeners.set(address, listeners)
+
+    if (!this.tracked.has(address)) {
+      this.tracked.set(address, new Map())
+    }
+
+    if (this.isPushBased()) {
+      this.subscribe(address)
+    } else {
+      this.schedule()
+    }
+    return () => this.unwatch(address, listener)
+  }
+
+  /**
+   * Stop watching an address, for one listener or all of them
+   */
+  unwatch(address: string, listener?: AddressEventListener): void {
+    const listeners = this.listeners.get(address)
+    if (listeners && listener) {
+      listeners.delete(listener)
+    }
+
+    if (!listener || !listeners || listeners.size === 0) {
+      this.listeners.delete(address)
+      this.tracked.delete(address)
+      this.addressSubscriptions.get(address)?.()
+      this.addressSubscriptions.delete(address)
+    }
+
+    if (this.listeners.size === 0) {
+      this.stop()
+    }
+  }
+
+  /**
+   * Stop the poll loop (or subscriptions) and forget every address
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.addressSubscriptions.forEach(unsubscribe => unsubscribe())
+    this.addressSubscriptions.clear()
+    this.blockSubscription?.()
+    this.blockSubscription = null
+    this.listeners.clear()
+    this.tracked.clear()
+    this.queued.clear()
+  }
+
+  isWatching(address: string): boolean {
+    return this.listeners.has(address)
+  }
+
+  /**
+   * Check the given addresses (every watched address by default) for changes. Addresses asked for
+   * while a check is already running are picked up by that run before it finishes.
+   */
+  async poll(addresses: string[] = Array.from(this.listeners.keys())): Promise<void> {
+    addresses.forEach(address => this.queued.add(address))
+    if (this.polling) {
+      return
+    }
+
+    this.polling = true
+    try {
+      while (this.queued.size > 0) {
+        const batch = Array.from(this.queued)
+        this.queued.clear()
+        const tipHeight = await this.backend.getTipHeight()
+
+        for (let i = 0; i < batch.length; i += this.concurrency) {
+          await Promise.all(
+            batch.slice(i, i + this.concurrency).map(address => this.pollAddress(address, tipHeight))
+          )
+        }
+      }
+    } catch (error) {
+      this.queued.clear()
+      console.error('Error polling watched addresses:', error)
+    } finally {
+      this.polling = false
+    }
+  }
+
+  private isPushBased(): boolean {
+    return !!this.backend.subscribeAddress && !!this.backend.subscribeBlocks
+  }
+
+  private subscribe(address: string): void {
+    if (!this.addressSubscriptions.has(address)) {
+      this.addressSubscriptions.set(address, this.backend.subscribeAddress!(address, () => this.poll([address])))
+    }
+
+    // A new block changes confirmation counts without touching any address's history
+    if (!this.blockSubscription) {
+      this.blockSubscription = this.backend.subscribeBlocks!(() => this.poll())
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer || this.listeners.size === 0) {
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      await this.poll()
+
+      // stop() or a restart may have replaced this loop while the poll was running
+      if (this.timer === timer) {
+        this.timer = null
+        this.schedule()
+      }
+    }, this.pollInterval)
+    this.timer = timer
+  }
+
+  private async pollAddress(address: string, tipHeight: number): Promise<void> {
+    try {
+      const transactions = await this.backend.getAddressTransactions(address)
+      const tracked = this.tracked.get(address)
+      if (!tracked) {
+        return // Unwatched while the request was in flight
+      }
+
+      const listed = new Set<string>()
+      for (const transaction of transactions) {
+        listed.add(transaction.txid)
+        this.update(address, tracked, transaction, transaction.status, tipHeight)
+      }
+
+      // Esplora only lists recent history, so a missing confirmed transaction may just have scrolled
+      // off; ask about each unsettled one directly
+      for (const [txid, entry] of Array.from(tracked.entries())) {
+        if (listed.has(txid) || entry.confirmations >= this.finalityDepth) {
+          continue
+        }
+
+        const status = await this.backend.getTransactionStatus(txid)
+        if (!status) {
+          tracked.delete(txid)
+          // A transaction replaced by one spending the same inputs was double-spent, not just evicted
+          const conflictingTxid = !entry.doubleSpent && await this.findConflict(entry.transaction)
+          if (conflictingTxid) {
+            this.emit(address, 'double-spent', entry.transaction, 0, { conflictingTxid })
+          } else {
+            this.emit(address, 'dropped', entry.transaction, 0)
+          }
+        } else {
+          this.update(address, tracked, entry.transaction, status, tipHeight)
+        }
+      }
+
+      // Zero-conf deposits are only as good as their inputs: watch for anything else spending them
+      if (this.zeroConf) {
+        for (const entry of Array.from(tracked.values())) {
+          if (entry.confirmations > 0 || entry.doubleSpent) {
+            continue
+          }
+
+          const conflictingTxid = await this.findConflict(entry.transaction)
+          if (conflictingTxid) {
+            entry.doubleSpent = true
+            this.emit(address, 'double-spent', entry.transaction, 0, { conflictingTxid })
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Error monitoring address ${address}:`, error)
+    }
+  }
+
+  private update(
+    address: string,
+    tracked: Map<string, TrackedTransaction>,
+    transaction: BitcoinTransaction,
+    status: TransactionStatus,
+    tipHeight: number
+  ): void {
+    const confirmations = status.confirmed && status.block_height !== undefined
+      ? Math.max(0, tipHeight - status.block_height + 1)
+      : 0
+    const current = { ...transaction, status: { ...transaction.status, ...status } }
+    const entry = tracked.get(transaction.txid)
+
+    if (!entry) {
+      tracked.set(transaction.txid, {
+        transaction: current,
+        confirmations,
+        blockHash: status.block_hash,
+        confirmedNotified: false,
+        doubleSpent: false
+      })
+
+      if (confirmations === 0) {
+        this.emit(address, 'mempool', current, 0, this.zeroConf ? { zeroConf: assessZeroConf(current, address, this.zeroConf) } : {})
+      } else {
+        this.emit(address, 'confirmations', current, confirmations)
+      }
+      this.notifyConfirmed(address, tracked.get(transaction.txid)!)
+      return
+    }
+
+    if (entry.confirmations >= this.finalityDepth) {
+      return
+    }
+
+    // A block hash change, or losing confirmations, means the block we were in is gone
+    const reorged = entry.blockHash !== undefined &&
+      (status.block_hash !== entry.blockHash || confirmations < entry.confirmations)
+
+    const changed = confirmations !== entry.confirmations
+    entry.transaction = current
+    entry.confirmations = confirmations
+    entry.blockHash = status.block_hash
+
+    if (reorged) {
+      // Anything credited on the strength of the old block has to be re-earned
+      entry.confirmedNotified = false
+      this.emit(address, 'reorged', current, confirmations)
+    } else if (changed) {
+      this.emit(address, 'confirmations', current, confirmations)
+    }
+
+    this.notifyConfirmed(address, entry)
+  }
+
+  private notifyConfirmed(address: string, entry: TrackedTransaction): void {
+    if (!entry.confirmedNotified && entry.confirmations >= this.requiredConfirmations) {
+      entry.confirmedNotified = true
+      this.emit(address, 'confirmed', entry.transaction, entry.confirmations)
+    }
+  }
+
+  // txid of another transaction spending one of this one's inputs, if the backend can tell
+  private async findConflict(transaction: BitcoinTransaction): Promise<string | null> {
+    if (!this.backend.getSpendingTransaction) {
+      return null
+    }
+
+    for (const input of transaction.vin) {
+      const spender = await this.backend.getSpendingTransaction(input.txid, input.vout)
+      if (spender && spender !== transaction.txid) {
+        return spender
+      }
+    }
+    return null
+  }
+
+  private emit(
+    address: string,
+    type: AddressEventType,
+    transaction: BitcoinTransaction,
+    confirmations: number,
+    details: Pick<AddressEvent, 'zeroConf' | 'conflictingTxid'> = {}
+  ): void {
+    const listeners = this.listeners.get(address)
+    if (!listeners) {
+      return
+    }
+
+    const event: AddressEvent = { type, address, txid: transaction.txid, confirmations, transaction, ...details }
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Address event listener failed:', error)
+      }
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import { BitcoinTransaction } from '@/types/atomiq'
+import { TransactionStatus } from './addressMonitor'
+import { AddressBalance, AddressHistoryPage, ChainBackend, DescriptorImport, Utxo, historyPageAfter } from './chainBackend'
+import { FEE_TIER_TARGETS, FeeRateTable, btcPerKvbToSatPerVbyte } from './feeEstimator'
+
+export interface BitcoinCoreRpcOptions {
+  url: string
+  username?: string
+  password?: string
+}
+
+export interface BitcoinCoreBackendOptions extends BitcoinCoreRpcOptions {
+  wallet?: string // descriptor wallet watching our addresses; without one UTXOs come from scantxoutset
+}
+
+export type BitcoinCoreRpcError = Error & { code: number }
+
+// JSON-RPC error codes we act on
+export const RPC_INVALID_ADDRESS_OR_KEY = -5 // also "No such mempool or blockchain transaction"
+
+// Core names script types after the template; Esplora, and so BitcoinTransaction, uses the short form
+const SCRIPT_TYPES: Record<string, string> = {
+  pubkeyhash: 'p2pkh',
+  scripthash: 'p2sh',
+  witness_v0_keyhash: 'v0_p2wpkh',
+  witness_v0_scripthash: 'v0_p2wsh',
+  witness_v1_taproot: 'v1_p2tr',
+  nulldata: 'op_return',
+  pubkey: 'p2pk',
+  multisig: 'multisig'
+}
+
+/**
+ * Minimal Bitcoin Core JSON-RPC client over fetch
+ */
+export class BitcoinCoreRpc {
+  private url: string
+  private authorization?: string
+  private nextId = 0
+
+  constructor(options: BitcoinCoreRpcOptions) {
+    this.url = options.url.replace(/\/$/, '')
+    if (options.username || options.password) {
+      this.authorization = `Basic ${btoa(`${options.username || ''}:${options.password || ''}`)}`
+    }
+  }
+
+  /**
+   * Call an RPC method, on a loaded wallet's endpoint when `wallet` is given
+   */
+  async call<T = any>(method: string, params: any[] = [], wallet?: string): Promise<T> {
+    const url = wallet ? `${this.url}/wallet/${encodeURIComponent(wallet)}` : this.url
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.authorization) {
+      headers.Authorization = this.authorization
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '1.0', id: ++this.nextId, method, params })
+    })
+
+    // Core answers RPC errors with a 4xx/5xx status but still a JSON body; auth failures have none
+    const body = await response.json().catch(() => null)
+    if (body?.error) {
+      const error = new Error(`${method} failed: ${body.error.message}`) as BitcoinCoreRpcError
+      error.code = body.error.code
+      throw error
+    }
+    if (!response.ok || !body) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    return body.result
+  }
+}
+
+export function isRpcError(error: unknown, code: number): boolean {
+  return error instanceof Error && (error as BitcoinCoreRpcError).code === code
+}
+
+/**
+ * Chain access through a Bitcoin Core node. With a descriptor wallet that watches our addresses,
+ * UTXOs, balances and history come from the wallet (mempool included). Without one, UTXOs come from
+ * `scantxoutset`, which only sees confirmed outputs, and transaction lookups need `-txindex`.
+ * Targets Core 25 or later for `getrawtransaction` verbosity 2.
+ */
+export class BitcoinCoreBackend implements ChainBackend {
+  readonly rpc: BitcoinCoreRpc
+  private wallet?: string
+  private scanQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(options: BitcoinCoreBackendOptions) {
+    this.rpc = new BitcoinCoreRpc(options)
+    this.wallet = options.wallet
+  }
+
+  async getBalance(address: string): Promise<AddressBalance> {
+    const utxos = await this.getUtxos(address)
+
+    return utxos.reduce((balance, utxo) => {
+      if (utxo.confirmed) {
+        balance.confirmed += utxo.value
+      } else {
+        balance.unconfirmed += utxo.value
+      }
+      return balance
+    }, { confirmed: 0, unconfirmed: 0 })
+  }
+
+  async getUtxos(address: string): Promise<Utxo[]> {
+    if (this.wallet) {
+      const unspent = await this.rpc.call<any[]>('listunspent', [0, 9999999, [address], true], this.wallet)
+      return unspent.map(utxo => ({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value: toSats(utxo.amount),
+        confirmed: utxo.confirmations > 0
+      }))
+    }
+
+    const unspents = await this.scanAddress(address)
+    return unspents.map(utxo => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: toSats(utxo.amount),
+      confirmed: true
+    }))
+  }
+
+  async getTransaction(txid: string): Promise<BitcoinTransaction> {
+    const [data, tipHeight] = await Promise.all([this.getRawTransaction(txid, 2), this.getTipHeight()])
+    return mapCoreTransaction(data, tipHeight)
+  }
+
+  async getAddressTransactions(address: string): Promise<BitcoinTransaction[]> {
+    const found = await this.findAddressTransactions(address)
+    return this.fetchTransactions(Array.from(found.keys()), found)
+  }
+
+  /**
+   * Core lists the wallet's history in one call, so paging only saves fetching the transactions off the page
+   */
+  async getAddressTransactionsPage(address: string, lastSeenTxid?: string): Promise<AddressHistoryPage> {
+    const found = await this.findAddressTransactions(address)
+    const { page, lastSeenTxid: next } = historyPageAfter(Array.from(found.keys()).reverse(), lastSeenTxid)
+    return { transactions: await this.fetchTransactions(page, found), lastSeenTxid: next }
+  }
+
+  async getTransactionStatus(txid: string): Promise<TransactionStatus | null> {
+    try {
+      const [data, tipHeight] = await Promise.all([this.getRawTransaction(txid, 1), this.getTipHeight()])
+      return mapCoreStatus(data, tipHeight)
+    } catch (error) {
+      if (isRpcError(error, RPC_INVALID_ADDRESS_OR_KEY)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async getTipHeight(): Promise<number> {
+    return this.rpc.call<number>('getblockcount')
+  }
+
+  /**
+   * Mempool spender of an outpoint (Bitcoin Core 24+). Core keeps no spent-output index, so a spend
+   * that has already confirmed is not found here.
+   */
+  async getSpendingTransaction(txid: string, vout: number): Promise<string | null> {
+    const [result] = await this.rpc.call<{ spendingtxid?: string }[]>('gettxspendingprevout', [[{ txid, vout }]])
+    return result?.spendingtxid || null
+  }
+
+  async broadcastTransaction(hex: string): Promise<string> {
+    return this.rpc.call<string>('sendrawtransaction', [hex])
+  }
+
+  /**
+   * Import descriptors into the watch-only wallet, so listunspent and listtransactions see their
+   * addresses. Active descriptors let Core extend the range itself as addresses get used.
+   */
+  async importDescriptors(descriptors: DescriptorImport[]): Promise<void> {
+    if (!this.wallet) {
+      throw new Error('Importing descriptors needs a Bitcoin Core wallet')
+    }
+
+    const results = await this.rpc.call<{ success: boolean; error?: { message: string } }[]>('importdescriptors', [
+      descriptors.map(({ descriptor, internal, range, timestamp }) => ({
+        desc: descriptor,
+        active: true,
+        internal,
+        range: [0, range],
+        timestamp
+      }))
+    ], this.wallet)
+
+    const failed = results.findIndex(result => !result.success)
+    if (failed !== -1) {
+      throw new Error(`Failed to import ${descriptors[failed].descriptor}: ${results[failed].error?.message || 'unknown error'}`)
+    }
+  }
+
+  async getFeeRates(): Promise<FeeRateTable> {
+    const table: FeeRateTable = {}
+    for (const target of Object.values(FEE_TIER_TARGETS)) {
+      const estimate = await this.rpc.call<{ feerate?: number }>('estimatesmartfee', [target])
+      if (estimate.feerate !== undefined) {
+        table[target] = btcPerKvbToSatPerVbyte(estimate.feerate)
+      }
+    }
+
+    // A fresh node (or regtest) has no estimates yet; the mempool floor is the best we can do
+    if (Object.keys(table).length === 0) {
+      const mempool = await this.rpc.call<{ mempoolminfee: number }>('getmempoolinfo')
+      table[1] = btcPerKvbToSatPerVbyte(mempool.mempoolminfee)
+    }
+
+    return table
+  }
+
+
+  // txid -> block hash, oldest first, so confirmed transactions can be fetched without -txindex
+  private async findAddressTransactions(address: string): Promise<Map<string, string | undefined>> {
+    const found = new Map<string, string | undefined>()
+
+    if (this.wallet) {
+      const entries = await this.rpc.call<any[]>('listtransactions', ['*', 1000, 0, true], this.wallet)
+      for (const entry of entries) {
+        if (entry.address === address && entry.confirmations >= 0) {
+          found.set(entry.txid, entry.blockhash)
+        }
+      }
+    } else {
+      // Only funding transactions whose outputs are still unspent are visible this way
+      for (const utxo of await this.scanAddress(address)) {
+        found.set(utxo.txid, utxo.blockhash || await this.rpc.call<string>('getblockhash', [utxo.height]))
+      }
+    }
+
+    return found
+  }
+
+  private async fetchTransactions(txids: string[], blockhashes: Map<string, string | undefined>): Promise<BitcoinTransaction[]> {
+    const tipHeight = await this.getTipHeight()
+    const transactions: BitcoinTransaction[] = []
+    for (const txid of txids) {
+      transactions.push(mapCoreTransaction(await this.getRawTransaction(txid, 2, blockhashes.get(txid)), tipHeight))
+    }
+
+    return transactions
+  }
+
+  private async getRawTransaction(txid: string, verbosity: 1 | 2, blockhash?: string): Promise<any> {
+    try {
+      return await this.rpc.call('getrawtransaction', blockhash ? [txid, verbosity, blockhash] : [txid, verbosity])
+    } catch (error) {
+      // Without -txindex a confirmed transaction is only found with its block hash, which the wallet knows
+      if (!blockhash && this.wallet && isRpcError(error, RPC_INVALID_ADDRESS_OR_KEY)) {
+        const walletTx = await this.rpc.call('gettransaction', [txid, true], this.wallet).catch(() => null)
+        if (walletTx?.blockhash) {
+          return this.rpc.call('getrawtransaction', [txid, verbosity, walletTx.blockhash])
+        }
+      }
+      throw error
+    }
+  }
+
+  // Core runs one UTXO set scan at a time, so queue ours
+  private scanAddress(address: string): Promise<any[]> {
+    const scan = this.scanQueue.then(async () => {
+      const result = await this.rpc.call('scantxoutset', ['start', [`addr(${address})`]])
+      return (result?.unspents || []) as any[]
+    })
+    this.scanQueue = scan.catch(() => undefined)
+    return scan
+  }
+}
+
+function toSats(btc: number): number {
+  return Math.round(btc * 100000000)
+}
+
+function mapCoreStatus(data: any, tipHeight: number): TransactionStatus {
+  const confirmations = data.confirmations || 0
+  if (confirmations <= 0) {
+    return { confirmed: false }
+  }
+
+  return {
+    confirmed: true,
+    block_height: tipHeight - confirmations + 1,
+    block_hash: data.blockhash
+  }
+}
+
+/**
+ * Map `getrawtransaction` verbosity 2 output onto the Esplora-shaped `BitcoinTransaction`
+ */
+export function mapCoreTransaction(data: any, tipHeight: number): BitcoinTransaction {
+  const status = mapCoreStatus(data, tipHeight)
+
+  return {
+    txid: data.txid,
+    version: data.version,
+    locktime: data.locktime,
+    vin: data.vin.map((input: any) => ({
+      txid: input.txid || '',
+      vout: input.vout ?? 0,
+      scriptsig: input.scriptSig?.hex || input.coinbase || '',
+      scriptsig_asm: input.scriptSig?.asm || '',
+      witness: input.txinwitness || [],
+      sequence: input.sequence,
+      prevout: input.prevout && {
+        scriptpubkey: input.prevout.scriptPubKey.hex,
+        scriptpubkey_asm: input.prevout.scriptPubKey.asm,
+        scriptpubkey_type: scriptType(input.prevout.scriptPubKey.type),
+        scriptpubkey_address: input.prevout.scriptPubKey.address,
+        value: toSats(input.prevout.value)
+      }
+    })),
+    vout: data.vout.map((output: any) => ({
+      scriptpubkey: output.scriptPubKey.hex,
+      scriptpubkey_asm: output.scriptPubKey.asm,
+      scriptpubkey_type: scriptType(output.scriptPubKey.type),
+      scriptpubkey_address: output.scriptPubKey.address,
+      value: toSats(output.value)
+    })),
+    size: data.size,
+    weight: data.weight,
+    fee: data.fee || 0, // already in BTC; absent for coinbase and when prevouts are unknown
+    status: {
+      ...status,
+      block_time: status.confirmed ? data.blocktime : undefined
+    }
+  }
+}
+
+function scriptType(coreType: string): string {
+  return SCRIPT_TYPES[coreType] || coreType
+}
@@ -0,0 +1,62 @@
+import { BitcoinTransaction } from '@/types/atomiq'
+import { AddressMonitorBackend } from './addressMonitor'
+import { FeeRateTable } from './feeEstimator'
+
+export interface Utxo {
+  txid: string
+  vout: number
+  value: number // sats
+  confirmed: boolean
+}
+
+export interface AddressBalance {
+  confirmed: number // sats
+  unconfirmed: number // sats
+}
+
+export interface AddressHistoryPage {
+  transactions: BitcoinTransaction[] // newest first
+  lastSeenTxid: string | null // pass back for the next page; null once there is no more
+}
+
+// Esplora's confirmed history page size; the other backends page the same way
+export const HISTORY_PAGE_SIZE = 25
+
+export interface DescriptorImport {
+  descriptor: string // with its checksum
+  internal: boolean // change chain
+  range: number // derive indexes 0..range
+  timestamp: number | 'now' // rescan from this unix time
+}
+
+/**
+ * Everything `BitcoinServiceImplementation` needs from the chain. Esplora and Bitcoin Core each
+ * implement it, so wallet logic (coin selection, signing, fee bumping) is shared between them
+ */
+export interface ChainBackend extends AddressMonitorBackend {
+  getBalance(address: string): Promise<AddressBalance>
+  getUtxos(address: string): Promise<Utxo[]>
+  getTransaction(txid: string): Promise<BitcoinTransaction>
+  getAddressTransactionsPage(address: string, lastSeenTxid?: string): Promise<AddressHistoryPage>
+  broadcastTransaction(hex: string): Promise<string> // returns the txid
+  getFeeRates(): Promise<FeeRateTable> // confirmation target -> sat/vB
+  // Backends that index per wallet (Bitcoin Core) must be told which scripts to watch; Esplora and Electrum look up any address
+  importDescriptors?(descriptors: DescriptorImport[]): Promise<void>
+}
+
+/**
+ * The page of `txids` (newest first) after `lastSeenTxid`, for backends that hold an address's whole
+ * history and only need to fetch the transactions on the page
+ */
+export function historyPageAfter(txids: string[], lastSeenTxid?: string): { page: string[]; lastSeenTxid: string | null } {
+  const start = lastSeenTxid ? txids.indexOf(lastSeenTxid) + 1 : 0
+  if (lastSeenTxid && start === 0) {
+    throw new Error(`Transaction ${lastSeenTxid} is not in the address history`)
+  }
+
+  const page = txids.slice(start, start + HISTORY_PAGE_SIZE)
+  return {
+    page,
+    lastSeenTxid: start + HISTORY_PAGE_SIZE < txids.length ? page[page.length - 1] : null
+  }
+}
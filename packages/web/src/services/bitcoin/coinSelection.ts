@@ -0,0 +1,401 @@
+import { CoinSelectionStrategy } from '@/types/atomiq'
+import { InputShape, ScriptType, estimateFeeSats, estimateWeight, inputVbytes, outputVbytes } from './feeEstimator'
+
+export type SelectionAlgorithm = Exclude<CoinSelectionStrategy, 'auto'>
+
+export interface SelectableUtxo {
+  txid: string
+  vout: number
+  value: number // sats
+  address: string
+  scriptType: ScriptType
+  inputWeight?: number // weight units to spend it, when the script type alone does not say (multisig)
+}
+
+export interface CoinSelectionParams {
+  utxos: SelectableUtxo[]
+  amount: number // sats paid to the recipients
+  outputTypes: ScriptType[]
+  changeType: ScriptType
+  feeRate: number // sat/vB
+  longTermFeeRate?: number // sat/vB we expect to pay when spending change later
+  random?: () => number
+}
+
+export interface CoinSelectionResult {
+  strategy: SelectionAlgorithm
+  inputs: SelectableUtxo[]
+  change: number // sats, 0 when changeless
+  fee: number // sats
+  waste: number // sats, lower is better
+}
+
+// Bitcoin Core's dust thresholds at the default 3 sat/vB dust relay fee
+export const DUST_LIMITS: Record<ScriptType, number> = {
+  'p2pkh': 546,
+  'p2sh-p2wpkh': 540,
+  'p2wpkh': 294,
+  'p2wsh': 330,
+  'p2tr': 330
+}
+
+export const DEFAULT_LONG_TERM_FEE_RATE = 10
+
+const BNB_MAX_TRIES = 100000
+const KNAPSACK_ITERATIONS = 1000
+
+/**
+ * Smallest value an output of this type can carry and still be relayed
+ */
+export function dustLimitFor(type: ScriptType): number {
+  return DUST_LIMITS[type]
+}
+
+/**
+ * Pick the inputs for a payment. `auto` runs branch-and-bound and knapsack and keeps whichever
+ * wastes less; `privacy` never spends UTXOs from more than one address together.
+ */
+export function selectCoins(
+  params: CoinSelectionParams,
+  strategy: CoinSelectionStrategy = 'auto'
+): CoinSelectionResult {
+  const selector = new CoinSelector(params)
+
+  switch (strategy) {
+    case 'branch-and-bound': {
+      const result = selector.branchAndBound(params.utxos)
+      if (!result) {
+        throw new Error('No changeless input set found for this payment')
+      }
+      return result
+    }
+    case 'knapsack':
+      return required(selector.knapsack(params.utxos))
+    case 'largest-first':
+      return required(selector.largestFirst(params.utxos))
+    case 'privacy':
+      return selector.privacy()
+    default:
+      return required(selector.best(params.utxos))
+  }
+}
+
+function required(result: CoinSelectionResult | null): CoinSelectionResult {
+  if (!result) {
+    throw new Error('Insufficient balance')
+  }
+  return result
+}
+
+class CoinSelector {
+  private params: CoinSelectionParams
+  private longTermFeeRate: number
+  private random: () => number
+
+  // Fee for the transaction skeleton (version, locktime, segwit marker, payment outputs)
+  private baseFee: number
+  // Creating change now plus spending it later
+  private costOfChange: number
+  // Effective value a change output needs to be worth creating
+  private minChange: number
+
+  constructor(params: CoinSelectionParams) {
+    this.params = params
+    this.longTermFeeRate = params.longTermFeeRate ?? DEFAULT_LONG_TERM_FEE_RATE
+    this.random = params.random || Math.random
+
+    const changeOutputFee = outputVbytes(params.changeType) * params.feeRate
+    this.baseFee = ((estimateWeight([], params.outputTypes) + 2) / 4) * params.feeRate
+    this.costOfChange = changeOutputFee + inputVbytes(params.changeType) * this.longTermFeeRate
+    this.minChange = Math.ceil(changeOutputFee) + dustLimitFor(params.changeType)
+  }
+
+  best(pool: SelectableUtxo[]): CoinSelectionResult | null {
+    const candidates = [this.branchAndBound(pool), this.knapsack(pool)]
+      .filter((result): result is CoinSelectionResult => result !== null)
+
+    if (candidates.length === 0) {
+      return null
+    }
+
+    return candidates.reduce((best, result) => result.waste < best.waste ? result : best)
+  }
+
+  /**
+   * Depth-first search for an input set whose effective value lands between the target and the
+   * target plus the cost of change, so the transaction needs no change output
+   */
+  branchAndBound(pool: SelectableUtxo[]): CoinSelectionResult | null {
+    const utxos = this.spendable(pool).sort((a, b) => this.effectiveValue(b) - this.effectiveValue(a))
+    // One extra sat absorbs rounding the final vsize up
+    const target = this.params.amount + this.baseFee + 1
+    const upperBound = target + this.costOfChange
+    const feeRateIsHigh = this.params.feeRate > this.longTermFeeRate
+
+    let available = utxos.reduce((sum, utxo) => sum + this.effectiveValue(utxo), 0)
+    if (available < target) {
+      return null
+    }
+
+    const selection: number[] = []
+    let best: number[] | null = null
+    let bestWaste = Infinity
+    let value = 0
+    let waste = 0
+
+    for (let tries = 0, index = 0; tries < BNB_MAX_TRIES; tries++, index++) {
+      let backtrack = false
+
+      if (value + available < target || value > upperBound || (waste > bestWaste && feeRateIsHigh)) {
+        backtrack = true
+      } else if (value >= target) {
+        const selectionWaste = waste + (value - target)
+        if (selectionWaste <= bestWaste) {
+          best = [...selection]
+          bestWaste = selectionWaste
+        }
+        backtrack = true
+      }
+
+      if (backtrack) {
+        if (selection.length === 0) {
+          break
+        }
+
+        // Put the UTXOs skipped since the last inclusion back, then try leaving that one out
+        for (index--; index > selection[selection.length - 1]; index--) {
+          available += this.effectiveValue(utxos[index])
+        }
+
+        const utxo = utxos[index]
+        value -= this.effectiveValue(utxo)
+        waste -= this.inputWaste(utxo)
+        selection.pop()
+      } else {
+        const utxo = utxos[index]
+        available -= this.effectiveValue(utxo)
+
+        // Excluding a UTXO identical to one just excluded explores the same branch again
+        const previous = utxos[index - 1]
+        if (
+          selection.length === 0 ||
+          index - 1 === selection[selection.length - 1] ||
+          this.effectiveValue(utxo) !== this.effectiveValue(previous) ||
+          utxo.scriptType !== previous.scriptType
+        ) {
+          selection.push(index)
+          value += this.effectiveValue(utxo)
+          waste += this.inputWaste(utxo)
+        }
+      }
+    }
+
+    return best ? this.finalize(best.map(index => utxos[index]), 'branch-and-bound', false) : null
+  }
+
+  /**
+   * Randomised subset-sum search aiming for the target exactly or the target plus enough for a
+   * change output, falling back to the smallest single UTXO that covers it
+   */
+  knapsack(pool: SelectableUtxo[]): CoinSelectionResult | null {
+    const utxos = this.shuffle(this.spendable(pool))
+    const target = this.params.amount + this.baseFee + 1
+    const targetWithChange = target + this.minChange
+
+    const applicable: SelectableUtxo[] = []
+    let totalLower = 0
+    let lowestLarger: SelectableUtxo | null = null
+
+    for (const utxo of utxos) {
+      const value = this.effectiveValue(utxo)
+
+      if (value === target) {
+        return this.finalize([utxo], 'knapsack', true)
+      }
+
+      if (value < targetWithChange) {
+        applicable.push(utxo)
+        totalLower += value
+      } else if (!lowestLarger || value < this.effectiveValue(lowestLarger)) {
+        lowestLarger = utxo
+      }
+    }
+
+    if (totalLower === target) {
+      return this.finalize(applicable, 'knapsack', true)
+    }
+
+    if (totalLower < target) {
+      return lowestLarger ? this.finalize([lowestLarger], 'knapsack', true) : null
+    }
+
+    applicable.sort((a, b) => this.effectiveValue(b) - this.effectiveValue(a))
+    let best = this.approximateBestSubset(applicable, totalLower, target)
+    if (best.total !== target && totalLower >= targetWithChange) {
+      best = this.approximateBestSubset(applicable, totalLower, targetWithChange)
+    }
+
+    // A single larger UTXO wins if the subset misses both targets or costs more
+    if (
+      lowestLarger &&
+      ((best.total !== target && best.total < targetWithChange) || this.effectiveValue(lowestLarger) <= best.total)
+    ) {
+      return this.finalize([lowestLarger], 'knapsack', true)
+    }
+
+    return this.finalize(best.inputs, 'knapsack', true)
+  }
+
+  /**
+   * Spend the biggest UTXOs first until the payment and its fee are covered
+   */
+  largestFirst(pool: SelectableUtxo[]): CoinSelectionResult | null {
+    const utxos = [...pool].sort((a, b) => b.value - a.value)
+    const selected: SelectableUtxo[] = []
+
+    for (const utxo of utxos) {
+      selected.push(utxo)
+
+      const result = this.finalize(selected, 'largest-first', true)
+      if (result) {
+        return result
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Fund the payment from a single address so unrelated deposits are never linked on-chain
+   */
+  privacy(): CoinSelectionResult {
+    const byAddress = new Map<string, SelectableUtxo[]>()
+    for (const utxo of this.params.utxos) {
+      byAddress.set(utxo.address, [...(byAddress.get(utxo.address) || []), utxo])
+    }
+
+    let best: CoinSelectionResult | null = null
+    for (const group of Array.from(byAddress.values())) {
+      const result = this.best(group)
+      if (result && (!best || result.waste < best.waste)) {
+        best = result
+      }
+    }
+
+    if (!best) {
+      throw new Error('No single address can fund this payment without merging UTXOs from different addresses')
+    }
+
+    return { ...best, strategy: 'privacy' }
+  }
+
+  private approximateBestSubset(
+    utxos: SelectableUtxo[],
+    totalLower: number,
+    target: number
+  ): { inputs: SelectableUtxo[]; total: number } {
+    let bestIncluded = utxos.map(() => true)
+    let bestTotal = totalLower
+
+    for (let rep = 0; rep < KNAPSACK_ITERATIONS && bestTotal !== target; rep++) {
+      const included = utxos.map(() => false)
+      let total = 0
+      let reachedTarget = false
+
+      for (let pass = 0; pass < 2 && !reachedTarget; pass++) {
+        for (let i = 0; i < utxos.length; i++) {
+          // First pass picks at random, the second tops up with whatever was left out
+          if (pass === 0 ? this.random() < 0.5 : !included[i]) {
+            total += this.effectiveValue(utxos[i])
+            included[i] = true
+
+            if (total >= target) {
+              reachedTarget = true
+              if (total < bestTotal) {
+                bestTotal = total
+                bestIncluded = [...included]
+              }
+              total -= this.effectiveValue(utxos[i])
+              included[i] = false
+            }
+          }
+        }
+      }
+    }
+
+    return {
+      inputs: utxos.filter((_, i) => bestIncluded[i]),
+      total: bestTotal
+    }
+  }
+
+  /**
+   * Price the selection exactly and decide whether it carries change
+   */
+  private finalize(
+    inputs: SelectableUtxo[],
+    strategy: SelectionAlgorithm,
+    allowChange: boolean
+  ): CoinSelectionResult | null {
+    const { amount, outputTypes, changeType, feeRate } = this.params
+    const inputTypes = inputs.map(inputShape)
+    const total = inputs.reduce((sum, utxo) => sum + utxo.value, 0)
+
+    const feeWithoutChange = estimateFeeSats(inputTypes, outputTypes, feeRate)
+    if (total < amount + feeWithoutChange) {
+      return null
+    }
+
+    const inputWaste = inputs.reduce((sum, utxo) => sum + this.inputWaste(utxo), 0)
+    const feeWithChange = estimateFeeSats(inputTypes, [...outputTypes, changeType], feeRate)
+    const change = total - amount - feeWithChange
+
+    if (allowChange && change >= dustLimitFor(changeType)) {
+      return {
+        strategy,
+        inputs: [...inputs],
+        change,
+        fee: feeWithChange,
+        waste: Math.round(inputWaste + this.costOfChange)
+      }
+    }
+
+    // Whatever is left over goes to the miner
+    return {
+      strategy,
+      inputs: [...inputs],
+      change: 0,
+      fee: total - amount,
+      waste: Math.round(inputWaste + (total - amount - feeWithoutChange))
+    }
+  }
+
+  private spendable(pool: SelectableUtxo[]): SelectableUtxo[] {
+    return pool.filter(utxo => this.effectiveValue(utxo) > 0)
+  }
+
+  private effectiveValue(utxo: SelectableUtxo): number {
+    return utxo.value - inputVbytes(inputShape(utxo)) * this.params.feeRate
+  }
+
+  // Spending now rather than at the long-term fee rate
+  private inputWaste(utxo: SelectableUtxo): number {
+    return inputVbytes(inputShape(utxo)) * (this.params.feeRate - this.longTermFeeRate)
+  }
+
+  private shuffle(utxos: SelectableUtxo[]): SelectableUtxo[] {
+    const shuffled = [...utxos]
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1))
+      ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+    }
+    return shuffled
+  }
+}
+
+/**
+ * How a UTXO is sized for fees
+ */
+export function inputShape(utxo: SelectableUtxo): InputShape {
+  return utxo.inputWeight ? { scriptType: utxo.scriptType, weight: utxo.inputWeight } : utxo.scriptType
+}
@@ -0,0 +1,95 @@
+import { ScriptType, estimateFeeSats, inputVbytes } from './feeEstimator'
+import { DEFAULT_LONG_TERM_FEE_RATE, SelectableUtxo, dustLimitFor, inputShape } from './coinSelection'
+
+export interface ConsolidationParams {
+  utxos: SelectableUtxo[]
+  outputType: ScriptType // script type of the address the UTXOs are merged into
+  feeRate: number // sat/vB paid now
+  longTermFeeRate?: number // sat/vB we expect to pay when the UTXOs would otherwise be spent
+  maxInputs?: number // per transaction
+  linkAddresses?: boolean // false merges each address's UTXOs on their own
+}
+
+export interface ConsolidationBatch {
+  inputs: SelectableUtxo[]
+  addresses: string[] // distinct addresses the batch spends together
+  value: number // sats left in the merged output
+  fee: number // sats
+  savings: number // sats, against spending every input separately at the long-term rate
+}
+
+// Keeps each transaction well inside the 400k weight unit standardness limit, even for multisig inputs
+export const MAX_CONSOLIDATION_INPUTS = 200
+
+/**
+ * Group UTXOs into consolidation transactions that pay off at the long-term fee rate. Inputs cost
+ * the same to spend whatever their value, so the smallest go first; a batch is only proposed when
+ * spending its inputs now plus the merged output later is cheaper than spending them one by one later.
+ */
+export function planConsolidationBatches(params: ConsolidationParams): ConsolidationBatch[] {
+  const longTermFeeRate = params.longTermFeeRate ?? DEFAULT_LONG_TERM_FEE_RATE
+  const maxInputs = Math.max(2, params.maxInputs ?? MAX_CONSOLIDATION_INPUTS)
+  if (params.feeRate >= longTermFeeRate) {
+    return []
+  }
+
+  // Dust that costs more to spend than it holds stays where it is
+  const spendable = params.utxos
+    .filter(utxo => utxo.value > inputVbytes(inputShape(utxo)) * params.feeRate)
+    .sort((a, b) => a.value - b.value)
+
+  const groups = params.linkAddresses === false ? groupByAddress(spendable) : [spendable]
+  const batches: ConsolidationBatch[] = []
+
+  for (const group of groups) {
+    for (let start = 0; start < group.length; start += maxInputs) {
+      const batch = planBatch(group.slice(start, start + maxInputs), params.outputType, params.feeRate, longTermFeeRate)
+      if (batch) {
+        batches.push(batch)
+      }
+    }
+  }
+
+  return batches
+}
+
+function planBatch(
+  inputs: SelectableUtxo[],
+  outputType: ScriptType,
+  feeRate: number,
+  longTermFeeRate: number
+): ConsolidationBatch | null {
+  if (inputs.length < 2) {
+    return null
+  }
+
+  const total = inputs.reduce((sum, utxo) => sum + utxo.value, 0)
+  const fee = estimateFeeSats(inputs.map(inputShape), [outputType], feeRate)
+  if (total - fee < dustLimitFor(outputType)) {
+    return null
+  }
+
+  // The merged output is spent by the same wallet, so later it costs what one of its inputs does
+  const separately = inputs.reduce((sum, utxo) => sum + inputVbytes(inputShape(utxo)) * longTermFeeRate, 0)
+  const merged = fee + inputVbytes(inputShape(inputs[0])) * longTermFeeRate
+  const savings = Math.floor(separately - merged)
+  if (savings <= 0) {
+    return null
+  }
+
+  return {
+    inputs,
+    addresses: Array.from(new Set(inputs.map(utxo => utxo.address))),
+    value: total - fee,
+    fee,
+    savings
+  }
+}
+
+function groupByAddress(utxos: SelectableUtxo[]): SelectableUtxo[][] {
+  const groups = new Map<string, SelectableUtxo[]>()
+  for (const utxo of utxos) {
+    groups.set(utxo.address, [...(groups.get(utxo.address) || []), utxo])
+  }
+  return Array.from(groups.values())
+}
@@ -0,0 +1,208 @@
+import { bytesToHex } from '@noble/hashes/utils.js'
+import { AddressIndexStore, BitcoinNetworkName, DerivationChain, HDWallet, WalletAddressType } from './hdWallet'
+import { MultisigScriptType, MultisigWallet, UNSPENDABLE_INTERNAL_KEY } from './multisig'
+
+export type DescriptorWallet = HDWallet | MultisigWallet
+
+export interface DescriptorKey {
+  xpub: string
+  masterFingerprint?: string // hex, from the key origin
+  derivationPath?: string // account path below the master key, from the key origin
+}
+
+export interface ParsedDescriptor {
+  scriptType: WalletAddressType | MultisigScriptType
+  keys: DescriptorKey[]
+  threshold?: number // only for sortedmulti / sortedmulti_a
+  chain?: DerivationChain // unset for the `<0;1>` receive/change pair
+  checksum: string
+}
+
+export interface WalletDescriptors {
+  receive: string
+  change: string
+}
+
+// BIP380 descriptor checksum: character groups are folded into a BCH code over GF(32)
+const INPUT_CHARSET = '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ '
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const GENERATORS = [0xf5dee51989, 0xa9fdca3312, 0x1bab10e32d, 0x3706b1677a, 0x644d626ffd].map(BigInt)
+
+// [fingerprint/origin/path]xpub/<0;1>/* (or /0/*, /1/*); hardened steps may be written ' or h
+const KEY_EXPRESSION = /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['h]?)*)\])?([1-9A-HJ-NP-Za-km-z]{100,112})\/(<0;1>|0|1)\/\*$/
+
+function polymod(checksum: bigint, value: number): bigint {
+  const top = checksum >> BigInt(35)
+  let next = ((checksum & BigInt(0x7ffffffff)) << BigInt(5)) ^ BigInt(value)
+  GENERATORS.forEach((generator, i) => {
+    if ((top >> BigInt(i)) & BigInt(1)) {
+      next ^= generator
+    }
+  })
+  return next
+}
+
+/**
+ * Compute the 8-character checksum of a descriptor (without its `#checksum` suffix)
+ */
+export function descriptorChecksum(descriptor: string): string {
+  let checksum = BigInt(1)
+  let group = 0
+  let groupSize = 0
+
+  for (const char of descriptor) {
+    const position = INPUT_CHARSET.indexOf(char)
+    if (position === -1) {
+      throw new Error(`Invalid character '${char}' in descriptor`)
+    }
+
+    checksum = polymod(checksum, position & 31)
+    group = group * 3 + (position >> 5)
+    if (++groupSize === 3) {
+      checksum = polymod(checksum, group)
+      group = 0
+      groupSize = 0
+    }
+  }
+
+  if (groupSize > 0) {
+    checksum = polymod(checksum, group)
+  }
+  for (let i = 0; i < 8; i++) {
+    checksum = polymod(checksum, 0)
+  }
+  checksum ^= BigInt(1)
+
+  return Array.from({ length: 8 }, (_, i) => CHECKSUM_CHARSET[Number((checksum >> BigInt(5 * (7 - i))) & BigInt(31))]).join('')
+}
+
+/**
+ * Append the checksum Bitcoin Core requires on imported descriptors
+ */
+export function addChecksum(descriptor: string): string {
+  return `${descriptor}#${descriptorChecksum(descriptor)}`
+}
+
+/**
+ * Parse the descriptor forms a watch-only wallet can be built from: `wpkh(KEY)`, `tr(KEY)`,
+ * `wsh(sortedmulti(k,KEY,...))` and `tr(NUMS,sortedmulti_a(k,KEY,...))`. A checksum, when present, must match.
+ */
+export function parseDescriptor(descriptor: string): ParsedDescriptor {
+  const [body, checksum, ...rest] = descriptor.trim().split('#')
+  if (rest.length > 0 || (checksum !== undefined && checksum.length !== 8)) {
+    throw new Error('Malformed descriptor checksum')
+  }
+
+  const expected = descriptorChecksum(body)
+  if (checksum !== undefined && checksum !== expected) {
+    throw new Error(`Descriptor checksum mismatch, expected #${expected}`)
+  }
+
+  let match: RegExpExecArray | null
+  if ((match = /^wpkh\(([^(),]+)\)$/.exec(body))) {
+    return { scriptType: 'p2wpkh', ...parseKeys([match[1]]), checksum: expected }
+  }
+  if ((match = /^tr\(([^(),]+)\)$/.exec(body))) {
+    return { scriptType: 'p2tr', ...parseKeys([match[1]]), checksum: expected }
+  }
+  if ((match = /^wsh\(sortedmulti\((\d+),([^()]+)\)\)$/.exec(body))) {
+    return { scriptType: 'p2wsh', threshold: Number(match[1]), ...parseKeys(match[2].split(',')), checksum: expected }
+  }
+  if ((match = /^tr\(([0-9a-fA-F]{64}),sortedmulti_a\((\d+),([^()]+)\)\)$/.exec(body))) {
+    // Any other internal key could spend without the cosigners
+    if (match[1].toLowerCase() !== bytesToHex(UNSPENDABLE_INTERNAL_KEY)) {
+      throw new Error('Tapscript multisig descriptors must use the unspendable BIP341 internal key')
+    }
+    return { scriptType: 'p2tr', threshold: Number(match[2]), ...parseKeys(match[3].split(',')), checksum: expected }
+  }
+
+  throw new Error('Unsupported descriptor, expected wpkh(KEY), tr(KEY), wsh(sortedmulti(...)) or tr(NUMS,sortedmulti_a(...))')
+}
+
+/**
+ * Build the watch-only wallet a descriptor describes. A single-chain descriptor (`/0/*` or `/1/*`)
+ * is read as half of its account's receive/change pair.
+ */
+export function walletFromDescriptor(
+  descriptor: string,
+  network: BitcoinNetworkName,
+  options: { gapLimit?: number; store?: AddressIndexStore } = {}
+): DescriptorWallet {
+  const parsed = parseDescriptor(descriptor)
+
+  if (parsed.threshold !== undefined) {
+    return new MultisigWallet({
+      cosigners: parsed.keys,
+      threshold: parsed.threshold,
+      network,
+      scriptType: parsed.scriptType as MultisigScriptType,
+      gapLimit: options.gapLimit
+    }, options.store)
+  }
+
+  const [key] = parsed.keys
+  return new HDWallet({
+    xpub: key.xpub,
+    network,
+    gapLimit: options.gapLimit,
+    addressType: parsed.scriptType as WalletAddressType,
+    accountPath: key.derivationPath,
+    masterFingerprint: key.masterFingerprint
+  }, options.store)
+}
+
+/**
+ * Export a wallet's receive and change descriptors, with checksums, e.g. for `importdescriptors`
+ * or another watch-only wallet
+ */
+export function walletDescriptors(wallet: DescriptorWallet): WalletDescriptors {
+  const describe = (chain: DerivationChain) => {
+    if (wallet instanceof MultisigWallet) {
+      const keys = wallet.cosignerKeys.map(key => keyExpression(key, chain)).join(',')
+      return wallet.scriptType === 'p2tr'
+        ? `tr(${bytesToHex(UNSPENDABLE_INTERNAL_KEY)},sortedmulti_a(${wallet.threshold},${keys}))`
+        : `wsh(sortedmulti(${wallet.threshold},${keys}))`
+    }
+
+    const key = keyExpression({
+      xpub: wallet.accountXpub,
+      masterFingerprint: wallet.masterFingerprint,
+      derivationPath: wallet.accountPath
+    }, chain)
+    return wallet.addressType === 'p2tr' ? `tr(${key})` : `wpkh(${key})`
+  }
+
+  return { receive: addChecksum(describe(0)), change: addChecksum(describe(1)) }
+}
+
+function keyExpression(key: DescriptorKey, chain: DerivationChain): string {
+  const origin = key.masterFingerprint
+    ? `[${key.masterFingerprint.toLowerCase()}${(key.derivationPath || 'm').replace(/^m/, '')}]`
+    : ''
+  return `${origin}${key.xpub}/${chain}/*`
+}
+
+function parseKeys(expressions: string[]): { keys: DescriptorKey[]; chain?: DerivationChain } {
+  const suffixes = new Set<string>()
+
+  const keys = expressions.map(expression => {
+    const match = KEY_EXPRESSION.exec(expression)
+    if (!match) {
+      throw new Error(`Unsupported key expression '${expression}', expected [origin]xpub/<0;1>/*, /0/* or /1/*`)
+    }
+
+    const [, fingerprint, path, xpub, suffix] = match
+    suffixes.add(suffix)
+
+    return fingerprint
+      ? { xpub, masterFingerprint: fingerprint.toLowerCase(), derivationPath: `m${path.replace(/h/g, '\'')}` }
+      : { xpub }
+  })
+
+  if (suffixes.size > 1) {
+    throw new Error('Every key in a descriptor must derive from the same chain')
+  }
+
+  const [suffix] = Array.from(suffixes)
+  return { keys, chain: suffix === '<0;1>' ? undefined : Number(suffix) as DerivationChain }
+}
@@ -0,0 +1,69 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { secp256k1 } from '@noble/curves/secp256k1.js'
+import { bytesToNumberBE, concatBytes, numberToBytesBE } from '@noble/curves/utils.js'
+
+const { Point } = secp256k1
+const ORDER = Point.Fn.ORDER
+const ZERO = BigInt(0)
+
+function liftX(xOnly: Uint8Array) {
+  return Point.fromBytes(concatBytes(new Uint8Array([0x02]), xOnly))
+}
+
+function hasEvenY(point: InstanceType<typeof Point>): boolean {
+  return point.toBytes(true)[0] === 0x02
+}
+
+/**
+ * The two curve operations bitcoinjs needs for Taproot (P2TR addresses and key tweaks),
+ * on top of @noble/curves instead of a native secp256k1 binding
+ */
+export const nobleEccLib = {
+  isXOnlyPoint(p: Uint8Array): boolean {
+    if (p.length !== 32) {
+      return false
+    }
+    try {
+      liftX(p)
+      return true
+    } catch (error) {
+      return false
+    }
+  },
+
+  xOnlyPointAddTweak(p: Uint8Array, tweak: Uint8Array): { parity: 0 | 1; xOnlyPubkey: Uint8Array } | null {
+    const t = bytesToNumberBE(tweak)
+    if (t >= ORDER) {
+      return null
+    }
+
+    const point = liftX(p)
+    const tweaked = t === ZERO ? point : point.add(Point.BASE.multiply(t))
+    if (tweaked.is0()) {
+      return null
+    }
+
+    return { parity: hasEvenY(tweaked) ? 0 : 1, xOnlyPubkey: tweaked.toBytes(true).slice(1) }
+  }
+}
+
+// Any module that handles P2TR addresses imports this one, so bitcoinjs is ready before first use
+bitcoin.initEccLib(nobleEccLib)
+
+export function toXOnly(publicKey: Uint8Array): Uint8Array {
+  return publicKey.length === 32 ? publicKey : publicKey.slice(1, 33)
+}
+
+/**
+ * BIP341 key-path tweak of a private key with no script tree (BIP86)
+ */
+export function tweakSecretKey(secretKey: Uint8Array): Uint8Array {
+  const d = bytesToNumberBE(secretKey)
+  const publicPoint = Point.BASE.multiply(d)
+
+  // The output key commits to the even-Y internal key, so negate the secret when Y is odd
+  const evenD = hasEvenY(publicPoint) ? d : ORDER - d
+  const tweak = bytesToNumberBE(bitcoin.crypto.taggedHash('TapTweak', publicPoint.toBytes(true).slice(1)))
+
+  return numberToBytesBE((evenD + tweak) % ORDER, 32)
+}
@@ -0,0 +1,292 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import { BitcoinInput, BitcoinOutput, BitcoinTransaction } from '@/types/atomiq'
+import { TransactionStatus } from './addressMonitor'
+import { AddressBalance, AddressHistoryPage, ChainBackend, Utxo, historyPageAfter } from './chainBackend'
+import { ElectrumClient, ElectrumClientOptions } from './electrumClient'
+import { FEE_TIER_TARGETS, FeeRateTable, btcPerKvbToSatPerVbyte, esploraScriptType } from './feeEstimator'
+
+export interface ElectrumBackendOptions extends ElectrumClientOptions {
+  network: bitcoin.Network
+}
+
+interface HistoryEntry {
+  tx_hash: string
+  height: number // 0 in the mempool, -1 in the mempool with unconfirmed parents
+}
+
+interface BlockHeader {
+  hash: string
+  time: number
+}
+
+// Raw transactions never change, so keep a bounded number around for prevout lookups
+const RAW_TX_CACHE_SIZE = 1000
+
+/**
+ * Chain access through an Electrum server (ElectrumX, Fulcrum, electrs). Address history and
+ * UTXOs come from the server's scripthash index, and deposits are pushed through
+ * `blockchain.scripthash.subscribe` rather than polled.
+ */
+export class ElectrumBackend implements ChainBackend {
+  readonly client: ElectrumClient
+  private network: bitcoin.Network
+  private rawTransactions: Map<string, string> = new Map()
+  private heights: Map<string, number> = new Map() // last height seen in an address history
+  private tipHeight: number | null = null
+
+  constructor(options: ElectrumBackendOptions) {
+    this.client = new ElectrumClient(options)
+    this.network = options.network
+  }
+
+  async getBalance(address: string): Promise<AddressBalance> {
+    return this.client.request<AddressBalance>('blockchain.scripthash.get_balance', [this.scripthash(address)])
+  }
+
+  async getUtxos(address: string): Promise<Utxo[]> {
+    const unspent = await this.client.request<any[]>('blockchain.scripthash.listunspent', [this.scripthash(address)])
+    return unspent.map(utxo => ({
+      txid: utxo.tx_hash,
+      vout: utxo.tx_pos,
+      value: utxo.value,
+      confirmed: utxo.height > 0
+    }))
+  }
+
+  async getTransaction(txid: string): Promise<BitcoinTransaction> {
+    const height = this.heights.get(txid)
+    const [hex, status] = await Promise.all([
+      this.getRawTransaction(txid),
+      height !== undefined ? this.statusAtHeight(height) : this.getTransactionStatus(txid)
+    ])
+    return this.mapTransaction(hex, status || { confirmed: false })
+  }
+
+  async getAddressTransactions(address: string): Promise<BitcoinTransaction[]> {
+    const history = await this.getHistory(address)
+
+    const transactions: BitcoinTransaction[] = []
+    for (const entry of history) {
+      transactions.push(await this.historyTransaction(entry))
+    }
+
+    return transactions
+  }
+
+  /**
+   * The server always sends the whole history, oldest first with the mempool last, so paging only
+   * saves fetching the transactions off the page
+   */
+  async getAddressTransactionsPage(address: string, lastSeenTxid?: string): Promise<AddressHistoryPage> {
+    const newestFirst = (await this.getHistory(address)).reverse()
+    const { page, lastSeenTxid: next } = historyPageAfter(newestFirst.map(entry => entry.tx_hash), lastSeenTxid)
+
+    const transactions: BitcoinTransaction[] = []
+    for (const entry of newestFirst.filter(entry => page.includes(entry.tx_hash))) {
+      transactions.push(await this.historyTransaction(entry))
+    }
+
+    return { transactions, lastSeenTxid: next }
+  }
+
+  /**
+   * Asked when a transaction has left its address's history, so only the node behind the server can
+   * tell whether it still exists; ElectrumX and Fulcrum pass verbose lookups through to it
+   */
+  async getTransactionStatus(txid: string): Promise<TransactionStatus | null> {
+    try {
+      const verbose = await this.client.request('blockchain.transaction.get', [txid, true])
+      if (!verbose.confirmations) {
+        return { confirmed: false }
+      }
+
+      const tipHeight = await this.getTipHeight()
+      return {
+        confirmed: true,
+        block_height: tipHeight - verbose.confirmations + 1,
+        block_hash: verbose.blockhash,
+        block_time: verbose.blocktime
+      }
+    } catch (error) {
+      if (error instanceof Error && /no such mempool or blockchain transaction|not found/i.test(error.message)) {
+        this.heights.delete(txid)
+        return null
+      }
+      throw error
+    }
+  }
+
+  async getTipHeight(): Promise<number> {
+    if (this.tipHeight !== null) {
+      return this.tipHeight
+    }
+
+    const header = await this.client.request<{ height: number }>('blockchain.headers.subscribe')
+    return header.height
+  }
+
+  async broadcastTransaction(hex: string): Promise<string> {
+    return this.client.request<string>('blockchain.transaction.broadcast', [hex])
+  }
+
+  async getFeeRates(): Promise<FeeRateTable> {
+    const table: FeeRateTable = {}
+    for (const target of Object.values(FEE_TIER_TARGETS)) {
+      // BTC/kvB, or -1 when the node has no estimate for the target
+      const feeRate = await this.client.request<number>('blockchain.estimatefee', [target])
+      if (feeRate > 0) {
+        table[target] = btcPerKvbToSatPerVbyte(feeRate)
+      }
+    }
+
+    if (Object.keys(table).length === 0) {
+      table[1] = btcPerKvbToSatPerVbyte(await this.client.request<number>('blockchain.relayfee'))
+    }
+
+    return table
+  }
+
+  /**
+   * Get told whenever the address's history changes, including once the subscription is in place
+   */
+  subscribeAddress(address: string, onChange: () => void): () => void {
+    const scripthash = this.scripthash(address)
+    const listener = () => onChange()
+
+    this.client.subscribe('blockchain.scripthash.subscribe', [scripthash], listener)
+      .then(() => onChange())
+      .catch(error => console.error(`Error subscribing to address ${address}:`, error))
+
+    return () => this.client.unsubscribe('blockchain.scripthash.subscribe', [scripthash], listener)
+  }
+
+  subscribeBlocks(onBlock: () => void): () => void {
+    const listener = ([header]: any[]) => {
+      this.tipHeight = header.height
+      onBlock()
+    }
+
+    this.client.subscribe<{ height: number }>('blockchain.headers.subscribe', [], listener)
+      .then(header => {
+        this.tipHeight = header.height
+      })
+      .catch(error => console.error('Error subscribing to block headers:', error))
+
+    return () => {
+      this.client.unsubscribe('blockchain.headers.subscribe', [], listener)
+      this.tipHeight = null
+    }
+  }
+
+  /**
+   * Electrum indexes addresses by the reversed SHA256 of their output script
+   */
+  scripthash(address: string): string {
+    const script = bitcoin.address.toOutputScript(address, this.network)
+    return bytesToHex(bitcoin.crypto.sha256(script).reverse())
+  }
+
+  private async getHistory(address: string): Promise<HistoryEntry[]> {
+    const history = await this.client.request<HistoryEntry[]>('blockchain.scripthash.get_history', [this.scripthash(address)])
+    history.forEach(entry => this.heights.set(entry.tx_hash, entry.height))
+    return history
+  }
+
+  private async historyTransaction(entry: HistoryEntry): Promise<BitcoinTransaction> {
+    const [hex, status] = await Promise.all([this.getRawTransaction(entry.tx_hash), this.statusAtHeight(entry.height)])
+    return this.mapTransaction(hex, status)
+  }
+
+  private async getRawTransaction(txid: string): Promise<string> {
+    const cached = this.rawTransactions.get(txid)
+    if (cached) {
+      return cached
+    }
+
+    const hex = await this.client.request<string>('blockchain.transaction.get', [txid])
+    if (this.rawTransactions.size >= RAW_TX_CACHE_SIZE) {
+      this.rawTransactions.delete(this.rawTransactions.keys().next().value as string)
+    }
+    this.rawTransactions.set(txid, hex)
+    return hex
+  }
+
+  private async statusAtHeight(height: number): Promise<TransactionStatus> {
+    if (height <= 0) {
+      return { confirmed: false }
+    }
+
+    // Headers are not cached: after a reorg the same height has a different block
+    const header = await this.getBlockHeader(height)
+    return { confirmed: true, block_height: height, block_hash: header.hash, block_time: header.time }
+  }
+
+  private async getBlockHeader(height: number): Promise<BlockHeader> {
+    const header = hexToBytes(await this.client.request<string>('blockchain.block.header', [height]))
+    const time = header[68] | (header[69] << 8) | (header[70] << 16) | (header[71] << 24)
+
+    return {
+      hash: bytesToHex(bitcoin.crypto.hash256(header).reverse()),
+      time: time >>> 0
+    }
+  }
+
+  private async mapTransaction(hex: string, status: TransactionStatus): Promise<BitcoinTransaction> {
+    const tx = bitcoin.Transaction.fromHex(hex)
+
+    const vin: BitcoinInput[] = []
+    let inputTotal: number | null = 0
+    for (const input of tx.ins) {
+      const txid = bytesToHex(input.hash.slice().reverse())
+      const coinbase = /^0+$/.test(txid)
+      const prevout = coinbase
+        ? undefined
+        : this.mapOutput(bitcoin.Transaction.fromHex(await this.getRawTransaction(txid)).outs[input.index])
+
+      inputTotal = prevout && inputTotal !== null ? inputTotal + prevout.value : null
+      vin.push({
+        txid,
+        vout: input.index,
+        scriptsig: bytesToHex(input.script),
+        scriptsig_asm: input.script.length > 0 ? bitcoin.script.toASM(input.script) : '',
+        witness: input.witness.map(item => bytesToHex(item)),
+        sequence: input.sequence,
+        prevout
+      })
+    }
+
+    const vout = tx.outs.map(output => this.mapOutput(output))
+    const outputTotal = vout.reduce((sum, output) => sum + output.value, 0)
+
+    return {
+      txid: tx.getId(),
+      version: tx.version,
+      locktime: tx.locktime,
+      vin,
+      vout,
+      size: tx.byteLength(),
+      weight: tx.weight(),
+      fee: inputTotal !== null ? (inputTotal - outputTotal) / 100000000 : 0,
+      status
+    }
+  }
+
+  private mapOutput(output: { script: Uint8Array; value: bigint }): BitcoinOutput {
+    let address: string | undefined
+    try {
+      address = bitcoin.address.fromOutputScript(output.script, this.network)
+    } catch (error) {
+      address = undefined // OP_RETURN and other non-standard scripts have no address
+    }
+
+    return {
+      scriptpubkey: bytesToHex(output.script),
+      scriptpubkey_asm: bitcoin.script.toASM(output.script),
+      scriptpubkey_type: esploraScriptType(output.script),
+      scriptpubkey_address: address,
+      value: Number(output.value)
+    }
+  }
+}
+
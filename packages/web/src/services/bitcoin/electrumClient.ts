@@ -0,0 +1,390 @@
+import type { Socket } from 'net'
+
+/**
+ * A connection to an Electrum server carrying one JSON-RPC message per `send`/`onMessage`
+ */
+export interface ElectrumTransport {
+  open(onMessage: (message: string) => void, onClose: (error?: Error) => void): Promise<void>
+  send(message: string): void
+  close(): void
+}
+
+export interface ElectrumClientOptions {
+  url: string // tcp://host:50001, ssl://host:50002 (or tls://), ws://host:50003 or wss://host:50004
+  clientName?: string
+  protocolVersion?: string
+  requestTimeoutMs?: number
+  keepAliveMs?: number
+  transport?: () => ElectrumTransport // overrides the transport picked from the URL scheme
+}
+
+export type ElectrumRpcError = Error & { code: number }
+
+type NotificationListener = (params: any[]) => void
+
+interface PendingRequest {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+interface Subscription {
+  method: string
+  params: any[]
+  listeners: Set<NotificationListener>
+}
+
+const MAX_RECONNECT_DELAY = 30000
+
+/**
+ * Electrum JSON-RPC over a browser WebSocket
+ */
+export class WebSocketTransport implements ElectrumTransport {
+  private socket: WebSocket | null = null
+
+  constructor(private url: string) {}
+
+  open(onMessage: (message: string) => void, onClose: (error?: Error) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url)
+      let opened = false
+
+      socket.onopen = () => {
+        opened = true
+        resolve()
+      }
+      socket.onmessage = event => onMessage(String(event.data))
+      socket.onerror = () => {
+        if (!opened) {
+          reject(new Error(`Could not connect to Electrum server at ${this.url}`))
+        }
+      }
+      socket.onclose = () => {
+        if (opened) {
+          onClose(new Error('Electrum connection closed'))
+        }
+      }
+      this.socket = socket
+    })
+  }
+
+  send(message: string): void {
+    this.socket?.send(message)
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.onclose = null
+      this.socket.close()
+      this.socket = null
+    }
+  }
+}
+
+/**
+ * Electrum JSON-RPC over plain TCP or TLS, newline-delimited. Node only (server side and tests).
+ */
+export class SocketTransport implements ElectrumTransport {
+  private socket: Socket | null = null
+  private buffer = ''
+
+  constructor(private host: string, private port: number, private tls: boolean) {}
+
+  async open(onMessage: (message: string) => void, onClose: (error?: Error) => void): Promise<void> {
+    // Kept out of the client bundle; browsers have to use the WebSocket transport
+    const socket: Socket = this.tls
+      ? (await import(/* webpackIgnore: true */ 'tls')).connect({ host: this.host, port: this.port, servername: this.host })
+      : (await import(/* webpackIgnore: true */ 'net')).connect({ host: this.host, port: this.port })
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once(this.tls ? 'secureConnect' : 'connect', () => resolve())
+      socket.once('error', reject)
+    })
+
+    socket.setEncoding('utf8')
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk
+      let newline = this.buffer.indexOf('\n')
+      while (newline !== -1) {
+        const line = this.buffer.slice(0, newline).trim()
+        this.buffer = this.buffer.slice(newline + 1)
+        if (line) {
+          onMessage(line)
+        }
+        newline = this.buffer.indexOf('\n')
+      }
+    })
+    socket.on('error', () => undefined) // 'close' follows and reports it
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null
+        onClose(new Error('Electrum connection closed'))
+      }
+    })
+    this.socket = socket
+  }
+
+  send(message: string): void {
+    this.socket?.write(`${message}\n`)
+  }
+
+  close(): void {
+    const socket = this.socket
+    this.socket = null
+    socket?.destroy()
+  }
+}
+
+export function transportForUrl(url: string): ElectrumTransport {
+  const parsed = new URL(url)
+
+  switch (parsed.protocol) {
+    case 'ws:':
+    case 'wss:':
+      return new WebSocketTransport(url)
+    case 'tcp:':
+      return new SocketTransport(parsed.hostname, Number(parsed.port || 50001), false)
+    case 'ssl:':
+    case 'tls:':
+      return new SocketTransport(parsed.hostname, Number(parsed.port || 50002), true)
+    default:
+      throw new Error(`Unsupported Electrum server URL: ${url}`)
+  }
+}
+
+/**
+ * Electrum protocol client. Connects lazily, keeps the connection alive while in use and, after a
+ * dropped connection, reconnects and renews every subscription so no notification is missed for long.
+ */
+export class ElectrumClient {
+  private options: Required<Omit<ElectrumClientOptions, 'transport'>>
+  private createTransport: () => ElectrumTransport
+  private transport: ElectrumTransport | null = null
+  private connecting: Promise<void> | null = null
+  private pending: Map<number, PendingRequest> = new Map()
+  private subscriptions: Map<string, Subscription> = new Map()
+  private nextId = 0
+  private keepAlive: ReturnType<typeof setInterval> | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectDelay = 1000
+  private closed = false
+
+  constructor(options: ElectrumClientOptions) {
+    this.options = {
+      url: options.url,
+      clientName: options.clientName || 'atomiq-vault',
+      protocolVersion: options.protocolVersion || '1.4',
+      requestTimeoutMs: options.requestTimeoutMs ?? 30000,
+      keepAliveMs: options.keepAliveMs ?? 60000
+    }
+    this.createTransport = options.transport || (() => transportForUrl(options.url))
+  }
+
+  async request<T = any>(method: string, params: any[] = []): Promise<T> {
+    this.closed = false
+    await this.connect()
+    return this.send<T>(method, params)
+  }
+
+  /**
+   * Subscribe to a notification stream, returning the server's initial answer. Notifications are
+   * matched on method and on the leading params, e.g. the scripthash for `blockchain.scripthash.subscribe`.
+   */
+  async subscribe<T = any>(method: string, params: any[], listener: NotificationListener): Promise<T> {
+    const key = subscriptionKey(method, params)
+    const subscription = this.subscriptions.get(key) || { method, params, listeners: new Set() }
+    subscription.listeners.add(listener)
+    this.subscriptions.set(key, subscription)
+
+    return this.request<T>(method, params)
+  }
+
+  unsubscribe(method: string, params: any[], listener: NotificationListener): void {
+    const key = subscriptionKey(method, params)
+    const subscription = this.subscriptions.get(key)
+    if (!subscription) {
+      return
+    }
+
+    subscription.listeners.delete(listener)
+    if (subscription.listeners.size === 0) {
+      this.subscriptions.delete(key)
+      if (method === 'blockchain.scripthash.subscribe' && this.transport) {
+        // Protocol 1.4.2+; older servers just keep notifying and we ignore it
+        this.send('blockchain.scripthash.unsubscribe', params).catch(() => undefined)
+      }
+    }
+  }
+
+  /**
+   * Drop the connection and every subscription
+   */
+  close(): void {
+    this.closed = true
+    this.subscriptions.clear()
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.disconnect(new Error('Electrum client closed'))
+  }
+
+  private connect(): Promise<void> {
+    if (this.transport) {
+      return Promise.resolve()
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
+
+  private async open(): Promise<void> {
+    const transport = this.createTransport()
+    await transport.open(
+      message => this.handleMessage(message),
+      error => this.handleClose(transport, error)
+    )
+    this.transport = transport
+
+    try {
+      await this.send('server.version', [this.options.clientName, this.options.protocolVersion])
+    } catch (error) {
+      this.disconnect(error as Error)
+      throw error
+    }
+
+    this.reconnectDelay = 1000
+    this.keepAlive = setInterval(() => {
+      this.send('server.ping').catch(() => undefined)
+    }, this.options.keepAliveMs)
+  }
+
+  private send<T>(method: string, params: any[] = []): Promise<T> {
+    const transport = this.transport
+    if (!transport) {
+      return Promise.reject(new Error('Not connected to an Electrum server'))
+    }
+
+    const id = ++this.nextId
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`Electrum request ${method} timed out`))
+      }, this.options.requestTimeoutMs)
+
+      this.pending.set(id, { resolve, reject, timer })
+      transport.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }))
+    })
+  }
+
+  private handleMessage(message: string): void {
+    let parsed: any
+    try {
+      parsed = JSON.parse(message)
+    } catch (error) {
+      console.error('Ignoring malformed Electrum message:', message)
+      return
+    }
+
+    for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+      if (item.id !== undefined && item.id !== null) {
+        this.handleResponse(item)
+      } else if (item.method) {
+        this.handleNotification(item.method, item.params || [])
+      }
+    }
+  }
+
+  private handleResponse(response: any): void {
+    const request = this.pending.get(response.id)
+    if (!request) {
+      return
+    }
+
+    this.pending.delete(response.id)
+    clearTimeout(request.timer)
+
+    if (response.error) {
+      const error = new Error(response.error.message || String(response.error)) as ElectrumRpcError
+      error.code = response.error.code
+      request.reject(error)
+    } else {
+      request.resolve(response.result)
+    }
+  }
+
+  private handleNotification(method: string, params: any[]): void {
+    for (const subscription of Array.from(this.subscriptions.values())) {
+      if (subscription.method !== method ||
+        subscriptionKey(method, params.slice(0, subscription.params.length)) !== subscriptionKey(method, subscription.params)) {
+        continue
+      }
+
+      for (const listener of Array.from(subscription.listeners)) {
+        try {
+          listener(params)
+        } catch (error) {
+          console.error('Electrum notification listener failed:', error)
+        }
+      }
+    }
+  }
+
+  private handleClose(transport: ElectrumTransport, error?: Error): void {
+    if (this.transport !== transport) {
+      return
+    }
+
+    this.disconnect(error || new Error('Electrum connection closed'))
+    if (!this.closed && this.subscriptions.size > 0) {
+      this.scheduleReconnect()
+    }
+  }
+
+  private disconnect(error: Error): void {
+    if (this.keepAlive) {
+      clearInterval(this.keepAlive)
+      this.keepAlive = null
+    }
+
+    const transport = this.transport
+    this.transport = null
+    transport?.close()
+
+    this.pending.forEach(request => {
+      clearTimeout(request.timer)
+      request.reject(error)
+    })
+    this.pending.clear()
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return
+    }
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
+      try {
+        await this.connect()
+
+        // Anything may have changed while we were away, so let every listener re-check
+        for (const subscription of Array.from(this.subscriptions.values())) {
+          const result = await this.send(subscription.method, subscription.params)
+          this.handleNotification(subscription.method, [...subscription.params, result])
+        }
+      } catch (error) {
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY)
+        this.scheduleReconnect()
+      }
+    }, this.reconnectDelay)
+  }
+}
+
+function subscriptionKey(method: string, params: any[]): string {
+  return `${method}:${JSON.stringify(params)}`
+}
@@ -0,0 +1,172 @@
+import { BitcoinTransaction } from '@/types/atomiq'
+import { TransactionStatus } from './addressMonitor'
+import { AddressBalance, AddressHistoryPage, ChainBackend, HISTORY_PAGE_SIZE, Utxo } from './chainBackend'
+import { FeeRateTable, esploraFeeSource } from './feeEstimator'
+
+/**
+ * A non-2xx answer from an Esplora server, keeping the status so callers can tell a rate limit or
+ * an outage from a bad request
+ */
+export class EsploraHttpError extends Error {
+  status: number
+  retryAfterMs?: number // from a 429's Retry-After header
+
+  constructor(response: Response, message = `HTTP error! status: ${response.status}`) {
+    super(message)
+    this.name = 'EsploraHttpError'
+    this.status = response.status
+    const retryAfter = Number(response.headers?.get('Retry-After'))
+    this.retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined
+  }
+}
+
+/**
+ * Chain access through an Esplora REST API (blockstream.info, mempool.space or self-hosted)
+ */
+export class EsploraBackend implements ChainBackend {
+  private rpcUrl: string
+  private feeSource: () => Promise<FeeRateTable>
+
+  constructor(rpcUrl: string) {
+    this.rpcUrl = rpcUrl
+    this.feeSource = esploraFeeSource(rpcUrl)
+  }
+
+  async getBalance(address: string): Promise<AddressBalance> {
+    const data = await this.getJson(`/address/${address}`)
+    const chain_stats = data.chain_stats || {}
+    const mempool_stats = data.mempool_stats || {}
+
+    return {
+      confirmed: chain_stats.funded_txo_sum - chain_stats.spent_txo_sum,
+      unconfirmed: mempool_stats.funded_txo_sum - mempool_stats.spent_txo_sum
+    }
+  }
+
+  async getUtxos(address: string): Promise<Utxo[]> {
+    const data = await this.getJson(`/address/${address}/utxo`)
+    return (data || []).map((utxo: any) => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value,
+      confirmed: utxo.status?.confirmed || false
+    }))
+  }
+
+  async getTransaction(txid: string): Promise<BitcoinTransaction> {
+    return mapEsploraTransaction(await this.getJson(`/tx/${txid}`))
+  }
+
+  async getAddressTransactions(address: string): Promise<BitcoinTransaction[]> {
+    const data = await this.getJson(`/address/${address}/txs`)
+    return (data || []).map(mapEsploraTransaction)
+  }
+
+  /**
+   * The first page is every mempool transaction plus the newest confirmed page; later pages continue
+   * the confirmed history from `txs/chain/:last_seen_txid`
+   */
+  async getAddressTransactionsPage(address: string, lastSeenTxid?: string): Promise<AddressHistoryPage> {
+    const data = await this.getJson(lastSeenTxid ? `/address/${address}/txs/chain/${lastSeenTxid}` : `/address/${address}/txs`)
+    const transactions: BitcoinTransaction[] = (data || []).map(mapEsploraTransaction)
+    const confirmed = transactions.filter(transaction => transaction.status.confirmed)
+
+    return {
+      transactions,
+      lastSeenTxid: confirmed.length >= HISTORY_PAGE_SIZE ? confirmed[confirmed.length - 1].txid : null
+    }
+  }
+
+  async getTransactionStatus(txid: string): Promise<TransactionStatus | null> {
+    const response = await fetch(`${this.rpcUrl}/tx/${txid}/status`)
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw new EsploraHttpError(response)
+    }
+
+    return await response.json()
+  }
+
+  async getSpendingTransaction(txid: string, vout: number): Promise<string | null> {
+    const data = await this.getJson(`/tx/${txid}/outspend/${vout}`)
+    return data?.spent ? data.txid : null
+  }
+
+  async getTipHeight(): Promise<number> {
+    const response = await fetch(`${this.rpcUrl}/blocks/tip/height`)
+    if (!response.ok) {
+      throw new EsploraHttpError(response)
+    }
+
+    return parseInt(await response.text(), 10)
+  }
+
+  async broadcastTransaction(hex: string): Promise<string> {
+    const response = await fetch(`${this.rpcUrl}/tx`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/plain'
+      },
+      body: hex
+    })
+
+    if (!response.ok) {
+      const reason = await response.text().catch(() => response.statusText)
+      throw new EsploraHttpError(response, `Transaction broadcast failed: ${reason || response.statusText}`)
+    }
+
+    // Esplora answers with the txid as plain text
+    return (await response.text()).trim()
+  }
+
+  getFeeRates(): Promise<FeeRateTable> {
+    return this.feeSource()
+  }
+
+  private async getJson(path: string): Promise<any> {
+    const response = await fetch(`${this.rpcUrl}${path}`)
+    if (!response.ok) {
+      throw new EsploraHttpError(response)
+    }
+
+    return await response.json()
+  }
+}
+
+/**
+ * Esplora's transaction JSON is already our `BitcoinTransaction` shape, apart from the fee in sats
+ */
+export function mapEsploraTransaction(data: any): BitcoinTransaction {
+  return {
+    txid: data.txid,
+    version: data.version,
+    locktime: data.locktime,
+    vin: data.vin.map((input: any) => ({
+      txid: input.txid,
+      vout: input.vout,
+      scriptsig: input.scriptsig || '',
+      scriptsig_asm: input.scriptsig_asm || '',
+      witness: input.witness || [],
+      sequence: input.sequence,
+      prevout: input.prevout
+    })),
+    vout: data.vout.map((output: any) => ({
+      scriptpubkey: output.scriptpubkey,
+      scriptpubkey_asm: output.scriptpubkey_asm,
+      scriptpubkey_type: output.scriptpubkey_type,
+      scriptpubkey_address: output.scriptpubkey_address,
+      value: output.value
+    })),
+    size: data.size,
+    weight: data.weight,
+    fee: data.fee ? data.fee / 100000000 : 0,
+    status: {
+      confirmed: data.status?.confirmed || false,
+      block_height: data.status?.block_height,
+      block_hash: data.status?.block_hash,
+      block_time: data.status?.block_time
+    }
+  }
+}
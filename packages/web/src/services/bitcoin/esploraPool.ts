@@ -0,0 +1,248 @@
+import { BitcoinTransaction, EsploraPoolOptions } from '@/types/atomiq'
+import { TransactionStatus } from './addressMonitor'
+import { AddressBalance, AddressHistoryPage, ChainBackend, Utxo } from './chainBackend'
+import { EsploraBackend, EsploraHttpError } from './esplora'
+import { FeeRateTable } from './feeEstimator'
+
+export interface EsploraProviderStatus {
+  url: string
+  tipHeight: number | null
+  lagging: boolean // trails the best tip by more than maxTipLag
+  unavailableUntil: Date | null // sitting out after errors or a rate limit
+}
+
+interface Provider {
+  url: string
+  backend: ChainBackend
+  tipHeight: number | null
+  lagging: boolean
+  unavailableUntil: number
+}
+
+/**
+ * Several Esplora servers behind one `ChainBackend`. Reads go to one provider and move on to the
+ * next when it fails or rate-limits us, providers whose tip trails the best one are only asked once
+ * nothing else answers, and balance and UTXO reads can be made to wait for `quorum` providers to
+ * agree before a deposit is credited on them.
+ */
+export class EsploraPool implements ChainBackend {
+  private providers: Provider[]
+  private quorum: number
+  private maxTipLag: number
+  private cooldownMs: number
+  private rateLimitCooldownMs: number
+  private tipCheckIntervalMs: number
+  private preferred = 0
+  private lastTipCheck = 0
+  private tipCheck: Promise<void> | null = null
+
+  constructor(
+    urls: string[],
+    options: EsploraPoolOptions = {},
+    createBackend: (url: string) => ChainBackend = url => new EsploraBackend(url)
+  ) {
+    if (urls.length === 0) {
+      throw new Error('An Esplora pool needs at least one provider')
+    }
+
+    this.quorum = options.quorum ?? 1
+    if (!(Number.isInteger(this.quorum) && this.quorum >= 1 && this.quorum <= urls.length)) {
+      throw new Error(`Esplora quorum must be between 1 and the number of providers (${urls.length})`)
+    }
+
+    this.providers = urls.map(url => ({
+      url,
+      backend: createBackend(url),
+      tipHeight: null,
+      lagging: false,
+      unavailableUntil: 0
+    }))
+    this.maxTipLag = options.maxTipLag ?? 2
+    this.cooldownMs = options.cooldownMs ?? 30000
+    this.rateLimitCooldownMs = options.rateLimitCooldownMs ?? 60000
+    this.tipCheckIntervalMs = options.tipCheckIntervalMs ?? 60000
+  }
+
+  /**
+   * Only confirmed funds have to match across providers; mempools legitimately differ between servers
+   */
+  getBalance(address: string): Promise<AddressBalance> {
+    return this.agree(backend => backend.getBalance(address), balance => String(balance.confirmed))
+  }
+
+  getUtxos(address: string): Promise<Utxo[]> {
+    return this.agree(
+      backend => backend.getUtxos(address),
+      utxos => utxos
+        .filter(utxo => utxo.confirmed)
+        .map(utxo => `${utxo.txid}:${utxo.vout}:${utxo.value}`)
+        .sort()
+        .join(',')
+    )
+  }
+
+  getTransaction(txid: string): Promise<BitcoinTransaction> {
+    return this.call(backend => backend.getTransaction(txid))
+  }
+
+  getAddressTransactions(address: string): Promise<BitcoinTransaction[]> {
+    return this.call(backend => backend.getAddressTransactions(address))
+  }
+
+  getAddressTransactionsPage(address: string, lastSeenTxid?: string): Promise<AddressHistoryPage> {
+    return this.call(backend => backend.getAddressTransactionsPage(address, lastSeenTxid))
+  }
+
+  getTransactionStatus(txid: string): Promise<TransactionStatus | null> {
+    return this.call(backend => backend.getTransactionStatus(txid))
+  }
+
+  getSpendingTransaction(txid: string, vout: number): Promise<string | null> {
+    return this.call(async backend => backend.getSpendingTransaction ? backend.getSpendingTransaction(txid, vout) : null)
+  }
+
+  /**
+   * The best tip any provider reports; asking also re-checks which providers are lagging
+   */
+  async getTipHeight(): Promise<number> {
+    await this.checkTips(true)
+
+    const best = this.bestTip()
+    if (best === null) {
+      throw new Error('No Esplora provider reported a tip height')
+    }
+    return best
+  }
+
+  broadcastTransaction(hex: string): Promise<string> {
+    return this.call(backend => backend.broadcastTransaction(hex))
+  }
+
+  getFeeRates(): Promise<FeeRateTable> {
+    return this.call(backend => backend.getFeeRates())
+  }
+
+  getProviderStatus(): EsploraProviderStatus[] {
+    const now = Date.now()
+    return this.providers.map(provider => ({
+      url: provider.url,
+      tipHeight: provider.tipHeight,
+      lagging: provider.lagging,
+      unavailableUntil: provider.unavailableUntil > now ? new Date(provider.unavailableUntil) : null
+    }))
+  }
+
+  private async call<T>(read: (backend: ChainBackend) => Promise<T>): Promise<T> {
+    await this.checkTips()
+
+    let lastError: any = null
+    for (const provider of this.candidates()) {
+      try {
+        return await read(provider.backend)
+      } catch (error) {
+        lastError = error
+        this.fail(provider, error)
+      }
+    }
+    throw lastError
+  }
+
+  // Ask `quorum` providers at once, then one more for each that fails or disagrees, until enough give the same answer
+  private async agree<T>(read: (backend: ChainBackend) => Promise<T>, key: (result: T) => string): Promise<T> {
+    if (this.quorum === 1) {
+      return this.call(read)
+    }
+    await this.checkTips()
+
+    const votes: Map<string, { result: T; count: number }> = new Map()
+    const agreed = () => Array.from(votes.values()).find(vote => vote.count >= this.quorum)
+    let lastError: any = null
+
+    const ask = async (provider: Provider): Promise<void> => {
+      try {
+        const result = await read(provider.backend)
+        const vote = votes.get(key(result)) || { result, count: 0 }
+        vote.count++
+        votes.set(key(result), vote)
+      } catch (error) {
+        lastError = error
+        this.fail(provider, error)
+      }
+    }
+
+    const candidates = this.candidates()
+    await Promise.all(candidates.slice(0, this.quorum).map(ask))
+    for (const provider of candidates.slice(this.quorum)) {
+      if (agreed()) {
+        break
+      }
+      await ask(provider)
+    }
+
+    const vote = agreed()
+    if (vote) {
+      return vote.result
+    }
+    if (votes.size > 1) {
+      throw new Error(`Esplora providers disagree; fewer than ${this.quorum} gave the same answer`)
+    }
+    throw lastError || new Error(`Fewer than ${this.quorum} Esplora providers answered`)
+  }
+
+  // The preferred provider first, then the rest in turn; lagging providers after healthy ones and benched ones last
+  private candidates(): Provider[] {
+    const now = Date.now()
+    const ordered = [...this.providers.slice(this.preferred), ...this.providers.slice(0, this.preferred)]
+    const rank = (provider: Provider) => provider.unavailableUntil > now ? 2 : provider.lagging ? 1 : 0
+    return ordered.sort((a, b) => rank(a) - rank(b))
+  }
+
+  // A server that is down or rate-limiting us sits out and the next one takes over; any other 4xx is
+  // about the request, not the server, so it only moves the read on
+  private fail(provider: Provider, error: any): void {
+    const status = error instanceof EsploraHttpError ? error.status : undefined
+    if (status !== undefined && status >= 400 && status < 500 && status !== 429) {
+      return
+    }
+
+    const cooldown = status === 429 ? error.retryAfterMs ?? this.rateLimitCooldownMs : this.cooldownMs
+    provider.unavailableUntil = Date.now() + cooldown
+    if (this.providers[this.preferred] === provider) {
+      this.preferred = (this.preferred + 1) % this.providers.length
+    }
+  }
+
+  private checkTips(force = false): Promise<void> {
+    if (!this.tipCheck && (force || Date.now() - this.lastTipCheck >= this.tipCheckIntervalMs)) {
+      this.tipCheck = this.compareTips().finally(() => {
+        this.lastTipCheck = Date.now()
+        this.tipCheck = null
+      })
+    }
+    return this.tipCheck || Promise.resolve()
+  }
+
+  private async compareTips(): Promise<void> {
+    const now = Date.now()
+    await Promise.all(this.providers.map(async provider => {
+      if (provider.unavailableUntil > now) {
+        return
+      }
+      try {
+        provider.tipHeight = await provider.backend.getTipHeight()
+      } catch (error) {
+        this.fail(provider, error)
+      }
+    }))
+
+    const best = this.bestTip()
+    for (const provider of this.providers) {
+      provider.lagging = best !== null && provider.tipHeight !== null && best - provider.tipHeight > this.maxTipLag
+    }
+  }
+
+  private bestTip(): number | null {
+    const tips = this.providers.map(provider => provider.tipHeight).filter((tip): tip is number => tip !== null)
+    return tips.length > 0 ? Math.max(...tips) : null
+  }
+}
@@ -0,0 +1,187 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { hexToBytes } from '@noble/hashes/utils.js'
+import { BitcoinTransaction, FeeBumpPreview } from '@/types/atomiq'
+import { dustLimitFor } from './coinSelection'
+import { MIN_RELAY_FEE_RATE, estimateVsize, scriptTypeForAddress, scriptTypeForScript } from './feeEstimator'
+
+// BIP125: any input sequence below 0xfffffffe opts the transaction in to replacement
+export const RBF_SEQUENCE = 0xfffffffd
+
+// Per-vbyte fee a replacement must add on top of what it replaces
+export const INCREMENTAL_RELAY_FEE_RATE = 1
+
+export interface FeeBumpPlan extends FeeBumpPreview {
+  psbt: string // base64, unsigned
+}
+
+// The wallet's PSBT fields for an input spending one of its addresses: key origins, scripts, Taproot keys
+export type InputFieldsFor = (address: string) => Parameters<bitcoin.Psbt['updateInput']>[1] | undefined
+
+/**
+ * Whether a transaction can be replaced under BIP125
+ */
+export function signalsRbf(tx: BitcoinTransaction): boolean {
+  return tx.vin.some(input => input.sequence !== undefined && input.sequence < 0xfffffffe)
+}
+
+/**
+ * Virtual size of a broadcast transaction
+ */
+export function transactionVsize(tx: BitcoinTransaction): number {
+  return tx.weight ? Math.ceil(tx.weight / 4) : tx.size
+}
+
+/**
+ * Fee rate a broadcast transaction pays, in sat/vB
+ */
+export function transactionFeeRate(tx: BitcoinTransaction): number {
+  return Math.round(tx.fee * 100000000) / transactionVsize(tx)
+}
+
+/**
+ * Rebuild the transaction with the same inputs and outputs, taking the extra fee out of our change.
+ * Inputs carry the wallet's `inputFields` as they did when first built, so the same signers can sign it.
+ */
+export function planReplacement(
+  tx: BitcoinTransaction,
+  targetFeeRate: number,
+  isOwnAddress: (address: string) => boolean,
+  network: bitcoin.Network,
+  inputFields?: InputFieldsFor
+): FeeBumpPlan {
+  if (!signalsRbf(tx)) {
+    throw new Error('Transaction does not signal replace-by-fee')
+  }
+
+  if (!tx.vin.every(input => input.prevout?.scriptpubkey_address && isOwnAddress(input.prevout.scriptpubkey_address))) {
+    throw new Error('Transaction spends inputs this wallet does not control')
+  }
+
+  const changeIndex = findOwnOutput(tx, isOwnAddress)
+  if (changeIndex === -1) {
+    throw new Error('Transaction has no change output to take the higher fee from')
+  }
+
+  const vsize = transactionVsize(tx)
+  const currentFee = Math.round(tx.fee * 100000000)
+  const newFee = Math.max(
+    Math.ceil(targetFeeRate * vsize),
+    currentFee + Math.ceil(INCREMENTAL_RELAY_FEE_RATE * vsize)
+  )
+  const additionalFee = newFee - currentFee
+
+  const change = tx.vout[changeIndex]
+  const newChange = change.value - additionalFee
+  const changeType = scriptTypeForAddress(change.scriptpubkey_address!, network)
+  if (newChange < dustLimitFor(changeType)) {
+    throw new Error('Change output is too small to pay the higher fee')
+  }
+
+  const psbt = new bitcoin.Psbt({ network })
+  psbt.setVersion(tx.version)
+  psbt.setLocktime(tx.locktime)
+
+  for (const input of tx.vin) {
+    psbt.addInput({
+      hash: input.txid,
+      index: input.vout,
+      sequence: RBF_SEQUENCE,
+      witnessUtxo: {
+        script: hexToBytes(input.prevout!.scriptpubkey),
+        value: BigInt(input.prevout!.value)
+      },
+      ...inputFields?.(input.prevout!.scriptpubkey_address!)
+    })
+  }
+
+  tx.vout.forEach((output, index) => {
+    psbt.addOutput({
+      script: hexToBytes(output.scriptpubkey),
+      value: BigInt(index === changeIndex ? newChange : output.value)
+    })
+  })
+
+  return {
+    txid: tx.txid,
+    method: 'rbf',
+    currentFeeRate: transactionFeeRate(tx),
+    targetFeeRate: newFee / vsize,
+    additionalFee: additionalFee / 100000000,
+    totalFee: newFee / 100000000,
+    psbt: psbt.toBase64()
+  }
+}
+
+/**
+ * Spend our output of a stuck transaction in a child paying enough for both to reach the target rate
+ */
+export function planChildPaysForParent(
+  tx: BitcoinTransaction,
+  targetFeeRate: number,
+  isOwnAddress: (address: string) => boolean,
+  changeAddress: string,
+  network: bitcoin.Network,
+  inputFields?: InputFieldsFor
+): FeeBumpPlan {
+  const outputIndex = findOwnOutput(tx, isOwnAddress)
+  if (outputIndex === -1) {
+    throw new Error('Transaction has no output this wallet controls')
+  }
+
+  const output = tx.vout[outputIndex]
+  const parentVsize = transactionVsize(tx)
+  const parentFee = Math.round(tx.fee * 100000000)
+  const outputType = scriptTypeForScript(hexToBytes(output.scriptpubkey))
+  if (outputType !== 'p2wpkh' && outputType !== 'p2tr') {
+    throw new Error(`Cannot spend a ${output.scriptpubkey_type} output in a child transaction`)
+  }
+  const changeType = scriptTypeForAddress(changeAddress, network)
+  const childVsize = estimateVsize([outputType], [changeType])
+
+  // The package fee rate is what miners see: parent and child fees over their combined size
+  const childFee = Math.max(
+    Math.ceil(targetFeeRate * (parentVsize + childVsize)) - parentFee,
+    Math.ceil(MIN_RELAY_FEE_RATE * childVsize)
+  )
+  const childValue = output.value - childFee
+  if (childValue < dustLimitFor(changeType)) {
+    throw new Error('Output is too small to pay for a child transaction')
+  }
+
+  const psbt = new bitcoin.Psbt({ network })
+  psbt.addInput({
+    hash: tx.txid,
+    index: outputIndex,
+    sequence: RBF_SEQUENCE,
+    witnessUtxo: {
+      script: hexToBytes(output.scriptpubkey),
+      value: BigInt(output.value)
+    },
+    ...inputFields?.(output.scriptpubkey_address!)
+  })
+  psbt.addOutput({
+    address: changeAddress,
+    value: BigInt(childValue)
+  })
+
+  return {
+    txid: tx.txid,
+    method: 'cpfp',
+    currentFeeRate: transactionFeeRate(tx),
+    targetFeeRate: (parentFee + childFee) / (parentVsize + childVsize),
+    additionalFee: childFee / 100000000,
+    totalFee: (parentFee + childFee) / 100000000,
+    psbt: psbt.toBase64()
+  }
+}
+
+// Our change is the last output paying back to us
+function findOwnOutput(tx: BitcoinTransaction, isOwnAddress: (address: string) => boolean): number {
+  for (let index = tx.vout.length - 1; index >= 0; index--) {
+    const address = tx.vout[index].scriptpubkey_address
+    if (address && isOwnAddress(address)) {
+      return index
+    }
+  }
+  return -1
+}
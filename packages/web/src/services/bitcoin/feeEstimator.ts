@@ -0,0 +1,250 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { FeeEstimates, FeeTier } from '@/types/atomiq'
+import './ecc'
+
+export type ScriptType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2wsh' | 'p2tr'
+
+/** A spent input: its script type, with the weight spelled out when the type alone does not fix it (multisig) */
+export type InputShape = ScriptType | { scriptType: ScriptType; weight: number }
+
+/** Confirmation target in blocks -> fee rate in sat/vB */
+export type FeeRateTable = Record<number, number>
+
+export type FeeEstimateSource = () => Promise<FeeRateTable>
+
+export interface FeeEstimatorOptions {
+  cacheTtlMs?: number
+  minFeeRate?: number
+  targets?: Record<FeeTier, number>
+}
+
+export const FEE_TIER_TARGETS: Record<FeeTier, number> = {
+  priority: 1,
+  normal: 6,
+  economy: 144
+}
+
+export const MIN_RELAY_FEE_RATE = 1
+
+export const DEFAULT_ESPLORA_URLS = {
+  mainnet: 'https://blockstream.info/api',
+  testnet: 'https://blockstream.info/testnet/api'
+}
+
+// Weight units per spent input, assuming 72-byte signatures and compressed keys.
+// P2SH is taken to wrap P2WPKH and P2WSH to be a 2-of-3 multisig; P2TR is a key-path spend.
+const INPUT_WEIGHT: Record<ScriptType, number> = {
+  'p2pkh': 592,
+  'p2sh-p2wpkh': 364,
+  'p2wpkh': 272,
+  'p2wsh': 418,
+  'p2tr': 230
+}
+
+// Weight units per output: 8-byte value, script length and scriptPubKey
+const OUTPUT_WEIGHT: Record<ScriptType, number> = {
+  'p2pkh': 136,
+  'p2sh-p2wpkh': 128,
+  'p2wpkh': 124,
+  'p2wsh': 172,
+  'p2tr': 172
+}
+
+/**
+ * Weight in weight units of a transaction spending the given input types to the given output types
+ */
+export function estimateWeight(inputs: InputShape[], outputs: ScriptType[]): number {
+  const hasWitness = inputs.some(input => (typeof input === 'string' ? input : input.scriptType) !== 'p2pkh')
+
+  // version + locktime, input/output counts, and the segwit marker and flag
+  let weight = (8 + varIntSize(inputs.length) + varIntSize(outputs.length)) * 4
+  if (hasWitness) {
+    weight += 2
+  }
+
+  weight += inputs.reduce((sum, input) => sum + inputWeight(input), 0)
+  weight += outputs.reduce((sum, type) => sum + OUTPUT_WEIGHT[type], 0)
+
+  return weight
+}
+
+/**
+ * Virtual size of a transaction spending the given input types to the given output types
+ */
+export function estimateVsize(inputs: InputShape[], outputs: ScriptType[]): number {
+  return Math.ceil(estimateWeight(inputs, outputs) / 4)
+}
+
+/**
+ * Virtual bytes a single input of this type adds when spent
+ */
+export function inputVbytes(input: InputShape): number {
+  return inputWeight(input) / 4
+}
+
+function inputWeight(input: InputShape): number {
+  return typeof input === 'string' ? INPUT_WEIGHT[input] : input.weight
+}
+
+/**
+ * Virtual bytes a single output of this type adds
+ */
+export function outputVbytes(type: ScriptType): number {
+  return OUTPUT_WEIGHT[type] / 4
+}
+
+/**
+ * Fee in satoshis for a transaction of the given shape at a rate in sat/vB
+ */
+export function estimateFeeSats(inputs: InputShape[], outputs: ScriptType[], feeRate: number): number {
+  return Math.ceil(estimateVsize(inputs, outputs) * feeRate)
+}
+
+/**
+ * Work out the script type behind an address from its scriptPubKey
+ */
+export function scriptTypeForAddress(address: string, network: bitcoin.Network): ScriptType {
+  const type = scriptTypeForScript(bitcoin.address.toOutputScript(address, network))
+  if (!type) {
+    throw new Error(`Unsupported script type for address ${address}`)
+  }
+
+  return type
+}
+
+/**
+ * Match a scriptPubKey against the standard templates. A P2SH script is assumed to wrap
+ * P2WPKH, since the redeem script is not revealed until the output is spent.
+ */
+export function scriptTypeForScript(script: Uint8Array): ScriptType | null {
+  if (script.length === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14) {
+    return 'p2pkh'
+  }
+  if (script.length === 23 && script[0] === 0xa9 && script[1] === 0x14) {
+    return 'p2sh-p2wpkh'
+  }
+  if (script.length === 22 && script[0] === 0x00 && script[1] === 0x14) {
+    return 'p2wpkh'
+  }
+  if (script.length === 34 && script[0] === 0x00 && script[1] === 0x20) {
+    return 'p2wsh'
+  }
+  if (script.length === 34 && script[0] === 0x51 && script[1] === 0x20) {
+    return 'p2tr'
+  }
+
+  return null
+}
+
+const ESPLORA_SCRIPT_TYPES: Record<ScriptType, string> = {
+  'p2pkh': 'p2pkh',
+  'p2sh-p2wpkh': 'p2sh',
+  'p2wpkh': 'v0_p2wpkh',
+  'p2wsh': 'v0_p2wsh',
+  'p2tr': 'v1_p2tr'
+}
+
+/**
+ * Esplora's `scriptpubkey_type` name for an output script, which every backend reports
+ */
+export function esploraScriptType(script: Uint8Array): string {
+  const type = scriptTypeForScript(script)
+  if (type) {
+    return ESPLORA_SCRIPT_TYPES[type]
+  }
+
+  return script[0] === 0x6a ? 'op_return' : 'unknown'
+}
+
+/**
+ * Bitcoin Core reports fee rates in BTC/kvB
+ */
+export function btcPerKvbToSatPerVbyte(feeRate: number): number {
+  return Math.round(feeRate * 100000000) / 1000 // sat/kvB is whole, so round off float error first
+}
+
+/**
+ * Read fee estimates from an Esplora `/fee-estimates` endpoint
+ */
+export function esploraFeeSource(rpcUrl: string): FeeEstimateSource {
+  return async () => {
+    const response = await fetch(`${rpcUrl}/fee-estimates`)
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    const data: Record<string, number> = await response.json()
+    const table: FeeRateTable = {}
+    for (const [target, feeRate] of Object.entries(data)) {
+      table[Number(target)] = feeRate
+    }
+
+    return table
+  }
+}
+
+/**
+ * Turns a confirmation-target fee table into economy/normal/priority rates, cached for a short while
+ */
+export class FeeEstimator {
+  private source: FeeEstimateSource
+  private cacheTtlMs: number
+  private minFeeRate: number
+  private targets: Record<FeeTier, number>
+  private cached: FeeEstimates | null = null
+
+  constructor(source: FeeEstimateSource, options: FeeEstimatorOptions = {}) {
+    this.source = source
+    this.cacheTtlMs = options.cacheTtlMs ?? 60000
+    this.minFeeRate = options.minFeeRate ?? MIN_RELAY_FEE_RATE
+    this.targets = options.targets || FEE_TIER_TARGETS
+  }
+
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    if (this.cached && Date.now() - this.cached.updatedAt.getTime() < this.cacheTtlMs) {
+      return this.cached
+    }
+
+    try {
+      const table = await this.source()
+
+      const economy = this.rateForTarget(table, this.targets.economy)
+      const normal = Math.max(economy, this.rateForTarget(table, this.targets.normal))
+      const priority = Math.max(normal, this.rateForTarget(table, this.targets.priority))
+
+      this.cached = { economy, normal, priority, updatedAt: new Date() }
+      return this.cached
+    } catch (error) {
+      // A stale estimate beats none at all
+      if (this.cached) {
+        return this.cached
+      }
+      throw error
+    }
+  }
+
+  async getFeeRate(tier: FeeTier = 'normal'): Promise<number> {
+    const estimates = await this.getFeeEstimates()
+    return estimates[tier]
+  }
+
+  private rateForTarget(table: FeeRateTable, target: number): number {
+    const available = Object.keys(table).map(Number).sort((a, b) => a - b)
+    if (available.length === 0) {
+      throw new Error('No fee estimates available')
+    }
+
+    // Use the closest target that confirms at least as fast as requested
+    const faster = available.filter(blocks => blocks <= target)
+    const chosen = faster.length > 0 ? faster[faster.length - 1] : available[0]
+
+    return Math.max(this.minFeeRate, Math.ceil(table[chosen]))
+  }
+}
+
+function varIntSize(count: number): number {
+  if (count < 0xfd) {
+    return 1
+  }
+  return count <= 0xffff ? 3 : 5
+}
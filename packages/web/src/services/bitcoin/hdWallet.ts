@@ -0,0 +1,398 @@
+import { HDKey } from '@scure/bip32'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import * as bitcoin from 'bitcoinjs-lib'
+import { BitcoinAddress } from '@/types/atomiq'
+import './ecc'
+
+export type BitcoinNetworkName = 'mainnet' | 'testnet' | 'regtest'
+
+// BIP32 chain indexes: 0 = external (receive), 1 = internal (change)
+export type DerivationChain = 0 | 1
+
+// P2WPKH addresses follow BIP84, Taproot key-path (P2TR) addresses follow BIP86
+export type WalletAddressType = 'p2wpkh' | 'p2tr'
+
+export interface HDWalletConfig {
+  xpub: string
+  network: BitcoinNetworkName
+  accountPath?: string
+  gapLimit?: number
+  addressType?: WalletAddressType
+  masterFingerprint?: string // hex; with it, PSBTs carry key origins so cold storage can sign them
+}
+
+type PsbtInputUpdate = Parameters<bitcoin.Psbt['updateInput']>[1]
+
+export interface AddressIndexState {
+  nextIndex: number
+  nextChangeIndex: number
+  highestUsedIndex: number
+  highestUsedChangeIndex?: number // missing from state saved before change was reserved on finalization
+  usedIndexes: number[]
+  assignments: Record<string, number>
+}
+
+export interface AddressIndexStore {
+  load(): AddressIndexState | null
+  save(state: AddressIndexState): void
+}
+
+interface ExtendedKeyFormat {
+  network: 'mainnet' | 'testnet' // regtest shares the testnet key versions
+  versions: { private: number; public: number }
+  addressTypes: WalletAddressType[]
+}
+
+// SLIP-132 version bytes for the watch-only key formats we can derive addresses from. zpub and
+// vpub announce P2WPKH; Taproot has no SLIP-132 prefix, so BIP86 accounts are exported as xpub/tpub.
+const EXTENDED_KEY_FORMATS: Record<string, ExtendedKeyFormat> = {
+  xpub: { network: 'mainnet', versions: { private: 0x0488ade4, public: 0x0488b21e }, addressTypes: ['p2wpkh', 'p2tr'] },
+  zpub: { network: 'mainnet', versions: { private: 0x04b2430c, public: 0x04b24746 }, addressTypes: ['p2wpkh'] },
+  tpub: { network: 'testnet', versions: { private: 0x04358394, public: 0x043587cf }, addressTypes: ['p2wpkh', 'p2tr'] },
+  vpub: { network: 'testnet', versions: { private: 0x045f18bc, public: 0x045f1cf6 }, addressTypes: ['p2wpkh'] }
+}
+
+const ACCOUNT_PURPOSE: Record<WalletAddressType, number> = {
+  p2wpkh: 84,
+  p2tr: 86
+}
+
+export const DEFAULT_GAP_LIMIT = 20
+
+export function toBitcoinNetwork(network: BitcoinNetworkName): bitcoin.Network {
+  switch (network) {
+    case 'mainnet':
+      return bitcoin.networks.bitcoin
+    case 'regtest':
+      return bitcoin.networks.regtest
+    default:
+      return bitcoin.networks.testnet
+  }
+}
+
+/**
+ * Keeps address index state in memory only
+ */
+export class MemoryAddressIndexStore implements AddressIndexStore {
+  private state: AddressIndexState | null = null
+
+  load(): AddressIndexState | null {
+    return this.state
+  }
+
+  save(state: AddressIndexState): void {
+    this.state = state
+  }
+}
+
+/**
+ * Persists address index state in localStorage, falling back to memory outside the browser
+ */
+export class LocalStorageAddressIndexStore implements AddressIndexStore {
+  private fallback = new MemoryAddressIndexStore()
+
+  constructor(private storageKey: string) {}
+
+  load(): AddressIndexState | null {
+    if (typeof localStorage === 'undefined') {
+      return this.fallback.load()
+    }
+
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? JSON.parse(stored) : null
+    } catch (error) {
+      console.error('Failed to load address index state:', error)
+      return null
+    }
+  }
+
+  save(state: AddressIndexState): void {
+    if (typeof localStorage === 'undefined') {
+      this.fallback.save(state)
+      return
+    }
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(state))
+    } catch (error) {
+      console.error('Failed to save address index state:', error)
+    }
+  }
+}
+
+/**
+ * Watch-only BIP32 wallet that derives BIP84 (P2WPKH) or BIP86 (P2TR) deposit addresses from an
+ * account-level xpub. No private key material is ever held; funds are recoverable from the seed behind the xpub.
+ */
+export class HDWallet {
+  private account: HDKey
+  private network: bitcoin.Network
+  readonly addressType: WalletAddressType
+  readonly accountPath: string
+  readonly masterFingerprint?: string
+  readonly gapLimit: number
+  private store: AddressIndexStore
+  private state: AddressIndexState
+  private addressIndex: Map<string, { chain: DerivationChain; index: number }> = new Map()
+
+  constructor(config: HDWalletConfig, store?: AddressIndexStore) {
+    const format = EXTENDED_KEY_FORMATS[config.xpub.slice(0, 4)]
+    if (!format) {
+      throw new Error('Unsupported extended public key format, expected xpub, zpub, tpub or vpub')
+    }
+
+    this.addressType = config.addressType || 'p2wpkh'
+    if (!format.addressTypes.includes(this.addressType)) {
+      throw new Error(`A ${config.xpub.slice(0, 4)} key cannot derive ${this.addressType} addresses`)
+    }
+
+    if (format.network !== (config.network === 'mainnet' ? 'mainnet' : 'testnet')) {
+      throw new Error(`Extended public key is for ${format.network} but the wallet is configured for ${config.network}`)
+    }
+
+    this.account = HDKey.fromExtendedKey(config.xpub, format.versions)
+    if (this.account.privateKey) {
+      throw new Error('Refusing to use an extended private key, provide the watch-only xpub instead')
+    }
+
+    this.network = toBitcoinNetwork(config.network)
+    this.accountPath = config.accountPath ||
+      `m/${ACCOUNT_PURPOSE[this.addressType]}'/${config.network === 'mainnet' ? 0 : 1}'/0'`
+    this.masterFingerprint = config.masterFingerprint
+    this.gapLimit = config.gapLimit || DEFAULT_GAP_LIMIT
+    this.store = store || new LocalStorageAddressIndexStore(
+      `bitcoin_address_index_${this.account.fingerprint.toString(16)}`
+    )
+    this.state = this.store.load() || {
+      nextIndex: 0,
+      nextChangeIndex: 0,
+      highestUsedIndex: -1,
+      usedIndexes: [],
+      assignments: {}
+    }
+    // Change issued until now went out in transactions, so count it as used
+    if (this.state.highestUsedChangeIndex === undefined) {
+      this.state.highestUsedChangeIndex = this.state.nextChangeIndex - 1
+    }
+  }
+
+  /**
+   * Derive the wallet's address at the given chain and index
+   */
+  deriveAddress(index: number, chain: DerivationChain = 0): BitcoinAddress {
+    const child = this.account.deriveChild(chain).deriveChild(index)
+    if (!child.publicKey) {
+      throw new Error(`Failed to derive public key at ${chain}/${index}`)
+    }
+
+    // BIP86 commits to the x-only internal key with no script tree
+    const { address } = this.addressType === 'p2tr'
+      ? bitcoin.payments.p2tr({ internalPubkey: child.publicKey.slice(1, 33), network: this.network })
+      : bitcoin.payments.p2wpkh({ pubkey: child.publicKey, network: this.network })
+
+    if (!address) {
+      throw new Error('Failed to generate Bitcoin address')
+    }
+
+    this.addressIndex.set(address, { chain, index })
+
+    return {
+      address,
+      publicKey: bytesToHex(child.publicKey),
+      path: `${this.accountPath}/${chain}/${index}`
+    }
+  }
+
+  /**
+   * Get the deposit address assigned to a user. The same address is returned until it
+   * receives funds, after which the user is moved to a fresh index.
+   */
+  getDepositAddress(userId: string): BitcoinAddress {
+    const assigned = this.state.assignments[userId]
+    const assignedIsUnused = assigned !== undefined && !this.state.usedIndexes.includes(assigned)
+
+    if (assignedIsUnused) {
+      return this.deriveAddress(assigned)
+    }
+
+    // Reuse the previous address rather than fail once the gap limit is reached
+    if (assigned !== undefined && this.isGapLimitReached()) {
+      return this.deriveAddress(assigned)
+    }
+
+    const index = this.allocateIndex()
+    this.state.assignments[userId] = index
+    this.persist()
+
+    return this.deriveAddress(index)
+  }
+
+  /**
+   * Derive a fresh receive address that is not assigned to any user
+   */
+  getNextAddress(): BitcoinAddress {
+    const index = this.allocateIndex()
+    this.persist()
+    return this.deriveAddress(index)
+  }
+
+  /**
+   * The internal-chain address for the change of a transaction being built, `offset` past the
+   * next unreserved one. Nothing is reserved until reserveChangeAddress.
+   */
+  getChangeAddress(offset = 0): BitcoinAddress {
+    const index = this.state.nextChangeIndex + offset
+    if (this.isChangeGapLimitReached(index)) {
+      throw new Error(`Gap limit of ${this.gapLimit} unused change addresses reached`)
+    }
+
+    return this.deriveAddress(index, 1)
+  }
+
+  /**
+   * Reserve a change address once a finalized transaction pays to it, so the next transaction
+   * gets a fresh one. Returns false for addresses that are not unreserved change.
+   */
+  reserveChangeAddress(address: string): boolean {
+    const cached = this.addressIndex.get(address)
+    if (!cached || cached.chain !== 1 || cached.index < this.state.nextChangeIndex) {
+      return false
+    }
+
+    if (this.isChangeGapLimitReached(cached.index)) {
+      throw new Error(`Gap limit of ${this.gapLimit} unused change addresses reached`)
+    }
+
+    this.state.nextChangeIndex = cached.index + 1
+    this.persist()
+    return true
+  }
+
+  /**
+   * Record that an address has received funds so the gap window can advance
+   */
+  markAddressUsed(address: string): boolean {
+    const location = this.findAddress(address)
+    if (!location) {
+      return false
+    }
+
+    if (location.chain === 1) {
+      this.state.highestUsedChangeIndex = Math.max(this.state.highestUsedChangeIndex ?? -1, location.index)
+      this.persist()
+    } else if (!this.state.usedIndexes.includes(location.index)) {
+      this.state.usedIndexes.push(location.index)
+      this.state.highestUsedIndex = Math.max(this.state.highestUsedIndex, location.index)
+      this.persist()
+    }
+
+    return true
+  }
+
+  /**
+   * Record an index found in use while scanning the chain, so new addresses are issued past it
+   */
+  restoreIndex(index: number, chain: DerivationChain = 0): void {
+    if (chain === 1) {
+      this.state.nextChangeIndex = Math.max(this.state.nextChangeIndex, index + 1)
+      this.state.highestUsedChangeIndex = Math.max(this.state.highestUsedChangeIndex ?? -1, index)
+    } else {
+      this.state.nextIndex = Math.max(this.state.nextIndex, index + 1)
+      if (!this.state.usedIndexes.includes(index)) {
+        this.state.usedIndexes.push(index)
+      }
+      this.state.highestUsedIndex = Math.max(this.state.highestUsedIndex, index)
+    }
+    this.persist()
+  }
+
+  /**
+   * The account key in plain xpub/tpub encoding, as descriptors expect it
+   */
+  get accountXpub(): string {
+    const versions = EXTENDED_KEY_FORMATS[this.network === bitcoin.networks.bitcoin ? 'xpub' : 'tpub'].versions
+    const { depth, index, parentFingerprint, chainCode, publicKey } = this.account
+
+    return new HDKey({ versions, depth, index, parentFingerprint, chainCode: chainCode!, publicKey: publicKey! }).publicExtendedKey
+  }
+
+  /**
+   * PSBT fields a signer needs to spend from one of our addresses: the Taproot internal key, plus
+   * the key origin when the master fingerprint is known
+   */
+  inputFields(address: string): PsbtInputUpdate {
+    const location = this.findAddress(address)
+    if (!location) {
+      return {}
+    }
+
+    const { publicKey, path } = this.deriveAddress(location.index, location.chain)
+    const pubkey = hexToBytes(publicKey)
+    const origin = this.masterFingerprint ? { masterFingerprint: hexToBytes(this.masterFingerprint), path } : null
+
+    if (this.addressType === 'p2tr') {
+      const internalKey = pubkey.slice(1, 33)
+      return origin
+        ? { tapInternalKey: internalKey, tapBip32Derivation: [{ ...origin, pubkey: internalKey, leafHashes: [] }] }
+        : { tapInternalKey: internalKey }
+    }
+
+    return origin ? { bip32Derivation: [{ ...origin, pubkey }] } : {}
+  }
+
+  /**
+   * Locate an address among those issued so far
+   */
+  findAddress(address: string): { chain: DerivationChain; index: number } | null {
+    const cached = this.addressIndex.get(address)
+    if (cached) {
+      return cached
+    }
+
+    for (let index = 0; index < this.state.nextIndex; index++) {
+      if (this.deriveAddress(index).address === address) {
+        return { chain: 0, index }
+      }
+    }
+
+    for (let index = 0; index < this.state.nextChangeIndex; index++) {
+      if (this.deriveAddress(index, 1).address === address) {
+        return { chain: 1, index }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Addresses issued on the external (or, for chain 1, change) chain, in index order
+   */
+  getIssuedAddresses(chain: DerivationChain = 0): BitcoinAddress[] {
+    const count = chain === 1 ? this.state.nextChangeIndex : this.state.nextIndex
+    return Array.from({ length: count }, (_, index) => this.deriveAddress(index, chain))
+  }
+
+  private isGapLimitReached(): boolean {
+    return this.state.nextIndex - (this.state.highestUsedIndex + 1) >= this.gapLimit
+  }
+
+  // The same window on the internal chain, counted from the last change that went out
+  private isChangeGapLimitReached(index: number): boolean {
+    return index - ((this.state.highestUsedChangeIndex ?? -1) + 1) >= this.gapLimit
+  }
+
+  private allocateIndex(): number {
+    // Wallets recovering from the seed stop scanning after gapLimit unused addresses,
+    // so never issue an address beyond that window
+    if (this.isGapLimitReached()) {
+      throw new Error(`Gap limit of ${this.gapLimit} unused addresses reached`)
+    }
+
+    return this.state.nextIndex++
+  }
+
+  private persist(): void {
+    this.store.save(this.state)
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  BitcoinTransaction,
+  BitcoinTransactionDirection,
+  ClassifiedTransaction,
+  TransactionHistoryPage
+} from '@/types/atomiq'
+import { ChainBackend } from './chainBackend'
+
+// address -> last txid read from it, or null before its first page; exhausted addresses are left out
+type HistoryCursor = Record<string, string | null>
+
+/**
+ * What a transaction did to the wallet, from which of its inputs and outputs are ours. Inputs are
+ * recognised by their prevout, so a backend that leaves prevouts out makes every spend look like a deposit.
+ */
+export function classifyTransaction(tx: BitcoinTransaction, ownAddresses: Set<string>): ClassifiedTransaction {
+  const isOwn = (address?: string) => !!address && ownAddresses.has(address)
+  const ownInputs = tx.vin.filter(input => isOwn(input.prevout?.scriptpubkey_address))
+  const received = tx.vout
+    .filter(output => isOwn(output.scriptpubkey_address))
+    .reduce((sum, output) => sum + output.value, 0)
+  const paidOut = tx.vout
+    .filter(output => !isOwn(output.scriptpubkey_address))
+    .reduce((sum, output) => sum + output.value, 0)
+
+  let direction: BitcoinTransactionDirection
+  if (ownInputs.length === 0) {
+    direction = 'deposit'
+  } else if (paidOut > 0) {
+    direction = 'withdrawal'
+  } else if (tx.vin.length > 1 && tx.vout.length === 1) {
+    direction = 'consolidation'
+  } else {
+    direction = 'self-transfer'
+  }
+
+  return {
+    transaction: tx,
+    direction,
+    amount: (direction === 'withdrawal' ? paidOut : received) / 100000000,
+    fee: ownInputs.length > 0 ? tx.fee : 0,
+    timestamp: tx.status.block_time ? new Date(tx.status.block_time * 1000) : new Date()
+  }
+}
+
+/**
+ * One page of history across several addresses: the next backend page of every address that still
+ * has more, merged newest first, with a transaction touching two of them listed once
+ */
+export async function readHistoryPage(
+  backend: ChainBackend,
+  addresses: string[],
+  ownAddresses: Set<string>,
+  cursor?: string | null
+): Promise<TransactionHistoryPage> {
+  const positions: HistoryCursor = cursor
+    ? decodeHistoryCursor(cursor)
+    : Object.fromEntries(addresses.map(address => [address, null]))
+
+  const next: HistoryCursor = {}
+  const transactions: Map<string, BitcoinTransaction> = new Map()
+  for (const [address, lastSeenTxid] of Object.entries(positions)) {
+    const page = await backend.getAddressTransactionsPage(address, lastSeenTxid || undefined)
+    page.transactions.forEach(transaction => transactions.set(transaction.txid, transaction))
+    if (page.lastSeenTxid) {
+      next[address] = page.lastSeenTxid
+    }
+  }
+
+  // Unconfirmed transactions are the newest of all
+  const height = (transaction: BitcoinTransaction) =>
+    transaction.status.confirmed ? transaction.status.block_height ?? 0 : Infinity
+
+  return {
+    transactions: Array.from(transactions.values())
+      .sort((a, b) => height(b) - height(a))
+      .map(transaction => classifyTransaction(transaction, ownAddresses)),
+    cursor: Object.keys(next).length > 0 ? encodeHistoryCursor(next) : null
+  }
+}
+
+function encodeHistoryCursor(cursor: HistoryCursor): string {
+  return btoa(JSON.stringify(cursor))
+}
+
+function decodeHistoryCursor(cursor: string): HistoryCursor {
+  try {
+    return JSON.parse(atob(cursor))
+  } catch (error) {
+    throw new Error('Invalid transaction history cursor')
+  }
+}
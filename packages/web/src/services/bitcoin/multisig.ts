@@ -0,0 +1,655 @@
+import { HDKey } from '@scure/bip32'
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1.js'
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils.js'
+import * as bitcoin from 'bitcoinjs-lib'
+import { MultisigProgress, MultisigSession, PsbtSigner } from '@/types/atomiq'
+import {
+  AddressIndexState,
+  AddressIndexStore,
+  BitcoinNetworkName,
+  DEFAULT_GAP_LIMIT,
+  DerivationChain,
+  LocalStorageAddressIndexStore,
+  toBitcoinNetwork
+} from './hdWallet'
+import { FinalizedPsbt, assertSameTransaction, finalizePsbt } from './psbtSigner'
+import { toXOnly } from './ecc'
+
+export type { MultisigProgress }
+
+// P2WSH wraps a sortedmulti CHECKMULTISIG script; P2TR puts a CHECKSIGADD leaf behind an unspendable internal key
+export type MultisigScriptType = 'p2wsh' | 'p2tr'
+
+export interface MultisigCosigner {
+  xpub: string
+  name?: string // shown in signing progress; defaults to the key fingerprint
+  masterFingerprint?: string // hex, lets hardware signers recognise their key in the PSBT
+  derivationPath?: string // account path behind the xpub; BIP48 (P2WSH) or BIP87 (P2TR) account 0 by default
+}
+
+export interface MultisigConfig {
+  cosigners: (string | MultisigCosigner)[]
+  threshold: number
+  network: BitcoinNetworkName
+  scriptType?: MultisigScriptType
+  gapLimit?: number
+}
+
+export interface MultisigAddress {
+  address: string
+  chain: DerivationChain
+  index: number
+  publicKeys: string[] // one per cosigner, in cosigner order
+  script: string // witness script (P2WSH) or tapleaf script (P2TR), hex
+}
+
+export interface MultisigRound {
+  cosigners: string[] // who contributed signatures in this round
+  signatures: number
+  receivedAt: Date
+}
+
+type PsbtInput = bitcoin.Psbt['data']['inputs'][number]
+type PsbtInputUpdate = Parameters<bitcoin.Psbt['updateInput']>[1]
+
+export interface CosignerKeyOrigin {
+  xpub: string // plain xpub/tpub encoding
+  masterFingerprint?: string // hex, when the key's origin was configured
+  derivationPath?: string
+}
+
+interface CosignerKey {
+  id: string
+  account: HDKey
+  fingerprint: Uint8Array
+  derivationPath: string
+  hasOrigin: boolean
+}
+
+// SLIP-132 multisig formats (Zpub/Vpub) announce P2WSH; Taproot keys come as plain xpub/tpub
+const COSIGNER_KEY_FORMATS: Record<string, { network: 'mainnet' | 'testnet'; versions: { private: number; public: number }; scriptTypes: MultisigScriptType[] }> = {
+  xpub: { network: 'mainnet', versions: { private: 0x0488ade4, public: 0x0488b21e }, scriptTypes: ['p2wsh', 'p2tr'] },
+  Zpub: { network: 'mainnet', versions: { private: 0x02aa7a99, public: 0x02aa7ed3 }, scriptTypes: ['p2wsh'] },
+  tpub: { network: 'testnet', versions: { private: 0x04358394, public: 0x043587cf }, scriptTypes: ['p2wsh', 'p2tr'] },
+  Vpub: { network: 'testnet', versions: { private: 0x02575048, public: 0x02575483 }, scriptTypes: ['p2wsh'] }
+}
+
+// BIP341's nothing-up-my-sleeve point: nobody knows its private key, so only the script path can spend
+export const UNSPENDABLE_INTERNAL_KEY = hexToBytes('50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0')
+
+const TAPSCRIPT_LEAF_VERSION = 0xc0
+
+// OP_1..OP_16 encode the threshold and key count
+export const MAX_COSIGNERS = 16
+
+/**
+ * Watch-only m-of-n multisig wallet built from the cosigners' account xpubs. Every address
+ * commits to one child key per cosigner at the same chain and index, sorted as in BIP67.
+ */
+export class MultisigWallet {
+  readonly threshold: number
+  readonly scriptType: MultisigScriptType
+  readonly network: bitcoin.Network
+  readonly gapLimit: number
+  private cosigners: CosignerKey[]
+  private store: AddressIndexStore
+  private state: AddressIndexState
+  private addresses: Map<string, MultisigAddress> = new Map()
+
+  constructor(config: MultisigConfig, store?: AddressIndexStore) {
+    this.scriptType = config.scriptType || 'p2wsh'
+    this.threshold = config.threshold
+    this.network = toBitcoinNetwork(config.network)
+    this.gapLimit = config.gapLimit || DEFAULT_GAP_LIMIT
+
+    const cosigners = config.cosigners.map(cosigner => typeof cosigner === 'string' ? { xpub: cosigner } : cosigner)
+    if (cosigners.length === 0 || cosigners.length > MAX_COSIGNERS) {
+      throw new Error(`A multisig wallet needs between 1 and ${MAX_COSIGNERS} cosigners`)
+    }
+    if (!Number.isInteger(this.threshold) || this.threshold < 1 || this.threshold > cosigners.length) {
+      throw new Error(`Threshold must be between 1 and ${cosigners.length}`)
+    }
+    if (new Set(cosigners.map(cosigner => cosigner.xpub)).size !== cosigners.length) {
+      throw new Error('Each cosigner must provide a different xpub')
+    }
+
+    this.cosigners = cosigners.map(cosigner => this.loadCosigner(cosigner, config.network))
+    this.store = store || new LocalStorageAddressIndexStore(`bitcoin_multisig_index_${this.walletId()}`)
+    this.state = this.store.load() || {
+      nextIndex: 0,
+      nextChangeIndex: 0,
+      highestUsedIndex: -1,
+      usedIndexes: [],
+      assignments: {}
+    }
+    // Change issued until now went out in transactions, so count it as used
+    if (this.state.highestUsedChangeIndex === undefined) {
+      this.state.highestUsedChangeIndex = this.state.nextChangeIndex - 1
+    }
+  }
+
+  /**
+   * Names of the cosigners, in configuration order
+   */
+  get cosignerIds(): string[] {
+    return this.cosigners.map(cosigner => cosigner.id)
+  }
+
+  /**
+   * Each cosigner's account key and, when known, where it sits below its master key
+   */
+  get cosignerKeys(): CosignerKeyOrigin[] {
+    const versions = COSIGNER_KEY_FORMATS[this.network === bitcoin.networks.bitcoin ? 'xpub' : 'tpub'].versions
+
+    return this.cosigners.map(({ account, fingerprint, derivationPath, hasOrigin }) => {
+      const { depth, index, parentFingerprint, chainCode, publicKey } = account
+      const xpub = new HDKey({ versions, depth, index, parentFingerprint, chainCode: chainCode!, publicKey: publicKey! }).publicExtendedKey
+
+      return hasOrigin ? { xpub, masterFingerprint: bytesToHex(fingerprint), derivationPath } : { xpub }
+    })
+  }
+
+  /**
+   * Derive the multisig address at the given chain and index
+   */
+  deriveAddress(index: number, chain: DerivationChain = 0): MultisigAddress {
+    const publicKeys = this.cosigners.map(cosigner => {
+      const child = cosigner.account.deriveChild(chain).deriveChild(index)
+      if (!child.publicKey) {
+        throw new Error(`Failed to derive ${cosigner.id}'s key at ${chain}/${index}`)
+      }
+      return child.publicKey
+    })
+
+    const script = this.scriptType === 'p2tr'
+      ? tapscriptMultisig(this.threshold, publicKeys)
+      : bitcoin.payments.p2ms({ m: this.threshold, pubkeys: sortKeys(publicKeys), network: this.network }).output!
+
+    const { address } = this.scriptType === 'p2tr'
+      ? bitcoin.payments.p2tr({ internalPubkey: UNSPENDABLE_INTERNAL_KEY, scriptTree: { output: script }, network: this.network })
+      : bitcoin.payments.p2wsh({ redeem: { output: script }, network: this.network })
+
+    if (!address) {
+      throw new Error('Failed to generate multisig address')
+    }
+
+    const derived: MultisigAddress = {
+      address,
+      chain,
+      index,
+      publicKeys: publicKeys.map(bytesToHex),
+      script: bytesToHex(script)
+    }
+    this.addresses.set(address, derived)
+
+    return derived
+  }
+
+  /**
+   * Get the deposit address assigned to a user. The same address is returned until it
+   * receives funds, after which the user is moved to a fresh index.
+   */
+  getDepositAddress(userId: string): MultisigAddress {
+    const assigned = this.state.assignments[userId]
+    if (assigned !== undefined && (!this.state.usedIndexes.includes(assigned) || this.isGapLimitReached())) {
+      return this.deriveAddress(assigned)
+    }
+
+    const index = this.allocateIndex()
+    this.state.assignments[userId] = index
+    this.store.save(this.state)
+    return this.deriveAddress(index)
+  }
+
+  /**
+   * Derive a fresh receive address that is not assigned to any user
+   */
+  getNextAddress(): MultisigAddress {
+    const index = this.allocateIndex()
+    this.store.save(this.state)
+    return this.deriveAddress(index)
+  }
+
+  /**
+   * The internal-chain address for the change of a transaction being built, `offset` past the
+   * next unreserved one. Nothing is reserved until reserveChangeAddress.
+   */
+  getChangeAddress(offset = 0): MultisigAddress {
+    const index = this.state.nextChangeIndex + offset
+    if (this.isChangeGapLimitReached(index)) {
+      throw new Error(`Gap limit of ${this.gapLimit} unused change addresses reached`)
+    }
+
+    return this.deriveAddress(index, 1)
+  }
+
+  /**
+   * Reserve a change address once a finalized transaction pays to it, so the next transaction
+   * gets a fresh one. Returns false for addresses that are not unreserved change.
+   */
+  reserveChangeAddress(address: string): boolean {
+    const derived = this.addresses.get(address)
+    if (!derived || derived.chain !== 1 || derived.index < this.state.nextChangeIndex) {
+      return false
+    }
+
+    if (this.isChangeGapLimitReached(derived.index)) {
+      throw new Error(`Gap limit of ${this.gapLimit} unused change addresses reached`)
+    }
+
+    this.state.nextChangeIndex = derived.index + 1
+    this.store.save(this.state)
+    return true
+  }
+
+  /**
+   * Record that an address has received funds so the gap window can advance
+   */
+  markAddressUsed(address: string): boolean {
+    const derived = this.findAddress(address)
+    if (!derived) {
+      return false
+    }
+
+    if (derived.chain === 1) {
+      this.state.highestUsedChangeIndex = Math.max(this.state.highestUsedChangeIndex ?? -1, derived.index)
+      this.store.save(this.state)
+    } else if (!this.state.usedIndexes.includes(derived.index)) {
+      this.state.usedIndexes.push(derived.index)
+      this.state.highestUsedIndex = Math.max(this.state.highestUsedIndex, derived.index)
+      this.store.save(this.state)
+    }
+
+    return true
+  }
+
+  /**
+   * Record an index found in use while scanning the chain, so new addresses are issued past it
+   */
+  restoreIndex(index: number, chain: DerivationChain = 0): void {
+    if (chain === 1) {
+      this.state.nextChangeIndex = Math.max(this.state.nextChangeIndex, index + 1)
+      this.state.highestUsedChangeIndex = Math.max(this.state.highestUsedChangeIndex ?? -1, index)
+    } else {
+      this.state.nextIndex = Math.max(this.state.nextIndex, index + 1)
+      if (!this.state.usedIndexes.includes(index)) {
+        this.state.usedIndexes.push(index)
+      }
+      this.state.highestUsedIndex = Math.max(this.state.highestUsedIndex, index)
+    }
+    this.store.save(this.state)
+  }
+
+  /**
+   * Addresses issued on the external (or, for chain 1, change) chain, in index order
+   */
+  getIssuedAddresses(chain: DerivationChain = 0): MultisigAddress[] {
+    const count = chain === 1 ? this.state.nextChangeIndex : this.state.nextIndex
+    return Array.from({ length: count }, (_, index) => this.deriveAddress(index, chain))
+  }
+
+  /**
+   * Locate an address among those issued so far
+   */
+  findAddress(address: string): MultisigAddress | null {
+    const cached = this.addresses.get(address)
+    if (cached) {
+      return cached
+    }
+
+    for (let index = 0; index < this.state.nextIndex; index++) {
+      if (this.deriveAddress(index).address === address) {
+        return this.addresses.get(address)!
+      }
+    }
+
+    for (let index = 0; index < this.state.nextChangeIndex; index++) {
+      if (this.deriveAddress(index, 1).address === address) {
+        return this.addresses.get(address)!
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * PSBT input fields cosigners need to sign a spend from one of our addresses: the script
+   * and where each key was derived from
+   */
+  inputFields(address: string): PsbtInputUpdate {
+    const derived = this.findAddress(address)
+    if (!derived) {
+      throw new Error(`${address} is not an address of this multisig wallet`)
+    }
+
+    const script = hexToBytes(derived.script)
+    const keys = derived.publicKeys.map(hexToBytes)
+
+    if (this.scriptType === 'p2wsh') {
+      return {
+        witnessScript: script,
+        bip32Derivation: this.cosigners.map((cosigner, i) => ({
+          masterFingerprint: cosigner.fingerprint,
+          pubkey: keys[i],
+          path: `${cosigner.derivationPath}/${derived.chain}/${derived.index}`
+        }))
+      }
+    }
+
+    const leafHash = bitcoin.crypto.taggedHash('TapLeaf', concatBytes(
+      new Uint8Array([TAPSCRIPT_LEAF_VERSION]),
+      varInt(script.length),
+      script
+    ))
+    const { witness } = bitcoin.payments.p2tr({
+      internalPubkey: UNSPENDABLE_INTERNAL_KEY,
+      scriptTree: { output: script },
+      redeem: { output: script, redeemVersion: TAPSCRIPT_LEAF_VERSION },
+      network: this.network
+    })
+
+    return {
+      tapInternalKey: UNSPENDABLE_INTERNAL_KEY,
+      tapLeafScript: [{ leafVersion: TAPSCRIPT_LEAF_VERSION, script, controlBlock: witness![witness!.length - 1] }],
+      tapBip32Derivation: this.cosigners.map((cosigner, i) => ({
+        masterFingerprint: cosigner.fingerprint,
+        pubkey: toXOnly(keys[i]),
+        path: `${cosigner.derivationPath}/${derived.chain}/${derived.index}`,
+        leafHashes: [leafHash]
+      }))
+    }
+  }
+
+  /**
+   * Weight units one input from this wallet adds once it carries `threshold` signatures
+   */
+  inputWeight(): number {
+    const keyCount = this.cosigners.length
+    const outpointAndSequence = 41 * 4
+
+    if (this.scriptType === 'p2tr') {
+      // One 65-byte Schnorr slot per signer and an empty push per absent key, then leaf and control block
+      const script = 34 * keyCount + 2
+      return outpointAndSequence + 1 + this.threshold * 65 + (keyCount - this.threshold) +
+        varIntSize(script) + script + 1 + 33
+    }
+
+    // CHECKMULTISIG's extra empty item, 73-byte DER signatures, then the witness script
+    const script = 34 * keyCount + 3
+    return outpointAndSequence + 1 + 1 + this.threshold * 73 + varIntSize(script) + script
+  }
+
+  private loadCosigner(cosigner: MultisigCosigner, network: BitcoinNetworkName): CosignerKey {
+    const format = COSIGNER_KEY_FORMATS[cosigner.xpub.slice(0, 4)]
+    if (!format) {
+      throw new Error('Unsupported cosigner key format, expected xpub, Zpub, tpub or Vpub')
+    }
+    if (!format.scriptTypes.includes(this.scriptType)) {
+      throw new Error(`A ${cosigner.xpub.slice(0, 4)} key cannot be used for ${this.scriptType} multisig`)
+    }
+    if (format.network !== (network === 'mainnet' ? 'mainnet' : 'testnet')) {
+      throw new Error(`Cosigner key is for ${format.network} but the wallet is configured for ${network}`)
+    }
+
+    const account = HDKey.fromExtendedKey(cosigner.xpub, format.versions)
+    if (account.privateKey) {
+      throw new Error('Refusing to use an extended private key, provide the cosigner\'s watch-only xpub instead')
+    }
+
+    // Without the master fingerprint the account key stands in as its own root
+    const fingerprint = cosigner.masterFingerprint
+      ? hexToBytes(cosigner.masterFingerprint)
+      : fingerprintBytes(account.fingerprint)
+
+    const coinType = network === 'mainnet' ? 0 : 1
+    const defaultPath = this.scriptType === 'p2tr' ? `m/87'/${coinType}'/0'` : `m/48'/${coinType}'/0'/2'`
+
+    return {
+      id: cosigner.name || bytesToHex(fingerprint),
+      account,
+      fingerprint,
+      derivationPath: cosigner.masterFingerprint ? cosigner.derivationPath || defaultPath : 'm',
+      hasOrigin: !!cosigner.masterFingerprint
+    }
+  }
+
+  private isGapLimitReached(): boolean {
+    return this.state.nextIndex - (this.state.highestUsedIndex + 1) >= this.gapLimit
+  }
+
+  private isChangeGapLimitReached(index: number): boolean {
+    return index - ((this.state.highestUsedChangeIndex ?? -1) + 1) >= this.gapLimit
+  }
+
+  // Recovery from the cosigners' seeds stops scanning after gapLimit unused addresses, as with HDWallet
+  private allocateIndex(): number {
+    if (this.isGapLimitReached()) {
+      throw new Error(`Gap limit of ${this.gapLimit} unused addresses reached`)
+    }
+
+    return this.state.nextIndex++
+  }
+
+  private walletId(): string {
+    const keys = this.cosigners.map(cosigner => cosigner.account.publicExtendedKey).sort().join(',')
+    return bytesToHex(bitcoin.crypto.sha256(new TextEncoder().encode(`${this.scriptType}:${this.threshold}:${keys}`))).slice(0, 16)
+  }
+}
+
+/**
+ * Collects partial signatures from the cosigners, one round per returned PSBT, and finalizes
+ * the spend once every multisig input carries `threshold` valid signatures
+ */
+export class MultisigSigningSession implements MultisigSession {
+  readonly rounds: MultisigRound[] = []
+  private psbt: bitcoin.Psbt
+  private network: bitcoin.Network
+
+  constructor(private wallet: MultisigWallet, psbtBase64: string) {
+    this.network = wallet.network
+    this.psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: this.network })
+
+    if (this.multisigInputs().length === 0) {
+      throw new Error('Transaction spends no multisig inputs')
+    }
+  }
+
+  /**
+   * The PSBT with every signature collected so far, to hand to the next cosigner
+   */
+  toBase64(): string {
+    return this.psbt.toBase64()
+  }
+
+  /**
+   * Run one signing round through a cosigner's signer
+   */
+  async requestSignatures(signer: PsbtSigner): Promise<MultisigProgress> {
+    return this.addSignedPsbt(await signer.signPsbt(this.toBase64()))
+  }
+
+  /**
+   * Merge a PSBT a cosigner returned. It must be the same transaction, and every signature in
+   * it must come from a cosigner key and verify, or the whole round is rejected.
+   */
+  addSignedPsbt(signedBase64: string): MultisigProgress {
+    assertSameTransaction(this.toBase64(), signedBase64, this.network)
+
+    const before = this.signerKeys()
+    const merged = bitcoin.Psbt.fromBase64(this.toBase64(), { network: this.network })
+    merged.combine(bitcoin.Psbt.fromBase64(signedBase64, { network: this.network }))
+
+    const after = this.signerKeys(merged)
+    const contributors = new Set<string>()
+    let added = 0
+
+    this.multisigInputs(merged).forEach(({ index, address }) => {
+      for (const pubkey of after[index]) {
+        if (before[index].includes(pubkey)) {
+          continue
+        }
+
+        const cosigner = address.publicKeys.findIndex(key => key === pubkey || key.slice(2) === pubkey)
+        if (cosigner === -1) {
+          throw new Error(`Input ${index} carries a signature from a key that is not a cosigner`)
+        }
+        if (!merged.validateSignaturesOfInput(index, verifySignature, hexToBytes(pubkey))) {
+          throw new Error(`Invalid signature from ${this.wallet.cosignerIds[cosigner]} on input ${index}`)
+        }
+
+        contributors.add(this.wallet.cosignerIds[cosigner])
+        added++
+      }
+    })
+
+    if (added === 0) {
+      throw new Error('Signed PSBT adds no new signatures')
+    }
+
+    this.psbt = merged
+    this.rounds.push({ cosigners: Array.from(contributors), signatures: added, receivedAt: new Date() })
+
+    return this.getProgress()
+  }
+
+  getProgress(): MultisigProgress {
+    const keys = this.signerKeys()
+    const inputs = this.multisigInputs()
+    const { threshold } = this.wallet
+
+    const signedBy = this.wallet.cosignerIds.filter((_, cosigner) => inputs.every(({ index, address }) => {
+      const key = address.publicKeys[cosigner]
+      return keys[index].some(pubkey => pubkey === key || pubkey === key.slice(2))
+    }))
+    const remaining = Math.max(0, ...inputs.map(({ index }) => threshold - keys[index].length))
+
+    return {
+      threshold,
+      cosigners: this.wallet.cosignerIds.length,
+      signedBy,
+      remaining,
+      complete: remaining === 0
+    }
+  }
+
+  /**
+   * Finalize the multisig inputs with exactly `threshold` signatures each and extract the transaction.
+   * Inputs that are not multisig must already be signed.
+   */
+  finalize(): FinalizedPsbt {
+    const progress = this.getProgress()
+    if (!progress.complete) {
+      throw new Error(`${progress.remaining} more cosigner signature(s) needed`)
+    }
+
+    const psbt = bitcoin.Psbt.fromBase64(this.toBase64(), { network: this.network })
+    const { threshold } = this.wallet
+
+    this.multisigInputs(psbt).forEach(({ index }) => {
+      if (this.wallet.scriptType === 'p2tr') {
+        psbt.finalizeTaprootInput(index, undefined, (_, input) => ({
+          finalScriptWitness: serializeWitness(tapscriptWitness(input, threshold))
+        }))
+        return
+      }
+
+      psbt.finalizeInput(index, (_: number, input: PsbtInput, script: Uint8Array) => {
+        const { pubkeys } = bitcoin.payments.p2ms({ output: script })
+        // CHECKMULTISIG wants signatures in key order and fails on extras
+        const signatures = pubkeys!
+          .map(pubkey => input.partialSig!.find(sig => bytesToHex(sig.pubkey) === bytesToHex(pubkey))?.signature)
+          .filter((signature): signature is Uint8Array => !!signature)
+          .slice(0, threshold)
+        const { witness } = bitcoin.payments.p2wsh({
+          redeem: bitcoin.payments.p2ms({ output: script, signatures })
+        })
+
+        return { finalScriptSig: undefined, finalScriptWitness: serializeWitness(witness!) }
+      })
+    })
+
+    return finalizePsbt(psbt.toBase64(), this.network)
+  }
+
+  private multisigInputs(psbt: bitcoin.Psbt = this.psbt): { index: number; address: MultisigAddress }[] {
+    return psbt.data.inputs.flatMap((input, index) => {
+      if (!input.witnessUtxo) {
+        return []
+      }
+
+      try {
+        const address = this.wallet.findAddress(bitcoin.address.fromOutputScript(input.witnessUtxo.script, this.network))
+        return address ? [{ index, address }] : []
+      } catch (error) {
+        return []
+      }
+    })
+  }
+
+  // Hex public keys that have signed each input: compressed for ECDSA, x-only for Schnorr
+  private signerKeys(psbt: bitcoin.Psbt = this.psbt): string[][] {
+    return psbt.data.inputs.map(input => [
+      ...(input.partialSig || []).map(sig => bytesToHex(sig.pubkey)),
+      ...(input.tapScriptSig || []).map(sig => bytesToHex(sig.pubkey))
+    ])
+  }
+}
+
+/**
+ * `<k1> CHECKSIG <k2> CHECKSIGADD ... <kn> CHECKSIGADD <m> NUMEQUAL` over the x-only keys in sorted order
+ */
+export function tapscriptMultisig(threshold: number, publicKeys: Uint8Array[]): Uint8Array {
+  const keys = sortKeys(publicKeys.map(toXOnly))
+  const chunks = keys.flatMap((key, i) => [key, i === 0 ? bitcoin.opcodes.OP_CHECKSIG : bitcoin.opcodes.OP_CHECKSIGADD])
+
+  return bitcoin.script.compile([...chunks, bitcoin.opcodes.OP_1 + threshold - 1, bitcoin.opcodes.OP_NUMEQUAL])
+}
+
+function tapscriptWitness(input: PsbtInput, threshold: number): Uint8Array[] {
+  const [leaf] = input.tapLeafScript!
+  const keys = (bitcoin.script.decompile(leaf.script) || [])
+    .filter((chunk): chunk is Uint8Array => chunk instanceof Uint8Array && chunk.length === 32)
+
+  // Every key gets a stack item, its signature or an empty push; NUMEQUAL needs exactly `threshold`
+  let used = 0
+  const slots = keys.map(key => {
+    const sig = (input.tapScriptSig || []).find(candidate => bytesToHex(candidate.pubkey) === bytesToHex(key))
+    if (!sig || used === threshold) {
+      return new Uint8Array(0)
+    }
+    used++
+    return sig.signature
+  })
+
+  // The first key's CHECKSIG pops first, so its signature sits on top of the stack
+  return [...slots.reverse(), leaf.script, leaf.controlBlock]
+}
+
+function verifySignature(pubkey: Uint8Array, msghash: Uint8Array, signature: Uint8Array): boolean {
+  return pubkey.length === 32
+    ? schnorr.verify(signature, msghash, pubkey)
+    : secp256k1.verify(signature, msghash, pubkey, { prehash: false })
+}
+
+function sortKeys(keys: Uint8Array[]): Uint8Array[] {
+  return [...keys].sort((a, b) => bytesToHex(a).localeCompare(bytesToHex(b)))
+}
+
+function fingerprintBytes(fingerprint: number): Uint8Array {
+  return new Uint8Array([fingerprint >>> 24, (fingerprint >>> 16) & 0xff, (fingerprint >>> 8) & 0xff, fingerprint & 0xff])
+}
+
+function serializeWitness(stack: Uint8Array[]): Uint8Array {
+  return concatBytes(varInt(stack.length), ...stack.flatMap(item => [varInt(item.length), item]))
+}
+
+function varInt(value: number): Uint8Array {
+  if (value < 0xfd) {
+    return new Uint8Array([value])
+  }
+  return new Uint8Array([0xfd, value & 0xff, value >>> 8])
+}
+
+function varIntSize(value: number): number {
+  return value < 0xfd ? 1 : 3
+}
@@ -0,0 +1,458 @@
+import {
+  BitcoinService,
+  BitcoinTransaction,
+  FeeBumpOptions,
+  FeeBumpResult,
+  FeeTier,
+  Payout,
+  PayoutBatchOptions,
+  PayoutRequest,
+  PayoutService
+} from '@/types/atomiq'
+import { validateBitcoinAddress } from '@/lib/validation'
+import { BitcoinNetworkName, toBitcoinNetwork } from './hdWallet'
+import { scriptTypeForAddress } from './feeEstimator'
+import { dustLimitFor } from './coinSelection'
+
+export type PayoutListener = (payout: Payout) => void
+
+export const DEFAULT_PAYOUT_WINDOW_MS = 10 * 60 * 1000
+export const DEFAULT_MAX_PAYOUT_OUTPUTS = 50
+
+// A batch transaction as it was signed, kept until its payouts confirm
+export interface SentBatch {
+  payoutIds: string[] // in output order
+  inputs: { txid: string; vout: number }[] // a fee bump replacement spends these too
+  hex?: string // to rebroadcast if it drops out of the mempool; not known for replacements
+}
+
+export interface PayoutState {
+  payouts: Payout[]
+  batches: Record<string, SentBatch> // by txid
+}
+
+export interface PayoutStore {
+  load(): PayoutState | null
+  save(state: PayoutState): void
+}
+
+/**
+ * Keeps payouts in memory only
+ */
+export class MemoryPayoutStore implements PayoutStore {
+  private state: PayoutState | null = null
+
+  load(): PayoutState | null {
+    return this.state
+  }
+
+  save(state: PayoutState): void {
+    this.state = state
+  }
+}
+
+/**
+ * Persists payouts and their signed batches in localStorage, falling back to memory outside the browser
+ */
+export class LocalStoragePayoutStore implements PayoutStore {
+  private fallback = new MemoryPayoutStore()
+
+  constructor(private storageKey: string) {}
+
+  load(): PayoutState | null {
+    if (typeof localStorage === 'undefined') {
+      return this.fallback.load()
+    }
+
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? JSON.parse(stored) : null
+    } catch (error) {
+      console.error('Failed to load payouts:', error)
+      return null
+    }
+  }
+
+  save(state: PayoutState): void {
+    if (typeof localStorage === 'undefined') {
+      this.fallback.save(state)
+      return
+    }
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(state))
+    } catch (error) {
+      console.error('Failed to save payouts:', error)
+    }
+  }
+}
+
+/**
+ * Gathers on-chain withdrawals and pays them together in one transaction, one output each, once
+ * the first has waited `windowMs` or `maxOutputs` are queued. Every payout in a batch records the
+ * shared txid and its own output, and follows the batch through fee bumps until it confirms.
+ *
+ * Payouts are kept in the store, so a reload neither loses queued withdrawals nor pays sent ones again.
+ * A batch is signed and recorded before it is broadcast, and its payouts only go back in the queue
+ * once the backend has answered that it does not know the txid: after a failed broadcast, or when the
+ * batch dropped out of the mempool and cannot be rebroadcast, or a conflicting spend of its inputs confirmed.
+ */
+export class PayoutBatcher implements PayoutService {
+  private bitcoin: BitcoinService
+  private network: BitcoinNetworkName
+  private windowMs: number
+  private maxOutputs: number
+  private feeTier: FeeTier
+  private maxAttempts: number
+
+  private payouts: Map<string, Payout> = new Map()
+  private batches: Map<string, SentBatch> = new Map()
+  private listeners: Set<PayoutListener> = new Set()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private flushing: Promise<string | null> | null = null
+  private sequence = 0
+
+  constructor(
+    bitcoin: BitcoinService,
+    network: BitcoinNetworkName = 'testnet',
+    options: PayoutBatchOptions = {},
+    private store: PayoutStore = new MemoryPayoutStore()
+  ) {
+    this.bitcoin = bitcoin
+    this.network = network
+    this.windowMs = options.windowMs ?? DEFAULT_PAYOUT_WINDOW_MS
+    this.maxOutputs = Math.max(1, options.maxOutputs ?? DEFAULT_MAX_PAYOUT_OUTPUTS)
+    this.feeTier = options.feeTier || 'normal'
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.restore()
+  }
+
+  /**
+   * Queue a withdrawal for the next batch. Destinations and amounts that could never be paid are
+   * refused here, so they cannot hold up anyone else's payout.
+   */
+  enqueue(request: PayoutRequest): Payout {
+    const validation = validateBitcoinAddress(request.destination, this.network)
+    if (!validation.valid) {
+      throw new Error(validation.message)
+    }
+
+    const type = scriptTypeForAddress(validation.address, toBitcoinNetwork(this.network))
+    if (Math.round(request.amount * 100000000) < dustLimitFor(type)) {
+      throw new Error(`Amount is below the ${dustLimitFor(type)} sat dust limit for ${type} outputs`)
+    }
+
+    const payout: Payout = {
+      ...request,
+      destination: validation.address,
+      id: `payout_${Date.now()}_${this.sequence++}`,
+      status: 'queued',
+      queuedAt: new Date(),
+      attempts: 0
+    }
+    this.payouts.set(payout.id, payout)
+    this.persist()
+    this.notify(payout)
+
+    if (this.queued().length >= this.maxOutputs) {
+      void this.flush()
+    } else {
+      this.schedule()
+    }
+
+    return { ...payout }
+  }
+
+  /**
+   * Send the queued payouts now, oldest first and at most `maxOutputs` of them
+   */
+  async flush(): Promise<string | null> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    // One batch at a time, so no payout can end up in two transactions
+    if (!this.flushing) {
+      this.flushing = this.sendBatch(this.queued().slice(0, this.maxOutputs)).finally(() => {
+        this.flushing = null
+        if (this.queued().length > 0) {
+          this.schedule()
+        }
+      })
+    }
+
+    return this.flushing
+  }
+
+  getPayout(id: string): Payout | undefined {
+    const payout = this.payouts.get(id)
+    return payout && { ...payout }
+  }
+
+  listPayouts(userId?: string): Payout[] {
+    return Array.from(this.payouts.values())
+      .filter(payout => !userId || payout.userId === userId)
+      .map(payout => ({ ...payout }))
+  }
+
+  /**
+   * Speed up a stuck batch. A replacement moves every payout in it to the new txid; CPFP leaves the
+   * batch as it is and pays through a child.
+   */
+  async bumpBatch(txid: string, options: FeeBumpOptions = {}): Promise<FeeBumpResult> {
+    const batch = this.batch(txid)
+    if (batch.length === 0) {
+      throw new Error(`No payouts were sent in ${txid}`)
+    }
+    if (batch.some(payout => payout.status === 'confirmed')) {
+      throw new Error(`Batch ${txid} is already confirmed`)
+    }
+
+    const result = await this.bitcoin.bumpFee(txid, options)
+    if (result.method === 'rbf') {
+      const sent = this.batches.get(txid)
+      this.batches.delete(txid)
+      if (sent) {
+        this.batches.set(result.newTxid, { payoutIds: sent.payoutIds, inputs: sent.inputs })
+      }
+      batch.forEach(payout => this.update(payout, {
+        txid: result.newTxid,
+        replacedTxids: [...(payout.replacedTxids || []), txid]
+      }))
+    }
+
+    return result
+  }
+
+  /**
+   * Mark payouts confirmed once their batch is in a block, and requeue those whose batch can no longer confirm
+   */
+  async refresh(): Promise<void> {
+    const txids = new Set(
+      Array.from(this.payouts.values())
+        .filter(payout => payout.status === 'broadcast')
+        .map(payout => payout.txid!)
+    )
+
+    for (const txid of Array.from(txids)) {
+      let transaction: BitcoinTransaction
+      try {
+        transaction = await this.bitcoin.getTransaction(txid)
+      } catch (error) {
+        // Only a backend that answers and no longer knows the txid counts; otherwise try again on the next refresh
+        const status = await this.bitcoin.getTransactionStatus(txid).catch(() => undefined)
+        if (status === null) {
+          await this.recover(txid)
+        }
+        continue
+      }
+
+      if (transaction.status.confirmed) {
+        this.batches.delete(txid)
+        this.batch(txid).forEach(payout => this.update(payout, { status: 'confirmed' }))
+      }
+    }
+  }
+
+  /**
+   * Listen for every change to any payout; returns a function that removes the listener
+   */
+  subscribe(listener: PayoutListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Stop the batch window timer; queued payouts stay queued until the next flush
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async sendBatch(payouts: Payout[]): Promise<string | null> {
+    if (payouts.length === 0) {
+      return null
+    }
+
+    let transaction
+    try {
+      transaction = await this.bitcoin.createBatchTransaction(
+        payouts.map(payout => ({ address: payout.destination, amount: payout.amount })),
+        undefined,
+        { feeTier: this.feeTier }
+      )
+    } catch (error) {
+      // A batch the wallet cannot fund whole may still fund its older half; the rest waits for the next window
+      if (payouts.length > 1) {
+        return this.sendBatch(payouts.slice(0, Math.ceil(payouts.length / 2)))
+      }
+      this.recordFailure(payouts, error)
+      return null
+    }
+
+    let signed: BitcoinTransaction
+    try {
+      signed = await this.bitcoin.signTransaction(transaction)
+    } catch (error) {
+      this.recordFailure(payouts, error)
+      return null
+    }
+
+    // Recorded before the broadcast, so a reload in between checks the batch instead of paying it again
+    this.batches.set(signed.txid, {
+      payoutIds: payouts.map(payout => payout.id),
+      inputs: signed.vin.map(input => ({ txid: input.txid, vout: input.vout })),
+      hex: signed.hex
+    })
+    this.persist()
+
+    let txid: string
+    try {
+      txid = await this.bitcoin.sendTransaction(signed)
+    } catch (error) {
+      // The broadcast may have gone through all the same; requeueing it then would pay everyone twice
+      const status = await this.bitcoin.getTransactionStatus(signed.txid).catch(() => undefined)
+      if (status === null) {
+        this.batches.delete(signed.txid)
+        this.recordFailure(payouts, error)
+        return null
+      }
+      txid = signed.txid
+    }
+
+    if (txid !== signed.txid) {
+      this.batches.set(txid, this.batches.get(signed.txid)!)
+      this.batches.delete(signed.txid)
+    }
+
+    // Outputs follow the order of the payments, so each payout knows its own. A batch whose broadcast could
+    // not be confirmed either way is followed like any other, and refresh sorts it out.
+    payouts.forEach((payout, vout) => this.update(payout, { status: 'broadcast', txid, vout, error: undefined }))
+    return txid
+  }
+
+  // A batch the backend no longer knows was either evicted from the mempool or lost to a conflicting spend
+  private async recover(txid: string): Promise<void> {
+    const sent = this.batches.get(txid)
+
+    const conflict = sent ? await this.findConflict(txid, sent) : null
+    if (conflict) {
+      // Until the conflicting spend confirms it can still be replaced and this batch mined after all
+      const status = await this.bitcoin.getTransactionStatus(conflict).catch(() => undefined)
+      if (status?.confirmed) {
+        this.abandon(txid, `Batch ${txid} was double-spent by ${conflict}`)
+      }
+      return
+    }
+
+    if (sent?.hex) {
+      try {
+        await this.bitcoin.broadcastTransaction(sent.hex)
+        return
+      } catch (error) {
+        this.abandon(txid, `Batch ${txid} dropped out of the mempool and could not be rebroadcast: ${(error as Error)?.message}`)
+        return
+      }
+    }
+
+    this.abandon(txid, `Batch ${txid} dropped out of the mempool`)
+  }
+
+  private async findConflict(txid: string, sent: SentBatch): Promise<string | null> {
+    for (const input of sent.inputs) {
+      const spender = await this.bitcoin.getSpendingTransaction(input.txid, input.vout).catch(() => null)
+      if (spender && spender !== txid) {
+        return spender
+      }
+    }
+    return null
+  }
+
+  private abandon(txid: string, message: string): void {
+    this.batches.delete(txid)
+    this.recordFailure(this.batch(txid), { message })
+    if (this.queued().length > 0) {
+      this.schedule()
+    }
+  }
+
+  // Failed payouts go back in the queue until they have been part of maxAttempts failed batches
+  private recordFailure(payouts: Payout[], error: any): void {
+    const message = error?.message || 'Payout batch failed'
+    payouts.forEach(payout => {
+      const attempts = payout.attempts + 1
+      this.update(payout, {
+        attempts,
+        error: message,
+        status: attempts >= this.maxAttempts ? 'failed' : 'queued',
+        txid: undefined,
+        vout: undefined
+      })
+    })
+  }
+
+  private queued(): Payout[] {
+    return Array.from(this.payouts.values())
+      .filter(payout => payout.status === 'queued')
+      .sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime())
+  }
+
+  private batch(txid: string): Payout[] {
+    return Array.from(this.payouts.values()).filter(payout => payout.txid === txid)
+  }
+
+  private schedule(): void {
+    if (!this.timer && !this.flushing) {
+      this.timer = setTimeout(() => {
+        this.timer = null
+        void this.flush()
+      }, this.windowMs)
+    }
+  }
+
+  private update(payout: Payout, changes: Partial<Payout>): void {
+    const updated = { ...payout, ...changes }
+    this.payouts.set(payout.id, updated)
+    this.persist()
+    this.notify(updated)
+  }
+
+  private persist(): void {
+    this.store.save({
+      payouts: Array.from(this.payouts.values()),
+      batches: Object.fromEntries(this.batches)
+    })
+  }
+
+  // Dates come back as strings from JSON stores. Payouts of a batch signed but not yet marked broadcast are
+  // followed as broadcast, so refresh finds out whether it went out rather than the queue paying them again.
+  private restore(): void {
+    const state = this.store.load()
+    if (!state) return
+
+    state.payouts.forEach(payout => this.payouts.set(payout.id, { ...payout, queuedAt: new Date(payout.queuedAt) }))
+    Object.entries(state.batches).forEach(([txid, batch]) => {
+      this.batches.set(txid, batch)
+      batch.payoutIds.forEach((id, vout) => {
+        const payout = this.payouts.get(id)
+        if (payout?.status === 'queued') {
+          this.payouts.set(id, { ...payout, status: 'broadcast', txid, vout })
+        }
+      })
+    })
+
+    if (this.queued().length > 0) {
+      this.schedule()
+    }
+  }
+
+  private notify(payout: Payout): void {
+    this.listeners.forEach(listener => listener({ ...payout }))
+  }
+}
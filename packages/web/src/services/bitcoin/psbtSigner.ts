@@ -0,0 +1,162 @@
+import * as bitcoin from 'bitcoinjs-lib'
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1.js'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import { PsbtSigner } from '@/types/atomiq'
+import { xverseWallet } from '../wallets/xverse'
+import { toXOnly, tweakSecretKey } from './ecc'
+
+export interface FinalizedPsbt {
+  psbt: string
+  hex: string
+  txid: string
+  vsize: number
+}
+
+/**
+ * Signs every input it holds the key for with a local secp256k1 private key: ECDSA for
+ * P2WPKH and P2WSH multisig, Schnorr for the key's own BIP86 Taproot output and tapscript leaves
+ */
+export class LocalKeySigner implements PsbtSigner {
+  private signer: bitcoin.Signer
+  private taprootSigner: bitcoin.Signer
+  private internalKey: Uint8Array
+  private taprootScript: string
+  private network: bitcoin.Network
+
+  constructor(privateKey: Uint8Array | string, network: bitcoin.Network) {
+    const secretKey = typeof privateKey === 'string' ? hexToBytes(privateKey) : privateKey
+    const tweakedKey = tweakSecretKey(secretKey)
+
+    this.network = network
+    this.signer = {
+      publicKey: secp256k1.getPublicKey(secretKey, true),
+      sign: (hash: Uint8Array) => secp256k1.sign(hash, secretKey, { prehash: false }),
+      signSchnorr: (hash: Uint8Array) => schnorr.sign(hash, secretKey)
+    }
+    this.taprootSigner = {
+      publicKey: secp256k1.getPublicKey(tweakedKey, true),
+      sign: () => {
+        throw new Error('Taproot inputs take Schnorr signatures')
+      },
+      signSchnorr: (hash: Uint8Array) => schnorr.sign(hash, tweakedKey)
+    }
+    this.internalKey = toXOnly(this.signer.publicKey)
+    this.taprootScript = bytesToHex(bitcoin.payments.p2tr({ internalPubkey: this.internalKey, network }).output!)
+  }
+
+  async signPsbt(psbtBase64: string): Promise<string> {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: this.network })
+
+    let signed = 0
+    psbt.data.inputs.forEach((input, index) => {
+      try {
+        if (input.witnessUtxo && bytesToHex(input.witnessUtxo.script) === this.taprootScript) {
+          if (!input.tapInternalKey) {
+            psbt.updateInput(index, { tapInternalKey: this.internalKey })
+          }
+          psbt.signInput(index, this.taprootSigner)
+        } else {
+          psbt.signInput(index, this.signer)
+        }
+        signed++
+      } catch (error) {
+        // Someone else's input; they sign it in their own round
+      }
+    })
+
+    if (signed === 0) {
+      throw new Error('No inputs were signed')
+    }
+
+    return psbt.toBase64()
+  }
+}
+
+/**
+ * Delegates signing to the connected Xverse wallet
+ */
+export class XverseSigner implements PsbtSigner {
+  constructor(private network: bitcoin.Network) {}
+
+  async signPsbt(psbtBase64: string): Promise<string> {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: this.network })
+
+    // Xverse expects the input indexes to sign grouped by the address that owns them
+    const signInputs: Record<string, number[]> = {}
+    psbt.data.inputs.forEach((input, index) => {
+      if (!input.witnessUtxo) {
+        return
+      }
+
+      const address = bitcoin.address.fromOutputScript(input.witnessUtxo.script, this.network)
+      signInputs[address] = [...(signInputs[address] || []), index]
+    })
+
+    const signed = await xverseWallet.signPsbt(psbtBase64, signInputs)
+    assertSameTransaction(psbtBase64, signed, this.network)
+    return signed
+  }
+}
+
+/**
+ * Hands the PSBT to an out-of-band signer (air-gapped device, file export, QR) and waits
+ * for the signed PSBT to come back
+ */
+export class OfflineSigner implements PsbtSigner {
+  constructor(
+    private requestSignature: (psbtBase64: string) => Promise<string>,
+    private network: bitcoin.Network
+  ) {}
+
+  async signPsbt(psbtBase64: string): Promise<string> {
+    const signed = await this.requestSignature(psbtBase64)
+    assertSameTransaction(psbtBase64, signed, this.network)
+    return signed
+  }
+}
+
+/**
+ * Make sure an externally signed PSBT still spends the same inputs to the same outputs
+ */
+export function assertSameTransaction(
+  originalBase64: string,
+  signedBase64: string,
+  network: bitcoin.Network
+): void {
+  const original = bitcoin.Psbt.fromBase64(originalBase64, { network })
+  const signed = bitcoin.Psbt.fromBase64(signedBase64, { network })
+
+  const describe = (psbt: bitcoin.Psbt) => JSON.stringify({
+    inputs: psbt.txInputs.map(input => `${bytesToHex(input.hash)}:${input.index}:${input.sequence}`),
+    outputs: psbt.txOutputs.map(output => `${bytesToHex(output.script)}:${output.value}`),
+    locktime: psbt.locktime,
+    version: psbt.version
+  })
+
+  if (describe(original) !== describe(signed)) {
+    throw new Error('Signed PSBT does not match the transaction that was requested')
+  }
+}
+
+/**
+ * Finalize a fully signed PSBT and extract the raw transaction for broadcast
+ */
+export function finalizePsbt(psbtBase64: string, network: bitcoin.Network): FinalizedPsbt {
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network })
+
+  // Multisig inputs arrive already finalized by their signing session
+  psbt.data.inputs.forEach((input, index) => {
+    if (!input.finalScriptWitness && !input.finalScriptSig) {
+      psbt.finalizeInput(index)
+    }
+  })
+
+  const transaction = psbt.extractTransaction()
+
+  return {
+    psbt: psbt.toBase64(),
+    hex: transaction.toHex(),
+    txid: transaction.getId(),
+    vsize: transaction.virtualSize()
+  }
+}
@@ -0,0 +1,37 @@
+import { BitcoinTransaction, ZeroConfAssessment, ZeroConfPolicy } from '@/types/atomiq'
+import { signalsRbf, transactionFeeRate } from './feeBump'
+
+/**
+ * Decide whether an unconfirmed deposit to `address` is safe to credit before it confirms: small
+ * enough that a double-spend would cost little, paying a fee that gets it mined soon, and not
+ * signalling replace-by-fee unless the policy allows it
+ */
+export function assessZeroConf(tx: BitcoinTransaction, address: string, policy: ZeroConfPolicy): ZeroConfAssessment {
+  const amount = tx.vout
+    .filter(output => output.scriptpubkey_address === address)
+    .reduce((sum, output) => sum + output.value, 0)
+  const feeRate = tx.fee > 0 ? Math.round(transactionFeeRate(tx) * 10) / 10 : 0
+  const rbf = signalsRbf(tx)
+
+  const reasons: string[] = []
+  if (amount === 0) {
+    reasons.push('Transaction pays nothing to the address')
+  }
+  if (amount > Math.round(policy.maxAmount * 100000000)) {
+    reasons.push(`Amount is above the ${policy.maxAmount} BTC instant credit limit`)
+  }
+  if (feeRate < policy.minFeeRate) {
+    reasons.push(`Fee rate of ${feeRate} sat/vB is below the ${policy.minFeeRate} sat/vB instant credit minimum`)
+  }
+  if (rbf && !policy.allowRbf) {
+    reasons.push('Transaction signals replace-by-fee')
+  }
+
+  return {
+    credit: reasons.length === 0,
+    amount: amount / 100000000,
+    feeRate,
+    rbf,
+    reasons
+  }
+}
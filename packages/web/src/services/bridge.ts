@@ -6,14 +6,19 @@ import {
   BridgeTransaction,
   AtomiqError
 } from '@/types/atomiq'
+import * as bitcoin from 'bitcoinjs-lib'
+import { BitcoinNetworkName, toBitcoinNetwork } from './bitcoin/hdWallet'
+import { validateBitcoinAddress as checkBitcoinAddress } from '@/lib/validation'
 
 export class BridgeServiceImplementation implements BridgeService {
   private apiUrl: string
   private contractAddress: string
+  private network: BitcoinNetworkName
 
-  constructor(apiUrl: string, contractAddress: string) {
+  constructor(apiUrl: string, contractAddress: string, network: BitcoinNetworkName = 'testnet') {
     this.apiUrl = apiUrl
     this.contractAddress = contractAddress
+    this.network = network
   }
 
   /**
@@ -85,15 +90,20 @@ export class BridgeServiceImplementation implements BridgeService {
     destination: string
   ): Promise<BridgeWithdrawal> {
     try {
+      const validation = checkBitcoinAddress(destination, this.network)
+      if (!validation.valid) {
+        throw new Error(validation.message)
+      }
+
       const response = await this.makeRequest('/withdrawal', 'POST', {
         amount: amount * 100000000,
-        destination
+        destination: validation.address
       })
 
       return {
         id: response.withdrawal_id,
         amount,
-        destination,
+        destination: validation.address,
         status: 'pending',
         createdAt: new Date(response.created_at * 1000),
         fees: {
@@ -185,6 +195,11 @@ export class BridgeServiceImplementation implements BridgeService {
    * Validate a Bitcoin deposit address
    */
   async validateBitcoinAddress(address: string): Promise<boolean> {
+    // Checksum and network are checked locally; the bridge still decides what it will pay out to
+    if (!checkBitcoinAddress(address, this.network).valid) {
+      return false
+    }
+
     try {
       const response = await this.makeRequest('/validate/bitcoin-address', 'POST', {
         address
@@ -303,23 +318,27 @@ export class BridgeServiceImplementation implements BridgeService {
 // Factory function to create Bridge service instance
 export function createBridgeService(
   apiUrl?: string,
-  contractAddress?: string
+  contractAddress?: string,
+  network?: BitcoinNetworkName
 ): BridgeService {
   const defaultApiUrl = apiUrl || process.env.NEXT_PUBLIC_BRIDGE_API_URL || 'https://bridge.atomiq.com'
   const defaultContractAddress = contractAddress || process.env.NEXT_PUBLIC_BRIDGE_CONTRACT_ADDRESS || ''
+  const defaultNetwork = network || (process.env.NEXT_PUBLIC_BITCOIN_NETWORK as BitcoinNetworkName) || 'testnet'
 
   if (!defaultContractAddress) {
     // Return mock service for development
-    return new MockBridgeService()
+    return new MockBridgeService(defaultNetwork)
   }
 
-  return new BridgeServiceImplementation(defaultApiUrl, defaultContractAddress)
+  return new BridgeServiceImplementation(defaultApiUrl, defaultContractAddress, defaultNetwork)
 }
 
 // Mock service for development and testing
 export class MockBridgeService implements BridgeService {
   private mockTransactions: BridgeTransaction[] = []
 
+  constructor(private network: BitcoinNetworkName = 'testnet') {}
+
   async getQuote(
     fromChain: 'bitcoin' | 'starknet',
     toChain: 'bitcoin' | 'starknet',
@@ -349,7 +368,7 @@ export class MockBridgeService implements BridgeService {
       id: `deposit_${Date.now()}`,
       quote,
       depositAddress: quote.fromChain === 'bitcoin'
-        ? `tb1q${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`
+        ? this.randomBitcoinAddress()
         : `0x${Math.random().toString(16).substring(2, 66)}`,
       memo: quote.fromChain === 'bitcoin' ? `crossbtc_${Date.now()}` : undefined,
       expiry: new Date(Date.now() + 3600000), // 1 hour
@@ -364,6 +383,11 @@ export class MockBridgeService implements BridgeService {
     amount: number,
     destination: string
   ): Promise<BridgeWithdrawal> {
+    const validation = checkBitcoinAddress(destination, this.network)
+    if (!validation.valid) {
+      throw new Error(validation.message)
+    }
+
     const withdrawal: BridgeWithdrawal = {
       id: `withdrawal_${Date.now()}`,
       amount,
@@ -417,12 +441,17 @@ export class MockBridgeService implements BridgeService {
   }
 
   async validateBitcoinAddress(address: string): Promise<boolean> {
-    // Simple Bitcoin address validation
-    return /^(bc1|tb1|[13])[a-zA-HJ-NP-Z0-9]{25,62}$/.test(address)
+    return checkBitcoinAddress(address, this.network).valid
   }
 
   async validateStarknetAddress(address: string): Promise<boolean> {
     // Simple Starknet address validation
     return /^0x[a-fA-F0-9]{64}$/.test(address)
   }
-}
\ No newline at end of file
+
+  // A well-formed P2WPKH address for the network so deposit screens pass validation
+  private randomBitcoinAddress(): string {
+    const hash = Uint8Array.from({ length: 20 }, () => Math.floor(Math.random() * 256))
+    return bitcoin.payments.p2wpkh({ hash, network: toBitcoinNetwork(this.network) }).address!
+  }
+}
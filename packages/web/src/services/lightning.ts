@@ -1,22 +1,61 @@
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
 import {
   LightningService,
   LightningNodeInfo,
   LightningChannel,
   LightningPayment,
   LightningInvoice,
-  AtomiqError
+  LightningInvoiceEvent,
+  InvoiceSubscriptionOptions,
+  HoldInvoiceOptions,
+  HoldInvoiceState,
+  HtlcAttemptStatus,
+  PaymentFeeLimit,
+  PaymentOptions,
+  PaymentProbe,
+  PaymentProgress,
+  LnurlRequest,
+  LnurlPayRequest,
+  LnurlPayResult,
+  LnurlWithdrawRequest,
+  LnurlChannelRequest,
+  LightningBackendKind
 } from '@/types/atomiq'
-
-export class LightningServiceImplementation implements LightningService {
+import {
+  FetchStreamTransport,
+  InvoiceStream,
+  WebSocketStreamTransport,
+  hexToRHash,
+  rHashToHex,
+  readLines,
+  toLightningInvoice
+} from './lightning/invoiceStream'
+import { expectLnurl, fetchPayInvoice, openSuccessAction, resolveLnurl } from './lightning/lnurl'
+import {
+  INVOICE_EXPIRY,
+  INVOICE_MEMO,
+  LightningNodeService,
+  PAYMENT_TIMEOUT,
+  REBALANCE_MEMO,
+  feeLimitMsat
+} from './lightning/nodeService'
+import { CoreLightningService } from './lightning/coreLightning'
+import { EclairService } from './lightning/eclair'
+
+export class LightningServiceImplementation extends LightningNodeService {
   private rpcUrl: string
   private macaroon: string
   private cert: string
+  private invoiceStreamUrl?: string
   private isConnected: boolean = false
 
-  constructor(rpcUrl: string, macaroon: string, cert: string) {
+  constructor(rpcUrl: string, macaroon: string, cert: string, invoiceStreamUrl?: string) {
+    super()
     this.rpcUrl = rpcUrl
     this.macaroon = macaroon
     this.cert = cert
+    this.invoiceStreamUrl = invoiceStreamUrl
   }
 
   /**
@@ -68,21 +107,23 @@ export class LightningServiceImplementation implements LightningService {
       const satoshis = Math.floor(amount * 100000000)
       const payload = {
         value: satoshis,
-        memo: memo || 'CrossBTC deposit',
-        expiry: 3600, // 1 hour expiry
+        memo: memo || INVOICE_MEMO,
+        expiry: INVOICE_EXPIRY,
         private: false
       }
 
+      // AddInvoice answers with little more than the hash and payment request
+      const created = Date.now()
       const response = await this.makeRequest('/v1/invoices', 'POST', payload)
 
       return {
         paymentHash: response.r_hash,
         bolt11: response.payment_request,
         amount: satoshis / 100000000,
-        timestamp: new Date(response.creation_date * 1000),
-        expiry: new Date((response.creation_date + response.expiry) * 1000),
-        memo: response.memo,
-        status: response.settled ? 'paid' : 'pending'
+        timestamp: new Date(created),
+        expiry: new Date(created + INVOICE_EXPIRY * 1000),
+        memo: payload.memo,
+        status: 'pending'
       }
     } catch (error) {
       throw this.handleError('LIGHTNING_INVOICE_CREATION_FAILED', error)
@@ -90,35 +131,47 @@ export class LightningServiceImplementation implements LightningService {
   }
 
   /**
-   * Pay a Lightning invoice
+   * Pay a Lightning invoice. The router streams the payment after every change to its HTLCs, which
+   * is passed on to `onProgress`; the last update says how it ended.
    */
-  async payInvoice(invoice: string): Promise<LightningPayment> {
+  async payInvoice(invoice: string, options: PaymentOptions = {}): Promise<LightningPayment> {
     try {
-      const payload = {
-        payment_request: invoice,
-        fee_limit: { fixed: Math.floor(0.0001 * 100000000) } // 0.0001 BTC fee limit
-      }
+      return await this.sendPayment(invoice, options)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_PAYMENT_FAILED', error)
+    }
+  }
 
-      const response = await this.makeRequest('/v2/router/send', 'POST', payload)
-      const payment = response.payment
+  /**
+   * Ask the router for the route it would pay an invoice over, scored by mission control, which keeps
+   * what earlier payments and probes learned about each channel
+   */
+  async probePayment(invoice: string, feeLimit?: PaymentFeeLimit): Promise<PaymentProbe> {
+    try {
+      const request = await this.makeRequest(`/v1/payreq/${invoice}`, 'GET')
+      const amountMsat = Number(request.num_msat)
+      const response = await this.makeRequest('/v1/graph/routes', 'POST', {
+        pub_key: request.destination,
+        amt_msat: amountMsat,
+        final_cltv_delta: Number(request.cltv_expiry),
+        route_hints: request.route_hints || [],
+        dest_features: Object.keys(request.features || {}).map(Number),
+        fee_limit: { fixed_msat: feeLimitMsat(feeLimit, amountMsat) },
+        use_mission_control: true
+      })
 
+      const route = response.routes?.[0]
+      if (!route) {
+        throw new Error('No route found')
+      }
       return {
-        payment_hash: payment.payment_hash,
-        value: payment.value,
-        creation_date: new Date(payment.creation_date * 1000).toISOString(),
-        fee: payment.fee,
-        payment_preimage: payment.payment_preimage,
-        value_sat: payment.value_sat,
-        value_msat: payment.value_msat,
-        payment_request: payment.payment_request,
-        status: payment.status,
-        fee_sat: payment.fee_sat,
-        fee_msat: payment.fee_msat,
-        creation_time_ns: payment.creation_time_ns,
-        htlcs: payment.htlcs || []
+        amountSat: amountMsat / 1000,
+        feeSat: Math.ceil(Number(route.total_fees_msat) / 1000),
+        successProbability: Number(response.success_prob),
+        hops: route.hops.length
       }
     } catch (error) {
-      throw this.handleError('LIGHTNING_PAYMENT_FAILED', error)
+      throw this.handleError('LIGHTNING_PROBE_FAILED', error)
     }
   }
 
@@ -127,22 +180,92 @@ export class LightningServiceImplementation implements LightningService {
    */
   async getInvoice(paymentHash: string): Promise<LightningInvoice> {
     try {
-      const response = await this.makeRequest(`/v1/invoice/${paymentHash}`, 'GET')
+      const response = await this.makeRequest(`/v1/invoice/${rHashToHex(paymentHash)}`, 'GET')
+      return toLightningInvoice(response)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_INVOICE_FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Follow invoice updates as they happen; returns a function that stops the subscription
+   */
+  subscribeInvoices(
+    listener: (event: LightningInvoiceEvent) => void,
+    options: InvoiceSubscriptionOptions = {}
+  ): () => void {
+    const stream = new InvoiceStream(listener, {
+      ...options,
+      transport: (addIndex, settleIndex) => {
+        const query = `add_index=${addIndex}&settle_index=${settleIndex}`
+        return this.invoiceStreamUrl
+          ? new WebSocketStreamTransport(`${this.invoiceStreamUrl}/v1/invoices/subscribe?method=GET&${query}`, this.macaroon)
+          : new FetchStreamTransport(`${this.rpcUrl}/v1/invoices/subscribe?${query}`, this.macaroon)
+      },
+      lookupInvoice: rHash => this.makeRequest(`/v1/invoice/${rHashToHex(rHash)}`, 'GET')
+    })
+
+    stream.start()
+    return () => stream.close()
+  }
+
+  /**
+   * Create a hold invoice for a hash whose preimage we keep; the payment is only claimed once settled
+   */
+  async createHoldInvoice(paymentHash: string, amount: number, options: HoldInvoiceOptions = {}): Promise<LightningInvoice> {
+    try {
+      const satoshis = Math.floor(amount * 100000000)
+      const memo = options.memo || INVOICE_MEMO
+      const expiry = options.expiry || INVOICE_EXPIRY
+
+      const created = Date.now()
+      const response = await this.makeRequest('/v2/invoices/hodl', 'POST', {
+        hash: hexToRHash(paymentHash),
+        value: satoshis,
+        memo,
+        expiry,
+        ...(options.cltvExpiry ? { cltv_expiry: options.cltvExpiry } : {})
+      })
 
       return {
-        paymentHash: response.r_hash,
+        paymentHash,
         bolt11: response.payment_request,
-        amount: response.value / 100000000,
-        timestamp: new Date(response.creation_date * 1000),
-        expiry: new Date((response.creation_date + response.expiry) * 1000),
-        memo: response.memo,
-        status: response.settled ? 'paid' : (response.canceled ? 'expired' : 'pending')
+        amount: satoshis / 100000000,
+        timestamp: new Date(created),
+        expiry: new Date(created + expiry * 1000),
+        memo,
+        status: 'pending'
       }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_HOLD_INVOICE_CREATION_FAILED', error)
+    }
+  }
+
+  async getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState> {
+    try {
+      const response = await this.makeRequest(`/v1/invoice/${rHashToHex(paymentHash)}`, 'GET')
+      return (response.state || 'OPEN').toLowerCase() as HoldInvoiceState
     } catch (error) {
       throw this.handleError('LIGHTNING_INVOICE_FETCH_FAILED', error)
     }
   }
 
+  async settleHoldInvoice(preimage: string): Promise<void> {
+    try {
+      await this.makeRequest('/v2/invoices/settle', 'POST', { preimage: hexToRHash(preimage) })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_HOLD_INVOICE_SETTLE_FAILED', error)
+    }
+  }
+
+  async cancelHoldInvoice(paymentHash: string): Promise<void> {
+    try {
+      await this.makeRequest('/v2/invoices/cancel', 'POST', { payment_hash: hexToRHash(rHashToHex(paymentHash)) })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_HOLD_INVOICE_CANCEL_FAILED', error)
+    }
+  }
+
   /**
    * Get list of Lightning channels
    */
@@ -154,15 +277,16 @@ export class LightningServiceImplementation implements LightningService {
         remote_pubkey: channel.remote_pubkey,
         channel_point: channel.channel_point,
         chan_id: channel.chan_id,
-        capacity: channel.capacity,
-        local_balance: channel.local_balance,
-        remote_balance: channel.remote_balance,
-        commit_fee: channel.commit_fee,
-        commit_weight: channel.commit_weight,
-        fee_per_kw: channel.fee_per_kw,
-        unsettled_balance: channel.unsettled_balance,
-        total_satoshis_sent: channel.total_satoshis_sent,
-        total_satoshis_received: channel.total_satoshis_received,
+        // int64 fields come as strings in LND's JSON
+        capacity: Number(channel.capacity),
+        local_balance: Number(channel.local_balance),
+        remote_balance: Number(channel.remote_balance),
+        commit_fee: Number(channel.commit_fee),
+        commit_weight: Number(channel.commit_weight),
+        fee_per_kw: Number(channel.fee_per_kw),
+        unsettled_balance: Number(channel.unsettled_balance),
+        total_satoshis_sent: Number(channel.total_satoshis_sent),
+        total_satoshis_received: Number(channel.total_satoshis_received),
         num_updates: channel.num_updates.toString(),
         pending_htlcs: channel.pending_htlcs || []
       }))
@@ -171,27 +295,44 @@ export class LightningServiceImplementation implements LightningService {
     }
   }
 
+  /**
+   * Pay an invoice of our own, leaving over the outgoing channel and arriving over the incoming one
+   */
+  async rebalanceChannels(
+    outgoingChanId: string,
+    incomingChanId: string,
+    amountSat: number,
+    options: PaymentOptions = {}
+  ): Promise<LightningPayment> {
+    const incoming = (await this.getChannels()).find(channel => channel.chan_id === incomingChanId)
+    try {
+      if (!incoming) {
+        throw new Error(`No channel ${incomingChanId}`)
+      }
+      // Asked for in sats; createInvoice's BTC amount can round a satoshi away
+      const invoice = await this.makeRequest('/v1/invoices', 'POST', {
+        value: amountSat,
+        memo: REBALANCE_MEMO,
+        expiry: INVOICE_EXPIRY,
+        private: false
+      })
+      return await this.sendPayment(invoice.payment_request, options, {
+        outgoing_chan_ids: [outgoingChanId],
+        last_hop_pubkey: hexToRHash(incoming.remote_pubkey),
+        allow_self_payment: true
+      })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_REBALANCE_FAILED', error)
+    }
+  }
+
   /**
    * List all payments
    */
   async listPayments(): Promise<LightningPayment[]> {
     try {
       const response = await this.makeRequest('/v1/payments', 'GET')
-      return response.payments.map((payment: any) => ({
-        payment_hash: payment.payment_hash,
-        value: payment.value,
-        creation_date: new Date(payment.creation_date * 1000).toISOString(),
-        fee: payment.fee,
-        payment_preimage: payment.payment_preimage,
-        value_sat: payment.value_sat,
-        value_msat: payment.value_msat,
-        payment_request: payment.payment_request,
-        status: payment.status,
-        fee_sat: payment.fee_sat,
-        fee_msat: payment.fee_msat,
-        creation_time_ns: payment.creation_time_ns,
-        htlcs: payment.htlcs || []
-      }))
+      return response.payments.map(toLightningPayment)
     } catch (error) {
       throw this.handleError('LIGHTNING_PAYMENTS_FETCH_FAILED', error)
     }
@@ -262,6 +403,53 @@ export class LightningServiceImplementation implements LightningService {
 
   // Private helper methods
 
+  // Through the router, reporting each update; `restrictions` are extra SendPaymentV2 fields
+  private async sendPayment(invoice: string, options: PaymentOptions, restrictions: object = {}): Promise<LightningPayment> {
+    const payload = {
+      payment_request: invoice,
+      fee_limit_msat: await this.feeLimitFor(invoice, options.feeLimit),
+      timeout_seconds: options.timeoutSeconds ?? PAYMENT_TIMEOUT,
+      ...(options.maxParts ? { max_parts: options.maxParts } : {}),
+      ...restrictions
+    }
+
+    let payment: any
+    await this.streamRequest('/v2/router/send', payload, update => {
+      payment = update
+      options.onProgress?.(toPaymentProgress(update))
+    })
+    if (!payment) {
+      throw new Error('Payment stream ended without an update')
+    }
+    if (payment.status === 'FAILED') {
+      throw new Error(`Payment failed: ${payment.failure_reason || 'no route'}`)
+    }
+    if (payment.status !== 'SUCCEEDED') {
+      throw new Error('Payment stream ended while the payment was still in flight')
+    }
+
+    return toLightningPayment(payment)
+  }
+
+  // A fixed limit needs nothing from the node; one in ppm needs the invoice's amount
+  private async feeLimitFor(invoice: string, feeLimit?: PaymentFeeLimit): Promise<number> {
+    if (!feeLimit || !('ppm' in feeLimit)) {
+      return feeLimitMsat(feeLimit, 0)
+    }
+    const request = await this.makeRequest(`/v1/payreq/${invoice}`, 'GET')
+    return feeLimitMsat(feeLimit, Number(request.num_msat))
+  }
+
+  protected async connectPeer(pubkey: string, host: string): Promise<void> {
+    try {
+      await this.makeRequest('/v1/peers', 'POST', { addr: { pubkey, host }, perm: false })
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('already connected'))) {
+        throw error
+      }
+    }
+  }
+
   private async makeRequest(endpoint: string, method: string, data?: any): Promise<any> {
     const url = `${this.rpcUrl}${endpoint}`
     const headers = {
@@ -278,7 +466,7 @@ export class LightningServiceImplementation implements LightningService {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
-        throw new Error(`HTTP ${response.status}: ${errorData.error || response.statusText}`)
+        throw new Error(`HTTP ${response.status}: ${errorData.error || errorData.message || response.statusText}`)
       }
 
       return await response.json()
@@ -290,38 +478,120 @@ export class LightningServiceImplementation implements LightningService {
     }
   }
 
-  private handleError(code: string, error: any): AtomiqError {
-    return {
-      code,
-      message: error instanceof Error ? error.message : 'Unknown error',
-      details: error,
-      timestamp: new Date()
+  // A server-streaming call: newline-delimited JSON, each message wrapped in `result` or `error`
+  private async streamRequest(endpoint: string, data: any, onMessage: (message: any) => void): Promise<void> {
+    const response = await fetch(`${this.rpcUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Grpc-Metadata-macaroon': this.macaroon,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(data)
+    })
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(`HTTP ${response.status}: ${errorData.error || errorData.message || response.statusText}`)
     }
+
+    await readLines(response.body, line => {
+      const message = JSON.parse(line)
+      if (message.error) {
+        throw new Error(message.error.message || String(message.error))
+      }
+      onMessage(message.result || message)
+    })
+  }
+}
+
+// A payment from the router or the payment list; int64 fields come as strings in LND's JSON
+function toLightningPayment(payment: any): LightningPayment {
+  return {
+    payment_hash: payment.payment_hash,
+    value: Number(payment.value),
+    creation_date: new Date(payment.creation_date * 1000).toISOString(),
+    fee: Number(payment.fee),
+    payment_preimage: payment.payment_preimage,
+    value_sat: Number(payment.value_sat),
+    value_msat: String(payment.value_msat),
+    payment_request: payment.payment_request,
+    status: payment.status,
+    fee_sat: Number(payment.fee_sat),
+    fee_msat: String(payment.fee_msat),
+    creation_time_ns: String(payment.creation_time_ns),
+    htlcs: payment.htlcs || []
   }
 }
 
-// Factory function to create Lightning service instance
+const HTLC_STATUSES: Record<string, HtlcAttemptStatus> = {
+  IN_FLIGHT: 'in_flight',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed'
+}
+
+// A router update as the HTLC attempts it has made so far; amounts on a route include its fees
+function toPaymentProgress(payment: any): PaymentProgress {
+  return {
+    paymentHash: payment.payment_hash,
+    status: HTLC_STATUSES[payment.status] || 'in_flight', // INITIATED before the first HTLC goes out
+    attempts: (payment.htlcs || []).map((htlc: any) => {
+      const feeMsat = Number(htlc.route?.total_fees_msat || 0)
+      return {
+        id: String(htlc.attempt_id),
+        status: HTLC_STATUSES[htlc.status] || 'in_flight',
+        amountSat: (Number(htlc.route?.total_amt_msat || 0) - feeMsat) / 1000,
+        feeSat: feeMsat / 1000,
+        hops: htlc.route?.hops?.length,
+        failure: htlc.failure?.code
+      }
+    })
+  }
+}
+
+export interface LightningBackendOptions {
+  backend?: LightningBackendKind // defaults to 'lnd'
+  rune?: string // Core Lightning, when called directly rather than through the proxy route
+  password?: string // Eclair, likewise
+}
+
+// Factory function to create Lightning service instance; LND unless another backend is selected
 export function createLightningService(
   rpcUrl?: string,
   macaroon?: string,
-  cert?: string
+  cert?: string,
+  invoiceStreamUrl?: string,
+  options: LightningBackendOptions = {}
 ): LightningService {
   const defaultRpcUrl = rpcUrl || process.env.NEXT_PUBLIC_LIGHTNING_RPC_URL || ''
   const defaultMacaroon = macaroon || process.env.NEXT_PUBLIC_LIGHTNING_MACAROON || ''
   const defaultCert = cert || process.env.NEXT_PUBLIC_LIGHTNING_CERT || ''
-
-  if (!defaultRpcUrl || !defaultMacaroon) {
-    // Return mock service for development
-    return new MockLightningService()
+  const defaultInvoiceStreamUrl = invoiceStreamUrl || process.env.NEXT_PUBLIC_LIGHTNING_INVOICE_STREAM_URL || undefined
+  const backend = options.backend || (process.env.NEXT_PUBLIC_LIGHTNING_BACKEND as LightningBackendKind) || 'lnd'
+
+  switch (backend) {
+    case 'lnd':
+      if (!defaultRpcUrl || !defaultMacaroon) {
+        // Return mock service for development
+        return new MockLightningService()
+      }
+      return new LightningServiceImplementation(defaultRpcUrl, defaultMacaroon, defaultCert, defaultInvoiceStreamUrl)
+    case 'cln':
+      return defaultRpcUrl ? new CoreLightningService({ url: defaultRpcUrl, rune: options.rune }) : new MockLightningService()
+    case 'eclair':
+      return defaultRpcUrl ? new EclairService({ url: defaultRpcUrl, password: options.password }) : new MockLightningService()
+    default:
+      throw new Error(`Unknown Lightning backend: ${backend}`)
   }
-
-  return new LightningServiceImplementation(defaultRpcUrl, defaultMacaroon, defaultCert)
 }
 
 // Mock service for development and testing
 export class MockLightningService implements LightningService {
   private mockInvoices: LightningInvoice[] = []
   private mockPayments: LightningPayment[] = []
+  private invoiceListeners: Set<(event: LightningInvoiceEvent) => void> = new Set()
+  private settleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private settleIndex = 0
+  private holdInvoices: Map<string, { invoice: LightningInvoice; state: HoldInvoiceState }> = new Map()
 
   async getNodeInfo(): Promise<LightningNodeInfo> {
     return {
@@ -360,10 +630,14 @@ export class MockLightningService implements LightningService {
     }
 
     this.mockInvoices.push(invoice)
+    if (this.invoiceListeners.size > 0) {
+      this.settleLater(invoice)
+    }
     return invoice
   }
 
-  async payInvoice(invoice: string): Promise<LightningPayment> {
+  // Sent as two parts, the first of which fails, so the progress a real payment makes can be seen
+  async payInvoice(invoice: string, options: PaymentOptions = {}): Promise<LightningPayment> {
     const payment: LightningPayment = {
       payment_hash: `payment_${Date.now()}`,
       value: Math.floor(Math.random() * 100000000), // Random amount in satoshis
@@ -380,24 +654,143 @@ export class MockLightningService implements LightningService {
       htlcs: []
     }
 
+    const attempts = [
+      { id: '1', status: 'failed' as const, amountSat: payment.value_sat, feeSat: payment.fee_sat, hops: 3, failure: 'TEMPORARY_CHANNEL_FAILURE' },
+      { id: '2', status: 'succeeded' as const, amountSat: payment.value_sat, feeSat: payment.fee_sat, hops: 2 }
+    ]
+    options.onProgress?.({ paymentHash: payment.payment_hash, status: 'in_flight', attempts: [{ ...attempts[0], status: 'in_flight' }] })
+    options.onProgress?.({ paymentHash: payment.payment_hash, status: 'in_flight', attempts: [attempts[0], { ...attempts[1], status: 'in_flight' }] })
+    options.onProgress?.({ paymentHash: payment.payment_hash, status: 'succeeded', attempts })
+
     this.mockPayments.push(payment)
     return payment
   }
 
+  async probePayment(_invoice: string, _feeLimit?: PaymentFeeLimit): Promise<PaymentProbe> {
+    return {
+      amountSat: Math.floor(Math.random() * 100000),
+      feeSat: Math.floor(Math.random() * 100),
+      successProbability: 0.5 + Math.random() / 2,
+      hops: Math.floor(Math.random() * 4) + 1
+    }
+  }
+
   async getInvoice(paymentHash: string): Promise<LightningInvoice> {
     const invoice = this.mockInvoices.find(inv => inv.paymentHash === paymentHash)
     if (!invoice) {
       throw new Error('Invoice not found')
     }
+    return invoice
+  }
+
+  // Invoices are paid a few seconds after they are created, as long as someone is listening
+  subscribeInvoices(listener: (event: LightningInvoiceEvent) => void): () => void {
+    this.invoiceListeners.add(listener)
+    this.mockInvoices.filter(invoice => invoice.status === 'pending').forEach(invoice => this.settleLater(invoice))
 
-    // Simulate random status updates
-    if (Math.random() > 0.5) {
+    return () => {
+      this.invoiceListeners.delete(listener)
+      if (this.invoiceListeners.size === 0) {
+        this.settleTimers.forEach(timer => clearTimeout(timer))
+        this.settleTimers.clear()
+      }
+    }
+  }
+
+  private settleLater(invoice: LightningInvoice): void {
+    if (this.settleTimers.has(invoice.paymentHash)) {
+      return
+    }
+
+    this.settleTimers.set(invoice.paymentHash, setTimeout(() => {
+      this.settleTimers.delete(invoice.paymentHash)
       invoice.status = 'paid'
+      this.settleIndex++
+
+      const event: LightningInvoiceEvent = {
+        type: 'settled',
+        invoice,
+        amountPaid: invoice.amount,
+        addIndex: this.mockInvoices.indexOf(invoice) + 1,
+        settleIndex: this.settleIndex
+      }
+      this.invoiceListeners.forEach(listener => listener(event))
+    }, 5000))
+  }
+
+  async resolveLnurl(input: string): Promise<LnurlRequest> {
+    return resolveLnurl(input)
+  }
+
+  async payLnurl(
+    destination: string | LnurlPayRequest,
+    amount: number,
+    comment?: string,
+    options?: PaymentOptions
+  ): Promise<LnurlPayResult> {
+    const request = await expectLnurl(destination, 'payRequest')
+    const { invoice, successAction } = await fetchPayInvoice(request, Math.round(amount * 100000000000), comment)
+    const payment = await this.payInvoice(invoice, options)
+    return {
+      payment,
+      successAction: successAction && await openSuccessAction(successAction, payment.payment_preimage).catch(() => undefined)
     }
+  }
 
+  // The service is never handed the mock invoice, since it could not pay it
+  async withdrawLnurl(source: string | LnurlWithdrawRequest, amount?: number): Promise<LightningInvoice> {
+    const request = await expectLnurl(source, 'withdrawRequest')
+    return this.createInvoice(amount ?? request.maxWithdrawable / 100000000000, request.defaultDescription || undefined)
+  }
+
+  async requestLnurlChannel(source: string | LnurlChannelRequest): Promise<void> {
+    await expectLnurl(source, 'channelRequest')
+  }
+
+  // Hold invoices are paid five seconds after they are created, and held until settled or canceled
+  async createHoldInvoice(paymentHash: string, amount: number, options: HoldInvoiceOptions = {}): Promise<LightningInvoice> {
+    const invoice: LightningInvoice = {
+      paymentHash,
+      bolt11: `lnbcrt1${Math.random().toString(36).substring(2)}`,
+      amount,
+      timestamp: new Date(),
+      expiry: new Date(Date.now() + (options.expiry || 3600) * 1000),
+      memo: options.memo || 'CrossBTC deposit',
+      status: 'pending'
+    }
+    this.holdInvoices.set(paymentHash, { invoice, state: 'open' })
     return invoice
   }
 
+  async getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState> {
+    const hold = this.holdInvoices.get(paymentHash)
+    if (!hold) {
+      throw new Error('Invoice not found')
+    }
+    if (hold.state === 'open' && Date.now() - hold.invoice.timestamp.getTime() >= 5000) {
+      hold.state = 'accepted'
+    }
+    return hold.state
+  }
+
+  async settleHoldInvoice(preimage: string): Promise<void> {
+    const hold = this.holdInvoices.get(bytesToHex(sha256(hexToBytes(preimage))))
+    if (!hold || hold.state !== 'accepted') {
+      throw new Error('No accepted invoice for this preimage')
+    }
+    hold.state = 'settled'
+    hold.invoice.status = 'paid'
+  }
+
+  async cancelHoldInvoice(paymentHash: string): Promise<void> {
+    const hold = this.holdInvoices.get(paymentHash)
+    if (!hold || hold.state === 'settled') {
+      throw new Error('No open invoice to cancel')
+    }
+    hold.state = 'canceled'
+    hold.invoice.status = 'expired'
+  }
+
   async getChannels(): Promise<LightningChannel[]> {
     const numChannels = Math.floor(Math.random() * 5) + 1
     return Array.from({ length: numChannels }, (_, i) => ({
@@ -419,6 +812,32 @@ export class MockLightningService implements LightningService {
     }))
   }
 
+  // Settles straight away without creating an invoice, so no deposit listener ever sees it
+  async rebalanceChannels(
+    _outgoingChanId: string,
+    _incomingChanId: string,
+    amountSat: number,
+    options: PaymentOptions = {}
+  ): Promise<LightningPayment> {
+    const maxFeeSat = Math.floor(feeLimitMsat(options.feeLimit, amountSat * 1000) / 1000)
+    const feeSat = Math.min(Math.ceil(amountSat / 10000), maxFeeSat)
+    return {
+      payment_hash: `rebalance_${Date.now()}`,
+      value: amountSat,
+      creation_date: new Date().toISOString(),
+      fee: feeSat,
+      payment_preimage: Math.random().toString(16).substring(2, 66),
+      value_sat: amountSat,
+      value_msat: `${amountSat}000`,
+      payment_request: '',
+      status: 'SUCCEEDED',
+      fee_sat: feeSat,
+      fee_msat: `${feeSat}000`,
+      creation_time_ns: `${Date.now() * 1000000}`,
+      htlcs: []
+    }
+  }
+
   async listPayments(): Promise<LightningPayment[]> {
     return this.mockPayments
   }
@@ -0,0 +1,961 @@
+/**
+ * @jest-environment node
+ */
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import { LightningInvoiceEvent, LightningService, LnurlChannelRequest, PaymentProgress } from '@/types/atomiq'
+import { LightningServiceImplementation } from '../../lightning'
+import { CoreLightningService } from '../coreLightning'
+import { EclairService } from '../eclair'
+import { REBALANCE_MEMO } from '../nodeService'
+
+const NODE_URL = 'https://node.test'
+const SECRET = 'secret'
+const NOW = Math.floor(Date.now() / 1000)
+
+const NODE_PUBKEY = '02' + 'aa'.repeat(32)
+const PEER_PUBKEY = '03' + 'bb'.repeat(32)
+const FUNDING_TXID = 'cc'.repeat(32)
+
+interface FakeInvoice {
+  hash: string
+  bolt11: string
+  amountMsat: number
+  description: string
+  createdAt: number
+  expiry: number
+  addIndex: number
+  settleIndex: number
+  hold?: 'open' | 'accepted' | 'canceled' // hold invoices only
+}
+
+interface FakePayment {
+  hash: string
+  preimage: string
+  bolt11: string
+  amountMsat: number
+  feeMsat: number
+  createdAt: number
+}
+
+// One HTLC sent to pay someone else's invoice
+interface FakeAttempt {
+  id: number
+  hash: string
+  succeeded: boolean
+  amountMsat: number
+  feeMsat: number
+  hops: number
+}
+
+interface FakeRequest {
+  method: string
+  path: string
+  query: URLSearchParams
+  headers: Record<string, string>
+  body: any
+  signal?: AbortSignal
+}
+
+// One in-memory node; each backend's API below is a view of it
+class FakeNode {
+  invoices: FakeInvoice[] = []
+  payments: FakePayment[] = []
+  payable: Record<string, { amountMsat: number; feeMsat: number }> = {}
+  attempts: FakeAttempt[] = []
+  rebalances: Array<{ outgoingChanId: string; lastHopPubkey: string; amountMsat: number }> = []
+  peers: string[] = []
+  channelRequests: URLSearchParams[] = []
+  subscribed = false
+  private settled = 0
+  private listeners: Array<(invoice: FakeInvoice) => void> = []
+
+  addInvoice(amountMsat: number, description: string, expiry: number): FakeInvoice {
+    const addIndex = this.invoices.length + 1
+    const invoice = {
+      hash: hashOf(preimageOf(addIndex)),
+      bolt11: `lntb1fake${addIndex}`,
+      amountMsat,
+      description,
+      createdAt: NOW,
+      expiry,
+      addIndex,
+      settleIndex: 0
+    }
+    this.invoices.push(invoice)
+    return invoice
+  }
+
+  invoice(hash: string): FakeInvoice | undefined {
+    return this.invoices.find(invoice => invoice.hash === hash)
+  }
+
+  // Someone pays one of our invoices
+  receive(bolt11: string): void {
+    const invoice = this.invoices.find(candidate => candidate.bolt11 === bolt11)!
+    invoice.settleIndex = ++this.settled
+    this.listeners.slice().forEach(listener => listener(invoice))
+  }
+
+  onSettle(listener: (invoice: FakeInvoice) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(candidate => candidate !== listener)
+    }
+  }
+
+  // We pay someone else's invoice; null when there is no route within the fee limit
+  send(bolt11: string, maxFeeMsat = Infinity): FakePayment | null {
+    const payable = this.payable[bolt11]
+    if (!payable || payable.feeMsat > maxFeeMsat) {
+      return null
+    }
+    const preimage = this.preimageFor(bolt11)
+    const payment = { hash: hashOf(preimage), preimage, bolt11, createdAt: NOW, ...payable }
+    this.payments.push(payment)
+
+    // The cheapest route fails on the way; the payment goes through on the next
+    this.attempts.push(
+      { id: 1, hash: payment.hash, succeeded: false, amountMsat: payable.amountMsat, feeMsat: payable.feeMsat - 1000, hops: 3 },
+      { id: 2, hash: payment.hash, succeeded: true, amountMsat: payable.amountMsat, feeMsat: payable.feeMsat, hops: 2 }
+    )
+    return payment
+  }
+
+  // We pay one of our own invoices around a circle of channels, for a 2 sat fee
+  sendToSelf(bolt11: string, outgoingChanId: string, lastHopPubkey: string, maxFeeMsat: number): FakePayment | null {
+    const invoice = this.invoices.find(candidate => candidate.bolt11 === bolt11)
+    if (!invoice || maxFeeMsat < 2000) {
+      return null
+    }
+    this.receive(bolt11)
+    const payment = { hash: invoice.hash, preimage: preimageOf(invoice.addIndex), bolt11, amountMsat: invoice.amountMsat, feeMsat: 2000, createdAt: NOW }
+    this.payments.push(payment)
+    this.rebalances.push({ outgoingChanId, lastHopPubkey, amountMsat: invoice.amountMsat })
+    return payment
+  }
+
+  // What paying an invoice of someone else's decodes to
+  decode(bolt11: string): { hash: string; amountMsat: number; feeMsat: number } | null {
+    const payable = this.payable[bolt11]
+    return payable ? { hash: hashOf(this.preimageFor(bolt11)), ...payable } : null
+  }
+
+  private preimageFor(bolt11: string): string {
+    return preimageOf(100 + Object.keys(this.payable).indexOf(bolt11))
+  }
+
+  // A hold invoice for a hash whose preimage only the caller knows
+  addHoldInvoice(hash: string, amountMsat: number, description: string, expiry: number): FakeInvoice {
+    const invoice = this.addInvoice(amountMsat, description, expiry)
+    invoice.hash = hash
+    invoice.hold = 'open'
+    return invoice
+  }
+
+  // The payer's HTLC arrives and is held
+  accept(bolt11: string): void {
+    this.invoices.find(candidate => candidate.bolt11 === bolt11)!.hold = 'accepted'
+  }
+
+  settleHold(preimage: string): boolean {
+    const invoice = this.invoice(hashOf(preimage))
+    if (invoice?.hold !== 'accepted') {
+      return false
+    }
+    delete invoice.hold
+    this.receive(invoice.bolt11)
+    return true
+  }
+
+  cancelHold(hash: string): boolean {
+    const invoice = this.invoice(hash)
+    if (!invoice?.hold) {
+      return false
+    }
+    invoice.hold = 'canceled'
+    return true
+  }
+
+  connect(uri: string): boolean {
+    if (this.peers.includes(uri)) {
+      return false
+    }
+    this.peers.push(uri)
+    return true
+  }
+}
+
+function preimageOf(index: number): string {
+  return index.toString(16).padStart(64, '0')
+}
+
+function hashOf(preimage: string): string {
+  return bytesToHex(sha256(hexToBytes(preimage)))
+}
+
+function json(body: any, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+// LND's REST API: int64 fields as strings, hashes base64 in bodies and hex in paths
+async function lndApi(node: FakeNode, request: FakeRequest): Promise<Response> {
+  if (request.headers['Grpc-Metadata-macaroon'] !== SECRET) {
+    return json({ code: 2, message: 'verification failed: signature mismatch after caveat verification' }, 500)
+  }
+
+  const base64 = (hex: string) => Buffer.from(hex, 'hex').toString('base64')
+  const invoice = (raw: FakeInvoice) => ({
+    r_hash: base64(raw.hash),
+    payment_request: raw.bolt11,
+    value: String(raw.amountMsat / 1000),
+    memo: raw.description,
+    creation_date: String(raw.createdAt),
+    expiry: String(raw.expiry),
+    state: raw.settleIndex ? 'SETTLED' : raw.hold === 'accepted' ? 'ACCEPTED' : raw.hold === 'canceled' ? 'CANCELED' : 'OPEN',
+    amt_paid_sat: raw.settleIndex ? String(raw.amountMsat / 1000) : '0',
+    add_index: String(raw.addIndex),
+    settle_index: String(raw.settleIndex)
+  })
+  const payment = (raw: FakePayment) => ({
+    payment_hash: raw.hash,
+    value: String(raw.amountMsat / 1000),
+    creation_date: String(raw.createdAt),
+    fee: String(raw.feeMsat / 1000),
+    payment_preimage: raw.preimage,
+    value_sat: String(raw.amountMsat / 1000),
+    value_msat: String(raw.amountMsat),
+    payment_request: raw.bolt11,
+    status: 'SUCCEEDED',
+    fee_sat: String(raw.feeMsat / 1000),
+    fee_msat: String(raw.feeMsat),
+    creation_time_ns: String(raw.createdAt * 1000000000),
+    htlcs: []
+  })
+
+  const route = `${request.method} ${request.path}`
+  switch (route) {
+    case 'GET /v1/getinfo':
+      return json({
+        identity_pubkey: NODE_PUBKEY,
+        alias: 'fake',
+        color: '#3399ff',
+        num_peers: 1,
+        num_pending_channels: 0,
+        num_active_channels: 1,
+        num_inactive_channels: 0,
+        block_height: 2500000,
+        block_hash: 'dd'.repeat(32),
+        best_header_timestamp: String(NOW),
+        synced_to_chain: true,
+        chains: [{ chain: 'bitcoin', network: 'testnet' }]
+      })
+    case 'GET /v1/balance/blockchain':
+      return json({ total_balance: '51000000', confirmed_balance: '50000000', unconfirmed_balance: '1000000' })
+    case 'POST /v1/invoices': {
+      const created = node.addInvoice(Number(request.body.value) * 1000, request.body.memo, Number(request.body.expiry))
+      return json({ r_hash: base64(created.hash), payment_request: created.bolt11, add_index: String(created.addIndex) })
+    }
+    case 'POST /v2/router/send': {
+      if (request.body.allow_self_payment) {
+        const circled = node.sendToSelf(
+          request.body.payment_request,
+          request.body.outgoing_chan_ids[0],
+          Buffer.from(request.body.last_hop_pubkey, 'base64').toString('hex'),
+          Number(request.body.fee_limit_msat)
+        )
+        const update = circled ? payment(circled) : { payment_hash: '', status: 'FAILED', failure_reason: 'FAILURE_REASON_NO_ROUTE', htlcs: [] }
+        return new Response(`${JSON.stringify({ result: update })}\n`)
+      }
+
+      // An update per change to the payment's HTLCs, the last one final
+      const sent = node.send(request.body.payment_request, Number(request.body.fee_limit_msat))
+      const htlc = (attempt: FakeAttempt, status: string) => ({
+        attempt_id: String(attempt.id),
+        status,
+        route: {
+          total_amt_msat: String(attempt.amountMsat + attempt.feeMsat),
+          total_fees_msat: String(attempt.feeMsat),
+          hops: Array(attempt.hops).fill({})
+        },
+        failure: status === 'FAILED' ? { code: 'TEMPORARY_CHANNEL_FAILURE' } : null
+      })
+      const [failed, succeeded] = node.attempts
+      const updates = sent
+        ? [
+          { ...payment(sent), status: 'IN_FLIGHT', htlcs: [htlc(failed, 'IN_FLIGHT')] },
+          { ...payment(sent), status: 'IN_FLIGHT', htlcs: [htlc(failed, 'FAILED'), htlc(succeeded, 'IN_FLIGHT')] },
+          { ...payment(sent), htlcs: [htlc(failed, 'FAILED'), htlc(succeeded, 'SUCCEEDED')] }
+        ]
+        : [{ payment_hash: '', status: 'FAILED', failure_reason: 'FAILURE_REASON_NO_ROUTE', htlcs: [] }]
+      return new Response(updates.map(update => `${JSON.stringify({ result: update })}\n`).join(''))
+    }
+    case 'POST /v1/graph/routes': {
+      const payable = Object.values(node.payable).find(candidate => candidate.amountMsat === request.body.amt_msat)
+      if (!payable || payable.feeMsat > Number(request.body.fee_limit.fixed_msat)) {
+        return json({ code: 2, message: 'unable to find a path to destination' }, 500)
+      }
+      return json({
+        routes: [{
+          total_amt_msat: String(payable.amountMsat + payable.feeMsat),
+          total_fees_msat: String(payable.feeMsat),
+          hops: [{ pub_key: '02' + 'dd'.repeat(32) }, { pub_key: PEER_PUBKEY }]
+        }],
+        success_prob: 0.8
+      })
+    }
+    case 'GET /v1/payments':
+      return json({ payments: node.payments.map(payment) })
+    case 'GET /v1/channels':
+      return json({
+        channels: [{
+          active: true,
+          remote_pubkey: PEER_PUBKEY,
+          channel_point: `${FUNDING_TXID}:1`,
+          chan_id: '2748779069441',
+          capacity: '1000000',
+          local_balance: '600000',
+          remote_balance: '400000',
+          commit_fee: '2810',
+          commit_weight: '772',
+          fee_per_kw: '2500',
+          unsettled_balance: '0',
+          total_satoshis_sent: '0',
+          total_satoshis_received: '0',
+          num_updates: '3',
+          pending_htlcs: []
+        }]
+      })
+    case 'POST /v1/peers': {
+      const { pubkey, host } = request.body.addr
+      return node.connect(`${pubkey}@${host}`)
+        ? json({})
+        : json({ code: 2, message: `already connected to peer: ${pubkey}@${host}` }, 500)
+    }
+    case 'POST /v2/invoices/hodl': {
+      const hash = Buffer.from(request.body.hash, 'base64').toString('hex')
+      const created = node.addHoldInvoice(hash, Number(request.body.value) * 1000, request.body.memo, Number(request.body.expiry))
+      return json({ payment_request: created.bolt11, add_index: String(created.addIndex) })
+    }
+    case 'POST /v2/invoices/settle':
+      return node.settleHold(Buffer.from(request.body.preimage, 'base64').toString('hex'))
+        ? json({})
+        : json({ code: 2, message: 'invoice still open' }, 500)
+    case 'POST /v2/invoices/cancel':
+      return node.cancelHold(Buffer.from(request.body.payment_hash, 'base64').toString('hex'))
+        ? json({})
+        : json({ code: 5, message: 'unable to locate invoice' }, 500)
+    case 'GET /v1/invoices/subscribe':
+      return new Response(invoiceStream(node, Number(request.query.get('settle_index')), invoice, request.signal))
+  }
+
+  if (request.method === 'GET' && request.path.startsWith('/v1/payreq/')) {
+    const decoded = node.decode(request.path.split('/').pop()!)
+    return decoded
+      ? json({
+        destination: PEER_PUBKEY,
+        payment_hash: decoded.hash,
+        num_satoshis: String(decoded.amountMsat / 1000),
+        num_msat: String(decoded.amountMsat),
+        cltv_expiry: '18',
+        route_hints: [],
+        features: { 9: { name: 'tlv-onion', is_required: false, is_known: true } }
+      })
+      : json({ code: 2, message: 'invalid index of data part' }, 500)
+  }
+  if (request.method === 'GET' && request.path.startsWith('/v1/invoice/')) {
+    const found = node.invoice(request.path.split('/').pop()!)
+    return found ? json(invoice(found)) : json({ code: 5, message: 'unable to locate invoice' }, 404)
+  }
+  return json({ code: 12, message: 'Not Implemented' }, 501)
+}
+
+// Newline-delimited {result} messages, replaying settlements after settle_index first
+function invoiceStream(
+  node: FakeNode,
+  settleIndex: number,
+  invoice: (raw: FakeInvoice) => any,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      const push = (raw: FakeInvoice) => controller.enqueue(encoder.encode(`${JSON.stringify({ result: invoice(raw) })}\n`))
+      node.invoices.filter(raw => raw.settleIndex > settleIndex).forEach(push)
+      const stop = node.onSettle(push)
+      node.subscribed = true
+
+      signal?.addEventListener('abort', () => {
+        stop()
+        controller.error(new Error('aborted'))
+      })
+    }
+  })
+}
+
+// Core Lightning's clnrest: POST /v1/<command> with JSON params; errors are a 500 with the JSON-RPC error
+async function clnApi(node: FakeNode, request: FakeRequest): Promise<Response> {
+  if (request.headers.Rune !== SECRET) {
+    return json({ code: 1501, message: 'Not authorized: Not derived from master' }, 401)
+  }
+
+  const invoice = (raw: FakeInvoice) => ({
+    label: `label-${raw.addIndex}`,
+    bolt11: raw.bolt11,
+    payment_hash: raw.hash,
+    amount_msat: raw.amountMsat,
+    status: raw.settleIndex ? 'paid' : 'unpaid',
+    description: raw.description,
+    expires_at: raw.createdAt + raw.expiry,
+    created_index: raw.addIndex,
+    ...(raw.settleIndex ? { pay_index: raw.settleIndex, amount_received_msat: raw.amountMsat, paid_at: NOW } : {})
+  })
+
+  const params = request.body
+  switch (request.path.replace(/^\/v1\//, '')) {
+    case 'getinfo':
+      return json({
+        id: NODE_PUBKEY,
+        alias: 'fake',
+        color: '3399ff',
+        num_peers: 1,
+        num_pending_channels: 0,
+        num_active_channels: 1,
+        num_inactive_channels: 0,
+        blockheight: 2500000,
+        network: 'testnet'
+      })
+    case 'listfunds':
+      return json({
+        outputs: [
+          { txid: 'ee'.repeat(32), output: 0, amount_msat: 50000000000, status: 'confirmed', reserved: false },
+          { txid: 'ee'.repeat(32), output: 1, amount_msat: 1000000000, status: 'unconfirmed', reserved: false },
+          { txid: 'ff'.repeat(32), output: 0, amount_msat: 7000000000, status: 'confirmed', reserved: true }
+        ],
+        channels: []
+      })
+    case 'invoice': {
+      const created = node.addInvoice(params.amount_msat, params.description, params.expiry)
+      return json({
+        payment_hash: created.hash,
+        bolt11: created.bolt11,
+        expires_at: created.createdAt + created.expiry,
+        created_index: created.addIndex
+      })
+    }
+    case 'listinvoices': {
+      const invoices = params.payment_hash ? node.invoices.filter(raw => raw.hash === params.payment_hash) : node.invoices
+      return json({ invoices: invoices.map(invoice) })
+    }
+    case 'waitanyinvoice':
+      return new Promise<Response>((resolve, reject) => {
+        const paid = node.invoices.find(raw => raw.settleIndex > params.lastpay_index)
+        if (paid) {
+          resolve(json(invoice(paid)))
+          return
+        }
+        const stop = node.onSettle(raw => {
+          stop()
+          resolve(json(invoice(raw)))
+        })
+        node.subscribed = true
+        request.signal?.addEventListener('abort', () => {
+          stop()
+          reject(new Error('aborted'))
+        })
+      })
+    case 'pay': {
+      const amountMsat = node.payable[params.bolt11]?.amountMsat || 0
+      const maxFeeMsat = params.maxfee ?? amountMsat * (params.maxfeepercent ?? 0.5) / 100 + (params.exemptfee ?? 5000)
+      const sent = node.send(params.bolt11, maxFeeMsat)
+      return sent
+        ? json({
+          payment_hash: sent.hash,
+          payment_preimage: sent.preimage,
+          amount_msat: sent.amountMsat,
+          amount_sent_msat: sent.amountMsat + sent.feeMsat,
+          created_at: sent.createdAt,
+          parts: 1,
+          status: 'complete'
+        })
+        : json({ code: 210, message: 'Ran out of routes to try after 1 attempt' }, 500)
+    }
+    case 'listsendpays': {
+      const hash = node.decode(params.bolt11)?.hash
+      return json({
+        payments: node.attempts.filter(attempt => attempt.hash === hash).map(attempt => ({
+          created_index: attempt.id,
+          id: attempt.id,
+          groupid: 1,
+          partid: attempt.id,
+          payment_hash: attempt.hash,
+          status: attempt.succeeded ? 'complete' : 'failed',
+          amount_msat: attempt.amountMsat,
+          amount_sent_msat: attempt.amountMsat + attempt.feeMsat,
+          bolt11: params.bolt11
+        }))
+      })
+    }
+    case 'decode': {
+      const decoded = node.decode(params.string)
+      return decoded
+        ? json({
+          type: 'bolt11 invoice',
+          valid: true,
+          payee: PEER_PUBKEY,
+          amount_msat: decoded.amountMsat,
+          payment_hash: decoded.hash,
+          min_final_cltv_expiry: 18
+        })
+        : json({ code: -32602, message: 'string: Unparsable invoice' }, 500)
+    }
+    case 'getroutes': {
+      const payable = Object.values(node.payable).find(candidate => candidate.amountMsat === params.amount_msat)
+      if (params.source !== NODE_PUBKEY || !payable || payable.feeMsat > params.maxfee_msat) {
+        return json({ code: 205, message: 'Could not find route without excessive cost' }, 500)
+      }
+      return json({
+        probability_ppm: 800000,
+        routes: [{
+          probability_ppm: 800000,
+          amount_msat: payable.amountMsat,
+          final_cltv: params.final_cltv,
+          path: [
+            { short_channel_id_dir: '2500000x1x1/0', next_node_id: '02' + 'dd'.repeat(32), amount_msat: payable.amountMsat + payable.feeMsat, delay: 58 },
+            { short_channel_id_dir: '2400000x7x0/1', next_node_id: PEER_PUBKEY, amount_msat: payable.amountMsat, delay: 18 }
+          ]
+        }]
+      })
+    }
+    case 'listpays':
+      return json({
+        pays: node.payments.map(payment => ({
+          bolt11: payment.bolt11,
+          payment_hash: payment.hash,
+          status: 'complete',
+          created_at: payment.createdAt,
+          preimage: payment.preimage,
+          amount_msat: payment.amountMsat,
+          amount_sent_msat: payment.amountMsat + payment.feeMsat
+        }))
+      })
+    case 'listpeerchannels':
+      return json({
+        channels: [{
+          peer_id: PEER_PUBKEY,
+          peer_connected: true,
+          state: 'CHANNELD_NORMAL',
+          short_channel_id: '2500000x1x1',
+          funding_txid: FUNDING_TXID,
+          funding_outnum: 1,
+          feerate: { perkw: 2500, perkb: 10000 },
+          total_msat: 1000000000,
+          to_us_msat: 600000000,
+          in_fulfilled_msat: 0,
+          out_fulfilled_msat: 0,
+          htlcs: []
+        }]
+      })
+    case 'connect':
+      node.connect(params.id)
+      return json({ id: params.id.split('@')[0], features: '', direction: 'out', address: {} })
+    // Boltz's hold plugin
+    case 'holdinvoice':
+      return json({ bolt11: node.addHoldInvoice(params.payment_hash, params.amount, params.description, params.expiry).bolt11 })
+    case 'listholdinvoices': {
+      const states = { open: 'unpaid', accepted: 'accepted', canceled: 'cancelled' }
+      return json({
+        holdinvoices: node.invoices
+          .filter(raw => raw.hash === params.payment_hash && (raw.hold || raw.settleIndex))
+          .map(raw => ({ payment_hash: raw.hash, bolt11: raw.bolt11, state: raw.hold ? states[raw.hold] : 'paid' }))
+      })
+    }
+    case 'settleholdinvoice':
+      return node.settleHold(params.preimage) ? json({}) : json({ code: -1, message: 'invoice is not accepted' }, 500)
+    case 'cancelholdinvoice':
+      return node.cancelHold(params.payment_hash) ? json({}) : json({ code: -1, message: 'no such invoice' }, 500)
+  }
+  return json({ code: -32601, message: `Unknown command '${request.path}'` }, 500)
+}
+
+// Eclair's API: form-encoded POST /<method> with the password as basic auth
+async function eclairApi(node: FakeNode, request: FakeRequest): Promise<Response> {
+  if (request.headers.Authorization !== `Basic ${btoa(`:${SECRET}`)}`) {
+    return new Response('The supplied authentication is invalid', { status: 401 })
+  }
+
+  const invoice = (raw: FakeInvoice) => ({
+    prefix: 'lntb',
+    timestamp: raw.createdAt,
+    nodeId: NODE_PUBKEY,
+    serialized: raw.bolt11,
+    description: raw.description,
+    paymentHash: raw.hash,
+    expiry: raw.expiry,
+    amount: raw.amountMsat
+  })
+  const payment = (raw: FakePayment) => ({
+    type: 'payment-sent',
+    id: `payment-${raw.hash.slice(0, 8)}`,
+    paymentHash: raw.hash,
+    paymentPreimage: raw.preimage,
+    recipientAmount: raw.amountMsat,
+    recipientNodeId: PEER_PUBKEY,
+    parts: [{
+      id: 'part-1',
+      amount: raw.amountMsat,
+      feesPaid: raw.feeMsat,
+      toChannelId: 'ab'.repeat(32),
+      timestamp: { iso: new Date(raw.createdAt * 1000).toISOString(), unix: raw.createdAt }
+    }]
+  })
+
+  const params: URLSearchParams = request.body
+  switch (request.path.slice(1)) {
+    case 'getinfo':
+      return json({ version: '0.10.0', nodeId: NODE_PUBKEY, alias: 'fake', color: '#3399ff', network: 'testnet', blockHeight: 2500000 })
+    case 'peers':
+      return json([{ nodeId: PEER_PUBKEY, state: 'CONNECTED', address: 'peer.test:9735', channels: 1 }])
+    case 'channels':
+      return json([{
+        nodeId: PEER_PUBKEY,
+        channelId: 'ab'.repeat(32),
+        state: 'NORMAL',
+        data: {
+          shortIds: { real: { status: 'final', realScid: '2500000x1x1' } },
+          commitments: {
+            active: [{
+              fundingTx: { outPoint: `${FUNDING_TXID}:1`, amountSatoshis: 1000000 },
+              localCommit: { index: 3, spec: { htlcs: [], commitTxFeerate: 2500, toLocal: 600000000, toRemote: 400000000 } }
+            }]
+          }
+        }
+      }])
+    case 'onchainbalance':
+      return json({ confirmed: 50000000, unconfirmed: 1000000 })
+    case 'createinvoice':
+      return json(invoice(node.addInvoice(Number(params.get('amountMsat')), params.get('description')!, Number(params.get('expireIn')))))
+    case 'getreceivedinfo': {
+      const found = node.invoice(params.get('paymentHash')!)
+      if (!found) {
+        return json({ error: 'Not found' }, 404)
+      }
+      return json({
+        paymentRequest: invoice(found),
+        paymentPreimage: preimageOf(found.addIndex),
+        paymentType: 'Standard',
+        createdAt: { iso: new Date(found.createdAt * 1000).toISOString(), unix: found.createdAt },
+        status: found.settleIndex ? { type: 'received', amount: found.amountMsat, receivedAt: { unix: NOW } } : { type: 'pending' }
+      })
+    }
+    case 'listpendinginvoices':
+      node.subscribed = true
+      return json(node.invoices.filter(raw => !raw.settleIndex).map(invoice))
+    case 'listinvoices':
+      return json(node.invoices.filter(raw => raw.createdAt >= Number(params.get('from') || 0)).map(invoice))
+    case 'payinvoice': {
+      // The higher of the two limits applies
+      const amountMsat = node.payable[params.get('invoice')!]?.amountMsat || 0
+      const maxFeeMsat = Math.max(Number(params.get('maxFeeFlatSat')) * 1000, amountMsat * Number(params.get('maxFeePct')) / 100)
+      const sent = node.send(params.get('invoice')!, maxFeeMsat)
+      return json(sent ? payment(sent) : {
+        type: 'payment-failed',
+        id: 'failed-1',
+        paymentHash: '',
+        failures: [{ failureType: 'LOCAL', failureMessage: 'route not found' }]
+      })
+    }
+    case 'parseinvoice': {
+      const decoded = node.decode(params.get('invoice')!)
+      return decoded
+        ? json({ prefix: 'lntb', timestamp: NOW, nodeId: PEER_PUBKEY, serialized: params.get('invoice'), paymentHash: decoded.hash, amount: decoded.amountMsat })
+        : json({ error: 'invalid payment request' }, 400)
+    }
+    case 'getsentinfo':
+      return json(node.attempts.filter(attempt => attempt.hash === params.get('paymentHash')).map(attempt => ({
+        id: `part-${attempt.id}`,
+        parentId: `payment-${attempt.hash.slice(0, 8)}`,
+        paymentHash: attempt.hash,
+        paymentType: 'Standard',
+        amount: attempt.amountMsat,
+        recipientAmount: attempt.amountMsat,
+        recipientNodeId: PEER_PUBKEY,
+        createdAt: { iso: new Date(NOW * 1000).toISOString(), unix: NOW },
+        status: attempt.succeeded
+          ? { type: 'sent', feesPaid: attempt.feeMsat, route: Array(attempt.hops).fill({}), completedAt: { unix: NOW } }
+          : { type: 'failed', failures: [{ failureType: 'REMOTE', failureMessage: 'TemporaryChannelFailure' }], completedAt: { unix: NOW } }
+      })))
+    case 'audit':
+      return json({ sent: node.payments.map(payment), received: [], relayed: [] })
+    case 'connect':
+      return json(node.connect(params.get('uri')!) ? 'connected' : 'already connected')
+  }
+  return json({ error: `Unknown method ${request.path}` }, 404)
+}
+
+// Name, service with the given credential, its API on the fake node, whether it has hold invoices, probes, rebalances
+type Backend = [string, (secret: string) => LightningService, (node: FakeNode, request: FakeRequest) => Promise<Response>, boolean, boolean, boolean]
+
+const BACKENDS: Backend[] = [
+  ['LND', secret => new LightningServiceImplementation(NODE_URL, secret, 'cert'), lndApi, true, true, true],
+  ['Core Lightning', secret => new CoreLightningService({ url: NODE_URL, rune: secret, pollIntervalMs: 10 }), clnApi, true, true, false],
+  ['Eclair', secret => new EclairService({ url: NODE_URL, password: secret, pollIntervalMs: 10 }), eclairApi, false, false, false]
+]
+
+const CHANNEL_REQUEST: LnurlChannelRequest = {
+  tag: 'channelRequest',
+  url: 'https://lsp.test/channel',
+  domain: 'lsp.test',
+  uri: `${PEER_PUBKEY}@peer.test:9735`,
+  callback: 'https://lsp.test/channel/open',
+  k1: 'k1-secret'
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; !condition(); attempt++) {
+    if (attempt > 200) {
+      throw new Error('Timed out waiting')
+    }
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+describe.each(BACKENDS)('%s LightningService conformance', (_name: string, create: Backend[1], api: Backend[2], holdInvoices: boolean, probing: boolean, rebalancing: boolean) => {
+  let node: FakeNode
+  let service: LightningService
+
+  beforeEach(() => {
+    node = new FakeNode()
+    node.payable.lntb50u1peer = { amountMsat: 5000000, feeMsat: 3000 }
+    service = create(SECRET)
+
+    global.fetch = jest.fn(async (input: any, init: any = {}) => {
+      const url = new URL(String(input))
+      if (url.origin === 'https://lsp.test') {
+        node.channelRequests.push(url.searchParams)
+        return json({ status: 'OK' })
+      }
+
+      const type = init.headers?.['Content-Type']
+      const body = type === 'application/x-www-form-urlencoded'
+        ? new URLSearchParams(init.body)
+        : init.body ? JSON.parse(init.body) : undefined
+      return api(node, {
+        method: init.method || 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: init.headers || {},
+        body,
+        signal: init.signal
+      })
+    }) as any
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should describe the node', async () => {
+    const info = await service.getNodeInfo()
+
+    expect(info).toMatchObject({
+      identity_pubkey: NODE_PUBKEY,
+      alias: 'fake',
+      num_peers: 1,
+      num_active_channels: 1,
+      block_height: 2500000,
+      synced_to_chain: true,
+      testnet: true
+    })
+  })
+
+  it('should report the on-chain balance in BTC', async () => {
+    await expect(service.getBalance()).resolves.toEqual({ balance: 0.5, pending_balance: 0.01 })
+  })
+
+  it('should create invoices and see them paid', async () => {
+    const invoice = await service.createInvoice(0.0001, 'Vault deposit')
+
+    expect(invoice).toMatchObject({ bolt11: 'lntb1fake1', amount: 0.0001, memo: 'Vault deposit', status: 'pending' })
+    expect(invoice.expiry.getTime() - invoice.timestamp.getTime()).toBe(3600 * 1000)
+
+    node.receive(invoice.bolt11)
+
+    await expect(service.getInvoice(invoice.paymentHash)).resolves.toMatchObject({
+      paymentHash: invoice.paymentHash,
+      bolt11: 'lntb1fake1',
+      amount: 0.0001,
+      status: 'paid'
+    })
+  })
+
+  it('should report invoices settling while subscribed', async () => {
+    const invoice = await service.createInvoice(0.0001)
+    const events: LightningInvoiceEvent[] = []
+    const unsubscribe = service.subscribeInvoices(event => events.push(event))
+
+    try {
+      await until(() => node.subscribed)
+      await new Promise(resolve => setTimeout(resolve, 20))
+      node.receive(invoice.bolt11)
+      await until(() => events.length > 0)
+    } finally {
+      unsubscribe()
+    }
+
+    expect(events).toEqual([expect.objectContaining({
+      type: 'settled',
+      invoice: expect.objectContaining({ paymentHash: invoice.paymentHash, status: 'paid' }),
+      amountPaid: 0.0001,
+      settleIndex: 1
+    })])
+  })
+
+  it('should pay invoices and list the payment', async () => {
+    const payment = await service.payInvoice('lntb50u1peer')
+    const sent = node.payments[0]
+
+    const expected = {
+      payment_hash: sent.hash,
+      payment_preimage: sent.preimage,
+      value_sat: 5000,
+      fee_sat: 3,
+      status: 'SUCCEEDED'
+    }
+    expect(payment).toMatchObject(expected)
+    expect(await service.listPayments()).toEqual([expect.objectContaining(expected)])
+  })
+
+  it('should fail payments that find no route', async () => {
+    await expect(service.payInvoice('lntb1unroutable')).rejects.toMatchObject({ code: 'LIGHTNING_PAYMENT_FAILED' })
+  })
+
+  it('should keep payments within their fee limit, fixed or in ppm', async () => {
+    // The route costs 3 sats, 600 ppm of the 5000 sats paid
+    await expect(service.payInvoice('lntb50u1peer', { feeLimit: { fixed: 2 } })).rejects.toMatchObject({ code: 'LIGHTNING_PAYMENT_FAILED' })
+    await expect(service.payInvoice('lntb50u1peer', { feeLimit: { ppm: 500 } })).rejects.toMatchObject({ code: 'LIGHTNING_PAYMENT_FAILED' })
+    expect(node.payments).toEqual([])
+
+    await expect(service.payInvoice('lntb50u1peer', { feeLimit: { ppm: 1000 } })).resolves.toMatchObject({ fee_sat: 3, status: 'SUCCEEDED' })
+  })
+
+  it('should report the HTLC attempts a payment makes', async () => {
+    const progress: PaymentProgress[] = []
+    await service.payInvoice('lntb50u1peer', { onProgress: update => progress.push(update) })
+    const sent = node.payments[0]
+
+    expect(progress.slice(0, -1).every(update => update.status === 'in_flight')).toBe(true)
+    expect(progress[progress.length - 1]).toEqual({
+      paymentHash: sent.hash,
+      status: 'succeeded',
+      attempts: [
+        expect.objectContaining({ status: 'failed', amountSat: 5000 }),
+        expect.objectContaining({ status: 'succeeded', amountSat: 5000, feeSat: 3 })
+      ]
+    })
+  })
+
+  if (probing) {
+    it('should find the route and its fee without paying', async () => {
+      await expect(service.probePayment('lntb50u1peer')).resolves.toEqual({
+        amountSat: 5000,
+        feeSat: 3,
+        successProbability: 0.8,
+        hops: 2
+      })
+      await expect(service.probePayment('lntb50u1peer', { fixed: 2 })).rejects.toMatchObject({ code: 'LIGHTNING_PROBE_FAILED' })
+      expect(node.payments).toEqual([])
+    })
+  } else {
+    it('should refuse to probe', async () => {
+      await expect(service.probePayment('lntb50u1peer')).rejects.toMatchObject({ code: 'LIGHTNING_PROBE_UNSUPPORTED' })
+    })
+  }
+
+  it('should list channels with balances in sats', async () => {
+    const channels = await service.getChannels()
+
+    expect(channels).toEqual([expect.objectContaining({
+      active: true,
+      remote_pubkey: PEER_PUBKEY,
+      channel_point: `${FUNDING_TXID}:1`,
+      capacity: 1000000,
+      local_balance: 600000,
+      remote_balance: 400000,
+      pending_htlcs: []
+    })])
+  })
+
+  if (rebalancing) {
+    it('should rebalance by paying itself out over one channel and in over another', async () => {
+      const payment = await service.rebalanceChannels('1099511627777', '2748779069441', 50000, { feeLimit: { fixed: 5 } })
+
+      expect(node.rebalances).toEqual([{ outgoingChanId: '1099511627777', lastHopPubkey: PEER_PUBKEY, amountMsat: 50000000 }])
+      expect(node.invoices[0].description).toBe(REBALANCE_MEMO)
+      expect(payment).toMatchObject({ payment_hash: node.invoices[0].hash, value_sat: 50000, fee_sat: 2 })
+    })
+
+    it('should not rebalance beyond the fee limit or into an unknown channel', async () => {
+      await expect(service.rebalanceChannels('1099511627777', '2748779069441', 50000, { feeLimit: { fixed: 1 } }))
+        .rejects.toMatchObject({ code: 'LIGHTNING_REBALANCE_FAILED' })
+      await expect(service.rebalanceChannels('1099511627777', '1', 50000))
+        .rejects.toMatchObject({ code: 'LIGHTNING_REBALANCE_FAILED', message: 'No channel 1' })
+      expect(node.rebalances).toEqual([])
+    })
+  } else {
+    it('should refuse to rebalance', async () => {
+      await expect(service.rebalanceChannels('1099511627777', '2748779069441', 50000))
+        .rejects.toMatchObject({ code: 'LIGHTNING_REBALANCE_UNSUPPORTED' })
+    })
+  }
+
+  it('should connect to an LNURL-channel node and ask it for a channel, even when already connected', async () => {
+    await service.requestLnurlChannel(CHANNEL_REQUEST)
+    await service.requestLnurlChannel(CHANNEL_REQUEST, true)
+
+    expect(node.peers).toEqual([CHANNEL_REQUEST.uri])
+    expect(node.channelRequests.map(query => [query.get('k1'), query.get('remoteid'), query.get('private')])).toEqual([
+      ['k1-secret', NODE_PUBKEY, '0'],
+      ['k1-secret', NODE_PUBKEY, '1']
+    ])
+  })
+
+  const preimage = preimageOf(200)
+  const paymentHash = hashOf(preimage)
+
+  if (holdInvoices) {
+    it('should hold the HTLC on a hold invoice until it is settled with the preimage', async () => {
+      const invoice = await service.createHoldInvoice(paymentHash, 0.0002, { memo: 'Conditional deposit', expiry: 600 })
+
+      expect(invoice).toMatchObject({ paymentHash, amount: 0.0002, memo: 'Conditional deposit', status: 'pending' })
+      expect(invoice.expiry.getTime() - invoice.timestamp.getTime()).toBe(600 * 1000)
+      await expect(service.getHoldInvoiceState(paymentHash)).resolves.toBe('open')
+      await expect(service.settleHoldInvoice(preimage)).rejects.toMatchObject({ code: 'LIGHTNING_HOLD_INVOICE_SETTLE_FAILED' })
+
+      node.accept(invoice.bolt11)
+      await expect(service.getHoldInvoiceState(paymentHash)).resolves.toBe('accepted')
+
+      await service.settleHoldInvoice(preimage)
+      await expect(service.getHoldInvoiceState(paymentHash)).resolves.toBe('settled')
+    })
+
+    it('should give the HTLC back when a hold invoice is canceled', async () => {
+      const invoice = await service.createHoldInvoice(paymentHash, 0.0002)
+      node.accept(invoice.bolt11)
+
+      await service.cancelHoldInvoice(paymentHash)
+
+      await expect(service.getHoldInvoiceState(paymentHash)).resolves.toBe('canceled')
+    })
+  } else {
+    it('should refuse hold invoices', async () => {
+      await expect(service.createHoldInvoice(paymentHash, 0.0002)).rejects.toMatchObject({ code: 'LIGHTNING_HOLD_INVOICE_UNSUPPORTED' })
+    })
+  }
+
+  it('should turn away requests without the right credentials', async () => {
+    const intruder = create('wrong')
+
+    await expect(intruder.getNodeInfo()).rejects.toMatchObject({ code: 'LIGHTNING_NODE_INFO_FAILED' })
+  })
+})
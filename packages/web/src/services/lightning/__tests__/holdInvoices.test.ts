@@ -0,0 +1,344 @@
+/**
+ * @jest-environment node
+ */
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import { HoldInvoiceOrchestrator, MemoryConditionalDepositStore } from '../holdInvoices'
+import { ConditionalDeposit, HoldInvoiceState, LightningService } from '@/types/atomiq'
+import { LightningInvoice } from '@/types/vault'
+
+// A node that only knows hold invoices; tests move the HTLCs along with `pay`
+class FakeHoldNode {
+  states: Map<string, HoldInvoiceState> = new Map()
+
+  createHoldInvoice = jest.fn(async (paymentHash: string, amount: number): Promise<LightningInvoice> => {
+    this.states.set(paymentHash, 'open')
+    return {
+      paymentHash,
+      bolt11: `lntb${paymentHash.slice(0, 8)}`,
+      amount,
+      memo: '',
+      status: 'pending',
+      timestamp: new Date(),
+      expiry: new Date(Date.now() + 3600 * 1000)
+    }
+  })
+
+  getHoldInvoiceState = jest.fn(async (paymentHash: string) => this.states.get(paymentHash)!)
+
+  settleHoldInvoice = jest.fn(async (preimage: string) => {
+    const paymentHash = bytesToHex(sha256(hexToBytes(preimage)))
+    if (this.states.get(paymentHash) !== 'accepted') {
+      throw new Error('invoice is not accepted')
+    }
+    this.states.set(paymentHash, 'settled')
+  })
+
+  cancelHoldInvoice = jest.fn(async (paymentHash: string) => {
+    this.states.set(paymentHash, 'canceled')
+  })
+
+  pay(paymentHash: string): void {
+    this.states.set(paymentHash, 'accepted')
+  }
+}
+
+describe('HoldInvoiceOrchestrator', () => {
+  let node: FakeHoldNode
+  let router: {
+    createPayment: jest.Mock
+    completePayment: jest.Mock
+    refundPayment: jest.Mock
+    getPaymentStatus: jest.Mock
+    getPaymentProof: jest.Mock
+  }
+  let orchestrator: HoldInvoiceOrchestrator
+
+  beforeEach(() => {
+    node = new FakeHoldNode()
+    router = {
+      createPayment: jest.fn().mockResolvedValue('7'),
+      completePayment: jest.fn().mockResolvedValue('0xc0ffee'),
+      refundPayment: jest.fn().mockResolvedValue('0xdead'),
+      getPaymentStatus: jest.fn().mockResolvedValue('pending'),
+      getPaymentProof: jest.fn().mockResolvedValue('0x0')
+    }
+    orchestrator = new HoldInvoiceOrchestrator(node as unknown as LightningService, router, { completeTimeoutMs: 50 })
+  })
+
+  afterEach(() => {
+    orchestrator.stop()
+  })
+
+  const preimageOf = () => router.completePayment.mock.calls[0][1].slice(2)
+
+  it('should tie a hold invoice to a PaymentRouter payment', async () => {
+    const deposit = await orchestrator.create(0.0005, 'Vault deposit')
+
+    const [paymentHash, amount, options] = node.createHoldInvoice.mock.calls[0]
+    expect(amount).toBe(0.0005)
+    expect(options).toMatchObject({ memo: 'Vault deposit', expiry: 3600 })
+    expect(router.createPayment).toHaveBeenCalledWith(50000, `0x${paymentHash.slice(0, 62)}`, deposit.invoice.expiry)
+    expect(deposit).toMatchObject({ paymentId: '7', amount: 0.0005, status: 'awaiting_payment' })
+    expect(deposit.invoice.paymentHash).toBe(paymentHash)
+  })
+
+  it('should cancel the invoice when the payment cannot be created', async () => {
+    router.createPayment.mockRejectedValue(new Error('insufficient fee'))
+
+    await expect(orchestrator.create(0.0005)).rejects.toThrow('insufficient fee')
+
+    expect(node.cancelHoldInvoice).toHaveBeenCalledWith(node.createHoldInvoice.mock.calls[0][0])
+    expect(orchestrator.listDeposits()).toEqual([])
+  })
+
+  it('should leave the invoice alone until it is paid', async () => {
+    await orchestrator.create(0.0005)
+
+    await orchestrator.refresh()
+
+    expect(router.completePayment).not.toHaveBeenCalled()
+    expect(orchestrator.listDeposits()[0].status).toBe('awaiting_payment')
+  })
+
+  it('should complete the payment with the preimage as proof before settling the HTLC', async () => {
+    const deposit = await orchestrator.create(0.0005)
+    const updates: ConditionalDeposit[] = []
+    orchestrator.subscribe(update => updates.push(update))
+    node.pay(deposit.invoice.paymentHash)
+
+    await orchestrator.refresh()
+
+    const [paymentId, proof] = router.completePayment.mock.calls[0]
+    expect(paymentId).toBe('7')
+    expect(bytesToHex(sha256(hexToBytes(proof.slice(2))))).toBe(deposit.invoice.paymentHash)
+    // Fits a felt252
+    expect(BigInt(proof) < BigInt(2) ** BigInt(251)).toBe(true)
+    expect(node.settleHoldInvoice).toHaveBeenCalledWith(proof.slice(2))
+    expect(node.states.get(deposit.invoice.paymentHash)).toBe('settled')
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'completed', completeTxHash: '0xc0ffee' })
+    expect(updates.map(update => update.status)).toEqual(['held', 'held', 'completed'])
+  })
+
+  it('should give the HTLC back when complete_payment fails', async () => {
+    router.completePayment.mockRejectedValue({ code: 'PAYMENT_ROUTER_COMPLETE_FAILED', message: 'Payment not pending' })
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+
+    await orchestrator.refresh()
+
+    expect(node.settleHoldInvoice).not.toHaveBeenCalled()
+    expect(node.cancelHoldInvoice).toHaveBeenCalledWith(deposit.invoice.paymentHash)
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'canceled', error: 'Payment not pending' })
+  })
+
+  it('should refund the router payment before giving the HTLC back', async () => {
+    router.completePayment.mockRejectedValue(new Error('out of gas'))
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+
+    await orchestrator.refresh()
+
+    expect(router.refundPayment).toHaveBeenCalledWith('7', 'htlc returned')
+    expect(router.refundPayment.mock.invocationCallOrder[0]).toBeLessThan(node.cancelHoldInvoice.mock.invocationCallOrder[0])
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'canceled', refundTxHash: '0xdead' })
+  })
+
+  it('should keep holding the HTLC until the refund goes through', async () => {
+    router.completePayment.mockRejectedValue(new Error('out of gas'))
+    router.refundPayment.mockRejectedValueOnce(new Error('nonce too low'))
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+
+    await orchestrator.refresh()
+
+    expect(node.cancelHoldInvoice).not.toHaveBeenCalled()
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'held', error: expect.stringMatching(/nonce too low/) })
+
+    await orchestrator.refresh()
+
+    expect(node.cancelHoldInvoice).toHaveBeenCalledWith(deposit.invoice.paymentHash)
+    expect(orchestrator.getDeposit(deposit.id)!.status).toBe('canceled')
+  })
+
+  it('should settle instead when a slow complete_payment lands before the refund', async () => {
+    router.completePayment.mockReturnValue(new Promise(() => undefined))
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+    await orchestrator.refresh()
+
+    const heldAt = orchestrator.getDeposit(deposit.id)!.heldAt!.getTime()
+    jest.spyOn(Date, 'now').mockReturnValue(heldAt + 12 * 10 * 60 * 1000)
+    router.refundPayment.mockRejectedValue(new Error('Payment is not pending'))
+    router.getPaymentStatus.mockResolvedValueOnce('pending').mockResolvedValueOnce('pending').mockResolvedValue('completed')
+    try {
+      await orchestrator.refresh()
+    } finally {
+      jest.restoreAllMocks()
+    }
+
+    expect(node.cancelHoldInvoice).not.toHaveBeenCalled()
+    expect(node.states.get(deposit.invoice.paymentHash)).toBe('settled')
+    expect(orchestrator.getDeposit(deposit.id)!.status).toBe('completed')
+  })
+
+  it('should hold the HTLC while a slow payment is pending, and give it back near the CLTV expiry', async () => {
+    router.completePayment.mockReturnValue(new Promise(() => undefined))
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+
+    await orchestrator.refresh()
+    await orchestrator.refresh()
+
+    expect(node.cancelHoldInvoice).not.toHaveBeenCalled()
+    expect(router.completePayment).toHaveBeenCalledTimes(1)
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'held', error: expect.stringMatching(/within/) })
+
+    // 18 blocks by default, given back 6 blocks early
+    const heldAt = orchestrator.getDeposit(deposit.id)!.heldAt!.getTime()
+    jest.spyOn(Date, 'now').mockReturnValue(heldAt + 12 * 10 * 60 * 1000)
+    try {
+      await orchestrator.refresh()
+    } finally {
+      jest.restoreAllMocks()
+    }
+
+    expect(node.cancelHoldInvoice).toHaveBeenCalledWith(deposit.invoice.paymentHash)
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'canceled', error: expect.stringMatching(/CLTV/) })
+  })
+
+  it('should give the HTLC back once a slow payment fails', async () => {
+    router.completePayment.mockReturnValue(new Promise(() => undefined))
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+    await orchestrator.refresh()
+
+    router.getPaymentStatus.mockResolvedValue('refunded')
+    await orchestrator.refresh()
+
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'canceled', error: 'The PaymentRouter payment is refunded' })
+  })
+
+  it('should still settle when a timed out payment completed after all', async () => {
+    router.completePayment.mockReturnValue(new Promise(() => undefined))
+    router.getPaymentStatus.mockResolvedValue('completed')
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+
+    await orchestrator.refresh()
+
+    expect(node.cancelHoldInvoice).not.toHaveBeenCalled()
+    expect(node.states.get(deposit.invoice.paymentHash)).toBe('settled')
+    expect(orchestrator.getDeposit(deposit.id)!.status).toBe('completed')
+  })
+
+  it('should retry settling without completing the payment again', async () => {
+    const deposit = await orchestrator.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+    node.settleHoldInvoice.mockRejectedValueOnce(new Error('node unreachable'))
+
+    await orchestrator.refresh()
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'held', error: 'node unreachable' })
+
+    await orchestrator.refresh()
+    expect(router.completePayment).toHaveBeenCalledTimes(1)
+    expect(node.settleHoldInvoice).toHaveBeenLastCalledWith(preimageOf())
+    expect(orchestrator.getDeposit(deposit.id)).toMatchObject({ status: 'completed', error: undefined })
+  })
+
+  it('should pick up held deposits after a restart and settle them with the proof read back from the contract', async () => {
+    const store = new MemoryConditionalDepositStore()
+    const first = new HoldInvoiceOrchestrator(node as unknown as LightningService, router, { completeTimeoutMs: 50 }, store)
+    router.completePayment.mockReturnValueOnce(new Promise(() => undefined))
+    const deposit = await first.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+    await first.refresh()
+    first.stop()
+
+    expect(JSON.stringify(store.load())).not.toContain(preimageOf())
+
+    const restarted = new HoldInvoiceOrchestrator(node as unknown as LightningService, router, { completeTimeoutMs: 50 }, store)
+    router.getPaymentStatus.mockResolvedValue('completed')
+    router.getPaymentProof.mockResolvedValue(`0x${preimageOf()}`)
+    try {
+      expect(restarted.getDeposit(deposit.id)).toMatchObject({ status: 'held', createdAt: deposit.createdAt })
+
+      await restarted.refresh()
+
+      expect(router.getPaymentProof).toHaveBeenCalledWith('7')
+      expect(node.settleHoldInvoice).toHaveBeenCalledWith(preimageOf())
+      expect(restarted.getDeposit(deposit.id)!.status).toBe('completed')
+    } finally {
+      restarted.stop()
+    }
+  })
+
+  it('should refund and give back deposits whose preimage was lost on restart', async () => {
+    const store = new MemoryConditionalDepositStore()
+    const first = new HoldInvoiceOrchestrator(node as unknown as LightningService, router, { completeTimeoutMs: 50 }, store)
+    const paid = await first.create(0.0005)
+    const unpaid = await first.create(0.0002)
+    first.stop()
+    node.pay(paid.invoice.paymentHash)
+
+    const restarted = new HoldInvoiceOrchestrator(node as unknown as LightningService, router, { completeTimeoutMs: 50 }, store)
+    try {
+      await restarted.refresh()
+
+      expect(router.completePayment).not.toHaveBeenCalled()
+      expect(router.refundPayment).toHaveBeenCalledTimes(2)
+      expect(node.cancelHoldInvoice).toHaveBeenCalledWith(paid.invoice.paymentHash)
+      expect(node.cancelHoldInvoice).toHaveBeenCalledWith(unpaid.invoice.paymentHash)
+      expect(restarted.listDeposits().map(deposit => deposit.status)).toEqual(['canceled', 'canceled'])
+    } finally {
+      restarted.stop()
+    }
+  })
+
+  it('should not settle with a proof that is not the preimage', async () => {
+    const store = new MemoryConditionalDepositStore()
+    const first = new HoldInvoiceOrchestrator(node as unknown as LightningService, router, { completeTimeoutMs: 50 }, store)
+    router.completePayment.mockReturnValueOnce(new Promise(() => undefined))
+    const deposit = await first.create(0.0005)
+    node.pay(deposit.invoice.paymentHash)
+    await first.refresh()
+    first.stop()
+
+    const restarted = new HoldInvoiceOrchestrator(node as unknown as LightningService, router, { completeTimeoutMs: 50 }, store)
+    router.getPaymentStatus.mockResolvedValue('completed')
+    router.getPaymentProof.mockResolvedValue('0x1')
+    try {
+      await restarted.refresh()
+
+      expect(node.settleHoldInvoice).not.toHaveBeenCalled()
+      expect(restarted.getDeposit(deposit.id)).toMatchObject({ status: 'held', error: expect.stringMatching(/not the invoice's preimage/) })
+    } finally {
+      restarted.stop()
+    }
+  })
+
+  it('should mark deposits whose invoice was never paid as expired', async () => {
+    const deposit = await orchestrator.create(0.0005)
+    node.states.set(deposit.invoice.paymentHash, 'canceled')
+
+    await orchestrator.refresh()
+
+    expect(router.completePayment).not.toHaveBeenCalled()
+    expect(orchestrator.getDeposit(deposit.id)!.status).toBe('expired')
+  })
+
+  it('should keep polling on its own while deposits are in flight', async () => {
+    jest.useFakeTimers()
+    try {
+      const deposit = await orchestrator.create(0.0005)
+      node.pay(deposit.invoice.paymentHash)
+
+      await jest.advanceTimersByTimeAsync(2000)
+
+      expect(orchestrator.getDeposit(deposit.id)!.status).toBe('completed')
+    } finally {
+      orchestrator.stop()
+      jest.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,154 @@
+import { LightningInvoiceEvent } from '@/types/atomiq'
+import { InvoiceStream, InvoiceStreamTransport, rHashToHex } from '../invoiceStream'
+
+const NOW = Math.floor(Date.now() / 1000)
+
+function lndInvoice(rHash: string, fields: Record<string, any>): any {
+  return {
+    r_hash: rHash,
+    payment_request: `lntb1${rHash}`,
+    value: '100000',
+    creation_date: String(NOW - 60),
+    expiry: '3600',
+    memo: 'CrossBTC deposit',
+    state: 'OPEN',
+    ...fields
+  }
+}
+
+// In-memory LND: every opened stream is recorded with the indexes it asked to resume from
+class FakeNode {
+  connections: Array<{ addIndex: number; settleIndex: number }> = []
+  invoices: Record<string, any> = {}
+  private push: ((message: string) => void) | null = null
+  private drop: ((error?: Error) => void) | null = null
+
+  transport = (addIndex: number, settleIndex: number): InvoiceStreamTransport => ({
+    open: async (onMessage, onClose) => {
+      this.connections.push({ addIndex, settleIndex })
+      this.push = onMessage
+      this.drop = onClose
+    },
+    close: () => {
+      this.push = null
+    }
+  })
+
+  lookupInvoice = async (rHash: string) => this.invoices[rHash]
+
+  update(invoice: any): void {
+    this.invoices[invoice.r_hash] = invoice
+    this.push?.(JSON.stringify({ result: invoice }))
+  }
+
+  disconnect(): void {
+    this.drop?.(new Error('connection reset'))
+  }
+}
+
+describe('InvoiceStream', () => {
+  let node: FakeNode
+  let events: LightningInvoiceEvent[]
+  let stream: InvoiceStream
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    node = new FakeNode()
+    events = []
+  })
+
+  afterEach(() => {
+    stream?.close()
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  const start = async (options: { addIndex?: number; settleIndex?: number } = {}) => {
+    stream = new InvoiceStream(event => events.push(event), {
+      ...options,
+      transport: node.transport,
+      lookupInvoice: node.lookupInvoice
+    })
+    stream.start()
+    await Promise.resolve()
+  }
+
+  it('should report settled invoices with the amount paid and skip open ones', async () => {
+    await start()
+
+    node.update(lndInvoice('aa', { add_index: '1' }))
+    node.update(lndInvoice('aa', { add_index: '1', settle_index: '1', state: 'SETTLED', amt_paid_sat: '120000' }))
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ type: 'settled', amountPaid: 0.0012, addIndex: 1, settleIndex: 1 })
+    expect(events[0].invoice).toMatchObject({ paymentHash: 'aa', amount: 0.001, status: 'paid' })
+  })
+
+  it('should tell expired invoices from canceled ones', async () => {
+    await start()
+
+    node.update(lndInvoice('aa', { add_index: '1', state: 'CANCELED' }))
+    node.update(lndInvoice('bb', { add_index: '2', state: 'CANCELED', creation_date: String(NOW - 7200) }))
+
+    expect(events.map(event => event.type)).toEqual(['canceled', 'expired'])
+    expect(events[1].invoice.status).toBe('expired')
+  })
+
+  it('should resume from the last indexes seen after the connection drops', async () => {
+    await start({ addIndex: 4, settleIndex: 2 })
+
+    node.update(lndInvoice('aa', { add_index: '5' }))
+    node.update(lndInvoice('bb', { add_index: '6', settle_index: '3', state: 'SETTLED' }))
+    node.disconnect()
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(node.connections).toEqual([{ addIndex: 4, settleIndex: 2 }, { addIndex: 6, settleIndex: 3 }])
+    expect(stream.getResumeIndexes()).toEqual({ addIndex: 6, settleIndex: 3 })
+  })
+
+  it('should look up open invoices after a reconnect, since cancellations are not replayed', async () => {
+    await start()
+
+    node.update(lndInvoice('aa', { add_index: '1' }))
+    node.disconnect()
+    node.invoices.aa = lndInvoice('aa', { add_index: '1', state: 'CANCELED' })
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(events.map(event => [event.type, event.invoice.paymentHash])).toEqual([['canceled', 'aa']])
+  })
+
+  it('should keep retrying with a growing delay while the node is unreachable', async () => {
+    let failures = 2
+    const transport = node.transport
+    node.transport = (addIndex, settleIndex) => failures-- > 0
+      ? { open: async () => { throw new Error('connection refused') }, close: () => undefined }
+      : transport(addIndex, settleIndex)
+
+    await start()
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(node.connections).toHaveLength(0)
+
+    await jest.advanceTimersByTimeAsync(2000)
+    expect(node.connections).toHaveLength(1)
+  })
+
+  it('should stop reconnecting once closed', async () => {
+    await start()
+
+    node.disconnect()
+    stream.close()
+    await jest.advanceTimersByTimeAsync(60000)
+
+    expect(node.connections).toHaveLength(1)
+  })
+})
+
+describe('rHashToHex', () => {
+  it('should turn the base64 hashes LND returns into the hex its URLs take', () => {
+    expect(rHashToHex('AAECAwQFBgcICQABAgMEBQYHCAkAAQIDBAUGBwgJAQI=')).toBe(
+      '0001020304050607080900010203040506070809000102030405060708090102'
+    )
+    expect(rHashToHex('AB'.repeat(32))).toBe('ab'.repeat(32))
+  })
+})
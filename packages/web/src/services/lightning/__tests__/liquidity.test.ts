@@ -0,0 +1,159 @@
+import { ChannelLiquidityManager } from '../liquidity'
+import { LightningChannel, LightningService } from '@/types/atomiq'
+
+function channel(chanId: string, localBalance: number, remoteBalance: number, active = true): LightningChannel {
+  return {
+    active,
+    remote_pubkey: `02${chanId.padStart(64, '0')}`,
+    channel_point: `${'ab'.repeat(32)}:${chanId}`,
+    chan_id: chanId,
+    capacity: localBalance + remoteBalance,
+    local_balance: localBalance,
+    remote_balance: remoteBalance,
+    commit_fee: 0,
+    commit_weight: 0,
+    fee_per_kw: 0,
+    unsettled_balance: 0,
+    total_satoshis_sent: 0,
+    total_satoshis_received: 0,
+    num_updates: '0',
+    pending_htlcs: []
+  }
+}
+
+describe('ChannelLiquidityManager', () => {
+  let node: { getChannels: jest.Mock; rebalanceChannels: jest.Mock }
+  let manager: ChannelLiquidityManager
+
+  beforeEach(() => {
+    node = {
+      // Far to our side, far to theirs, balanced, and one whose peer is offline
+      getChannels: jest.fn().mockResolvedValue([
+        channel('1', 900000, 100000),
+        channel('2', 100000, 900000),
+        channel('3', 500000, 500000),
+        channel('4', 1000000, 0, false)
+      ]),
+      rebalanceChannels: jest.fn(async (_out: string, _in: string, amountSat: number) => ({
+        payment_hash: `hash_${amountSat}`,
+        fee_sat: 150
+      }))
+    }
+    manager = new ChannelLiquidityManager(node as unknown as LightningService)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should report what each channel can send and receive, less the reserves', async () => {
+    const snapshot = await manager.getLiquidity()
+
+    expect(snapshot.channels[0]).toEqual({
+      chanId: '1',
+      remotePubkey: `02${'1'.padStart(64, '0')}`,
+      active: true,
+      capacity: 1000000,
+      localBalance: 900000,
+      remoteBalance: 100000,
+      outbound: 890000,
+      inbound: 90000,
+      localRatio: 0.9
+    })
+    // The offline channel counts for neither direction
+    expect(snapshot.outbound).toBe(890000 + 90000 + 490000)
+    expect(snapshot.inbound).toBe(90000 + 890000 + 490000)
+  })
+
+  it('should check invoices against inbound liquidity', async () => {
+    await expect(manager.checkReceive(0.0147)).resolves.toEqual({
+      direction: 'inbound',
+      ok: true,
+      requiredSat: 1470000,
+      availableSat: 1470000,
+      largestChannelSat: 890000
+    })
+    await expect(manager.checkReceive(0.0148)).resolves.toMatchObject({ ok: false, availableSat: 1470000 })
+  })
+
+  it('should check payments against outbound liquidity', async () => {
+    node.getChannels.mockResolvedValue([channel('2', 100000, 900000)])
+
+    await expect(manager.checkSend(0.0009)).resolves.toMatchObject({ direction: 'outbound', ok: true, availableSat: 90000 })
+    await expect(manager.checkSend(0.001)).resolves.toMatchObject({ ok: false, requiredSat: 100000 })
+  })
+
+  it('should suggest moving liquidity from channels above the target to channels below it', async () => {
+    await expect(manager.suggestRebalances()).resolves.toEqual([
+      // 400000 sats brings both back to half, for at most 500 ppm
+      { outgoingChanId: '1', incomingChanId: '2', amountSat: 400000, maxFeeSat: 200 }
+    ])
+  })
+
+  it('should leave channels within the tolerance and moves below the minimum alone', async () => {
+    node.getChannels.mockResolvedValue([channel('1', 650000, 350000), channel('2', 350000, 650000)])
+    await expect(manager.suggestRebalances()).resolves.toEqual([])
+
+    const lenient = new ChannelLiquidityManager(node as unknown as LightningService, { tolerance: 0.1, minRebalanceSat: 200000 })
+    await expect(lenient.suggestRebalances()).resolves.toEqual([])
+
+    const eager = new ChannelLiquidityManager(node as unknown as LightningService, { tolerance: 0.1 })
+    await expect(eager.suggestRebalances()).resolves.toEqual([
+      { outgoingChanId: '1', incomingChanId: '2', amountSat: 150000, maxFeeSat: 75 }
+    ])
+  })
+
+  it('should split a large surplus across several channels short of liquidity', async () => {
+    node.getChannels.mockResolvedValue([
+      channel('1', 2000000, 0),
+      channel('2', 0, 1000000),
+      channel('3', 200000, 800000)
+    ])
+    const fixedFees = new ChannelLiquidityManager(node as unknown as LightningService, { feeBudget: { fixed: 100 } })
+
+    await expect(fixedFees.suggestRebalances()).resolves.toEqual([
+      // The channel furthest from the target is evened out first
+      { outgoingChanId: '1', incomingChanId: '2', amountSat: 500000, maxFeeSat: 100 },
+      { outgoingChanId: '1', incomingChanId: '3', amountSat: 300000, maxFeeSat: 100 }
+    ])
+  })
+
+  it('should rebalance within the fee budget and keep track of what it spent', async () => {
+    const [suggestion] = await manager.suggestRebalances()
+
+    const result = await manager.rebalance(suggestion)
+
+    expect(node.rebalanceChannels).toHaveBeenCalledWith('1', '2', 400000, { feeLimit: { fixed: 200 } })
+    expect(result).toEqual({ ...suggestion, paymentHash: 'hash_400000', feeSat: 150 })
+    expect(manager.getFeeSpend()).toEqual({ spentSat: 150, budgetSat: 5000 })
+  })
+
+  it('should cap each rebalance at what is left of the total budget, and stop once it is spent', async () => {
+    const frugal = new ChannelLiquidityManager(node as unknown as LightningService, { totalFeeBudgetSat: 250 })
+    const [suggestion] = await frugal.suggestRebalances()
+
+    await frugal.rebalance(suggestion)
+    await frugal.rebalance(suggestion)
+    expect(node.rebalanceChannels).toHaveBeenLastCalledWith('1', '2', 400000, { feeLimit: { fixed: 100 } })
+
+    await expect(frugal.rebalance(suggestion)).rejects.toThrow('The 250 sat rebalancing fee budget is spent')
+    expect(node.rebalanceChannels).toHaveBeenCalledTimes(2)
+  })
+
+  it('should carry out every suggestion, skipping those that fail', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    node.getChannels.mockResolvedValue([
+      channel('1', 1000000, 0),
+      channel('2', 1000000, 0),
+      channel('3', 0, 1000000),
+      channel('4', 0, 1000000)
+    ])
+    node.rebalanceChannels.mockRejectedValueOnce({ code: 'LIGHTNING_REBALANCE_FAILED', message: 'no route' })
+
+    const results = await manager.rebalanceAll()
+
+    expect(node.rebalanceChannels).toHaveBeenCalledTimes(2)
+    expect(results).toEqual([expect.objectContaining({ outgoingChanId: '2', incomingChanId: '4', feeSat: 150 })])
+    expect(console.error).toHaveBeenCalledWith('Rebalancing 1 into 3 failed:', 'no route')
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils.js'
+import { LnurlPayRequest } from '@/types/atomiq'
+import { decodeLightningInvoice } from '@/lib/bolt11'
+import { fetchPayInvoice, lnurlUrl, openSuccessAction, resolveLnurl } from '../lnurl'
+
+jest.mock('@/lib/bolt11', () => ({
+  decodeLightningInvoice: jest.fn()
+}))
+
+// LUD-01 example
+const LNURL = 'LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS'
+const LNURL_TARGET = 'https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df'
+
+const METADATA = JSON.stringify([['text/plain', 'Tip alice'], ['text/identifier', 'alice@example.com']])
+
+const PAY_REQUEST: LnurlPayRequest = {
+  tag: 'payRequest',
+  url: 'https://example.com/.well-known/lnurlp/alice',
+  domain: 'example.com',
+  callback: 'https://example.com/lnurlp/alice/callback',
+  minSendable: 1000,
+  maxSendable: 100000000,
+  metadata: METADATA,
+  description: 'Tip alice',
+  commentAllowed: 20
+}
+
+describe('lnurl', () => {
+  let fetchMock: jest.Mock
+
+  const respond = (body: any, status = 200) => fetchMock.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body
+  })
+
+  const decodesTo = (amountMsat: number, metadata = METADATA) => (decodeLightningInvoice as jest.Mock).mockReturnValue({
+    valid: true,
+    decoded: { amountMsat, descriptionHash: bytesToHex(sha256(utf8ToBytes(metadata))) }
+  })
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock as any
+  })
+
+  afterEach(() => {
+    jest.resetAllMocks()
+  })
+
+  describe('lnurlUrl', () => {
+    it('should decode bech32 LNURLs, with or without a lightning: prefix', () => {
+      expect(lnurlUrl(LNURL)).toBe(LNURL_TARGET)
+      expect(lnurlUrl(`lightning:${LNURL.toLowerCase()}`)).toBe(LNURL_TARGET)
+    })
+
+    it('should turn Lightning Addresses and LUD-17 links into their https URLs', () => {
+      expect(lnurlUrl('Alice@Example.com')).toBe('https://example.com/.well-known/lnurlp/alice')
+      expect(lnurlUrl('lnurlw://example.com/withdraw?k1=ab')).toBe('https://example.com/withdraw?k1=ab')
+      expect(lnurlUrl(`https://example.com/pay?lightning=${LNURL}`)).toBe(LNURL_TARGET)
+    })
+
+    it('should only allow plain http for onion services', () => {
+      expect(lnurlUrl('lnurlp://abcdef.onion/pay')).toBe('http://abcdef.onion/pay')
+      expect(lnurlUrl('alice@abcdef.onion')).toBe('http://abcdef.onion/.well-known/lnurlp/alice')
+      expect(lnurlUrl('https://example.com/pay')).toBeNull()
+      expect(lnurlUrl('lnbc2500u1pvjluez')).toBeNull()
+    })
+  })
+
+  describe('resolveLnurl', () => {
+    it('should read pay requests and their metadata', async () => {
+      respond({
+        tag: 'payRequest',
+        callback: 'https://example.com/lnurlp/alice/callback',
+        minSendable: 1000,
+        maxSendable: 100000000,
+        metadata: METADATA,
+        commentAllowed: 20
+      })
+
+      const request = await resolveLnurl('alice@example.com')
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/.well-known/lnurlp/alice')
+      expect(request).toMatchObject({ ...PAY_REQUEST, identifier: 'alice@example.com' })
+    })
+
+    it('should answer fast withdraw links without a request', async () => {
+      const request = await resolveLnurl(
+        'lnurlw://example.com/w?tag=withdrawRequest&k1=ab&callback=https%3A%2F%2Fexample.com%2Fcb&minWithdrawable=1000&maxWithdrawable=5000&defaultDescription=Refund'
+      )
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(request).toMatchObject({
+        tag: 'withdrawRequest',
+        k1: 'ab',
+        callback: 'https://example.com/cb',
+        minWithdrawable: 1000,
+        maxWithdrawable: 5000,
+        defaultDescription: 'Refund'
+      })
+    })
+
+    it('should report the reason a service gives for an error', async () => {
+      respond({ status: 'ERROR', reason: 'Unknown user' })
+
+      await expect(resolveLnurl('bob@example.com')).rejects.toThrow('Unknown user')
+    })
+
+    it('should refuse callbacks that are not https', async () => {
+      respond({ tag: 'withdrawRequest', callback: 'http://example.com/cb', k1: 'ab', maxWithdrawable: 5000 })
+
+      await expect(resolveLnurl('lnurlw://example.com/w')).rejects.toThrow('invalid callback URL')
+    })
+  })
+
+  describe('fetchPayInvoice', () => {
+    it('should ask for the amount and comment and return an invoice that commits to the metadata', async () => {
+      respond({ pr: 'lnbc50n1invoice', successAction: { tag: 'message', message: 'Thanks!' } })
+      decodesTo(5000)
+
+      const { invoice, successAction } = await fetchPayInvoice(PAY_REQUEST, 5000, 'gm')
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/lnurlp/alice/callback?amount=5000&comment=gm')
+      expect(invoice).toBe('lnbc50n1invoice')
+      expect(successAction).toEqual({ tag: 'message', message: 'Thanks!' })
+    })
+
+    it('should check the amount and comment before asking', async () => {
+      await expect(fetchPayInvoice(PAY_REQUEST, 500)).rejects.toThrow('accepts between 1 sats and 100,000 sats')
+      await expect(fetchPayInvoice(PAY_REQUEST, 5000, 'x'.repeat(21))).rejects.toThrow('comments of up to 20 characters')
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should reject invoices for another amount or description', async () => {
+      respond({ pr: 'lnbc1invoice' })
+      decodesTo(6000)
+      await expect(fetchPayInvoice(PAY_REQUEST, 5000)).rejects.toThrow('different amount')
+
+      respond({ pr: 'lnbc1invoice' })
+      decodesTo(5000, '[["text/plain","Something else"]]')
+      await expect(fetchPayInvoice(PAY_REQUEST, 5000)).rejects.toThrow('does not match its metadata')
+    })
+
+    it('should drop url success actions that point off the service domain', async () => {
+      respond({ pr: 'lnbc1invoice', successAction: { tag: 'url', description: 'Receipt', url: 'https://evil.example/receipt' } })
+      decodesTo(5000)
+
+      expect((await fetchPayInvoice(PAY_REQUEST, 5000)).successAction).toBeUndefined()
+    })
+  })
+
+  describe('openSuccessAction', () => {
+    it('should decrypt aes actions with the payment preimage', async () => {
+      const preimage = '11'.repeat(32)
+      const iv = new Uint8Array(16).fill(7)
+      const key = await crypto.subtle.importKey('raw', Buffer.from(preimage, 'hex'), 'AES-CBC', false, ['encrypt'])
+      const ciphertext = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, utf8ToBytes('voucher 1234'))
+
+      const message = await openSuccessAction({
+        tag: 'aes',
+        description: 'Your voucher',
+        ciphertext: Buffer.from(ciphertext).toString('base64'),
+        iv: Buffer.from(iv).toString('base64')
+      }, preimage)
+
+      expect(message).toEqual({ tag: 'aes', message: 'Your voucher', secret: 'voucher 1234' })
+    })
+  })
+})
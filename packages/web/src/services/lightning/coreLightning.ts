@@ -0,0 +1,449 @@
+import {
+  LightningNodeInfo,
+  LightningChannel,
+  LightningPayment,
+  LightningInvoiceEvent,
+  InvoiceSubscriptionOptions,
+  HoldInvoiceOptions,
+  HoldInvoiceState,
+  HtlcAttempt,
+  HtlcAttemptStatus,
+  PaymentFeeLimit,
+  PaymentOptions,
+  PaymentProbe
+} from '@/types/atomiq'
+import { LightningInvoice } from '@/types/vault'
+import { INVOICE_EXPIRY, INVOICE_MEMO, LightningNodeService, PAYMENT_FEE_LIMIT, PAYMENT_TIMEOUT, feeLimitMsat } from './nodeService'
+
+export interface CoreLightningOptions {
+  url: string // clnrest base URL, or the proxy route that adds the rune
+  rune?: string
+  pollIntervalMs?: number // how often a payment's parts are listed while it is in flight (default 1s)
+}
+
+export type ClnRpcError = Error & { code: number }
+
+// Error codes we act on
+const WAIT_TIMED_OUT = 904
+
+// Hold plugin invoice states
+const HOLD_INVOICE_STATES: Record<string, HoldInvoiceState> = {
+  unpaid: 'open',
+  accepted: 'accepted',
+  paid: 'settled',
+  cancelled: 'canceled'
+}
+
+// How long one waitanyinvoice call may hang before it is asked again
+const WAIT_TIMEOUT = 60 // seconds
+const MAX_RETRY_DELAY = 30000
+const DEFAULT_POLL_INTERVAL = 1000
+
+// sendpay part states
+const PART_STATUSES: Record<string, HtlcAttemptStatus> = {
+  pending: 'in_flight',
+  complete: 'succeeded',
+  failed: 'failed'
+}
+
+/**
+ * Core Lightning through clnrest: every command is a POST to `/v1/<command>` authorized by a rune
+ */
+export class CoreLightningService extends LightningNodeService {
+  private url: string
+  private rune?: string
+  private pollInterval: number
+
+  constructor(options: CoreLightningOptions) {
+    super()
+    this.url = options.url.replace(/\/$/, '')
+    this.rune = options.rune
+    this.pollInterval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL
+  }
+
+  async getNodeInfo(): Promise<LightningNodeInfo> {
+    try {
+      const info = await this.call('getinfo')
+      const network = info.network === 'bitcoin' ? 'mainnet' : info.network
+      return {
+        identity_pubkey: info.id,
+        alias: info.alias,
+        color: info.color,
+        num_peers: info.num_peers,
+        num_pending_channels: info.num_pending_channels,
+        num_active_channels: info.num_active_channels,
+        num_inactive_channels: info.num_inactive_channels,
+        block_height: info.blockheight,
+        block_hash: '', // getinfo reports only the height
+        best_header_timestamp: '',
+        synced_to_chain: !info.warning_bitcoind_sync && !info.warning_lightningd_sync,
+        testnet: network === 'testnet',
+        chains: [{ chain: 'bitcoin', network }]
+      }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_NODE_INFO_FAILED', error)
+    }
+  }
+
+  /**
+   * On-chain wallet balance, as LND's blockchain balance; outputs reserved for a pending spend are left out
+   */
+  async getBalance(): Promise<{ balance: number; pending_balance: number }> {
+    try {
+      const { outputs } = await this.call('listfunds')
+      const total = (status: string) => outputs
+        .filter((output: any) => output.status === status && !output.reserved)
+        .reduce((sum: number, output: any) => sum + toMsat(output.amount_msat), 0)
+
+      return {
+        balance: total('confirmed') / 100000000000,
+        pending_balance: total('unconfirmed') / 100000000000
+      }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_BALANCE_FETCH_FAILED', error)
+    }
+  }
+
+  async createInvoice(amount: number, memo?: string): Promise<LightningInvoice> {
+    try {
+      const satoshis = Math.floor(amount * 100000000)
+      const description = memo || INVOICE_MEMO
+      const response = await this.call('invoice', {
+        amount_msat: satoshis * 1000,
+        label: `crossbtc-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`, // must be unique
+        description,
+        expiry: INVOICE_EXPIRY
+      })
+
+      return toLightningInvoice({ ...response, amount_msat: satoshis * 1000, description, status: 'unpaid' })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_INVOICE_CREATION_FAILED', error)
+    }
+  }
+
+  /**
+   * `pay` answers once the payment is over, so its parts are followed with `listsendpays` meanwhile.
+   * The pay plugin splits payments as it sees fit; `maxParts` is not honoured.
+   */
+  async payInvoice(invoice: string, options: PaymentOptions = {}): Promise<LightningPayment> {
+    const feeLimit = options.feeLimit && 'ppm' in options.feeLimit
+      ? { maxfeepercent: options.feeLimit.ppm / 10000, exemptfee: 0 }
+      : { maxfee: (options.feeLimit?.fixed ?? PAYMENT_FEE_LIMIT) * 1000 }
+
+    try {
+      const response = await this.reportAttempts(
+        this.call('pay', { bolt11: invoice, retry_for: options.timeoutSeconds ?? PAYMENT_TIMEOUT, ...feeLimit }),
+        () => this.listAttempts(invoice),
+        options.onProgress,
+        this.pollInterval
+      )
+      if (response.status !== 'complete') {
+        throw new Error(`Payment is ${response.status}`)
+      }
+      return toLightningPayment({ ...response, bolt11: invoice })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_PAYMENT_FAILED', error)
+    }
+  }
+
+  /**
+   * Routes from askrene's `getroutes`, which weighs each channel by how likely it is to carry the
+   * amount; the probability is that of every part arriving
+   */
+  async probePayment(invoice: string, feeLimit?: PaymentFeeLimit): Promise<PaymentProbe> {
+    try {
+      const decoded = await this.call('decode', { string: invoice })
+      const { id } = await this.call('getinfo')
+      const amountMsat = toMsat(decoded.amount_msat)
+      const { probability_ppm, routes } = await this.call('getroutes', {
+        source: id,
+        destination: decoded.payee,
+        amount_msat: amountMsat,
+        layers: ['auto.localchans', 'auto.sourcefree'],
+        maxfee_msat: feeLimitMsat(feeLimit, amountMsat),
+        final_cltv: decoded.min_final_cltv_expiry
+      })
+
+      // Each part leaves with its fees on top of what it delivers
+      const feeMsat = routes.reduce((fees: number, route: any) => fees + toMsat(route.path[0].amount_msat) - toMsat(route.amount_msat), 0)
+      return {
+        amountSat: amountMsat / 1000,
+        feeSat: Math.ceil(feeMsat / 1000),
+        successProbability: probability_ppm / 1000000,
+        hops: Math.max(...routes.map((route: any) => route.path.length))
+      }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_PROBE_FAILED', error)
+    }
+  }
+
+  async getInvoice(paymentHash: string): Promise<LightningInvoice> {
+    try {
+      const { invoices } = await this.call('listinvoices', { payment_hash: paymentHash })
+      if (!invoices.length) {
+        throw new Error(`No invoice with payment hash ${paymentHash}`)
+      }
+      return toLightningInvoice(invoices[0])
+    } catch (error) {
+      throw this.handleError('LIGHTNING_INVOICE_FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Settled invoices, one `waitanyinvoice` long poll at a time; `settleIndex` resumes from a `pay_index`.
+   * Core Lightning reports nothing when an invoice expires, so only settlements are followed.
+   */
+  subscribeInvoices(
+    listener: (event: LightningInvoiceEvent) => void,
+    options: InvoiceSubscriptionOptions = {}
+  ): () => void {
+    const controller = new AbortController()
+    let lastPayIndex = options.settleIndex
+
+    const run = async () => {
+      let retryDelay = 1000
+      while (!controller.signal.aborted) {
+        try {
+          // Without an index to resume from, only invoices paid from now on are reported
+          if (lastPayIndex === undefined) {
+            lastPayIndex = await this.latestPayIndex(controller.signal)
+          }
+
+          const invoice = await this.call('waitanyinvoice', { lastpay_index: lastPayIndex, timeout: WAIT_TIMEOUT }, controller.signal)
+          lastPayIndex = invoice.pay_index
+          retryDelay = 1000
+
+          try {
+            listener({
+              type: 'settled',
+              invoice: toLightningInvoice(invoice),
+              amountPaid: toMsat(invoice.amount_received_msat) / 100000000000,
+              addIndex: invoice.created_index ?? 0,
+              settleIndex: invoice.pay_index
+            })
+          } catch (error) {
+            console.error('Invoice listener failed:', error)
+          }
+        } catch (error) {
+          if (controller.signal.aborted || (error as ClnRpcError).code === WAIT_TIMED_OUT) {
+            continue
+          }
+          console.error('Waiting for invoices failed, retrying:', (error as Error).message)
+          await sleep(retryDelay, controller.signal)
+          retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY)
+        }
+      }
+    }
+
+    run()
+    return () => controller.abort()
+  }
+
+  /**
+   * Hold invoices come from Boltz's `hold` plugin, which has to be running on the node
+   */
+  async createHoldInvoice(paymentHash: string, amount: number, options: HoldInvoiceOptions = {}): Promise<LightningInvoice> {
+    try {
+      const satoshis = Math.floor(amount * 100000000)
+      const description = options.memo || INVOICE_MEMO
+      const expiry = options.expiry || INVOICE_EXPIRY
+      const response = await this.call('holdinvoice', {
+        payment_hash: paymentHash,
+        amount: satoshis * 1000,
+        description,
+        expiry,
+        ...(options.cltvExpiry ? { min_final_cltv_expiry: options.cltvExpiry } : {})
+      })
+
+      const created = Date.now()
+      return {
+        paymentHash,
+        bolt11: response.bolt11,
+        amount: satoshis / 100000000,
+        timestamp: new Date(created),
+        expiry: new Date(created + expiry * 1000),
+        memo: description,
+        status: 'pending'
+      }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_HOLD_INVOICE_CREATION_FAILED', error)
+    }
+  }
+
+  async getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState> {
+    try {
+      const { holdinvoices } = await this.call('listholdinvoices', { payment_hash: paymentHash })
+      if (!holdinvoices.length) {
+        throw new Error(`No hold invoice with payment hash ${paymentHash}`)
+      }
+      return HOLD_INVOICE_STATES[holdinvoices[0].state] || 'open'
+    } catch (error) {
+      throw this.handleError('LIGHTNING_INVOICE_FETCH_FAILED', error)
+    }
+  }
+
+  async settleHoldInvoice(preimage: string): Promise<void> {
+    try {
+      await this.call('settleholdinvoice', { preimage })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_HOLD_INVOICE_SETTLE_FAILED', error)
+    }
+  }
+
+  async cancelHoldInvoice(paymentHash: string): Promise<void> {
+    try {
+      await this.call('cancelholdinvoice', { payment_hash: paymentHash })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_HOLD_INVOICE_CANCEL_FAILED', error)
+    }
+  }
+
+  async getChannels(): Promise<LightningChannel[]> {
+    try {
+      const { channels } = await this.call('listpeerchannels')
+      return channels.map((channel: any) => {
+        const capacity = Math.floor(toMsat(channel.total_msat) / 1000)
+        const localBalance = Math.floor(toMsat(channel.to_us_msat) / 1000)
+        return {
+          active: channel.state === 'CHANNELD_NORMAL' && channel.peer_connected,
+          remote_pubkey: channel.peer_id,
+          channel_point: `${channel.funding_txid}:${channel.funding_outnum}`,
+          chan_id: channel.short_channel_id || '',
+          capacity,
+          local_balance: localBalance,
+          remote_balance: capacity - localBalance,
+          commit_fee: 0, // not reported
+          commit_weight: 0,
+          fee_per_kw: channel.feerate?.perkw || 0,
+          unsettled_balance: 0,
+          total_satoshis_sent: Math.floor(toMsat(channel.out_fulfilled_msat) / 1000),
+          total_satoshis_received: Math.floor(toMsat(channel.in_fulfilled_msat) / 1000),
+          num_updates: String(channel.htlcs?.length || 0),
+          pending_htlcs: (channel.htlcs || []).map((htlc: any) => ({
+            forwarding_channel: '',
+            amount: Math.floor(toMsat(htlc.amount_msat) / 1000),
+            expiration_height: htlc.expiry,
+            hash_lock: htlc.payment_hash,
+            incoming: htlc.direction === 'in'
+          }))
+        }
+      })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_CHANNELS_FETCH_FAILED', error)
+    }
+  }
+
+  async listPayments(): Promise<LightningPayment[]> {
+    try {
+      const { pays } = await this.call('listpays')
+      return pays.map(toLightningPayment)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_PAYMENTS_FETCH_FAILED', error)
+    }
+  }
+
+  protected async connectPeer(pubkey: string, host: string): Promise<void> {
+    // Already being connected is not an error to Core Lightning
+    await this.call('connect', { id: `${pubkey}@${host}` })
+  }
+
+  // Every part sent for the invoice so far, retries included
+  private async listAttempts(invoice: string): Promise<{ paymentHash: string; attempts: HtlcAttempt[] } | null> {
+    const { payments } = await this.call('listsendpays', { bolt11: invoice })
+    if (!payments.length) {
+      return null
+    }
+    return {
+      paymentHash: payments[0].payment_hash,
+      attempts: payments.map((part: any) => {
+        const amountMsat = toMsat(part.amount_msat)
+        return {
+          id: `${part.groupid}/${part.partid || 0}`,
+          status: PART_STATUSES[part.status] || 'in_flight',
+          amountSat: amountMsat / 1000,
+          feeSat: Math.max(toMsat(part.amount_sent_msat) - amountMsat, 0) / 1000
+        }
+      })
+    }
+  }
+
+  private async latestPayIndex(signal: AbortSignal): Promise<number> {
+    const { invoices } = await this.call('listinvoices', {}, signal)
+    return invoices.reduce((latest: number, invoice: any) => Math.max(latest, invoice.pay_index || 0), 0)
+  }
+
+  private async call(method: string, params: Record<string, any> = {}, signal?: AbortSignal): Promise<any> {
+    const response = await fetch(`${this.url}/v1/${method}`, {
+      method: 'POST',
+      headers: { ...(this.rune ? { Rune: this.rune } : {}), 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal
+    })
+
+    // Command errors come back as a 500 with the JSON-RPC error as the body
+    const body = await response.json().catch(() => null)
+    if (!response.ok) {
+      const error = new Error(`${method} failed: ${body?.message || `HTTP ${response.status}`}`) as ClnRpcError
+      error.code = body?.code
+      throw error
+    }
+    if (!body) {
+      throw new Error(`${method} returned no data`)
+    }
+    return body
+  }
+}
+
+/**
+ * An invoice as `invoice`, `listinvoices` and `waitanyinvoice` describe it. Core Lightning does not report
+ * when an invoice was created; ours all live INVOICE_EXPIRY seconds, so it is worked out from the expiry.
+ */
+function toLightningInvoice(raw: any): LightningInvoice {
+  return {
+    paymentHash: raw.payment_hash,
+    bolt11: raw.bolt11,
+    amount: toMsat(raw.amount_msat) / 100000000000,
+    timestamp: new Date((raw.expires_at - INVOICE_EXPIRY) * 1000),
+    expiry: new Date(raw.expires_at * 1000),
+    memo: raw.description,
+    status: raw.status === 'paid' ? 'paid' : raw.status === 'expired' ? 'expired' : 'pending'
+  }
+}
+
+// A payment from `pay` (preimage as payment_preimage) or `listpays` (as preimage)
+function toLightningPayment(raw: any): LightningPayment {
+  const amountMsat = toMsat(raw.amount_msat)
+  const feeMsat = Math.max(toMsat(raw.amount_sent_msat) - amountMsat, 0)
+  const createdAt = Number(raw.created_at)
+
+  return {
+    payment_hash: raw.payment_hash,
+    value: Math.floor(amountMsat / 1000),
+    creation_date: new Date(createdAt * 1000).toISOString(),
+    fee: Math.floor(feeMsat / 1000),
+    payment_preimage: raw.payment_preimage || raw.preimage || '',
+    value_sat: Math.floor(amountMsat / 1000),
+    value_msat: String(amountMsat),
+    payment_request: raw.bolt11 || '',
+    status: raw.status === 'complete' ? 'SUCCEEDED' : raw.status === 'failed' ? 'FAILED' : 'IN_FLIGHT',
+    fee_sat: Math.floor(feeMsat / 1000),
+    fee_msat: String(feeMsat),
+    creation_time_ns: String(Math.round(createdAt * 1000) * 1000000),
+    htlcs: []
+  }
+}
+
+// Amounts are plain millisatoshi numbers on current releases and "1000msat" strings on older ones
+function toMsat(value: number | string | undefined): number {
+  return typeof value === 'string' ? parseInt(value, 10) || 0 : value || 0
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
@@ -0,0 +1,369 @@
+import {
+  LightningNodeInfo,
+  LightningChannel,
+  LightningPayment,
+  LightningInvoiceEvent,
+  InvoiceSubscriptionOptions,
+  HtlcAttempt,
+  HtlcAttemptStatus,
+  PaymentOptions
+} from '@/types/atomiq'
+import { LightningInvoice } from '@/types/vault'
+import { INVOICE_EXPIRY, INVOICE_MEMO, LightningNodeService, PAYMENT_FEE_LIMIT } from './nodeService'
+
+export interface EclairOptions {
+  url: string // Eclair HTTP API base URL, or the proxy route that adds the password
+  password?: string
+  pollIntervalMs?: number // how often invoices are checked while subscribed, and parts of a payment while it is in flight (default 5s)
+}
+
+const DEFAULT_POLL_INTERVAL = 5000
+
+// Channel states counted as pending, before the funding transaction confirms
+const PENDING_STATES = ['WAIT_FOR_FUNDING_CONFIRMED', 'WAIT_FOR_CHANNEL_READY', 'WAIT_FOR_DUAL_FUNDING_CONFIRMED', 'WAIT_FOR_DUAL_FUNDING_READY']
+
+// Outgoing payment part states in getsentinfo
+const PART_STATUSES: Record<string, HtlcAttemptStatus> = {
+  pending: 'in_flight',
+  sent: 'succeeded',
+  failed: 'failed'
+}
+
+/**
+ * Eclair's HTTP API: form-encoded POSTs to `/<method>` with the API password as basic auth
+ */
+export class EclairService extends LightningNodeService {
+  private url: string
+  private authorization?: string
+  private pollInterval: number
+
+  constructor(options: EclairOptions) {
+    super()
+    this.url = options.url.replace(/\/$/, '')
+    if (options.password) {
+      this.authorization = `Basic ${btoa(`:${options.password}`)}`
+    }
+    this.pollInterval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL
+  }
+
+  /**
+   * getinfo has no peer or channel counts, so they are read from the peer and channel lists.
+   * Eclair only starts serving its API once synced with bitcoind.
+   */
+  async getNodeInfo(): Promise<LightningNodeInfo> {
+    try {
+      const [info, peers, channels] = await Promise.all([this.call('getinfo'), this.call('peers'), this.call('channels')])
+      const countChannels = (states: string[]) => channels.filter((channel: any) => states.includes(channel.state)).length
+
+      return {
+        identity_pubkey: info.nodeId,
+        alias: info.alias,
+        color: info.color,
+        num_peers: peers.filter((peer: any) => peer.state === 'CONNECTED').length,
+        num_pending_channels: countChannels(PENDING_STATES),
+        num_active_channels: countChannels(['NORMAL']),
+        num_inactive_channels: countChannels(['OFFLINE', 'SYNCING']),
+        block_height: info.blockHeight,
+        block_hash: '', // getinfo reports only the height
+        best_header_timestamp: '',
+        synced_to_chain: true,
+        testnet: info.network === 'testnet',
+        chains: [{ chain: 'bitcoin', network: info.network }]
+      }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_NODE_INFO_FAILED', error)
+    }
+  }
+
+  async getBalance(): Promise<{ balance: number; pending_balance: number }> {
+    try {
+      const response = await this.call('onchainbalance')
+      return {
+        balance: response.confirmed / 100000000,
+        pending_balance: response.unconfirmed / 100000000
+      }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_BALANCE_FETCH_FAILED', error)
+    }
+  }
+
+  async createInvoice(amount: number, memo?: string): Promise<LightningInvoice> {
+    try {
+      const satoshis = Math.floor(amount * 100000000)
+      const response = await this.call('createinvoice', {
+        amountMsat: satoshis * 1000,
+        description: memo || INVOICE_MEMO,
+        expireIn: INVOICE_EXPIRY
+      })
+      return toLightningInvoice(response, 'pending')
+    } catch (error) {
+      throw this.handleError('LIGHTNING_INVOICE_CREATION_FAILED', error)
+    }
+  }
+
+  /**
+   * Pays and waits for the outcome; the fee is what every part of the payment paid. Its parts are read
+   * from `getsentinfo` meanwhile. Eclair takes no timeout or part count per payment, so `timeoutSeconds`
+   * and `maxParts` are left to its configuration.
+   */
+  async payInvoice(invoice: string, options: PaymentOptions = {}): Promise<LightningPayment> {
+    // Eclair allows whichever of the flat and proportional limits is higher
+    const feeLimit = options.feeLimit && 'ppm' in options.feeLimit
+      ? { maxFeeFlatSat: 0, maxFeePct: options.feeLimit.ppm / 10000 }
+      : { maxFeeFlatSat: options.feeLimit?.fixed ?? PAYMENT_FEE_LIMIT, maxFeePct: 0 }
+
+    try {
+      let paymentHash: string | undefined
+      const response = await this.reportAttempts(
+        this.call('payinvoice', { invoice, blocking: true, ...feeLimit }),
+        async () => {
+          paymentHash = paymentHash || (await this.call('parseinvoice', { invoice })).paymentHash
+          return this.listAttempts(paymentHash!)
+        },
+        options.onProgress,
+        this.pollInterval
+      )
+      if (response.type !== 'payment-sent') {
+        const failure = response.failures?.[0]?.failureMessage || response.failures?.[0]?.t
+        throw new Error(`Payment failed${failure ? `: ${failure}` : ''}`)
+      }
+      return toLightningPayment(response, invoice)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_PAYMENT_FAILED', error)
+    }
+  }
+
+  async getInvoice(paymentHash: string): Promise<LightningInvoice> {
+    try {
+      const received = await this.call('getreceivedinfo', { paymentHash })
+      return toLightningInvoice(received.paymentRequest, invoiceStatus(received))
+    } catch (error) {
+      throw this.handleError('LIGHTNING_INVOICE_FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Eclair keeps no invoice indexes to resume from, so invoices are polled instead: those created since the
+   * last poll or still open at it, and no longer pending, are looked up and reported as settled or expired.
+   * Invoices paid while nobody was subscribed are not replayed; the indexes in events only count this subscription.
+   */
+  subscribeInvoices(
+    listener: (event: LightningInvoiceEvent) => void,
+    options: InvoiceSubscriptionOptions = {}
+  ): () => void {
+    let open: Set<string> | null = null
+    let reported = new Set<string>()
+    let lastPoll = Math.floor(Date.now() / 1000)
+    let addIndex = options.addIndex ?? 0
+    let settleIndex = options.settleIndex ?? 0
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const poll = async () => {
+      try {
+        const since = lastPoll
+        lastPoll = Math.floor(Date.now() / 1000)
+        const [pending, created] = await Promise.all([
+          this.call('listpendinginvoices'),
+          this.call('listinvoices', { from: since - 1 })
+        ])
+        const stillOpen = new Set<string>(pending.map((invoice: any) => invoice.paymentHash))
+        const createdHashes: string[] = created.map((invoice: any) => invoice.paymentHash)
+
+        if (open) {
+          const candidates = new Set(Array.from(open).concat(createdHashes))
+          for (const paymentHash of Array.from(candidates)) {
+            if (stillOpen.has(paymentHash) || reported.has(paymentHash) || stopped) {
+              continue
+            }
+
+            const received = await this.call('getreceivedinfo', { paymentHash })
+            const status = invoiceStatus(received)
+            if (status === 'pending') {
+              continue
+            }
+
+            const invoice = toLightningInvoice(received.paymentRequest, status)
+            reported.add(paymentHash)
+            addIndex++
+            const event: LightningInvoiceEvent = status === 'paid'
+              ? { type: 'settled', invoice, amountPaid: received.status.amount / 100000000000, addIndex, settleIndex: ++settleIndex }
+              : { type: 'expired', invoice, addIndex }
+            try {
+              listener(event)
+            } catch (error) {
+              console.error('Invoice listener failed:', error)
+            }
+          }
+        }
+        open = stillOpen
+        // The next poll's window starts a second before this one, so only these could come up again
+        reported = new Set(createdHashes.filter(paymentHash => reported.has(paymentHash)))
+      } catch (error) {
+        console.error('Polling invoices failed:', (error as Error).message)
+      } finally {
+        if (!stopped) {
+          timer = setTimeout(poll, this.pollInterval)
+        }
+      }
+    }
+
+    poll()
+    return () => {
+      stopped = true
+      if (timer) {
+        clearTimeout(timer)
+      }
+    }
+  }
+
+  /**
+   * Channel balances are read from the latest local commitment
+   */
+  async getChannels(): Promise<LightningChannel[]> {
+    try {
+      const channels = await this.call('channels')
+      return channels.map((channel: any) => {
+        // Eclair 0.9 keeps one commitment per active funding transaction; earlier releases just the one
+        const commitments = channel.data?.commitments || {}
+        const commitment = commitments.active?.[0] || commitments
+        const funding = commitment.fundingTx || commitment.commitInput || {}
+        const spec = commitment.localCommit?.spec || {}
+        const localBalance = Math.floor((spec.toLocal || 0) / 1000)
+        const remoteBalance = Math.floor((spec.toRemote || 0) / 1000)
+
+        return {
+          active: channel.state === 'NORMAL',
+          remote_pubkey: channel.nodeId,
+          channel_point: funding.outPoint || '',
+          chan_id: channel.data?.shortIds?.real?.realScid || channel.data?.shortChannelId || channel.channelId,
+          capacity: funding.amountSatoshis ?? localBalance + remoteBalance,
+          local_balance: localBalance,
+          remote_balance: remoteBalance,
+          commit_fee: 0, // not reported
+          commit_weight: 0,
+          fee_per_kw: spec.commitTxFeerate || 0,
+          unsettled_balance: 0,
+          total_satoshis_sent: 0,
+          total_satoshis_received: 0,
+          num_updates: String(commitment.localCommit?.index ?? 0),
+          pending_htlcs: (spec.htlcs || []).map((htlc: any) => ({
+            forwarding_channel: '',
+            amount: Math.floor(htlc.add.amountMsat / 1000),
+            expiration_height: htlc.add.cltvExpiry,
+            hash_lock: htlc.add.paymentHash,
+            incoming: htlc.direction === 'IN'
+          }))
+        }
+      })
+    } catch (error) {
+      throw this.handleError('LIGHTNING_CHANNELS_FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Payments sent, from the audit log
+   */
+  async listPayments(): Promise<LightningPayment[]> {
+    try {
+      const { sent } = await this.call('audit')
+      return sent.map((payment: any) => toLightningPayment(payment, ''))
+    } catch (error) {
+      throw this.handleError('LIGHTNING_PAYMENTS_FETCH_FAILED', error)
+    }
+  }
+
+  protected async connectPeer(pubkey: string, host: string): Promise<void> {
+    // Answers "already connected" rather than failing when it is
+    await this.call('connect', { uri: `${pubkey}@${host}` })
+  }
+
+  // Every part sent for the payment hash so far, retries included
+  private async listAttempts(paymentHash: string): Promise<{ paymentHash: string; attempts: HtlcAttempt[] } | null> {
+    const parts = await this.call('getsentinfo', { paymentHash })
+    if (!parts.length) {
+      return null
+    }
+    return {
+      paymentHash,
+      attempts: parts.map((part: any): HtlcAttempt => ({
+        id: part.id,
+        status: PART_STATUSES[part.status.type] || 'in_flight',
+        amountSat: part.amount / 1000,
+        feeSat: (part.status.feesPaid || 0) / 1000,
+        hops: part.status.route?.length,
+        failure: part.status.failures?.[0]?.failureMessage
+      }))
+    }
+  }
+
+  private async call(method: string, params: Record<string, string | number | boolean> = {}): Promise<any> {
+    const body = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => body.append(key, String(value)))
+
+    const response = await fetch(`${this.url}/${method}`, {
+      method: 'POST',
+      headers: { ...(this.authorization ? { Authorization: this.authorization } : {}), 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString()
+    })
+
+    const result = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(`${method} failed: ${result?.error || `HTTP ${response.status}`}`)
+    }
+    return result
+  }
+}
+
+// An invoice as Eclair serializes it: amount in millisatoshis, timestamp and expiry in seconds
+function toLightningInvoice(raw: any, status: LightningInvoice['status']): LightningInvoice {
+  return {
+    paymentHash: raw.paymentHash,
+    bolt11: raw.serialized,
+    amount: (raw.amount || 0) / 100000000000,
+    timestamp: new Date(raw.timestamp * 1000),
+    expiry: new Date((raw.timestamp + (raw.expiry ?? INVOICE_EXPIRY)) * 1000),
+    memo: raw.description,
+    status
+  }
+}
+
+function invoiceStatus(received: any): LightningInvoice['status'] {
+  switch (received.status?.type) {
+    case 'received':
+      return 'paid'
+    case 'expired':
+      return 'expired'
+    default:
+      return 'pending'
+  }
+}
+
+// A PaymentSent event, from payinvoice or the audit log; every part reports its own fee and time
+function toLightningPayment(raw: any, invoice: string): LightningPayment {
+  const parts = raw.parts || []
+  const feeMsat = parts.reduce((sum: number, part: any) => sum + (part.feesPaid || 0), 0)
+  const amountMsat = raw.recipientAmount
+  const sentAt = parts.length ? unixTime(parts[0].timestamp) : Date.now() / 1000
+
+  return {
+    payment_hash: raw.paymentHash,
+    value: Math.floor(amountMsat / 1000),
+    creation_date: new Date(sentAt * 1000).toISOString(),
+    fee: Math.floor(feeMsat / 1000),
+    payment_preimage: raw.paymentPreimage,
+    value_sat: Math.floor(amountMsat / 1000),
+    value_msat: String(amountMsat),
+    payment_request: invoice,
+    status: 'SUCCEEDED',
+    fee_sat: Math.floor(feeMsat / 1000),
+    fee_msat: String(feeMsat),
+    creation_time_ns: String(Math.round(sentAt * 1000) * 1000000),
+    htlcs: []
+  }
+}
+
+// Timestamps are { unix, iso } objects on current releases and epoch milliseconds on older ones
+function unixTime(timestamp: any): number {
+  return typeof timestamp === 'number' ? timestamp / 1000 : timestamp.unix
+}
@@ -0,0 +1,477 @@
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js'
+import {
+  ConditionalDeposit,
+  ConditionalDepositOptions,
+  ConditionalDepositService,
+  HoldInvoiceState,
+  LightningService,
+  PaymentRouterService,
+  RouterPaymentStatus
+} from '@/types/atomiq'
+import { INVOICE_EXPIRY } from './nodeService'
+
+export type ConditionalDepositListener = (deposit: ConditionalDeposit) => void
+
+export const DEFAULT_HOLD_POLL_INTERVAL_MS = 2000
+export const DEFAULT_COMPLETE_TIMEOUT_MS = 2 * 60 * 1000
+export const DEFAULT_HOLD_CLTV_EXPIRY = 18 // blocks, BOLT 11's default when the node picks the invoice's
+
+// A held HTLC is given back this many blocks before its CLTV expiry, at ten minutes a block
+const CLTV_SAFETY_BLOCKS = 6
+const BLOCK_INTERVAL_MS = 10 * 60 * 1000
+
+// refund_payment needs a reason unless the payment has expired
+const REFUND_REASON = 'htlc returned'
+const LOST_PREIMAGE = 'The preimage was lost on restart, so the invoice can no longer be settled'
+
+export interface ConditionalDepositState {
+  deposits: ConditionalDeposit[]
+  completing: string[]
+  settling: string[]
+  canceling: string[]
+}
+
+export interface ConditionalDepositStore {
+  load(): ConditionalDepositState | null
+  save(state: ConditionalDepositState): void
+}
+
+/**
+ * Keeps conditional deposits in memory only
+ */
+export class MemoryConditionalDepositStore implements ConditionalDepositStore {
+  private state: ConditionalDepositState | null = null
+
+  load(): ConditionalDepositState | null {
+    return this.state
+  }
+
+  save(state: ConditionalDepositState): void {
+    this.state = state
+  }
+}
+
+/**
+ * Persists conditional deposits in localStorage, falling back to memory outside the browser. Preimages are
+ * never part of the state, so nothing that could claim a payer's HTLC is written to storage.
+ */
+export class LocalStorageConditionalDepositStore implements ConditionalDepositStore {
+  private fallback = new MemoryConditionalDepositStore()
+
+  constructor(private storageKey: string) {}
+
+  load(): ConditionalDepositState | null {
+    if (typeof localStorage === 'undefined') {
+      return this.fallback.load()
+    }
+
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? JSON.parse(stored) : null
+    } catch (error) {
+      console.error('Failed to load conditional deposits:', error)
+      return null
+    }
+  }
+
+  save(state: ConditionalDepositState): void {
+    if (typeof localStorage === 'undefined') {
+      this.fallback.save(state)
+      return
+    }
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(state))
+    } catch (error) {
+      console.error('Failed to save conditional deposits:', error)
+    }
+  }
+}
+
+/**
+ * Deposits that only go through if the Starknet side does. Each is a hold invoice tied to a PaymentRouter
+ * payment: once the payer's HTLC is held, `complete_payment` is sent with the preimage as its proof, and
+ * the invoice is settled only after that succeeds. If it fails the invoice is canceled and the HTLC goes
+ * back to the payer. If it takes longer than `completeTimeoutMs` the router payment is polled instead,
+ * and the HTLC is held until the payment completes or fails, or its CLTV expiry comes near.
+ *
+ * An HTLC is only given back once the router payment can no longer complete: it is refunded first, and a
+ * complete_payment still on its way then reverts instead of landing after the HTLC is gone. Until the
+ * refund is confirmed the HTLC stays held.
+ *
+ * Preimages live in memory only and are drawn below 2^251 so they fit the contract's felt252 proof. After a
+ * restart the deposits come back from the store; a payment that completed is settled with the proof read
+ * back from the contract, and the others are refunded and given back.
+ */
+export class HoldInvoiceOrchestrator implements ConditionalDepositService {
+  private lightning: LightningService
+  private router: PaymentRouterService
+  private pollInterval: number
+  private completeTimeout: number
+  private expiry: number
+  private cltvExpiry?: number
+
+  private deposits: Map<string, ConditionalDeposit> = new Map()
+  private preimages: Map<string, string> = new Map() // by deposit id, until the invoice is settled or canceled
+  private completing: Set<string> = new Set() // complete_payment timed out, router payment still pending
+  private settling: Set<string> = new Set() // completed on Starknet, HTLC still to claim
+  private canceling: Set<string> = new Set() // Starknet side failed, HTLC still to give back
+  private listeners: Set<ConditionalDepositListener> = new Set()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private polling: Promise<void> | null = null
+  private sequence = 0
+
+  constructor(
+    lightning: LightningService,
+    router: PaymentRouterService,
+    options: ConditionalDepositOptions = {},
+    private store: ConditionalDepositStore = new MemoryConditionalDepositStore()
+  ) {
+    this.lightning = lightning
+    this.router = router
+    this.pollInterval = options.pollIntervalMs ?? DEFAULT_HOLD_POLL_INTERVAL_MS
+    this.completeTimeout = options.completeTimeoutMs ?? DEFAULT_COMPLETE_TIMEOUT_MS
+    this.expiry = options.expiry ?? INVOICE_EXPIRY
+    this.cltvExpiry = options.cltvExpiry
+    this.restore()
+  }
+
+  /**
+   * Create the hold invoice and its PaymentRouter payment; amount in BTC. The payment expires with the
+   * invoice, so it can still be completed whenever the invoice can be paid.
+   */
+  async create(amount: number, memo?: string): Promise<ConditionalDeposit> {
+    const preimage = randomPreimage()
+    const paymentHash = bytesToHex(sha256(hexToBytes(preimage)))
+    const invoice = await this.lightning.createHoldInvoice(paymentHash, amount, {
+      memo,
+      expiry: this.expiry,
+      cltvExpiry: this.cltvExpiry
+    })
+
+    let paymentId: string
+    try {
+      paymentId = await this.router.createPayment(Math.round(amount * 100000000), invoiceFelt(paymentHash), invoice.expiry)
+    } catch (error) {
+      await this.lightning.cancelHoldInvoice(paymentHash).catch(() => undefined)
+      throw error
+    }
+
+    const deposit: ConditionalDeposit = {
+      id: `deposit_${Date.now()}_${this.sequence++}`,
+      paymentId,
+      invoice,
+      amount,
+      status: 'awaiting_payment',
+      createdAt: new Date()
+    }
+    this.deposits.set(deposit.id, deposit)
+    this.preimages.set(deposit.id, preimage)
+    this.persist()
+    this.notify(deposit)
+    this.schedule()
+    return { ...deposit }
+  }
+
+  getDeposit(id: string): ConditionalDeposit | undefined {
+    const deposit = this.deposits.get(id)
+    return deposit && { ...deposit }
+  }
+
+  listDeposits(): ConditionalDeposit[] {
+    return Array.from(this.deposits.values()).map(deposit => ({ ...deposit }))
+  }
+
+  subscribe(listener: ConditionalDepositListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Check every deposit still in flight and move it along
+   */
+  refresh(): Promise<void> {
+    if (!this.polling) {
+      this.polling = Promise.all(this.active().map(deposit => this.advance(deposit))).then(() => undefined).finally(() => {
+        this.polling = null
+      })
+    }
+    return this.polling
+  }
+
+  /**
+   * Stop polling; held HTLCs stay held until the next refresh or their expiry
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async advance(deposit: ConditionalDeposit): Promise<void> {
+    let state: HoldInvoiceState
+    try {
+      state = await this.lightning.getHoldInvoiceState(deposit.invoice.paymentHash)
+    } catch (error) {
+      console.error(`Checking hold invoice ${deposit.invoice.paymentHash} failed:`, (error as Error).message)
+      return
+    }
+
+    switch (state) {
+      case 'open':
+        if (!this.preimages.has(deposit.id)) {
+          await this.giveBack(deposit, LOST_PREIMAGE)
+        }
+        break
+      case 'accepted':
+        if (this.settling.has(deposit.id)) {
+          await this.settle(deposit)
+        } else if (this.canceling.has(deposit.id)) {
+          await this.cancel(deposit)
+        } else if (this.completing.has(deposit.id)) {
+          await this.awaitCompletion(deposit)
+        } else if (!this.preimages.has(deposit.id)) {
+          await this.giveBack(deposit, LOST_PREIMAGE)
+        } else {
+          await this.complete(deposit)
+        }
+        break
+      case 'settled':
+        this.finish(deposit, { status: 'completed', error: undefined })
+        break
+      case 'canceled':
+        this.finish(deposit, this.settling.has(deposit.id)
+          ? { status: 'canceled', error: 'The HTLC was canceled after the payment completed on Starknet' }
+          : { status: deposit.status === 'held' ? 'canceled' : 'expired' })
+        break
+    }
+  }
+
+  private async complete(deposit: ConditionalDeposit): Promise<void> {
+    this.update(deposit, { status: 'held', heldAt: deposit.heldAt ?? new Date() })
+    const proof = `0x${this.preimages.get(deposit.id)}`
+    const call = this.router.completePayment(deposit.paymentId, proof)
+
+    try {
+      const completeTxHash = await withTimeout(call, this.completeTimeout)
+      this.settling.add(deposit.id)
+      this.update(deposit, { completeTxHash })
+    } catch (error) {
+      if (error instanceof CompletionTimeout) {
+        // The call may still go through, so the router payment is followed from here on
+        call.then(completeTxHash => this.update(deposit, { completeTxHash }), () => undefined)
+        this.completing.add(deposit.id)
+        this.update(deposit, { error: error.message })
+        await this.awaitCompletion(deposit)
+        return
+      }
+
+      // A failed call may have raced one that went through, and then the HTLC is ours to claim
+      const status = await this.router.getPaymentStatus(deposit.paymentId).catch(() => 'pending')
+      if (status === 'completed') {
+        this.settling.add(deposit.id)
+      } else {
+        this.canceling.add(deposit.id)
+        this.update(deposit, { error: (error as Error).message })
+      }
+    }
+
+    if (this.settling.has(deposit.id)) {
+      await this.settle(deposit)
+    } else {
+      await this.cancel(deposit)
+    }
+  }
+
+  // Settle once the router payment completes, and give the HTLC back if it fails or the CLTV deadline nears
+  private async awaitCompletion(deposit: ConditionalDeposit): Promise<void> {
+    const status: RouterPaymentStatus = await this.router.getPaymentStatus(deposit.paymentId).catch(() => 'pending' as const)
+
+    if (status === 'completed') {
+      this.completing.delete(deposit.id)
+      this.settling.add(deposit.id)
+      this.update(deposit, { error: undefined })
+      await this.settle(deposit)
+    } else if (status !== 'pending') {
+      await this.giveBack(deposit, `The PaymentRouter payment is ${status}`)
+    } else if (Date.now() >= this.cancelDeadline(deposit)) {
+      await this.giveBack(deposit, 'complete_payment did not finish before the HTLC neared its CLTV expiry')
+    }
+  }
+
+  private async giveBack(deposit: ConditionalDeposit, error: string): Promise<void> {
+    this.completing.delete(deposit.id)
+    this.canceling.add(deposit.id)
+    this.update(deposit, { error })
+    await this.cancel(deposit)
+  }
+
+  // The HTLC's expiry is at least the invoice's CLTV delta past the block it was accepted in
+  private cancelDeadline(deposit: ConditionalDeposit): number {
+    const blocks = Math.max(0, (this.cltvExpiry ?? DEFAULT_HOLD_CLTV_EXPIRY) - CLTV_SAFETY_BLOCKS)
+    return (deposit.heldAt ?? deposit.createdAt).getTime() + blocks * BLOCK_INTERVAL_MS
+  }
+
+  // Retried on the next refresh if the node refuses
+  private async settle(deposit: ConditionalDeposit): Promise<void> {
+    try {
+      await this.lightning.settleHoldInvoice(await this.preimage(deposit))
+      this.finish(deposit, { status: 'completed', error: undefined })
+    } catch (error) {
+      this.update(deposit, { error: (error as Error).message })
+    }
+  }
+
+  // A completed payment carries the preimage as its proof, which is where it comes from after a restart
+  private async preimage(deposit: ConditionalDeposit): Promise<string> {
+    const known = this.preimages.get(deposit.id)
+    if (known) return known
+
+    const proof = await this.router.getPaymentProof(deposit.paymentId)
+    const preimage = BigInt(proof).toString(16).padStart(64, '0')
+    if (preimage.length !== 64 || bytesToHex(sha256(hexToBytes(preimage))) !== deposit.invoice.paymentHash) {
+      throw new Error(`Payment ${deposit.paymentId} was completed with a proof that is not the invoice's preimage`)
+    }
+    this.preimages.set(deposit.id, preimage)
+    return preimage
+  }
+
+  // Refund first and give the HTLC back only once that is confirmed; retried on the next refresh otherwise
+  private async cancel(deposit: ConditionalDeposit): Promise<void> {
+    const status = await this.refund(deposit)
+    if (status === 'completed') {
+      // complete_payment landed after all, so the HTLC is ours to claim
+      this.canceling.delete(deposit.id)
+      this.settling.add(deposit.id)
+      this.update(deposit, { error: undefined })
+      await this.settle(deposit)
+      return
+    }
+    if (status === 'pending') return
+
+    try {
+      await this.lightning.cancelHoldInvoice(deposit.invoice.paymentHash)
+      this.finish(deposit, { status: 'canceled' })
+    } catch (error) {
+      console.error(`Canceling hold invoice ${deposit.invoice.paymentHash} failed:`, (error as Error).message)
+    }
+  }
+
+  // The router payment's status once a refund has been tried: anything but pending or completed is final
+  private async refund(deposit: ConditionalDeposit): Promise<RouterPaymentStatus> {
+    if (this.deposits.get(deposit.id)!.refundTxHash) return 'refunded'
+
+    const status: RouterPaymentStatus = await this.router.getPaymentStatus(deposit.paymentId).catch(() => 'pending' as const)
+    if (status !== 'pending') return status
+
+    try {
+      const refundTxHash = await this.router.refundPayment(deposit.paymentId, REFUND_REASON)
+      this.update(deposit, { refundTxHash })
+      return 'refunded'
+    } catch (error) {
+      // It may have lost a race with complete_payment
+      const after: RouterPaymentStatus = await this.router.getPaymentStatus(deposit.paymentId).catch(() => 'pending' as const)
+      if (after === 'pending') {
+        this.update(deposit, { error: `Refunding the PaymentRouter payment failed: ${(error as Error).message}` })
+      }
+      return after
+    }
+  }
+
+  private finish(deposit: ConditionalDeposit, changes: Partial<ConditionalDeposit>): void {
+    this.preimages.delete(deposit.id)
+    this.completing.delete(deposit.id)
+    this.settling.delete(deposit.id)
+    this.canceling.delete(deposit.id)
+    this.update(deposit, changes)
+  }
+
+  private active(): ConditionalDeposit[] {
+    return Array.from(this.deposits.values())
+      .filter(deposit => deposit.status === 'awaiting_payment' || deposit.status === 'held')
+  }
+
+  private schedule(): void {
+    if (!this.timer) {
+      this.timer = setTimeout(async () => {
+        await this.refresh()
+        this.timer = null
+        if (this.active().length > 0) {
+          this.schedule()
+        }
+      }, this.pollInterval)
+    }
+  }
+
+  // Deposits are replaced rather than changed in place, so copies already handed out never change
+  private update(deposit: ConditionalDeposit, changes: Partial<ConditionalDeposit>): void {
+    const updated = { ...this.deposits.get(deposit.id)!, ...changes }
+    this.deposits.set(deposit.id, updated)
+    this.persist()
+    this.notify(updated)
+  }
+
+  private persist(): void {
+    this.store.save({
+      deposits: Array.from(this.deposits.values()),
+      completing: Array.from(this.completing),
+      settling: Array.from(this.settling),
+      canceling: Array.from(this.canceling)
+    })
+  }
+
+  // Dates come back as strings from JSON stores; polling resumes for deposits still in flight
+  private restore(): void {
+    const state = this.store.load()
+    if (!state) return
+
+    state.deposits.forEach(deposit => this.deposits.set(deposit.id, {
+      ...deposit,
+      invoice: { ...deposit.invoice, timestamp: new Date(deposit.invoice.timestamp), expiry: new Date(deposit.invoice.expiry) },
+      createdAt: new Date(deposit.createdAt),
+      heldAt: deposit.heldAt && new Date(deposit.heldAt)
+    }))
+    state.completing.forEach(id => this.completing.add(id))
+    state.settling.forEach(id => this.settling.add(id))
+    state.canceling.forEach(id => this.canceling.add(id))
+
+    if (this.active().length > 0) {
+      this.schedule()
+    }
+  }
+
+  private notify(deposit: ConditionalDeposit): void {
+    this.listeners.forEach(listener => listener({ ...deposit }))
+  }
+}
+
+// 32 random bytes with the top five bits cleared, below the felt252 modulus
+function randomPreimage(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  bytes[0] &= 0x07
+  return bytesToHex(bytes)
+}
+
+// The PaymentRouter keys payments by a felt252; the first 31 bytes of the payment hash always fit
+function invoiceFelt(paymentHash: string): string {
+  return `0x${paymentHash.slice(0, 62)}`
+}
+
+class CompletionTimeout extends Error {
+  constructor(ms: number) {
+    super(`complete_payment did not finish within ${ms / 1000}s`)
+    this.name = 'CompletionTimeout'
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CompletionTimeout(ms)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
@@ -0,0 +1,318 @@
+import { InvoiceSubscriptionOptions, LightningInvoiceEvent } from '@/types/atomiq'
+import { LightningInvoice } from '@/types/vault'
+
+/**
+ * A connection carrying LND's invoice updates, one JSON message per `onMessage`
+ */
+export interface InvoiceStreamTransport {
+  open(onMessage: (message: string) => void, onClose: (error?: Error) => void): Promise<void>
+  close(): void
+}
+
+export interface InvoiceStreamOptions extends InvoiceSubscriptionOptions {
+  // Opens a stream that replays updates after the given indexes before going live
+  transport: (addIndex: number, settleIndex: number) => InvoiceStreamTransport
+  // The invoice as LND's REST API returns it, by its base64 `r_hash`
+  lookupInvoice: (rHash: string) => Promise<any>
+}
+
+const MAX_RECONNECT_DELAY = 30000
+
+/**
+ * `/v1/invoices/subscribe` read from a streamed REST response: newline-delimited JSON, each update
+ * wrapped in `result`. Needs a fetch whose response body can be read as it arrives.
+ */
+export class FetchStreamTransport implements InvoiceStreamTransport {
+  private controller: AbortController | null = null
+
+  constructor(private url: string, private macaroon: string) {}
+
+  async open(onMessage: (message: string) => void, onClose: (error?: Error) => void): Promise<void> {
+    const controller = new AbortController()
+    const response = await fetch(this.url, {
+      headers: { 'Grpc-Metadata-macaroon': this.macaroon },
+      signal: controller.signal
+    })
+    const body = response.body
+    if (!response.ok || !body) {
+      throw new Error(`Invoice stream failed with status ${response.status}`)
+    }
+    this.controller = controller
+
+    const read = async (): Promise<void> => {
+      try {
+        await readLines(body, onMessage)
+        onClose(new Error('Invoice stream ended'))
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          onClose(error as Error)
+        }
+      }
+    }
+    read()
+  }
+
+  close(): void {
+    this.controller?.abort()
+    this.controller = null
+  }
+}
+
+/**
+ * Hand each line of a streamed response body to `onLine` as it arrives, until the body ends. An error
+ * thrown by `onLine` cancels the rest of the stream and rejects.
+ */
+export async function readLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      lines.filter(line => line.trim()).forEach(onLine)
+    }
+    if (buffer.trim()) {
+      onLine(buffer)
+    }
+  } catch (error) {
+    reader.cancel().catch(() => undefined)
+    throw error
+  }
+}
+
+/**
+ * The same stream over LND's WebSocket proxy, which browsers can open when they cannot stream a
+ * fetch. Browsers cannot set headers on a WebSocket, so the macaroon rides in the subprotocol.
+ */
+export class WebSocketStreamTransport implements InvoiceStreamTransport {
+  private socket: WebSocket | null = null
+
+  constructor(private url: string, private macaroon: string) {}
+
+  open(onMessage: (message: string) => void, onClose: (error?: Error) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url, [`Grpc-Metadata-Macaroon+${this.macaroon}`])
+      let opened = false
+
+      socket.onopen = () => {
+        opened = true
+        resolve()
+      }
+      socket.onmessage = event => onMessage(String(event.data))
+      socket.onerror = () => {
+        if (!opened) {
+          reject(new Error(`Could not open the invoice stream at ${this.url}`))
+        }
+      }
+      socket.onclose = () => {
+        if (opened) {
+          onClose(new Error('Invoice stream closed'))
+        }
+      }
+      this.socket = socket
+    })
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.onclose = null
+      this.socket.close()
+      this.socket = null
+    }
+  }
+}
+
+/**
+ * Follows invoice updates and reports settled, canceled and expired invoices. It remembers the last
+ * `add_index` and `settle_index` seen, so after a dropped connection LND replays what was missed;
+ * cancellations carry no index of their own, so open invoices are looked up again on reconnect.
+ */
+export class InvoiceStream {
+  private options: InvoiceStreamOptions
+  private listener: (event: LightningInvoiceEvent) => void
+  private transport: InvoiceStreamTransport | null = null
+  private addIndex: number
+  private settleIndex: number
+  private open: Set<string> = new Set() // r_hash of invoices still open
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectDelay = 1000
+  private closed = false
+
+  constructor(listener: (event: LightningInvoiceEvent) => void, options: InvoiceStreamOptions) {
+    this.listener = listener
+    this.options = options
+    this.addIndex = options.addIndex ?? 0
+    this.settleIndex = options.settleIndex ?? 0
+  }
+
+  /**
+   * Connect, and keep reconnecting until closed if the node cannot be reached
+   */
+  start(): void {
+    this.closed = false
+    this.connect().catch(error => {
+      console.error('Invoice stream unavailable, retrying:', error?.message)
+      this.scheduleReconnect()
+    })
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.transport?.close()
+    this.transport = null
+  }
+
+  getResumeIndexes(): Required<InvoiceSubscriptionOptions> {
+    return { addIndex: this.addIndex, settleIndex: this.settleIndex }
+  }
+
+  private async connect(): Promise<void> {
+    const transport = this.options.transport(this.addIndex, this.settleIndex)
+    await transport.open(
+      message => this.handleMessage(message),
+      error => this.handleClose(transport, error)
+    )
+    if (this.closed) {
+      transport.close()
+      return
+    }
+    this.transport = transport
+    this.reconnectDelay = 1000
+  }
+
+  private handleMessage(message: string): void {
+    let parsed: any
+    try {
+      parsed = JSON.parse(message)
+    } catch (error) {
+      console.error('Ignoring malformed invoice update:', message)
+      return
+    }
+
+    if (parsed.error) {
+      console.error('Invoice stream error:', parsed.error.message || parsed.error)
+      return
+    }
+    this.handleInvoice(parsed.result || parsed)
+  }
+
+  private handleInvoice(raw: any): void {
+    const addIndex = Number(raw.add_index || 0)
+    const settleIndex = Number(raw.settle_index || 0)
+    this.addIndex = Math.max(this.addIndex, addIndex)
+    this.settleIndex = Math.max(this.settleIndex, settleIndex)
+
+    const state = invoiceState(raw)
+    if (state === 'OPEN' || state === 'ACCEPTED') {
+      this.open.add(raw.r_hash)
+      return
+    }
+    this.open.delete(raw.r_hash)
+
+    const invoice = toLightningInvoice(raw)
+    const event: LightningInvoiceEvent = state === 'SETTLED'
+      ? {
+        type: 'settled',
+        invoice,
+        amountPaid: Number(raw.amt_paid_sat ?? raw.value) / 100000000,
+        addIndex,
+        settleIndex
+      }
+      : { type: invoice.expiry.getTime() <= Date.now() ? 'expired' : 'canceled', invoice, addIndex }
+
+    try {
+      this.listener(event)
+    } catch (error) {
+      console.error('Invoice listener failed:', error)
+    }
+  }
+
+  private handleClose(transport: InvoiceStreamTransport, error?: Error): void {
+    if (this.transport !== transport) {
+      return
+    }
+
+    this.transport = null
+    transport.close()
+    if (!this.closed) {
+      console.error('Invoice stream dropped, reconnecting:', error?.message)
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return
+    }
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
+      try {
+        await this.connect()
+
+        // Settlements are replayed from settle_index, but an invoice canceled meanwhile has to be asked about
+        for (const rHash of Array.from(this.open)) {
+          this.handleInvoice(await this.options.lookupInvoice(rHash))
+        }
+      } catch (error) {
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY)
+        this.scheduleReconnect()
+      }
+    }, this.reconnectDelay)
+  }
+}
+
+/**
+ * An invoice as LND's REST API returns it; canceled invoices read as expired, whatever canceled them
+ */
+export function toLightningInvoice(raw: any): LightningInvoice {
+  const state = invoiceState(raw)
+  return {
+    paymentHash: raw.r_hash,
+    bolt11: raw.payment_request,
+    amount: raw.value / 100000000,
+    timestamp: new Date(raw.creation_date * 1000),
+    expiry: new Date((Number(raw.creation_date) + Number(raw.expiry)) * 1000),
+    memo: raw.memo,
+    status: state === 'SETTLED' ? 'paid' : state === 'CANCELED' ? 'expired' : 'pending'
+  }
+}
+
+/**
+ * LND's REST API returns hashes base64-encoded but takes them hex-encoded in URL paths
+ */
+export function rHashToHex(rHash: string): string {
+  if (/^[0-9a-f]{64}$/i.test(rHash)) {
+    return rHash.toLowerCase()
+  }
+  return Array.from(atob(rHash.replace(/-/g, '+').replace(/_/g, '/')))
+    .map(char => char.charCodeAt(0).toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * The other way round, for hashes and preimages sent in request bodies
+ */
+export function hexToRHash(hex: string): string {
+  return btoa((hex.match(/../g) || []).map(byte => String.fromCharCode(parseInt(byte, 16))).join(''))
+}
+
+// `state` on current LND; older nodes and the JSON of some proxies only have the `settled` flag
+function invoiceState(raw: any): 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED' {
+  if (raw.state) {
+    return raw.state
+  }
+  return raw.settled ? 'SETTLED' : raw.canceled ? 'CANCELED' : 'OPEN'
+}
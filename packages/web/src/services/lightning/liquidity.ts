@@ -0,0 +1,186 @@
+import {
+  ChannelLiquidity,
+  LightningChannel,
+  LightningService,
+  LiquidityCheck,
+  LiquidityOptions,
+  LiquidityService,
+  LiquiditySnapshot,
+  PaymentFeeLimit,
+  RebalanceResult,
+  RebalanceSuggestion
+} from '@/types/atomiq'
+import { feeLimitMsat } from './nodeService'
+
+export const DEFAULT_TARGET_RATIO = 0.5
+export const DEFAULT_TOLERANCE = 0.2
+export const DEFAULT_MIN_REBALANCE_SAT = 10000
+export const DEFAULT_REBALANCE_FEE_BUDGET: PaymentFeeLimit = { ppm: 500 }
+export const DEFAULT_TOTAL_FEE_BUDGET_SAT = 5000
+export const DEFAULT_RESERVE_RATIO = 0.01
+
+/**
+ * What the node's channels can carry, read from `getChannels()`. Invoices and payments are checked
+ * against it before they are issued or sent, and channels that drift too far to one side are evened
+ * out by paying ourselves in a circle: out over a channel with too much on our side, back in over one
+ * with too little. Each rebalance may spend up to `feeBudget` on fees, and all of them together up to
+ * `totalFeeBudgetSat`; once that is spent, rebalancing stops.
+ */
+export class ChannelLiquidityManager implements LiquidityService {
+  private lightning: LightningService
+  private targetRatio: number
+  private tolerance: number
+  private minRebalance: number
+  private feeBudget: PaymentFeeLimit
+  private totalFeeBudget: number
+  private reserveRatio: number
+  private spent = 0 // sats, on rebalances that went through
+
+  constructor(lightning: LightningService, options: LiquidityOptions = {}) {
+    this.lightning = lightning
+    this.targetRatio = options.targetRatio ?? DEFAULT_TARGET_RATIO
+    this.tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+    this.minRebalance = options.minRebalanceSat ?? DEFAULT_MIN_REBALANCE_SAT
+    this.feeBudget = options.feeBudget ?? DEFAULT_REBALANCE_FEE_BUDGET
+    this.totalFeeBudget = options.totalFeeBudgetSat ?? DEFAULT_TOTAL_FEE_BUDGET_SAT
+    this.reserveRatio = options.reserveRatio ?? DEFAULT_RESERVE_RATIO
+  }
+
+  async getLiquidity(): Promise<LiquiditySnapshot> {
+    const channels = (await this.lightning.getChannels()).map(channel => this.toLiquidity(channel))
+    const active = channels.filter(channel => channel.active)
+    return {
+      channels,
+      outbound: active.reduce((sum, channel) => sum + channel.outbound, 0),
+      inbound: active.reduce((sum, channel) => sum + channel.inbound, 0),
+      checkedAt: new Date()
+    }
+  }
+
+  /**
+   * Whether an invoice for `amount` BTC could be paid to us
+   */
+  checkReceive(amount: number): Promise<LiquidityCheck> {
+    return this.check('inbound', amount)
+  }
+
+  /**
+   * Whether we could pay `amount` BTC; routing fees come on top
+   */
+  checkSend(amount: number): Promise<LiquidityCheck> {
+    return this.check('outbound', amount)
+  }
+
+  /**
+   * Pair channels above the target ratio with channels below it, moving as much as brings either back
+   * to the target. Channels within `tolerance` of it are left alone.
+   */
+  async suggestRebalances(snapshot?: LiquiditySnapshot): Promise<RebalanceSuggestion[]> {
+    const { channels } = snapshot ?? await this.getLiquidity()
+    const drifted = channels
+      .filter(channel => channel.active && Math.abs(channel.localRatio - this.targetRatio) > this.tolerance)
+      .map(channel => ({
+        channel,
+        excess: Math.round(channel.localBalance - this.targetRatio * (channel.localBalance + channel.remoteBalance))
+      }))
+      .sort((a, b) => Math.abs(b.excess) - Math.abs(a.excess))
+
+    // What each side can actually give or take, whatever the target says
+    const sources = drifted.filter(({ excess }) => excess > 0)
+      .map(({ channel, excess }) => ({ channel, left: Math.min(excess, channel.outbound) }))
+    const sinks = drifted.filter(({ excess }) => excess < 0)
+      .map(({ channel, excess }) => ({ channel, left: Math.min(-excess, channel.inbound) }))
+
+    const suggestions: RebalanceSuggestion[] = []
+    for (const source of sources) {
+      for (const sink of sinks) {
+        const amountSat = Math.min(source.left, sink.left)
+        if (amountSat < this.minRebalance) {
+          continue
+        }
+        suggestions.push({
+          outgoingChanId: source.channel.chanId,
+          incomingChanId: sink.channel.chanId,
+          amountSat,
+          maxFeeSat: Math.floor(feeLimitMsat(this.feeBudget, amountSat * 1000) / 1000)
+        })
+        source.left -= amountSat
+        sink.left -= amountSat
+      }
+    }
+    return suggestions
+  }
+
+  /**
+   * Carry out a suggestion, spending no more than what is left of the total fee budget
+   */
+  async rebalance(suggestion: RebalanceSuggestion): Promise<RebalanceResult> {
+    const remaining = this.totalFeeBudget - this.spent
+    if (remaining <= 0) {
+      throw new Error(`The ${this.totalFeeBudget} sat rebalancing fee budget is spent`)
+    }
+
+    const maxFeeSat = Math.min(suggestion.maxFeeSat, remaining)
+    const payment = await this.lightning.rebalanceChannels(
+      suggestion.outgoingChanId,
+      suggestion.incomingChanId,
+      suggestion.amountSat,
+      { feeLimit: { fixed: maxFeeSat } }
+    )
+    this.spent += payment.fee_sat
+    return { ...suggestion, maxFeeSat, paymentHash: payment.payment_hash, feeSat: payment.fee_sat }
+  }
+
+  /**
+   * Carry out every suggestion in turn until the fee budget runs out; one that fails is skipped
+   */
+  async rebalanceAll(): Promise<RebalanceResult[]> {
+    const results: RebalanceResult[] = []
+    for (const suggestion of await this.suggestRebalances()) {
+      if (this.spent >= this.totalFeeBudget) {
+        break
+      }
+      try {
+        results.push(await this.rebalance(suggestion))
+      } catch (error) {
+        console.error(`Rebalancing ${suggestion.outgoingChanId} into ${suggestion.incomingChanId} failed:`, (error as Error).message)
+      }
+    }
+    return results
+  }
+
+  getFeeSpend(): { spentSat: number; budgetSat: number } {
+    return { spentSat: this.spent, budgetSat: this.totalFeeBudget }
+  }
+
+  private async check(direction: LiquidityCheck['direction'], amount: number): Promise<LiquidityCheck> {
+    const requiredSat = Math.round(amount * 100000000)
+    const usable = (await this.getLiquidity()).channels
+      .filter(channel => channel.active)
+      .map(channel => channel[direction])
+    const availableSat = usable.reduce((sum, sats) => sum + sats, 0)
+    return {
+      direction,
+      ok: availableSat >= requiredSat,
+      requiredSat,
+      availableSat,
+      largestChannelSat: Math.max(0, ...usable)
+    }
+  }
+
+  private toLiquidity(channel: LightningChannel): ChannelLiquidity {
+    const reserve = Math.ceil(channel.capacity * this.reserveRatio)
+    const balance = channel.local_balance + channel.remote_balance
+    return {
+      chanId: String(channel.chan_id),
+      remotePubkey: channel.remote_pubkey,
+      active: channel.active,
+      capacity: channel.capacity,
+      localBalance: channel.local_balance,
+      remoteBalance: channel.remote_balance,
+      outbound: Math.max(0, channel.local_balance - reserve),
+      inbound: Math.max(0, channel.remote_balance - reserve),
+      localRatio: balance > 0 ? channel.local_balance / balance : 0
+    }
+  }
+}
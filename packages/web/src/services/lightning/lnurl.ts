@@ -0,0 +1,340 @@
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js'
+import {
+  LnurlChannelRequest,
+  LnurlPayRequest,
+  LnurlRequest,
+  LnurlSuccessAction,
+  LnurlSuccessMessage,
+  LnurlWithdrawRequest
+} from '@/types/atomiq'
+import { decodeLightningInvoice } from '@/lib/bolt11'
+import { convertBits, decodeBech32 } from '@/lib/validation'
+
+export interface LnurlPayInvoice {
+  invoice: string
+  successAction?: LnurlSuccessAction
+}
+
+// LUD-17 schemes name the request type up front and stand for https (http for onion services)
+const LUD17_SCHEMES = /^(lnurlp|lnurlw|lnurlc|keyauth):\/\//i
+const LIGHTNING_ADDRESS = /^([a-z0-9\-_.+]+)@((?:[a-z0-9-]+\.)+[a-z0-9-]+)(:\d+)?$/i
+const MAX_SUCCESS_MESSAGE = 144
+
+const LNURL_KINDS: Record<LnurlRequest['tag'], string> = {
+  payRequest: 'LNURL-pay',
+  withdrawRequest: 'LNURL-withdraw',
+  channelRequest: 'LNURL-channel'
+}
+
+/**
+ * The URL behind an LNURL: a bech32 `lnurl1…` string, a LUD-17 `lnurlp://`-style link, an https link
+ * carrying one in `?lightning=`, or a `name@domain` Lightning Address. Null for anything else,
+ * including LNURLs that would be fetched over plain http outside an onion service.
+ */
+export function lnurlUrl(input: string): string | null {
+  const value = (input || '').trim().replace(/^lightning:/i, '')
+
+  if (/^lnurl1/i.test(value)) {
+    const decoded = decodeBech32(value, Infinity)
+    if (!decoded || decoded === 'mixed_case' || decoded.encoding !== 'bech32' || decoded.hrp !== 'lnurl') {
+      return null
+    }
+    const bytes = convertBits(decoded.data, 5, 8)
+    return bytes ? secureUrl(new TextDecoder().decode(new Uint8Array(bytes))) : null
+  }
+
+  if (LUD17_SCHEMES.test(value)) {
+    const url = value.replace(LUD17_SCHEMES, 'https://')
+    return secureUrl(isOnion(url) ? url.replace(/^https:/, 'http:') : url)
+  }
+
+  const address = LIGHTNING_ADDRESS.exec(value)
+  if (address) {
+    const [, name, domain, port = ''] = address
+    const scheme = domain.toLowerCase().endsWith('.onion') ? 'http' : 'https'
+    return `${scheme}://${domain.toLowerCase()}${port}/.well-known/lnurlp/${name.toLowerCase()}`
+  }
+
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      const fallback = new URL(value).searchParams.get('lightning')
+      return fallback && /^lnurl1/i.test(fallback) ? lnurlUrl(fallback) : null
+    } catch (error) {
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Whether a withdrawal destination is an LNURL or Lightning Address rather than an invoice or address
+ */
+export function isLnurlDestination(input: string): boolean {
+  return lnurlUrl(input) !== null
+}
+
+/**
+ * Read what an LNURL asks for. LNURL-withdraw links that carry their parameters in the query
+ * (LUD-08 fast withdraw) are answered without a request.
+ */
+export async function resolveLnurl(input: string): Promise<LnurlRequest> {
+  const url = lnurlUrl(input)
+  if (!url) {
+    throw new Error('Not an LNURL or Lightning Address')
+  }
+
+  const query = new URL(url).searchParams
+  const response = query.get('tag') === 'withdrawRequest' && query.get('callback') && query.get('k1')
+    ? Object.fromEntries(query.entries())
+    : await getJson(url)
+
+  const domain = new URL(url).hostname
+  switch (response.tag) {
+    case 'payRequest':
+      return readPayRequest(url, domain, response)
+    case 'withdrawRequest':
+      return readWithdrawRequest(url, domain, response)
+    case 'channelRequest':
+      return readChannelRequest(url, domain, response)
+    default:
+      throw new Error(`Unsupported LNURL request ${response.tag || '(no tag)'}`)
+  }
+}
+
+/**
+ * The request an LNURL stands for, resolving it first when given as a string, as long as it is of the kind expected
+ */
+export async function expectLnurl<T extends LnurlRequest['tag']>(
+  source: string | LnurlRequest,
+  tag: T
+): Promise<Extract<LnurlRequest, { tag: T }>> {
+  const request = typeof source === 'string' ? await resolveLnurl(source) : source
+  if (request.tag !== tag) {
+    throw new Error(`Expected an ${LNURL_KINDS[tag]} link, got an ${LNURL_KINDS[request.tag]} one`)
+  }
+  return request as Extract<LnurlRequest, { tag: T }>
+}
+
+/**
+ * Ask an LNURL-pay service for an invoice, and only hand it back if it commits to the service's
+ * metadata and is for exactly the amount asked for
+ */
+export async function fetchPayInvoice(
+  request: LnurlPayRequest,
+  amountMsat: number,
+  comment?: string
+): Promise<LnurlPayInvoice> {
+  if (amountMsat < request.minSendable || amountMsat > request.maxSendable) {
+    throw new Error(`${request.domain} accepts between ${formatSats(request.minSendable)} and ${formatSats(request.maxSendable)}`)
+  }
+  if (comment && comment.length > request.commentAllowed) {
+    throw new Error(request.commentAllowed > 0
+      ? `${request.domain} accepts comments of up to ${request.commentAllowed} characters`
+      : `${request.domain} does not accept comments`)
+  }
+
+  const callback = new URL(request.callback)
+  callback.searchParams.set('amount', String(amountMsat))
+  if (comment) {
+    callback.searchParams.set('comment', comment)
+  }
+  const response = await getJson(callback.toString())
+
+  const { valid, message, decoded } = decodeLightningInvoice(response.pr || '')
+  if (!valid || !decoded) {
+    throw new Error(`${request.domain} returned an unusable invoice: ${message}`)
+  }
+  if (decoded.amountMsat !== amountMsat) {
+    throw new Error(`${request.domain} returned an invoice for a different amount`)
+  }
+  if (decoded.descriptionHash !== bytesToHex(sha256(utf8ToBytes(request.metadata)))) {
+    throw new Error(`${request.domain} returned an invoice that does not match its metadata`)
+  }
+
+  return { invoice: response.pr, successAction: readSuccessAction(response.successAction, callback.hostname) }
+}
+
+/**
+ * Hand an LNURL-withdraw service the invoice it should pay
+ */
+export async function submitWithdrawInvoice(request: LnurlWithdrawRequest, invoice: string): Promise<void> {
+  const callback = new URL(request.callback)
+  callback.searchParams.set('k1', request.k1)
+  callback.searchParams.set('pr', invoice)
+  await getJson(callback.toString())
+}
+
+/**
+ * Ask an LNURL-channel service to open a channel to our node, once we are connected to theirs
+ */
+export async function submitChannelRequest(
+  request: LnurlChannelRequest,
+  nodePubkey: string,
+  privateChannel: boolean
+): Promise<void> {
+  const callback = new URL(request.callback)
+  callback.searchParams.set('k1', request.k1)
+  callback.searchParams.set('remoteid', nodePubkey)
+  callback.searchParams.set('private', privateChannel ? '1' : '0')
+  await getJson(callback.toString())
+}
+
+/**
+ * What to show once an LNURL-pay invoice is paid; `aes` actions are decrypted with the preimage
+ */
+export async function openSuccessAction(action: LnurlSuccessAction, preimage: string): Promise<LnurlSuccessMessage> {
+  switch (action.tag) {
+    case 'message':
+      return { tag: 'message', message: action.message }
+    case 'url':
+      return { tag: 'url', message: action.description, url: action.url }
+    case 'aes': {
+      const key = await crypto.subtle.importKey('raw', hexToBytes(preimage), 'AES-CBC', false, ['decrypt'])
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-CBC', iv: base64ToBytes(action.iv) }, key, base64ToBytes(action.ciphertext))
+      return { tag: 'aes', message: action.description, secret: new TextDecoder().decode(plaintext) }
+    }
+  }
+}
+
+function readPayRequest(url: string, domain: string, response: any): LnurlPayRequest {
+  const minSendable = Number(response.minSendable)
+  const maxSendable = Number(response.maxSendable)
+  if (!(minSendable > 0 && maxSendable >= minSendable)) {
+    throw new Error(`${domain} sent an invalid amount range`)
+  }
+
+  let entries: Array<[string, string]>
+  try {
+    entries = JSON.parse(response.metadata)
+  } catch (error) {
+    throw new Error(`${domain} sent unreadable metadata`)
+  }
+  const entry = (type: string) => Array.isArray(entries) ? entries.find(item => item[0] === type)?.[1] : undefined
+  const description = entry('text/plain')
+  if (description === undefined) {
+    throw new Error(`${domain} sent metadata without a description`)
+  }
+
+  const image = entry('image/png;base64') ? `data:image/png;base64,${entry('image/png;base64')}`
+    : entry('image/jpeg;base64') ? `data:image/jpeg;base64,${entry('image/jpeg;base64')}` : undefined
+
+  return {
+    tag: 'payRequest',
+    url,
+    domain,
+    callback: callbackUrl(response.callback, domain),
+    minSendable,
+    maxSendable,
+    metadata: response.metadata,
+    description,
+    longDescription: entry('text/long-desc'),
+    image,
+    identifier: entry('text/identifier') || entry('text/email'),
+    commentAllowed: Number(response.commentAllowed) || 0
+  }
+}
+
+function readWithdrawRequest(url: string, domain: string, response: any): LnurlWithdrawRequest {
+  const minWithdrawable = Number(response.minWithdrawable || 0)
+  const maxWithdrawable = Number(response.maxWithdrawable)
+  if (!response.k1 || !(maxWithdrawable > 0 && maxWithdrawable >= minWithdrawable)) {
+    throw new Error(`${domain} sent an invalid withdraw request`)
+  }
+
+  return {
+    tag: 'withdrawRequest',
+    url,
+    domain,
+    callback: callbackUrl(response.callback, domain),
+    k1: response.k1,
+    minWithdrawable,
+    maxWithdrawable,
+    defaultDescription: response.defaultDescription || ''
+  }
+}
+
+function readChannelRequest(url: string, domain: string, response: any): LnurlChannelRequest {
+  if (!response.k1 || !/^[0-9a-f]{66}@.+:\d+$/i.test(response.uri || '')) {
+    throw new Error(`${domain} sent an invalid channel request`)
+  }
+
+  return {
+    tag: 'channelRequest',
+    url,
+    domain,
+    uri: response.uri,
+    callback: callbackUrl(response.callback, domain),
+    k1: response.k1
+  }
+}
+
+// Success actions other than the three LUD-09 defines, or a url action pointing off the service's domain, are dropped
+function readSuccessAction(action: any, domain: string): LnurlSuccessAction | undefined {
+  switch (action?.tag) {
+    case 'message':
+      return typeof action.message === 'string'
+        ? { tag: 'message', message: action.message.slice(0, MAX_SUCCESS_MESSAGE) }
+        : undefined
+    case 'url':
+      try {
+        return new URL(action.url).hostname === domain
+          ? { tag: 'url', description: String(action.description || '').slice(0, MAX_SUCCESS_MESSAGE), url: action.url }
+          : undefined
+      } catch (error) {
+        return undefined
+      }
+    case 'aes':
+      return action.ciphertext && action.iv
+        ? { tag: 'aes', description: String(action.description || '').slice(0, MAX_SUCCESS_MESSAGE), ciphertext: action.ciphertext, iv: action.iv }
+        : undefined
+    default:
+      return undefined
+  }
+}
+
+// Every LNURL response may instead be {status: 'ERROR', reason}
+async function getJson(url: string): Promise<any> {
+  const response = await fetch(url)
+  const body = await response.json().catch(() => null)
+  if (body?.status === 'ERROR') {
+    throw new Error(body.reason || `${new URL(url).hostname} refused the request`)
+  }
+  if (!response.ok || !body) {
+    throw new Error(`${new URL(url).hostname} answered with status ${response.status}`)
+  }
+  return body
+}
+
+function callbackUrl(callback: any, domain: string): string {
+  const url = typeof callback === 'string' ? secureUrl(callback) : null
+  if (!url) {
+    throw new Error(`${domain} sent an invalid callback URL`)
+  }
+  return url
+}
+
+function secureUrl(value: string): string | null {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || (url.protocol === 'http:' && isOnion(value)) ? url.toString() : null
+  } catch (error) {
+    return null
+  }
+}
+
+function isOnion(value: string): boolean {
+  try {
+    return new URL(value).hostname.endsWith('.onion')
+  } catch (error) {
+    return false
+  }
+}
+
+function base64ToBytes(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
+
+function formatSats(msat: number): string {
+  return `${(msat / 1000).toLocaleString()} sats`
+}
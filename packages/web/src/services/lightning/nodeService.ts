@@ -0,0 +1,248 @@
+import {
+  LightningService,
+  LightningNodeInfo,
+  LightningChannel,
+  LightningPayment,
+  LightningInvoiceEvent,
+  InvoiceSubscriptionOptions,
+  HoldInvoiceOptions,
+  HoldInvoiceState,
+  HtlcAttempt,
+  PaymentFeeLimit,
+  PaymentOptions,
+  PaymentProbe,
+  PaymentProgress,
+  LnurlRequest,
+  LnurlPayRequest,
+  LnurlPayResult,
+  LnurlWithdrawRequest,
+  LnurlChannelRequest,
+  AtomiqError
+} from '@/types/atomiq'
+import { LightningInvoice } from '@/types/vault'
+import {
+  expectLnurl,
+  fetchPayInvoice,
+  openSuccessAction,
+  resolveLnurl,
+  submitChannelRequest,
+  submitWithdrawInvoice
+} from './lnurl'
+
+// What invoices are created with unless told otherwise, on every backend
+export const INVOICE_EXPIRY = 3600 // seconds
+export const INVOICE_MEMO = 'CrossBTC deposit'
+export const REBALANCE_MEMO = 'CrossBTC channel rebalance' // marks the node's payments to itself
+export const PAYMENT_FEE_LIMIT = 10000 // sats
+export const PAYMENT_TIMEOUT = 60 // seconds
+
+// The most a payment of this many millisatoshis may spend on routing
+export function feeLimitMsat(feeLimit: PaymentFeeLimit = { fixed: PAYMENT_FEE_LIMIT }, amountMsat: number): number {
+  return 'ppm' in feeLimit ? Math.floor(amountMsat * feeLimit.ppm / 1000000) : feeLimit.fixed * 1000
+}
+
+/**
+ * What LND, Core Lightning and Eclair share. Each backend speaks its node's API; the LNURL flows
+ * are built on top of their invoices, payments and peer connections.
+ */
+export abstract class LightningNodeService implements LightningService {
+  abstract getNodeInfo(): Promise<LightningNodeInfo>
+  abstract getBalance(): Promise<{ balance: number; pending_balance: number }>
+  abstract createInvoice(amount: number, memo?: string): Promise<LightningInvoice>
+  abstract payInvoice(invoice: string, options?: PaymentOptions): Promise<LightningPayment>
+  abstract getInvoice(paymentHash: string): Promise<LightningInvoice>
+  abstract subscribeInvoices(
+    listener: (event: LightningInvoiceEvent) => void,
+    options?: InvoiceSubscriptionOptions
+  ): () => void
+  abstract getChannels(): Promise<LightningChannel[]>
+  abstract listPayments(): Promise<LightningPayment[]>
+
+  // Connect to a peer at host:port, succeeding if already connected
+  protected abstract connectPeer(pubkey: string, host: string): Promise<void>
+
+  /**
+   * Read what an LNURL or Lightning Address asks for
+   */
+  async resolveLnurl(input: string): Promise<LnurlRequest> {
+    try {
+      return await resolveLnurl(input)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_LNURL_RESOLVE_FAILED', error)
+    }
+  }
+
+  /**
+   * Pay an LNURL-pay link or Lightning Address; amount in BTC
+   */
+  async payLnurl(
+    destination: string | LnurlPayRequest,
+    amount: number,
+    comment?: string,
+    options?: PaymentOptions
+  ): Promise<LnurlPayResult> {
+    let prepared
+    try {
+      const request = await expectLnurl(destination, 'payRequest')
+      prepared = await fetchPayInvoice(request, Math.round(amount * 100000000000), comment)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_LNURL_PAY_FAILED', error)
+    }
+
+    const payment = await this.payInvoice(prepared.invoice, options)
+    const successAction = prepared.successAction &&
+      await openSuccessAction(prepared.successAction, payment.payment_preimage).catch(() => undefined)
+    return { payment, successAction }
+  }
+
+  /**
+   * Pull a payment from an LNURL-withdraw link into a new invoice, by default for as much as it allows
+   */
+  async withdrawLnurl(source: string | LnurlWithdrawRequest, amount?: number): Promise<LightningInvoice> {
+    let request: LnurlWithdrawRequest
+    let satoshis: number
+    try {
+      request = await expectLnurl(source, 'withdrawRequest')
+      satoshis = Math.floor((amount !== undefined ? Math.round(amount * 100000000000) : request.maxWithdrawable) / 1000)
+      if (satoshis * 1000 < request.minWithdrawable || satoshis * 1000 > request.maxWithdrawable) {
+        throw new Error(`${request.domain} allows withdrawals between ${request.minWithdrawable / 1000} and ${request.maxWithdrawable / 1000} sats`)
+      }
+    } catch (error) {
+      throw this.handleError('LIGHTNING_LNURL_WITHDRAW_FAILED', error)
+    }
+
+    const invoice = await this.createInvoice(satoshis / 100000000, request.defaultDescription || undefined)
+    try {
+      await submitWithdrawInvoice(request, invoice.bolt11)
+      return invoice
+    } catch (error) {
+      throw this.handleError('LIGHTNING_LNURL_WITHDRAW_FAILED', error)
+    }
+  }
+
+  /**
+   * Connect to the node behind an LNURL-channel link and ask it to open a channel to us
+   */
+  async requestLnurlChannel(source: string | LnurlChannelRequest, privateChannel: boolean = false): Promise<void> {
+    let request: LnurlChannelRequest
+    try {
+      request = await expectLnurl(source, 'channelRequest')
+      const [pubkey, host] = request.uri.split('@')
+      await this.connectPeer(pubkey, host)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_LNURL_CHANNEL_FAILED', error)
+    }
+
+    const { identity_pubkey } = await this.getNodeInfo()
+    try {
+      await submitChannelRequest(request, identity_pubkey, privateChannel)
+    } catch (error) {
+      throw this.handleError('LIGHTNING_LNURL_CHANNEL_FAILED', error)
+    }
+  }
+
+  /**
+   * Find the route paying an invoice would take, and what it would cost, without sending anything.
+   * Backends whose node can do this override it.
+   */
+  async probePayment(_invoice: string, _feeLimit?: PaymentFeeLimit): Promise<PaymentProbe> {
+    throw this.unsupported('LIGHTNING_PROBE_UNSUPPORTED', 'payment probing')
+  }
+
+  /**
+   * Pay ourselves `amountSat` out over one channel and back in over another, moving liquidity between
+   * them. Backends whose node can pin a payment's first and last hop override it.
+   */
+  async rebalanceChannels(
+    _outgoingChanId: string,
+    _incomingChanId: string,
+    _amountSat: number,
+    _options?: PaymentOptions
+  ): Promise<LightningPayment> {
+    throw this.unsupported('LIGHTNING_REBALANCE_UNSUPPORTED', 'circular rebalancing')
+  }
+
+  /**
+   * Hold invoices need node support that not every backend has; those that do override these
+   */
+  async createHoldInvoice(_paymentHash: string, _amount: number, _options?: HoldInvoiceOptions): Promise<LightningInvoice> {
+    throw this.unsupported('LIGHTNING_HOLD_INVOICE_UNSUPPORTED', 'hold invoices')
+  }
+
+  async getHoldInvoiceState(_paymentHash: string): Promise<HoldInvoiceState> {
+    throw this.unsupported('LIGHTNING_HOLD_INVOICE_UNSUPPORTED', 'hold invoices')
+  }
+
+  async settleHoldInvoice(_preimage: string): Promise<void> {
+    throw this.unsupported('LIGHTNING_HOLD_INVOICE_UNSUPPORTED', 'hold invoices')
+  }
+
+  async cancelHoldInvoice(_paymentHash: string): Promise<void> {
+    throw this.unsupported('LIGHTNING_HOLD_INVOICE_UNSUPPORTED', 'hold invoices')
+  }
+
+  /**
+   * For nodes whose pay command only answers once the payment is over: list its HTLC attempts every
+   * `intervalMs` while it runs, and once more when it ends, reporting each change to `onProgress`
+   */
+  protected async reportAttempts<T>(
+    payment: Promise<T>,
+    listAttempts: () => Promise<{ paymentHash: string; attempts: HtlcAttempt[] } | null>,
+    onProgress: ((progress: PaymentProgress) => void) | undefined,
+    intervalMs: number
+  ): Promise<T> {
+    if (!onProgress) {
+      return payment
+    }
+
+    let finished = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let last = ''
+    const report = async (status: PaymentProgress['status']) => {
+      const listed = await listAttempts().catch(() => null)
+      // A listing still on its way when the payment ended would report it in flight again
+      if (!listed || (finished && status === 'in_flight')) {
+        return
+      }
+      const progress = { ...listed, status }
+      const key = JSON.stringify(progress)
+      if (key !== last) {
+        last = key
+        onProgress(progress)
+      }
+    }
+    const poll = async () => {
+      await report('in_flight')
+      if (!finished) {
+        timer = setTimeout(poll, intervalMs)
+      }
+    }
+    poll()
+
+    try {
+      const result = await payment
+      finished = true
+      await report('succeeded')
+      return result
+    } catch (error) {
+      finished = true
+      await report('failed')
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private unsupported(code: string, feature: string): AtomiqError {
+    return this.handleError(code, new Error(`This Lightning backend does not support ${feature}`))
+  }
+
+  protected handleError(code: string, error: any): AtomiqError {
+    return {
+      code,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      details: error,
+      timestamp: new Date()
+    }
+  }
+}
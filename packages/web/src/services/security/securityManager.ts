@@ -3,6 +3,8 @@
  * Handles security measures, risk assessment, and protection mechanisms
  */
 
+import type { MultisigProgress } from '@/types/atomiq';
+
 export interface SecurityRisk {
   id: string;
   type: 'smart_contract' | 'market' | 'liquidation' | 'counterparty' | 'operational';
@@ -40,6 +42,7 @@ export interface SecurityConfig {
   maxDailyWithdrawal: number; // BTC
   maxSingleTransaction: number; // BTC
   requireMultiSig: boolean;
+  multiSigThreshold: number; // BTC; larger withdrawals need the custody cosigners' signatures
   autoPauseOnRisk: boolean;
   monitoringEnabled: boolean;
   alertsEnabled: boolean;
@@ -48,6 +51,7 @@ export interface SecurityConfig {
 class SecurityManager {
   private risks: SecurityRisk[] = [];
   private alerts: SecurityAlert[] = [];
+  private withdrawals: { amount: number; timestamp: Date }[] = [];
   private config: SecurityConfig;
   private monitoringInterval: NodeJS.Timeout | null = null;
 
@@ -56,6 +60,7 @@ class SecurityManager {
       maxDailyWithdrawal: 1.0, // 1 BTC per day
       maxSingleTransaction: 0.5, // 0.5 BTC per transaction
       requireMultiSig: true,
+      multiSigThreshold: 0.1, // 0.1 BTC
       autoPauseOnRisk: true,
       monitoringEnabled: true,
       alertsEnabled: true,
@@ -88,6 +93,7 @@ class SecurityManager {
       // In a real implementation, this would load from secure storage
       const storedRisks = localStorage.getItem('security_risks');
       const storedAlerts = localStorage.getItem('security_alerts');
+      const storedWithdrawals = localStorage.getItem('security_withdrawals');
 
       if (storedRisks) {
         this.risks = JSON.parse(storedRisks);
@@ -96,6 +102,10 @@ class SecurityManager {
       if (storedAlerts) {
         this.alerts = JSON.parse(storedAlerts);
       }
+
+      if (storedWithdrawals) {
+        this.withdrawals = JSON.parse(storedWithdrawals);
+      }
     } catch (error) {
       console.error('Failed to load security data:', error);
     }
@@ -372,8 +382,21 @@ class SecurityManager {
    */
   public validateTransaction(
     amount: number,
-    type: 'deposit' | 'withdraw' | 'borrow' | 'repay'
-  ): { valid: boolean; reason?: string } {
+    type: 'deposit' | 'withdraw' | 'borrow' | 'repay',
+    multisig?: MultisigProgress
+  ): { valid: boolean; reason?: string; requiresMultiSig?: boolean } {
+    // The emergency pause comes first: nothing goes out while it is active, cosigned or not
+    const emergencyPause = localStorage.getItem('emergency_pause');
+    if (emergencyPause) {
+      const pauseData = JSON.parse(emergencyPause);
+      if (pauseData.activated) {
+        return {
+          valid: false,
+          reason: 'Emergency pause is active. Please contact support.',
+        };
+      }
+    }
+
     // Check single transaction limit
     if (amount > this.config.maxSingleTransaction) {
       return {
@@ -393,16 +416,15 @@ class SecurityManager {
       }
     }
 
-    // Check if emergency pause is active
-    const emergencyPause = localStorage.getItem('emergency_pause');
-    if (emergencyPause) {
-      const pauseData = JSON.parse(emergencyPause);
-      if (pauseData.activated) {
-        return {
-          valid: false,
-          reason: 'Emergency pause is active. Please contact support.',
-        };
-      }
+    // Large withdrawals only go out once enough cosigners have signed the spend
+    if (type === 'withdraw' && this.config.requireMultiSig && amount > this.config.multiSigThreshold && !multisig?.complete) {
+      return {
+        valid: false,
+        requiresMultiSig: true,
+        reason: multisig
+          ? `Withdrawals above ${this.config.multiSigThreshold} BTC need ${multisig.threshold} of ${multisig.cosigners} cosigner signatures, ${multisig.remaining} still missing`
+          : `Withdrawals above ${this.config.multiSigThreshold} BTC need multisig cosigner approval`,
+      };
     }
 
     return { valid: true };
@@ -412,9 +434,43 @@ class SecurityManager {
    * Get today's withdrawn amount
    */
   private getTodayWithdrawnAmount(): number {
-    // In a real implementation, this would query transaction history
-    // For demo purposes, return a mock value
-    return Math.random() * 0.5;
+    const today = new Date().toDateString();
+    return this.withdrawals
+      .filter(withdrawal => new Date(withdrawal.timestamp).toDateString() === today)
+      .reduce((total, withdrawal) => total + withdrawal.amount, 0);
+  }
+
+  /**
+   * Count a withdrawal that went out towards the daily limit
+   */
+  public recordWithdrawal(amount: number): void {
+    const today = new Date().toDateString();
+    this.withdrawals = [
+      ...this.withdrawals.filter(withdrawal => new Date(withdrawal.timestamp).toDateString() === today),
+      { amount, timestamp: new Date() },
+    ];
+    this.saveWithdrawals();
+  }
+
+  /**
+   * Raise an alert for a deposit whose inputs were spent by another transaction
+   */
+  public reportDoubleSpend(deposit: {
+    txid: string;
+    conflictingTxid?: string;
+    address: string;
+    amount: number; // BTC
+    credited: boolean; // whether it had been credited before confirming
+  }): void {
+    this.createAlert({
+      type: 'unusual_activity',
+      severity: deposit.credited ? 'error' : 'warning',
+      title: 'Deposit Double-Spent',
+      message: deposit.credited
+        ? `A ${deposit.amount} BTC deposit to ${deposit.address} was double-spent after being credited; the credit has been reversed`
+        : `A pending ${deposit.amount} BTC deposit to ${deposit.address} was double-spent before it confirmed`,
+      data: deposit,
+    });
   }
 
   /**
@@ -512,6 +568,17 @@ class SecurityManager {
     }
   }
 
+  /**
+   * Save today's withdrawals to storage
+   */
+  private saveWithdrawals(): void {
+    try {
+      localStorage.setItem('security_withdrawals', JSON.stringify(this.withdrawals));
+    } catch (error) {
+      console.error('Failed to save withdrawals:', error);
+    }
+  }
+
   /**
    * Update security metrics
    */
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import { AccountInterface, CallData, cairo, shortString } from 'starknet'
+import { PaymentRouterContract } from '../paymentRouter'
+
+const ROUTER = '0x0123'
+const INVOICE = '0xab12'
+
+describe('PaymentRouterContract', () => {
+  let account: { execute: jest.Mock; waitForTransaction: jest.Mock; callContract: jest.Mock }
+  let router: PaymentRouterContract
+
+  const succeeded = { isSuccess: () => true, statusReceipt: 'success' }
+  const reverted = { isSuccess: () => false, statusReceipt: 'reverted' }
+
+  beforeEach(() => {
+    account = {
+      execute: jest.fn().mockResolvedValue({ transaction_hash: '0xfeed' }),
+      waitForTransaction: jest.fn().mockResolvedValue(succeeded),
+      callContract: jest.fn()
+    }
+    router = new PaymentRouterContract({ address: ROUTER, account: account as unknown as AccountInterface })
+  })
+
+  it('should create a payment and read its id back by invoice', async () => {
+    account.callContract.mockResolvedValue(['0x2a', '0x0'])
+    const expiry = new Date('2026-01-01T00:00:00Z')
+
+    await expect(router.createPayment(50000, INVOICE, expiry)).resolves.toBe('42')
+
+    expect(account.execute).toHaveBeenCalledWith({
+      contractAddress: ROUTER,
+      entrypoint: 'create_payment',
+      calldata: CallData.compile({
+        amount: cairo.uint256(50000),
+        lightning_invoice: INVOICE,
+        expiry: cairo.uint256(expiry.getTime() / 1000)
+      })
+    })
+    expect(account.waitForTransaction).toHaveBeenCalledWith('0xfeed')
+    expect(account.callContract).toHaveBeenCalledWith({
+      contractAddress: ROUTER,
+      entrypoint: 'get_payment_by_invoice',
+      calldata: CallData.compile({ invoice: INVOICE })
+    })
+  })
+
+  it('should complete a payment with its proof and return the transaction', async () => {
+    await expect(router.completePayment('42', '0x1234')).resolves.toBe('0xfeed')
+
+    expect(account.execute.mock.calls[0][0]).toMatchObject({
+      entrypoint: 'complete_payment',
+      calldata: CallData.compile({ payment_id: cairo.uint256('42'), proof: '0x1234' })
+    })
+  })
+
+  it('should refund a payment with its reason as a short string', async () => {
+    await expect(router.refundPayment('42', 'htlc returned')).resolves.toBe('0xfeed')
+
+    expect(account.execute.mock.calls[0][0]).toMatchObject({
+      entrypoint: 'refund_payment',
+      calldata: CallData.compile({ payment_id: cairo.uint256('42'), reason: shortString.encodeShortString('htlc returned') })
+    })
+    expect(account.waitForTransaction).toHaveBeenCalledWith('0xfeed')
+  })
+
+  it('should fail when the transaction reverts', async () => {
+    account.waitForTransaction.mockResolvedValue(reverted)
+
+    await expect(router.completePayment('42', '0x1234')).rejects.toMatchObject({
+      code: 'PAYMENT_ROUTER_COMPLETE_FAILED',
+      message: 'complete_payment transaction 0xfeed was reverted'
+    })
+  })
+
+  it('should read payment statuses from their enum variant', async () => {
+    account.callContract.mockResolvedValueOnce(['0x1']).mockResolvedValueOnce(['0x4']).mockResolvedValueOnce(['0x9'])
+
+    await expect(router.getPaymentStatus('42')).resolves.toBe('completed')
+    await expect(router.getPaymentStatus('42')).resolves.toBe('expired')
+    await expect(router.getPaymentStatus('42')).rejects.toMatchObject({ code: 'PAYMENT_ROUTER_STATUS_FETCH_FAILED' })
+  })
+
+  it('should read the proof a payment was completed with', async () => {
+    // id, from, amount, lightning_invoice, timestamp, expiry, proof, status
+    account.callContract.mockResolvedValue(['0x2a', '0x0', '0x99', '0xc350', '0x0', INVOICE, '0x1', '0x0', '0x2', '0x0', '0x00abc', '0x1'])
+
+    await expect(router.getPaymentProof('42')).resolves.toBe('0xabc')
+    expect(account.callContract).toHaveBeenCalledWith({
+      contractAddress: ROUTER,
+      entrypoint: 'get_payment',
+      calldata: CallData.compile({ payment_id: cairo.uint256('42') })
+    })
+
+    account.callContract.mockResolvedValue(['0x2a'])
+    await expect(router.getPaymentProof('42')).rejects.toMatchObject({ code: 'PAYMENT_ROUTER_PAYMENT_FETCH_FAILED' })
+  })
+})
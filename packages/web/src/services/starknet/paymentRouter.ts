@@ -0,0 +1,119 @@
+import { AccountInterface, CallData, RawArgsObject, cairo, shortString, uint256 } from 'starknet'
+import { AtomiqError, PaymentRouterService, RouterPaymentStatus } from '@/types/atomiq'
+
+// PaymentStatus variants in declaration order; an enum comes back as its variant index
+const PAYMENT_STATUSES: RouterPaymentStatus[] = ['pending', 'completed', 'failed', 'refunded', 'expired']
+
+// Where proof sits in a serialized Payment: id (u256), from, amount (u256), lightning_invoice, timestamp (u256), expiry (u256)
+const PAYMENT_PROOF_INDEX = 10
+
+export interface PaymentRouterOptions {
+  address: string // deployed PaymentRouter
+  account: AccountInterface // sends the transactions and reads the views
+}
+
+/**
+ * The Cairo PaymentRouter through a Starknet account. Transactions are waited for, so a call that
+ * reverts fails here rather than being reported as sent.
+ */
+export class PaymentRouterContract implements PaymentRouterService {
+  private address: string
+  private account: AccountInterface
+
+  constructor(options: PaymentRouterOptions) {
+    this.address = options.address
+    this.account = options.account
+  }
+
+  /**
+   * Create a pending payment for a Lightning invoice; the id is read back from the invoice map,
+   * since an invoke does not return create_payment's result
+   */
+  async createPayment(amount: number, lightningInvoice: string, expiry: Date): Promise<string> {
+    try {
+      await this.invoke('create_payment', {
+        amount: cairo.uint256(amount),
+        lightning_invoice: lightningInvoice,
+        expiry: cairo.uint256(Math.floor(expiry.getTime() / 1000))
+      })
+      const [low, high] = await this.view('get_payment_by_invoice', { invoice: lightningInvoice })
+      return uint256.uint256ToBN({ low, high }).toString()
+    } catch (error) {
+      throw this.handleError('PAYMENT_ROUTER_CREATE_FAILED', error)
+    }
+  }
+
+  async completePayment(paymentId: string, proof: string): Promise<string> {
+    try {
+      return await this.invoke('complete_payment', { payment_id: cairo.uint256(paymentId), proof })
+    } catch (error) {
+      throw this.handleError('PAYMENT_ROUTER_COMPLETE_FAILED', error)
+    }
+  }
+
+  /**
+   * Refund a pending payment; once this is confirmed a complete_payment still on its way reverts
+   */
+  async refundPayment(paymentId: string, reason: string): Promise<string> {
+    try {
+      return await this.invoke('refund_payment', {
+        payment_id: cairo.uint256(paymentId),
+        reason: shortString.encodeShortString(reason)
+      })
+    } catch (error) {
+      throw this.handleError('PAYMENT_ROUTER_REFUND_FAILED', error)
+    }
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<RouterPaymentStatus> {
+    try {
+      const [variant] = await this.view('get_payment_status', { payment_id: cairo.uint256(paymentId) })
+      const status = PAYMENT_STATUSES[Number(variant)]
+      if (!status) {
+        throw new Error(`Unknown payment status ${variant}`)
+      }
+      return status
+    } catch (error) {
+      throw this.handleError('PAYMENT_ROUTER_STATUS_FETCH_FAILED', error)
+    }
+  }
+
+  async getPaymentProof(paymentId: string): Promise<string> {
+    try {
+      const payment = await this.view('get_payment', { payment_id: cairo.uint256(paymentId) })
+      if (payment.length <= PAYMENT_PROOF_INDEX) {
+        throw new Error(`Payment ${paymentId} came back with ${payment.length} fields`)
+      }
+      return `0x${BigInt(payment[PAYMENT_PROOF_INDEX]).toString(16)}`
+    } catch (error) {
+      throw this.handleError('PAYMENT_ROUTER_PAYMENT_FETCH_FAILED', error)
+    }
+  }
+
+  private async invoke(entrypoint: string, args: RawArgsObject): Promise<string> {
+    const { transaction_hash } = await this.account.execute({
+      contractAddress: this.address,
+      entrypoint,
+      calldata: CallData.compile(args)
+    })
+
+    const receipt = await this.account.waitForTransaction(transaction_hash)
+    if (!receipt.isSuccess()) {
+      throw new Error(`${entrypoint} transaction ${transaction_hash} was ${receipt.statusReceipt}`)
+    }
+    return transaction_hash
+  }
+
+  private view(entrypoint: string, args: RawArgsObject): Promise<string[]> {
+    return this.account.callContract({ contractAddress: this.address, entrypoint, calldata: CallData.compile(args) })
+  }
+
+  private handleError(code: string, error: any): AtomiqError {
+    return {
+      code,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      details: error,
+      timestamp: new Date()
+    }
+  }
+}
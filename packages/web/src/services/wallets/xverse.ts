@@ -2,6 +2,8 @@
  * Xverse Wallet Integration Service
  * Provides Bitcoin wallet functionality through Xverse browser extension and mobile app
  */
+import { FeeTier } from '@/types/atomiq';
+import { DEFAULT_ESPLORA_URLS, FeeEstimator, esploraFeeSource } from '../bitcoin/feeEstimator';
 
 export interface XverseWalletAccount {
   address: string;
@@ -13,7 +15,8 @@ export interface XverseWalletAccount {
 export interface XverseTransactionParams {
   toAddress: string;
   amount: number;
-  feeRate?: number;
+  feeRate?: number; // sat/vB, estimated from feeTier when omitted
+  feeTier?: FeeTier;
   message?: string;
 }
 
@@ -26,6 +29,7 @@ class XverseWalletService {
   private isInstalled: boolean = false;
   private currentAccount: XverseWalletAccount | null = null;
   private network: 'mainnet' | 'testnet' = 'mainnet';
+  private feeEstimators: Partial<Record<'mainnet' | 'testnet', FeeEstimator>> = {};
 
   constructor() {
     this.checkInstallation();
@@ -35,7 +39,7 @@ class XverseWalletService {
    * Check if Xverse wallet is installed
    */
   private checkInstallation(): void {
-    this.isInstalled = !!(window as any).bitcoin && !!(window as any).xverse;
+    this.isInstalled = typeof window !== 'undefined' && !!(window as any).bitcoin && !!(window as any).xverse;
   }
 
   /**
@@ -139,7 +143,7 @@ class XverseWalletService {
         fromAddress: this.currentAccount.address,
         toAddress: params.toAddress,
         amount: Math.floor(params.amount * 100000000), // Convert to satoshis
-        feeRate: params.feeRate || 10, // sat/byte
+        feeRate: params.feeRate ?? await this.getFeeEstimator().getFeeRate(params.feeTier || 'normal'), // sat/vB
         message: params.message || '',
       };
 
@@ -156,6 +160,43 @@ class XverseWalletService {
     }
   }
 
+  /**
+   * Fee estimator for the network the wallet is on
+   */
+  private getFeeEstimator(): FeeEstimator {
+    const network = this.currentAccount?.network || this.network;
+
+    if (!this.feeEstimators[network]) {
+      this.feeEstimators[network] = new FeeEstimator(esploraFeeSource(DEFAULT_ESPLORA_URLS[network]));
+    }
+
+    return this.feeEstimators[network]!;
+  }
+
+  /**
+   * Sign a PSBT without broadcasting it
+   */
+  public async signPsbt(psbtBase64: string, signInputs: Record<string, number[]>): Promise<string> {
+    if (!this.currentAccount) {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      const bitcoin = (window as any).bitcoin;
+
+      const result = await bitcoin.signPsbt({
+        psbt: psbtBase64,
+        signInputs,
+        broadcast: false,
+      });
+
+      return result.psbt;
+    } catch (error) {
+      console.error('PSBT signing error:', error);
+      throw new Error(`Failed to sign PSBT: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Sign message
    */
@@ -301,6 +342,7 @@ declare global {
       requestAccounts: () => Promise<any[]>;
       sendBitcoin: (params: any) => Promise<any>;
       signMessage: (message: string, address: string) => Promise<string>;
+      signPsbt: (params: { psbt: string; signInputs: Record<string, number[]>; broadcast: boolean }) => Promise<{ psbt: string }>;
       switchNetwork: (network: 'mainnet' | 'testnet') => Promise<void>;
       on: (event: string, callback: Function) => void;
     };
@@ -1,10 +1,10 @@
 import { Transaction, LightningInvoice, BridgeTransaction } from './vault'
+import type { AccountInterface } from 'starknet'
 
 // Bitcoin Service Types
 export interface BitcoinAddress {
   address: string
   publicKey: string
-  privateKey?: string
   path: string
 }
 
@@ -21,6 +21,7 @@ export interface BitcoinTransaction {
   vin: BitcoinInput[]
   vout: BitcoinOutput[]
   size: number
+  weight?: number
   fee: number
   status: {
     confirmed: boolean
@@ -28,6 +29,175 @@ export interface BitcoinTransaction {
     block_hash?: string
     block_time?: number
   }
+  psbt?: string // base64, unsigned until signTransaction succeeds
+  hex?: string // raw transaction, set once finalized
+  feeRate?: number // sat/vB
+  coinSelection?: CoinSelectionSummary
+}
+
+export interface PsbtSigner {
+  signPsbt(psbtBase64: string): Promise<string>
+}
+
+export interface MultisigProgress {
+  threshold: number
+  cosigners: number
+  signedBy: string[] // cosigners that have signed every multisig input
+  remaining: number // signatures still needed on the least-signed input
+  complete: boolean
+}
+
+// A custody spend collecting cosigner signatures, one round per signed PSBT
+export interface MultisigSession {
+  toBase64(): string
+  requestSignatures(signer: PsbtSigner): Promise<MultisigProgress>
+  addSignedPsbt(signedBase64: string): MultisigProgress
+  getProgress(): MultisigProgress
+}
+
+export type FeeTier = 'economy' | 'normal' | 'priority'
+
+export interface FeeEstimates {
+  economy: number // sat/vB
+  normal: number
+  priority: number
+  updatedAt: Date
+}
+
+export type CoinSelectionStrategy = 'auto' | 'branch-and-bound' | 'knapsack' | 'largest-first' | 'privacy'
+
+export interface CoinSelectionSummary {
+  strategy: Exclude<CoinSelectionStrategy, 'auto'>
+  waste: number // sats
+  changeless: boolean
+}
+
+export interface CreateTransactionOptions {
+  feeTier?: FeeTier
+  feeRate?: number // sat/vB, overrides feeTier
+  coinSelection?: CoinSelectionStrategy
+  sourceAddresses?: string[] // extra addresses whose UTXOs may be spent alongside fromAddress
+}
+
+export interface PaymentOutput {
+  address: string
+  amount: number // BTC
+}
+
+export type FeeBumpMethod = 'rbf' | 'cpfp'
+
+export interface FeeBumpOptions {
+  method?: FeeBumpMethod // picked automatically when omitted
+  feeTier?: FeeTier
+  feeRate?: number // sat/vB, overrides feeTier
+}
+
+export interface FeeBumpPreview {
+  txid: string
+  method: FeeBumpMethod
+  currentFeeRate: number // sat/vB
+  targetFeeRate: number // sat/vB
+  additionalFee: number // BTC
+  totalFee: number // BTC, for CPFP the parent and child together
+}
+
+export interface FeeBumpResult extends FeeBumpPreview {
+  newTxid: string // the replacement (RBF) or the child (CPFP)
+}
+
+export type PayoutStatus = 'queued' | 'broadcast' | 'confirmed' | 'failed'
+
+export interface PayoutRequest {
+  userId: string
+  destination: string // validated Bitcoin address
+  amount: number // BTC
+}
+
+export interface Payout extends PayoutRequest {
+  id: string
+  status: PayoutStatus
+  queuedAt: Date
+  attempts: number // batches this payout has been part of that failed to go out
+  txid?: string // the batch transaction, shared with every other payout in it
+  vout?: number // this payout's output in the batch
+  replacedTxids?: string[] // earlier versions of the batch, replaced by fee bumps
+  error?: string
+}
+
+export interface PayoutBatchOptions {
+  windowMs?: number // how long the first queued payout waits for others to join it
+  maxOutputs?: number // a batch this large goes out straight away
+  feeTier?: FeeTier
+  maxAttempts?: number // failed batches after which a payout is given up on
+}
+
+export interface ConsolidationOptions {
+  addresses?: string[] // defaults to every address the wallet has issued
+  feeTier?: FeeTier // defaults to economy
+  feeRate?: number // sat/vB, overrides feeTier
+  longTermFeeRate?: number // sat/vB we expect to pay when spending the UTXOs otherwise
+  maxInputs?: number // per transaction
+  linkAddresses?: boolean // false never merges UTXOs of different addresses, at the cost of more transactions
+}
+
+export interface ConsolidationProposal {
+  transaction: BitcoinTransaction // unsigned, with its PSBT
+  inputCount: number
+  amount: number // BTC left in the merged output
+  fee: number // BTC
+  projectedSavings: number // BTC, against spending every input separately at the long-term rate
+  linkedAddresses: string[] // addresses the transaction reveals as having one owner
+}
+
+export interface ConsolidationPlan {
+  feeRate: number // sat/vB
+  longTermFeeRate: number // sat/vB
+  proposals: ConsolidationProposal[] // empty when consolidating now would not pay off
+  projectedSavings: number // BTC, across every proposal
+  fee: number // BTC, across every proposal
+  linkedAddresses: number // distinct addresses merged with another address; 0 costs no privacy
+}
+
+export type AddressEventType = 'mempool' | 'confirmations' | 'confirmed' | 'reorged' | 'dropped' | 'double-spent'
+
+// Relative to the wallet's own addresses
+export type BitcoinTransactionDirection = 'deposit' | 'withdrawal' | 'self-transfer' | 'consolidation'
+
+export interface ClassifiedTransaction {
+  transaction: BitcoinTransaction
+  direction: BitcoinTransactionDirection
+  amount: number // BTC: received for deposits, paid to others for withdrawals, moved between own addresses otherwise
+  fee: number // BTC, when our inputs paid it
+  timestamp: Date // block time, or when the page was read for unconfirmed transactions
+}
+
+export interface TransactionHistoryPage {
+  transactions: ClassifiedTransaction[] // newest first
+  cursor: string | null // pass back for the next page; null once history is exhausted
+}
+
+export interface ZeroConfPolicy {
+  maxAmount: number // BTC; larger mempool deposits wait for confirmations
+  minFeeRate: number // sat/vB; cheaper transactions linger in the mempool where they are easier to replace
+  allowRbf?: boolean // credit deposits that signal replace-by-fee; off by default
+}
+
+export interface ZeroConfAssessment {
+  credit: boolean // the deposit may be credited before it confirms
+  amount: number // BTC paid to the watched address
+  feeRate: number // sat/vB
+  rbf: boolean // the transaction signals replace-by-fee
+  reasons: string[] // why it has to wait for confirmations
+}
+
+export interface AddressEvent {
+  type: AddressEventType
+  address: string
+  txid: string
+  confirmations: number
+  transaction: BitcoinTransaction // last known state
+  zeroConf?: ZeroConfAssessment // on mempool events, when a zero-conf policy is configured
+  conflictingTxid?: string // on double-spent events, the transaction that spent the same inputs
 }
 
 export interface BitcoinInput {
@@ -36,10 +206,12 @@ export interface BitcoinInput {
   scriptsig: string
   scriptsig_asm: string
   witness?: string[]
+  sequence?: number
   prevout?: {
     scriptpubkey: string
     scriptpubkey_asm: string
     scriptpubkey_type: string
+    scriptpubkey_address?: string
     value: number
   }
 }
@@ -48,6 +220,7 @@ export interface BitcoinOutput {
   scriptpubkey: string
   scriptpubkey_asm: string
   scriptpubkey_type: string
+  scriptpubkey_address?: string
   value: number
 }
 
@@ -129,6 +302,213 @@ export interface LightningPayment {
   }]
 }
 
+export type LightningInvoiceEventType = 'settled' | 'canceled' | 'expired'
+
+export interface LightningInvoiceEvent {
+  type: LightningInvoiceEventType
+  invoice: LightningInvoice
+  amountPaid?: number // BTC, on settled events; any-amount invoices are paid whatever the payer chose
+  addIndex: number
+  settleIndex?: number // on settled events
+}
+
+// Where a subscription picks up: events after these indexes are replayed before live ones
+export interface InvoiceSubscriptionOptions {
+  addIndex?: number
+  settleIndex?: number
+}
+
+// Most a payment may spend on routing: a flat amount, or parts per million of what it pays
+export type PaymentFeeLimit = { fixed: number } | { ppm: number } // fixed in sats
+
+export type HtlcAttemptStatus = 'in_flight' | 'succeeded' | 'failed'
+
+// One HTLC sent towards the payee; a multi-part payment has several in flight at once
+export interface HtlcAttempt {
+  id: string
+  status: HtlcAttemptStatus
+  amountSat: number // delivered to the payee
+  feeSat: number
+  hops?: number // when the node reports the route
+  failure?: string
+}
+
+export interface PaymentProgress {
+  paymentHash: string
+  status: HtlcAttemptStatus // of the payment as a whole
+  attempts: HtlcAttempt[] // every attempt so far, failed ones included
+}
+
+export interface PaymentOptions {
+  feeLimit?: PaymentFeeLimit // 10000 sats unless set
+  timeoutSeconds?: number // stop looking for routes after this; HTLCs in flight still resolve
+  maxParts?: number // HTLCs a payment may be split into; 1 pays in a single part
+  onProgress?: (progress: PaymentProgress) => void
+}
+
+// What the node expects paying an invoice to take, found before anything is sent
+export interface PaymentProbe {
+  amountSat: number
+  feeSat: number // routing fees on the route it would try first
+  successProbability: number // 0 to 1, from what the node learned on earlier payments
+  hops: number
+}
+
+// A hold invoice accepts the payer's HTLC and keeps it pending until settled with the preimage or canceled
+export type HoldInvoiceState = 'open' | 'accepted' | 'settled' | 'canceled'
+
+export interface HoldInvoiceOptions {
+  memo?: string
+  expiry?: number // seconds the invoice can be paid for
+  cltvExpiry?: number // blocks the payer's HTLC must stay settleable for
+}
+
+// A PaymentRouter payment, by the contract's PaymentStatus
+export type RouterPaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'expired'
+
+export type ConditionalDepositStatus =
+  | 'awaiting_payment' // hold invoice open
+  | 'held' // HTLC accepted, completing the PaymentRouter payment
+  | 'completed' // payment completed on Starknet and the invoice settled
+  | 'canceled' // Starknet side failed or timed out, HTLC returned to the payer
+  | 'expired' // never paid
+
+export interface ConditionalDeposit {
+  id: string
+  paymentId: string // PaymentRouter payment
+  invoice: LightningInvoice // hold invoice the payer pays
+  amount: number // BTC
+  status: ConditionalDepositStatus
+  createdAt: Date
+  heldAt?: Date // when the payer's HTLC was first seen accepted
+  completeTxHash?: string // complete_payment transaction
+  refundTxHash?: string // refund_payment transaction, sent before the HTLC is given back
+  error?: string
+}
+
+export interface ConditionalDepositOptions {
+  pollIntervalMs?: number // how often held invoices are checked
+  completeTimeoutMs?: number // how long complete_payment is waited on before the router payment is polled instead
+  expiry?: number // seconds, for both the invoice and the router payment
+  cltvExpiry?: number // blocks; also bounds how long a held HTLC waits for the router payment
+}
+
+export interface ConditionalDepositService {
+  create(amount: number, memo?: string): Promise<ConditionalDeposit> // amount in BTC
+  getDeposit(id: string): ConditionalDeposit | undefined
+  listDeposits(): ConditionalDeposit[]
+  subscribe(listener: (deposit: ConditionalDeposit) => void): () => void
+  refresh(): Promise<void>
+  stop(): void
+}
+
+// How a channel's balance is split; amounts in satoshis
+export interface ChannelLiquidity {
+  chanId: string
+  remotePubkey: string
+  active: boolean
+  capacity: number
+  localBalance: number
+  remoteBalance: number
+  outbound: number // what we can send over it, less the reserve we must keep
+  inbound: number // what we can receive over it, less the reserve the peer must keep
+  localRatio: number // share of the balance on our side, 0 to 1
+}
+
+export interface LiquiditySnapshot {
+  channels: ChannelLiquidity[]
+  outbound: number // over active channels
+  inbound: number
+  checkedAt: Date
+}
+
+// Whether the node can move a payment of `requiredSat` in one direction
+export interface LiquidityCheck {
+  direction: 'inbound' | 'outbound'
+  ok: boolean
+  requiredSat: number
+  availableSat: number // over all active channels, for payers and payees that split payments
+  largestChannelSat: number // what a single-part payment can use
+}
+
+// A circular payment out over a channel with too much on our side and back in over one with too little
+export interface RebalanceSuggestion {
+  outgoingChanId: string
+  incomingChanId: string
+  amountSat: number
+  maxFeeSat: number
+}
+
+export interface RebalanceResult extends RebalanceSuggestion {
+  paymentHash: string
+  feeSat: number
+}
+
+export interface LiquidityOptions {
+  targetRatio?: number // local share rebalancing aims for, 0.5 by default
+  tolerance?: number // how far a channel may drift from the target before it is rebalanced
+  minRebalanceSat?: number // smaller moves are not worth their fees
+  feeBudget?: PaymentFeeLimit // the most one rebalance may spend on fees
+  totalFeeBudgetSat?: number // the most all rebalances together may spend
+  reserveRatio?: number // share of capacity each side must keep, 1% on most nodes
+}
+
+// LNURL (LUD-01/02/03/06/09/16) requests as a service describes them; amounts in millisatoshis
+export interface LnurlPayRequest {
+  tag: 'payRequest'
+  url: string // where the request was read from
+  domain: string
+  callback: string
+  minSendable: number
+  maxSendable: number
+  metadata: string // raw, as the invoice's description hash commits to it
+  description: string
+  longDescription?: string
+  image?: string // data: URL
+  identifier?: string // the Lightning Address or email the service names in its metadata
+  commentAllowed: number // longest comment accepted, 0 when comments are not
+}
+
+export interface LnurlWithdrawRequest {
+  tag: 'withdrawRequest'
+  url: string
+  domain: string
+  callback: string
+  k1: string
+  minWithdrawable: number
+  maxWithdrawable: number
+  defaultDescription: string
+}
+
+export interface LnurlChannelRequest {
+  tag: 'channelRequest'
+  url: string
+  domain: string
+  uri: string // pubkey@host:port of the node that will open the channel
+  callback: string
+  k1: string
+}
+
+export type LnurlRequest = LnurlPayRequest | LnurlWithdrawRequest | LnurlChannelRequest
+
+export type LnurlSuccessAction =
+  | { tag: 'message'; message: string }
+  | { tag: 'url'; description: string; url: string }
+  | { tag: 'aes'; description: string; ciphertext: string; iv: string }
+
+// A success action ready to show: `secret` is an `aes` action's plaintext, decrypted with the preimage
+export interface LnurlSuccessMessage {
+  tag: LnurlSuccessAction['tag']
+  message: string
+  url?: string
+  secret?: string
+}
+
+export interface LnurlPayResult {
+  payment: LightningPayment
+  successAction?: LnurlSuccessMessage
+}
+
 // Starknet Types
 export interface StarknetAccount {
   address: string
@@ -202,22 +582,53 @@ export interface BridgeWithdrawal {
 }
 
 // SDK Configuration Types
+export type BitcoinBackendKind = 'esplora' | 'core' | 'electrum'
+
+export type LightningBackendKind = 'lnd' | 'cln' | 'eclair'
+
+export interface EsploraPoolOptions {
+  quorum?: number // providers that must agree on balance and UTXO reads; 1 (default) trusts whichever answers
+  maxTipLag?: number // blocks a provider may trail the best tip before it is left out (default 2)
+  cooldownMs?: number // how long a failing provider sits out (default 30s)
+  rateLimitCooldownMs?: number // after a 429 without Retry-After (default 60s)
+  tipCheckIntervalMs?: number // how often tips are compared when nothing else asks for them (default 60s)
+}
+
 export interface AtomiqConfig {
   apiUrl: string
   apiKey: string
   network: 'mainnet' | 'testnet'
   bitcoin?: {
-    rpcUrl: string
-    network: 'mainnet' | 'testnet'
+    rpcUrl: string // Esplora base URL, Bitcoin Core RPC proxy route, or Electrum server (tcp://, ssl://, ws://, wss://)
+    network: 'mainnet' | 'testnet' | 'regtest'
+    backend?: BitcoinBackendKind // defaults to 'esplora'
+    esploraUrls?: string[] // further Esplora endpoints pooled with rpcUrl for failover and quorum reads
+    esploraPool?: EsploraPoolOptions
+    wallet?: string // Bitcoin Core descriptor wallet for UTXOs and history; without one UTXOs come from scantxoutset
+    xpub?: string
+    descriptor?: string // watch-only wallet from an output descriptor (wpkh, tr, wsh(sortedmulti) or tr(NUMS,sortedmulti_a)), in place of xpub/multisig
+    gapLimit?: number
+    addressType?: 'p2wpkh' | 'p2tr' // deposit addresses: BIP84 P2WPKH (default) or BIP86 Taproot
+    multisig?: {
+      cosigners: string[] // account xpubs
+      threshold: number
+      scriptType?: 'p2wsh' | 'p2tr'
+    }
+    payoutBatch?: PayoutBatchOptions // on-chain withdrawals are batched into one transaction per window
+    zeroConf?: ZeroConfPolicy // credit small mempool deposits before they confirm
   }
   lightning?: {
-    rpcUrl: string
-    macaroon: string
+    rpcUrl: string // LND REST, or the proxy route to Core Lightning's clnrest or Eclair's HTTP API
+    backend?: LightningBackendKind // defaults to 'lnd'
+    macaroon: string // LND only, like cert and invoiceStreamUrl
     cert: string
+    invoiceStreamUrl?: string // wss:// base of LND's REST proxy, to stream invoice updates over a WebSocket instead of fetch
+    liquidity?: LiquidityOptions // inbound and outbound checks and channel rebalancing
   }
   starknet?: {
     network: 'mainnet' | 'testnet'
     rpcUrl: string
+    paymentRouterAddress?: string // deployed PaymentRouter, for conditional Lightning deposits
   }
   bridge?: {
     apiUrl: string
@@ -246,6 +657,10 @@ export interface EnhancedTransaction extends Transaction {
   lightningPayment?: LightningPayment
   starknetTx?: StarknetTransaction
   bridgeTx?: BridgeTransaction
+  payout?: Payout // on-chain withdrawal paid as part of a batch
+  lnurlSuccess?: LnurlSuccessMessage // what an LNURL-pay service showed once paid
+  zeroConf?: ZeroConfAssessment // why a mempool deposit was or was not credited before confirming
+  direction?: BitcoinTransactionDirection // on-chain history only
   confirmations?: number
   blockHeight?: number
   gasUsed?: number
@@ -254,31 +669,78 @@ export interface EnhancedTransaction extends Transaction {
 // SDK Service Interface
 export interface AtomiqSDK {
   bitcoin: BitcoinService
+  payouts: PayoutService
   lightning: LightningService
+  liquidity: LiquidityService
   starknet: StarknetService
   bridge: BridgeService
+  conditionalDeposits: ConditionalDepositService | null // set once enableConditionalDeposits has an account
   config: AtomiqConfig
+  enableConditionalDeposits(account: AccountInterface): ConditionalDepositService
 }
 
 export interface BitcoinService {
-  generateAddress(): Promise<BitcoinAddress>
+  generateAddress(userId?: string): Promise<BitcoinAddress>
   getBalance(address: string): Promise<BitcoinBalance>
-  createTransaction(to: string, amount: number, fromAddress?: string): Promise<BitcoinTransaction>
-  sendTransaction(transaction: BitcoinTransaction): Promise<string>
+  createTransaction(to: string, amount: number, fromAddress?: string, options?: CreateTransactionOptions): Promise<BitcoinTransaction>
+  createBatchTransaction(payments: PaymentOutput[], fromAddress?: string, options?: CreateTransactionOptions): Promise<BitcoinTransaction>
+  getFeeEstimates(): Promise<FeeEstimates>
+  signTransaction(transaction: BitcoinTransaction, signer?: PsbtSigner): Promise<BitcoinTransaction>
+  sendTransaction(transaction: BitcoinTransaction, signer?: PsbtSigner): Promise<string>
+  startMultisigSigning(transaction: BitcoinTransaction): MultisigSession
+  completeMultisigSigning(transaction: BitcoinTransaction, session: MultisigSession): BitcoinTransaction
+  broadcastTransaction(hex: string): Promise<string>
+  previewFeeBump(txid: string, options?: FeeBumpOptions): Promise<FeeBumpPreview>
+  bumpFee(txid: string, options?: FeeBumpOptions, signer?: PsbtSigner): Promise<FeeBumpResult>
   getTransaction(txid: string): Promise<BitcoinTransaction>
-  monitorAddress(address: string, callback: (tx: BitcoinTransaction) => void): void
+  getTransactionStatus(txid: string): Promise<BitcoinTransaction['status'] | null> // null once the backend no longer knows the txid
+  getSpendingTransaction(txid: string, vout: number): Promise<string | null> // null while unspent, or when the backend cannot tell
+  getTransactionHistory(addresses: string[], cursor?: string | null): Promise<TransactionHistoryPage>
+  monitorAddress(address: string, listener: (event: AddressEvent) => void): () => void
+  stopMonitoringAddress(address: string): void
+}
+
+export interface PayoutService {
+  enqueue(request: PayoutRequest): Payout
+  flush(): Promise<string | null> // txid of the batch sent, if any
+  getPayout(id: string): Payout | undefined
+  listPayouts(userId?: string): Payout[]
+  bumpBatch(txid: string, options?: FeeBumpOptions): Promise<FeeBumpResult>
+  refresh(): Promise<void> // mark payouts whose batch has confirmed, and requeue those whose batch can no longer confirm
+  subscribe(listener: (payout: Payout) => void): () => void
 }
 
 export interface LightningService {
   getNodeInfo(): Promise<LightningNodeInfo>
   getBalance(): Promise<{ balance: number; pending_balance: number }>
   createInvoice(amount: number, memo?: string): Promise<LightningInvoice>
-  payInvoice(invoice: string): Promise<LightningPayment>
+  payInvoice(invoice: string, options?: PaymentOptions): Promise<LightningPayment>
+  probePayment(invoice: string, feeLimit?: PaymentFeeLimit): Promise<PaymentProbe>
   getInvoice(paymentHash: string): Promise<LightningInvoice>
+  subscribeInvoices(listener: (event: LightningInvoiceEvent) => void, options?: InvoiceSubscriptionOptions): () => void
+  resolveLnurl(input: string): Promise<LnurlRequest>
+  payLnurl(destination: string | LnurlPayRequest, amount: number, comment?: string, options?: PaymentOptions): Promise<LnurlPayResult>
+  withdrawLnurl(source: string | LnurlWithdrawRequest, amount?: number): Promise<LightningInvoice>
+  requestLnurlChannel(source: string | LnurlChannelRequest, privateChannel?: boolean): Promise<void>
+  createHoldInvoice(paymentHash: string, amount: number, options?: HoldInvoiceOptions): Promise<LightningInvoice>
+  getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState>
+  settleHoldInvoice(preimage: string): Promise<void>
+  cancelHoldInvoice(paymentHash: string): Promise<void>
   getChannels(): Promise<LightningChannel[]>
+  rebalanceChannels(outgoingChanId: string, incomingChanId: string, amountSat: number, options?: PaymentOptions): Promise<LightningPayment>
   listPayments(): Promise<LightningPayment[]>
 }
 
+export interface LiquidityService {
+  getLiquidity(): Promise<LiquiditySnapshot>
+  checkReceive(amount: number): Promise<LiquidityCheck> // amount in BTC
+  checkSend(amount: number): Promise<LiquidityCheck>
+  suggestRebalances(snapshot?: LiquiditySnapshot): Promise<RebalanceSuggestion[]>
+  rebalance(suggestion: RebalanceSuggestion): Promise<RebalanceResult>
+  rebalanceAll(): Promise<RebalanceResult[]>
+  getFeeSpend(): { spentSat: number; budgetSat: number }
+}
+
 export interface StarknetService {
   getAccount(address: string): Promise<StarknetAccount>
   getBalance(address: string, tokenAddress?: string): Promise<StarknetBalance>
@@ -287,6 +749,15 @@ export interface StarknetService {
   waitForTransaction(hash: string): Promise<StarknetTransaction>
 }
 
+// The Cairo PaymentRouter contract; amounts in satoshis, ids as decimal strings, felts as 0x-prefixed hex
+export interface PaymentRouterService {
+  createPayment(amount: number, lightningInvoice: string, expiry: Date): Promise<string> // payment id
+  completePayment(paymentId: string, proof: string): Promise<string> // transaction hash
+  refundPayment(paymentId: string, reason: string): Promise<string> // reason as a short string; transaction hash
+  getPaymentStatus(paymentId: string): Promise<RouterPaymentStatus>
+  getPaymentProof(paymentId: string): Promise<string> // what complete_payment was sent, 0x0 until then
+}
+
 export interface BridgeService {
   getQuote(fromChain: string, toChain: string, amount: number): Promise<BridgeQuote>
   createDeposit(quote: BridgeQuote): Promise<BridgeDeposit>
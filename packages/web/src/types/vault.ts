@@ -1,3 +1,5 @@
+import { PaymentFeeLimit } from './atomiq'
+
 export interface Vault {
   id: string
   userId: string
@@ -33,13 +35,16 @@ export interface DepositRequest {
   amount: number
   method: 'bitcoin' | 'lightning'
   userId: string
+  lnurl?: string // LNURL-withdraw code to pull a Lightning deposit from
 }
 
 export interface WithdrawalRequest {
   amount: number
   method: 'bitcoin' | 'lightning'
-  destination: string
+  destination: string // address, bitcoin: URI, BOLT11 invoice, LNURL-pay or Lightning Address
   userId: string
+  comment?: string // sent along to LNURL-pay services that accept one
+  feeLimit?: PaymentFeeLimit // Lightning only
 }
 
 export interface Transaction {